@@ -83,6 +83,14 @@ const DenialDecisionAssistant = lazy(() => import("@/pages/denial-decision-assis
 const Reupload = lazy(() => import("@/pages/reupload"));
 const PayRent = lazy(() => import("@/pages/pay-rent"));
 const AutoPay = lazy(() => import("@/pages/auto-pay"));
+const SignDocument = lazy(() => import("@/pages/sign-document"));
+const TenantInvite = lazy(() => import("@/pages/tenant-invite"));
+const TeamInvite = lazy(() => import("@/pages/team-invite"));
+const TenantPortal = lazy(() => import("@/pages/tenant-portal"));
+const Maintenance = lazy(() => import("@/pages/maintenance"));
+const EvictionTimeline = lazy(() => import("@/pages/eviction-timeline"));
+const NoticeServiceLog = lazy(() => import("@/pages/notice-service-log"));
+const Reports = lazy(() => import("@/pages/reports"));
 
 // Admin route wrapper - redirects non-admin users to dashboard
 function AdminRoute({ component: Component }: { component: React.ComponentType }) {
@@ -103,13 +111,37 @@ function AdminRoute({ component: Component }: { component: React.ComponentType }
   );
 }
 
+// Tenant logins get the portal and the public token pages it links to
+// (pay rent, auto-pay, signing) - nothing from the landlord app.
+function TenantRouter() {
+  return (
+    <Suspense fallback={null}>
+    <Switch>
+      <Route path="/portal" component={TenantPortal} />
+      <Route path="/pay-rent/:token" component={PayRent} />
+      <Route path="/auto-pay/:token" component={AutoPay} />
+      <Route path="/sign/:token" component={SignDocument} />
+      <Route path="/tenant-invite/:token" component={TenantInvite} />
+      <Route path="/privacy" component={Privacy} />
+      <Route path="/terms" component={Terms} />
+      <Route path="/contact" component={Contact} />
+      <Route>{() => <Redirect to="/portal" />}</Route>
+    </Switch>
+    </Suspense>
+  );
+}
+
 function Router() {
-  const { isAuthenticated, isLoading } = useAuth();
+  const { isAuthenticated, isTenant, isLoading } = useAuth();
 
   if (isLoading) {
     return null;
   }
 
+  if (isAuthenticated && isTenant) {
+    return <TenantRouter />;
+  }
+
   if (!isAuthenticated) {
     return (
       <Suspense fallback={null}>
@@ -153,6 +185,13 @@ function Router() {
         <Route path="/pay-rent/:token" component={PayRent} />
         {/* Public tenant auto-pay authorization (recurring ACH) */}
         <Route path="/auto-pay/:token" component={AutoPay} />
+        {/* Public e-signature page (tokenized signer link) */}
+        <Route path="/sign/:token" component={SignDocument} />
+        {/* Tenant portal invite (creates the tenant login) */}
+        <Route path="/tenant-invite/:token" component={TenantInvite} />
+        {/* Team invite (creates or links a team member login) */}
+        <Route path="/team-invite/:token" component={TeamInvite} />
+        <Route path="/portal">{() => <Redirect to="/login" />}</Route>
         {/* Redirect protected routes to login */}
         <Route path="/dashboard">{() => <Redirect to="/login" />}</Route>
         <Route path="/templates">{() => <Redirect to="/login" />}</Route>
@@ -171,7 +210,11 @@ function Router() {
         <Route path="/notifications">{() => <Redirect to="/login" />}</Route>
         <Route path="/messages">{() => <Redirect to="/login" />}</Route>
         <Route path="/rent-ledger">{() => <Redirect to="/login" />}</Route>
+        <Route path="/reports">{() => <Redirect to="/login" />}</Route>
         <Route path="/tenant-issues">{() => <Redirect to="/login" />}</Route>
+        <Route path="/maintenance">{() => <Redirect to="/login" />}</Route>
+        <Route path="/eviction-timeline">{() => <Redirect to="/login" />}</Route>
+        <Route path="/notice-service-log">{() => <Redirect to="/login" />}</Route>
         <Route path="/communications">{() => <Redirect to="/login" />}</Route>
         <Route path="/legal-updates">{() => <Redirect to="/login" />}</Route>
         <Route component={NotFound} />
@@ -217,6 +260,12 @@ function Router() {
       <Route path="/pay-rent/:token" component={PayRent} />
       {/* Public tenant auto-pay authorization */}
       <Route path="/auto-pay/:token" component={AutoPay} />
+      {/* Public e-signature page */}
+      <Route path="/sign/:token" component={SignDocument} />
+      {/* Tenant portal invite */}
+      <Route path="/tenant-invite/:token" component={TenantInvite} />
+      {/* Team invite */}
+      <Route path="/team-invite/:token" component={TeamInvite} />
       <Route path="/compliance" component={Compliance} />
       <Route path="/screening/explain" component={ScreeningExplain} />
       <Route path="/screening-report-decoder" component={ScreeningReportDecoder} />
@@ -229,8 +278,12 @@ function Router() {
       <Route path="/denial-decision" component={DenialDecisionAssistant} />
       <Route path="/audit-history" component={AuditHistory} />
       <Route path="/tenant-issues" component={TenantIssues} />
+      <Route path="/maintenance" component={Maintenance} />
+      <Route path="/eviction-timeline" component={EvictionTimeline} />
+      <Route path="/notice-service-log" component={NoticeServiceLog} />
       <Route path="/communications" component={Communications} />
       <Route path="/rent-ledger" component={RentLedger} />
+      <Route path="/reports" component={Reports} />
       <Route path="/legal-updates" component={LegalUpdatesPage} />
       <Route path="/subscribe" component={Subscribe} />
       <Route path="/activate" component={Activate} />
@@ -259,14 +312,50 @@ function Router() {
   );
 }
 
+function TenantLayout({ children }: { children: React.ReactNode }) {
+  const { logout, isLoggingOut } = useAuth();
+  const [, setLocation] = useLocation();
+
+  const handleLogout = () => {
+    logout();
+    setLocation("/");
+  };
+
+  return (
+    <div className="flex flex-col min-h-screen w-full">
+      <header className="flex items-center justify-between p-4 border-b bg-background">
+        <span className="font-semibold" data-testid="text-tenant-header">LeaseShield Tenant Portal</span>
+        <div className="flex items-center gap-2">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={handleLogout}
+            disabled={isLoggingOut}
+            data-testid="button-tenant-logout"
+          >
+            <LogOut className="h-4 w-4 mr-2" />
+            {isLoggingOut ? "Logging out..." : "Log Out"}
+          </Button>
+          <ThemeToggle />
+        </div>
+      </header>
+      <main className="flex-1 overflow-y-auto">{children}</main>
+    </div>
+  );
+}
+
 function AuthenticatedLayout({ children }: { children: React.ReactNode }) {
-  const { isAuthenticated, logout, isLoggingOut } = useAuth();
+  const { isAuthenticated, isTenant, logout, isLoggingOut } = useAuth();
   const [, setLocation] = useLocation();
 
   if (!isAuthenticated) {
     return <>{children}</>;
   }
 
+  if (isTenant) {
+    return <TenantLayout>{children}</TenantLayout>;
+  }
+
   const style = {
     "--sidebar-width": "16rem",
     "--sidebar-width-icon": "3rem",
@@ -17,7 +17,7 @@ import {
   type ClauseUnit,
 } from '@shared/clauseRegistry';
 
-const SUPPORTED_STATES = [
+export const SUPPORTED_STATES = [
   { id: 'UT', name: 'Utah' }, { id: 'TX', name: 'Texas' },
   { id: 'ND', name: 'North Dakota' }, { id: 'SD', name: 'South Dakota' },
   { id: 'NC', name: 'North Carolina' }, { id: 'OH', name: 'Ohio' },
@@ -54,6 +54,7 @@ function unitSuffix(unit: ClauseUnit | string | null | undefined): string {
     case 'days': return 'days';
     case 'hours': return 'hours';
     case 'months_rent': return 'months of rent';
+    case 'percent_per_year': return '% per year';
     default: return '';
   }
 }
@@ -0,0 +1,454 @@
+import { useMemo, useState } from 'react';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { AlertTriangle, Plus } from 'lucide-react';
+import { DISCLOSURE_CATEGORIES, disclosureHeading, disclosuresInEffect, type DisclosureStatus } from '@shared/stateDisclosures';
+import { SUPPORTED_STATES } from '@/components/admin/clause-values-tab';
+
+interface StateDisclosureRow {
+  id: string;
+  stateId: string;
+  disclosureKey: string;
+  title: string;
+  body: string;
+  citation: string | null;
+  category: string | null;
+  sortOrder: number | null;
+  version: number;
+  effectiveDate: string;
+  status: DisclosureStatus | null;
+  reviewedAt: string | null;
+  reviewNotes: string | null;
+  needsReview: boolean | null;
+  needsReviewReason: string | null;
+  updatedAt: string;
+}
+
+interface ListResponse {
+  disclosures: StateDisclosureRow[];
+  builtInStates: string[];
+}
+
+interface DisclosureForm {
+  id?: string; // set when editing a draft
+  keyLocked: boolean; // editing a draft or adding a version of an existing key
+  disclosureKey: string;
+  title: string;
+  body: string;
+  citation: string;
+  category: string;
+  sortOrder: string;
+  effectiveDate: string;
+}
+
+const STATUS_LABELS: Record<DisclosureStatus, string> = {
+  draft: 'Draft',
+  in_review: 'In review',
+  approved: 'Approved',
+  archived: 'Archived',
+};
+
+const NO_CATEGORY = 'none';
+
+function emptyForm(): DisclosureForm {
+  return {
+    keyLocked: false,
+    disclosureKey: '',
+    title: '',
+    body: '',
+    citation: '',
+    category: NO_CATEGORY,
+    sortOrder: '0',
+    effectiveDate: new Date().toISOString().slice(0, 10),
+  };
+}
+
+function formFromRow(row: StateDisclosureRow, asDraft: boolean): DisclosureForm {
+  return {
+    id: asDraft ? row.id : undefined,
+    keyLocked: true,
+    disclosureKey: row.disclosureKey,
+    title: row.title,
+    body: row.body,
+    citation: row.citation ?? '',
+    category: row.category ?? NO_CATEGORY,
+    sortOrder: String(row.sortOrder ?? 0),
+    effectiveDate: asDraft ? row.effectiveDate : new Date().toISOString().slice(0, 10),
+  };
+}
+
+function VersionRow({ row, inEffect }: { row: StateDisclosureRow; inEffect: boolean }) {
+  const { toast } = useToast();
+  const [reviewNotes, setReviewNotes] = useState('');
+
+  const actionMutation = useMutation({
+    mutationFn: async (action: 'submit' | 'approve' | 'reject' | 'archive' | 'resolve-review') => {
+      const res = await apiRequest('POST', `/api/admin/state-disclosures/${row.id}/${action}`, {
+        reviewNotes: reviewNotes.trim() || null,
+      });
+      return res.json();
+    },
+    onSuccess: () => {
+      setReviewNotes('');
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/state-disclosures'] });
+    },
+    onError: (err: Error) => {
+      toast({ title: 'Error', description: err.message || 'Action failed', variant: 'destructive' });
+    },
+  });
+
+  const status = row.status ?? 'draft';
+
+  return (
+    <div className="rounded-md border p-3 space-y-2" data-testid={`disclosure-version-${row.id}`}>
+      <div className="flex items-center gap-2 flex-wrap">
+        <span className="text-sm font-medium">v{row.version}</span>
+        <Badge variant={status === 'approved' ? 'default' : 'outline'}>{STATUS_LABELS[status]}</Badge>
+        <span className="text-xs text-muted-foreground">Effective {row.effectiveDate}</span>
+        {inEffect && <Badge variant="secondary">In effect today</Badge>}
+        {row.needsReview && (
+          <Badge variant="outline" className="border-amber-500 text-amber-700 dark:text-amber-300">
+            <AlertTriangle className="h-3 w-3 mr-1" />
+            Needs review
+          </Badge>
+        )}
+      </div>
+      <p className="text-sm font-medium">{disclosureHeading(row.title, row.citation)}</p>
+      <p className="text-sm text-muted-foreground whitespace-pre-wrap">{row.body}</p>
+      {row.needsReview && row.needsReviewReason && (
+        <p className="text-xs text-amber-700 dark:text-amber-300">{row.needsReviewReason}</p>
+      )}
+      {row.reviewNotes && (
+        <p className="text-xs text-muted-foreground">Review notes: {row.reviewNotes}</p>
+      )}
+
+      {(status === 'in_review' || row.needsReview) && (
+        <Input
+          value={reviewNotes}
+          onChange={(e) => setReviewNotes(e.target.value)}
+          placeholder="Review notes"
+          data-testid={`input-review-notes-${row.id}`}
+        />
+      )}
+      <div className="flex gap-2 flex-wrap">
+        {status === 'draft' && (
+          <Button size="sm" onClick={() => actionMutation.mutate('submit')} disabled={actionMutation.isPending}>
+            Submit for review
+          </Button>
+        )}
+        {status === 'in_review' && (
+          <>
+            <Button size="sm" onClick={() => actionMutation.mutate('approve')} disabled={actionMutation.isPending}>
+              Approve
+            </Button>
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => actionMutation.mutate('reject')}
+              disabled={actionMutation.isPending || !reviewNotes.trim()}
+            >
+              Send back
+            </Button>
+          </>
+        )}
+        {row.needsReview && (
+          <Button size="sm" variant="outline" onClick={() => actionMutation.mutate('resolve-review')} disabled={actionMutation.isPending}>
+            No change needed
+          </Button>
+        )}
+        {status !== 'archived' && status !== 'draft' && (
+          <Button size="sm" variant="ghost" onClick={() => actionMutation.mutate('archive')} disabled={actionMutation.isPending}>
+            Archive
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export function StateDisclosuresTab() {
+  const { toast } = useToast();
+  const [stateId, setStateId] = useState<string>('UT');
+  const [form, setForm] = useState<DisclosureForm | null>(null);
+
+  const { data, isLoading } = useQuery<ListResponse>({
+    queryKey: ['/api/admin/state-disclosures', stateId],
+    queryFn: async () => {
+      const res = await apiRequest('GET', `/api/admin/state-disclosures?stateId=${stateId}`);
+      return res.json();
+    },
+  });
+
+  const disclosures = useMemo(() => data?.disclosures ?? [], [data]);
+  const today = new Date().toISOString().slice(0, 10);
+  const inEffectIds = useMemo(
+    () => new Set(disclosuresInEffect(disclosures, today).map((d) => d.id)),
+    [disclosures, today],
+  );
+  const byKey = useMemo(() => {
+    const groups = new Map<string, StateDisclosureRow[]>();
+    for (const d of disclosures) {
+      const list = groups.get(d.disclosureKey) ?? [];
+      list.push(d);
+      groups.set(d.disclosureKey, list);
+    }
+    return Array.from(groups.entries());
+  }, [disclosures]);
+  const flaggedCount = disclosures.filter((d) => d.needsReview).length;
+
+  const importMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest('POST', '/api/admin/state-disclosures/import-built-in', {});
+      return res.json();
+    },
+    onSuccess: (resp: { imported: number; states: string[] }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/state-disclosures'] });
+      toast({
+        title: 'Import complete',
+        description: resp.imported > 0
+          ? `Imported ${resp.imported} disclosures for ${resp.states.join(', ')}.`
+          : 'Every state already has library disclosures.',
+      });
+    },
+    onError: (err: Error) => {
+      toast({ title: 'Error', description: err.message || 'Import failed', variant: 'destructive' });
+    },
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async (values: DisclosureForm) => {
+      const payload = {
+        title: values.title,
+        body: values.body,
+        citation: values.citation.trim() || null,
+        category: values.category === NO_CATEGORY ? null : values.category,
+        sortOrder: Number(values.sortOrder) || 0,
+        effectiveDate: values.effectiveDate,
+      };
+      const res = values.id
+        ? await apiRequest('PATCH', `/api/admin/state-disclosures/${values.id}`, payload)
+        : await apiRequest('POST', '/api/admin/state-disclosures', {
+            ...payload,
+            stateId,
+            disclosureKey: values.disclosureKey.trim(),
+          });
+      return res.json();
+    },
+    onSuccess: () => {
+      setForm(null);
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/state-disclosures'] });
+      toast({ title: 'Saved', description: 'Draft saved. Submit it for review to publish.' });
+    },
+    onError: (err: Error) => {
+      toast({ title: 'Error', description: err.message || 'Failed to save', variant: 'destructive' });
+    },
+  });
+
+  return (
+    <div className="space-y-4" data-testid="tab-content-state-disclosures">
+      <Card>
+        <CardHeader>
+          <CardTitle>State Lease Disclosures</CardTitle>
+          <CardDescription>
+            The state-specific provisions section of generated leases. Each change is a new
+            version with an effective date; leases render the approved version in effect on
+            their start date. States with nothing approved use the built-in text.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="flex flex-wrap items-end gap-3">
+            <div className="flex-1 min-w-[200px]">
+              <Label className="text-xs">State</Label>
+              <Select value={stateId} onValueChange={setStateId}>
+                <SelectTrigger data-testid="select-disclosure-state">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {SUPPORTED_STATES.map((s) => (
+                    <SelectItem key={s.id} value={s.id}>
+                      {s.name} ({s.id})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {flaggedCount > 0 && (
+              <Badge variant="outline" className="border-amber-500 text-amber-700 dark:text-amber-300" data-testid="badge-disclosures-flagged">
+                <AlertTriangle className="h-3 w-3 mr-1" />
+                {flaggedCount} flagged by legislation
+              </Badge>
+            )}
+            <Button
+              variant="outline"
+              onClick={() => importMutation.mutate()}
+              disabled={importMutation.isPending}
+              data-testid="button-import-built-in-disclosures"
+              title="Copy the built-in text into the library for states that have no disclosures yet"
+            >
+              Import built-in
+            </Button>
+            <Button onClick={() => setForm(emptyForm())} data-testid="button-new-disclosure">
+              <Plus className="h-4 w-4 mr-2" />
+              New disclosure
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {isLoading ? (
+        <Card>
+          <CardContent className="py-12 text-center text-muted-foreground">Loading…</CardContent>
+        </Card>
+      ) : byKey.length === 0 ? (
+        <Card>
+          <CardContent className="py-12 text-center text-muted-foreground">
+            No library disclosures for {stateId}. Leases use the built-in text
+            {data?.builtInStates.includes(stateId) ? '' : ' (the generic defaults)'}.
+          </CardContent>
+        </Card>
+      ) : (
+        byKey.map(([key, versions]) => (
+          <Card key={key} data-testid={`card-disclosure-${key}`}>
+            <CardHeader className="pb-3">
+              <div className="flex items-start justify-between gap-2 flex-wrap">
+                <div>
+                  <CardTitle className="text-base">{versions[0].title}</CardTitle>
+                  <CardDescription>{key}</CardDescription>
+                </div>
+                <div className="flex items-center gap-2">
+                  {versions[0].category && (
+                    <Badge variant="outline">
+                      {DISCLOSURE_CATEGORIES.find((c) => c.value === versions[0].category)?.label ?? versions[0].category}
+                    </Badge>
+                  )}
+                  <Button size="sm" variant="outline" onClick={() => setForm(formFromRow(versions[0], false))}>
+                    New version
+                  </Button>
+                  {versions.some((v) => v.status === 'draft') && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => setForm(formFromRow(versions.find((v) => v.status === 'draft')!, true))}
+                    >
+                      Edit draft
+                    </Button>
+                  )}
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {versions.map((v) => (
+                <VersionRow key={v.id} row={v} inEffect={inEffectIds.has(v.id)} />
+              ))}
+            </CardContent>
+          </Card>
+        ))
+      )}
+
+      <Dialog open={form !== null} onOpenChange={(open) => !open && setForm(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>{form?.id ? 'Edit draft' : form?.keyLocked ? 'New version' : 'New disclosure'}</DialogTitle>
+            <DialogDescription>
+              Saved as a draft for {stateId}. It renders on leases once approved and its effective date has arrived.
+            </DialogDescription>
+          </DialogHeader>
+          {form && (
+            <div className="space-y-3">
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                <div>
+                  <Label className="text-xs">Key</Label>
+                  <Input
+                    value={form.disclosureKey}
+                    onChange={(e) => setForm({ ...form, disclosureKey: e.target.value })}
+                    disabled={form.keyLocked}
+                    placeholder="e.g. security_deposit"
+                    data-testid="input-disclosure-key"
+                  />
+                </div>
+                <div>
+                  <Label className="text-xs">Effective date</Label>
+                  <Input
+                    type="date"
+                    value={form.effectiveDate}
+                    onChange={(e) => setForm({ ...form, effectiveDate: e.target.value })}
+                    data-testid="input-disclosure-effective-date"
+                  />
+                </div>
+                <div>
+                  <Label className="text-xs">Order</Label>
+                  <Input
+                    type="number"
+                    value={form.sortOrder}
+                    onChange={(e) => setForm({ ...form, sortOrder: e.target.value })}
+                  />
+                </div>
+              </div>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                <div>
+                  <Label className="text-xs">Title</Label>
+                  <Input
+                    value={form.title}
+                    onChange={(e) => setForm({ ...form, title: e.target.value })}
+                    data-testid="input-disclosure-title"
+                  />
+                </div>
+                <div>
+                  <Label className="text-xs">Citation</Label>
+                  <Input
+                    value={form.citation}
+                    onChange={(e) => setForm({ ...form, citation: e.target.value })}
+                    placeholder="e.g. Utah Code 57-17-3"
+                    data-testid="input-disclosure-citation"
+                  />
+                </div>
+              </div>
+              <div>
+                <Label className="text-xs">Compliance category</Label>
+                <Select value={form.category} onValueChange={(category) => setForm({ ...form, category })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_CATEGORY}>None (flagged by any relevant bill)</SelectItem>
+                    {DISCLOSURE_CATEGORIES.map((c) => (
+                      <SelectItem key={c.value} value={c.value}>{c.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label className="text-xs">Text</Label>
+                <Textarea
+                  rows={6}
+                  value={form.body}
+                  onChange={(e) => setForm({ ...form, body: e.target.value })}
+                  data-testid="input-disclosure-body"
+                />
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setForm(null)}>Cancel</Button>
+            <Button
+              onClick={() => form && saveMutation.mutate(form)}
+              disabled={saveMutation.isPending || !form?.disclosureKey.trim() || !form?.title.trim() || !form?.body.trim()}
+              data-testid="button-save-disclosure"
+            >
+              Save draft
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -17,6 +17,10 @@ import {
   Users,
   Wrench,
   Gavel,
+  ClipboardList,
+  Scale,
+  BarChart3,
+  type LucideIcon,
 } from "lucide-react";
 import { useQuery } from "@tanstack/react-query";
 import { Badge } from "@/components/ui/badge";
@@ -38,6 +42,7 @@ import { Button } from "@/components/ui/button";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Logo } from "@/components/logo";
 import { useAuth } from "@/hooks/useAuth";
+import type { TeamArea } from "@shared/organizations";
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -46,7 +51,16 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 
-const mainItems = [
+interface NavItem {
+  title: string;
+  url: string;
+  icon: LucideIcon;
+  iconColor: string;
+  // Team members only see items their role can reach
+  area?: TeamArea;
+}
+
+const mainItems: NavItem[] = [
   {
     title: "Dashboard",
     url: "/dashboard",
@@ -61,18 +75,21 @@ const mainItems = [
   },
   {
     title: "Document Library",
+    area: "documents",
     url: "/my-documents",
     icon: FileText,
     iconColor: "text-amber-500 dark:text-amber-400",
   },
   {
     title: "Properties",
+    area: "properties",
     url: "/properties",
     icon: Building2,
     iconColor: "text-indigo-500 dark:text-indigo-400",
   },
   {
     title: "Application Inbox",
+    area: "applications",
     url: "/rental-submissions",
     icon: Users,
     iconColor: "text-emerald-500 dark:text-emerald-400",
@@ -95,6 +112,20 @@ const mainItems = [
     icon: Wrench,
     iconColor: "text-orange-500 dark:text-orange-400",
   },
+  {
+    title: "Maintenance",
+    area: "properties",
+    url: "/maintenance",
+    icon: ClipboardList,
+    iconColor: "text-amber-600 dark:text-amber-400",
+  },
+  {
+    title: "Eviction Timeline",
+    area: "documents",
+    url: "/eviction-timeline",
+    icon: Scale,
+    iconColor: "text-red-600 dark:text-red-400",
+  },
   {
     title: "Legislation Updates",
     url: "/legal-updates",
@@ -109,13 +140,21 @@ const mainItems = [
   },
   {
     title: "Rent Payments",
+    area: "ledger",
     url: "/rent-ledger",
     icon: DollarSign,
     iconColor: "text-green-600 dark:text-green-400",
   },
+  {
+    title: "Owner Reports",
+    area: "ledger",
+    url: "/reports",
+    icon: BarChart3,
+    iconColor: "text-teal-600 dark:text-teal-400",
+  },
 ];
 
-const resourceItems = [
+const resourceItems: NavItem[] = [
   {
     title: "Help Center",
     url: "/help",
@@ -124,7 +163,7 @@ const resourceItems = [
   },
 ];
 
-const accountItems = [
+const accountItems: NavItem[] = [
   {
     title: "Admin",
     url: "/admin",
@@ -133,6 +172,7 @@ const accountItems = [
   },
   {
     title: "Billing",
+    area: "billing",
     url: "/billing",
     icon: CreditCard,
     iconColor: "text-emerald-500 dark:text-emerald-400",
@@ -147,7 +187,7 @@ const accountItems = [
 
 export function AppSidebar() {
   const [location] = useLocation();
-  const { user, logout } = useAuth();
+  const { user, logout, canAccess } = useAuth();
   const { setOpenMobile } = useSidebar();
 
   const { data: unreadData } = useQuery<{ count: number }>({
@@ -170,6 +210,7 @@ export function AppSidebar() {
     queryKey: ["/api/rental/submissions/pending-count"],
     refetchInterval: 90000,
     staleTime: 60000,
+    enabled: canAccess("applications"),
   });
   const pendingAppsCount = pendingAppsData?.count || 0;
 
@@ -204,7 +245,7 @@ export function AppSidebar() {
           </SidebarGroupLabel>
           <SidebarGroupContent>
             <SidebarMenu className="gap-1">
-              {mainItems.map((item) => (
+              {mainItems.filter((item) => !item.area || canAccess(item.area)).map((item) => (
                 <SidebarMenuItem key={item.title}>
                   <SidebarMenuButton asChild isActive={location === item.url} className="h-10">
                     <Link href={item.url} onClick={handleNavClick} data-testid={`link-${item.title.toLowerCase().replace(' ', '-')}`}>
@@ -276,6 +317,7 @@ export function AppSidebar() {
               </SidebarMenuItem>
               {accountItems
                 .filter((item) => item.title !== "Admin" || user?.isAdmin)
+                .filter((item) => !item.area || canAccess(item.area))
                 .map((item) => (
                 <SidebarMenuItem key={item.title}>
                   <SidebarMenuButton asChild isActive={location === item.url} className="h-10">
@@ -0,0 +1,132 @@
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { ListOrdered, Loader2 } from "lucide-react";
+import { APPLICANT_QUEUE_POLICIES } from "@shared/applicantQueue";
+
+interface ApplicantQueueData {
+  unitId: string;
+  unitLabel: string | null;
+  propertyName: string;
+  policy: string;
+  entries: Array<{
+    submissionId: string;
+    position: number;
+    submittedAt: string;
+    status: string;
+    waitlistedAt: string | null;
+    applicantName: string | null;
+    decision: "approved" | "denied" | null;
+    decidedAt: string | null;
+  }>;
+  auditTrail: Array<{
+    id: string;
+    submissionId: string;
+    position: number;
+    eventType: string;
+    metadata: Record<string, any> | null;
+    createdAt: string;
+  }>;
+}
+
+const AUDIT_LABELS: Record<string, string> = {
+  decision_approved: "Approved",
+  decision_denied: "Denied",
+  waitlisted: "Waitlisted",
+};
+
+function formatDateTime(value: string): string {
+  return new Date(value).toLocaleString(undefined, { dateStyle: "medium", timeStyle: "short" });
+}
+
+function QueueBadge({ entry }: { entry: ApplicantQueueData["entries"][number] }) {
+  if (entry.decision === "approved") {
+    return <Badge className="bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-100">Approved</Badge>;
+  }
+  if (entry.decision === "denied") {
+    return <Badge className="bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-100">Denied</Badge>;
+  }
+  if (entry.status === "waitlisted") {
+    return <Badge className="bg-amber-100 text-amber-800 dark:bg-amber-900 dark:text-amber-100">Waitlisted</Badge>;
+  }
+  return <Badge variant="outline" className="text-muted-foreground">Awaiting decision</Badge>;
+}
+
+// Every completed application for the submission's unit, in the order they
+// came in, and the decisions and waitlist notices recorded against them.
+export function ApplicantQueuePanel({ unitId, submissionId }: { unitId: string; submissionId: string }) {
+  const { data, isLoading } = useQuery<ApplicantQueueData>({ queryKey: ["/api/rental/units", unitId, "queue"] });
+
+  if (isLoading) {
+    return (
+      <Card>
+        <CardContent className="py-6 flex justify-center">
+          <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+        </CardContent>
+      </Card>
+    );
+  }
+  if (!data || data.entries.length === 0) return null;
+
+  const current = data.entries.find((e) => e.submissionId === submissionId);
+  const policy = APPLICANT_QUEUE_POLICIES.find((p) => p.value === data.policy);
+  const firstInTime = data.policy === "first_in_time";
+  const ahead = current
+    ? data.entries.filter((e) => e.position < current.position && !e.decision).length
+    : 0;
+
+  return (
+    <Card data-testid="card-applicant-queue">
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <ListOrdered className="h-5 w-5" />
+          Applicant Queue
+        </CardTitle>
+        <CardDescription>
+          {current
+            ? `#${current.position} of ${data.entries.length} completed applications for ${data.unitLabel ? `Unit ${data.unitLabel}` : data.propertyName}.`
+            : `This application isn't complete yet, so it isn't in the queue.`}
+          {" "}{policy?.label}: {policy?.description}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {firstInTime && current && !current.decision && ahead > 0 && (
+          <p className="text-sm rounded-md border border-amber-300 bg-amber-50 dark:bg-amber-950 p-3" data-testid="text-queue-blocked">
+            {ahead} earlier application{ahead === 1 ? " needs" : "s need"} a decision before this one can be decided.
+          </p>
+        )}
+
+        <div className="space-y-1">
+          {data.entries.map((entry) => (
+            <div
+              key={entry.submissionId}
+              className={`flex flex-wrap items-center gap-3 rounded-md p-2 text-sm ${entry.submissionId === submissionId ? "bg-primary/10" : "bg-muted/50"}`}
+              data-testid={`row-queue-${entry.submissionId}`}
+            >
+              <span className="w-8 font-semibold tabular-nums">#{entry.position}</span>
+              <div className="flex-1 min-w-[160px]">
+                <p>{entry.applicantName || "Unnamed applicant"}</p>
+                <p className="text-xs text-muted-foreground">Completed {formatDateTime(entry.submittedAt)}</p>
+              </div>
+              <QueueBadge entry={entry} />
+            </div>
+          ))}
+        </div>
+
+        {data.auditTrail.length > 0 && (
+          <div className="space-y-1">
+            <p className="text-sm font-medium">Processing history</p>
+            {data.auditTrail.map((event) => (
+              <p key={event.id} className="text-xs text-muted-foreground" data-testid={`text-queue-audit-${event.id}`}>
+                {formatDateTime(event.createdAt)} · #{event.position} {AUDIT_LABELS[event.eventType] || event.eventType}
+                {event.eventType === "waitlisted" && event.metadata?.noticeSentTo && ` · notice sent to ${event.metadata?.noticeSentTo}`}
+                {event.eventType !== "waitlisted" && (event.metadata?.queue?.undecidedAhead?.length ?? 0) > 0 &&
+                  ` · ${event.metadata?.queue.undecidedAhead.length} earlier undecided`}
+              </p>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,139 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { CheckCircle2, Clock, Copy, Loader2 } from "lucide-react";
+import { formatTimeRemaining, type ApprovalHoldStatus } from "@shared/approvalHold";
+
+interface ApprovalHoldData {
+  status: ApprovalHoldStatus;
+  leaseSignDeadlineAt: string | null;
+  leaseSignedAt: string | null;
+  holdCompletedAt: string | null;
+  holdExpiredAt: string | null;
+  pausedApplicationLinkCount: number;
+  holdingDeposit: {
+    id: string;
+    amount: number;
+    status: string;
+    paidAt: string | null;
+    paymentLink: string;
+  } | null;
+}
+
+const STATUS_BADGES: Record<ApprovalHoldStatus, { label: string; className: string }> = {
+  none: { label: "", className: "" },
+  pending: { label: "Awaiting lease", className: "bg-amber-100 text-amber-800 dark:bg-amber-900 dark:text-amber-100" },
+  completed: { label: "Lease secured", className: "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-100" },
+  expired: { label: "Approval expired", className: "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-100" },
+};
+
+function formatDateTime(value: string): string {
+  return new Date(value).toLocaleString(undefined, { dateStyle: "medium", timeStyle: "short" });
+}
+
+// Lease-signing countdown and holding deposit for an approved application.
+export function ApprovalHoldStatus({ submissionId }: { submissionId: string }) {
+  const { toast } = useToast();
+  const queryKey = ["/api/rental/submissions", submissionId, "approval-hold"];
+  const { data, isLoading } = useQuery<ApprovalHoldData>({ queryKey });
+
+  const leaseSignedMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/rental/submissions/${submissionId}/approval-hold/lease-signed`, {});
+      return res.json() as Promise<{ status: ApprovalHoldStatus }>;
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey });
+      toast({
+        title: "Lease marked signed",
+        description: result.status === "completed"
+          ? "The approval is secured."
+          : "The approval is still waiting on the holding deposit.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message || "Failed to mark the lease signed.", variant: "destructive" });
+    },
+  });
+
+  if (isLoading) return <Loader2 className="h-4 w-4 mt-3 animate-spin text-muted-foreground" />;
+  if (!data || data.status === "none" || !data.leaseSignDeadlineAt) return null;
+
+  const badge = STATUS_BADGES[data.status];
+  const deposit = data.holdingDeposit;
+
+  return (
+    <div className="mt-3 rounded-md border p-3 space-y-2 text-sm" data-testid="approval-hold-status">
+      <div className="flex flex-wrap items-center gap-2">
+        <Clock className="h-4 w-4 text-muted-foreground" />
+        <span className="font-medium">Lease signing deadline:</span>
+        <span>{formatDateTime(data.leaseSignDeadlineAt)}</span>
+        {data.status === "pending" && (
+          <span className="text-muted-foreground" data-testid="text-hold-remaining">
+            ({formatTimeRemaining(data.leaseSignDeadlineAt)})
+          </span>
+        )}
+        <Badge className={badge.className} data-testid="badge-hold-status">{badge.label}</Badge>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        {data.leaseSignedAt ? (
+          <span className="flex items-center gap-1 text-green-700 dark:text-green-400">
+            <CheckCircle2 className="h-4 w-4" /> Lease signed {formatDateTime(data.leaseSignedAt)}
+          </span>
+        ) : (
+          <>
+            <span className="text-muted-foreground">Lease not signed yet</span>
+            {data.status === "pending" && (
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => leaseSignedMutation.mutate()}
+                disabled={leaseSignedMutation.isPending}
+                data-testid="button-mark-lease-signed"
+              >
+                {leaseSignedMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Mark Lease Signed
+              </Button>
+            )}
+          </>
+        )}
+      </div>
+
+      {deposit && (
+        <div className="flex flex-wrap items-center gap-2">
+          <span>
+            Holding deposit ${(deposit.amount / 100).toFixed(2)}:{" "}
+            {deposit.status === "paid" ? `paid ${deposit.paidAt ? formatDateTime(deposit.paidAt) : ""}` : deposit.status}
+          </span>
+          {data.status === "pending" && deposit.status !== "paid" && (
+            <Button
+              size="sm"
+              variant="ghost"
+              onClick={() => {
+                navigator.clipboard.writeText(deposit.paymentLink);
+                toast({ title: "Payment link copied" });
+              }}
+              data-testid="button-copy-holding-deposit-link"
+            >
+              <Copy className="h-4 w-4 mr-1" /> Copy Payment Link
+            </Button>
+          )}
+        </div>
+      )}
+
+      {data.status === "pending" && data.pausedApplicationLinkCount > 0 && (
+        <p className="text-xs text-muted-foreground">
+          {data.pausedApplicationLinkCount} application link{data.pausedApplicationLinkCount === 1 ? " is" : "s are"} paused until the lease is secured. They reopen if the approval expires.
+        </p>
+      )}
+      {data.status === "expired" && data.holdExpiredAt && (
+        <p className="text-xs text-muted-foreground">
+          Expired {formatDateTime(data.holdExpiredAt)}. The applicant was notified and the unit's application links were reopened.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,324 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { DollarSign, Download, Loader2, Plus, Trash2 } from "lucide-react";
+import type { RentalIncomeSource } from "@shared/schema";
+import {
+  INCOME_SOURCE_TYPES,
+  PAY_FREQUENCIES,
+  monthlyIncomeCents,
+  type HouseholdIncome,
+} from "@shared/incomeVerification";
+
+interface IncomeVerificationData {
+  people: Array<{ id: string; role: string; name: string | null }>;
+  sources: RentalIncomeSource[];
+  documents: Array<{ id: string; personId: string; fileType: string; originalName: string }>;
+  requirement: { rentCents: number | null; incomeMultiple: number | null; selectionCriteriaVersion: number | null };
+  result: HouseholdIncome;
+  checkedAt: string | null;
+}
+
+const ROLE_LABELS: Record<string, string> = {
+  applicant: "Applicant",
+  coapplicant: "Co-Applicant",
+  guarantor: "Guarantor",
+};
+
+function money(cents: number | null | undefined): string {
+  return `$${((cents || 0) / 100).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+const EMPTY_FORM = {
+  personId: "",
+  sourceType: "employment",
+  payerName: "",
+  payFrequency: "biweekly",
+  amountDollars: "",
+  startDate: "",
+  documentFileId: "",
+};
+
+export function IncomeVerificationPanel({ submissionId }: { submissionId: string }) {
+  const { toast } = useToast();
+  const [form, setForm] = useState(EMPTY_FORM);
+  const queryKey = ["/api/rental/submissions", submissionId, "income"];
+
+  const { data, isLoading } = useQuery<IncomeVerificationData>({ queryKey });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey });
+    queryClient.invalidateQueries({ queryKey: ["/api/rental/submissions"] });
+  };
+  const onError = (error: Error) => {
+    toast({ title: "Error", description: error.message || "Failed to update income.", variant: "destructive" });
+  };
+
+  const addMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/rental/submissions/${submissionId}/income/sources`, {
+        personId: form.personId,
+        sourceType: form.sourceType,
+        payerName: form.payerName || null,
+        payFrequency: form.payFrequency,
+        grossAmountCents: Math.round(parseFloat(form.amountDollars) * 100),
+        startDate: form.startDate || null,
+        documentFileId: form.documentFileId || null,
+      });
+      return res.json();
+    },
+    onSuccess: () => {
+      setForm({ ...EMPTY_FORM, personId: form.personId });
+      refresh();
+    },
+    onError,
+  });
+
+  const importMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/rental/submissions/${submissionId}/income/import`);
+      return res.json() as Promise<{ imported: number }>;
+    },
+    onSuccess: (result) => {
+      toast({
+        title: result.imported > 0 ? "Income Imported" : "Nothing to Import",
+        description: result.imported > 0
+          ? `Added stated income for ${result.imported} ${result.imported === 1 ? "person" : "people"}. Check it against their documents.`
+          : "No new stated income was found on the application forms.",
+      });
+      refresh();
+    },
+    onError,
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ sourceId, verified }: { sourceId: string; verified: boolean }) => {
+      const res = await apiRequest("PATCH", `/api/rental/submissions/${submissionId}/income/sources/${sourceId}`, { verified });
+      return res.json();
+    },
+    onSuccess: refresh,
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (sourceId: string) => {
+      const res = await apiRequest("DELETE", `/api/rental/submissions/${submissionId}/income/sources/${sourceId}`);
+      return res.json();
+    },
+    onSuccess: refresh,
+    onError,
+  });
+
+  if (isLoading || !data) {
+    return (
+      <Card data-testid="card-income-verification">
+        <CardContent className="py-8 flex justify-center">
+          <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const { result, requirement } = data;
+  const personDocuments = data.documents.filter((d) => d.personId === form.personId);
+  const amountValid = parseFloat(form.amountDollars) > 0;
+
+  return (
+    <Card data-testid="card-income-verification">
+      <CardHeader className="flex flex-row items-start justify-between gap-2">
+        <div>
+          <CardTitle className="text-lg flex items-center gap-2">
+            <DollarSign className="h-5 w-5" />
+            Income Verification
+          </CardTitle>
+          <CardDescription>
+            Household gross income across everyone on the application, including guarantors.
+          </CardDescription>
+        </div>
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => importMutation.mutate()}
+          disabled={importMutation.isPending}
+          data-testid="button-import-income"
+        >
+          <Download className="h-4 w-4 mr-1" />
+          Import from Application
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-3 sm:grid-cols-3">
+          <div className="rounded-md border p-3">
+            <p className="text-xs text-muted-foreground">Household monthly income</p>
+            <p className="text-lg font-semibold tabular-nums" data-testid="text-income-total">{money(result.monthlyTotalCents)}</p>
+          </div>
+          <div className="rounded-md border p-3">
+            <p className="text-xs text-muted-foreground">Required</p>
+            <p className="text-lg font-semibold tabular-nums" data-testid="text-income-required">
+              {result.requiredMonthlyCents !== null ? money(result.requiredMonthlyCents) : "-"}
+            </p>
+            {result.requiredMonthlyCents !== null && (
+              <p className="text-xs text-muted-foreground">
+                {requirement.incomeMultiple}x rent of {money(requirement.rentCents)}
+              </p>
+            )}
+          </div>
+          <div className="rounded-md border p-3 flex flex-col justify-center">
+            {data.sources.length === 0 ? (
+              <Badge variant="outline" className="w-fit text-muted-foreground">No income entered</Badge>
+            ) : result.meetsRequirement === null ? (
+              <Badge variant="outline" className="w-fit text-muted-foreground" data-testid="badge-income-result">No requirement</Badge>
+            ) : result.meetsRequirement ? (
+              <Badge className="w-fit bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-100" data-testid="badge-income-result">
+                Meets requirement
+              </Badge>
+            ) : (
+              <Badge className="w-fit bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-100" data-testid="badge-income-result">
+                Short by {money((result.requiredMonthlyCents || 0) - result.monthlyTotalCents)}/mo
+              </Badge>
+            )}
+          </div>
+        </div>
+
+        {result.requiredMonthlyCents === null && (
+          <p className="text-xs text-muted-foreground">
+            {requirement.rentCents === null
+              ? "Set the unit's rent to compare income against it."
+              : "Publish selection criteria with a minimum income for this property to compare against."}
+          </p>
+        )}
+
+        {data.people.map((person) => {
+          const sources = data.sources.filter((s) => s.personId === person.id);
+          if (sources.length === 0) return null;
+          return (
+            <div key={person.id} className="space-y-2" data-testid={`income-person-${person.id}`}>
+              <div className="flex items-center justify-between">
+                <p className="text-sm font-medium">
+                  {person.name} <span className="text-muted-foreground font-normal">· {ROLE_LABELS[person.role] || person.role}</span>
+                </p>
+                <p className="text-sm tabular-nums">{money(result.byPersonCents[person.id])}/mo</p>
+              </div>
+              {sources.map((source) => {
+                const document = data.documents.find((d) => d.id === source.documentFileId);
+                return (
+                  <div key={source.id} className="flex flex-wrap items-center gap-3 rounded-md bg-muted/50 p-2 text-sm" data-testid={`row-income-source-${source.id}`}>
+                    <div className="flex-1 min-w-[160px]">
+                      <p>{source.payerName || INCOME_SOURCE_TYPES.find((t) => t.value === source.sourceType)?.label}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {money(source.grossAmountCents)} {PAY_FREQUENCIES.find((f) => f.value === source.payFrequency)?.label.toLowerCase()}
+                        {" = "}{money(monthlyIncomeCents(source.grossAmountCents, source.payFrequency))}/mo
+                        {source.startDate && ` · since ${source.startDate}`}
+                        {document && ` · ${document.originalName}`}
+                        {source.origin === "application" && " · stated on application"}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Switch
+                        checked={!!source.verifiedAt}
+                        onCheckedChange={(checked) => updateMutation.mutate({ sourceId: source.id, verified: checked })}
+                        disabled={updateMutation.isPending}
+                        data-testid={`switch-income-verified-${source.id}`}
+                      />
+                      <span className="text-xs text-muted-foreground">Verified</span>
+                    </div>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      onClick={() => deleteMutation.mutate(source.id)}
+                      disabled={deleteMutation.isPending}
+                      data-testid={`button-delete-income-${source.id}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                );
+              })}
+            </div>
+          );
+        })}
+
+        <div className="border-t pt-4 space-y-3">
+          <p className="text-sm font-medium">Add income</p>
+          <div className="grid gap-3 sm:grid-cols-3">
+            <div className="space-y-1">
+              <Label>Person</Label>
+              <Select value={form.personId} onValueChange={(v) => setForm({ ...form, personId: v, documentFileId: "" })}>
+                <SelectTrigger data-testid="select-income-person"><SelectValue placeholder="Select person" /></SelectTrigger>
+                <SelectContent>
+                  {data.people.map((p) => (
+                    <SelectItem key={p.id} value={p.id}>{p.name} ({ROLE_LABELS[p.role] || p.role})</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label>Type</Label>
+              <Select value={form.sourceType} onValueChange={(v) => setForm({ ...form, sourceType: v })}>
+                <SelectTrigger data-testid="select-income-type"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {INCOME_SOURCE_TYPES.map((t) => <SelectItem key={t.value} value={t.value}>{t.label}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label>Employer / payer</Label>
+              <Input value={form.payerName} onChange={(e) => setForm({ ...form, payerName: e.target.value })} data-testid="input-income-payer" />
+            </div>
+            <div className="space-y-1">
+              <Label>Pay frequency</Label>
+              <Select value={form.payFrequency} onValueChange={(v) => setForm({ ...form, payFrequency: v })}>
+                <SelectTrigger data-testid="select-income-frequency"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {PAY_FREQUENCIES.map((f) => <SelectItem key={f.value} value={f.value}>{f.label}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label>Gross per pay period ($)</Label>
+              <Input
+                type="number"
+                step="0.01"
+                value={form.amountDollars}
+                onChange={(e) => setForm({ ...form, amountDollars: e.target.value })}
+                data-testid="input-income-amount"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label>Start date</Label>
+              <Input type="date" value={form.startDate} onChange={(e) => setForm({ ...form, startDate: e.target.value })} data-testid="input-income-start" />
+            </div>
+            {personDocuments.length > 0 && (
+              <div className="space-y-1 sm:col-span-2">
+                <Label>Supporting document</Label>
+                <Select value={form.documentFileId} onValueChange={(v) => setForm({ ...form, documentFileId: v })}>
+                  <SelectTrigger data-testid="select-income-document"><SelectValue placeholder="None" /></SelectTrigger>
+                  <SelectContent>
+                    {personDocuments.map((d) => <SelectItem key={d.id} value={d.id}>{d.originalName}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+          </div>
+          <Button
+            size="sm"
+            onClick={() => addMutation.mutate()}
+            disabled={!form.personId || !amountValid || addMutation.isPending}
+            data-testid="button-add-income"
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            {addMutation.isPending ? "Adding..." : "Add Income"}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,372 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { IndividualizedAssessment } from "@shared/schema";
+import {
+  FAIR_CHANCE_STEP_LABELS,
+  MITIGATING_FACTORS,
+  isFinalLetterUnlocked,
+  type AssessmentStage,
+} from "@shared/individualizedAssessment";
+import { CheckCircle, Clock, FileText, Loader2, Lock, Scale } from "lucide-react";
+
+type AssessmentWithStage = IndividualizedAssessment & { stage: AssessmentStage };
+
+interface AssessmentView {
+  assessment: AssessmentWithStage | null;
+  requiredSteps: string[];
+  required: boolean;
+}
+
+// The decision the assessment hangs off - a saved denial audit log entry.
+export interface AssessmentDecision {
+  id: string;
+  stateId: string;
+  cityId: string | null;
+  countyId: string | null;
+  applicantName: string | null;
+  generatedDenialText: string | null;
+  criteriaSelectedForDenial: string[] | null;
+}
+
+const STAGE_LABELS: Record<AssessmentStage, string> = {
+  assessing: "Assessing",
+  awaiting_response: "Waiting on applicant",
+  ready_for_decision: "Ready for final decision",
+  completed: "Final letter issued",
+};
+
+function formatDate(date: string): string {
+  return new Date(`${date}T00:00:00`).toLocaleDateString("en-US", { weekday: "short", month: "short", day: "numeric", year: "numeric" });
+}
+
+function daysUntil(date: string): number {
+  const now = new Date();
+  const todayMidnight = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  return Math.round((new Date(`${date}T00:00:00`).getTime() - todayMidnight.getTime()) / 86400000);
+}
+
+/**
+ * Guided fair-chance workflow for a criminal-history denial: weigh mitigating
+ * factors, send the pre-adverse notice, wait out the applicant's response
+ * window, and only then issue the final adverse action letter.
+ */
+export function IndividualizedAssessmentPanel({
+  decision,
+  applicantAddress,
+}: {
+  decision: AssessmentDecision;
+  applicantAddress?: string;
+}) {
+  const { toast } = useToast();
+  const queryKey = ["/api/denial-decision/audit-history", decision.id, "assessment"];
+  const [factors, setFactors] = useState<Set<string>>(new Set());
+  const [offenseRelevance, setOffenseRelevance] = useState("");
+  const [assessmentNotes, setAssessmentNotes] = useState("");
+  const [respondedOn, setRespondedOn] = useState("");
+  const [applicantResponse, setApplicantResponse] = useState("");
+  const [downloading, setDownloading] = useState<string | null>(null);
+
+  const { data: view, isLoading } = useQuery<AssessmentView>({ queryKey });
+  const assessment = view?.assessment || null;
+
+  useEffect(() => {
+    if (!assessment) return;
+    setFactors(new Set(assessment.mitigatingFactors));
+    setOffenseRelevance(assessment.offenseRelevance || "");
+    setAssessmentNotes(assessment.assessmentNotes || "");
+    setRespondedOn(assessment.applicantRespondedOn || "");
+    setApplicantResponse(assessment.applicantResponse || "");
+  }, [assessment?.id, assessment?.updatedAt]);
+
+  const onSaved = (updated: AssessmentWithStage) => {
+    queryClient.setQueryData<AssessmentView>(queryKey, (prev) => prev ? { ...prev, assessment: updated } : prev);
+  };
+  const onError = (e: Error) => toast({ title: "Error", description: e.message, variant: "destructive" });
+
+  const startMutation = useMutation({
+    mutationFn: async () => (await apiRequest("POST", `/api/denial-decision/audit-history/${decision.id}/assessment`)).json(),
+    onSuccess: onSaved,
+    onError,
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async (updates: Record<string, unknown>) =>
+      (await apiRequest("PATCH", `/api/denial-decision/audit-history/${decision.id}/assessment`, updates)).json(),
+    onSuccess: (updated) => {
+      onSaved(updated);
+      toast({ title: "Assessment Saved" });
+    },
+    onError,
+  });
+
+  const noticeSentMutation = useMutation({
+    mutationFn: async () =>
+      (await apiRequest("POST", `/api/denial-decision/audit-history/${decision.id}/assessment/pre-adverse-notice`, {})).json(),
+    onSuccess: (updated) => {
+      onSaved(updated);
+      queryClient.invalidateQueries({ queryKey: ["/api/denial-decision/audit-history"] });
+    },
+    onError,
+  });
+
+  const downloadLetter = async (letterType: "pre-adverse" | "adverse") => {
+    setDownloading(letterType);
+    try {
+      const res = await apiRequest("POST", "/api/denial-decision/adverse-action-letter", {
+        applicantName: decision.applicantName || "Applicant",
+        applicantAddress: applicantAddress || "",
+        stateId: decision.stateId,
+        cityId: decision.cityId || undefined,
+        countyId: decision.countyId || undefined,
+        denialReasons: decision.generatedDenialText || "",
+        criteriaIds: decision.criteriaSelectedForDenial || [],
+        isFcra: true,
+        letterType,
+        auditLogId: decision.id,
+      });
+      const url = window.URL.createObjectURL(await res.blob());
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = `${letterType === "pre-adverse" ? "pre-adverse-action-notice" : "adverse-action-letter"}-${new Date().toISOString().split("T")[0]}.pdf`;
+      document.body.appendChild(a);
+      a.click();
+      window.URL.revokeObjectURL(url);
+      a.remove();
+      queryClient.invalidateQueries({ queryKey });
+    } catch (e: any) {
+      toast({ title: "Download Failed", description: e.message || "Failed to generate the letter", variant: "destructive" });
+    } finally {
+      setDownloading(null);
+    }
+  };
+
+  if (isLoading || !view) {
+    return <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />;
+  }
+
+  const locked = assessment ? assessment.completedAt !== null : false;
+  const stepsText = view.requiredSteps.map((s) => FAIR_CHANCE_STEP_LABELS[s] || s.replace(/_/g, " ")).join(", ");
+
+  return (
+    <Card className="border-amber-300 dark:border-amber-700" data-testid="card-individualized-assessment">
+      <CardHeader>
+        <div className="flex items-center justify-between gap-2 flex-wrap">
+          <CardTitle className="flex items-center gap-2 text-lg">
+            <Scale className="h-5 w-5" />
+            Individualized Assessment
+          </CardTitle>
+          {assessment && (
+            <Badge variant="outline" data-testid="badge-assessment-stage">{STAGE_LABELS[assessment.stage]}</Badge>
+          )}
+        </div>
+        <CardDescription>
+          {view.required ? `Local fair-chance rules apply to this denial${stepsText ? ` (${stepsText})` : ""}. ` : ""}Weigh the applicant's circumstances,
+          send a pre-adverse notice, and give them time to respond before the denial is final.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {!assessment ? (
+          <div className="space-y-3">
+            {!view.required && (
+              <p className="text-sm text-muted-foreground">
+                This denial's reasons don't call for an assessment in its jurisdiction, but you can still document one.
+              </p>
+            )}
+            <Button onClick={() => startMutation.mutate()} disabled={startMutation.isPending} data-testid="button-start-assessment">
+              {startMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Start Assessment
+            </Button>
+          </div>
+        ) : (
+          <>
+            <div className="space-y-3">
+              <h4 className="font-medium text-sm">1. Mitigating factors</h4>
+              <div className="grid gap-2 sm:grid-cols-2">
+                {MITIGATING_FACTORS.map((factor) => (
+                  <label key={factor.value} className="flex items-start gap-2 text-sm cursor-pointer">
+                    <Checkbox
+                      checked={factors.has(factor.value)}
+                      disabled={locked}
+                      onCheckedChange={(checked) => setFactors((prev) => {
+                        const next = new Set(prev);
+                        if (checked) next.add(factor.value);
+                        else next.delete(factor.value);
+                        return next;
+                      })}
+                      className="mt-0.5"
+                      data-testid={`checkbox-factor-${factor.value}`}
+                    />
+                    {factor.label}
+                  </label>
+                ))}
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="offense-relevance">How does the record relate to resident safety or property?</Label>
+                <Textarea
+                  id="offense-relevance"
+                  value={offenseRelevance}
+                  onChange={(e) => setOffenseRelevance(e.target.value)}
+                  disabled={locked}
+                  placeholder="Describe the specific, demonstrable risk - required before the notice goes out."
+                  data-testid="input-offense-relevance"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="assessment-notes">Notes</Label>
+                <Textarea
+                  id="assessment-notes"
+                  value={assessmentNotes}
+                  onChange={(e) => setAssessmentNotes(e.target.value)}
+                  disabled={locked}
+                  data-testid="input-assessment-notes"
+                />
+              </div>
+              {!locked && (
+                <Button
+                  variant="outline"
+                  onClick={() => saveMutation.mutate({
+                    mitigatingFactors: Array.from(factors),
+                    offenseRelevance: offenseRelevance || null,
+                    assessmentNotes: assessmentNotes || null,
+                  })}
+                  disabled={saveMutation.isPending}
+                  data-testid="button-save-assessment"
+                >
+                  Save Assessment
+                </Button>
+              )}
+            </div>
+
+            <div className="space-y-3 pt-4 border-t">
+              <h4 className="font-medium text-sm">2. Pre-adverse action notice</h4>
+              {assessment.preAdverseNoticeSentOn && assessment.responseDeadline ? (
+                <div className="space-y-1">
+                  <p className="text-sm flex items-center gap-2">
+                    <CheckCircle className="h-4 w-4 text-green-600" />
+                    Sent {formatDate(assessment.preAdverseNoticeSentOn)}
+                  </p>
+                  {assessment.responseDeadlineExplain && (
+                    <p className="text-xs text-muted-foreground">{assessment.responseDeadlineExplain}</p>
+                  )}
+                </div>
+              ) : (
+                <p className="text-sm text-muted-foreground">
+                  Download the notice, send it to the applicant, then mark it sent to start their {assessment.responseDays}-{assessment.responseDayType === "business" ? "business" : "calendar"}-day response window.
+                </p>
+              )}
+              <div className="flex flex-wrap gap-2">
+                <Button
+                  variant="outline"
+                  onClick={() => downloadLetter("pre-adverse")}
+                  disabled={!!downloading}
+                  data-testid="button-download-assessment-pre-adverse"
+                >
+                  {downloading === "pre-adverse" ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <FileText className="h-4 w-4 mr-2" />}
+                  Download Pre-Adverse Notice
+                </Button>
+                {!assessment.preAdverseNoticeSentOn && (
+                  <Button
+                    onClick={() => noticeSentMutation.mutate()}
+                    disabled={noticeSentMutation.isPending || !assessment.offenseRelevance}
+                    title={!assessment.offenseRelevance ? "Save how the record relates to safety or property first" : undefined}
+                    data-testid="button-mark-notice-sent"
+                  >
+                    {noticeSentMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                    Mark Notice Sent Today
+                  </Button>
+                )}
+              </div>
+            </div>
+
+            {assessment.preAdverseNoticeSentOn && assessment.responseDeadline && (
+              <div className="space-y-3 pt-4 border-t">
+                <h4 className="font-medium text-sm">3. Applicant response</h4>
+                {assessment.stage === "awaiting_response" && (
+                  <div className="flex items-center gap-2 rounded-md bg-amber-50 dark:bg-amber-950/30 p-3" data-testid="text-response-countdown">
+                    <Clock className="h-4 w-4 text-amber-600" />
+                    <p className="text-sm text-amber-800 dark:text-amber-200">
+                      {daysUntil(assessment.responseDeadline) === 0
+                        ? "The response window closes at the end of today"
+                        : `${daysUntil(assessment.responseDeadline)} days left`} - the applicant has until {formatDate(assessment.responseDeadline)} to respond.
+                    </p>
+                  </div>
+                )}
+                <div className="grid gap-3 sm:grid-cols-[180px_1fr]">
+                  <div className="space-y-1">
+                    <Label htmlFor="responded-on">Response received</Label>
+                    <Input
+                      id="responded-on"
+                      type="date"
+                      value={respondedOn}
+                      onChange={(e) => setRespondedOn(e.target.value)}
+                      disabled={locked}
+                      data-testid="input-responded-on"
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="applicant-response">What the applicant provided</Label>
+                    <Textarea
+                      id="applicant-response"
+                      value={applicantResponse}
+                      onChange={(e) => setApplicantResponse(e.target.value)}
+                      disabled={locked}
+                      data-testid="input-applicant-response"
+                    />
+                  </div>
+                </div>
+                {!locked && (
+                  <Button
+                    variant="outline"
+                    onClick={() => saveMutation.mutate({
+                      applicantRespondedOn: respondedOn || null,
+                      applicantResponse: applicantResponse || null,
+                    })}
+                    disabled={saveMutation.isPending}
+                    data-testid="button-save-response"
+                  >
+                    Save Response
+                  </Button>
+                )}
+              </div>
+            )}
+
+            <div className="space-y-3 pt-4 border-t">
+              <h4 className="font-medium text-sm">4. Final decision</h4>
+              {isFinalLetterUnlocked(assessment.stage) ? (
+                <>
+                  <p className="text-sm text-muted-foreground">
+                    {assessment.applicantRespondedOn
+                      ? "Review the applicant's response against your assessment. If you still deny, issue the final letter."
+                      : "The response window has closed. If you still deny, issue the final letter - or approve instead from your audit history."}
+                  </p>
+                  <Button
+                    onClick={() => downloadLetter("adverse")}
+                    disabled={!!downloading}
+                    data-testid="button-download-assessment-final"
+                  >
+                    {downloading === "adverse" ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <FileText className="h-4 w-4 mr-2" />}
+                    Download Final Adverse Action Letter
+                  </Button>
+                </>
+              ) : (
+                <p className="text-sm text-muted-foreground flex items-center gap-2" data-testid="text-final-letter-locked">
+                  <Lock className="h-4 w-4" />
+                  The final adverse action letter unlocks once the applicant responds or the response window closes.
+                </p>
+              )}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,166 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AlertTriangle, Ban } from "lucide-react";
+import {
+  LEASE_CLAUSE_LIBRARY,
+  LEASE_CLAUSES_FIELD,
+  YEAR_BUILT_FIELD,
+  leaseFactsFromFieldValues,
+  parseSelectedLeaseClauses,
+  serializeSelectedLeaseClauses,
+  type LeaseClauseIssue,
+} from "@shared/leaseClauses";
+
+// Every fieldValues key the clause library owns: the selection, the year
+// built, and each clause's parameters.
+export const LEASE_CLAUSE_FIELD_KEYS: string[] = [
+  LEASE_CLAUSES_FIELD,
+  YEAR_BUILT_FIELD,
+  ...LEASE_CLAUSE_LIBRARY.flatMap((clause) => clause.params.map((p) => p.key)),
+];
+
+/**
+ * Optional and conditional lease clauses for the document wizard. Values are
+ * plain fieldValues keys so they are generated, saved and re-edited with the
+ * rest of the form.
+ */
+export function LeaseClausesPanel({
+  stateId,
+  values,
+  onChange,
+  issues,
+}: {
+  stateId: string;
+  values: Record<string, string>;
+  onChange: (values: Record<string, string>) => void;
+  issues: LeaseClauseIssue[];
+}) {
+  const facts = leaseFactsFromFieldValues(stateId, values);
+  const selected = parseSelectedLeaseClauses(values[LEASE_CLAUSES_FIELD]);
+  const generalIssues = issues.filter((i) => !i.clauseId);
+
+  const setValue = (key: string, value: string) => onChange({ ...values, [key]: value });
+
+  const toggleClause = (id: string, on: boolean) => {
+    const next = on ? [...selected, id] : selected.filter((s) => s !== id);
+    setValue(LEASE_CLAUSES_FIELD, serializeSelectedLeaseClauses(next));
+  };
+
+  return (
+    <div className="space-y-4" data-testid="panel-lease-clauses">
+      <div>
+        <h3 className="text-lg font-semibold border-b pb-2">Additional Clauses and Addenda</h3>
+        <p className="text-sm text-muted-foreground mt-2">
+          Added to the lease as section 23. Clauses required for this property are always included.
+        </p>
+      </div>
+
+      <div className="max-w-xs space-y-2">
+        <Label htmlFor="lease-year-built">Year built</Label>
+        <Input
+          id="lease-year-built"
+          inputMode="numeric"
+          placeholder="e.g. 1965"
+          value={values[YEAR_BUILT_FIELD] || ""}
+          onChange={(e) => setValue(YEAR_BUILT_FIELD, e.target.value.replace(/\D/g, "").slice(0, 4))}
+          data-testid="input-lease-year-built"
+        />
+        <p className="text-xs text-muted-foreground">Decides whether the lead-based paint addendum applies.</p>
+      </div>
+
+      {generalIssues.map((issue, index) => (
+        <IssueLine key={index} issue={issue} />
+      ))}
+
+      <div className="space-y-3">
+        {LEASE_CLAUSE_LIBRARY.map((clause) => {
+          const applicability = clause.applicability(facts);
+          const unavailable = applicability.status === "unavailable";
+          const required = applicability.status === "required";
+          const included = required || (!unavailable && selected.includes(clause.id));
+          const clauseIssues = issues.filter((i) => i.clauseId === clause.id);
+
+          return (
+            <div
+              key={clause.id}
+              className={`rounded-md border p-4 space-y-3 ${unavailable ? "opacity-60" : ""}`}
+              data-testid={`lease-clause-${clause.id}`}
+            >
+              <div className="flex items-start justify-between gap-4">
+                <div>
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{clause.title}</span>
+                    {required && <Badge variant="secondary">Required</Badge>}
+                  </div>
+                  <p className="text-sm text-muted-foreground">{clause.description}</p>
+                  {applicability.status !== "optional" && (
+                    <p className="text-xs text-muted-foreground mt-1">{applicability.reason}</p>
+                  )}
+                </div>
+                <Switch
+                  checked={included}
+                  disabled={required || unavailable}
+                  onCheckedChange={(on) => toggleClause(clause.id, on)}
+                  data-testid={`switch-lease-clause-${clause.id}`}
+                />
+              </div>
+
+              {included && clause.params.length > 0 && (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                  {clause.params.map((param) => (
+                    <div key={param.key} className="space-y-1">
+                      <Label htmlFor={`lease-clause-${param.key}`} className="text-sm">
+                        {param.label}
+                        {param.required && <span className="text-destructive ml-1">*</span>}
+                      </Label>
+                      {param.type === "select" && param.options ? (
+                        <Select value={values[param.key] || ""} onValueChange={(v) => setValue(param.key, v)}>
+                          <SelectTrigger id={`lease-clause-${param.key}`} data-testid={`select-${param.key}`}>
+                            <SelectValue placeholder={`Select ${param.label.toLowerCase()}`} />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {param.options.map((option) => (
+                              <SelectItem key={option.value} value={option.value}>
+                                {option.label}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      ) : (
+                        <Input
+                          id={`lease-clause-${param.key}`}
+                          inputMode={param.type === "text" ? undefined : "decimal"}
+                          placeholder={param.placeholder}
+                          value={values[param.key] || ""}
+                          onChange={(e) => setValue(param.key, e.target.value)}
+                          data-testid={`input-${param.key}`}
+                        />
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {clauseIssues.map((issue, index) => (
+                <IssueLine key={index} issue={issue} />
+              ))}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+function IssueLine({ issue }: { issue: LeaseClauseIssue }) {
+  const isError = issue.severity === "error";
+  return (
+    <p className={`flex items-start gap-2 text-sm ${isError ? "text-destructive" : "text-amber-700 dark:text-amber-400"}`}>
+      {isError ? <Ban className="h-4 w-4 mt-0.5 shrink-0" /> : <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />}
+      {issue.message}
+    </p>
+  );
+}
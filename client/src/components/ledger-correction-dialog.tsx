@@ -0,0 +1,191 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { RentLedgerEntry } from "@shared/schema";
+import { reversalError } from "@shared/tenantLedger";
+
+type CorrectionKind = "reverse" | "nsf" | "adjust";
+
+const today = () => new Date().toISOString().slice(0, 10);
+const toCents = (dollars: string) => Math.round(parseFloat(dollars || "0") * 100);
+
+/**
+ * Posted ledger entries can't be edited or deleted. This dialog posts the
+ * correcting entry instead: a full reversal, a returned (NSF) payment with an
+ * optional fee, or an adjustment for the difference.
+ */
+export function LedgerCorrectionDialog({
+  entry,
+  entries,
+  onClose,
+}: {
+  entry: RentLedgerEntry | null;
+  entries: RentLedgerEntry[];
+  onClose: () => void;
+}) {
+  const { toast } = useToast();
+  const [kind, setKind] = useState<CorrectionKind>("reverse");
+  const [reason, setReason] = useState("");
+  const [effectiveDate, setEffectiveDate] = useState(today());
+  const [amount, setAmount] = useState("");
+  const [direction, setDirection] = useState<"debit" | "credit">("credit");
+
+  useEffect(() => {
+    if (!entry) return;
+    setKind("reverse");
+    setReason("");
+    setEffectiveDate(today());
+    setAmount("");
+    setDirection(entry.type === "payment" ? "debit" : "credit");
+  }, [entry?.id]);
+
+  const related = entry ? entries.filter((e) => e.tenancyId === entry.tenancyId) : [];
+  const reverseBlocked = entry ? reversalError(entry, related) : null;
+  const nsfBlocked = entry ? reversalError(entry, related, true) : null;
+  const blocked = kind === "reverse" ? reverseBlocked : kind === "nsf" ? nsfBlocked : null;
+
+  const mutation = useMutation({
+    mutationFn: async () => {
+      if (!entry) return;
+      if (kind === "reverse") {
+        return apiRequest("POST", `/api/rent-ledger/${entry.id}/reverse`, { reason, effectiveDate });
+      }
+      if (kind === "nsf") {
+        return apiRequest("POST", `/api/rent-ledger/${entry.id}/nsf`, {
+          feeAmount: toCents(amount),
+          notes: reason || undefined,
+          effectiveDate,
+        });
+      }
+      return apiRequest("POST", `/api/rent-ledger/${entry.id}/adjust`, {
+        direction,
+        amount: toCents(amount),
+        reason,
+        effectiveDate,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/rent-ledger"] });
+      toast({ description: "Correcting entry posted" });
+      onClose();
+    },
+    onError: (error: any) => {
+      toast({ description: error?.message || "Failed to post correction", variant: "destructive" });
+    },
+  });
+
+  const needsReason = kind !== "nsf";
+  const needsAmount = kind === "adjust";
+  const canSubmit = !blocked && (!needsReason || reason.trim()) && (!needsAmount || toCents(amount) > 0);
+
+  return (
+    <Dialog open={!!entry} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[520px]">
+        <DialogHeader>
+          <DialogTitle>Correct Ledger Entry</DialogTitle>
+          <DialogDescription>
+            Posted entries stay on the ledger. The correction is posted as a new entry linked to this one.
+          </DialogDescription>
+        </DialogHeader>
+        {entry && (
+          <div className="space-y-4">
+            <div className="rounded-md border p-3 text-sm">
+              <div className="font-medium">{entry.description || entry.category}</div>
+              <div className="text-muted-foreground">
+                {entry.tenantName} · {entry.effectiveDate ? new Date(entry.effectiveDate).toLocaleDateString() : "-"} ·
+                charge ${(entry.amountExpected / 100).toFixed(2)} · payment ${((entry.amountReceived ?? 0) / 100).toFixed(2)}
+              </div>
+            </div>
+
+            <div>
+              <Label htmlFor="correction-kind">Correction</Label>
+              <Select value={kind} onValueChange={(v) => setKind(v as CorrectionKind)}>
+                <SelectTrigger id="correction-kind" data-testid="select-correction-kind">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="reverse">Reverse entry (posted in error)</SelectItem>
+                  <SelectItem value="nsf" disabled={!!nsfBlocked}>Returned payment (NSF)</SelectItem>
+                  <SelectItem value="adjust">Adjust amount</SelectItem>
+                </SelectContent>
+              </Select>
+              {blocked && <p className="text-sm text-destructive mt-1">{blocked}</p>}
+            </div>
+
+            {kind === "adjust" && (
+              <div>
+                <Label htmlFor="correction-direction">Direction</Label>
+                <Select value={direction} onValueChange={(v) => setDirection(v as "debit" | "credit")}>
+                  <SelectTrigger id="correction-direction" data-testid="select-correction-direction">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="credit">Credit - tenant owes less</SelectItem>
+                    <SelectItem value="debit">Debit - tenant owes more</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            <div className="grid grid-cols-2 gap-4">
+              {kind !== "reverse" && (
+                <div>
+                  <Label htmlFor="correction-amount">{kind === "nsf" ? "Returned payment fee" : "Amount"}</Label>
+                  <Input
+                    id="correction-amount"
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    value={amount}
+                    onChange={(e) => setAmount(e.target.value)}
+                    placeholder="0.00"
+                    data-testid="input-correction-amount"
+                  />
+                </div>
+              )}
+              <div>
+                <Label htmlFor="correction-date">Effective Date</Label>
+                <Input
+                  id="correction-date"
+                  type="date"
+                  value={effectiveDate}
+                  onChange={(e) => setEffectiveDate(e.target.value)}
+                  data-testid="input-correction-date"
+                />
+              </div>
+            </div>
+
+            <div>
+              <Label htmlFor="correction-reason">{needsReason ? "Reason *" : "Notes"}</Label>
+              <Input
+                id="correction-reason"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                placeholder={kind === "nsf" ? "e.g., Bank returned check #1042 - insufficient funds" : "e.g., Entered twice by mistake"}
+                data-testid="input-correction-reason"
+              />
+            </div>
+          </div>
+        )}
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} data-testid="button-cancel-correction">
+            Cancel
+          </Button>
+          <Button
+            onClick={() => mutation.mutate()}
+            disabled={!canSubmit || mutation.isPending}
+            data-testid="button-post-correction"
+          >
+            Post Correction
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,125 @@
+import { useEffect, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { getAccessToken } from "@/lib/queryClient";
+import { Camera, ImageOff, Loader2 } from "lucide-react";
+
+function authHeaders(): Record<string, string> {
+  const token = getAccessToken();
+  return token ? { 'Authorization': `Bearer ${token}` } : {};
+}
+
+/**
+ * Maintenance photos live behind authenticated endpoints, so a plain <img src>
+ * can't load them. Fetch with the access token and show an object URL.
+ */
+export function AuthedPhoto({ src, alt, className }: { src: string; alt: string; className?: string }) {
+  const [url, setUrl] = useState<string | null>(null);
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    let objectUrl: string | null = null;
+    let canceled = false;
+    fetch(src, { credentials: 'include', headers: authHeaders() })
+      .then(async (response) => {
+        if (!response.ok) throw new Error('Failed to load photo');
+        objectUrl = URL.createObjectURL(await response.blob());
+        if (!canceled) setUrl(objectUrl);
+      })
+      .catch(() => !canceled && setFailed(true));
+    return () => {
+      canceled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [src]);
+
+  if (failed) {
+    return (
+      <div className={`flex items-center justify-center bg-muted text-muted-foreground ${className || ""}`}>
+        <ImageOff className="h-5 w-5" />
+      </div>
+    );
+  }
+  if (!url) {
+    return (
+      <div className={`flex items-center justify-center bg-muted ${className || ""}`}>
+        <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+  return (
+    <a href={url} target="_blank" rel="noreferrer">
+      <img src={url} alt={alt} className={`object-cover ${className || ""}`} />
+    </a>
+  );
+}
+
+/** Upload one photo (multipart field "photo") to the given endpoint. */
+export async function uploadMaintenancePhoto(endpoint: string, file: File): Promise<void> {
+  const formData = new FormData();
+  formData.append('photo', file);
+  const response = await fetch(endpoint, {
+    method: 'POST',
+    credentials: 'include',
+    headers: authHeaders(),
+    body: formData,
+  });
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new Error(body?.message || 'Photo upload failed');
+  }
+}
+
+export function PhotoUploadButton({
+  endpoint,
+  onUploaded,
+  testId,
+}: {
+  endpoint: string;
+  onUploaded: () => void;
+  testId?: string;
+}) {
+  const { toast } = useToast();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [isUploading, setIsUploading] = useState(false);
+
+  const handleFiles = async (files: FileList | null) => {
+    if (!files || files.length === 0) return;
+    setIsUploading(true);
+    try {
+      for (const file of Array.from(files)) {
+        await uploadMaintenancePhoto(endpoint, file);
+      }
+      onUploaded();
+    } catch (e: any) {
+      toast({ title: "Upload Failed", description: e.message, variant: "destructive" });
+    } finally {
+      setIsUploading(false);
+      if (inputRef.current) inputRef.current.value = "";
+    }
+  };
+
+  return (
+    <>
+      <input
+        ref={inputRef}
+        type="file"
+        accept="image/jpeg,image/png,image/webp"
+        multiple
+        className="hidden"
+        onChange={(e) => handleFiles(e.target.files)}
+      />
+      <Button
+        type="button"
+        size="sm"
+        variant="outline"
+        onClick={() => inputRef.current?.click()}
+        disabled={isUploading}
+        data-testid={testId}
+      >
+        {isUploading ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Camera className="h-4 w-4 mr-2" />}
+        Add Photos
+      </Button>
+    </>
+  );
+}
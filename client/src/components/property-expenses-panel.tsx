@@ -0,0 +1,681 @@
+import { useRef, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select, SelectContent, SelectItem, SelectTrigger, SelectValue,
+} from "@/components/ui/select";
+import {
+  AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent,
+  AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient, getAccessToken } from "@/lib/queryClient";
+import type { MaintenanceRequest, PropertyExpense, RentalProperty, RentalUnit, Vendor } from "@shared/schema";
+import {
+  EXPENSE_CATEGORIES,
+  expenseCategoryLabel,
+  scheduleELineFor,
+  type ScheduleEWorksheet,
+} from "@shared/propertyExpenses";
+import { Plus, Loader2, Receipt, Trash2, Edit2, Download, Paperclip, FileText } from "lucide-react";
+
+type ExpenseRow = Omit<PropertyExpense, "receiptPath"> & { hasReceipt: boolean };
+
+const NONE = "none";
+
+function money(cents: number): string {
+  const abs = `$${(Math.abs(cents) / 100).toFixed(2)}`;
+  return cents < 0 ? `(${abs})` : abs;
+}
+
+function authHeaders(): Record<string, string> {
+  const token = getAccessToken();
+  return token ? { 'Authorization': `Bearer ${token}` } : {};
+}
+
+/** Upload a receipt (multipart field "receipt") to an expense. */
+async function uploadExpenseReceipt(expenseId: string, file: File): Promise<void> {
+  const formData = new FormData();
+  formData.append('receipt', file);
+  const response = await fetch(`/api/property-expenses/${expenseId}/receipt`, {
+    method: 'POST',
+    credentials: 'include',
+    headers: authHeaders(),
+    body: formData,
+  });
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new Error(body?.message || 'Receipt upload failed');
+  }
+}
+
+// Receipts sit behind authenticated endpoints, so fetch with the token and
+// open the file from an object URL.
+async function openReceipt(expenseId: string): Promise<void> {
+  const response = await fetch(`/api/property-expenses/${expenseId}/receipt`, {
+    credentials: 'include',
+    headers: authHeaders(),
+  });
+  if (!response.ok) throw new Error('Failed to load receipt');
+  const url = URL.createObjectURL(await response.blob());
+  window.open(url, '_blank', 'noopener');
+  setTimeout(() => URL.revokeObjectURL(url), 60_000);
+}
+
+const refreshExpenses = () => {
+  queryClient.invalidateQueries({
+    predicate: (q) => typeof q.queryKey[0] === "string"
+      && ((q.queryKey[0] as string).startsWith("/api/property-expenses") || (q.queryKey[0] as string).startsWith("/api/owner-reports")),
+  });
+};
+
+export function PropertyExpensesPanel({ properties }: { properties: RentalProperty[] }) {
+  const { toast } = useToast();
+  const [propertyId, setPropertyId] = useState("all");
+  const [year, setYear] = useState(String(new Date().getFullYear()));
+  const [editing, setEditing] = useState<ExpenseRow | "new" | null>(null);
+  const [attachingId, setAttachingId] = useState<string | null>(null);
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  const params = new URLSearchParams();
+  if (/^\d{4}$/.test(year)) params.set("year", year);
+  if (propertyId !== "all") params.set("propertyId", propertyId);
+  const { data: expenses = [], isLoading } = useQuery<ExpenseRow[]>({
+    queryKey: [`/api/property-expenses?${params}`],
+  });
+  const { data: vendors = [] } = useQuery<Vendor[]>({ queryKey: ["/api/vendors"] });
+
+  const propertyName = (id: string) => properties.find((p) => p.id === id)?.name || "Property";
+  const vendorName = (id: string | null) => (id ? vendors.find((v) => v.id === id)?.name : undefined);
+  const total = expenses.reduce((sum, x) => sum + x.amount, 0);
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => apiRequest("DELETE", `/api/property-expenses/${id}`),
+    onSuccess: () => {
+      toast({ title: "Expense deleted" });
+      refreshExpenses();
+    },
+    onError: (e: any) => toast({ title: "Could not delete expense", description: e.message, variant: "destructive" }),
+  });
+
+  const attachReceipt = async (file: File | undefined) => {
+    const id = attachingId;
+    setAttachingId(null);
+    if (fileRef.current) fileRef.current.value = "";
+    if (!id || !file) return;
+    try {
+      await uploadExpenseReceipt(id, file);
+      toast({ title: "Receipt attached" });
+      refreshExpenses();
+    } catch (e: any) {
+      toast({ title: "Upload Failed", description: e.message, variant: "destructive" });
+    }
+  };
+
+  const viewReceipt = async (id: string) => {
+    try {
+      await openReceipt(id);
+    } catch (e: any) {
+      toast({ title: "Receipt unavailable", description: e.message, variant: "destructive" });
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader className="flex flex-col md:flex-row md:items-end md:justify-between gap-4 space-y-0">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Receipt className="h-5 w-5 text-primary" />
+              Property Expenses
+            </CardTitle>
+            <CardDescription className="mt-1">
+              Record repairs, insurance, taxes, utilities and other costs against a property, with the receipt attached.
+            </CardDescription>
+          </div>
+          <div className="flex flex-wrap items-end gap-3">
+            <div>
+              <Label htmlFor="expense-filter-property">Property</Label>
+              <Select value={propertyId} onValueChange={setPropertyId}>
+                <SelectTrigger id="expense-filter-property" className="w-[200px]" data-testid="select-expense-filter-property">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All properties</SelectItem>
+                  {properties.map((p) => (
+                    <SelectItem key={p.id} value={p.id}>{p.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="expense-filter-year">Year</Label>
+              <Input
+                id="expense-filter-year"
+                inputMode="numeric"
+                className="w-[110px]"
+                value={year}
+                onChange={(e) => setYear(e.target.value.replace(/\D/g, "").slice(0, 4))}
+                data-testid="input-expense-filter-year"
+              />
+            </div>
+            <Button onClick={() => setEditing("new")} disabled={properties.length === 0} data-testid="button-new-expense">
+              <Plus className="h-4 w-4 mr-2" />
+              Record Expense
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <input
+            ref={fileRef}
+            type="file"
+            accept="application/pdf,image/jpeg,image/png,image/webp"
+            className="hidden"
+            onChange={(e) => attachReceipt(e.target.files?.[0])}
+            data-testid="input-expense-receipt-attach"
+          />
+          {isLoading ? (
+            <div className="flex items-center justify-center py-12">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : expenses.length === 0 ? (
+            <div className="text-center py-12 text-muted-foreground">
+              <Receipt className="h-10 w-10 mx-auto mb-3 opacity-50" />
+              <p className="font-medium mb-1">No expenses recorded{year ? ` for ${year}` : ""}</p>
+              <p className="text-sm">
+                {properties.length === 0
+                  ? "Add a rental property first, then record its expenses here."
+                  : 'Click "Record Expense" to add a repair bill, insurance premium, tax payment or other cost.'}
+              </p>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date Paid</TableHead>
+                    <TableHead>Property</TableHead>
+                    <TableHead>Category</TableHead>
+                    <TableHead>Payee</TableHead>
+                    <TableHead className="text-right">Amount</TableHead>
+                    <TableHead>Receipt</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {expenses.map((x) => (
+                    <TableRow key={x.id} data-testid={`row-expense-${x.id}`}>
+                      <TableCell className="whitespace-nowrap">{x.expenseDate}</TableCell>
+                      <TableCell>{propertyName(x.rentalPropertyId)}</TableCell>
+                      <TableCell>
+                        <div>{expenseCategoryLabel(x.category)}</div>
+                        <div className="text-xs text-muted-foreground">Schedule E line {scheduleELineFor(x.category)}</div>
+                      </TableCell>
+                      <TableCell>
+                        <div>{x.payee || vendorName(x.vendorId) || "—"}</div>
+                        {x.description && <div className="text-xs text-muted-foreground line-clamp-2">{x.description}</div>}
+                      </TableCell>
+                      <TableCell className="text-right tabular-nums font-medium">{money(x.amount)}</TableCell>
+                      <TableCell>
+                        {x.hasReceipt ? (
+                          <Button variant="ghost" size="sm" onClick={() => viewReceipt(x.id)} data-testid={`button-view-receipt-${x.id}`}>
+                            <FileText className="h-4 w-4 mr-1" />
+                            View
+                          </Button>
+                        ) : (
+                          <Button
+                            variant="ghost" size="sm"
+                            onClick={() => { setAttachingId(x.id); fileRef.current?.click(); }}
+                            data-testid={`button-attach-receipt-${x.id}`}
+                          >
+                            <Paperclip className="h-4 w-4 mr-1" />
+                            Attach
+                          </Button>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right whitespace-nowrap">
+                        <Button variant="ghost" size="icon" onClick={() => setEditing(x)} data-testid={`button-edit-expense-${x.id}`}>
+                          <Edit2 className="h-4 w-4" />
+                        </Button>
+                        <AlertDialog>
+                          <AlertDialogTrigger asChild>
+                            <Button variant="ghost" size="icon" data-testid={`button-delete-expense-${x.id}`}>
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </AlertDialogTrigger>
+                          <AlertDialogContent>
+                            <AlertDialogHeader>
+                              <AlertDialogTitle>Delete this expense?</AlertDialogTitle>
+                              <AlertDialogDescription>
+                                The {money(x.amount)} {expenseCategoryLabel(x.category).toLowerCase()} expense and its receipt will be removed from your reports and Schedule E worksheet.
+                              </AlertDialogDescription>
+                            </AlertDialogHeader>
+                            <AlertDialogFooter>
+                              <AlertDialogCancel>Keep</AlertDialogCancel>
+                              <AlertDialogAction onClick={() => deleteMutation.mutate(x.id)}>Delete</AlertDialogAction>
+                            </AlertDialogFooter>
+                          </AlertDialogContent>
+                        </AlertDialog>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                  <TableRow className="font-bold border-t-2" data-testid="row-expense-total">
+                    <TableCell colSpan={4}>Total</TableCell>
+                    <TableCell className="text-right tabular-nums">{money(total)}</TableCell>
+                    <TableCell colSpan={2} />
+                  </TableRow>
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <ScheduleECard properties={properties} />
+
+      <Dialog open={editing !== null} onOpenChange={(open) => !open && setEditing(null)}>
+        {editing !== null && (
+          <ExpenseDialog
+            key={editing === "new" ? "new" : editing.id}
+            expense={editing === "new" ? null : editing}
+            properties={properties}
+            vendors={vendors}
+            defaultPropertyId={propertyId !== "all" ? propertyId : properties[0]?.id || ""}
+            onSuccess={() => { refreshExpenses(); setEditing(null); }}
+          />
+        )}
+      </Dialog>
+    </div>
+  );
+}
+
+function ExpenseDialog({
+  expense,
+  properties,
+  vendors,
+  defaultPropertyId,
+  onSuccess,
+}: {
+  expense: ExpenseRow | null;
+  properties: RentalProperty[];
+  vendors: Vendor[];
+  defaultPropertyId: string;
+  onSuccess: () => void;
+}) {
+  const { toast } = useToast();
+  const [rentalPropertyId, setRentalPropertyId] = useState(expense?.rentalPropertyId || defaultPropertyId);
+  const [rentalUnitId, setRentalUnitId] = useState(expense?.rentalUnitId || NONE);
+  const [category, setCategory] = useState(expense?.category || "repairs");
+  const [amountDollars, setAmountDollars] = useState(expense ? (expense.amount / 100).toFixed(2) : "");
+  const [expenseDate, setExpenseDate] = useState(expense?.expenseDate || new Date().toISOString().split("T")[0]);
+  const [vendorId, setVendorId] = useState(expense?.vendorId || NONE);
+  const [payee, setPayee] = useState(expense?.payee || "");
+  const [description, setDescription] = useState(expense?.description || "");
+  const [paymentMethod, setPaymentMethod] = useState(expense?.paymentMethod || "");
+  const [maintenanceRequestId, setMaintenanceRequestId] = useState(expense?.maintenanceRequestId || NONE);
+  const [receipt, setReceipt] = useState<File | null>(null);
+
+  const { data: units = [] } = useQuery<RentalUnit[]>({
+    queryKey: [`/api/rental/properties/${rentalPropertyId}/units`],
+    enabled: !!rentalPropertyId,
+  });
+  const { data: tickets = [] } = useQuery<MaintenanceRequest[]>({
+    queryKey: [`/api/maintenance-requests?propertyId=${rentalPropertyId}`],
+    enabled: !!rentalPropertyId,
+  });
+
+  // Units and work orders belong to a property; clear them when it changes.
+  const pickProperty = (id: string) => {
+    setRentalPropertyId(id);
+    setRentalUnitId(NONE);
+    setMaintenanceRequestId(NONE);
+  };
+
+  // Prefill from a completed work order's cost and vendor.
+  const pickTicket = (id: string) => {
+    setMaintenanceRequestId(id);
+    const ticket = tickets.find((t) => t.id === id);
+    if (!ticket) return;
+    if (!amountDollars && ticket.actualCost) setAmountDollars((ticket.actualCost / 100).toFixed(2));
+    if (vendorId === NONE && ticket.vendorId) setVendorId(ticket.vendorId);
+    if (!description) setDescription(ticket.title);
+    if (ticket.rentalUnitId) setRentalUnitId(ticket.rentalUnitId);
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const amount = Math.round(parseFloat(amountDollars) * 100);
+      const body = {
+        rentalPropertyId,
+        rentalUnitId: rentalUnitId === NONE ? null : rentalUnitId,
+        vendorId: vendorId === NONE ? null : vendorId,
+        maintenanceRequestId: maintenanceRequestId === NONE ? null : maintenanceRequestId,
+        category,
+        amount: Number.isFinite(amount) ? amount : 0,
+        expenseDate,
+        payee: payee.trim() || null,
+        description: description.trim() || null,
+        paymentMethod: paymentMethod.trim() || null,
+      };
+      const res = expense
+        ? await apiRequest("PATCH", `/api/property-expenses/${expense.id}`, body)
+        : await apiRequest("POST", "/api/property-expenses", body);
+      const saved = await res.json() as ExpenseRow;
+      if (receipt) await uploadExpenseReceipt(saved.id, receipt);
+      return saved;
+    },
+    onSuccess: () => {
+      toast({ title: expense ? "Expense updated" : "Expense recorded" });
+      onSuccess();
+    },
+    onError: (e: any) => toast({ title: "Could not save expense", description: e.message, variant: "destructive" }),
+  });
+
+  const removeReceiptMutation = useMutation({
+    mutationFn: async () => apiRequest("DELETE", `/api/property-expenses/${expense!.id}/receipt`),
+    onSuccess: () => {
+      toast({ title: "Receipt removed" });
+      onSuccess();
+    },
+    onError: (e: any) => toast({ title: "Could not remove receipt", description: e.message, variant: "destructive" }),
+  });
+
+  const line = scheduleELineFor(category);
+
+  return (
+    <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto" data-testid="dialog-expense">
+      <DialogHeader>
+        <DialogTitle>{expense ? "Edit Expense" : "Record Expense"}</DialogTitle>
+        <DialogDescription>
+          Expenses roll up to your income and expense report and the Schedule E worksheet for the year they were paid.
+        </DialogDescription>
+      </DialogHeader>
+      <div className="space-y-4">
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <Label htmlFor="expense-property">Property</Label>
+            <Select value={rentalPropertyId} onValueChange={pickProperty}>
+              <SelectTrigger id="expense-property" data-testid="select-expense-property">
+                <SelectValue placeholder="Select a property" />
+              </SelectTrigger>
+              <SelectContent>
+                {properties.map((p) => (
+                  <SelectItem key={p.id} value={p.id}>{p.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="expense-unit">Unit (optional)</Label>
+            <Select value={rentalUnitId} onValueChange={setRentalUnitId}>
+              <SelectTrigger id="expense-unit" data-testid="select-expense-unit">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NONE}>Whole property</SelectItem>
+                {units.map((u) => (
+                  <SelectItem key={u.id} value={u.id}>{u.unitLabel}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <Label htmlFor="expense-category">Category</Label>
+            <Select value={category} onValueChange={setCategory}>
+              <SelectTrigger id="expense-category" data-testid="select-expense-category">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {EXPENSE_CATEGORIES.map((c) => (
+                  <SelectItem key={c.value} value={c.value}>{c.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground mt-1" data-testid="text-expense-schedule-e-line">
+              Schedule E line {line}
+            </p>
+          </div>
+          <div>
+            <Label htmlFor="expense-amount">Amount ($)</Label>
+            <Input id="expense-amount" type="number" min="0" step="0.01" value={amountDollars} onChange={(e) => setAmountDollars(e.target.value)} data-testid="input-expense-amount" />
+          </div>
+        </div>
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <Label htmlFor="expense-date">Date Paid</Label>
+            <Input id="expense-date" type="date" value={expenseDate} onChange={(e) => setExpenseDate(e.target.value)} data-testid="input-expense-date" />
+          </div>
+          <div>
+            <Label htmlFor="expense-method">Paid With (optional)</Label>
+            <Input id="expense-method" value={paymentMethod} onChange={(e) => setPaymentMethod(e.target.value)} placeholder="e.g. Check #1042" data-testid="input-expense-method" />
+          </div>
+        </div>
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <Label htmlFor="expense-vendor">Vendor (optional)</Label>
+            <Select value={vendorId} onValueChange={setVendorId}>
+              <SelectTrigger id="expense-vendor" data-testid="select-expense-vendor">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NONE}>No vendor</SelectItem>
+                {vendors.map((v) => (
+                  <SelectItem key={v.id} value={v.id}>{v.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="expense-payee">Payee</Label>
+            <Input
+              id="expense-payee"
+              value={payee}
+              onChange={(e) => setPayee(e.target.value)}
+              placeholder={vendorId !== NONE ? "Vendor name" : "e.g. County Treasurer"}
+              data-testid="input-expense-payee"
+            />
+          </div>
+        </div>
+        <div>
+          <Label htmlFor="expense-ticket">Maintenance Request (optional)</Label>
+          <Select value={maintenanceRequestId} onValueChange={pickTicket}>
+            <SelectTrigger id="expense-ticket" data-testid="select-expense-ticket">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NONE}>None</SelectItem>
+              {tickets.map((t) => (
+                <SelectItem key={t.id} value={t.id}>{t.title}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-muted-foreground mt-1">
+            Linking the work order keeps its cost from being counted twice.
+          </p>
+        </div>
+        <div>
+          <Label htmlFor="expense-description">Description (optional)</Label>
+          <Textarea id="expense-description" rows={2} value={description} onChange={(e) => setDescription(e.target.value)} data-testid="input-expense-description" />
+        </div>
+        <div>
+          <Label htmlFor="expense-receipt">Receipt (PDF or image)</Label>
+          <Input
+            id="expense-receipt"
+            type="file"
+            accept="application/pdf,image/jpeg,image/png,image/webp"
+            onChange={(e) => setReceipt(e.target.files?.[0] || null)}
+            data-testid="input-expense-receipt"
+          />
+          {expense?.hasReceipt && !receipt && (
+            <div className="flex items-center gap-2 mt-1 text-xs text-muted-foreground">
+              <span>On file: {expense.receiptFileName || "receipt"}. Choosing a file replaces it.</span>
+              <Button
+                variant="ghost" size="sm" className="h-auto p-0 text-xs"
+                onClick={() => removeReceiptMutation.mutate()}
+                disabled={removeReceiptMutation.isPending}
+                data-testid="button-remove-receipt"
+              >
+                Remove
+              </Button>
+            </div>
+          )}
+        </div>
+      </div>
+      <DialogFooter>
+        <Button
+          onClick={() => saveMutation.mutate()}
+          disabled={!rentalPropertyId || !amountDollars || !expenseDate || saveMutation.isPending}
+          data-testid="button-save-expense"
+        >
+          {saveMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+          {expense ? "Save Changes" : "Record Expense"}
+        </Button>
+      </DialogFooter>
+    </DialogContent>
+  );
+}
+
+function ScheduleECard({ properties }: { properties: RentalProperty[] }) {
+  const { toast } = useToast();
+  const [year, setYear] = useState(String(new Date().getFullYear() - 1));
+  const [propertyId, setPropertyId] = useState("all");
+  const [downloading, setDownloading] = useState<"csv" | "pdf" | null>(null);
+
+  const params = new URLSearchParams({ year });
+  if (propertyId !== "all") params.set("propertyId", propertyId);
+  const { data: worksheet, isLoading } = useQuery<ScheduleEWorksheet>({
+    queryKey: [`/api/property-expenses/schedule-e?${params}`],
+    enabled: /^\d{4}$/.test(year),
+  });
+
+  const download = async (format: "csv" | "pdf") => {
+    setDownloading(format);
+    try {
+      const response = await fetch(`/api/property-expenses/schedule-e?${params}&format=${format}`, {
+        credentials: 'include',
+        headers: authHeaders(),
+      });
+      if (!response.ok) {
+        toast({ title: "Download Failed", description: "Failed to export the worksheet.", variant: "destructive" });
+        return;
+      }
+      const url = window.URL.createObjectURL(await response.blob());
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `schedule-e-worksheet-${year}.${format}`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      window.URL.revokeObjectURL(url);
+    } finally {
+      setDownloading(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-col md:flex-row md:items-end md:justify-between gap-4 space-y-0">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <FileText className="h-5 w-5 text-primary" />
+            Schedule E Worksheet
+          </CardTitle>
+          <CardDescription className="mt-1">
+            Year-end rents and expenses per property, by IRS Schedule E line, with the expenses behind each line.
+          </CardDescription>
+        </div>
+        <div className="flex flex-wrap items-end gap-3">
+          <div>
+            <Label htmlFor="schedule-e-property">Property</Label>
+            <Select value={propertyId} onValueChange={setPropertyId}>
+              <SelectTrigger id="schedule-e-property" className="w-[200px]" data-testid="select-schedule-e-property">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All properties</SelectItem>
+                {properties.map((p) => (
+                  <SelectItem key={p.id} value={p.id}>{p.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="schedule-e-year">Tax Year</Label>
+            <Input
+              id="schedule-e-year"
+              inputMode="numeric"
+              className="w-[110px]"
+              value={year}
+              onChange={(e) => setYear(e.target.value.replace(/\D/g, "").slice(0, 4))}
+              data-testid="input-schedule-e-year"
+            />
+          </div>
+          <Button variant="outline" className="gap-2" onClick={() => download("csv")} disabled={!worksheet || !!downloading} data-testid="button-schedule-e-csv">
+            <Download className="h-4 w-4" />
+            CSV
+          </Button>
+          <Button className="gap-2" onClick={() => download("pdf")} disabled={!worksheet || !!downloading} data-testid="button-schedule-e-pdf">
+            <Download className="h-4 w-4" />
+            PDF
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+        ) : !worksheet ? (
+          <p className="text-sm text-muted-foreground">Enter a tax year to build the worksheet.</p>
+        ) : worksheet.properties.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Add a rental property to build a Schedule E worksheet.</p>
+        ) : (
+          <div className="space-y-4">
+            <div className="grid gap-4 md:grid-cols-2">
+              {worksheet.properties.map((p) => (
+                <Card key={p.propertyId || "none"} data-testid={`card-schedule-e-${p.propertyId || "none"}`}>
+                  <CardHeader className="pb-2">
+                    <CardTitle className="text-base">{p.name}</CardTitle>
+                    {p.address && <CardDescription>{p.address}</CardDescription>}
+                  </CardHeader>
+                  <CardContent>
+                    <Table>
+                      <TableBody>
+                        {p.lines.filter((l) => l.amount !== 0 || l.line === 3 || l.line >= 20).map((l) => (
+                          <TableRow key={l.line} className={l.line === 3 || l.line >= 20 ? "font-semibold" : undefined}>
+                            <TableCell className="w-12 py-1.5">{l.line}</TableCell>
+                            <TableCell className="py-1.5">{l.label}</TableCell>
+                            <TableCell className="py-1.5 text-right tabular-nums">{money(l.amount)}</TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                    {p.items.some((i) => i.hasReceipt === false) && (
+                      <Badge variant="outline" className="mt-3">
+                        {p.items.filter((i) => i.hasReceipt === false).length} expense(s) without a receipt
+                      </Badge>
+                    )}
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+            <ul className="text-xs text-muted-foreground space-y-1 list-disc list-inside">
+              {worksheet.notes.map((note, index) => (
+                <li key={index}>{note}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
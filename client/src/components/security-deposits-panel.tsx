@@ -0,0 +1,603 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Separator } from "@/components/ui/separator";
+import {
+  Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Select, SelectContent, SelectItem, SelectTrigger, SelectValue,
+} from "@/components/ui/select";
+import {
+  AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent,
+  AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient, getAccessToken } from "@/lib/queryClient";
+import type { SecurityDeposit, SecurityDepositDeduction } from "@shared/schema";
+import { CHECKLIST_CONDITIONS, MOVE_OUT_CHECKLIST_ROOMS } from "@shared/moveOutChecklist";
+import { SECURITY_DEPOSIT_TYPES, type DepositDisposition } from "@shared/securityDeposit";
+import { Plus, Loader2, PiggyBank, Trash2, Download, CheckCircle2, Clock } from "lucide-react";
+
+type DepositListItem = SecurityDeposit & { daysUntilDeadline: number | null; tenantNames: string[] };
+
+type DepositDetail = SecurityDeposit & {
+  daysUntilDeadline: number | null;
+  tenantNames: string[];
+  deductions: SecurityDepositDeduction[];
+  disposition: DepositDisposition;
+};
+
+interface TenancyOption {
+  id: string;
+  status: string;
+  startDate: string;
+  securityDeposit: number;
+  propertyName: string | null;
+  unitLabel: string | null;
+  occupants: { fullName: string; role: string }[];
+}
+
+interface DepositRules {
+  stateId: string | null;
+  returnRule: { days: number; statuteCitation: string | null; source: "clause" | "default" };
+  interest: { ratePct: number; statuteCitation: string | null } | null;
+}
+
+const STATUS_BADGE: Record<string, { label: string; variant: any }> = {
+  held: { label: "Held", variant: "secondary" },
+  awaiting_disposition: { label: "Awaiting Disposition", variant: "outline" },
+  disposed: { label: "Disposed", variant: "default" },
+};
+
+function money(cents: number | null | undefined): string {
+  return `$${((cents || 0) / 100).toFixed(2)}`;
+}
+
+function tenancyLabel(t: TenancyOption): string {
+  const tenants = t.occupants.filter((o) => o.role === "tenant").map((o) => o.fullName).join(", ");
+  const place = [t.propertyName, t.unitLabel].filter(Boolean).join(" - ");
+  return [tenants || "Tenancy", place].filter(Boolean).join(" · ");
+}
+
+function countdownText(days: number | null): string | null {
+  if (days == null) return null;
+  if (days < 0) return `${-days} day${days === -1 ? "" : "s"} overdue`;
+  if (days === 0) return "Due today";
+  return `${days} day${days === 1 ? "" : "s"} left`;
+}
+
+const refreshDeposits = () => {
+  queryClient.invalidateQueries({ queryKey: ["/api/deposits"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/rent-ledger"] });
+};
+
+export function SecurityDepositsPanel() {
+  const [createOpen, setCreateOpen] = useState(false);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const { data: deposits = [], isLoading } = useQuery<DepositListItem[]>({
+    queryKey: ["/api/deposits"],
+  });
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <PiggyBank className="h-5 w-5 text-primary" />
+              Security Deposits
+            </CardTitle>
+            <CardDescription className="mt-1">
+              Track deposits held for each lease. Entering a move-out date starts the countdown to your state's return deadline.
+            </CardDescription>
+          </div>
+          <Dialog open={createOpen} onOpenChange={setCreateOpen}>
+            <DialogTrigger asChild>
+              <Button data-testid="button-new-deposit">
+                <Plus className="h-4 w-4 mr-2" />
+                Record Deposit
+              </Button>
+            </DialogTrigger>
+            <RecordDepositDialog onSuccess={() => { refreshDeposits(); setCreateOpen(false); }} />
+          </Dialog>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex items-center justify-center py-12">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : deposits.length === 0 ? (
+            <div className="text-center py-12 text-muted-foreground">
+              <PiggyBank className="h-10 w-10 mx-auto mb-3 opacity-50" />
+              <p className="font-medium mb-1">No deposits recorded yet</p>
+              <p className="text-sm">Click "Record Deposit" to track a deposit held for a lease.</p>
+            </div>
+          ) : (
+            <div className="space-y-3">
+              {deposits.map((d) => {
+                const badge = STATUS_BADGE[d.status] || { label: d.status, variant: "outline" };
+                const countdown = countdownText(d.daysUntilDeadline);
+                return (
+                  <Card key={d.id} data-testid={`card-deposit-${d.id}`}>
+                    <CardContent className="pt-6">
+                      <div className="flex items-start justify-between gap-4 flex-wrap">
+                        <div className="flex-1 min-w-[240px]">
+                          <div className="flex items-center gap-2 flex-wrap">
+                            <span className="font-semibold">{d.tenantNames.join(", ") || "Tenant"}</span>
+                            <Badge variant={badge.variant} data-testid={`badge-deposit-status-${d.id}`}>{badge.label}</Badge>
+                            {countdown && (
+                              <Badge
+                                variant={d.daysUntilDeadline! <= 3 ? "destructive" : "outline"}
+                                data-testid={`badge-deposit-countdown-${d.id}`}
+                              >
+                                <Clock className="h-3 w-3 mr-1" />{countdown}
+                              </Badge>
+                            )}
+                          </div>
+                          <div className="mt-3 flex flex-wrap gap-x-6 gap-y-1 text-sm">
+                            <div><span className="text-muted-foreground">Amount:</span> <strong>{money(d.amount)}</strong></div>
+                            <div><span className="text-muted-foreground">Collected:</span> <strong>{d.collectedDate}</strong></div>
+                            {d.holdingAccount && (
+                              <div><span className="text-muted-foreground">Held in:</span> <strong>{d.holdingAccount}</strong></div>
+                            )}
+                            {d.returnDeadline && d.status !== "disposed" && (
+                              <div><span className="text-muted-foreground">Return by:</span> <strong>{d.returnDeadline}</strong></div>
+                            )}
+                            {d.status === "disposed" && (
+                              <div><span className="text-muted-foreground">Returned:</span> <strong>{money(d.amountReturned)}</strong></div>
+                            )}
+                          </div>
+                        </div>
+                        <Button
+                          variant="outline" size="sm"
+                          onClick={() => setSelectedId(d.id)}
+                          data-testid={`button-manage-deposit-${d.id}`}
+                        >
+                          Manage
+                        </Button>
+                      </div>
+                    </CardContent>
+                  </Card>
+                );
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <DepositDetailDialog depositId={selectedId} onOpenChange={(open) => !open && setSelectedId(null)} />
+    </div>
+  );
+}
+
+function RecordDepositDialog({ onSuccess }: { onSuccess: () => void }) {
+  const { toast } = useToast();
+  const [tenancyId, setTenancyId] = useState("");
+  const [depositType, setDepositType] = useState("security");
+  const [amountDollars, setAmountDollars] = useState("");
+  const [collectedDate, setCollectedDate] = useState("");
+  const [holdingAccount, setHoldingAccount] = useState("");
+  const [interestRatePct, setInterestRatePct] = useState("");
+
+  const { data: tenancies = [] } = useQuery<TenancyOption[]>({ queryKey: ["/api/tenancies"] });
+  const { data: rules } = useQuery<DepositRules>({
+    queryKey: [`/api/tenancies/${tenancyId}/deposit-rules`],
+    enabled: !!tenancyId,
+  });
+
+  // Prefill from the lease terms and the state's interest requirement.
+  useEffect(() => {
+    const t = tenancies.find((x) => x.id === tenancyId);
+    if (!t) return;
+    setAmountDollars(t.securityDeposit ? (t.securityDeposit / 100).toFixed(2) : "");
+    setCollectedDate(t.startDate);
+  }, [tenancyId, tenancies]);
+  useEffect(() => {
+    setInterestRatePct(rules?.interest ? String(rules.interest.ratePct) : "");
+  }, [rules]);
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const r = await apiRequest("POST", `/api/tenancies/${tenancyId}/deposits`, {
+        depositType,
+        amountDollars,
+        collectedDate: collectedDate || undefined,
+        holdingAccount: holdingAccount || undefined,
+        interestRatePct,
+      });
+      return r.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Deposit recorded" });
+      onSuccess();
+    },
+    onError: (e: any) => toast({ title: "Could not record deposit", description: e.message, variant: "destructive" }),
+  });
+
+  return (
+    <DialogContent className="max-w-lg" data-testid="dialog-record-deposit">
+      <DialogHeader>
+        <DialogTitle>Record Deposit</DialogTitle>
+        <DialogDescription>
+          Record money you are holding for a lease so the return deadline and any required interest are tracked.
+        </DialogDescription>
+      </DialogHeader>
+      <div className="space-y-4">
+        <div>
+          <Label htmlFor="dep-tenancy">Lease</Label>
+          <Select value={tenancyId} onValueChange={setTenancyId}>
+            <SelectTrigger id="dep-tenancy" data-testid="select-deposit-tenancy">
+              <SelectValue placeholder="Select a lease" />
+            </SelectTrigger>
+            <SelectContent>
+              {tenancies.map((t) => (
+                <SelectItem key={t.id} value={t.id}>{tenancyLabel(t)}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {tenancies.length === 0 && (
+            <p className="text-xs text-muted-foreground mt-1">Create a tenancy for the lease first.</p>
+          )}
+        </div>
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <Label htmlFor="dep-type">Type</Label>
+            <Select value={depositType} onValueChange={setDepositType}>
+              <SelectTrigger id="dep-type" data-testid="select-deposit-type">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SECURITY_DEPOSIT_TYPES.map((t) => (
+                  <SelectItem key={t.value} value={t.value}>{t.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="dep-amount">Amount ($)</Label>
+            <Input id="dep-amount" type="number" min="0" step="0.01" value={amountDollars} onChange={(e) => setAmountDollars(e.target.value)} data-testid="input-deposit-amount" />
+          </div>
+        </div>
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <Label htmlFor="dep-collected">Date Collected</Label>
+            <Input id="dep-collected" type="date" value={collectedDate} onChange={(e) => setCollectedDate(e.target.value)} data-testid="input-deposit-collected" />
+          </div>
+          <div>
+            <Label htmlFor="dep-interest">Interest (% per year)</Label>
+            <Input id="dep-interest" type="number" min="0" step="0.01" value={interestRatePct} onChange={(e) => setInterestRatePct(e.target.value)} placeholder="None" data-testid="input-deposit-interest" />
+          </div>
+        </div>
+        {rules && (
+          <p className="text-xs text-muted-foreground">
+            {rules.stateId ? `${rules.stateId}: ` : ""}
+            deposit must be returned within {rules.returnRule.days} days of move-out
+            {rules.returnRule.statuteCitation ? ` (${rules.returnRule.statuteCitation})` : rules.returnRule.source === "default" ? " (estimate - verify for your state)" : ""}.
+            {rules.interest ? ` Interest of ${rules.interest.ratePct}% per year is required${rules.interest.statuteCitation ? ` (${rules.interest.statuteCitation})` : ""}.` : ""}
+          </p>
+        )}
+        <div>
+          <Label htmlFor="dep-account">Holding Account (optional)</Label>
+          <Input id="dep-account" value={holdingAccount} onChange={(e) => setHoldingAccount(e.target.value)} placeholder="e.g. First Bank escrow ••1234" data-testid="input-deposit-account" />
+        </div>
+      </div>
+      <DialogFooter>
+        <Button
+          onClick={() => createMutation.mutate()}
+          disabled={createMutation.isPending || !tenancyId || !amountDollars || parseFloat(amountDollars) <= 0}
+          data-testid="button-submit-deposit"
+        >
+          {createMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+          Record Deposit
+        </Button>
+      </DialogFooter>
+    </DialogContent>
+  );
+}
+
+function DepositDetailDialog({ depositId, onOpenChange }: { depositId: string | null; onOpenChange: (open: boolean) => void }) {
+  const { toast } = useToast();
+  const detailKey = [`/api/deposits/${depositId}`];
+  const { data: deposit, isLoading } = useQuery<DepositDetail>({
+    queryKey: detailKey,
+    enabled: !!depositId,
+  });
+
+  const [moveOutDate, setMoveOutDate] = useState("");
+  const [forwardingAddress, setForwardingAddress] = useState("");
+  const [room, setRoom] = useState("none");
+  const [item, setItem] = useState("");
+  const [condition, setCondition] = useState("P");
+  const [description, setDescription] = useState("");
+  const [amountDollars, setAmountDollars] = useState("");
+
+  useEffect(() => {
+    setMoveOutDate(deposit?.moveOutDate || "");
+    setForwardingAddress(deposit?.forwardingAddress || "");
+  }, [deposit?.id, deposit?.moveOutDate, deposit?.forwardingAddress]);
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: detailKey });
+    refreshDeposits();
+  };
+
+  const patchMutation = useMutation({
+    mutationFn: async (body: Record<string, unknown>) => {
+      const r = await apiRequest("PATCH", `/api/deposits/${depositId}`, body);
+      return r.json();
+    },
+    onSuccess: () => { invalidate(); toast({ title: "Deposit updated" }); },
+    onError: (e: any) => toast({ title: "Could not update", description: e.message, variant: "destructive" }),
+  });
+
+  const addDeductionMutation = useMutation({
+    mutationFn: async () => {
+      const r = await apiRequest("POST", `/api/deposits/${depositId}/deductions`, {
+        checklistRoom: room === "none" ? undefined : room,
+        checklistItem: room === "none" ? undefined : item,
+        condition: room === "none" ? undefined : condition,
+        description,
+        amountDollars,
+      });
+      return r.json();
+    },
+    onSuccess: () => {
+      invalidate();
+      setDescription("");
+      setAmountDollars("");
+    },
+    onError: (e: any) => toast({ title: "Could not add deduction", description: e.message, variant: "destructive" }),
+  });
+
+  const deleteDeductionMutation = useMutation({
+    mutationFn: async (deductionId: string) => {
+      await apiRequest("DELETE", `/api/deposits/${depositId}/deductions/${deductionId}`);
+    },
+    onSuccess: () => invalidate(),
+    onError: (e: any) => toast({ title: "Could not remove deduction", description: e.message, variant: "destructive" }),
+  });
+
+  const disposeMutation = useMutation({
+    mutationFn: async () => {
+      const r = await apiRequest("POST", `/api/deposits/${depositId}/disposition`, {});
+      return r.json();
+    },
+    onSuccess: (resp: { pastDeadline: boolean }) => {
+      invalidate();
+      toast({
+        title: "Deposit disposed",
+        description: resp.pastDeadline
+          ? "Recorded after the return deadline. Check your state's rules on late itemization."
+          : "The ledger entry was posted. Download the itemization letter to send to the tenant.",
+        variant: resp.pastDeadline ? "destructive" : undefined,
+      });
+    },
+    onError: (e: any) => toast({ title: "Could not dispose deposit", description: e.message, variant: "destructive" }),
+  });
+
+  const downloadLetter = async () => {
+    const token = getAccessToken();
+    const response = await fetch(`/api/deposits/${depositId}/itemization-letter`, {
+      credentials: 'include',
+      headers: token ? { 'Authorization': `Bearer ${token}` } : {}
+    });
+    if (!response.ok) {
+      toast({ title: "Download Failed", description: "Failed to generate the itemization letter.", variant: "destructive" });
+      return;
+    }
+    const url = window.URL.createObjectURL(await response.blob());
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `deposit-itemization-${deposit?.moveOutDate || 'letter'}.pdf`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    window.URL.revokeObjectURL(url);
+  };
+
+  const roomItems = MOVE_OUT_CHECKLIST_ROOMS.find((r) => r.name === room)?.items || [];
+  const isDisposed = deposit?.status === "disposed";
+  const disposition = deposit?.disposition;
+  const canAddDeduction = !!description.trim() && parseFloat(amountDollars) > 0 && (room === "none" || !!item);
+
+  return (
+    <Dialog open={!!depositId} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto" data-testid="dialog-deposit-detail">
+        <DialogHeader>
+          <DialogTitle>Security Deposit{deposit?.tenantNames.length ? ` - ${deposit.tenantNames.join(", ")}` : ""}</DialogTitle>
+          <DialogDescription>
+            {deposit ? `${money(deposit.amount)} collected ${deposit.collectedDate}${deposit.holdingAccount ? `, held in ${deposit.holdingAccount}` : ""}.` : ""}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading || !deposit || !disposition ? (
+          <div className="py-6 text-center"><Loader2 className="h-6 w-6 animate-spin mx-auto text-muted-foreground" /></div>
+        ) : (
+          <div className="space-y-5">
+            <div className="grid gap-3 sm:grid-cols-2">
+              <div>
+                <Label htmlFor="dep-moveout">Move-Out Date</Label>
+                <Input
+                  id="dep-moveout" type="date" value={moveOutDate} disabled={isDisposed}
+                  onChange={(e) => setMoveOutDate(e.target.value)}
+                  data-testid="input-deposit-moveout"
+                />
+                {deposit.returnDeadline && (
+                  <p className="text-xs text-muted-foreground mt-1" data-testid="text-deposit-deadline">
+                    Return by {deposit.returnDeadline} ({deposit.returnDeadlineDays} days
+                    {deposit.returnDeadlineCitation ? `, ${deposit.returnDeadlineCitation}` : ""})
+                    {!isDisposed && countdownText(deposit.daysUntilDeadline) ? ` - ${countdownText(deposit.daysUntilDeadline)}` : ""}
+                  </p>
+                )}
+              </div>
+              <div>
+                <Label htmlFor="dep-forwarding">Forwarding Address</Label>
+                <Textarea
+                  id="dep-forwarding" rows={2} value={forwardingAddress} disabled={isDisposed}
+                  onChange={(e) => setForwardingAddress(e.target.value)}
+                  data-testid="input-deposit-forwarding"
+                />
+              </div>
+            </div>
+            {!isDisposed && (
+              <Button
+                variant="outline" size="sm"
+                onClick={() => patchMutation.mutate({ moveOutDate: moveOutDate || null, forwardingAddress })}
+                disabled={patchMutation.isPending}
+                data-testid="button-save-moveout"
+              >
+                Save Move-Out Details
+              </Button>
+            )}
+
+            <Separator />
+
+            <div className="space-y-2">
+              <h4 className="text-sm font-semibold">Itemized Deductions</h4>
+              {deposit.deductions.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No deductions.</p>
+              ) : (
+                deposit.deductions.map((d) => (
+                  <div key={d.id} className="flex items-start justify-between gap-2 text-sm" data-testid={`row-deduction-${d.id}`}>
+                    <div>
+                      {d.checklistRoom && (
+                        <span className="text-muted-foreground">
+                          {d.checklistRoom} - {d.checklistItem}{d.condition ? ` (${d.condition})` : ""}:{" "}
+                        </span>
+                      )}
+                      {d.description}
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium tabular-nums">{money(d.amount)}</span>
+                      {!isDisposed && (
+                        <Button
+                          size="icon" variant="ghost"
+                          onClick={() => deleteDeductionMutation.mutate(d.id)}
+                          disabled={deleteDeductionMutation.isPending}
+                          data-testid={`button-delete-deduction-${d.id}`}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                ))
+              )}
+
+              {!isDisposed && (
+                <div className="grid gap-2 rounded-md border p-3">
+                  <div className="grid gap-2 sm:grid-cols-3">
+                    <Select value={room} onValueChange={(v) => { setRoom(v); setItem(""); }}>
+                      <SelectTrigger data-testid="select-deduction-room"><SelectValue /></SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="none">Not a checklist item</SelectItem>
+                        {MOVE_OUT_CHECKLIST_ROOMS.map((r) => (
+                          <SelectItem key={r.name} value={r.name}>{r.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Select value={item} onValueChange={setItem} disabled={room === "none"}>
+                      <SelectTrigger data-testid="select-deduction-item"><SelectValue placeholder="Item" /></SelectTrigger>
+                      <SelectContent>
+                        {roomItems.map((i) => (
+                          <SelectItem key={i} value={i}>{i}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Select value={condition} onValueChange={setCondition} disabled={room === "none"}>
+                      <SelectTrigger data-testid="select-deduction-condition"><SelectValue /></SelectTrigger>
+                      <SelectContent>
+                        {CHECKLIST_CONDITIONS.map((c) => (
+                          <SelectItem key={c.code} value={c.code}>{c.code} - {c.label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="grid gap-2 sm:grid-cols-[1fr_120px_auto]">
+                    <Input
+                      placeholder="Description (e.g. repaint scuffed wall)"
+                      value={description} onChange={(e) => setDescription(e.target.value)}
+                      data-testid="input-deduction-description"
+                    />
+                    <Input
+                      type="number" min="0" step="0.01" placeholder="Amount ($)"
+                      value={amountDollars} onChange={(e) => setAmountDollars(e.target.value)}
+                      data-testid="input-deduction-amount"
+                    />
+                    <Button
+                      onClick={() => addDeductionMutation.mutate()}
+                      disabled={!canAddDeduction || addDeductionMutation.isPending}
+                      data-testid="button-add-deduction"
+                    >
+                      <Plus className="h-4 w-4 mr-2" />Add
+                    </Button>
+                  </div>
+                </div>
+              )}
+            </div>
+
+            <Separator />
+
+            <div className="space-y-1 text-sm">
+              <div className="flex justify-between"><span>Deposit held</span><span className="tabular-nums">{money(disposition.depositCents)}</span></div>
+              {disposition.interestCents > 0 && (
+                <div className="flex justify-between"><span>Interest{isDisposed ? "" : " (to date)"}</span><span className="tabular-nums">{money(disposition.interestCents)}</span></div>
+              )}
+              <div className="flex justify-between"><span>Deductions</span><span className="tabular-nums">({money(disposition.deductionsCents)})</span></div>
+              <div className="flex justify-between font-semibold">
+                <span>{isDisposed ? "Refunded" : "Refund due"}</span>
+                <span className="tabular-nums" data-testid="text-deposit-refund">{money(disposition.refundCents)}</span>
+              </div>
+              {disposition.balanceDueCents > 0 && (
+                <div className="flex justify-between text-destructive">
+                  <span>Tenant owes</span><span className="tabular-nums">{money(disposition.balanceDueCents)}</span>
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+
+        {deposit && (
+          <DialogFooter className="gap-2">
+            {deposit.moveOutDate && (
+              <Button variant="outline" onClick={downloadLetter} data-testid="button-download-itemization">
+                <Download className="h-4 w-4 mr-2" />
+                Itemization Letter
+              </Button>
+            )}
+            {!isDisposed && deposit.moveOutDate && (
+              <AlertDialog>
+                <AlertDialogTrigger asChild>
+                  <Button data-testid="button-dispose-deposit">
+                    <CheckCircle2 className="h-4 w-4 mr-2" />
+                    Finalize Disposition
+                  </Button>
+                </AlertDialogTrigger>
+                <AlertDialogContent>
+                  <AlertDialogHeader>
+                    <AlertDialogTitle>Finalize this deposit?</AlertDialogTitle>
+                    <AlertDialogDescription>
+                      {money(disposition?.deductionsCents)} in deductions will be posted to the rent ledger and the deposit will be locked.
+                      Send the itemization letter and the {money(disposition?.refundCents)} refund to the tenant.
+                    </AlertDialogDescription>
+                  </AlertDialogHeader>
+                  <AlertDialogFooter>
+                    <AlertDialogCancel>Not Yet</AlertDialogCancel>
+                    <AlertDialogAction onClick={() => disposeMutation.mutate()}>Finalize</AlertDialogAction>
+                  </AlertDialogFooter>
+                </AlertDialogContent>
+              </AlertDialog>
+            )}
+          </DialogFooter>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
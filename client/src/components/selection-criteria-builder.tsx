@@ -0,0 +1,311 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { AlertTriangle, Ban, Loader2 } from "lucide-react";
+import type { RentalProperty, RentalPropertySelectionCriteria } from "@shared/schema";
+import {
+  DEFAULT_SELECTION_CRITERIA,
+  describeSelectionCriteria,
+  hasPublishableCriteria,
+  type SelectionCriteria,
+  type SelectionCriteriaIssue,
+} from "@shared/selectionCriteria";
+
+interface SelectionCriteriaResponse {
+  current: RentalPropertySelectionCriteria | null;
+  versions: RentalPropertySelectionCriteria[];
+  issues: SelectionCriteriaIssue[];
+}
+
+const numberOrNull = (value: string): number | null => {
+  if (value.trim() === "") return null;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : null;
+};
+
+export function SelectionCriteriaDialog({
+  property,
+  open,
+  onOpenChange,
+}: {
+  property: RentalProperty;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const { toast } = useToast();
+  const [draft, setDraft] = useState<SelectionCriteria>(DEFAULT_SELECTION_CRITERIA);
+  const [issues, setIssues] = useState<SelectionCriteriaIssue[]>([]);
+
+  const { data, isLoading } = useQuery<SelectionCriteriaResponse>({
+    queryKey: ["/api/rental/properties", property.id, "selection-criteria"],
+    enabled: open,
+  });
+
+  useEffect(() => {
+    if (open && data) {
+      setDraft(data.current?.criteriaJson || DEFAULT_SELECTION_CRITERIA);
+      setIssues(data.issues);
+    }
+  }, [open, data]);
+
+  const validateMutation = useMutation({
+    mutationFn: async (criteria: SelectionCriteria) => {
+      const res = await apiRequest("POST", `/api/rental/properties/${property.id}/selection-criteria/validate`, { criteria });
+      return res.json() as Promise<{ issues: SelectionCriteriaIssue[] }>;
+    },
+    onSuccess: (result) => setIssues(result.issues),
+  });
+
+  // Re-check the draft against local rules shortly after each edit.
+  useEffect(() => {
+    if (!open || !data) return;
+    const timer = setTimeout(() => validateMutation.mutate(draft), 600);
+    return () => clearTimeout(timer);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [draft, open, data]);
+
+  const publishMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/rental/properties/${property.id}/selection-criteria`, { criteria: draft });
+      return res.json() as Promise<RentalPropertySelectionCriteria>;
+    },
+    onSuccess: (published) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/rental/properties", property.id, "selection-criteria"] });
+      toast({ title: "Criteria Published", description: `Version ${published.version} is now shown to new applicants.` });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message || "Failed to publish criteria.", variant: "destructive" });
+    },
+  });
+
+  const update = (changes: Partial<SelectionCriteria>) => setDraft((prev) => ({ ...prev, ...changes }));
+  const errors = issues.filter((i) => i.severity === "error");
+  const warnings = issues.filter((i) => i.severity === "warning");
+  const preview = describeSelectionCriteria(draft);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[560px] max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Tenant Selection Criteria</DialogTitle>
+          <DialogDescription>
+            Published on the application cover page for {property.name}. Applicants acknowledge the version they see, and denials are checked against it.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div className="space-y-5 py-2">
+            {data?.current && (
+              <p className="text-xs text-muted-foreground" data-testid="text-selection-criteria-version">
+                Version {data.current.version} published {new Date(data.current.publishedAt).toLocaleDateString()}
+                {data.versions.length > 1 && ` · ${data.versions.length} versions`}
+              </p>
+            )}
+            {!property.state && (
+              <p className="text-xs text-amber-700 dark:text-amber-400">
+                Add the property's state to check these criteria against local fair housing rules.
+              </p>
+            )}
+
+            <div className="space-y-3">
+              <h4 className="text-sm font-medium">Income & Credit</h4>
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-1">
+                  <Label htmlFor="criteria-income">Income (x monthly rent)</Label>
+                  <Input
+                    id="criteria-income"
+                    type="number"
+                    step="0.5"
+                    placeholder="e.g., 3"
+                    value={draft.minIncomeMultiple ?? ""}
+                    onChange={(e) => update({ minIncomeMultiple: numberOrNull(e.target.value) })}
+                    data-testid="input-criteria-income-multiple"
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="criteria-credit">Minimum credit score</Label>
+                  <Input
+                    id="criteria-credit"
+                    type="number"
+                    placeholder="e.g., 620"
+                    value={draft.minCreditScore ?? ""}
+                    onChange={(e) => update({ minCreditScore: numberOrNull(e.target.value) })}
+                    data-testid="input-criteria-credit-score"
+                  />
+                </div>
+              </div>
+              <div className="flex items-center justify-between">
+                <Label htmlFor="criteria-collections">Open collections disqualify</Label>
+                <Switch
+                  id="criteria-collections"
+                  checked={!!draft.collectionsDisqualify}
+                  onCheckedChange={(checked) => update({ collectionsDisqualify: checked })}
+                  data-testid="switch-criteria-collections"
+                />
+              </div>
+              <div className="flex items-center justify-between">
+                <Label htmlFor="criteria-housing-debt">Unpaid rent or utilities disqualify</Label>
+                <Switch
+                  id="criteria-housing-debt"
+                  checked={!!draft.housingDebtDisqualify}
+                  onCheckedChange={(checked) => update({ housingDebtDisqualify: checked })}
+                  data-testid="switch-criteria-housing-debt"
+                />
+              </div>
+            </div>
+
+            <div className="space-y-3">
+              <h4 className="text-sm font-medium">Rental & Criminal History</h4>
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-1">
+                  <Label htmlFor="criteria-eviction">Eviction lookback (years)</Label>
+                  <Input
+                    id="criteria-eviction"
+                    type="number"
+                    placeholder="Not considered"
+                    value={draft.evictionLookbackYears ?? ""}
+                    onChange={(e) => update({ evictionLookbackYears: numberOrNull(e.target.value) })}
+                    data-testid="input-criteria-eviction-years"
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="criteria-criminal">Criminal lookback (years)</Label>
+                  <Input
+                    id="criteria-criminal"
+                    type="number"
+                    placeholder="Not considered"
+                    value={draft.criminalLookbackYears ?? ""}
+                    onChange={(e) => update({ criminalLookbackYears: numberOrNull(e.target.value) })}
+                    data-testid="input-criteria-criminal-years"
+                  />
+                </div>
+              </div>
+              {!!draft.criminalLookbackYears && (
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="criteria-felony-only">Felony convictions only</Label>
+                  <Switch
+                    id="criteria-felony-only"
+                    checked={!!draft.felonyOnly}
+                    onCheckedChange={(checked) => update({ felonyOnly: checked })}
+                    data-testid="switch-criteria-felony-only"
+                  />
+                </div>
+              )}
+            </div>
+
+            <div className="space-y-3">
+              <h4 className="text-sm font-medium">Occupancy & Pets</h4>
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-1">
+                  <Label htmlFor="criteria-occupants">Maximum occupants</Label>
+                  <Input
+                    id="criteria-occupants"
+                    type="number"
+                    placeholder="No limit"
+                    value={draft.maxOccupants ?? ""}
+                    onChange={(e) => update({ maxOccupants: numberOrNull(e.target.value) })}
+                    data-testid="input-criteria-max-occupants"
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="criteria-pets">Maximum pets</Label>
+                  <Input
+                    id="criteria-pets"
+                    type="number"
+                    placeholder="No limit"
+                    disabled={draft.petsAllowed === false}
+                    value={draft.maxPets ?? ""}
+                    onChange={(e) => update({ maxPets: numberOrNull(e.target.value) })}
+                    data-testid="input-criteria-max-pets"
+                  />
+                </div>
+              </div>
+              <div className="flex items-center justify-between">
+                <Label htmlFor="criteria-pets-allowed">Pets allowed</Label>
+                <Switch
+                  id="criteria-pets-allowed"
+                  checked={draft.petsAllowed !== false}
+                  onCheckedChange={(checked) => update({ petsAllowed: checked, maxPets: checked ? draft.maxPets : null })}
+                  data-testid="switch-criteria-pets-allowed"
+                />
+              </div>
+            </div>
+
+            <div className="space-y-1">
+              <Label htmlFor="criteria-notes">Additional criteria</Label>
+              <Textarea
+                id="criteria-notes"
+                placeholder="Anything else applicants should know"
+                value={draft.additionalNotes || ""}
+                onChange={(e) => update({ additionalNotes: e.target.value })}
+                data-testid="input-criteria-notes"
+              />
+            </div>
+
+            {(errors.length > 0 || warnings.length > 0) && (
+              <div className="space-y-2">
+                {errors.map((issue) => (
+                  <div key={issue.code} className="flex gap-2 text-sm text-destructive" data-testid={`issue-criteria-${issue.code}`}>
+                    <Ban className="h-4 w-4 mt-0.5 shrink-0" />
+                    <span>{issue.message}</span>
+                  </div>
+                ))}
+                {warnings.map((issue) => (
+                  <div key={issue.code} className="flex gap-2 text-sm text-amber-700 dark:text-amber-400" data-testid={`issue-criteria-${issue.code}`}>
+                    <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+                    <span>{issue.message}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {preview.length > 0 && (
+              <div className="border rounded-lg p-3 bg-muted/30 space-y-1">
+                <div className="flex items-center gap-2 mb-1">
+                  <p className="text-sm font-medium">Applicants will see</p>
+                  <Badge variant="secondary" className="text-xs">Preview</Badge>
+                </div>
+                <ul className="list-disc pl-5 text-sm text-muted-foreground space-y-0.5">
+                  {preview.map((line) => <li key={line}>{line}</li>)}
+                </ul>
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => publishMutation.mutate()}
+            disabled={publishMutation.isPending || errors.length > 0 || !hasPublishableCriteria(draft)}
+            data-testid="button-publish-selection-criteria"
+          >
+            {publishMutation.isPending ? "Publishing..." : data?.current ? "Publish New Version" : "Publish Criteria"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
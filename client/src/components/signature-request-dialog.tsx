@@ -0,0 +1,321 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Separator } from "@/components/ui/separator";
+import {
+  Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select, SelectContent, SelectItem, SelectTrigger, SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient, getAccessToken } from "@/lib/queryClient";
+import type { SavedDocument } from "@shared/schema";
+import { Plus, Loader2, Mail, X, Trash2, Download, Send } from "lucide-react";
+
+interface SignerView {
+  id: string;
+  name: string;
+  email: string;
+  role: string;
+  status: string;
+  signedAt: string | null;
+  viewedAt: string | null;
+}
+
+interface SignatureRequestView {
+  id: string;
+  status: string;
+  message: string | null;
+  createdAt: string;
+  completedAt: string | null;
+  signers: SignerView[];
+}
+
+interface SignerDraft {
+  name: string;
+  email: string;
+  role: string;
+}
+
+interface Props {
+  document: SavedDocument | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+const STATUS_BADGE: Record<string, { label: string; variant: any }> = {
+  pending: { label: "Awaiting Signatures", variant: "outline" },
+  completed: { label: "Signed", variant: "default" },
+  canceled: { label: "Canceled", variant: "secondary" },
+  declined: { label: "Declined", variant: "destructive" },
+};
+
+// Seed the signer list from the lease wizard's tenant fields when present.
+function initialSigners(document: SavedDocument | null): SignerDraft[] {
+  const data = (document?.formData || {}) as Record<string, string>;
+  if (data.tenantName || data.tenantEmail) {
+    return [{ name: data.tenantName || "", email: data.tenantEmail || "", role: "tenant" }];
+  }
+  return [{ name: "", email: "", role: "tenant" }];
+}
+
+export function SignatureRequestDialog({ document, onOpenChange }: Props) {
+  const { toast } = useToast();
+  const [signers, setSigners] = useState<SignerDraft[]>(initialSigners(document));
+  const [message, setMessage] = useState("");
+
+  useEffect(() => {
+    setSigners(initialSigners(document));
+    setMessage("");
+  }, [document?.id]);
+
+  const requestsKey = [`/api/saved-documents/${document?.id}/signature-requests`];
+  const { data: requests = [], isLoading } = useQuery<SignatureRequestView[]>({
+    queryKey: requestsKey,
+    enabled: !!document,
+  });
+  const pending = requests.find((r) => r.status === "pending");
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: requestsKey });
+    queryClient.invalidateQueries({ queryKey: ['/api/saved-documents'] });
+  };
+
+  const sendMutation = useMutation({
+    mutationFn: async () => {
+      const r = await apiRequest("POST", `/api/saved-documents/${document!.id}/signature-request`, {
+        signers: signers.map((s) => ({ ...s, name: s.name.trim(), email: s.email.trim() })),
+        message: message.trim() || undefined,
+      });
+      return r.json();
+    },
+    onSuccess: (resp: { emailed: number; signers: SignerView[] }) => {
+      toast({
+        title: "Sent for signature",
+        description: `Signing links emailed to ${resp.emailed} of ${resp.signers.length} signer(s).`,
+      });
+      invalidate();
+    },
+    onError: (err: any) => {
+      toast({ title: "Could not send", description: err.message, variant: "destructive" });
+    },
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const r = await apiRequest("POST", `/api/signature-requests/${id}/cancel`);
+      return r.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Signature request canceled" });
+      invalidate();
+    },
+    onError: (err: any) => {
+      toast({ title: "Could not cancel", description: err.message, variant: "destructive" });
+    },
+  });
+
+  const remindMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const r = await apiRequest("POST", `/api/signature-requests/${id}/remind`);
+      return r.json();
+    },
+    onSuccess: (resp: { sent: number; status: string }) => {
+      toast({
+        title: resp.status === "completed" ? "Signing completed" : "Reminders sent",
+        description: resp.status === "completed"
+          ? "All parties had signed; the signed copy is ready."
+          : `Reminder emailed to ${resp.sent} signer(s).`,
+      });
+      invalidate();
+    },
+    onError: (err: any) => {
+      toast({ title: "Could not send reminders", description: err.message, variant: "destructive" });
+    },
+  });
+
+  const downloadSigned = async (id: string) => {
+    const token = getAccessToken();
+    const response = await fetch(`/api/signature-requests/${id}/signed-pdf`, {
+      credentials: 'include',
+      headers: token ? { 'Authorization': `Bearer ${token}` } : {}
+    });
+    if (!response.ok) {
+      toast({ title: "Download Failed", description: "Failed to download the signed document.", variant: "destructive" });
+      return;
+    }
+    const url = window.URL.createObjectURL(await response.blob());
+    const a = window.document.createElement('a');
+    a.href = url;
+    a.download = `${document?.documentName || 'document'} (signed).pdf`;
+    window.document.body.appendChild(a);
+    a.click();
+    window.document.body.removeChild(a);
+    window.URL.revokeObjectURL(url);
+  };
+
+  const updateSigner = (index: number, patch: Partial<SignerDraft>) => {
+    setSigners((prev) => prev.map((s, i) => (i === index ? { ...s, ...patch } : s)));
+  };
+
+  const canSend = signers.length > 0 && signers.every((s) => s.name.trim() && s.email.trim());
+
+  return (
+    <Dialog open={!!document} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto" data-testid="dialog-signature-request">
+        <DialogHeader>
+          <DialogTitle>Send for Signature</DialogTitle>
+          <DialogDescription>
+            Each signer gets a private link to review and sign {document?.documentName}. Everyone receives the signed copy with a certificate of completion.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="py-6 text-center"><Loader2 className="h-6 w-6 animate-spin mx-auto text-muted-foreground" /></div>
+        ) : (
+          <div className="space-y-4">
+            {requests.map((r) => {
+              const badge = STATUS_BADGE[r.status] || { label: r.status, variant: "outline" };
+              return (
+                <div key={r.id} className="rounded-md border p-3 space-y-2" data-testid={`signature-request-${r.id}`}>
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="text-sm text-muted-foreground">
+                      Sent {new Date(r.createdAt).toLocaleDateString()}
+                    </span>
+                    <Badge variant={badge.variant}>{badge.label}</Badge>
+                  </div>
+                  {r.signers.map((s) => (
+                    <div key={s.id} className="flex items-center justify-between text-sm">
+                      <span>{s.name} <span className="text-muted-foreground">({s.role})</span></span>
+                      <span className="text-muted-foreground">
+                        {s.status === "signed" && s.signedAt ? `Signed ${new Date(s.signedAt).toLocaleDateString()}` : s.status}
+                      </span>
+                    </div>
+                  ))}
+                  {r.status === "pending" && (
+                    <div className="flex gap-2 pt-1">
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => remindMutation.mutate(r.id)}
+                        disabled={remindMutation.isPending}
+                        data-testid={`button-remind-signers-${r.id}`}
+                      >
+                        <Mail className="h-4 w-4 mr-2" />
+                        Remind
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => cancelMutation.mutate(r.id)}
+                        disabled={cancelMutation.isPending}
+                        data-testid={`button-cancel-signature-${r.id}`}
+                      >
+                        <X className="h-4 w-4 mr-2" />
+                        Cancel
+                      </Button>
+                    </div>
+                  )}
+                  {r.status === "completed" && (
+                    <Button
+                      size="sm"
+                      onClick={() => downloadSigned(r.id)}
+                      data-testid={`button-download-signed-${r.id}`}
+                    >
+                      <Download className="h-4 w-4 mr-2" />
+                      Download Signed PDF
+                    </Button>
+                  )}
+                </div>
+              );
+            })}
+
+            {!pending && (
+              <>
+                {requests.length > 0 && <Separator />}
+                {signers.map((s, i) => (
+                  <div key={i} className="grid gap-2 rounded-md border p-3">
+                    <div className="flex items-center justify-between">
+                      <Label>Signer {i + 1}</Label>
+                      {signers.length > 1 && (
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          onClick={() => setSigners((prev) => prev.filter((_, j) => j !== i))}
+                          data-testid={`button-remove-signer-${i}`}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </div>
+                    <Input
+                      placeholder="Full name"
+                      value={s.name}
+                      onChange={(e) => updateSigner(i, { name: e.target.value })}
+                      data-testid={`input-signer-name-${i}`}
+                    />
+                    <Input
+                      type="email"
+                      placeholder="Email"
+                      value={s.email}
+                      onChange={(e) => updateSigner(i, { email: e.target.value })}
+                      data-testid={`input-signer-email-${i}`}
+                    />
+                    <Select value={s.role} onValueChange={(v) => updateSigner(i, { role: v })}>
+                      <SelectTrigger data-testid={`select-signer-role-${i}`}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="tenant">Tenant</SelectItem>
+                        <SelectItem value="cosigner">Co-signer</SelectItem>
+                        <SelectItem value="guarantor">Guarantor</SelectItem>
+                        <SelectItem value="landlord">Landlord</SelectItem>
+                        <SelectItem value="other">Other</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setSigners((prev) => [...prev, { name: "", email: "", role: "tenant" }])}
+                  data-testid="button-add-signer"
+                >
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add Signer
+                </Button>
+                <div className="grid gap-2">
+                  <Label htmlFor="signature-message">Message (optional)</Label>
+                  <Textarea
+                    id="signature-message"
+                    value={message}
+                    onChange={(e) => setMessage(e.target.value)}
+                    placeholder="Please review and sign at your earliest convenience."
+                    data-testid="input-signature-message"
+                  />
+                </div>
+              </>
+            )}
+          </div>
+        )}
+
+        {!pending && (
+          <DialogFooter>
+            <Button
+              onClick={() => sendMutation.mutate()}
+              disabled={!canSend || sendMutation.isPending}
+              data-testid="button-send-signature-request"
+            >
+              {sendMutation.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Send className="h-4 w-4 mr-2" />}
+              Send for Signature
+            </Button>
+          </DialogFooter>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
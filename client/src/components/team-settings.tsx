@@ -0,0 +1,240 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { Organization } from "@shared/schema";
+import { INVITABLE_TEAM_ROLES, TEAM_ROLES } from "@shared/organizations";
+import { Users, Loader2, Trash2, Send, Mail } from "lucide-react";
+
+interface TeamMember {
+  id: string;
+  email: string;
+  name: string | null;
+  role: string;
+  invitePending: boolean;
+  joinedAt: string | null;
+}
+
+interface TeamView {
+  organization: Organization | null;
+  defaultName: string;
+  owner: { email: string; name: string | null };
+  members: TeamMember[];
+  role: string;
+}
+
+function roleLabel(role: string): string {
+  return TEAM_ROLES.find((r) => r.value === role)?.label || role;
+}
+
+/**
+ * Settings card for the account's team. Owners invite members and set their
+ * roles; managers see who's on the team; other roles just see their own role.
+ */
+export function TeamSettings() {
+  const { toast } = useToast();
+  const { user, teamRole, canAccess } = useAuth();
+  const isOwner = teamRole === "owner";
+  const [teamName, setTeamName] = useState("");
+  const [inviteEmail, setInviteEmail] = useState("");
+  const [inviteRole, setInviteRole] = useState<string>("manager");
+
+  const { data: team, isLoading } = useQuery<TeamView>({
+    queryKey: ["/api/organization"],
+    enabled: canAccess("team"),
+  });
+
+  useEffect(() => {
+    if (team) setTeamName(team.organization?.name || team.defaultName);
+  }, [team]);
+
+  const onInviteSent = (result: { inviteUrl: string; emailSent: boolean }) => {
+    queryClient.invalidateQueries({ queryKey: ["/api/organization"] });
+    toast({
+      title: result.emailSent ? "Invite Sent" : "Invite Created",
+      description: result.emailSent ? undefined : `Email couldn't be sent - share this link: ${result.inviteUrl}`,
+    });
+  };
+  const onError = (e: Error) => toast({ title: "Error", description: e.message, variant: "destructive" });
+
+  const renameMutation = useMutation({
+    mutationFn: async () => (await apiRequest("PATCH", "/api/organization", { name: teamName })).json(),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/organization"] });
+      toast({ title: "Team Name Saved" });
+    },
+    onError,
+  });
+
+  const inviteMutation = useMutation({
+    mutationFn: async () => (await apiRequest("POST", "/api/organization/members", { email: inviteEmail, role: inviteRole })).json(),
+    onSuccess: (result) => {
+      setInviteEmail("");
+      onInviteSent(result);
+    },
+    onError,
+  });
+
+  const resendMutation = useMutation({
+    mutationFn: async (id: string) => (await apiRequest("POST", `/api/organization/members/${id}/resend`)).json(),
+    onSuccess: onInviteSent,
+    onError,
+  });
+
+  const roleMutation = useMutation({
+    mutationFn: async ({ id, role }: { id: string; role: string }) =>
+      (await apiRequest("PATCH", `/api/organization/members/${id}`, { role })).json(),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["/api/organization"] }),
+    onError,
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/organization/members/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/organization"] });
+      toast({ title: "Member Removed" });
+    },
+    onError,
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <Users className="h-5 w-5 text-primary" />
+          <CardTitle>Team</CardTitle>
+        </div>
+        <CardDescription>
+          {isOwner
+            ? "Invite the people who help run your rentals. Each member signs in with their own login and only sees what their role allows."
+            : `You're a ${roleLabel(teamRole).toLowerCase()} on ${user?.organizationName || "this team"}.`}
+        </CardDescription>
+      </CardHeader>
+      {canAccess("team") && (
+        <CardContent className="space-y-6">
+          {isLoading || !team ? (
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          ) : (
+            <>
+              {isOwner && (
+                <div className="flex items-end gap-2 max-w-md">
+                  <div className="flex-1 space-y-2">
+                    <Label htmlFor="team-name">Team name</Label>
+                    <Input id="team-name" value={teamName} onChange={(e) => setTeamName(e.target.value)} data-testid="input-team-name" />
+                  </div>
+                  <Button
+                    variant="outline"
+                    onClick={() => renameMutation.mutate()}
+                    disabled={!teamName.trim() || teamName === team.organization?.name || renameMutation.isPending}
+                    data-testid="button-save-team-name"
+                  >
+                    Save
+                  </Button>
+                </div>
+              )}
+
+              <div className="space-y-2">
+                <div className="flex items-center justify-between gap-2 rounded-md border p-3">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium truncate">{team.owner.name || team.owner.email}</p>
+                    <p className="text-xs text-muted-foreground truncate">{team.owner.email}</p>
+                  </div>
+                  <Badge>Owner</Badge>
+                </div>
+                {team.members.map((m) => (
+                  <div key={m.id} className="flex flex-wrap items-center justify-between gap-2 rounded-md border p-3" data-testid={`row-member-${m.id}`}>
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium truncate">{m.name || m.email}</p>
+                      <p className="text-xs text-muted-foreground truncate">
+                        {m.email}{m.invitePending ? " · invite pending" : ""}
+                      </p>
+                    </div>
+                    {isOwner ? (
+                      <div className="flex items-center gap-2">
+                        <Select value={m.role} onValueChange={(role) => roleMutation.mutate({ id: m.id, role })}>
+                          <SelectTrigger className="w-40 h-8" data-testid={`select-member-role-${m.id}`}><SelectValue /></SelectTrigger>
+                          <SelectContent>
+                            {INVITABLE_TEAM_ROLES.map((r) => (
+                              <SelectItem key={r.value} value={r.value}>{r.label}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        {m.invitePending && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => resendMutation.mutate(m.id)}
+                            disabled={resendMutation.isPending}
+                            title="Resend invite"
+                            data-testid={`button-resend-invite-${m.id}`}
+                          >
+                            <Mail className="h-4 w-4" />
+                          </Button>
+                        )}
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => {
+                            if (confirm(`Remove ${m.email} from your team? They'll lose access right away.`)) removeMutation.mutate(m.id);
+                          }}
+                          data-testid={`button-remove-member-${m.id}`}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    ) : (
+                      <Badge variant="outline">{roleLabel(m.role)}</Badge>
+                    )}
+                  </div>
+                ))}
+              </div>
+
+              {isOwner && (
+                <div className="space-y-3 rounded-md bg-muted/40 p-4">
+                  <p className="text-sm font-medium">Invite a team member</p>
+                  <div className="flex flex-col sm:flex-row gap-2">
+                    <Input
+                      type="email"
+                      placeholder="name@example.com"
+                      value={inviteEmail}
+                      onChange={(e) => setInviteEmail(e.target.value)}
+                      data-testid="input-invite-email"
+                    />
+                    <Select value={inviteRole} onValueChange={setInviteRole}>
+                      <SelectTrigger className="sm:w-44" data-testid="select-invite-role"><SelectValue /></SelectTrigger>
+                      <SelectContent>
+                        {INVITABLE_TEAM_ROLES.map((r) => (
+                          <SelectItem key={r.value} value={r.value}>{r.label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Button
+                      onClick={() => inviteMutation.mutate()}
+                      disabled={!inviteEmail.trim() || inviteMutation.isPending}
+                      data-testid="button-send-invite"
+                    >
+                      {inviteMutation.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Send className="h-4 w-4 mr-2" />}
+                      Invite
+                    </Button>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {INVITABLE_TEAM_ROLES.find((r) => r.value === inviteRole)?.description}
+                  </p>
+                </div>
+              )}
+            </>
+          )}
+        </CardContent>
+      )}
+    </Card>
+  );
+}
@@ -1,12 +1,16 @@
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useCallback } from "react";
 import type { User } from "@shared/schema";
+import { canAccessTeamArea, type TeamAccess, type TeamArea, type TeamRole } from "@shared/organizations";
 import { ApiError, apiRequest, setAccessToken, getQueryFn } from "@/lib/queryClient";
 
+// Team members get their team's role alongside their own login details.
+export type AuthUser = User & { teamRole?: TeamRole; organizationName?: string | null };
+
 export function useAuth() {
   const queryClient = useQueryClient();
   
-  const { data: user, isLoading, error } = useQuery<User | null>({
+  const { data: user, isLoading, error } = useQuery<AuthUser | null>({
     queryKey: ["/api/auth/user"],
     queryFn: getQueryFn({ on401: "returnNull" }),
     retry: false,
@@ -44,10 +48,21 @@ export function useAuth() {
   // User needs to activate (subscribe) if they have no active subscription
   const needsActivation = !!user && !isSubscriptionActive;
 
+  const teamRole: TeamRole = user?.teamRole || 'owner';
+  const canAccess = useCallback(
+    (area: TeamArea, level: Exclude<TeamAccess, 'none'> = 'read') => canAccessTeamArea(teamRole, area, level),
+    [teamRole],
+  );
+
   return {
     user,
     isLoading,
     isAuthenticated: !!user,
+    // Tenant logins only get the tenant portal (see TenantRouter in App.tsx)
+    isTenant: user?.role === 'tenant',
+    // Role on the landlord's team - 'owner' for solo landlords
+    teamRole,
+    canAccess,
     isSubscriptionActive: isSubscriptionActive && !isTrialExpired,
     needsActivation: needsActivation || isTrialExpired,
     error: error instanceof ApiError ? error : null,
@@ -9,6 +9,7 @@ import { queryClient, apiRequest } from '@/lib/queryClient';
 import { AlertCircle, AlertTriangle, CheckCircle, XCircle, Clock, FileText, ExternalLink, PlayCircle, Calendar, RefreshCw, Settings2 } from 'lucide-react';
 import { format, formatDistanceToNow } from 'date-fns';
 import { ClauseValuesTab } from '@/components/admin/clause-values-tab';
+import { StateDisclosuresTab } from '@/components/admin/state-disclosures-tab';
 
 interface LegislativeBill {
   id: string;
@@ -232,6 +233,7 @@ export default function AdminLegislativeMonitoring() {
     onSuccess: (data: any) => {
       queryClient.invalidateQueries({ queryKey: ['/api/admin/legislative-bills'] });
       queryClient.invalidateQueries({ queryKey: ['/api/admin/template-review-queue'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/state-disclosures'] });
       toast({
         title: 'AI Drafts Created',
         description: data.message || 'Template drafts have been created. Review them in the Template Drafts tab.',
@@ -496,6 +498,9 @@ export default function AdminLegislativeMonitoring() {
               <Settings2 className="h-3.5 w-3.5 mr-1.5" />
               Clause Values
             </TabsTrigger>
+            <TabsTrigger value="disclosures" data-testid="tab-disclosures">
+              Disclosures
+            </TabsTrigger>
             <TabsTrigger value="history" data-testid="tab-history">
               History
             </TabsTrigger>
@@ -1007,6 +1012,10 @@ export default function AdminLegislativeMonitoring() {
             <ClauseValuesTab />
           </TabsContent>
 
+          <TabsContent value="disclosures" className="space-y-4">
+            <StateDisclosuresTab />
+          </TabsContent>
+
           <TabsContent value="history" className="space-y-4">
             <div className="space-y-4">
               <div>
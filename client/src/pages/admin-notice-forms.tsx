@@ -73,6 +73,7 @@ type FormServiceRule = {
   additionalMethodIds: string[];
   ackText: string | null;
   requiresAck: boolean;
+  extensionDays: number;
   sortOrder: number;
 };
 
@@ -144,6 +145,7 @@ type OutputTemplate = {
   id: string;
   formVersionId: string;
   mode: string;
+  purpose: string;
   basePdfAttachmentPath: string | null;
   htmlTemplate: string | null;
   docxTemplateAttachmentPath: string | null;
@@ -760,7 +762,19 @@ function DayRulesPanel({ versionId, rules: initialRules }: { versionId: string;
                 <Input data-testid="input-notice-days" type="number" value={newRule.noticePeriodDays}
                   onChange={e => setNewRule(p => ({ ...p, noticePeriodDays: parseInt(e.target.value) || 0 }))} />
               </div>
-              {newRule.dayType !== 'calendar' && (
+              <div>
+                <Label>Counting Convention</Label>
+                <Select value={newRule.countingConvention} onValueChange={v => setNewRule(p => ({ ...p, countingConvention: v }))}>
+                  <SelectTrigger data-testid="select-counting-convention"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="day0_service_plus_n">Service day excluded (day 0)</SelectItem>
+                    <SelectItem value="day0_service_plus_n_roll_forward">Service day excluded, roll forward off weekends/holidays</SelectItem>
+                    <SelectItem value="day1_service_inclusive">Service day counts as day 1</SelectItem>
+                    <SelectItem value="day1_service_inclusive_roll_forward">Service day counts as day 1, roll forward off weekends/holidays</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              {(newRule.dayType !== 'calendar' || newRule.countingConvention.endsWith('_roll_forward')) && (
                 <div>
                   <Label>Holiday Calendar (optional)</Label>
                   <Select value={newRule.holidayCalendarId || "none"} onValueChange={v => setNewRule(p => ({ ...p, holidayCalendarId: v === "none" ? null : v }))}>
@@ -994,7 +1008,7 @@ function ServiceRulesPanel({ versionId, rules: initialRules, leaseGates: initial
     formVersionId: versionId, methodId: "", isAllowed: true,
     requiresPriorAttempts: false, priorAttemptMethodIds: [] as string[],
     requiresAdditionalMethods: false, additionalMethodIds: [] as string[],
-    ackText: "", requiresAck: false, sortOrder: 0,
+    ackText: "", requiresAck: false, extensionDays: 0, sortOrder: 0,
   });
 
   const [newGate, setNewGate] = useState({
@@ -1079,6 +1093,12 @@ function ServiceRulesPanel({ versionId, rules: initialRules, leaseGates: initial
                       onChange={e => setNewRule(p => ({ ...p, ackText: e.target.value }))} />
                   </div>
                 )}
+                <div>
+                  <Label>Extension Days</Label>
+                  <Input data-testid="input-rule-extension-days" type="number" min={0} value={newRule.extensionDays}
+                    onChange={e => setNewRule(p => ({ ...p, extensionDays: Math.max(0, parseInt(e.target.value) || 0) }))} />
+                  <p className="text-xs text-muted-foreground mt-1">Added to the notice period when served this way (e.g. 3 for mail).</p>
+                </div>
                 <div>
                   <Label>Sort Order</Label>
                   <Input data-testid="input-rule-sort" type="number" value={newRule.sortOrder}
@@ -1111,6 +1131,7 @@ function ServiceRulesPanel({ versionId, rules: initialRules, leaseGates: initial
                 {rule.requiresPriorAttempts && <Badge variant="secondary" className="text-xs">Requires prior</Badge>}
                 {rule.requiresAdditionalMethods && <Badge variant="secondary" className="text-xs">Requires additional</Badge>}
                 {rule.requiresAck && <Badge variant="secondary" className="text-xs">Requires ack</Badge>}
+                {rule.extensionDays > 0 && <Badge variant="secondary" className="text-xs">+{rule.extensionDays} days</Badge>}
               </div>
               <Button variant="ghost" size="icon" onClick={() => deleteRuleMutation.mutate(rule.id)}>
                 <Trash2 className="h-4 w-4 text-destructive" />
@@ -1327,7 +1348,7 @@ function OutputPanel({ versionId, templates: initialTemplates }: { versionId: st
   const { toast } = useToast();
   const [showCreate, setShowCreate] = useState(false);
   const [newTemplate, setNewTemplate] = useState({
-    formVersionId: versionId, mode: "leaseshield_formatted" as string,
+    formVersionId: versionId, mode: "leaseshield_formatted" as string, purpose: "notice",
     basePdfAttachmentPath: "", htmlTemplate: "", pageCount: 1,
   });
 
@@ -1381,6 +1402,16 @@ function OutputPanel({ versionId, templates: initialTemplates }: { versionId: st
                   </SelectContent>
                 </Select>
               </div>
+              <div>
+                <Label>Used For</Label>
+                <Select value={newTemplate.purpose} onValueChange={v => setNewTemplate(p => ({ ...p, purpose: v }))}>
+                  <SelectTrigger data-testid="select-output-purpose"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="notice">Notice</SelectItem>
+                    <SelectItem value="proof_of_service">Proof of Service</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
               {newTemplate.mode === 'official_pdf_overlay' && (
                 <div>
                   <Label>Base PDF Path</Label>
@@ -1424,6 +1455,7 @@ function OutputPanel({ versionId, templates: initialTemplates }: { versionId: st
               <div className="flex items-center gap-2 flex-wrap">
                 <Eye className="h-4 w-4 text-muted-foreground" />
                 <Badge variant="outline" className="text-xs">{tmpl.mode?.replace(/_/g, ' ')}</Badge>
+                {tmpl.purpose === 'proof_of_service' && <Badge variant="secondary" className="text-xs">proof of service</Badge>}
                 {tmpl.pageCount && <span className="text-xs text-muted-foreground">{tmpl.pageCount} page(s)</span>}
                 {tmpl.basePdfAttachmentPath && <span className="text-xs text-muted-foreground font-mono">{tmpl.basePdfAttachmentPath}</span>}
               </div>
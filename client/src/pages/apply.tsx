@@ -53,10 +53,12 @@ import {
   X,
   DollarSign,
   Copy,
+  ClipboardCheck,
 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { Logo } from "@/components/logo";
 import type { PropertyTerms } from "@shared/propertyTerms";
+import { describeSelectionCriteria, type SelectionCriteria } from "@shared/selectionCriteria";
 
 interface DocumentRequirementsConfig {
   id: boolean;
@@ -110,6 +112,12 @@ interface ApplicationLinkData {
     leaseSignDeadlineHours?: number;
     additionalNotes?: string;
   };
+  selectionCriteria?: {
+    id: string;
+    version: number;
+    publishedAt: string;
+    criteria: SelectionCriteria;
+  } | null;
 }
 
 interface PersonData {
@@ -520,6 +528,7 @@ export default function Apply() {
         body: JSON.stringify({
           ...data,
           propertyTermsAcknowledgedAt: hasTerms && hasAcknowledgedTerms ? new Date().toISOString() : null,
+          selectionCriteriaId: hasAcknowledgedTerms ? linkData?.selectionCriteria?.id : undefined,
         }),
       });
       if (!res.ok) throw new Error("Failed to start application");
@@ -579,6 +588,7 @@ export default function Apply() {
         body: JSON.stringify({ 
           formData,
           userAgent: navigator.userAgent, // Capture for screening disclosure audit
+          selectionCriteriaId: linkData?.selectionCriteria?.id, // Recorded only if not acknowledged at start
         }),
       });
       if (!res.ok) {
@@ -939,6 +949,25 @@ export default function Apply() {
                   </div>
                 )}
 
+                {/* Published tenant selection criteria */}
+                {linkData.selectionCriteria && describeSelectionCriteria(linkData.selectionCriteria.criteria).length > 0 && (
+                  <div className="border rounded-lg p-4 space-y-3" data-testid="section-selection-criteria">
+                    <h3 className="font-semibold flex items-center gap-2 text-lg">
+                      <ClipboardCheck className="h-5 w-5 text-primary" />
+                      Tenant Selection Criteria
+                    </h3>
+                    <p className="text-sm text-muted-foreground">Every application for this rental is evaluated against these criteria.</p>
+                    <ul className="list-disc pl-5 text-sm space-y-1">
+                      {describeSelectionCriteria(linkData.selectionCriteria.criteria).map((line) => (
+                        <li key={line}>{line}</li>
+                      ))}
+                    </ul>
+                    <p className="text-xs text-muted-foreground">
+                      Version {linkData.selectionCriteria.version}, published {new Date(linkData.selectionCriteria.publishedAt).toLocaleDateString()}
+                    </p>
+                  </div>
+                )}
+
                 {/* Single Acknowledgment Checkbox (always shown) */}
                 <div className="border-t pt-4 mt-2 space-y-2">
                   <div className="flex items-start gap-3">
@@ -955,6 +984,7 @@ export default function Apply() {
                       {hasDisplayableTerms(linkData.propertyTerms) 
                         ? "I have reviewed and acknowledge the rent, fees, deposits, deadlines, and key rental terms for this rental."
                         : "I have reviewed and acknowledge the application requirements and policies above."}
+                      {linkData.selectionCriteria && " This includes the tenant selection criteria."}
                     </Label>
                   </div>
                   <p className="text-xs text-muted-foreground ml-7">This acknowledgment is required before starting the application.</p>
@@ -11,6 +11,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
 import { Link } from "wouter";
+import { IndividualizedAssessmentPanel } from "@/components/individualized-assessment-panel";
 import {
   CheckCircle,
   AlertTriangle,
@@ -76,6 +77,7 @@ export default function AuditHistory() {
   const [editingLog, setEditingLog] = useState<AuditLog | null>(null);
   const [viewingLog, setViewingLog] = useState<AuditLog | null>(null);
   const [deleteLogId, setDeleteLogId] = useState<string | null>(null);
+  const [assessingLog, setAssessingLog] = useState<AuditLog | null>(null);
   const [editName, setEditName] = useState("");
   const [editOutcome, setEditOutcome] = useState<'approve' | 'conditional' | 'deny'>('approve');
   const [isDownloading, setIsDownloading] = useState(false);
@@ -348,6 +350,18 @@ export default function AuditHistory() {
                     </div>
                   )}
 
+                  {log.outcome === 'deny' && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setAssessingLog(log)}
+                      data-testid={`button-assessment-${log.id}`}
+                    >
+                      <Scale className="h-4 w-4 mr-1" />
+                      Individualized Assessment
+                    </Button>
+                  )}
+
                   {log.outcome === 'deny' && log.adverseActionLetterGenerated && (
                     <div className="flex items-center gap-4 text-sm">
                       <span className="flex items-center gap-1 text-primary">
@@ -600,6 +614,28 @@ export default function AuditHistory() {
         </DialogContent>
       </Dialog>
 
+      <Dialog open={!!assessingLog} onOpenChange={(open) => !open && setAssessingLog(null)}>
+        <DialogContent className="max-w-3xl max-h-[85vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{assessingLog?.applicantName || "Applicant"}</DialogTitle>
+            <DialogDescription>Fair-chance review for this denial.</DialogDescription>
+          </DialogHeader>
+          {assessingLog && (
+            <IndividualizedAssessmentPanel
+              decision={{
+                id: assessingLog.id,
+                stateId: assessingLog.stateId,
+                cityId: assessingLog.cityId,
+                countyId: assessingLog.countyId,
+                applicantName: assessingLog.applicantName,
+                generatedDenialText: assessingLog.generatedDenialText,
+                criteriaSelectedForDenial: assessingLog.criteriaSelectedForDenial,
+              }}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+
       <AlertDialog open={!!deleteLogId} onOpenChange={(open) => !open && setDeleteLogId(null)}>
         <AlertDialogContent>
           <AlertDialogHeader>
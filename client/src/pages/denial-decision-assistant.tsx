@@ -1,4 +1,4 @@
-import { useState, useMemo } from "react";
+import { useState, useMemo, useEffect } from "react";
 import { useAuth } from "@/hooks/useAuth";
 import { useToast } from "@/hooks/use-toast";
 import { Link } from "wouter";
@@ -11,7 +11,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { apiRequest, queryClient } from "@/lib/queryClient";
-import type { State, City, County } from "@shared/schema";
+import type { State, City, County, ScreeningResultRecord, RentalPropertySelectionCriteria } from "@shared/schema";
 import {
   AlertTriangle,
   Lock,
@@ -40,6 +40,9 @@ import {
   DialogTitle,
   DialogFooter,
 } from "@/components/ui/dialog";
+import { IndividualizedAssessmentPanel } from "@/components/individualized-assessment-panel";
+import { requiresIndividualizedAssessment } from "@shared/individualizedAssessment";
+import { unpublishedDenialCodes } from "@shared/selectionCriteria";
 
 interface CriterionWithRule {
   id: string;
@@ -55,6 +58,22 @@ interface CriterionWithRule {
 
 type CriteriaByCategory = Record<string, CriterionWithRule[]>;
 
+interface ScreeningResultGroup {
+  orderId: string;
+  personId: string | null;
+  personName: string | null;
+  status: string;
+  records: ScreeningResultRecord[];
+  suggestedCriteria: string[];
+}
+
+interface HeldSelectionCriteria {
+  propertyId: string;
+  propertyName: string;
+  criteria: RentalPropertySelectionCriteria | null;
+  acknowledgedAt: string | null;
+}
+
 const CATEGORY_LABELS: Record<string, string> = {
   criminal: "Criminal History",
   eviction: "Eviction History",
@@ -96,6 +115,13 @@ export default function DenialDecisionAssistant() {
   const [applicantAddress, setApplicantAddress] = useState('');
   const [isDownloading, setIsDownloading] = useState(false);
   const [usedConsumerReport, setUsedConsumerReport] = useState(false);
+  // Opened from an application's screening ("Decision Assistant"): the
+  // report's findings pre-check step 2. The landlord can still change any of it.
+  const [screeningLink] = useState(() => {
+    const params = new URLSearchParams(window.location.search);
+    return { submissionId: params.get('submissionId'), personId: params.get('personId') };
+  });
+  const [prefilledStateId, setPrefilledStateId] = useState<string | null>(null);
 
   const { data: states = [], isLoading: statesLoading } = useQuery<State[]>({
     queryKey: ['/api/states'],
@@ -135,6 +161,69 @@ export default function DenialDecisionAssistant() {
     enabled: !!selectedStateId,
   });
 
+  const { data: screeningResults } = useQuery<ScreeningResultGroup[]>({
+    queryKey: ['/api/rental/submissions', screeningLink.submissionId, 'screening', 'results'],
+    queryFn: async () => {
+      const res = await apiRequest('GET', `/api/rental/submissions/${screeningLink.submissionId}/screening/results`);
+      return res.json();
+    },
+    enabled: !!screeningLink.submissionId,
+  });
+
+  const { data: heldCriteria } = useQuery<HeldSelectionCriteria>({
+    queryKey: ['/api/rental/submissions', screeningLink.submissionId, 'selection-criteria', screeningLink.personId],
+    queryFn: async () => {
+      const params = screeningLink.personId ? `?personId=${screeningLink.personId}` : '';
+      const res = await apiRequest('GET', `/api/rental/submissions/${screeningLink.submissionId}/selection-criteria${params}`);
+      return res.json();
+    },
+    enabled: !!screeningLink.submissionId,
+  });
+
+  const screeningResult = useMemo(
+    () => screeningResults?.find(g => g.personId === screeningLink.personId && g.status === 'complete'),
+    [screeningResults, screeningLink.personId]
+  );
+  const suggestedCodes = useMemo(
+    () => new Set(screeningResult?.suggestedCriteria || []),
+    [screeningResult]
+  );
+
+  useEffect(() => {
+    if (screeningResult?.personName) {
+      setApplicantName(prev => prev || screeningResult.personName || '');
+    }
+  }, [screeningResult]);
+
+  // Pre-check once per state - changing state clears the checklist, so the
+  // findings are re-applied against the new jurisdiction's criteria.
+  useEffect(() => {
+    if (!criteriaByCategory || !selectedStateId || suggestedCodes.size === 0) return;
+    if (prefilledStateId === selectedStateId) return;
+    const ids = Object.values(criteriaByCategory)
+      .flat()
+      .filter(c => c.status !== 'blocked' && suggestedCodes.has(c.code))
+      .map(c => c.id);
+    setCriteriaPresent(new Set(ids));
+    setPrefilledStateId(selectedStateId);
+  }, [criteriaByCategory, selectedStateId, suggestedCodes, prefilledStateId]);
+
+  const blockedFindings = useMemo(
+    () => Object.values(criteriaByCategory || {})
+      .flat()
+      .filter(c => c.status === 'blocked' && suggestedCodes.has(c.code)),
+    [criteriaByCategory, suggestedCodes]
+  );
+
+  // Checked reasons the property's published criteria never told the
+  // applicant about. The server records the same check on save.
+  const unpublishedReasons = useMemo(() => {
+    if (!heldCriteria?.criteria || !criteriaByCategory) return [];
+    const checked = Object.values(criteriaByCategory).flat().filter(c => criteriaPresent.has(c.id));
+    const codes = new Set(unpublishedDenialCodes(heldCriteria.criteria.criteriaJson, checked.map(c => c.code)));
+    return checked.filter(c => codes.has(c.code));
+  }, [heldCriteria, criteriaByCategory, criteriaPresent]);
+
   const selectedState = useMemo(() => 
     states.find(s => s.id === selectedStateId), 
     [states, selectedStateId]
@@ -187,6 +276,8 @@ export default function DenialDecisionAssistant() {
         conditions: data.conditions,
         noticesProvided: data.noticesProvided,
         applicantName: applicantName || undefined,
+        submissionId: screeningLink.submissionId || undefined,
+        personId: screeningLink.personId || undefined,
       });
       return res.json();
     },
@@ -317,6 +408,8 @@ export default function DenialDecisionAssistant() {
           generatedText: generateTextMutation.data?.text,
           noticesProvided: NOTICES_AUTO_INCLUDED.map(n => n.id),
           applicantName: applicantName || undefined,
+          submissionId: screeningLink.submissionId || undefined,
+          personId: screeningLink.personId || undefined,
         });
         const savedData = await saveRes.json();
         if (savedData?.id) {
@@ -385,6 +478,15 @@ export default function DenialDecisionAssistant() {
 
   const handleDownloadAdverseAction = () => handleDownloadLetter(usedConsumerReport ? 'adverse' : 'denial');
 
+  // Fair-chance rules on any reason for the denial route step 4 through the
+  // individualized assessment instead of straight to the final letter.
+  const assessmentRequired = useMemo(
+    () => Object.values(criteriaByCategory || {})
+      .flat()
+      .some(c => criteriaPresent.has(c.id) && requiresIndividualizedAssessment(c.requiredSteps)),
+    [criteriaByCategory, criteriaPresent]
+  );
+
   const canProceedToStep2 = !!selectedStateId;
   const canProceedToStep3 = criteriaPresent.size > 0;
   
@@ -629,6 +731,27 @@ export default function DenialDecisionAssistant() {
               </Card>
             )}
             
+            {screeningResult && suggestedCodes.size > 0 && (
+              <Card className="border-blue-200 bg-blue-50 dark:border-blue-800 dark:bg-blue-950/30" data-testid="card-screening-prefill">
+                <CardContent className="py-3 px-4 flex items-start gap-3">
+                  <Info className="h-5 w-5 text-blue-600 dark:text-blue-400 shrink-0 mt-0.5" />
+                  <div>
+                    <p className="text-sm font-medium text-blue-800 dark:text-blue-200">
+                      Pre-filled from {screeningResult.personName ? `${screeningResult.personName}'s` : 'the'} screening report
+                    </p>
+                    <p className="text-xs text-blue-700 dark:text-blue-300 mt-1">
+                      We checked the items the report shows. Review each one against the full report - you make the final call.
+                    </p>
+                    {blockedFindings.length > 0 && (
+                      <p className="text-xs text-blue-700 dark:text-blue-300 mt-1">
+                        The report also shows {blockedFindings.map(c => c.label.toLowerCase()).join(', ')}, which you can't use as a denial reason here.
+                      </p>
+                    )}
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+
             {criteriaLoading ? (
               <div className="flex items-center justify-center py-8">
                 <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
@@ -645,6 +768,7 @@ export default function DenialDecisionAssistant() {
                         key={criterion.id}
                         criterion={criterion}
                         isChecked={criteriaPresent.has(criterion.id)}
+                        fromScreening={suggestedCodes.has(criterion.code)}
                         onToggle={() => toggleCriterion(criterion.id, criterion.status)}
                       />
                     ))}
@@ -690,6 +814,27 @@ export default function DenialDecisionAssistant() {
             </CardDescription>
           </CardHeader>
           <CardContent className="space-y-4">
+            {heldCriteria && !heldCriteria.criteria && (
+              <p className="text-xs text-muted-foreground" data-testid="text-no-selection-criteria">
+                {heldCriteria.propertyName} has no published selection criteria, so this decision can't be checked against them.
+              </p>
+            )}
+            {unpublishedReasons.length > 0 && (
+              <Card className="border-amber-200 bg-amber-50 dark:border-amber-800 dark:bg-amber-950/30" data-testid="card-unpublished-criteria">
+                <CardContent className="py-3 px-4 flex items-start gap-3">
+                  <AlertTriangle className="h-5 w-5 text-amber-600 shrink-0 mt-0.5" />
+                  <div>
+                    <p className="text-sm font-medium text-amber-800 dark:text-amber-200">
+                      Not in your published criteria (version {heldCriteria?.criteria?.version})
+                    </p>
+                    <p className="text-xs text-amber-700 dark:text-amber-300 mt-1">
+                      {unpublishedReasons.map(c => c.label).join(', ')} {unpublishedReasons.length === 1 ? "isn't" : "aren't"} part of the criteria
+                      {heldCriteria?.acknowledgedAt ? ' the applicant acknowledged' : ' published for this property'}. Denying on {unpublishedReasons.length === 1 ? 'it' : 'them'} is inconsistent with how other applicants are screened.
+                    </p>
+                  </div>
+                </CardContent>
+              </Card>
+            )}
             <div className="grid gap-3 sm:grid-cols-3">
               <Button
                 variant={decisionOutcome === 'approve' ? 'default' : 'outline'}
@@ -900,81 +1045,115 @@ export default function DenialDecisionAssistant() {
                   
                 </div>
 
-                <div className="space-y-4 pt-4 border-t">
-                  <div className="flex items-center justify-between p-3 border rounded-md">
-                    <label htmlFor="consumer-report-toggle" className="text-sm cursor-pointer">
-                      <span className="font-medium">Did you use a consumer report?</span>
-                      <span className="text-muted-foreground block mt-0.5">
-                        (credit, criminal, or eviction report from a screening provider)
-                      </span>
-                    </label>
-                    <div className="flex items-center gap-2">
-                      <span className={`text-sm ${!usedConsumerReport ? 'font-medium' : 'text-muted-foreground'}`}>No</span>
-                      <Switch
-                        id="consumer-report-toggle"
-                        checked={usedConsumerReport}
-                        onCheckedChange={setUsedConsumerReport}
-                        data-testid="switch-consumer-report"
+                {assessmentRequired ? (
+                  <div className="space-y-4 pt-4 border-t">
+                    {decisionSaved && savedAuditLogId ? (
+                      <IndividualizedAssessmentPanel
+                        decision={{
+                          id: String(savedAuditLogId),
+                          stateId: selectedStateId!,
+                          cityId: selectedCityId,
+                          countyId: selectedCountyId,
+                          applicantName: applicantName || null,
+                          generatedDenialText: generateTextMutation.data?.text || null,
+                          criteriaSelectedForDenial: Array.from(criteriaPresent),
+                        }}
+                        applicantAddress={applicantAddress}
                       />
-                      <span className={`text-sm ${usedConsumerReport ? 'font-medium' : 'text-muted-foreground'}`}>Yes</span>
-                    </div>
+                    ) : (
+                      <div className="space-y-3 rounded-md border border-amber-300 dark:border-amber-700 p-4">
+                        <p className="text-sm">
+                          Fair-chance rules in this location require an individualized assessment and a pre-adverse notice
+                          before you can deny based on criminal history. Save the decision to start the assessment.
+                        </p>
+                        <Button
+                          onClick={autoSaveDenialDecision}
+                          disabled={saveDecisionMutation.isPending}
+                          data-testid="button-save-start-assessment"
+                        >
+                          {saveDecisionMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                          Save Decision & Start Assessment
+                        </Button>
+                      </div>
+                    )}
                   </div>
+                ) : (
+                  <div className="space-y-4 pt-4 border-t">
+                    <div className="flex items-center justify-between p-3 border rounded-md">
+                      <label htmlFor="consumer-report-toggle" className="text-sm cursor-pointer">
+                        <span className="font-medium">Did you use a consumer report?</span>
+                        <span className="text-muted-foreground block mt-0.5">
+                          (credit, criminal, or eviction report from a screening provider)
+                        </span>
+                      </label>
+                      <div className="flex items-center gap-2">
+                        <span className={`text-sm ${!usedConsumerReport ? 'font-medium' : 'text-muted-foreground'}`}>No</span>
+                        <Switch
+                          id="consumer-report-toggle"
+                          checked={usedConsumerReport}
+                          onCheckedChange={setUsedConsumerReport}
+                          data-testid="switch-consumer-report"
+                        />
+                        <span className={`text-sm ${usedConsumerReport ? 'font-medium' : 'text-muted-foreground'}`}>Yes</span>
+                      </div>
+                    </div>
 
-                  {usedConsumerReport ? (
-                    <div className="space-y-3">
+                    {usedConsumerReport ? (
+                      <div className="space-y-3">
+                        <Button
+                          onClick={handleDownloadAdverseAction}
+                          disabled={!generateTextMutation.data?.text || isDownloading}
+                          className="w-full"
+                          data-testid="button-download-adverse-action"
+                        >
+                          {isDownloading ? (
+                            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                          ) : (
+                            <FileText className="h-4 w-4 mr-2" />
+                          )}
+                          Download Adverse Action Letter
+                        </Button>
+                        
+                        <div className="text-center">
+                          <button
+                            onClick={() => handleDownloadLetter('pre-adverse')}
+                            disabled={!generateTextMutation.data?.text || isDownloading}
+                            className="text-sm text-muted-foreground hover:text-foreground underline underline-offset-2 disabled:opacity-50 disabled:cursor-not-allowed"
+                            data-testid="link-download-pre-adverse"
+                          >
+                            Optional: Download Pre-Adverse Notice
+                          </button>
+                          <p className="text-xs text-muted-foreground mt-1">
+                            Use this if your decision is not final and you want to give the applicant a chance to dispute report information.
+                          </p>
+                          <p className="text-xs text-muted-foreground mt-1 italic">
+                            Note: Your decision details above are saved to your audit trail. The Pre-Adverse letter uses tentative language (e.g., "may not meet criteria") for FCRA compliance.
+                          </p>
+                        </div>
+                      </div>
+                    ) : (
                       <Button
-                        onClick={handleDownloadAdverseAction}
+                        onClick={() => handleDownloadLetter('denial')}
                         disabled={!generateTextMutation.data?.text || isDownloading}
-                        className="w-full"
-                        data-testid="button-download-adverse-action"
+                        data-testid="button-download-denial-notice"
                       >
                         {isDownloading ? (
                           <Loader2 className="h-4 w-4 mr-2 animate-spin" />
                         ) : (
                           <FileText className="h-4 w-4 mr-2" />
                         )}
-                        Download Adverse Action Letter
+                        Download Denial Notice
                       </Button>
-                      
-                      <div className="text-center">
-                        <button
-                          onClick={() => handleDownloadLetter('pre-adverse')}
-                          disabled={!generateTextMutation.data?.text || isDownloading}
-                          className="text-sm text-muted-foreground hover:text-foreground underline underline-offset-2 disabled:opacity-50 disabled:cursor-not-allowed"
-                          data-testid="link-download-pre-adverse"
-                        >
-                          Optional: Download Pre-Adverse Notice
-                        </button>
-                        <p className="text-xs text-muted-foreground mt-1">
-                          Use this if your decision is not final and you want to give the applicant a chance to dispute report information.
-                        </p>
-                        <p className="text-xs text-muted-foreground mt-1 italic">
-                          Note: Your decision details above are saved to your audit trail. The Pre-Adverse letter uses tentative language (e.g., "may not meet criteria") for FCRA compliance.
-                        </p>
-                      </div>
-                    </div>
-                  ) : (
-                    <Button
-                      onClick={() => handleDownloadLetter('denial')}
-                      disabled={!generateTextMutation.data?.text || isDownloading}
-                      data-testid="button-download-denial-notice"
-                    >
-                      {isDownloading ? (
-                        <Loader2 className="h-4 w-4 mr-2 animate-spin" />
-                      ) : (
-                        <FileText className="h-4 w-4 mr-2" />
-                      )}
-                      Download Denial Notice
-                    </Button>
-                  )}
-                  
-                  {decisionSaved && (
-                    <p className="text-sm text-muted-foreground flex items-center gap-2">
-                      <CheckCircle className="h-4 w-4 text-green-500" />
-                      Decision saved automatically for your records
-                    </p>
-                  )}
-                </div>
+                    )}
+                    
+                    {decisionSaved && (
+                      <p className="text-sm text-muted-foreground flex items-center gap-2">
+                        <CheckCircle className="h-4 w-4 text-green-500" />
+                        Decision saved automatically for your records
+                      </p>
+                    )}
+                  </div>
+                )}
 
                 {decisionSaved && (
                   <Card className="bg-green-50 dark:bg-green-950/30 border-green-200 dark:border-green-800">
@@ -1026,10 +1205,12 @@ export default function DenialDecisionAssistant() {
 function CriterionRow({ 
   criterion, 
   isChecked, 
+  fromScreening,
   onToggle 
 }: { 
   criterion: CriterionWithRule; 
   isChecked: boolean; 
+  fromScreening?: boolean;
   onToggle: () => void;
 }) {
   const isBlocked = criterion.status === 'blocked';
@@ -1096,6 +1277,11 @@ function CriterionRow({
               </TooltipContent>
             </Tooltip>
           )}
+          {fromScreening && (
+            <Badge variant="outline" className="text-xs gap-1" data-testid={`badge-from-screening-${criterion.code}`}>
+              <FileText className="h-3 w-3" /> From screening
+            </Badge>
+          )}
           {!isBlocked && !isConditional && (
             <Badge variant="outline" className="text-xs gap-1 border-green-400 bg-green-50 text-green-700 dark:bg-green-950 dark:text-green-400">
               <CheckCircle className="h-3 w-3" /> Allowed (if consistent with your criteria)
@@ -11,11 +11,13 @@ import { Skeleton } from "@/components/ui/skeleton";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
-import { ArrowLeft, FileText, Download, Loader2, Save, Building2, AlertCircle, ChevronDown, ChevronUp } from "lucide-react";
+import { ArrowLeft, FileText, Download, Loader2, Save, Building2, AlertCircle, ChevronDown, ChevronUp, Eye } from "lucide-react";
 import { apiRequest, queryClient, getAccessToken } from "@/lib/queryClient";
 import type { Template, RentalProperty, LegalUpdate } from "@shared/schema";
 import { useState, useEffect } from "react";
 import { format } from "date-fns";
+import { LeaseClausesPanel, LEASE_CLAUSE_FIELD_KEYS } from "@/components/lease-clauses-panel";
+import { YEAR_BUILT_FIELD, type LeaseClauseIssue } from "@shared/leaseClauses";
 
 interface FieldDefinition {
   id: string;
@@ -52,6 +54,11 @@ export default function DocumentWizard() {
   const documentId = params?.documentId; // Optional: for re-editing saved documents
   const [selectedPropertyId, setSelectedPropertyId] = useState<string | null>(null);
   const [showLegalUpdates, setShowLegalUpdates] = useState(false);
+  // Lease clause toggles and parameters live outside the template's form
+  // schema; they are merged into fieldValues on generate and preview.
+  const [clauseValues, setClauseValues] = useState<Record<string, string>>({});
+  const [clauseIssues, setClauseIssues] = useState<LeaseClauseIssue[]>([]);
+  const [previewHtml, setPreviewHtml] = useState<string | null>(null);
 
   // Fetch template
   const { data: template, isLoading } = useQuery<Template>({
@@ -120,6 +127,13 @@ export default function DocumentWizard() {
   });
 
   const fillableData = template?.fillableFormData as FillableFormData | null;
+
+  // Same routing rule as the server's lease generator.
+  const isLeaseTemplate = !!template && (
+    template.templateType === 'lease' ||
+    template.title.toLowerCase().includes('lease') ||
+    template.title.toLowerCase().includes('rental agreement')
+  );
   
   // Handle both legacy 'fields' format and new 'sections' format
   const fields: FieldDefinition[] = fillableData?.sections 
@@ -233,6 +247,12 @@ export default function DocumentWizard() {
 
         // Always set property from saved document (including null to clear previous)
         setSelectedPropertyId(savedDocument.propertyId || null);
+
+        const savedClauseValues: Record<string, string> = {};
+        for (const key of LEASE_CLAUSE_FIELD_KEYS) {
+          if (savedDocument.formData?.[key] != null) savedClauseValues[key] = String(savedDocument.formData[key]);
+        }
+        setClauseValues(savedClauseValues);
       }
     }
   }, [documentId, savedDocument?.createdAt, fields.length, form]);
@@ -314,6 +334,7 @@ export default function DocumentWizard() {
       // Handle blob response
       if (!response.ok) {
         const error = await response.json();
+        if (Array.isArray(error.issues)) setClauseIssues(error.issues);
         throw new Error(error.message || 'Failed to generate document');
       }
 
@@ -372,29 +393,9 @@ export default function DocumentWizard() {
     },
   });
 
-  const handleGenerate = (data: Record<string, string>, format: 'pdf' | 'docx') => {
-    // Validate that a manually-entered lease end date falls after the start
-    // date. The auto-calculated terms ('1 Year'/'2 Years') are always valid, so
-    // we only guard the 'Custom' path where the user types both dates.
-    if (data.leaseStartDate && data.leaseEndDate) {
-      const start = new Date(data.leaseStartDate);
-      const end = new Date(data.leaseEndDate);
-      if (!isNaN(start.getTime()) && !isNaN(end.getTime()) && end <= start) {
-        form.setError('leaseEndDate', {
-          type: 'manual',
-          message: 'End date must be after the start date.',
-        });
-        toast({
-          title: 'Invalid lease dates',
-          description: 'The lease end date must be after the start date.',
-          variant: 'destructive',
-        });
-        return;
-      }
-    }
-
-    // Format fields for document generation
-    // Note: Currency values are sent without $ prefix - the server template adds it
+  // Format fields for document generation
+  // Note: Currency values are sent without $ prefix - the server template adds it
+  const formatFieldValues = (data: Record<string, string>): Record<string, string> => {
     const formattedData = Object.entries(data).reduce((acc, [key, value]) => {
       const field = fields.find(f => f.id === key);
       if (field?.type === 'currency' && value) {
@@ -421,7 +422,50 @@ export default function DocumentWizard() {
       return acc;
     }, {} as Record<string, string>);
 
-    generateMutation.mutate({ fieldValues: formattedData, format });
+    return isLeaseTemplate ? { ...formattedData, ...clauseValues } : formattedData;
+  };
+
+  // Lease preview: the same HTML the PDF is printed from
+  const previewMutation = useMutation({
+    mutationFn: async (fieldValues: Record<string, string>) => {
+      const response = await apiRequest('POST', '/api/documents/lease-preview', { templateId, fieldValues });
+      return response.json() as Promise<{ html: string; issues: LeaseClauseIssue[] }>;
+    },
+    onSuccess: ({ html, issues }) => {
+      setPreviewHtml(html);
+      setClauseIssues(issues);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Preview Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleGenerate = (data: Record<string, string>, format: 'pdf' | 'docx') => {
+    // Validate that a manually-entered lease end date falls after the start
+    // date. The auto-calculated terms ('1 Year'/'2 Years') are always valid, so
+    // we only guard the 'Custom' path where the user types both dates.
+    if (data.leaseStartDate && data.leaseEndDate) {
+      const start = new Date(data.leaseStartDate);
+      const end = new Date(data.leaseEndDate);
+      if (!isNaN(start.getTime()) && !isNaN(end.getTime()) && end <= start) {
+        form.setError('leaseEndDate', {
+          type: 'manual',
+          message: 'End date must be after the start date.',
+        });
+        toast({
+          title: 'Invalid lease dates',
+          description: 'The lease end date must be after the start date.',
+          variant: 'destructive',
+        });
+        return;
+      }
+    }
+
+    generateMutation.mutate({ fieldValues: formatFieldValues(data), format });
   };
 
   const onSubmit = (data: Record<string, string>) => {
@@ -655,7 +699,15 @@ export default function DocumentWizard() {
                 </div>
                 <Select
                   value={selectedPropertyId || "none"}
-                  onValueChange={(value) => setSelectedPropertyId(value === "none" ? null : value)}
+                  onValueChange={(value) => {
+                    const propertyId = value === "none" ? null : value;
+                    setSelectedPropertyId(propertyId);
+                    // Lease clauses that depend on the building's age follow the property
+                    const property = properties.find((p) => p.id === propertyId);
+                    if (property?.yearBuilt != null) {
+                      setClauseValues((prev) => ({ ...prev, [YEAR_BUILT_FIELD]: String(property.yearBuilt) }));
+                    }
+                  }}
                 >
                   <SelectTrigger className="max-w-md" data-testid="select-property">
                     <SelectValue placeholder="Select a property" />
@@ -750,6 +802,15 @@ export default function DocumentWizard() {
                   </div>
                 ))}
 
+                {isLeaseTemplate && (
+                  <LeaseClausesPanel
+                    stateId={template.stateId}
+                    values={clauseValues}
+                    onChange={setClauseValues}
+                    issues={clauseIssues}
+                  />
+                )}
+
                 {/* Submit Buttons - PDF and Word options */}
                 <div className="flex flex-col gap-4 pt-6 border-t">
                   <div className="flex items-center gap-3 flex-wrap">
@@ -799,6 +860,24 @@ export default function DocumentWizard() {
                         </>
                       )}
                     </Button>
+
+                    {isLeaseTemplate && (
+                      <Button
+                        type="button"
+                        size="lg"
+                        variant="ghost"
+                        disabled={previewMutation.isPending}
+                        onClick={() => previewMutation.mutate(formatFieldValues(form.getValues()))}
+                        data-testid="button-preview-lease"
+                      >
+                        {previewMutation.isPending ? (
+                          <Loader2 className="h-5 w-5 mr-2 animate-spin" />
+                        ) : (
+                          <Eye className="h-5 w-5 mr-2" />
+                        )}
+                        {previewHtml ? 'Refresh Preview' : 'Preview Lease'}
+                      </Button>
+                    )}
                   </div>
                   
                   <p className="text-sm text-muted-foreground">
@@ -810,6 +889,27 @@ export default function DocumentWizard() {
           </CardContent>
         </Card>
 
+        {/* Lease Preview */}
+        {isLeaseTemplate && previewHtml && (
+          <Card className="mt-6" data-testid="card-lease-preview">
+            <CardHeader>
+              <CardTitle>Lease Preview</CardTitle>
+              <CardDescription>
+                The final lease as it will be generated, including the selected clauses. Refresh after making changes.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <iframe
+                title="Lease preview"
+                srcDoc={previewHtml}
+                sandbox=""
+                className="w-full h-[800px] rounded-md border bg-white"
+                data-testid="iframe-lease-preview"
+              />
+            </CardContent>
+          </Card>
+        )}
+
         {/* Info Card */}
         <Card className="mt-6 bg-blue-50 dark:bg-blue-950/20 border-blue-200 dark:border-blue-900">
           <CardContent className="pt-6">
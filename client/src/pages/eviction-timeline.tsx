@@ -0,0 +1,522 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter, DialogDescription } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { EvictionCase, EvictionCaseStep, GeneratedNoticeDocument } from "@shared/schema";
+import { EVICTION_STEPS } from "@shared/evictionTimeline";
+import { SEO } from "@/components/seo";
+import { Scale, Plus, Loader2, Download, CheckCircle2, Circle, AlertTriangle, Trash2, ClipboardCheck } from "lucide-react";
+
+type CaseWithSteps = EvictionCase & { noticeName: string; steps: EvictionCaseStep[] };
+
+type GeneratedNotice = GeneratedNoticeDocument & { formDisplayName: string; stateId: string };
+
+interface TenancyOption {
+  id: string;
+  propertyName: string | null;
+  unitLabel: string | null;
+  occupants: { fullName: string; role: string }[];
+}
+
+function tenancyLabel(t: TenancyOption): string {
+  const tenants = t.occupants.filter((o) => o.role === "tenant").map((o) => o.fullName).join(", ");
+  const place = [t.propertyName, t.unitLabel].filter(Boolean).join(" - ");
+  return [tenants || "Tenancy", place].filter(Boolean).join(" · ");
+}
+
+function formatDate(isoDate: string | null | undefined): string {
+  if (!isoDate) return "";
+  return new Date(`${isoDate}T00:00:00`).toLocaleDateString("en-US", { year: "numeric", month: "short", day: "numeric" });
+}
+
+function today(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+// The first step that hasn't happened yet - what the landlord is waiting on.
+function nextStep(c: CaseWithSteps): EvictionCaseStep | undefined {
+  return c.steps.find((s) => !s.actualDate);
+}
+
+export default function EvictionTimeline() {
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+  const [selectedId, setSelectedId] = useState<string | null>(() => {
+    if (typeof window === "undefined") return null;
+    return new URLSearchParams(window.location.search).get("id");
+  });
+
+  const { data: cases = [], isLoading } = useQuery<CaseWithSteps[]>({
+    queryKey: ["/api/eviction-cases"],
+  });
+
+  useEffect(() => {
+    if (!selectedId && cases.length > 0) setSelectedId(cases[0].id);
+  }, [cases, selectedId]);
+
+  const selected = cases.find((c) => c.id === selectedId) || null;
+  const activeCount = cases.filter((c) => c.status === "active").length;
+  const weekOut = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+  const dueSoonCount = cases.filter((c) => {
+    const next = c.status === "active" ? nextStep(c) : undefined;
+    return !!next?.plannedDate && next.plannedDate <= weekOut;
+  }).length;
+
+  return (
+    <div className="flex-1 overflow-auto">
+      <SEO
+        title="Eviction Timeline - plan every step after the notice"
+        description="Plan the court timeline that follows a served notice, from filing through the writ of possession, with reminders before each step."
+        canonical="/eviction-timeline"
+      />
+
+      {/* Hero Header */}
+      <div className="bg-gradient-to-br from-primary/10 via-primary/5 to-background border-b">
+        <div className="container max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-6">
+            <div className="flex items-start gap-4">
+              <div className="p-3 bg-primary/10 rounded-md">
+                <Scale className="h-8 w-8 text-primary" />
+              </div>
+              <div>
+                <h1 className="text-3xl sm:text-4xl font-display font-semibold text-foreground mb-1" data-testid="text-page-title">
+                  Eviction Timeline
+                </h1>
+                <p className="text-sm sm:text-base text-muted-foreground">
+                  Every step after a served notice, counted under your state's rules.
+                </p>
+              </div>
+            </div>
+            <div className="flex items-center gap-6 text-sm">
+              <div>
+                <p className="text-2xl font-semibold text-foreground tabular-nums" data-testid="text-active-count">
+                  {activeCount}
+                </p>
+                <p className="text-xs text-muted-foreground">Active cases</p>
+              </div>
+              <div className="h-10 w-px bg-border" />
+              <div>
+                <p className="text-2xl font-semibold text-foreground tabular-nums" data-testid="text-due-soon-count">
+                  {dueSoonCount}
+                </p>
+                <p className="text-xs text-muted-foreground">Steps due this week</p>
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="container max-w-6xl mx-auto py-6 px-4 sm:px-6 lg:px-8">
+        <div className="grid gap-6 lg:grid-cols-[320px_1fr]">
+          <div className="space-y-3">
+            <Button className="w-full" onClick={() => setIsCreateOpen(true)} data-testid="button-new-case">
+              <Plus className="h-4 w-4 mr-2" />
+              New Case
+            </Button>
+            {isLoading ? (
+              <div className="p-6"><Loader2 className="h-5 w-5 animate-spin text-muted-foreground" /></div>
+            ) : cases.length === 0 ? (
+              <Card>
+                <CardContent className="p-6 text-sm text-muted-foreground">
+                  No cases yet. Start one from a notice you generated to plan the court timeline.
+                </CardContent>
+              </Card>
+            ) : (
+              cases.map((c) => {
+                const next = nextStep(c);
+                return (
+                  <Card
+                    key={c.id}
+                    className={`cursor-pointer hover-elevate ${c.id === selectedId ? "border-primary" : ""}`}
+                    onClick={() => setSelectedId(c.id)}
+                    data-testid={`card-case-${c.id}`}
+                  >
+                    <CardContent className="p-4 space-y-1">
+                      <div className="flex items-start justify-between gap-2">
+                        <p className="font-medium text-sm">{c.caseLabel}</p>
+                        {c.status === "closed" && <Badge variant="secondary">Closed</Badge>}
+                      </div>
+                      <p className="text-xs text-muted-foreground">{c.noticeName} · {c.stateId}</p>
+                      {c.status === "active" && next && (
+                        <p className="text-xs">
+                          Next: {next.label}{next.plannedDate ? ` - ${formatDate(next.plannedDate)}` : ""}
+                        </p>
+                      )}
+                    </CardContent>
+                  </Card>
+                );
+              })
+            )}
+          </div>
+
+          {selected ? (
+            <CaseTimeline evictionCase={selected} onDeleted={() => setSelectedId(null)} />
+          ) : (
+            !isLoading && cases.length > 0 && (
+              <Card>
+                <CardContent className="p-8 text-center text-sm text-muted-foreground">Select a case to see its timeline.</CardContent>
+              </Card>
+            )
+          )}
+        </div>
+      </div>
+
+      <NewCaseDialog open={isCreateOpen} onOpenChange={setIsCreateOpen} onCreated={(id) => setSelectedId(id)} />
+    </div>
+  );
+}
+
+function CaseTimeline({ evictionCase, onDeleted }: { evictionCase: CaseWithSteps; onDeleted: () => void }) {
+  const { toast } = useToast();
+  const [courtCaseNumber, setCourtCaseNumber] = useState(evictionCase.courtCaseNumber || "");
+  const [isDownloading, setIsDownloading] = useState(false);
+
+  useEffect(() => {
+    setCourtCaseNumber(evictionCase.courtCaseNumber || "");
+  }, [evictionCase.id, evictionCase.courtCaseNumber]);
+
+  const updateMutation = useMutation({
+    mutationFn: async (data: Record<string, unknown>) => {
+      const res = await apiRequest("PATCH", `/api/eviction-cases/${evictionCase.id}`, data);
+      return res.json();
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["/api/eviction-cases"] }),
+    onError: (e: Error) => toast({ title: "Error", description: e.message, variant: "destructive" }),
+  });
+
+  const stepMutation = useMutation({
+    mutationFn: async ({ stepId, actualDate }: { stepId: string; actualDate: string | null }) => {
+      const res = await apiRequest("PATCH", `/api/eviction-cases/${evictionCase.id}/steps/${stepId}`, { actualDate });
+      return res.json();
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["/api/eviction-cases"] }),
+    onError: (e: Error) => toast({ title: "Error", description: e.message, variant: "destructive" }),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("DELETE", `/api/eviction-cases/${evictionCase.id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/eviction-cases"] });
+      toast({ title: "Case Deleted" });
+      onDeleted();
+    },
+    onError: (e: Error) => toast({ title: "Error", description: e.message, variant: "destructive" }),
+  });
+
+  const handleDownload = async () => {
+    setIsDownloading(true);
+    try {
+      const res = await apiRequest("GET", `/api/eviction-cases/${evictionCase.id}/timeline.pdf`);
+      const blob = await res.blob();
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = `eviction-timeline-${evictionCase.serviceDate}.pdf`;
+      document.body.appendChild(a);
+      a.click();
+      window.URL.revokeObjectURL(url);
+      a.remove();
+    } catch (e: any) {
+      toast({ title: "Download Failed", description: e.message, variant: "destructive" });
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
+  const hasEstimates = evictionCase.steps.some((s) => s.isEstimate && !s.actualDate);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-3">
+          <div>
+            <CardTitle data-testid="text-case-label">{evictionCase.caseLabel}</CardTitle>
+            <CardDescription>
+              {evictionCase.noticeName} · {evictionCase.stateId} · served {formatDate(evictionCase.serviceDate)}
+            </CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Link href={`/notice-service-log?id=${evictionCase.generatedNoticeDocumentId}`}>
+              <Button variant="outline" size="sm" data-testid="link-service-log">
+                <ClipboardCheck className="h-4 w-4 mr-2" />
+                Service Log
+              </Button>
+            </Link>
+            <Button variant="outline" size="sm" onClick={handleDownload} disabled={isDownloading} data-testid="button-download-timeline">
+              {isDownloading ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Download className="h-4 w-4 mr-2" />}
+              PDF
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => updateMutation.mutate({ status: evictionCase.status === "active" ? "closed" : "active" })}
+              disabled={updateMutation.isPending}
+              data-testid="button-toggle-status"
+            >
+              {evictionCase.status === "active" ? "Close Case" : "Reopen"}
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => {
+                if (confirm("Delete this case and its timeline?")) deleteMutation.mutate();
+              }}
+              data-testid="button-delete-case"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex items-end gap-2 max-w-sm">
+          <div className="flex-1">
+            <Label htmlFor="court-case-number">Court case number</Label>
+            <Input
+              id="court-case-number"
+              value={courtCaseNumber}
+              onChange={(e) => setCourtCaseNumber(e.target.value)}
+              placeholder="Assigned when you file"
+              data-testid="input-court-case-number"
+            />
+          </div>
+          <Button
+            variant="outline"
+            onClick={() => updateMutation.mutate({ courtCaseNumber })}
+            disabled={updateMutation.isPending || courtCaseNumber === (evictionCase.courtCaseNumber || "")}
+            data-testid="button-save-case-number"
+          >
+            Save
+          </Button>
+        </div>
+
+        {hasEstimates && (
+          <div className="flex gap-2 rounded-md border border-amber-300 bg-amber-50 dark:bg-amber-950/30 p-3 text-sm">
+            <AlertTriangle className="h-4 w-4 text-amber-600 shrink-0 mt-0.5" />
+            <p>
+              Steps marked as estimates use typical timing because no rule is set up for this state.
+              Record the dates from the court's summons and hearing notice and the rest of the timeline re-plans from them.
+            </p>
+          </div>
+        )}
+
+        <ol className="space-y-4">
+          {evictionCase.steps.map((step) => (
+            <StepRow
+              key={step.id}
+              step={step}
+              disabled={stepMutation.isPending}
+              onSave={(actualDate) => stepMutation.mutate({ stepId: step.id, actualDate })}
+            />
+          ))}
+        </ol>
+      </CardContent>
+    </Card>
+  );
+}
+
+function StepRow({
+  step,
+  disabled,
+  onSave,
+}: {
+  step: EvictionCaseStep;
+  disabled: boolean;
+  onSave: (actualDate: string | null) => void;
+}) {
+  const [actualDate, setActualDate] = useState(step.actualDate || "");
+  const meta = EVICTION_STEPS.find((s) => s.key === step.stepKey);
+  const overdue = !step.actualDate && !!step.plannedDate && step.plannedDate < today();
+
+  useEffect(() => {
+    setActualDate(step.actualDate || "");
+  }, [step.actualDate]);
+
+  return (
+    <li className="flex gap-3" data-testid={`step-${step.stepKey}`}>
+      {step.actualDate ? (
+        <CheckCircle2 className="h-5 w-5 text-green-600 shrink-0 mt-0.5" />
+      ) : (
+        <Circle className="h-5 w-5 text-muted-foreground shrink-0 mt-0.5" />
+      )}
+      <div className="flex-1 space-y-1">
+        <div className="flex flex-wrap items-center gap-2">
+          <p className="font-medium">{step.label}</p>
+          {step.plannedDate && (
+            <span className={`text-sm ${overdue ? "text-destructive" : "text-muted-foreground"}`}>
+              {step.actualDate ? "planned" : "by"} {formatDate(step.plannedDate)}
+            </span>
+          )}
+          {step.isEstimate && !step.actualDate && <Badge variant="outline">Estimate</Badge>}
+        </div>
+        {step.explain && <p className="text-xs text-muted-foreground">{step.explain}</p>}
+        {step.citation && <p className="text-xs text-muted-foreground">Authority: {step.citation}</p>}
+        <div className="flex items-center gap-2 pt-1">
+          <Label className="text-xs text-muted-foreground w-24">{meta?.actualLabel || "Done on"}</Label>
+          <Input
+            type="date"
+            className="h-8 w-44"
+            value={actualDate}
+            onChange={(e) => setActualDate(e.target.value)}
+            data-testid={`input-actual-${step.stepKey}`}
+          />
+          {actualDate !== (step.actualDate || "") && (
+            <Button size="sm" onClick={() => onSave(actualDate || null)} disabled={disabled} data-testid={`button-save-${step.stepKey}`}>
+              Save
+            </Button>
+          )}
+        </div>
+      </div>
+    </li>
+  );
+}
+
+function NewCaseDialog({
+  open,
+  onOpenChange,
+  onCreated,
+}: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onCreated: (id: string) => void;
+}) {
+  const { toast } = useToast();
+  const [noticeId, setNoticeId] = useState("");
+  const [serviceDate, setServiceDate] = useState("");
+  const [caseLabel, setCaseLabel] = useState("");
+  const [tenancyId, setTenancyId] = useState("none");
+
+  const { data: notices = [] } = useQuery<GeneratedNotice[]>({
+    queryKey: ["/api/generated-notices"],
+    enabled: open,
+  });
+  const { data: tenancies = [] } = useQuery<TenancyOption[]>({
+    queryKey: ["/api/tenancies"],
+    enabled: open,
+  });
+
+  useEffect(() => {
+    if (!open) {
+      setNoticeId("");
+      setServiceDate("");
+      setCaseLabel("");
+      setTenancyId("none");
+    }
+  }, [open]);
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/eviction-cases", {
+        generatedNoticeDocumentId: noticeId,
+        serviceDate,
+        caseLabel,
+        tenancyId: tenancyId === "none" ? null : tenancyId,
+      });
+      return res.json() as Promise<CaseWithSteps>;
+    },
+    onSuccess: (created) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/eviction-cases"] });
+      toast({ title: "Case Created", description: "The timeline was planned from the notice." });
+      onOpenChange(false);
+      onCreated(created.id);
+    },
+    onError: (e: Error) => toast({ title: "Error", description: e.message, variant: "destructive" }),
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>New Eviction Case</DialogTitle>
+          <DialogDescription>
+            Start from a notice you generated. Deadlines are counted from the day it was served.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div>
+            <Label>Notice</Label>
+            <Select
+              value={noticeId}
+              onValueChange={(id) => {
+                setNoticeId(id);
+                const notice = notices.find((n) => n.id === id);
+                if (notice?.serviceDate) setServiceDate(notice.serviceDate);
+              }}
+            >
+              <SelectTrigger data-testid="select-notice"><SelectValue placeholder="Select a notice" /></SelectTrigger>
+              <SelectContent>
+                {notices.map((n) => (
+                  <SelectItem key={n.id} value={n.id}>
+                    {n.formDisplayName} ({n.stateId}){n.createdAt ? ` - ${new Date(n.createdAt).toLocaleDateString()}` : ""}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {notices.length === 0 && (
+              <p className="text-xs text-muted-foreground mt-1">Generate a notice first - cases are planned from its deadlines.</p>
+            )}
+          </div>
+          <div>
+            <Label htmlFor="service-date">Date served</Label>
+            <Input
+              id="service-date"
+              type="date"
+              value={serviceDate}
+              onChange={(e) => setServiceDate(e.target.value)}
+              data-testid="input-service-date"
+            />
+          </div>
+          <div>
+            <Label>Tenancy (optional)</Label>
+            <Select
+              value={tenancyId}
+              onValueChange={(id) => {
+                setTenancyId(id);
+                const tenancy = tenancies.find((t) => t.id === id);
+                if (tenancy && !caseLabel) setCaseLabel(tenancyLabel(tenancy));
+              }}
+            >
+              <SelectTrigger data-testid="select-tenancy"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">Not linked</SelectItem>
+                {tenancies.map((t) => (
+                  <SelectItem key={t.id} value={t.id}>{tenancyLabel(t)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="case-label">Case label</Label>
+            <Input
+              id="case-label"
+              value={caseLabel}
+              onChange={(e) => setCaseLabel(e.target.value)}
+              placeholder="e.g. 123 Main St #2 - J. Smith"
+              data-testid="input-case-label"
+            />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button
+            onClick={() => createMutation.mutate()}
+            disabled={!noticeId || !serviceDate || !caseLabel.trim() || createMutation.isPending}
+            data-testid="button-create-case"
+          >
+            {createMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Create Case
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
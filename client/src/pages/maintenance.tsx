@@ -0,0 +1,878 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter, DialogDescription } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type {
+  MaintenanceRequest,
+  MaintenanceRequestEvent,
+  MaintenanceRequestPhoto,
+  RentalProperty,
+  RentalUnit,
+  Vendor,
+} from "@shared/schema";
+import {
+  MAINTENANCE_CATEGORIES,
+  MAINTENANCE_PRIORITIES,
+  MAINTENANCE_STATUSES,
+  type MaintenanceSlaStatus,
+} from "@shared/maintenance";
+import { AuthedPhoto, PhotoUploadButton } from "@/components/maintenance-photos";
+import { SEO } from "@/components/seo";
+import { ClipboardList, Plus, Trash2, Edit2, Loader2, AlertTriangle, Clock, HardHat, Trash } from "lucide-react";
+
+type TicketRow = MaintenanceRequest & {
+  sla: MaintenanceSlaStatus;
+  propertyName: string | null;
+  unitLabel: string | null;
+  vendorName: string | null;
+};
+
+type TicketDetail = MaintenanceRequest & {
+  sla: MaintenanceSlaStatus;
+  propertyName: string | null;
+  propertyAddress: string | null;
+  unitLabel: string | null;
+  vendor: Vendor | null;
+  submittedByName: string | null;
+  tenantContacts: { fullName: string; email: string | null; phone: string | null }[];
+  events: MaintenanceRequestEvent[];
+  photos: Omit<MaintenanceRequestPhoto, "storagePath">[];
+};
+
+function labelFor(list: readonly { value: string; label: string }[], value: string | null | undefined): string {
+  if (!value) return "";
+  return list.find((item) => item.value === value)?.label || value;
+}
+
+function centsToInput(cents: number | null | undefined): string {
+  return cents == null ? "" : (cents / 100).toFixed(2);
+}
+
+function formatDateTime(value: string | Date | null | undefined): string {
+  return value ? new Date(value).toLocaleString() : "";
+}
+
+function describeHours(hours: number): string {
+  const abs = Math.abs(hours);
+  return abs >= 48 ? `${Math.floor(abs / 24)}d` : `${abs}h`;
+}
+
+function SlaBadge({ ticket }: { ticket: { sla: MaintenanceSlaStatus; acknowledgedAt: Date | string | null } }) {
+  const { sla } = ticket;
+  if (sla.hoursRemaining === null) return null;
+  if (sla.resolutionOverdue || sla.responseOverdue) {
+    return (
+      <Badge variant="destructive" className="gap-1">
+        <AlertTriangle className="h-3 w-3" />
+        {sla.resolutionOverdue ? "Resolution" : "Response"} overdue {describeHours(sla.hoursRemaining)}
+      </Badge>
+    );
+  }
+  return (
+    <Badge variant="outline" className="gap-1">
+      <Clock className="h-3 w-3" />
+      {ticket.acknowledgedAt ? "Resolve" : "Respond"} in {describeHours(sla.hoursRemaining)}
+    </Badge>
+  );
+}
+
+function PriorityBadge({ priority }: { priority: string }) {
+  const className = priority === "emergency"
+    ? "bg-red-100 text-red-800 dark:bg-red-900/40 dark:text-red-300"
+    : priority === "urgent"
+      ? "bg-amber-100 text-amber-800 dark:bg-amber-900/40 dark:text-amber-300"
+      : "";
+  return <Badge variant="secondary" className={className}>{labelFor(MAINTENANCE_PRIORITIES, priority)}</Badge>;
+}
+
+function describeEvent(event: MaintenanceRequestEvent): string {
+  switch (event.eventType) {
+    case "created":
+      return "Request submitted";
+    case "status_change":
+      return `Status changed from ${labelFor(MAINTENANCE_STATUSES, event.fromValue)} to ${labelFor(MAINTENANCE_STATUSES, event.toValue)}`;
+    case "priority_change":
+      return `Priority changed from ${labelFor(MAINTENANCE_PRIORITIES, event.fromValue)} to ${labelFor(MAINTENANCE_PRIORITIES, event.toValue)}`;
+    case "vendor_assigned":
+      return event.toValue ? `Assigned to ${event.toValue}` : "Vendor unassigned";
+    case "scheduled":
+      return event.toValue ? `Scheduled for ${new Date(`${event.toValue}T00:00:00`).toLocaleDateString()}` : "Schedule cleared";
+    case "photo_added":
+      return "Photo added";
+    default:
+      return "Note";
+  }
+}
+
+export default function Maintenance() {
+  const [activeTab, setActiveTab] = useState("tickets");
+  const [statusFilter, setStatusFilter] = useState("active");
+  const [propertyFilter, setPropertyFilter] = useState("all");
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+  const [selectedId, setSelectedId] = useState<string | null>(() => {
+    if (typeof window === "undefined") return null;
+    return new URLSearchParams(window.location.search).get("id");
+  });
+
+  const { data: tickets = [], isLoading } = useQuery<TicketRow[]>({
+    queryKey: ["/api/maintenance-requests"],
+  });
+  const { data: properties = [] } = useQuery<RentalProperty[]>({
+    queryKey: ["/api/rental/properties"],
+  });
+  const { data: vendors = [] } = useQuery<Vendor[]>({
+    queryKey: ["/api/vendors"],
+  });
+
+  const filtered = tickets.filter((t) => {
+    if (propertyFilter !== "all" && t.rentalPropertyId !== propertyFilter) return false;
+    if (statusFilter === "active") return t.status === "open" || t.status === "in_progress";
+    if (statusFilter !== "all") return t.status === statusFilter;
+    return true;
+  });
+  const activeCount = tickets.filter((t) => t.status === "open" || t.status === "in_progress").length;
+  const overdueCount = tickets.filter((t) => t.sla.responseOverdue || t.sla.resolutionOverdue).length;
+
+  return (
+    <div className="flex-1 overflow-auto">
+      <SEO
+        title="Maintenance - work orders, vendors, and response times"
+        description="Track tenant maintenance requests as work orders, assign vendors, and stay inside habitability response windows."
+        canonical="/maintenance"
+      />
+
+      {/* Hero Header */}
+      <div className="bg-gradient-to-br from-primary/10 via-primary/5 to-background border-b">
+        <div className="container max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-6">
+            <div className="flex items-start gap-4">
+              <div className="p-3 bg-primary/10 rounded-md">
+                <ClipboardList className="h-8 w-8 text-primary" />
+              </div>
+              <div>
+                <h1 className="text-3xl sm:text-4xl font-display font-semibold text-foreground mb-1" data-testid="text-page-title">
+                  Maintenance
+                </h1>
+                <p className="text-sm sm:text-base text-muted-foreground">
+                  Work tenant requests to completion and keep a dated record of every response.
+                </p>
+              </div>
+            </div>
+            <div className="flex items-center gap-6 text-sm">
+              <div>
+                <p className="text-2xl font-semibold text-foreground tabular-nums" data-testid="text-active-count">
+                  {activeCount}
+                </p>
+                <p className="text-xs text-muted-foreground">Active tickets</p>
+              </div>
+              <div className="h-10 w-px bg-border" />
+              <div>
+                <p className={`text-2xl font-semibold tabular-nums ${overdueCount > 0 ? "text-destructive" : "text-foreground"}`} data-testid="text-overdue-count">
+                  {overdueCount}
+                </p>
+                <p className="text-xs text-muted-foreground">Past SLA</p>
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="container max-w-6xl mx-auto py-6 px-4 sm:px-6 lg:px-8">
+        <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
+          <TabsList className="grid w-full max-w-md grid-cols-2">
+            <TabsTrigger value="tickets" data-testid="tab-tickets">Tickets</TabsTrigger>
+            <TabsTrigger value="vendors" data-testid="tab-vendors">Vendors</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="tickets" className="space-y-4">
+            <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+              <div className="flex gap-2">
+                <Select value={statusFilter} onValueChange={setStatusFilter}>
+                  <SelectTrigger className="w-[160px]" data-testid="select-status-filter"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="active">Active</SelectItem>
+                    <SelectItem value="all">All statuses</SelectItem>
+                    {MAINTENANCE_STATUSES.map((s) => (
+                      <SelectItem key={s.value} value={s.value}>{s.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select value={propertyFilter} onValueChange={setPropertyFilter}>
+                  <SelectTrigger className="w-[200px]" data-testid="select-property-filter"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All properties</SelectItem>
+                    {properties.map((p) => (
+                      <SelectItem key={p.id} value={p.id}>{p.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <Button onClick={() => setIsCreateOpen(true)} data-testid="button-new-ticket">
+                <Plus className="h-4 w-4 mr-2" />
+                New Ticket
+              </Button>
+            </div>
+
+            <Card>
+              {isLoading ? (
+                <div className="p-6"><Loader2 className="h-5 w-5 animate-spin text-muted-foreground" /></div>
+              ) : filtered.length === 0 ? (
+                <div className="p-8 text-center text-sm text-muted-foreground">
+                  No maintenance tickets match these filters.
+                </div>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Request</TableHead>
+                      <TableHead>Location</TableHead>
+                      <TableHead>Priority</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead>SLA</TableHead>
+                      <TableHead>Vendor</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {filtered.map((t) => (
+                      <TableRow
+                        key={t.id}
+                        className="cursor-pointer"
+                        onClick={() => setSelectedId(t.id)}
+                        data-testid={`row-ticket-${t.id}`}
+                      >
+                        <TableCell>
+                          <p className="font-medium">{t.title}</p>
+                          <p className="text-xs text-muted-foreground">
+                            {labelFor(MAINTENANCE_CATEGORIES, t.category)} - {new Date(t.createdAt).toLocaleDateString()}
+                          </p>
+                        </TableCell>
+                        <TableCell className="text-sm">
+                          {t.propertyName || "-"}{t.unitLabel ? ` / ${t.unitLabel}` : ""}
+                        </TableCell>
+                        <TableCell><PriorityBadge priority={t.priority} /></TableCell>
+                        <TableCell>
+                          <Badge variant={t.status === "completed" ? "default" : "secondary"}>
+                            {labelFor(MAINTENANCE_STATUSES, t.status)}
+                          </Badge>
+                        </TableCell>
+                        <TableCell><SlaBadge ticket={t} /></TableCell>
+                        <TableCell className="text-sm">{t.vendorName || "-"}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="vendors">
+            <VendorsPanel vendors={vendors} />
+          </TabsContent>
+        </Tabs>
+      </div>
+
+      <NewTicketDialog
+        open={isCreateOpen}
+        onOpenChange={setIsCreateOpen}
+        properties={properties}
+        vendors={vendors}
+        onCreated={(id) => setSelectedId(id)}
+      />
+      {selectedId && (
+        <TicketDetailDialog ticketId={selectedId} vendors={vendors} onClose={() => setSelectedId(null)} />
+      )}
+    </div>
+  );
+}
+
+function NewTicketDialog({
+  open,
+  onOpenChange,
+  properties,
+  vendors,
+  onCreated,
+}: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  properties: RentalProperty[];
+  vendors: Vendor[];
+  onCreated: (id: string) => void;
+}) {
+  const { toast } = useToast();
+  const [propertyId, setPropertyId] = useState("");
+  const [unitId, setUnitId] = useState("none");
+  const [category, setCategory] = useState("other");
+  const [priority, setPriority] = useState("routine");
+  const [vendorId, setVendorId] = useState("none");
+  const [title, setTitle] = useState("");
+  const [description, setDescription] = useState("");
+  const [permissionToEnter, setPermissionToEnter] = useState(false);
+
+  const { data: units = [] } = useQuery<RentalUnit[]>({
+    queryKey: ["/api/rental/properties", propertyId, "units"],
+    enabled: !!propertyId,
+  });
+
+  useEffect(() => {
+    if (!open) return;
+    setPropertyId(properties.length === 1 ? properties[0].id : "");
+    setUnitId("none");
+    setCategory("other");
+    setPriority("routine");
+    setVendorId("none");
+    setTitle("");
+    setDescription("");
+    setPermissionToEnter(false);
+  }, [open, properties]);
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/maintenance-requests", {
+        rentalPropertyId: propertyId,
+        rentalUnitId: unitId === "none" ? null : unitId,
+        vendorId: vendorId === "none" ? null : vendorId,
+        category,
+        priority,
+        title,
+        description,
+        permissionToEnter,
+      });
+      return res.json() as Promise<MaintenanceRequest>;
+    },
+    onSuccess: (created) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/maintenance-requests"] });
+      onOpenChange(false);
+      onCreated(created.id);
+      toast({ title: "Ticket Created" });
+    },
+    onError: (e: Error) => toast({ title: "Error", description: e.message, variant: "destructive" }),
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>New Maintenance Ticket</DialogTitle>
+          <DialogDescription>Log a request that came in by phone, text or inspection.</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label>Property</Label>
+              <Select value={propertyId} onValueChange={(v) => { setPropertyId(v); setUnitId("none"); }}>
+                <SelectTrigger data-testid="select-ticket-property"><SelectValue placeholder="Select property" /></SelectTrigger>
+                <SelectContent>
+                  {properties.map((p) => (
+                    <SelectItem key={p.id} value={p.id}>{p.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Unit</Label>
+              <Select value={unitId} onValueChange={setUnitId} disabled={!propertyId}>
+                <SelectTrigger data-testid="select-ticket-unit"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">Whole property</SelectItem>
+                  {units.map((u) => (
+                    <SelectItem key={u.id} value={u.id}>{u.unitLabel}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Category</Label>
+              <Select value={category} onValueChange={setCategory}>
+                <SelectTrigger data-testid="select-ticket-category"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {MAINTENANCE_CATEGORIES.map((c) => (
+                    <SelectItem key={c.value} value={c.value}>{c.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Priority</Label>
+              <Select value={priority} onValueChange={setPriority}>
+                <SelectTrigger data-testid="select-ticket-priority"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {MAINTENANCE_PRIORITIES.map((p) => (
+                    <SelectItem key={p.value} value={p.value}>{p.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="ticket-title">Summary</Label>
+            <Input id="ticket-title" value={title} onChange={(e) => setTitle(e.target.value)} data-testid="input-ticket-title" />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="ticket-description">Details</Label>
+            <Textarea
+              id="ticket-description"
+              rows={3}
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              data-testid="input-ticket-description"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Vendor</Label>
+            <Select value={vendorId} onValueChange={setVendorId}>
+              <SelectTrigger data-testid="select-ticket-vendor"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">Unassigned</SelectItem>
+                {vendors.map((v) => (
+                  <SelectItem key={v.id} value={v.id}>{v.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="ticket-permission"
+              checked={permissionToEnter}
+              onCheckedChange={(v) => setPermissionToEnter(v === true)}
+            />
+            <Label htmlFor="ticket-permission" className="font-normal">Tenant has given permission to enter</Label>
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button
+            onClick={() => createMutation.mutate()}
+            disabled={!propertyId || !title.trim() || !description.trim() || createMutation.isPending}
+            data-testid="button-create-ticket"
+          >
+            {createMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Create Ticket
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function TicketDetailDialog({
+  ticketId,
+  vendors,
+  onClose,
+}: {
+  ticketId: string;
+  vendors: Vendor[];
+  onClose: () => void;
+}) {
+  const { toast } = useToast();
+  const [note, setNote] = useState("");
+  const [scheduledFor, setScheduledFor] = useState("");
+  const [estimatedCost, setEstimatedCost] = useState("");
+  const [actualCost, setActualCost] = useState("");
+  const [landlordNotes, setLandlordNotes] = useState("");
+
+  const { data: ticket, isLoading } = useQuery<TicketDetail>({
+    queryKey: ["/api/maintenance-requests", ticketId],
+  });
+
+  useEffect(() => {
+    if (!ticket) return;
+    setScheduledFor(ticket.scheduledFor || "");
+    setEstimatedCost(centsToInput(ticket.estimatedCost));
+    setActualCost(centsToInput(ticket.actualCost));
+    setLandlordNotes(ticket.landlordNotes || "");
+  }, [ticket]);
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/maintenance-requests"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/maintenance-requests", ticketId] });
+  };
+
+  const updateMutation = useMutation({
+    mutationFn: async (data: Record<string, unknown>) => {
+      const res = await apiRequest("PATCH", `/api/maintenance-requests/${ticketId}`, data);
+      return res.json();
+    },
+    onSuccess: (_data, variables) => {
+      refresh();
+      if (variables.note) setNote("");
+    },
+    onError: (e: Error) => toast({ title: "Error", description: e.message, variant: "destructive" }),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("DELETE", `/api/maintenance-requests/${ticketId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/maintenance-requests"] });
+      toast({ title: "Ticket Deleted" });
+      onClose();
+    },
+    onError: (e: Error) => toast({ title: "Error", description: e.message, variant: "destructive" }),
+  });
+
+  const deletePhotoMutation = useMutation({
+    mutationFn: async (photoId: string) => {
+      await apiRequest("DELETE", `/api/maintenance-requests/${ticketId}/photos/${photoId}`);
+    },
+    onSuccess: refresh,
+    onError: (e: Error) => toast({ title: "Error", description: e.message, variant: "destructive" }),
+  });
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        {isLoading || !ticket ? (
+          <div className="p-6"><Loader2 className="h-5 w-5 animate-spin text-muted-foreground" /></div>
+        ) : (
+          <>
+            <DialogHeader>
+              <DialogTitle className="flex flex-wrap items-center gap-2">
+                {ticket.title}
+                <PriorityBadge priority={ticket.priority} />
+                <SlaBadge ticket={ticket} />
+              </DialogTitle>
+              <DialogDescription>
+                {ticket.propertyName}{ticket.unitLabel ? ` / ${ticket.unitLabel}` : ""}
+                {ticket.propertyAddress ? ` - ${ticket.propertyAddress}` : ""}
+              </DialogDescription>
+            </DialogHeader>
+
+            <div className="space-y-6">
+              <div className="space-y-1 text-sm">
+                <p className="whitespace-pre-wrap">{ticket.description}</p>
+                <p className="text-muted-foreground">
+                  {labelFor(MAINTENANCE_CATEGORIES, ticket.category)} - submitted {formatDateTime(ticket.createdAt)}
+                  {ticket.submittedByName ? ` by ${ticket.submittedByName}` : " by you"}
+                  {ticket.permissionToEnter ? " - permission to enter given" : ""}
+                </p>
+                {ticket.tenantContacts.length > 0 && (
+                  <p className="text-muted-foreground">
+                    Tenant contact: {ticket.tenantContacts.map((c) => [c.fullName, c.phone, c.email].filter(Boolean).join(", ")).join("; ")}
+                  </p>
+                )}
+              </div>
+
+              <div className="grid gap-4 sm:grid-cols-3">
+                <div className="space-y-2">
+                  <Label>Status</Label>
+                  <Select value={ticket.status} onValueChange={(status) => updateMutation.mutate({ status, note: note || undefined })}>
+                    <SelectTrigger data-testid="select-detail-status"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      {MAINTENANCE_STATUSES.map((s) => (
+                        <SelectItem key={s.value} value={s.value}>{s.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>Priority</Label>
+                  <Select value={ticket.priority} onValueChange={(priority) => updateMutation.mutate({ priority })}>
+                    <SelectTrigger data-testid="select-detail-priority"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      {MAINTENANCE_PRIORITIES.map((p) => (
+                        <SelectItem key={p.value} value={p.value}>{p.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>Vendor</Label>
+                  <Select
+                    value={ticket.vendorId || "none"}
+                    onValueChange={(v) => updateMutation.mutate({ vendorId: v === "none" ? null : v })}
+                  >
+                    <SelectTrigger data-testid="select-detail-vendor"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">Unassigned</SelectItem>
+                      {vendors.map((v) => (
+                        <SelectItem key={v.id} value={v.id}>{v.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {ticket.vendor && (ticket.vendor.phone || ticket.vendor.email) && (
+                    <p className="text-xs text-muted-foreground">
+                      {[ticket.vendor.phone, ticket.vendor.email].filter(Boolean).join(" - ")}
+                    </p>
+                  )}
+                </div>
+              </div>
+
+              <div className="grid gap-4 sm:grid-cols-3">
+                <div className="space-y-2">
+                  <Label htmlFor="detail-scheduled">Scheduled for</Label>
+                  <Input id="detail-scheduled" type="date" value={scheduledFor} onChange={(e) => setScheduledFor(e.target.value)} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="detail-estimate">Estimated cost ($)</Label>
+                  <Input id="detail-estimate" type="number" step="0.01" min="0" value={estimatedCost} onChange={(e) => setEstimatedCost(e.target.value)} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="detail-actual">Actual cost ($)</Label>
+                  <Input id="detail-actual" type="number" step="0.01" min="0" value={actualCost} onChange={(e) => setActualCost(e.target.value)} />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="detail-landlord-notes">Internal notes</Label>
+                <Textarea
+                  id="detail-landlord-notes"
+                  rows={2}
+                  value={landlordNotes}
+                  onChange={(e) => setLandlordNotes(e.target.value)}
+                  placeholder="Only visible to you"
+                />
+              </div>
+              <Button
+                variant="outline"
+                onClick={() => updateMutation.mutate({ scheduledFor: scheduledFor || null, estimatedCost, actualCost, landlordNotes })}
+                disabled={updateMutation.isPending}
+                data-testid="button-save-ticket"
+              >
+                Save Details
+              </Button>
+
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label>Photos</Label>
+                  <PhotoUploadButton
+                    endpoint={`/api/maintenance-requests/${ticketId}/photos`}
+                    onUploaded={refresh}
+                    testId="button-upload-ticket-photo"
+                  />
+                </div>
+                {ticket.photos.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No photos yet.</p>
+                ) : (
+                  <div className="flex flex-wrap gap-2">
+                    {ticket.photos.map((p) => (
+                      <div key={p.id} className="relative group">
+                        <AuthedPhoto
+                          src={`/api/maintenance-requests/${ticketId}/photos/${p.id}`}
+                          alt={p.fileName}
+                          className="h-24 w-24 rounded-md"
+                        />
+                        <button
+                          type="button"
+                          className="absolute top-1 right-1 rounded bg-background/80 p-1 opacity-0 group-hover:opacity-100"
+                          onClick={() => deletePhotoMutation.mutate(p.id)}
+                          aria-label="Delete photo"
+                        >
+                          <Trash className="h-3 w-3" />
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              <div className="space-y-2">
+                <Label>History</Label>
+                <div className="space-y-2 border-l pl-4">
+                  {ticket.events.map((e) => (
+                    <div key={e.id} className="text-sm" data-testid={`event-${e.id}`}>
+                      <p>{describeEvent(e)}</p>
+                      {e.note && <p className="text-muted-foreground whitespace-pre-wrap">{e.note}</p>}
+                      <p className="text-xs text-muted-foreground">{formatDateTime(e.createdAt)}</p>
+                    </div>
+                  ))}
+                </div>
+                <div className="flex gap-2">
+                  <Textarea
+                    rows={2}
+                    value={note}
+                    onChange={(e) => setNote(e.target.value)}
+                    placeholder="Add a note - it's saved with the next status change, or on its own"
+                    data-testid="input-ticket-note"
+                  />
+                  <Button
+                    variant="outline"
+                    onClick={() => updateMutation.mutate({ note })}
+                    disabled={!note.trim() || updateMutation.isPending}
+                    data-testid="button-add-note"
+                  >
+                    Add Note
+                  </Button>
+                </div>
+              </div>
+            </div>
+
+            <DialogFooter className="sm:justify-between">
+              <Button
+                variant="ghost"
+                className="text-destructive"
+                onClick={() => {
+                  if (confirm("Delete this ticket and its history?")) deleteMutation.mutate();
+                }}
+                data-testid="button-delete-ticket"
+              >
+                <Trash2 className="h-4 w-4 mr-2" />
+                Delete
+              </Button>
+              <Button onClick={onClose}>Close</Button>
+            </DialogFooter>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function VendorsPanel({ vendors }: { vendors: Vendor[] }) {
+  const { toast } = useToast();
+  const [editing, setEditing] = useState<Vendor | "new" | null>(null);
+  const [name, setName] = useState("");
+  const [trade, setTrade] = useState("none");
+  const [phone, setPhone] = useState("");
+  const [email, setEmail] = useState("");
+  const [notes, setNotes] = useState("");
+
+  const openEditor = (vendor: Vendor | "new") => {
+    const v = vendor === "new" ? null : vendor;
+    setName(v?.name || "");
+    setTrade(v?.trade || "none");
+    setPhone(v?.phone || "");
+    setEmail(v?.email || "");
+    setNotes(v?.notes || "");
+    setEditing(vendor);
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const body = { name, trade: trade === "none" ? null : trade, phone, email, notes };
+      if (editing === "new") return apiRequest("POST", "/api/vendors", body);
+      return apiRequest("PATCH", `/api/vendors/${(editing as Vendor).id}`, body);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/vendors"] });
+      setEditing(null);
+      toast({ title: "Vendor Saved" });
+    },
+    onError: (e: Error) => toast({ title: "Error", description: e.message, variant: "destructive" }),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/vendors/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/vendors"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/maintenance-requests"] });
+    },
+    onError: (e: Error) => toast({ title: "Error", description: e.message, variant: "destructive" }),
+  });
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <div>
+          <CardTitle className="text-lg">Vendors</CardTitle>
+          <CardDescription>Plumbers, electricians and handymen you assign work to.</CardDescription>
+        </div>
+        <Button onClick={() => openEditor("new")} data-testid="button-add-vendor">
+          <Plus className="h-4 w-4 mr-2" />
+          Add Vendor
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {vendors.length === 0 ? (
+          <div className="py-6 text-center text-sm text-muted-foreground">
+            <HardHat className="h-8 w-8 mx-auto mb-2" />
+            No vendors yet.
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Trade</TableHead>
+                <TableHead>Contact</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {vendors.map((v) => (
+                <TableRow key={v.id} data-testid={`row-vendor-${v.id}`}>
+                  <TableCell className="font-medium">{v.name}</TableCell>
+                  <TableCell>{labelFor(MAINTENANCE_CATEGORIES, v.trade) || "-"}</TableCell>
+                  <TableCell className="text-sm">{[v.phone, v.email].filter(Boolean).join(" - ") || "-"}</TableCell>
+                  <TableCell className="text-right">
+                    <Button size="icon" variant="ghost" onClick={() => openEditor(v)} aria-label="Edit vendor">
+                      <Edit2 className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      onClick={() => {
+                        if (confirm(`Delete ${v.name}? Tickets assigned to them will become unassigned.`)) deleteMutation.mutate(v.id);
+                      }}
+                      aria-label="Delete vendor"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <Dialog open={editing !== null} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editing === "new" ? "Add Vendor" : "Edit Vendor"}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="vendor-name">Name</Label>
+              <Input id="vendor-name" value={name} onChange={(e) => setName(e.target.value)} data-testid="input-vendor-name" />
+            </div>
+            <div className="space-y-2">
+              <Label>Trade</Label>
+              <Select value={trade} onValueChange={setTrade}>
+                <SelectTrigger data-testid="select-vendor-trade"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">General</SelectItem>
+                  {MAINTENANCE_CATEGORIES.filter((c) => c.value !== "other").map((c) => (
+                    <SelectItem key={c.value} value={c.value}>{c.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="vendor-phone">Phone</Label>
+                <Input id="vendor-phone" value={phone} onChange={(e) => setPhone(e.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="vendor-email">Email</Label>
+                <Input id="vendor-email" type="email" value={email} onChange={(e) => setEmail(e.target.value)} />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="vendor-notes">Notes</Label>
+              <Textarea id="vendor-notes" rows={2} value={notes} onChange={(e) => setNotes(e.target.value)} />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditing(null)}>Cancel</Button>
+            <Button onClick={() => saveMutation.mutate()} disabled={!name.trim() || saveMutation.isPending} data-testid="button-save-vendor">
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
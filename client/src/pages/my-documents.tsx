@@ -17,7 +17,7 @@ import {
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
 import { useToast } from "@/hooks/use-toast";
-import { FileText, Download, Trash2, Search, Calendar, Building2, Edit, Upload, File, ChevronDown } from "lucide-react";
+import { FileText, Download, Trash2, Search, Calendar, Building2, Edit, Upload, File, ChevronDown, FileSignature, CheckCircle2, Share2 } from "lucide-react";
 import { SEO } from "@/components/seo";
 import {
   DropdownMenu,
@@ -25,12 +25,13 @@ import {
   DropdownMenuItem,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
-import { queryClient, getAccessToken } from "@/lib/queryClient";
+import { apiRequest, queryClient, getAccessToken } from "@/lib/queryClient";
 import type { SavedDocument, RentalProperty, UploadedDocument } from "@shared/schema";
 import { format } from "date-fns";
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
+import { SignatureRequestDialog } from "@/components/signature-request-dialog";
 
 export default function MyDocuments() {
   const { toast } = useToast();
@@ -38,6 +39,7 @@ export default function MyDocuments() {
   const [searchQuery, setSearchQuery] = useState("");
   const [selectedPropertyId, setSelectedPropertyId] = useState<string>("all");
   const [deleteDocId, setDeleteDocId] = useState<string | null>(null);
+  const [signatureDoc, setSignatureDoc] = useState<SavedDocument | null>(null);
   const [isUploadDialogOpen, setIsUploadDialogOpen] = useState(false);
   const [uploadFile, setUploadFile] = useState<File | null>(null);
   const [uploadDocumentName, setUploadDocumentName] = useState("");
@@ -116,6 +118,25 @@ export default function MyDocuments() {
     },
   });
 
+  const shareWithTenantMutation = useMutation({
+    mutationFn: async ({ id, shared }: { id: string; shared: boolean }) => {
+      await apiRequest("POST", `/api/saved-documents/${id}/share-with-tenant`, { shared });
+      return shared;
+    },
+    onSuccess: (shared) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/saved-documents'] });
+      toast({
+        title: shared ? "Shared With Tenant" : "Sharing Stopped",
+        description: shared
+          ? "Tenants on this lease can now download the document from their portal."
+          : "The document is no longer visible in the tenant portal.",
+      });
+    },
+    onError: (e: Error) => {
+      toast({ title: "Sharing Failed", description: e.message, variant: "destructive" });
+    },
+  });
+
   const deleteMutation = useMutation({
     mutationFn: async (id: string) => {
       const token = getAccessToken();
@@ -465,6 +486,12 @@ export default function MyDocuments() {
                         </span>
                       </div>
                     )}
+                    {document.signedAt && (
+                      <div className="flex items-center gap-2 text-sm text-primary" data-testid={`text-signed-${document.id}`}>
+                        <CheckCircle2 className="h-4 w-4" />
+                        <span>Signed {format(new Date(document.signedAt), 'MMM d, yyyy')}</span>
+                      </div>
+                    )}
                   </div>
                   <div className="flex gap-2">
                     <DropdownMenu>
@@ -505,6 +532,27 @@ export default function MyDocuments() {
                     >
                       <Edit className="h-4 w-4" />
                     </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => setSignatureDoc(document)}
+                      title="Send for signature"
+                      data-testid={`button-send-signature-${document.id}`}
+                    >
+                      <FileSignature className="h-4 w-4" />
+                    </Button>
+                    {document.tenancyId && !document.signedAt && (
+                      <Button
+                        size="sm"
+                        variant={document.sharedWithTenantAt ? "secondary" : "outline"}
+                        onClick={() => shareWithTenantMutation.mutate({ id: document.id, shared: !document.sharedWithTenantAt })}
+                        disabled={shareWithTenantMutation.isPending}
+                        title={document.sharedWithTenantAt ? "Stop sharing with tenant" : "Share with tenant"}
+                        data-testid={`button-share-tenant-${document.id}`}
+                      >
+                        <Share2 className="h-4 w-4" />
+                      </Button>
+                    )}
                     <Button
                       size="sm"
                       variant="outline"
@@ -759,6 +807,9 @@ export default function MyDocuments() {
           </DialogContent>
         </Dialog>
 
+        {/* E-signature Dialog */}
+        <SignatureRequestDialog document={signatureDoc} onOpenChange={(open) => !open && setSignatureDoc(null)} />
+
         {/* Delete Generated Document Dialog */}
         <AlertDialog open={!!deleteDocId} onOpenChange={(open) => !open && setDeleteDocId(null)}>
           <AlertDialogContent data-testid="dialog-confirm-delete">
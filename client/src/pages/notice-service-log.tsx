@@ -0,0 +1,540 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter, DialogDescription } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { GeneratedNoticeDocument, NoticeServiceAttempt } from "@shared/schema";
+import { SERVICE_OUTCOMES, SERVICE_SERVER_ROLES } from "@shared/noticeService";
+import { AuthedPhoto, PhotoUploadButton } from "@/components/maintenance-photos";
+import { SEO } from "@/components/seo";
+import { ClipboardCheck, Plus, Loader2, Download, CheckCircle2, XCircle, Trash2, ArrowLeft, Lock } from "lucide-react";
+
+type GeneratedNotice = GeneratedNoticeDocument & { formDisplayName: string; stateId: string };
+
+interface ServiceMethod {
+  methodId: string;
+  displayName: string;
+  isAllowed: boolean;
+  requiresPriorAttempts: boolean;
+  priorAttemptMethodNames: string[];
+  requiresAdditionalMethods: boolean;
+  additionalMethodNames: string[];
+  lockReason: string | null;
+}
+
+interface ServiceLog {
+  notice: GeneratedNotice;
+  methods: ServiceMethod[];
+  attempts: (NoticeServiceAttempt & { photoIds: string[] })[];
+  summary: {
+    complete: boolean;
+    servedDate: string | null;
+    servedMethodIds: string[];
+    missingMethodNames: string[];
+  };
+  proofSource: "official_form" | "notice_certificate" | "affidavit";
+}
+
+const PROOF_SOURCE_LABELS: Record<ServiceLog["proofSource"], string> = {
+  official_form: "State proof-of-service form",
+  notice_certificate: "Certificate of service on the official notice",
+  affidavit: "Affidavit of service",
+};
+
+function formatDate(isoDate: string | null | undefined): string {
+  if (!isoDate) return "";
+  return new Date(`${isoDate}T00:00:00`).toLocaleDateString("en-US", { year: "numeric", month: "short", day: "numeric" });
+}
+
+function formatTime(time: string | null): string {
+  if (!time) return "";
+  const [h, m] = time.split(":").map(Number);
+  return ` at ${h % 12 || 12}:${String(m).padStart(2, "0")} ${h < 12 ? "AM" : "PM"}`;
+}
+
+function today(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+export default function NoticeServiceLog() {
+  const [selectedId, setSelectedId] = useState<string | null>(() => {
+    if (typeof window === "undefined") return null;
+    return new URLSearchParams(window.location.search).get("id");
+  });
+
+  const { data: notices = [], isLoading } = useQuery<GeneratedNotice[]>({
+    queryKey: ["/api/generated-notices"],
+  });
+
+  useEffect(() => {
+    if (!selectedId && notices.length > 0) setSelectedId(notices[0].id);
+  }, [notices, selectedId]);
+
+  return (
+    <div className="flex-1 overflow-auto">
+      <SEO
+        title="Notice Service Log - record how each notice was served"
+        description="Log every service attempt for a notice and generate a certificate or affidavit of service."
+        canonical="/notice-service-log"
+      />
+
+      {/* Hero Header */}
+      <div className="bg-gradient-to-br from-primary/10 via-primary/5 to-background border-b">
+        <div className="container max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          <div className="flex items-start gap-4">
+            <div className="p-3 bg-primary/10 rounded-md">
+              <ClipboardCheck className="h-8 w-8 text-primary" />
+            </div>
+            <div>
+              <h1 className="text-3xl sm:text-4xl font-display font-semibold text-foreground mb-1" data-testid="text-page-title">
+                Service Log
+              </h1>
+              <p className="text-sm sm:text-base text-muted-foreground">
+                Who served each notice, how and when - and the proof of service to file with the court.
+              </p>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="container max-w-6xl mx-auto py-6 px-4 sm:px-6 lg:px-8">
+        <Link href="/eviction-timeline">
+          <Button variant="ghost" size="sm" className="mb-4" data-testid="link-eviction-timeline">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Eviction Timeline
+          </Button>
+        </Link>
+        <div className="grid gap-6 lg:grid-cols-[320px_1fr]">
+          <div className="space-y-3">
+            {isLoading ? (
+              <div className="p-6"><Loader2 className="h-5 w-5 animate-spin text-muted-foreground" /></div>
+            ) : notices.length === 0 ? (
+              <Card>
+                <CardContent className="p-6 text-sm text-muted-foreground">
+                  No notices yet. Generate a notice first, then log how it was served here.
+                </CardContent>
+              </Card>
+            ) : (
+              notices.map((n) => (
+                <Card
+                  key={n.id}
+                  className={`cursor-pointer hover-elevate ${n.id === selectedId ? "border-primary" : ""}`}
+                  onClick={() => setSelectedId(n.id)}
+                  data-testid={`card-notice-${n.id}`}
+                >
+                  <CardContent className="p-4 space-y-1">
+                    <p className="font-medium text-sm">{n.formDisplayName}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {n.stateId}{n.createdAt ? ` · generated ${new Date(n.createdAt).toLocaleDateString()}` : ""}
+                    </p>
+                  </CardContent>
+                </Card>
+              ))
+            )}
+          </div>
+
+          {selectedId && <ServiceLogPanel noticeId={selectedId} />}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function ServiceLogPanel({ noticeId }: { noticeId: string }) {
+  const { toast } = useToast();
+  const [isAddOpen, setIsAddOpen] = useState(false);
+  const [isDownloading, setIsDownloading] = useState(false);
+  const logKey = [`/api/generated-notices/${noticeId}/service-log`];
+
+  const { data: log, isLoading } = useQuery<ServiceLog>({ queryKey: logKey });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (attemptId: string) => {
+      await apiRequest("DELETE", `/api/generated-notices/${noticeId}/service-attempts/${attemptId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: logKey });
+      toast({ title: "Attempt Removed" });
+    },
+    onError: (e: Error) => toast({ title: "Error", description: e.message, variant: "destructive" }),
+  });
+
+  const deletePhotoMutation = useMutation({
+    mutationFn: async ({ attemptId, photoId }: { attemptId: string; photoId: string }) => {
+      await apiRequest("DELETE", `/api/generated-notices/${noticeId}/service-attempts/${attemptId}/photos/${photoId}`);
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: logKey }),
+    onError: (e: Error) => toast({ title: "Error", description: e.message, variant: "destructive" }),
+  });
+
+  const handleDownload = async () => {
+    setIsDownloading(true);
+    try {
+      const res = await apiRequest("GET", `/api/generated-notices/${noticeId}/proof-of-service.pdf`);
+      const blob = await res.blob();
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = `proof-of-service-${log?.summary.servedDate || today()}.pdf`;
+      document.body.appendChild(a);
+      a.click();
+      window.URL.revokeObjectURL(url);
+      a.remove();
+    } catch (e: any) {
+      toast({ title: "Download Failed", description: e.message, variant: "destructive" });
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
+  if (isLoading || !log) {
+    return (
+      <Card>
+        <CardContent className="p-8"><Loader2 className="h-5 w-5 animate-spin text-muted-foreground" /></CardContent>
+      </Card>
+    );
+  }
+
+  const methodName = (id: string) => log.methods.find((m) => m.methodId === id)?.displayName || "Service";
+  const roleLabel = (role: string) => SERVICE_SERVER_ROLES.find((r) => r.value === role)?.label || role;
+  const lastAttempt = log.attempts[log.attempts.length - 1];
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-3">
+          <div>
+            <CardTitle data-testid="text-notice-name">{log.notice.formDisplayName}</CardTitle>
+            <CardDescription>
+              {log.notice.stateId} · proof of service: {PROOF_SOURCE_LABELS[log.proofSource]}
+            </CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Button size="sm" onClick={() => setIsAddOpen(true)} data-testid="button-add-attempt">
+              <Plus className="h-4 w-4 mr-2" />
+              Log Attempt
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleDownload}
+              disabled={!log.summary.complete || isDownloading}
+              data-testid="button-download-proof"
+            >
+              {isDownloading ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Download className="h-4 w-4 mr-2" />}
+              Proof of Service
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {log.summary.complete ? (
+          <div className="flex gap-2 rounded-md border border-green-300 bg-green-50 dark:bg-green-950/30 p-3 text-sm">
+            <CheckCircle2 className="h-4 w-4 text-green-600 shrink-0 mt-0.5" />
+            <p data-testid="text-service-status">Service completed on {formatDate(log.summary.servedDate)}.</p>
+          </div>
+        ) : log.summary.missingMethodNames.length > 0 ? (
+          <div className="flex gap-2 rounded-md border border-amber-300 bg-amber-50 dark:bg-amber-950/30 p-3 text-sm">
+            <Lock className="h-4 w-4 text-amber-600 shrink-0 mt-0.5" />
+            <p data-testid="text-service-status">
+              Service isn't complete until the notice is also served by {log.summary.missingMethodNames.join(" and ")}.
+            </p>
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground" data-testid="text-service-status">
+            No successful service logged yet.
+          </p>
+        )}
+
+        {log.attempts.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            Log each attempt as it happens - including unsuccessful ones. Some methods, like posting, are only allowed after an earlier attempt failed.
+          </p>
+        ) : (
+          <ol className="space-y-4">
+            {log.attempts.map((a) => (
+              <li key={a.id} className="flex gap-3" data-testid={`attempt-${a.attemptNumber}`}>
+                {a.outcome === "served" ? (
+                  <CheckCircle2 className="h-5 w-5 text-green-600 shrink-0 mt-0.5" />
+                ) : (
+                  <XCircle className="h-5 w-5 text-amber-600 shrink-0 mt-0.5" />
+                )}
+                <div className="flex-1 space-y-1">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <p className="font-medium">Attempt {a.attemptNumber}: {methodName(a.methodId)}</p>
+                    <Badge variant={a.outcome === "served" ? "default" : "outline"}>
+                      {a.outcome === "served" ? "Served" : "Unsuccessful"}
+                    </Badge>
+                  </div>
+                  <p className="text-sm text-muted-foreground">
+                    {formatDate(a.attemptDate)}{formatTime(a.attemptTime)} · {a.servedByName} ({roleLabel(a.servedByRole)})
+                  </p>
+                  <p className="text-sm text-muted-foreground">
+                    {a.address}{a.recipientName ? ` · delivered to ${a.recipientName}` : ""}
+                  </p>
+                  {a.notes && <p className="text-xs text-muted-foreground">{a.notes}</p>}
+                  <div className="flex flex-wrap items-center gap-2 pt-1">
+                    {a.photoIds.map((photoId) => (
+                      <div key={photoId} className="relative group">
+                        <AuthedPhoto
+                          src={`/api/generated-notices/${noticeId}/service-attempts/${a.id}/photos/${photoId}`}
+                          alt="Service evidence"
+                          className="h-16 w-16 rounded-md"
+                        />
+                        <button
+                          type="button"
+                          className="absolute -top-1 -right-1 hidden group-hover:flex h-5 w-5 items-center justify-center rounded-full bg-destructive text-destructive-foreground"
+                          onClick={() => deletePhotoMutation.mutate({ attemptId: a.id, photoId })}
+                          data-testid={`button-delete-photo-${photoId}`}
+                        >
+                          <Trash2 className="h-3 w-3" />
+                        </button>
+                      </div>
+                    ))}
+                    <PhotoUploadButton
+                      endpoint={`/api/generated-notices/${noticeId}/service-attempts/${a.id}/photos`}
+                      onUploaded={() => queryClient.invalidateQueries({ queryKey: logKey })}
+                      testId={`button-upload-photo-${a.attemptNumber}`}
+                    />
+                    {a.id === lastAttempt?.id && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => {
+                          if (confirm("Remove this attempt and its photos?")) deleteMutation.mutate(a.id);
+                        }}
+                        disabled={deleteMutation.isPending}
+                        data-testid={`button-delete-attempt-${a.attemptNumber}`}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              </li>
+            ))}
+          </ol>
+        )}
+      </CardContent>
+
+      <AddAttemptDialog
+        open={isAddOpen}
+        onOpenChange={setIsAddOpen}
+        noticeId={noticeId}
+        methods={log.methods}
+        lastAttempt={lastAttempt}
+        onLogged={() => queryClient.invalidateQueries({ queryKey: logKey })}
+      />
+    </Card>
+  );
+}
+
+function AddAttemptDialog({
+  open,
+  onOpenChange,
+  noticeId,
+  methods,
+  lastAttempt,
+  onLogged,
+}: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  noticeId: string;
+  methods: ServiceMethod[];
+  lastAttempt: NoticeServiceAttempt | undefined;
+  onLogged: () => void;
+}) {
+  const { toast } = useToast();
+  const [methodId, setMethodId] = useState("");
+  const [servedByName, setServedByName] = useState("");
+  const [servedByRole, setServedByRole] = useState("landlord");
+  const [attemptDate, setAttemptDate] = useState(today());
+  const [attemptTime, setAttemptTime] = useState("");
+  const [address, setAddress] = useState("");
+  const [recipientName, setRecipientName] = useState("");
+  const [outcome, setOutcome] = useState("served");
+  const [notes, setNotes] = useState("");
+
+  // Repeat attempts are usually by the same person at the same address.
+  useEffect(() => {
+    if (open) {
+      setMethodId("");
+      setServedByName(lastAttempt?.servedByName || "");
+      setServedByRole(lastAttempt?.servedByRole || "landlord");
+      setAttemptDate(today());
+      setAttemptTime("");
+      setAddress(lastAttempt?.address || "");
+      setRecipientName("");
+      setOutcome("served");
+      setNotes("");
+    }
+  }, [open, lastAttempt]);
+
+  const method = methods.find((m) => m.methodId === methodId);
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/generated-notices/${noticeId}/service-attempts`, {
+        methodId,
+        servedByName,
+        servedByRole,
+        attemptDate,
+        attemptTime: attemptTime || null,
+        address,
+        recipientName: recipientName || null,
+        outcome,
+        notes: notes || null,
+      });
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Attempt Logged" });
+      onLogged();
+      onOpenChange(false);
+    },
+    onError: (e: Error) => toast({ title: "Not Logged", description: e.message, variant: "destructive" }),
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Log Service Attempt</DialogTitle>
+          <DialogDescription>
+            Record every attempt, successful or not. The method must be one your state allows for this notice.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div>
+            <Label>Method</Label>
+            <Select value={methodId} onValueChange={setMethodId}>
+              <SelectTrigger data-testid="select-method"><SelectValue placeholder="How was it served?" /></SelectTrigger>
+              <SelectContent>
+                {methods.map((m) => (
+                  <SelectItem key={m.methodId} value={m.methodId} disabled={!m.isAllowed}>
+                    {m.displayName}{!m.isAllowed ? " (not allowed)" : ""}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {method?.requiresPriorAttempts && (
+              <p className="text-xs text-muted-foreground mt-1">
+                Only allowed after an unsuccessful{" "}
+                {method.priorAttemptMethodNames.length > 0 ? method.priorAttemptMethodNames.join(" and ") : "earlier"} attempt.
+              </p>
+            )}
+            {method?.requiresAdditionalMethods && (
+              <p className="text-xs text-muted-foreground mt-1">
+                Must also be served by {method.additionalMethodNames.join(" and ")}.
+              </p>
+            )}
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <Label htmlFor="attempt-date">Date</Label>
+              <Input
+                id="attempt-date"
+                type="date"
+                value={attemptDate}
+                onChange={(e) => setAttemptDate(e.target.value)}
+                data-testid="input-attempt-date"
+              />
+            </div>
+            <div>
+              <Label htmlFor="attempt-time">Time (optional)</Label>
+              <Input
+                id="attempt-time"
+                type="time"
+                value={attemptTime}
+                onChange={(e) => setAttemptTime(e.target.value)}
+                data-testid="input-attempt-time"
+              />
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <Label htmlFor="served-by">Served by</Label>
+              <Input
+                id="served-by"
+                value={servedByName}
+                onChange={(e) => setServedByName(e.target.value)}
+                data-testid="input-served-by"
+              />
+            </div>
+            <div>
+              <Label>Role</Label>
+              <Select value={servedByRole} onValueChange={setServedByRole}>
+                <SelectTrigger data-testid="select-server-role"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {SERVICE_SERVER_ROLES.map((r) => (
+                    <SelectItem key={r.value} value={r.value}>{r.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div>
+            <Label htmlFor="attempt-address">Address</Label>
+            <Input
+              id="attempt-address"
+              value={address}
+              onChange={(e) => setAddress(e.target.value)}
+              data-testid="input-attempt-address"
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <Label>Outcome</Label>
+              <Select value={outcome} onValueChange={setOutcome}>
+                <SelectTrigger data-testid="select-outcome"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {SERVICE_OUTCOMES.map((o) => (
+                    <SelectItem key={o.value} value={o.value}>{o.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="recipient-name">Delivered to (optional)</Label>
+              <Input
+                id="recipient-name"
+                value={recipientName}
+                onChange={(e) => setRecipientName(e.target.value)}
+                data-testid="input-recipient-name"
+              />
+            </div>
+          </div>
+          <div>
+            <Label htmlFor="attempt-notes">Notes</Label>
+            <Textarea
+              id="attempt-notes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="e.g. No answer at door; posted on front door"
+              data-testid="input-attempt-notes"
+            />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button
+            onClick={() => createMutation.mutate()}
+            disabled={!methodId || !servedByName.trim() || !attemptDate || !address.trim() || createMutation.isPending}
+            data-testid="button-save-attempt"
+          >
+            {createMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Log Attempt
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -104,9 +104,11 @@ export default function PayRent() {
   });
   const isPaid = data.status === "paid";
   const isProcessing = data.status === "processing";
+  const isCanceled = data.status === "canceled";
   const isApplicationFee = data.requestType === "application_fee";
-  const pageTitle = isApplicationFee ? "Application Fee" : "Rent Payment";
-  const lineItemLabel = isApplicationFee ? "Application fee" : "Rent";
+  const isHoldingDeposit = data.requestType === "holding_deposit";
+  const pageTitle = isApplicationFee ? "Application Fee" : isHoldingDeposit ? "Holding Deposit" : "Rent Payment";
+  const lineItemLabel = isApplicationFee ? "Application fee" : isHoldingDeposit ? "Holding deposit" : "Rent";
 
   return (
     <div className="min-h-screen flex items-center justify-center bg-background p-4">
@@ -200,6 +202,14 @@ export default function PayRent() {
               <p className="font-semibold text-lg">Paid in full</p>
               <p className="text-sm text-muted-foreground">Thank you for your payment.</p>
             </div>
+          ) : isCanceled ? (
+            <div className="text-center py-4">
+              <p className="text-sm text-muted-foreground" data-testid="text-request-canceled">
+                {isHoldingDeposit
+                  ? "The deadline for this holding deposit has passed and it can no longer be paid."
+                  : "This payment request has been canceled."}
+              </p>
+            </div>
           ) : isProcessing || banner === "paid" ? (
             <div className="text-center py-4">
               <p className="text-sm text-muted-foreground">
@@ -20,17 +20,18 @@ import {
   Calendar,
   ExternalLink,
 } from "lucide-react";
-import type { Property, RentLedgerEntry, SavedDocument, UploadedDocument } from "@shared/schema";
+import type { RentalProperty, RentalUnit, RentLedgerEntry, SavedDocument, UploadedDocument } from "@shared/schema";
+import { entryNet } from "@shared/tenantLedger";
 
 export default function PropertyDetail() {
   const { id } = useParams<{ id: string }>();
   const [activeTab, setActiveTab] = useState("overview");
 
-  const { data: property, isLoading: isLoadingProperty } = useQuery<Property>({
-    queryKey: ["/api/properties", id],
+  const { data: property, isLoading: isLoadingProperty } = useQuery<RentalProperty>({
+    queryKey: ["/api/rental/properties", id],
     queryFn: async () => {
       const token = getAccessToken();
-      const res = await fetch(`/api/properties/${id}`, {
+      const res = await fetch(`/api/rental/properties/${id}`, {
         headers: token ? { Authorization: `Bearer ${token}` } : {},
         credentials: "include",
       });
@@ -40,6 +41,11 @@ export default function PropertyDetail() {
     enabled: !!id,
   });
 
+  const { data: units = [] } = useQuery<RentalUnit[]>({
+    queryKey: ["/api/rental/properties", id, "units"],
+    enabled: !!id,
+  });
+
   const { data: allLedgerEntries = [], isLoading: isLoadingLedger } = useQuery<RentLedgerEntry[]>({
     queryKey: ["/api/rent-ledger"],
   });
@@ -208,7 +214,7 @@ export default function PropertyDetail() {
           </CardHeader>
           <CardContent>
             <p className="text-xs text-muted-foreground">
-              {property.units && property.units > 1 ? `${property.units} units` : "Single unit"}
+              {units.length > 1 ? `${units.length} units` : "Single unit"}
             </p>
           </CardContent>
         </Card>
@@ -272,10 +278,10 @@ export default function PropertyDetail() {
                       <span>{property.propertyType}</span>
                     </>
                   )}
-                  {property.units && (
+                  {units.length > 0 && (
                     <>
                       <span className="text-muted-foreground">Units:</span>
-                      <span>{property.units}</span>
+                      <span>{units.map((u) => u.unitLabel).join(", ")}</span>
                     </>
                   )}
                 </div>
@@ -323,10 +329,10 @@ export default function PropertyDetail() {
                           <p className="text-xs text-muted-foreground">{formatDate(entry.effectiveDate)}</p>
                         </div>
                         <div className="text-right">
-                          {entry.type === "charge" ? (
-                            <p className="text-sm text-red-600">+{formatCurrency(entry.amountExpected)}</p>
+                          {entryNet(entry) >= 0 ? (
+                            <p className="text-sm text-red-600">+{formatCurrency(entryNet(entry))}</p>
                           ) : (
-                            <p className="text-sm text-green-600">-{formatCurrency(entry.amountReceived || 0)}</p>
+                            <p className="text-sm text-green-600">-{formatCurrency(-entryNet(entry))}</p>
                           )}
                         </div>
                       </div>
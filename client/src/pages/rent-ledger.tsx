@@ -6,9 +6,9 @@ import { Label } from "@/components/ui/label";
 import { useToast } from "@/hooks/use-toast";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
-import { Download, Plus, Trash2, DollarSign, Edit2, Building2, CreditCard, Send, Copy, Link as LinkIcon, AlertTriangle, CheckCircle2, Inbox } from "lucide-react";
+import { Download, Plus, Trash2, DollarSign, Edit2, Undo2, Building2, CreditCard, Send, Copy, Link as LinkIcon, AlertTriangle, CheckCircle2, Inbox } from "lucide-react";
 import { useState, useEffect } from "react";
-import { queryClient, apiRequest } from "@/lib/queryClient";
+import { queryClient, apiRequest, getAccessToken } from "@/lib/queryClient";
 import type { RentLedgerEntry, RentalProperty, RentPaymentRequest } from "@shared/schema";
 import { Badge } from "@/components/ui/badge";
 import { Textarea } from "@/components/ui/textarea";
@@ -16,7 +16,42 @@ import { useAuth } from "@/hooks/useAuth";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { RecurringPaymentsPanel } from "@/components/recurring-payments-panel";
+import { SecurityDepositsPanel } from "@/components/security-deposits-panel";
+import { PropertyExpensesPanel } from "@/components/property-expenses-panel";
+import { LedgerCorrectionDialog } from "@/components/ledger-correction-dialog";
 import { SEO } from "@/components/seo";
+import { LATE_FEE_POLICY_TYPES, type LateFeePolicyType } from "@shared/lateFeePolicy";
+import {
+  ALLOCATION_RULES,
+  DEFAULT_ALLOCATION_RULE,
+  compareLedgerEntries,
+  LEDGER_ENTRY_TYPE_LABELS,
+  reversedEntryIds,
+  withRunningBalances,
+  type AllocationRule,
+  type LedgerEntryType,
+} from "@shared/tenantLedger";
+
+interface LeaseOption {
+  id: string;
+  propertyName: string | null;
+  unitLabel: string | null;
+  occupants: { fullName: string; role: string }[];
+}
+
+const leaseOptionLabel = (lease: LeaseOption) => {
+  const tenants = lease.occupants.filter((o) => o.role === "tenant").map((o) => o.fullName).join(", ");
+  const place = [lease.propertyName, lease.unitLabel].filter(Boolean).join(" - ");
+  return [tenants || "Lease", place].filter(Boolean).join(" · ");
+};
+
+// Running balances are kept per account: the lease when there is one, the
+// tenant name for entries logged without a lease.
+const ledgerAccountKey = (entry: RentLedgerEntry) =>
+  entry.tenancyId ? `lease:${entry.tenancyId}` : `tenant:${entry.tenantName.trim().toLowerCase()}`;
+
+const entryTypeLabel = (type: string | null) =>
+  LEDGER_ENTRY_TYPE_LABELS[(type || "charge") as LedgerEntryType] || type || "Charge";
 
 export default function RentLedger() {
   const { user } = useAuth();
@@ -24,7 +59,7 @@ export default function RentLedger() {
   const [activeTab, setActiveTab] = useState(() => {
     if (typeof window === "undefined") return "online";
     const tab = new URLSearchParams(window.location.search).get("tab");
-    return tab && ["online", "track", "recurring", "export"].includes(tab) ? tab : "online";
+    return tab && ["online", "track", "recurring", "deposits", "expenses", "export"].includes(tab) ? tab : "online";
   });
   const [tenantName, setTenantName] = useState("");
   const [effectiveDate, setEffectiveDate] = useState(new Date().toISOString().split('T')[0]);
@@ -36,19 +71,10 @@ export default function RentLedger() {
   const [paymentMethod, setPaymentMethod] = useState("");
   const [referenceNumber, setReferenceNumber] = useState("");
   const [notes, setNotes] = useState("");
-  const [editingEntry, setEditingEntry] = useState<RentLedgerEntry | null>(null);
-  const [editTenantName, setEditTenantName] = useState("");
-  const [editEffectiveDate, setEditEffectiveDate] = useState("");
-  const [editType, setEditType] = useState<"charge" | "payment">("charge");
-  const [editCategory, setEditCategory] = useState("Rent");
-  const [editDescription, setEditDescription] = useState("");
-  const [editChargeAmount, setEditChargeAmount] = useState("");
-  const [editPaymentAmount, setEditPaymentAmount] = useState("");
-  const [editPaymentMethod, setEditPaymentMethod] = useState("");
-  const [editReferenceNumber, setEditReferenceNumber] = useState("");
-  const [editNotes, setEditNotes] = useState("");
+  const [correctingEntry, setCorrectingEntry] = useState<RentLedgerEntry | null>(null);
+  const [tenancyId, setTenancyId] = useState<string>("");
+  const [allocationRule, setAllocationRule] = useState<AllocationRule>(DEFAULT_ALLOCATION_RULE);
   const [propertyId, setPropertyId] = useState<string>("");
-  const [editPropertyId, setEditPropertyId] = useState<string>("");
   const [filterPropertyId, setFilterPropertyId] = useState<string>("all");
   const [filterYear, setFilterYear] = useState<string>("all");
   const [filterMonth, setFilterMonth] = useState<string>("all");
@@ -106,6 +132,10 @@ export default function RentLedger() {
     queryKey: ["/api/rental/properties"],
   });
 
+  const { data: leases = [] } = useQuery<LeaseOption[]>({
+    queryKey: ["/api/tenancies"],
+  });
+
   const createMutation = useMutation({
     mutationFn: async (data: any) =>
       apiRequest("POST", "/api/rent-ledger", data),
@@ -122,6 +152,8 @@ export default function RentLedger() {
       setReferenceNumber("");
       setNotes("");
       setPropertyId("");
+      setTenancyId("");
+      setAllocationRule(DEFAULT_ALLOCATION_RULE);
       toast({ description: "Rent entry added successfully!" });
     },
     onError: (error: any) => {
@@ -132,82 +164,16 @@ export default function RentLedger() {
     },
   });
 
-  const deleteMutation = useMutation({
-    mutationFn: async (id: string) =>
-      apiRequest("DELETE", `/api/rent-ledger/${id}`, {}),
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/rent-ledger"] });
-      toast({ description: "Entry deleted" });
-    },
-  });
-
-  const updateMutation = useMutation({
-    mutationFn: async (data: any) =>
-      apiRequest("PUT", `/api/rent-ledger/${data.id}`, data),
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/rent-ledger"] });
-      setEditingEntry(null);
-      toast({ description: "Entry updated successfully!" });
-    },
-    onError: () => toast({ description: "Failed to update entry", variant: "destructive" }),
-  });
-
-  const handleEditClick = (entry: RentLedgerEntry) => {
-    setEditingEntry(entry);
-    setEditTenantName(entry.tenantName);
-    setEditEffectiveDate(entry.effectiveDate ? new Date(entry.effectiveDate).toISOString().split('T')[0] : "");
-    setEditType((entry.type as "charge" | "payment") || "charge");
-    setEditCategory(entry.category || "Rent");
-    setEditDescription(entry.description || "");
-    setEditChargeAmount((entry.amountExpected / 100).toFixed(2));
-    setEditPaymentAmount(((entry.amountReceived ?? 0) / 100).toFixed(2));
-    setEditPaymentMethod(entry.paymentMethod || "");
-    setEditReferenceNumber(entry.referenceNumber || "");
-    setEditNotes(entry.notes || "");
-    setEditPropertyId(entry.propertyId || "");
-  };
-
-  const handleUpdateEntry = () => {
-    if (!editTenantName || !editingEntry) {
-      toast({ description: "Please enter tenant name", variant: "destructive" });
-      return;
-    }
-    const chargeAmt = Math.round(parseFloat(editChargeAmount || "0") * 100);
-    const paymentAmt = Math.round(parseFloat(editPaymentAmount || "0") * 100);
-    const entryType = chargeAmt > 0 ? "charge" : "payment";
-
-    updateMutation.mutate({
-      id: editingEntry.id,
-      userId: editingEntry.userId,
-      propertyId: editPropertyId || null,
-      tenantName: editTenantName,
-      effectiveDate: editEffectiveDate || new Date().toISOString().split('T')[0],
-      type: entryType,
-      category: editCategory,
-      description: editDescription,
-      amountExpected: chargeAmt,
-      amountReceived: paymentAmt,
-      paymentMethod: editPaymentMethod,
-      referenceNumber: editReferenceNumber,
-      notes: editNotes,
-    });
-  };
-
   const downloadExcelTemplate = () => {
     if (!entries || entries.length === 0) {
       toast({ description: "No entries to export. Add entries to the ledger first.", variant: "destructive" });
       return;
     }
 
-    const sortedEntries = [...entries].sort((a, b) => {
-      const dateA = a.effectiveDate ? new Date(a.effectiveDate).getTime() : new Date(a.createdAt).getTime();
-      const dateB = b.effectiveDate ? new Date(b.effectiveDate).getTime() : new Date(b.createdAt).getTime();
-      return dateA - dateB;
-    });
+    const sortedEntries = withRunningBalances(entries, ledgerAccountKey);
 
     let totalCharges = 0;
     let totalPayments = 0;
-    let runningBalance = 0;
 
     const csvRows = [
       "RENT LEDGER REPORT",
@@ -220,18 +186,17 @@ export default function RentLedger() {
     sortedEntries.forEach((entry) => {
       const charge = entry.amountExpected / 100;
       const payment = (entry.amountReceived ?? 0) / 100;
-      runningBalance += charge - payment;
       totalCharges += charge;
       totalPayments += payment;
 
       const dateStr = new Date(entry.createdAt).toLocaleDateString();
       const effectiveDateStr = entry.effectiveDate ? new Date(entry.effectiveDate).toLocaleDateString() : "";
-      const entryType = entry.type === "payment" ? "Payment" : "Charge";
+      const entryType = entryTypeLabel(entry.type);
       const chargeDisplay = charge > 0 ? charge.toFixed(2) : "0.00";
       const paymentDisplay = payment > 0 ? payment.toFixed(2) : "0.00";
 
       csvRows.push(
-        `"${dateStr}","${effectiveDateStr}","${entryType}","${entry.category || ""}","${entry.description || ""}","$${chargeDisplay}","$${paymentDisplay}","$${runningBalance.toFixed(2)}","${entry.paymentMethod || ""}","${entry.referenceNumber || ""}","${(entry.notes || "").replace(/"/g, '""')}"`
+        `"${dateStr}","${effectiveDateStr}","${entryType}","${entry.category || ""}","${entry.description || ""}","$${chargeDisplay}","$${paymentDisplay}","$${(entry.runningBalance / 100).toFixed(2)}","${entry.paymentMethod || ""}","${entry.referenceNumber || ""}","${(entry.notes || "").replace(/"/g, '""')}"`
       );
     });
 
@@ -255,8 +220,8 @@ export default function RentLedger() {
   };
 
   const handleAddEntry = () => {
-    if (!tenantName) {
-      toast({ description: "Please enter tenant name", variant: "destructive" });
+    if (!tenantName && !tenancyId) {
+      toast({ description: "Please enter tenant name or choose a lease", variant: "destructive" });
       return;
     }
 
@@ -269,6 +234,8 @@ export default function RentLedger() {
     createMutation.mutate({
       userId: user?.id,
       propertyId: propertyId || null,
+      tenancyId: tenancyId || null,
+      allocationRule: entryType === "payment" ? allocationRule : null,
       tenantName,
       effectiveDate: effectiveDate || new Date().toISOString().split('T')[0],
       type: entryType,
@@ -328,10 +295,12 @@ export default function RentLedger() {
 
       <div className="container max-w-6xl mx-auto py-6 px-4 sm:px-6 lg:px-8">
       <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-        <TabsList className="grid w-full max-w-3xl grid-cols-4">
+        <TabsList className="grid w-full max-w-3xl grid-cols-6">
           <TabsTrigger value="online" data-testid="tab-online-payments">Requests</TabsTrigger>
           <TabsTrigger value="track" data-testid="tab-track-entries">Manual Ledger</TabsTrigger>
           <TabsTrigger value="recurring" data-testid="tab-recurring">Recurring</TabsTrigger>
+          <TabsTrigger value="deposits" data-testid="tab-deposits">Deposits</TabsTrigger>
+          <TabsTrigger value="expenses" data-testid="tab-expenses">Expenses</TabsTrigger>
           <TabsTrigger value="export" data-testid="tab-export-report">Export</TabsTrigger>
         </TabsList>
 
@@ -345,6 +314,16 @@ export default function RentLedger() {
           <RecurringPaymentsPanel properties={properties} />
         </TabsContent>
 
+        {/* Security deposits held per tenancy */}
+        <TabsContent value="deposits">
+          <SecurityDepositsPanel />
+        </TabsContent>
+
+        {/* Property expenses and the Schedule E worksheet */}
+        <TabsContent value="expenses">
+          <PropertyExpensesPanel properties={properties} />
+        </TabsContent>
+
         {/* Export Report */}
         <TabsContent value="export">
           <Card className="p-6 space-y-4">
@@ -377,6 +356,7 @@ export default function RentLedger() {
               </ul>
             </div>
           </Card>
+          <StatementOfAccountCard leases={leases} />
         </TabsContent>
 
         {/* Track Entries */}
@@ -388,12 +368,12 @@ export default function RentLedger() {
               
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
                 <div>
-                  <Label htmlFor="tenant-name">Tenant Name *</Label>
+                  <Label htmlFor="tenant-name">Tenant Name {tenancyId ? "" : "*"}</Label>
                   <Input
                     id="tenant-name"
                     value={tenantName}
                     onChange={(e) => setTenantName(e.target.value)}
-                    placeholder="John Doe"
+                    placeholder={tenancyId ? "Defaults to the lease's tenant" : "John Doe"}
                     data-testid="input-tenant-name"
                   />
                 </div>
@@ -445,6 +425,27 @@ export default function RentLedger() {
                   </div>
                 )}
 
+                {leases.length > 0 && (
+                  <div>
+                    <Label htmlFor="lease">Lease (Optional)</Label>
+                    <Select value={tenancyId || "none"} onValueChange={(v) => setTenancyId(v === "none" ? "" : v)}>
+                      <SelectTrigger id="lease" data-testid="select-lease">
+                        <SelectValue placeholder="No lease selected" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="none">No lease</SelectItem>
+                        {leases.map((lease) => {
+                          return (
+                            <SelectItem key={lease.id} value={lease.id}>
+                              {leaseOptionLabel(lease)}
+                            </SelectItem>
+                          );
+                        })}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+
                 <div className="md:col-span-2">
                   <Label htmlFor="description">Description</Label>
                   <Input
@@ -482,6 +483,22 @@ export default function RentLedger() {
                   />
                 </div>
 
+                {tenancyId && parseFloat(paymentAmount || "0") > 0 && (
+                  <div>
+                    <Label htmlFor="allocation-rule">Apply Payment To</Label>
+                    <Select value={allocationRule} onValueChange={(v) => setAllocationRule(v as AllocationRule)}>
+                      <SelectTrigger id="allocation-rule" data-testid="select-allocation-rule">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {ALLOCATION_RULES.map((rule) => (
+                          <SelectItem key={rule.value} value={rule.value}>{rule.label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+
                 <div>
                   <Label htmlFor="payment-method">Payment Method</Label>
                   <Select value={paymentMethod} onValueChange={setPaymentMethod}>
@@ -668,6 +685,7 @@ export default function RentLedger() {
                         <TableHead className="text-xs">Date</TableHead>
                         <TableHead className="text-xs">Effective Date</TableHead>
                         {properties.length > 0 && <TableHead className="text-xs">Property</TableHead>}
+                        <TableHead className="text-xs">Type</TableHead>
                         <TableHead className="text-xs">Category</TableHead>
                         <TableHead className="text-xs text-right">Charge Amt</TableHead>
                         <TableHead className="text-xs text-right">Payment Amt</TableHead>
@@ -682,21 +700,18 @@ export default function RentLedger() {
                         // Filter entries by property + date filters (shared helper)
                         const filteredEntries = entries.filter(matchesFilters);
                         
-                        // Sort chronologically (oldest first) to calculate correct running balances
-                        const chronologicalEntries = [...filteredEntries].sort((a, b) => {
-                          const dateA = a.effectiveDate ? new Date(a.effectiveDate).getTime() : new Date(a.createdAt).getTime();
-                          const dateB = b.effectiveDate ? new Date(b.effectiveDate).getTime() : new Date(b.createdAt).getTime();
-                          return dateA - dateB;
-                        });
-                        
-                        // Calculate running balance for each entry
-                        let runningBalance = 0;
-                        const entriesWithBalance = chronologicalEntries.map((entry) => {
-                          const expected = entry.amountExpected / 100;
-                          const received = (entry.amountReceived ?? 0) / 100;
-                          runningBalance += expected - received;
-                          return { ...entry, calculatedBalance: runningBalance };
-                        });
+                        // Running balance per lease (or tenant), in ledger order, so
+                        // one tenant's payments never offset another's charges.
+                        // Balances come from the whole account, not just the
+                        // filtered rows, so a filtered view shows true balances.
+                        const balances = new Map(
+                          withRunningBalances(entries, ledgerAccountKey).map((e) => [e.id, e.runningBalance] as [string, number]),
+                        );
+                        const reversed = reversedEntryIds(entries);
+                        const entriesWithBalance = [...filteredEntries].sort(compareLedgerEntries).map((entry) => ({
+                          ...entry,
+                          calculatedBalance: (balances.get(entry.id) ?? 0) / 100,
+                        }));
                         
                         // Now sort for display (newest first)
                         const sortedEntries = entriesWithBalance.reverse();
@@ -704,7 +719,7 @@ export default function RentLedger() {
                         if (sortedEntries.length === 0) {
                           return (
                             <TableRow>
-                              <TableCell colSpan={properties.length > 0 ? 10 : 9} className="text-center text-muted-foreground py-8">
+                              <TableCell colSpan={properties.length > 0 ? 11 : 10} className="text-center text-muted-foreground py-8">
                                 No entries for this property filter
                               </TableCell>
                             </TableRow>
@@ -715,7 +730,7 @@ export default function RentLedger() {
                           const expected = entry.amountExpected / 100;
                           const received = (entry.amountReceived ?? 0) / 100;
                           return (
-                            <TableRow key={entry.id}>
+                            <TableRow key={entry.id} className={reversed.has(entry.id) ? "text-muted-foreground" : undefined}>
                               <TableCell className="text-xs">{new Date(entry.createdAt).toLocaleDateString()}</TableCell>
                               <TableCell className="text-xs">{entry.effectiveDate ? new Date(entry.effectiveDate).toLocaleDateString() : "-"}</TableCell>
                               {properties.length > 0 && (
@@ -726,28 +741,34 @@ export default function RentLedger() {
                                   }
                                 </TableCell>
                               )}
-                              <TableCell className="text-xs">{entry.category}</TableCell>
+                              <TableCell className="text-xs">
+                                {entryTypeLabel(entry.type)}
+                                {reversed.has(entry.id) && !entry.reversesEntryId && (
+                                  <Badge variant="outline" className="ml-1 text-[10px]" data-testid={`badge-reversed-${entry.id}`}>Reversed</Badge>
+                                )}
+                              </TableCell>
+                              <TableCell className="text-xs">
+                                {entry.category}
+                                {entry.statuteCitation && (
+                                  <div className="text-[10px] text-muted-foreground" title="State law this charge was checked against" data-testid={`text-citation-${entry.id}`}>
+                                    {entry.statuteCitation}
+                                  </div>
+                                )}
+                              </TableCell>
                               <TableCell className="text-right font-mono text-xs">${expected > 0 ? expected.toFixed(2) : "0.00"}</TableCell>
                               <TableCell className="text-right font-mono text-green-600 dark:text-green-400 text-xs">${received > 0 ? received.toFixed(2) : "0.00"}</TableCell>
                               <TableCell className="text-right font-mono font-semibold text-xs">${entry.calculatedBalance.toFixed(2)}</TableCell>
                               <TableCell className="text-xs">{entry.paymentMethod || "-"}</TableCell>
                               <TableCell className="text-xs">{entry.referenceNumber || "-"}</TableCell>
-                              <TableCell className="flex gap-1">
-                                <Button
-                                  size="icon"
-                                  variant="ghost"
-                                  onClick={() => handleEditClick(entry)}
-                                  data-testid={`button-edit-${entry.id}`}
-                                >
-                                  <Edit2 className="h-4 w-4" />
-                                </Button>
+                              <TableCell>
                                 <Button
                                   size="icon"
                                   variant="ghost"
-                                  onClick={() => deleteMutation.mutate(entry.id)}
-                                  data-testid={`button-delete-${entry.id}`}
+                                  onClick={() => setCorrectingEntry(entry)}
+                                  title="Reverse or adjust"
+                                  data-testid={`button-correct-${entry.id}`}
                                 >
-                                  <Trash2 className="h-4 w-4" />
+                                  <Undo2 className="h-4 w-4" />
                                 </Button>
                               </TableCell>
                             </TableRow>
@@ -783,168 +804,11 @@ export default function RentLedger() {
         </TabsContent>
       </Tabs>
 
-      {/* Edit Modal */}
-      <Dialog open={!!editingEntry} onOpenChange={(open) => !open && setEditingEntry(null)}>
-        <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto">
-          <DialogHeader>
-            <DialogTitle>Edit Rent Entry</DialogTitle>
-          </DialogHeader>
-          <div className="space-y-4">
-            <div className="grid grid-cols-2 gap-4">
-              <div>
-                <Label htmlFor="edit-tenant">Tenant Name</Label>
-                <Input
-                  id="edit-tenant"
-                  value={editTenantName}
-                  onChange={(e) => setEditTenantName(e.target.value)}
-                  data-testid="input-edit-tenant"
-                />
-              </div>
-              <div>
-                <Label htmlFor="edit-effective-date">Effective Date</Label>
-                <Input
-                  id="edit-effective-date"
-                  type="date"
-                  value={editEffectiveDate}
-                  onChange={(e) => setEditEffectiveDate(e.target.value)}
-                  data-testid="input-edit-effective-date"
-                />
-              </div>
-              <div>
-                <Label htmlFor="edit-type">Type</Label>
-                <Select value={editType} onValueChange={(v) => setEditType(v as "charge" | "payment")}>
-                  <SelectTrigger id="edit-type" data-testid="select-edit-type">
-                    <SelectValue />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="charge">Charge</SelectItem>
-                    <SelectItem value="payment">Payment</SelectItem>
-                  </SelectContent>
-                </Select>
-              </div>
-              <div>
-                <Label htmlFor="edit-category">Category</Label>
-                <Select value={editCategory} onValueChange={setEditCategory}>
-                  <SelectTrigger id="edit-category" data-testid="select-edit-category">
-                    <SelectValue />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="Rent">Rent</SelectItem>
-                    <SelectItem value="Late Fee">Late Fee</SelectItem>
-                    <SelectItem value="Utility">Utility</SelectItem>
-                    <SelectItem value="Deposit">Deposit</SelectItem>
-                    <SelectItem value="Pet Fee">Pet Fee</SelectItem>
-                    <SelectItem value="Other">Other</SelectItem>
-                  </SelectContent>
-                </Select>
-              </div>
-              {properties.length > 0 && (
-                <div>
-                  <Label htmlFor="edit-property">Property (Optional)</Label>
-                  <Select value={editPropertyId || "none"} onValueChange={(v) => setEditPropertyId(v === "none" ? "" : v)}>
-                    <SelectTrigger id="edit-property" data-testid="select-edit-property">
-                      <SelectValue placeholder="No property selected" />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="none">No property</SelectItem>
-                      {properties.map((property) => (
-                        <SelectItem key={property.id} value={property.id}>
-                          {property.name}
-                        </SelectItem>
-                      ))}
-                    </SelectContent>
-                  </Select>
-                </div>
-              )}
-              <div className="col-span-2">
-                <Label htmlFor="edit-description">Description</Label>
-                <Input
-                  id="edit-description"
-                  value={editDescription}
-                  onChange={(e) => setEditDescription(e.target.value)}
-                  data-testid="input-edit-description"
-                />
-              </div>
-              {editType === "charge" ? (
-                <div>
-                  <Label htmlFor="edit-charge">Charge Amount</Label>
-                  <Input
-                    id="edit-charge"
-                    type="number"
-                    step="0.01"
-                    value={editChargeAmount}
-                    onChange={(e) => setEditChargeAmount(e.target.value)}
-                    data-testid="input-edit-charge"
-                  />
-                </div>
-              ) : (
-                <div>
-                  <Label htmlFor="edit-payment">Payment Amount</Label>
-                  <Input
-                    id="edit-payment"
-                    type="number"
-                    step="0.01"
-                    value={editPaymentAmount}
-                    onChange={(e) => setEditPaymentAmount(e.target.value)}
-                    data-testid="input-edit-payment"
-                  />
-                </div>
-              )}
-              <div>
-                <Label htmlFor="edit-payment-method">Payment Method</Label>
-                <Select value={editPaymentMethod} onValueChange={setEditPaymentMethod}>
-                  <SelectTrigger id="edit-payment-method" data-testid="select-edit-payment-method">
-                    <SelectValue placeholder="Select..." />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="Cash">Cash</SelectItem>
-                    <SelectItem value="Check">Check</SelectItem>
-                    <SelectItem value="Zelle">Zelle</SelectItem>
-                    <SelectItem value="Venmo">Venmo</SelectItem>
-                    <SelectItem value="ACH">ACH</SelectItem>
-                    <SelectItem value="Certified Funds">Certified Funds</SelectItem>
-                    <SelectItem value="Other">Other</SelectItem>
-                  </SelectContent>
-                </Select>
-              </div>
-              <div>
-                <Label htmlFor="edit-reference-number">Reference #</Label>
-                <Input
-                  id="edit-reference-number"
-                  value={editReferenceNumber}
-                  onChange={(e) => setEditReferenceNumber(e.target.value)}
-                  data-testid="input-edit-reference-number"
-                />
-              </div>
-              <div className="col-span-2">
-                <Label htmlFor="edit-notes">Notes</Label>
-                <Input
-                  id="edit-notes"
-                  value={editNotes}
-                  onChange={(e) => setEditNotes(e.target.value)}
-                  data-testid="input-edit-notes"
-                />
-              </div>
-            </div>
-          </div>
-          <DialogFooter>
-            <Button
-              variant="outline"
-              onClick={() => setEditingEntry(null)}
-              data-testid="button-cancel-edit"
-            >
-              Cancel
-            </Button>
-            <Button
-              onClick={handleUpdateEntry}
-              disabled={updateMutation.isPending}
-              data-testid="button-save-edit"
-            >
-              Save Changes
-            </Button>
-          </DialogFooter>
-        </DialogContent>
-      </Dialog>
+      <LedgerCorrectionDialog
+        entry={correctingEntry}
+        entries={entries || []}
+        onClose={() => setCorrectingEntry(null)}
+      />
       </div>
     </div>
   );
@@ -1005,6 +869,12 @@ function OnlinePaymentsPanel({ properties }: { properties: RentalProperty[] }) {
   });
   const [description, setDescription] = useState("");
   const [lateFeeDollars, setLateFeeDollars] = useState("0");
+  // Structured late-fee policy. "flat" uses lateFeeDollars; "daily" uses it
+  // as the initial fee. Tiered policies are API-only for now.
+  const [lateFeeType, setLateFeeType] = useState<LateFeePolicyType>("flat");
+  const [lateFeePercent, setLateFeePercent] = useState("5");
+  const [lateFeeDailyDollars, setLateFeeDailyDollars] = useState("");
+  const [lateFeeMaxDollars, setLateFeeMaxDollars] = useState("");
   const [gracePeriodDays, setGracePeriodDays] = useState("5");
   const [reminderDaysBefore, setReminderDaysBefore] = useState("5");
   const [rentalPropertyId, setRentalPropertyId] = useState("");
@@ -1087,6 +957,7 @@ function OnlinePaymentsPanel({ properties }: { properties: RentalProperty[] }) {
     dueDate: string;
     description: string | null;
     lateFeeDollars: number;
+    lateFeePolicy?: Record<string, unknown>;
     gracePeriodDays: number;
     reminderDaysBefore: number;
     rentalPropertyId?: string | null;
@@ -1106,6 +977,9 @@ function OnlinePaymentsPanel({ properties }: { properties: RentalProperty[] }) {
       setAmountDollars("");
       setDescription("");
       setLateFeeDollars("0");
+      setLateFeeType("flat");
+      setLateFeeDailyDollars("");
+      setLateFeeMaxDollars("");
       setRentalPropertyId("");
       setServiceFeeDollars("");
       if (data?.paymentLink) {
@@ -1235,6 +1109,18 @@ function OnlinePaymentsPanel({ properties }: { properties: RentalProperty[] }) {
       reminderDaysBefore: parseInt(reminderDaysBefore) || 5,
       rentalPropertyId: rentalPropertyId || null,
     };
+    if (lateFeeType === "percent") {
+      payload.lateFeeDollars = 0;
+      payload.lateFeePolicy = { type: "percent", percentOfRent: parseFloat(lateFeePercent || "0") };
+    } else if (lateFeeType === "daily") {
+      payload.lateFeeDollars = 0;
+      payload.lateFeePolicy = {
+        type: "daily",
+        initialDollars: lateFeeDollars || "0",
+        dailyDollars: lateFeeDailyDollars || "0",
+        maxDollars: lateFeeMaxDollars || "0",
+      };
+    }
     if (serviceFeeDollars.trim() !== "") {
       payload.serviceFeeAmountDollars = parseFloat(serviceFeeDollars);
     }
@@ -1638,16 +1524,75 @@ function OnlinePaymentsPanel({ properties }: { properties: RentalProperty[] }) {
               />
             </div>
             <div>
-              <Label htmlFor="rp-late">Late Fee (USD)</Label>
-              <Input
-                id="rp-late"
-                type="number"
-                step="0.01"
-                value={lateFeeDollars}
-                onChange={(e) => setLateFeeDollars(e.target.value)}
-                data-testid="input-rp-late-fee"
-              />
+              <Label htmlFor="rp-late-type">Late Fee Type</Label>
+              <Select value={lateFeeType} onValueChange={(v) => setLateFeeType(v as LateFeePolicyType)}>
+                <SelectTrigger id="rp-late-type" data-testid="select-rp-late-fee-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {LATE_FEE_POLICY_TYPES.filter((t) => t.value !== "tiered").map((t) => (
+                    <SelectItem key={t.value} value={t.value}>{t.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground mt-1">
+                Fees above your state's late-fee cap are rejected.
+              </p>
             </div>
+            {lateFeeType === "percent" ? (
+              <div>
+                <Label htmlFor="rp-late-pct">Late Fee (% of rent)</Label>
+                <Input
+                  id="rp-late-pct"
+                  type="number"
+                  step="0.1"
+                  min="0"
+                  value={lateFeePercent}
+                  onChange={(e) => setLateFeePercent(e.target.value)}
+                  data-testid="input-rp-late-fee-percent"
+                />
+              </div>
+            ) : (
+              <div>
+                <Label htmlFor="rp-late">{lateFeeType === "daily" ? "Initial Late Fee (USD)" : "Late Fee (USD)"}</Label>
+                <Input
+                  id="rp-late"
+                  type="number"
+                  step="0.01"
+                  value={lateFeeDollars}
+                  onChange={(e) => setLateFeeDollars(e.target.value)}
+                  data-testid="input-rp-late-fee"
+                />
+              </div>
+            )}
+            {lateFeeType === "daily" && (
+              <>
+                <div>
+                  <Label htmlFor="rp-late-daily">Daily Late Fee (USD)</Label>
+                  <Input
+                    id="rp-late-daily"
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    value={lateFeeDailyDollars}
+                    onChange={(e) => setLateFeeDailyDollars(e.target.value)}
+                    data-testid="input-rp-late-fee-daily"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="rp-late-max">Maximum Total Late Fee (USD)</Label>
+                  <Input
+                    id="rp-late-max"
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    value={lateFeeMaxDollars}
+                    onChange={(e) => setLateFeeMaxDollars(e.target.value)}
+                    data-testid="input-rp-late-fee-max"
+                  />
+                </div>
+              </>
+            )}
             <div>
               <Label htmlFor="rp-grace">Grace Period (days)</Label>
               <Input
@@ -1848,3 +1793,119 @@ function OnlinePaymentsPanel({ properties }: { properties: RentalProperty[] }) {
     </div>
   );
 }
+
+// Formal statement of account for one lease, for attaching to a nonpayment
+// filing. Built server-side from the lease's ledger so it matches the record.
+function StatementOfAccountCard({ leases }: { leases: LeaseOption[] }) {
+  const { toast } = useToast();
+  const [leaseId, setLeaseId] = useState("");
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState(new Date().toISOString().split('T')[0]);
+  const [downloading, setDownloading] = useState<"pdf" | "docx" | null>(null);
+
+  const downloadStatement = async (format: "pdf" | "docx") => {
+    setDownloading(format);
+    try {
+      const params = new URLSearchParams({ format, to });
+      if (from) params.set("from", from);
+      const token = getAccessToken();
+      const response = await fetch(`/api/rent-ledger/tenancies/${leaseId}/statement?${params}`, {
+        credentials: 'include',
+        headers: token ? { 'Authorization': `Bearer ${token}` } : {}
+      });
+      if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        toast({ title: "Download Failed", description: body?.message || "Failed to generate the statement.", variant: "destructive" });
+        return;
+      }
+      const url = window.URL.createObjectURL(await response.blob());
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `statement-of-account-${to}.${format}`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      window.URL.revokeObjectURL(url);
+    } finally {
+      setDownloading(null);
+    }
+  };
+
+  return (
+    <Card className="p-6 space-y-4 mt-6">
+      <div>
+        <h2 className="text-2xl font-bold mb-2">Statement of Account</h2>
+        <p className="text-muted-foreground">
+          A formal statement for one lease - each charge and payment with dates and references, the running balance,
+          and the lease clause authorizing any late fees. Suitable to attach to a nonpayment filing.
+        </p>
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div>
+          <Label htmlFor="statement-lease">Lease</Label>
+          <Select value={leaseId} onValueChange={setLeaseId}>
+            <SelectTrigger id="statement-lease" data-testid="select-statement-lease">
+              <SelectValue placeholder="Select a lease" />
+            </SelectTrigger>
+            <SelectContent>
+              {leases.map((lease) => (
+                <SelectItem key={lease.id} value={lease.id}>
+                  {leaseOptionLabel(lease)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <Label htmlFor="statement-from">Period From</Label>
+          <Input
+            id="statement-from"
+            type="date"
+            value={from}
+            onChange={(e) => setFrom(e.target.value)}
+            data-testid="input-statement-from"
+          />
+        </div>
+        <div>
+          <Label htmlFor="statement-to">Period To</Label>
+          <Input
+            id="statement-to"
+            type="date"
+            value={to}
+            onChange={(e) => setTo(e.target.value)}
+            data-testid="input-statement-to"
+          />
+        </div>
+      </div>
+      <p className="text-sm text-muted-foreground">
+        Leave Period From empty to start at the first entry. Earlier activity is carried in as the opening balance.
+      </p>
+      <div className="flex flex-wrap gap-2">
+        <Button
+          onClick={() => downloadStatement("pdf")}
+          disabled={!leaseId || !to || !!downloading}
+          className="gap-2"
+          data-testid="button-statement-pdf"
+        >
+          <Download className="h-4 w-4" />
+          Download PDF
+        </Button>
+        <Button
+          variant="outline"
+          onClick={() => downloadStatement("docx")}
+          disabled={!leaseId || !to || !!downloading}
+          className="gap-2"
+          data-testid="button-statement-docx"
+        >
+          <Download className="h-4 w-4" />
+          Download Word
+        </Button>
+      </div>
+      {leases.length === 0 && (
+        <p className="text-sm text-muted-foreground" data-testid="text-statement-no-leases">
+          Statements are produced per lease. Add a lease to a property first.
+        </p>
+      )}
+    </Card>
+  );
+}
@@ -54,8 +54,11 @@ import {
   AlertCircle,
   ClipboardList,
   DollarSign,
+  ListChecks,
 } from "lucide-react";
 import type { RentalProperty, RentalUnit, RentalApplicationLink } from "@shared/schema";
+import { SelectionCriteriaDialog } from "@/components/selection-criteria-builder";
+import { APPLICANT_QUEUE_POLICIES } from "@shared/applicantQueue";
 
 const US_STATES = [
   { value: "UT", label: "Utah" },
@@ -93,6 +96,7 @@ export default function RentalApplications() {
     city: "",
     state: "",
     zipCode: "",
+    yearBuilt: "",
   });
 
   const [unitForm, setUnitForm] = useState({
@@ -102,6 +106,7 @@ export default function RentalApplications() {
   const [docRequirements, setDocRequirements] = useState<DocumentRequirementsConfig>(DEFAULT_DOCUMENT_REQUIREMENTS);
   const [autoScreening, setAutoScreening] = useState(false);
   const [screeningInvitationId, setScreeningInvitationId] = useState("");
+  const [applicantQueuePolicy, setApplicantQueuePolicy] = useState("landlord_choice");
 
   // Property terms dialog state
   const [isPropertyTermsOpen, setIsPropertyTermsOpen] = useState(false);
@@ -143,7 +148,7 @@ export default function RentalApplications() {
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/rental/properties"] });
       setIsAddPropertyOpen(false);
-      setPropertyForm({ name: "", address: "", city: "", state: "", zipCode: "" });
+      setPropertyForm({ name: "", address: "", city: "", state: "", zipCode: "", yearBuilt: "" });
       setDocRequirements(DEFAULT_DOCUMENT_REQUIREMENTS);
       setAutoScreening(false);
       setScreeningInvitationId("");
@@ -156,7 +161,7 @@ export default function RentalApplications() {
   });
 
   const updatePropertyMutation = useMutation({
-    mutationFn: async ({ id, data, requiredDocumentTypes, autoScreening, screeningInvitationId, propertyTermsJson }: { id: string; data: typeof propertyForm; requiredDocumentTypes?: DocumentRequirementsConfig; autoScreening?: boolean; screeningInvitationId?: string; propertyTermsJson?: PropertyTerms }) => {
+    mutationFn: async ({ id, data, requiredDocumentTypes, autoScreening, screeningInvitationId, propertyTermsJson, applicantQueuePolicy }: { id: string; data: typeof propertyForm; requiredDocumentTypes?: DocumentRequirementsConfig; autoScreening?: boolean; screeningInvitationId?: string; propertyTermsJson?: PropertyTerms; applicantQueuePolicy?: string }) => {
       const token = getAccessToken();
       const response = await fetch(`/api/rental/properties/${id}`, {
         method: "PATCH",
@@ -165,7 +170,7 @@ export default function RentalApplications() {
           ...(token ? { Authorization: `Bearer ${token}` } : {}),
         },
         credentials: "include",
-        body: JSON.stringify({ ...data, requiredDocumentTypes, autoScreening, screeningInvitationId: screeningInvitationId || null, propertyTermsJson }),
+        body: JSON.stringify({ ...data, requiredDocumentTypes, autoScreening, screeningInvitationId: screeningInvitationId || null, propertyTermsJson, applicantQueuePolicy }),
       });
       if (!response.ok) throw new Error("Failed to update property");
       return response.json();
@@ -174,7 +179,7 @@ export default function RentalApplications() {
       queryClient.invalidateQueries({ queryKey: ["/api/rental/properties"] });
       setIsEditPropertyOpen(false);
       setEditingProperty(null);
-      setPropertyForm({ name: "", address: "", city: "", state: "", zipCode: "" });
+      setPropertyForm({ name: "", address: "", city: "", state: "", zipCode: "", yearBuilt: "" });
       setDocRequirements(DEFAULT_DOCUMENT_REQUIREMENTS);
       setAutoScreening(false);
       setScreeningInvitationId("");
@@ -252,11 +257,13 @@ export default function RentalApplications() {
       city: property.city || "",
       state: property.state || "",
       zipCode: property.zipCode || "",
+      yearBuilt: property.yearBuilt != null ? String(property.yearBuilt) : "",
     });
     setDocRequirements((property.requiredDocumentTypes as DocumentRequirementsConfig) || DEFAULT_DOCUMENT_REQUIREMENTS);
     setAutoScreening((property as any).autoScreening ?? false);
     setScreeningInvitationId((property as any).screeningInvitationId || "");
     setPropertyTerms((property as any).propertyTermsJson || DEFAULT_PROPERTY_TERMS);
+    setApplicantQueuePolicy(property.applicantQueuePolicy || "landlord_choice");
     setIsEditPropertyOpen(true);
   };
 
@@ -511,6 +518,20 @@ export default function RentalApplications() {
                   data-testid="input-rental-property-zip"
                 />
               </div>
+              <div className="space-y-2">
+                <Label htmlFor="yearBuilt">Year Built (optional)</Label>
+                <Input
+                  id="yearBuilt"
+                  inputMode="numeric"
+                  placeholder="1985"
+                  value={propertyForm.yearBuilt}
+                  onChange={(e) => setPropertyForm({ ...propertyForm, yearBuilt: e.target.value.replace(/\D/g, "").slice(0, 4) })}
+                  data-testid="input-rental-property-year-built"
+                />
+                <p className="text-xs text-muted-foreground">
+                  Leases for properties built before 1978 include the lead-based paint disclosure.
+                </p>
+              </div>
 
               <Separator className="my-4" />
 
@@ -763,6 +784,19 @@ export default function RentalApplications() {
                   data-testid="input-edit-rental-property-zip"
                 />
               </div>
+              <div className="space-y-2">
+                <Label htmlFor="edit-yearBuilt">Year Built (optional)</Label>
+                <Input
+                  id="edit-yearBuilt"
+                  inputMode="numeric"
+                  value={propertyForm.yearBuilt}
+                  onChange={(e) => setPropertyForm({ ...propertyForm, yearBuilt: e.target.value.replace(/\D/g, "").slice(0, 4) })}
+                  data-testid="input-edit-rental-property-year-built"
+                />
+                <p className="text-xs text-muted-foreground">
+                  Leases for properties built before 1978 include the lead-based paint disclosure.
+                </p>
+              </div>
 
               <Separator className="my-4" />
 
@@ -852,6 +886,23 @@ export default function RentalApplications() {
                 <p className="text-xs text-muted-foreground">Overrides your account-level default. Leave blank to use your account default.</p>
               </div>
 
+              <div className="space-y-1 pt-2">
+                <Label className="text-sm">Applicant Order</Label>
+                <Select value={applicantQueuePolicy} onValueChange={setApplicantQueuePolicy}>
+                  <SelectTrigger data-testid="select-edit-applicant-queue-policy">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {APPLICANT_QUEUE_POLICIES.map((policy) => (
+                      <SelectItem key={policy.value} value={policy.value}>{policy.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">
+                  {APPLICANT_QUEUE_POLICIES.find((p) => p.value === applicantQueuePolicy)?.description}
+                </p>
+              </div>
+
               <Separator className="my-4" />
 
               <div className="space-y-3">
@@ -937,7 +988,7 @@ export default function RentalApplications() {
               <Button
                 onClick={() =>
                   editingProperty &&
-                  updatePropertyMutation.mutate({ id: editingProperty.id, data: propertyForm, requiredDocumentTypes: docRequirements, autoScreening, screeningInvitationId, propertyTermsJson: propertyTerms })
+                  updatePropertyMutation.mutate({ id: editingProperty.id, data: propertyForm, requiredDocumentTypes: docRequirements, autoScreening, screeningInvitationId, propertyTermsJson: propertyTerms, applicantQueuePolicy })
                 }
                 disabled={!propertyForm.name || updatePropertyMutation.isPending}
                 data-testid="button-update-rental-property"
@@ -1121,6 +1172,7 @@ function PropertyCard({
   onDelete: () => void;
   onAddUnit: (createLinkImmediately?: boolean) => void;
 }) {
+  const [isCriteriaOpen, setIsCriteriaOpen] = useState(false);
   const { data: units = [] } = useQuery<RentalUnit[]>({
     queryKey: ["/api/rental/properties", property.id, "units"],
     enabled: isExpanded,
@@ -1150,6 +1202,10 @@ function PropertyCard({
             </div>
           </div>
           <div className="flex items-center gap-2" onClick={(e) => e.stopPropagation()}>
+            <Button size="sm" variant="outline" onClick={() => setIsCriteriaOpen(true)} data-testid={`button-selection-criteria-${property.id}`}>
+              <ListChecks className="h-4 w-4 mr-1" />
+              Selection Criteria
+            </Button>
             <Button size="icon" variant="ghost" onClick={onEdit} data-testid={`button-edit-rental-property-${property.id}`}>
               <Edit className="h-4 w-4" />
             </Button>
@@ -1202,6 +1258,7 @@ function PropertyCard({
           </div>
         </CardContent>
       )}
+      <SelectionCriteriaDialog property={property} open={isCriteriaOpen} onOpenChange={setIsCriteriaOpen} />
     </Card>
   );
 }
@@ -1,5 +1,6 @@
 import { useState, useMemo, useEffect, useRef } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
+import { useLocation } from "wouter";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -84,6 +85,11 @@ import {
 import { Input } from "@/components/ui/input";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient, getAccessToken } from "@/lib/queryClient";
+import type { ScreeningResultRecord } from "@shared/schema";
+import { describeScreeningFinding } from "@shared/screeningResults";
+import { IncomeVerificationPanel } from "@/components/income-verification-panel";
+import { ApplicantQueuePanel } from "@/components/applicant-queue-panel";
+import { ApprovalHoldStatus } from "@/components/approval-hold-status";
 
 interface SubmissionSummary {
   id: string;
@@ -107,6 +113,10 @@ interface SubmissionSummary {
   } | null;
   screeningStatus: 'not_sent' | 'pending' | 'complete';
   archivedAt: string | null;
+  incomeMonthlyCents: number | null;
+  incomeRequiredMonthlyCents: number | null;
+  incomeMeetsRequirement: boolean | null;
+  waitlistedAt: string | null;
 }
 
 interface SubmissionPerson {
@@ -143,6 +153,7 @@ interface SubmissionFile {
 }
 
 interface SubmissionDetail extends SubmissionSummary {
+  unitId: string;
   people: SubmissionPerson[];
   events: SubmissionEvent[];
 }
@@ -178,6 +189,15 @@ interface ScreeningOrder {
   updatedAt: string;
 }
 
+interface ScreeningResultGroup {
+  orderId: string;
+  personId: string | null;
+  personName: string | null;
+  status: ScreeningOrder["status"];
+  records: ScreeningResultRecord[];
+  suggestedCriteria: string[];
+}
+
 const denialReasonCategories = [
   { value: "credit", label: "Credit History", description: "Low credit score, derogatory marks, or credit report issues" },
   { value: "criminal", label: "Criminal Background", description: "Criminal record found in background check" },
@@ -193,6 +213,7 @@ const statusColors: Record<string, string> = {
   screening_requested: "bg-purple-100 text-purple-800 dark:bg-purple-900 dark:text-purple-100",
   in_progress: "bg-orange-100 text-orange-800 dark:bg-orange-900 dark:text-orange-100",
   complete: "bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-100",
+  waitlisted: "bg-amber-100 text-amber-800 dark:bg-amber-900 dark:text-amber-100",
 };
 
 const statusLabels: Record<string, string> = {
@@ -201,6 +222,7 @@ const statusLabels: Record<string, string> = {
   screening_requested: "Screening Requested",
   in_progress: "Screening In Progress",
   complete: "Complete",
+  waitlisted: "Waitlisted",
 };
 
 const decisionColors: Record<string, string> = {
@@ -236,6 +258,7 @@ function formatFileSize(bytes: number): string {
 
 export default function RentalSubmissions() {
   const { toast } = useToast();
+  const [, setLocation] = useLocation();
   const initialSelectedId = (() => {
     if (typeof window === "undefined") return null;
     const params = new URLSearchParams(window.location.search);
@@ -248,6 +271,8 @@ export default function RentalSubmissions() {
   const [selectedDenialReasons, setSelectedDenialReasons] = useState<string[]>([]);
   const [denialReasonDetails, setDenialReasonDetails] = useState<Record<string, string>>({});
   const [sendNoticeMyself, setSendNoticeMyself] = useState(false);
+  const [holdingDepositDollars, setHoldingDepositDollars] = useState("");
+  const [leaseSignDeadlineHours, setLeaseSignDeadlineHours] = useState("");
   const [filterTab, setFilterTab] = useState<"all" | "decided" | "pending">("all");
   const [expandedProperties, setExpandedProperties] = useState<Set<string>>(new Set());
   const [isLetterPreviewOpen, setIsLetterPreviewOpen] = useState(false);
@@ -351,10 +376,28 @@ export default function RentalSubmissions() {
     enabled: !!selectedSubmission,
   });
 
+  const hasCompletedScreening = !!screeningOrders?.some(order => order.status === 'complete');
+  const { data: screeningResults } = useQuery<ScreeningResultGroup[]>({
+    queryKey: ["/api/rental/submissions", selectedSubmission, "screening", "results"],
+    queryFn: async () => {
+      const token = getAccessToken();
+      const res = await fetch(`/api/rental/submissions/${selectedSubmission}/screening/results`, {
+        headers: token ? { Authorization: `Bearer ${token}` } : {},
+      });
+      if (!res.ok) return [];
+      return res.json();
+    },
+    enabled: !!selectedSubmission && hasCompletedScreening,
+  });
+
   const getScreeningOrderForPerson = (personId: string) => {
     return screeningOrders?.find(order => order.personId === personId);
   };
 
+  const getScreeningResultsForPerson = (personId: string) => {
+    return screeningResults?.find(group => group.personId === personId);
+  };
+
   // A screening that has been waiting too long likely had its completion
   // message missed (rare). Western Verify offers no reliable way to confirm
   // completion automatically, so we surface stale orders here and let the
@@ -486,7 +529,7 @@ export default function RentalSubmissions() {
     onError: (error: any) => {
       toast({ 
         title: "Error", 
-        description: error?.message || "Failed to request screening. Please check DigitalDelve credentials.", 
+        description: error?.message || "Failed to request screening. Please check your screening credentials.", 
         variant: "destructive" 
       });
     },
@@ -617,20 +660,44 @@ export default function RentalSubmissions() {
     },
   });
 
+  const leaseDraftMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await apiRequest("POST", `/api/rental/submissions/${id}/lease-draft`, {});
+      return res.json() as Promise<{ document: { id: string }; templateId: string }>;
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/saved-documents"] });
+      toast({ title: "Lease Draft Created", description: "Review the pre-filled lease, then download it." });
+      setLocation(`/templates/${data.templateId}/fill/${data.document.id}`);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error?.message || "Failed to create lease draft.",
+        variant: "destructive",
+      });
+    },
+  });
+
   const decisionMutation = useMutation({
-    mutationFn: async ({ id, decision, notes, denialReasons, skipNotification }: { 
+    mutationFn: async ({ id, decision, notes, denialReasons, skipNotification, holdingDepositDollars, leaseSignDeadlineHours }: { 
       id: string; 
       decision: string; 
       notes?: string;
       denialReasons?: { category: string; detail?: string }[];
       skipNotification?: boolean;
+      holdingDepositDollars?: string;
+      leaseSignDeadlineHours?: number;
     }) => {
-      return apiRequest("POST", `/api/rental/submissions/${id}/decision`, { decision, notes, denialReasons, skipNotification });
+      const res = await apiRequest("POST", `/api/rental/submissions/${id}/decision`, { decision, notes, denialReasons, skipNotification, holdingDepositDollars, leaseSignDeadlineHours });
+      return res.json();
     },
     onSuccess: (data: any, variables) => {
       queryClient.invalidateQueries({ queryKey: ["/api/rental/submissions"] });
       queryClient.invalidateQueries({ queryKey: ["/api/rental/submissions", selectedSubmission] });
       queryClient.invalidateQueries({ queryKey: ["/api/rental/submissions", selectedSubmission, "decision"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/rental/units"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/rental/submissions", selectedSubmission, "approval-hold"] });
       
       setIsDecisionDialogOpen(false);
       
@@ -647,6 +714,10 @@ export default function RentalSubmissions() {
         const isApproved = variables.decision === "approved";
         const applicantName = submissionDetail?.people.find(p => p.role === "applicant")?.firstName || "Applicant";
         const propertyName = submissionDetail?.propertyName || "the rental property";
+        const hold = data?.approvalHold as { leaseSignDeadlineAt: string; holdingDepositCents: number | null; holdingDepositLink: string | null } | null;
+        const holdLines = hold
+          ? `\n\nPlease sign the lease${hold.holdingDepositLink ? ` and pay the $${((hold.holdingDepositCents || 0) / 100).toFixed(2)} holding deposit` : ""} by ${new Date(hold.leaseSignDeadlineAt).toLocaleString(undefined, { dateStyle: "long", timeStyle: "short" })}, or this approval will expire.${hold.holdingDepositLink ? `\n\nPay the holding deposit here: ${hold.holdingDepositLink}` : ""}`
+          : "";
         
         // Generate default letter content
         const defaultSubject = isApproved 
@@ -658,7 +729,7 @@ export default function RentalSubmissions() {
 
 Great news! Your rental application for ${propertyName} has been approved.
 
-We will be in touch with you soon regarding next steps, including signing the lease and move-in details.
+We will be in touch with you soon regarding next steps, including signing the lease and move-in details.${holdLines}
 
 Congratulations on your new home!
 
@@ -852,6 +923,8 @@ Best regards`;
     setDenialReasonDetails({});
     setDecisionNotes("");
     setSendNoticeMyself(false);
+    setHoldingDepositDollars("");
+    setLeaseSignDeadlineHours("");
     setIsDecisionDialogOpen(true);
   };
 
@@ -872,6 +945,8 @@ Best regards`;
         notes: decisionNotes || undefined,
         denialReasons,
         skipNotification: true, // Always skip initially, we handle sending separately
+        holdingDepositDollars: pendingDecision === "approved" && holdingDepositDollars ? holdingDepositDollars : undefined,
+        leaseSignDeadlineHours: pendingDecision === "approved" && leaseSignDeadlineHours ? parseInt(leaseSignDeadlineHours) : undefined,
       });
     }
   };
@@ -1175,6 +1250,26 @@ Best regards`;
                       Note: {existingDecision.notes}
                     </p>
                   )}
+                  {existingDecision.decision === "approved" && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      className="mt-3"
+                      onClick={() => selectedSubmission && leaseDraftMutation.mutate(selectedSubmission)}
+                      disabled={leaseDraftMutation.isPending}
+                      data-testid="button-create-lease-draft"
+                    >
+                      {leaseDraftMutation.isPending ? (
+                        <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                      ) : (
+                        <FileText className="h-4 w-4 mr-2" />
+                      )}
+                      Create Lease Draft
+                    </Button>
+                  )}
+                  {existingDecision.decision === "approved" && selectedSubmission && (
+                    <ApprovalHoldStatus submissionId={selectedSubmission} />
+                  )}
                   {existingDecision.denialReasons && existingDecision.denialReasons.length > 0 && (
                     <div className="mt-3 p-3 bg-red-50 dark:bg-red-950 rounded-md">
                       <p className="text-sm font-medium text-red-800 dark:text-red-200 mb-2">Denial Reasons:</p>
@@ -1554,6 +1649,17 @@ Best regards`;
                                     Analyze report
                                   </Button>
                                 )}
+                                {personOrder.status === 'complete' && (
+                                  <Button
+                                    size="sm"
+                                    variant="outline"
+                                    onClick={() => setLocation(`/denial-decision?submissionId=${selectedSubmission}&personId=${person.id}`)}
+                                    data-testid={`button-decision-assistant-${person.id}`}
+                                  >
+                                    <ShieldCheck className="h-4 w-4 mr-1" />
+                                    Decision Assistant
+                                  </Button>
+                                )}
                                 {personOrder.status === 'complete' && (
                                   <Button
                                     size="sm"
@@ -1581,6 +1687,20 @@ Best regards`;
                             }
                             return null;
                           })()}
+                          {(() => {
+                            const results = getScreeningResultsForPerson(person.id);
+                            if (!results || results.status !== 'complete' || results.records.length === 0) return null;
+                            return (
+                              <div className="w-full mt-2 rounded-md border p-2" data-testid={`list-screening-findings-${person.id}`}>
+                                <p className="text-xs font-medium text-muted-foreground mb-1">Report findings</p>
+                                <ul className="space-y-0.5">
+                                  {results.records.map((record) => (
+                                    <li key={record.id} className="text-sm">{describeScreeningFinding(record)}</li>
+                                  ))}
+                                </ul>
+                              </div>
+                            );
+                          })()}
                           {(() => {
                             const personOrder = getScreeningOrderForPerson(person.id);
                             const stale = getScreeningStaleInfo(personOrder);
@@ -1876,6 +1996,10 @@ Best regards`;
             </CardContent>
           </Card>
 
+          <ApplicantQueuePanel unitId={submissionDetail.unitId} submissionId={submissionDetail.id} />
+
+          <IncomeVerificationPanel submissionId={submissionDetail.id} />
+
           <Card data-testid="card-documents">
             <CardHeader className="flex flex-row items-center justify-between gap-2">
               <CardTitle className="text-lg flex items-center gap-2">
@@ -2158,6 +2282,39 @@ Best regards`;
                   </div>
                 </div>
               )}
+              {pendingDecision === "approved" && (
+                <div className="grid gap-3 sm:grid-cols-2 pt-4 border-t">
+                  <div className="space-y-1">
+                    <Label htmlFor="lease-sign-deadline-hours" className="text-sm font-medium">Lease signing deadline (hours)</Label>
+                    <Input
+                      id="lease-sign-deadline-hours"
+                      type="number"
+                      min={1}
+                      max={720}
+                      placeholder="Property default"
+                      value={leaseSignDeadlineHours}
+                      onChange={(e) => setLeaseSignDeadlineHours(e.target.value)}
+                      data-testid="input-lease-sign-deadline-hours"
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="holding-deposit" className="text-sm font-medium">Holding deposit (optional)</Label>
+                    <Input
+                      id="holding-deposit"
+                      type="number"
+                      min={1}
+                      step="0.01"
+                      placeholder="0.00"
+                      value={holdingDepositDollars}
+                      onChange={(e) => setHoldingDepositDollars(e.target.value)}
+                      data-testid="input-holding-deposit"
+                    />
+                  </div>
+                  <p className="text-xs text-muted-foreground sm:col-span-2">
+                    With a deadline, the approval expires if the lease isn't signed and the deposit paid in time, and the unit's application links reopen. Leave the deadline blank to use the property's lease signing deadline, if it has one.
+                  </p>
+                </div>
+              )}
               {pendingDecision === "denied" && (
                 <div>
                   <div className="bg-amber-50 dark:bg-amber-950 border border-amber-200 dark:border-amber-800 rounded-md p-3 mb-4">
@@ -2895,6 +3052,16 @@ Best regards`;
                                     Pending Review
                                   </Badge>
                                 )}
+                                {sub.incomeMeetsRequirement === false && (
+                                  <Badge className="bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-100" data-testid={`badge-income-${sub.id}`}>
+                                    Income Short
+                                  </Badge>
+                                )}
+                                {sub.incomeMeetsRequirement === true && (
+                                  <Badge className="bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-100" data-testid={`badge-income-${sub.id}`}>
+                                    Income OK
+                                  </Badge>
+                                )}
                               </div>
                             </TableCell>
                             <TableCell>
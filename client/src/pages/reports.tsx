@@ -0,0 +1,239 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { getAccessToken } from "@/lib/queryClient";
+import { SEO } from "@/components/seo";
+import type { RentalProperty } from "@shared/schema";
+import { OWNER_REPORTS, type OwnerReport, type OwnerReportCell, type OwnerReportKind } from "@shared/ownerReports";
+import { BarChart3, Download, Loader2 } from "lucide-react";
+
+const today = () => new Date().toISOString().split("T")[0];
+
+function formatCell(report: OwnerReport, key: string, value: OwnerReportCell | undefined): string {
+  if (value == null) return "";
+  const column = report.columns.find((c) => c.key === key);
+  if (!column?.money || typeof value !== "number") return String(value);
+  const abs = (Math.abs(value) / 100).toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+  return value < 0 ? `($${abs})` : `$${abs}`;
+}
+
+export default function Reports() {
+  const { toast } = useToast();
+  const [kind, setKind] = useState<OwnerReportKind>("rent-roll");
+  const [asOf, setAsOf] = useState(today());
+  const [year, setYear] = useState(String(new Date().getFullYear()));
+  const [propertyId, setPropertyId] = useState("all");
+  const [downloading, setDownloading] = useState<"csv" | "pdf" | null>(null);
+
+  const { data: properties = [] } = useQuery<RentalProperty[]>({
+    queryKey: ["/api/rental/properties"],
+  });
+
+  const params = new URLSearchParams(kind === "income-expense" ? { year } : { asOf });
+  if (propertyId !== "all") params.set("propertyId", propertyId);
+  const { data: report, isLoading, error } = useQuery<OwnerReport>({
+    queryKey: [`/api/owner-reports/${kind}?${params}`],
+    enabled: kind === "income-expense" ? /^\d{4}$/.test(year) : !!asOf,
+  });
+
+  const download = async (format: "csv" | "pdf") => {
+    setDownloading(format);
+    try {
+      const token = getAccessToken();
+      const response = await fetch(`/api/owner-reports/${kind}?${params}&format=${format}`, {
+        credentials: 'include',
+        headers: token ? { 'Authorization': `Bearer ${token}` } : {}
+      });
+      if (!response.ok) {
+        toast({ title: "Download Failed", description: "Failed to export the report.", variant: "destructive" });
+        return;
+      }
+      const url = window.URL.createObjectURL(await response.blob());
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `${kind}-${kind === "income-expense" ? year : asOf}.${format}`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      window.URL.revokeObjectURL(url);
+    } finally {
+      setDownloading(null);
+    }
+  };
+
+  const current = OWNER_REPORTS.find((r) => r.value === kind)!;
+
+  return (
+    <div className="flex-1 overflow-auto">
+      <SEO
+        title="Owner Reports - rent roll, delinquency aging and income by property"
+        description="Rent roll by unit, delinquency aging and monthly income and expenses by property, exportable as CSV and PDF."
+        canonical="/reports"
+      />
+
+      {/* Hero Header */}
+      <div className="bg-gradient-to-br from-primary/10 via-primary/5 to-background border-b">
+        <div className="container max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          <div className="flex items-start gap-4">
+            <div className="p-3 bg-primary/10 rounded-md">
+              <BarChart3 className="h-8 w-8 text-primary" />
+            </div>
+            <div>
+              <h1 className="text-3xl sm:text-4xl font-display font-semibold text-foreground mb-1" data-testid="text-page-title">
+                Owner Reports
+              </h1>
+              <p className="text-sm sm:text-base text-muted-foreground">
+                Rent roll, delinquency aging and income by property - built from your rent ledger, online payments and auto-pay.
+              </p>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="container max-w-6xl mx-auto py-6 px-4 sm:px-6 lg:px-8 space-y-6">
+        <Tabs value={kind} onValueChange={(v) => setKind(v as OwnerReportKind)}>
+          <TabsList>
+            {OWNER_REPORTS.map((r) => (
+              <TabsTrigger key={r.value} value={r.value} data-testid={`tab-report-${r.value}`}>
+                {r.label}
+              </TabsTrigger>
+            ))}
+          </TabsList>
+        </Tabs>
+
+        <Card>
+          <CardHeader>
+            <div className="flex flex-col md:flex-row md:items-end md:justify-between gap-4">
+              <div>
+                <CardTitle>{current.label}</CardTitle>
+                <CardDescription>{current.description}</CardDescription>
+              </div>
+              <div className="flex flex-wrap items-end gap-3">
+                <div>
+                  <Label htmlFor="report-property">Property</Label>
+                  <Select value={propertyId} onValueChange={setPropertyId}>
+                    <SelectTrigger id="report-property" className="w-[200px]" data-testid="select-report-property">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">All properties</SelectItem>
+                      {properties.map((p) => (
+                        <SelectItem key={p.id} value={p.id}>{p.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                {kind === "income-expense" ? (
+                  <div>
+                    <Label htmlFor="report-year">Tax Year</Label>
+                    <Input
+                      id="report-year"
+                      inputMode="numeric"
+                      className="w-[110px]"
+                      value={year}
+                      onChange={(e) => setYear(e.target.value.replace(/\D/g, "").slice(0, 4))}
+                      data-testid="input-report-year"
+                    />
+                  </div>
+                ) : (
+                  <div>
+                    <Label htmlFor="report-as-of">As Of</Label>
+                    <Input
+                      id="report-as-of"
+                      type="date"
+                      value={asOf}
+                      onChange={(e) => setAsOf(e.target.value)}
+                      data-testid="input-report-as-of"
+                    />
+                  </div>
+                )}
+                <Button
+                  variant="outline"
+                  className="gap-2"
+                  onClick={() => download("csv")}
+                  disabled={!report || !!downloading}
+                  data-testid="button-report-csv"
+                >
+                  <Download className="h-4 w-4" />
+                  CSV
+                </Button>
+                <Button
+                  className="gap-2"
+                  onClick={() => download("pdf")}
+                  disabled={!report || !!downloading}
+                  data-testid="button-report-pdf"
+                >
+                  <Download className="h-4 w-4" />
+                  PDF
+                </Button>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+            ) : error || !report ? (
+              <p className="text-sm text-destructive" data-testid="text-report-error">
+                {(error as Error | null)?.message || "Enter a report date to run this report."}
+              </p>
+            ) : (
+              <div className="space-y-4">
+                <p className="text-sm text-muted-foreground" data-testid="text-report-period">{report.period}</p>
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        {report.columns.map((c) => (
+                          <TableHead key={c.key} className={c.money ? "text-right" : undefined}>{c.title}</TableHead>
+                        ))}
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {report.rows.length === 0 && (
+                        <TableRow>
+                          <TableCell colSpan={report.columns.length} className="text-center text-muted-foreground">
+                            Nothing to report for this period.
+                          </TableCell>
+                        </TableRow>
+                      )}
+                      {report.rows.map((row, index) => (
+                        <TableRow key={index} className={row.subtotal ? "font-semibold bg-muted/40" : undefined} data-testid={`row-report-${index}`}>
+                          {report.columns.map((c) => (
+                            <TableCell key={c.key} className={c.money ? "text-right tabular-nums" : undefined}>
+                              {formatCell(report, c.key, row.cells[c.key])}
+                            </TableCell>
+                          ))}
+                        </TableRow>
+                      ))}
+                      {report.totals && (
+                        <TableRow className="font-bold border-t-2" data-testid="row-report-totals">
+                          {report.columns.map((c) => (
+                            <TableCell key={c.key} className={c.money ? "text-right tabular-nums" : undefined}>
+                              {formatCell(report, c.key, report.totals![c.key])}
+                            </TableCell>
+                          ))}
+                        </TableRow>
+                      )}
+                    </TableBody>
+                  </Table>
+                </div>
+                <ul className="text-xs text-muted-foreground space-y-1 list-disc list-inside">
+                  {report.notes.map((note, index) => (
+                    <li key={index}>{note}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -38,10 +38,13 @@ import {
   EyeOff,
 } from "lucide-react";
 import { Link } from "wouter";
+import { TeamSettings } from "@/components/team-settings";
 
 export default function Settings() {
   const { toast } = useToast();
-  const { isAuthenticated, isLoading, user } = useAuth();
+  const { isAuthenticated, isLoading, user, canAccess } = useAuth();
+  // Team members share the owner's account settings but can't change them
+  const canEditAccount = canAccess("account", "write");
   const { states } = useStates();
   
   const sortedStates = useMemo(() => 
@@ -62,6 +65,7 @@ export default function Settings() {
   const [screeningUsername, setScreeningUsername] = useState("");
   const [screeningPassword, setScreeningPassword] = useState("");
   const [showPassword, setShowPassword] = useState(false);
+  const [screeningProvider, setScreeningProvider] = useState("digitaldelve");
 
   // Scroll to a section when navigated to via a hash (e.g. /settings#tenant-screening)
   useEffect(() => {
@@ -177,14 +181,26 @@ export default function Settings() {
     hasDefaultInvitation?: boolean;
     integrationReady?: boolean;
     pendingAdminSetup?: boolean;
+    provider?: string;
+    providerName?: string;
   }>({
     queryKey: ["/api/screening-credentials"],
-    enabled: isAuthenticated,
+    enabled: isAuthenticated && canAccess("applications"),
   });
 
+  // Providers the landlord can connect - just Western Verify in production
+  const { data: screeningProviders = [] } = useQuery<Array<{ id: string; name: string; requiresPackageSetup: boolean }>>({
+    queryKey: ["/api/screening-providers"],
+    enabled: isAuthenticated && canAccess("applications", "write"),
+  });
+
+  useEffect(() => {
+    if (credentialsStatus?.provider) setScreeningProvider(credentialsStatus.provider);
+  }, [credentialsStatus?.provider]);
+
   // Test credentials mutation
   const testCredentialsMutation = useMutation({
-    mutationFn: async (data: { username: string; password: string }) => {
+    mutationFn: async (data: { provider: string; username: string; password: string }) => {
       const res = await apiRequest("POST", "/api/screening-credentials/test", data);
       return res.json();
     },
@@ -213,7 +229,7 @@ export default function Settings() {
 
   // Save credentials mutation
   const saveCredentialsMutation = useMutation({
-    mutationFn: async (data: { username: string; password: string }) => {
+    mutationFn: async (data: { provider: string; username: string; password: string }) => {
       const res = await apiRequest("POST", "/api/screening-credentials", data);
       return res.json();
     },
@@ -274,7 +290,7 @@ export default function Settings() {
       });
       return;
     }
-    testCredentialsMutation.mutate({ username: screeningUsername, password: screeningPassword });
+    testCredentialsMutation.mutate({ provider: screeningProvider, username: screeningUsername, password: screeningPassword });
   };
 
   const handleSaveCredentials = () => {
@@ -287,6 +303,7 @@ export default function Settings() {
       return;
     }
     saveCredentialsMutation.mutate({
+      provider: screeningProvider,
       username: screeningUsername,
       password: screeningPassword,
     });
@@ -435,7 +452,7 @@ export default function Settings() {
               <div className="flex justify-end">
                 <Button
                   onClick={handleSaveProfile}
-                  disabled={updateSettingsMutation.isPending}
+                  disabled={updateSettingsMutation.isPending || !canEditAccount}
                   data-testid="button-save-profile"
                 >
                   {updateSettingsMutation.isPending ? (
@@ -490,7 +507,7 @@ export default function Settings() {
               <div className="flex justify-end">
                 <Button
                   onClick={handleSavePreferences}
-                  disabled={updateSettingsMutation.isPending}
+                  disabled={updateSettingsMutation.isPending || !canEditAccount}
                   data-testid="button-save-preferences"
                 >
                   {updateSettingsMutation.isPending ? (
@@ -596,7 +613,7 @@ export default function Settings() {
               <div className="flex justify-end">
                 <Button
                   onClick={handleSaveNotifications}
-                  disabled={updateSettingsMutation.isPending}
+                  disabled={updateSettingsMutation.isPending || !canEditAccount}
                   data-testid="button-save-notifications"
                 >
                   {updateSettingsMutation.isPending ? (
@@ -615,7 +632,10 @@ export default function Settings() {
             </CardContent>
           </Card>
 
+          <TeamSettings />
+
           {/* Tenant Screening Credentials */}
+          {canAccess("applications", "write") && (
           <Card id="tenant-screening" className="scroll-mt-6">
             <CardHeader>
               <div className="flex items-center gap-2">
@@ -681,7 +701,7 @@ export default function Settings() {
                             <p className="font-medium">
                               {credentialsStatus.integrationReady ? 'Screening Integration Ready' :
                                credentialsStatus.pendingAdminSetup ? 'Activating Your Account' :
-                               'Western Verify Connected'}
+                               `${credentialsStatus.providerName || 'Western Verify'} Connected`}
                             </p>
                             <p className="text-sm text-muted-foreground">
                               {credentialsStatus.integrationReady ? (
@@ -731,6 +751,26 @@ export default function Settings() {
                   </p>
                   
                   <div className="space-y-3">
+                    {screeningProviders.length > 1 && (
+                      <div>
+                        <Label htmlFor="screening-provider">Screening provider</Label>
+                        <Select value={screeningProvider} onValueChange={setScreeningProvider}>
+                          <SelectTrigger id="screening-provider" data-testid="select-screening-provider">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {screeningProviders.map((p) => (
+                              <SelectItem key={p.id} value={p.id}>{p.name}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        {screeningProvider === "mock" && (
+                          <p className="text-xs text-muted-foreground mt-1">
+                            Simulates ordering and webhooks locally - any username and password works and no real reports are run.
+                          </p>
+                        )}
+                      </div>
+                    )}
                     <div>
                       <Label htmlFor="screening-username">Username</Label>
                       <Input
@@ -835,8 +875,10 @@ export default function Settings() {
               </div>
             </CardContent>
           </Card>
+          )}
 
           {/* Subscription */}
+          {canAccess("billing") && (
           <Card>
             <CardHeader>
               <div className="flex items-center gap-2">
@@ -873,6 +915,7 @@ export default function Settings() {
               </p>
             </CardContent>
           </Card>
+          )}
         </div>
       </div>
     </div>
@@ -0,0 +1,372 @@
+import { useEffect, useRef, useState } from "react";
+import { useParams } from "wouter";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Separator } from "@/components/ui/separator";
+import {
+  AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent,
+  AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Loader2, CheckCircle2, FileSignature, FileText, Download, Eraser } from "lucide-react";
+import { SEO } from "@/components/seo";
+
+interface SigningSessionView {
+  documentName: string;
+  senderName: string;
+  message: string | null;
+  requestStatus: "pending" | "completed" | "canceled" | "declined";
+  signer: {
+    name: string;
+    email: string;
+    role: string;
+    status: "pending" | "viewed" | "signed" | "declined";
+    signedAt: string | null;
+  };
+  parties: { name: string; role: string; status: string }[];
+  unsignedSha256: string;
+  consentText: string;
+}
+
+// Minimal pointer-event signature pad. Exports a PNG data URL; the server
+// rejects anything that isn't a PNG.
+function SignaturePad({ onChange }: { onChange: (dataUrl: string | null) => void }) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const drawing = useRef(false);
+  const hasInk = useRef(false);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const ctx = canvas.getContext("2d");
+    if (!ctx) return;
+    ctx.lineWidth = 2.5;
+    ctx.lineCap = "round";
+    ctx.lineJoin = "round";
+    ctx.strokeStyle = "#111827";
+  }, []);
+
+  const point = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = canvasRef.current!;
+    const rect = canvas.getBoundingClientRect();
+    return {
+      x: ((e.clientX - rect.left) * canvas.width) / rect.width,
+      y: ((e.clientY - rect.top) * canvas.height) / rect.height,
+    };
+  };
+
+  const start = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const ctx = canvasRef.current?.getContext("2d");
+    if (!ctx) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    drawing.current = true;
+    const { x, y } = point(e);
+    ctx.beginPath();
+    ctx.moveTo(x, y);
+  };
+
+  const move = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!drawing.current) return;
+    const ctx = canvasRef.current?.getContext("2d");
+    if (!ctx) return;
+    const { x, y } = point(e);
+    ctx.lineTo(x, y);
+    ctx.stroke();
+    hasInk.current = true;
+  };
+
+  const end = () => {
+    if (!drawing.current) return;
+    drawing.current = false;
+    onChange(hasInk.current ? canvasRef.current!.toDataURL("image/png") : null);
+  };
+
+  const clear = () => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext("2d");
+    if (!canvas || !ctx) return;
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    hasInk.current = false;
+    onChange(null);
+  };
+
+  return (
+    <div className="space-y-2">
+      <canvas
+        ref={canvasRef}
+        width={600}
+        height={180}
+        className="w-full h-36 rounded-md border bg-white touch-none cursor-crosshair"
+        onPointerDown={start}
+        onPointerMove={move}
+        onPointerUp={end}
+        onPointerLeave={end}
+        data-testid="canvas-signature"
+      />
+      <Button type="button" variant="ghost" size="sm" onClick={clear} data-testid="button-clear-signature">
+        <Eraser className="h-4 w-4 mr-2" />
+        Clear
+      </Button>
+    </div>
+  );
+}
+
+export default function SignDocument() {
+  const { token } = useParams<{ token: string }>();
+  const { toast } = useToast();
+  const [signatureType, setSignatureType] = useState<"typed" | "drawn">("typed");
+  const [typedName, setTypedName] = useState("");
+  const [signatureImage, setSignatureImage] = useState<string | null>(null);
+  const [consent, setConsent] = useState(false);
+  const [declineReason, setDeclineReason] = useState("");
+
+  const { data, isLoading, error } = useQuery<SigningSessionView>({
+    queryKey: ["/api/sign", token],
+  });
+
+  useEffect(() => {
+    if (data?.signer.name && !typedName) setTypedName(data.signer.name);
+  }, [data?.signer.name]);
+
+  const signMutation = useMutation({
+    mutationFn: async () => {
+      const r = await apiRequest("POST", `/api/sign/${token}`, {
+        signatureType,
+        typedName: signatureType === "typed" ? typedName : undefined,
+        signatureImage: signatureType === "drawn" ? signatureImage : undefined,
+        consent,
+      });
+      return r.json();
+    },
+    onSuccess: (resp: { requestStatus: string }) => {
+      toast({
+        title: "Signed",
+        description: resp.requestStatus === "completed"
+          ? "All parties have signed. You can download the signed copy below."
+          : "Your signature was recorded. We'll email you a copy once everyone has signed.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/sign", token] });
+    },
+    onError: (err: any) => {
+      toast({ title: "Could not sign", description: err.message, variant: "destructive" });
+    },
+  });
+
+  const declineMutation = useMutation({
+    mutationFn: async () => {
+      const r = await apiRequest("POST", `/api/sign/${token}/decline`, { reason: declineReason });
+      return r.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Declined", description: "The sender has been notified that you declined to sign." });
+      queryClient.invalidateQueries({ queryKey: ["/api/sign", token] });
+    },
+    onError: (err: any) => {
+      toast({ title: "Could not decline", description: err.message, variant: "destructive" });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="container max-w-2xl mx-auto py-16 px-4 text-center">
+        <Loader2 className="h-8 w-8 animate-spin mx-auto text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (error || !data) {
+    return (
+      <div className="container max-w-2xl mx-auto py-16 px-4">
+        <Card>
+          <CardHeader>
+            <CardTitle>Signing link not found</CardTitle>
+            <CardDescription>This signing link is invalid or has been removed. Please contact the sender.</CardDescription>
+          </CardHeader>
+        </Card>
+      </div>
+    );
+  }
+
+  const isOpen = data.requestStatus === "pending" && (data.signer.status === "pending" || data.signer.status === "viewed");
+  const hasSigned = data.signer.status === "signed";
+  const isCompleted = data.requestStatus === "completed";
+  const canSubmit = consent && (signatureType === "typed" ? typedName.trim().length > 0 : !!signatureImage);
+
+  return (
+    <div className="container max-w-2xl mx-auto py-10 px-4">
+      <SEO
+        title="Sign Document | LeaseShield"
+        description="Review and electronically sign a document sent to you through LeaseShield."
+      />
+
+      <Card data-testid="card-sign-document">
+        <CardHeader>
+          <div className="flex items-start justify-between gap-3">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <FileSignature className="h-5 w-5 text-primary" />
+                <span data-testid="text-document-name">{data.documentName}</span>
+              </CardTitle>
+              <CardDescription className="mt-1">
+                Sent by <span className="font-medium" data-testid="text-sender-name">{data.senderName}</span> to {data.signer.name}
+              </CardDescription>
+            </div>
+            {isCompleted && <Badge variant="default" data-testid="badge-status">Completed</Badge>}
+            {!isCompleted && hasSigned && <Badge variant="secondary" data-testid="badge-status">Signed</Badge>}
+            {isOpen && <Badge variant="outline" data-testid="badge-status">Awaiting your signature</Badge>}
+            {(data.requestStatus === "canceled" || data.requestStatus === "declined") && (
+              <Badge variant="destructive" data-testid="badge-status">{data.requestStatus}</Badge>
+            )}
+          </div>
+        </CardHeader>
+
+        <CardContent className="space-y-6">
+          {data.message && (
+            <div className="rounded-md border bg-muted/30 p-4 text-sm whitespace-pre-line" data-testid="text-message">
+              {data.message}
+            </div>
+          )}
+
+          {data.requestStatus !== "canceled" && (
+            <Button asChild variant="outline" className="w-full" data-testid="button-view-pdf">
+              <a href={`/api/sign/${token}/pdf`} target="_blank" rel="noopener noreferrer">
+                {isCompleted ? <Download className="h-4 w-4 mr-2" /> : <FileText className="h-4 w-4 mr-2" />}
+                {isCompleted ? "Download Signed Copy" : "Read the Full Document (PDF)"}
+              </a>
+            </Button>
+          )}
+
+          <div className="space-y-1 text-sm" data-testid="list-parties">
+            <div className="text-muted-foreground">Signers</div>
+            {data.parties.map((p, i) => (
+              <div key={i} className="flex items-center justify-between">
+                <span>{p.name} <span className="text-muted-foreground">({p.role})</span></span>
+                <Badge variant={p.status === "signed" ? "default" : "outline"}>{p.status}</Badge>
+              </div>
+            ))}
+          </div>
+
+          <Separator />
+
+          {isOpen && (
+            <div className="space-y-4">
+              <Tabs value={signatureType} onValueChange={(v) => setSignatureType(v as "typed" | "drawn")}>
+                <TabsList className="grid w-full grid-cols-2">
+                  <TabsTrigger value="typed" data-testid="tab-typed">Type</TabsTrigger>
+                  <TabsTrigger value="drawn" data-testid="tab-drawn">Draw</TabsTrigger>
+                </TabsList>
+                <TabsContent value="typed" className="space-y-2">
+                  <Label htmlFor="typed-name">Full legal name</Label>
+                  <Input
+                    id="typed-name"
+                    value={typedName}
+                    onChange={(e) => setTypedName(e.target.value)}
+                    data-testid="input-typed-name"
+                  />
+                  {typedName.trim() && (
+                    <div className="rounded-md border bg-white px-4 py-3 text-2xl italic font-serif text-gray-900">
+                      {typedName}
+                    </div>
+                  )}
+                </TabsContent>
+                <TabsContent value="drawn">
+                  <SignaturePad onChange={setSignatureImage} />
+                </TabsContent>
+              </Tabs>
+
+              <label className="flex items-start gap-2 text-sm cursor-pointer" data-testid="label-consent">
+                <input
+                  type="checkbox"
+                  checked={consent}
+                  onChange={(e) => setConsent(e.target.checked)}
+                  className="mt-1"
+                  data-testid="checkbox-consent"
+                />
+                <span>{data.consentText}</span>
+              </label>
+
+              <Button
+                size="lg"
+                className="w-full"
+                disabled={!canSubmit || signMutation.isPending}
+                onClick={() => signMutation.mutate()}
+                data-testid="button-sign"
+              >
+                {signMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Sign Document
+              </Button>
+
+              <AlertDialog>
+                <AlertDialogTrigger asChild>
+                  <Button variant="ghost" className="w-full" data-testid="button-decline-trigger">
+                    Decline to sign
+                  </Button>
+                </AlertDialogTrigger>
+                <AlertDialogContent>
+                  <AlertDialogHeader>
+                    <AlertDialogTitle>Decline to sign?</AlertDialogTitle>
+                    <AlertDialogDescription>
+                      This cancels the signing request for everyone. The sender will need to send a new one.
+                    </AlertDialogDescription>
+                  </AlertDialogHeader>
+                  <Textarea
+                    placeholder="Reason (optional)"
+                    value={declineReason}
+                    onChange={(e) => setDeclineReason(e.target.value)}
+                    data-testid="input-decline-reason"
+                  />
+                  <AlertDialogFooter>
+                    <AlertDialogCancel>Go Back</AlertDialogCancel>
+                    <AlertDialogAction
+                      onClick={() => declineMutation.mutate()}
+                      disabled={declineMutation.isPending}
+                      data-testid="button-decline-confirm"
+                    >
+                      Decline
+                    </AlertDialogAction>
+                  </AlertDialogFooter>
+                </AlertDialogContent>
+              </AlertDialog>
+            </div>
+          )}
+
+          {hasSigned && (
+            <Alert>
+              <CheckCircle2 className="h-5 w-5 text-primary" />
+              <AlertTitle>{isCompleted ? "All parties have signed" : "You've signed"}</AlertTitle>
+              <AlertDescription>
+                {data.signer.signedAt && <>Signed {new Date(data.signer.signedAt).toLocaleString()}. </>}
+                {isCompleted
+                  ? "The signed copy includes a certificate of completion."
+                  : "We'll email you the signed copy once everyone has signed."}
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {!hasSigned && (data.requestStatus === "canceled" || data.requestStatus === "declined") && (
+            <Alert variant="destructive">
+              <AlertTitle>This signing request is closed</AlertTitle>
+              <AlertDescription>
+                {data.requestStatus === "declined"
+                  ? "A signer declined this document. Contact the sender if you have questions."
+                  : "The sender canceled this request. Contact them if you still need to sign."}
+              </AlertDescription>
+            </Alert>
+          )}
+        </CardContent>
+      </Card>
+
+      <p className="text-xs text-muted-foreground text-center mt-6">
+        Powered by LeaseShield · Document fingerprint (SHA-256): <span className="font-mono break-all">{data.unsignedSha256.slice(0, 16)}…</span>
+      </p>
+    </div>
+  );
+}
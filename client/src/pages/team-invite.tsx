@@ -0,0 +1,163 @@
+import { useState } from "react";
+import { useLocation, useParams } from "wouter";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2 } from "lucide-react";
+import logoHorizontal from "@/assets/logo-horizontal.png";
+import { SEO } from "@/components/seo";
+
+interface TeamInviteView {
+  email: string;
+  organizationName: string;
+  role: string;
+  roleLabel: string;
+  hasAccount: boolean;
+}
+
+// Public page: an invited team member follows their emailed link and creates
+// (or links) the login they'll use to work on the team's account.
+export default function TeamInvite() {
+  const { token } = useParams<{ token: string }>();
+  const { toast } = useToast();
+  const [, setLocation] = useLocation();
+  const [firstName, setFirstName] = useState("");
+  const [lastName, setLastName] = useState("");
+  const [password, setPassword] = useState("");
+  const [confirm, setConfirm] = useState("");
+
+  const { data, isLoading, error } = useQuery<TeamInviteView>({
+    queryKey: ["/api/auth/team-invite", token],
+    retry: false,
+  });
+
+  const acceptMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/auth/team-invite/${token}/accept`, { password, firstName, lastName });
+      return response.json();
+    },
+    onSuccess: async (result) => {
+      if (result.accessToken) {
+        localStorage.setItem("accessToken", result.accessToken);
+      }
+      await queryClient.invalidateQueries({ queryKey: ["/api/auth/user"] });
+      await queryClient.refetchQueries({ queryKey: ["/api/auth/user"] });
+      setLocation("/dashboard");
+    },
+    onError: (e: Error) => {
+      toast({ title: "Could not accept invite", description: e.message, variant: "destructive" });
+    },
+  });
+
+  const needsConfirm = !data?.hasAccount;
+  const canSubmit = password.length >= 8 && (!needsConfirm || password === confirm);
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background p-4">
+      <SEO title="Team Invite" description="Join your team on LeaseShield." noIndex />
+      <Card className="w-full max-w-md">
+        <CardHeader className="text-center space-y-4">
+          <div className="flex justify-center">
+            <img src={logoHorizontal} alt="LeaseShield" className="h-12" />
+          </div>
+          <div>
+            <CardTitle className="text-2xl font-semibold" data-testid="text-team-invite-title">
+              Join Your Team
+            </CardTitle>
+            {data && (
+              <CardDescription>
+                You've been invited to {data.organizationName} as a {data.roleLabel.toLowerCase()}.
+              </CardDescription>
+            )}
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex justify-center py-8"><Loader2 className="h-6 w-6 animate-spin text-muted-foreground" /></div>
+          ) : error || !data ? (
+            <Alert variant="destructive">
+              <AlertDescription>This invite link is invalid or has already been used. Ask the team owner to send a new one.</AlertDescription>
+            </Alert>
+          ) : (
+            <form
+              className="space-y-4"
+              onSubmit={(e) => {
+                e.preventDefault();
+                if (canSubmit) acceptMutation.mutate();
+              }}
+            >
+              <div className="space-y-2">
+                <Label>Email</Label>
+                <Input value={data.email} disabled data-testid="input-team-invite-email" />
+              </div>
+              {needsConfirm && (
+                <div className="grid grid-cols-2 gap-3">
+                  <div className="space-y-2">
+                    <Label htmlFor="team-invite-first-name">First name</Label>
+                    <Input
+                      id="team-invite-first-name"
+                      value={firstName}
+                      onChange={(e) => setFirstName(e.target.value)}
+                      data-testid="input-team-invite-first-name"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="team-invite-last-name">Last name</Label>
+                    <Input
+                      id="team-invite-last-name"
+                      value={lastName}
+                      onChange={(e) => setLastName(e.target.value)}
+                      data-testid="input-team-invite-last-name"
+                    />
+                  </div>
+                </div>
+              )}
+              <div className="space-y-2">
+                <Label htmlFor="team-invite-password">
+                  {data.hasAccount ? "Your existing LeaseShield password" : "Choose a password"}
+                </Label>
+                <Input
+                  id="team-invite-password"
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  placeholder="At least 8 characters"
+                  data-testid="input-team-invite-password"
+                />
+              </div>
+              {needsConfirm && (
+                <div className="space-y-2">
+                  <Label htmlFor="team-invite-confirm">Confirm password</Label>
+                  <Input
+                    id="team-invite-confirm"
+                    type="password"
+                    value={confirm}
+                    onChange={(e) => setConfirm(e.target.value)}
+                    data-testid="input-team-invite-confirm"
+                  />
+                  {confirm && password !== confirm && (
+                    <p className="text-sm text-destructive">Passwords don't match</p>
+                  )}
+                </div>
+              )}
+              {data.hasAccount && (
+                <p className="text-sm text-muted-foreground">
+                  While you're on this team, your login works on the team's properties and records instead of your own.
+                </p>
+              )}
+              <Button type="submit" className="w-full" disabled={!canSubmit || acceptMutation.isPending} data-testid="button-team-invite-accept">
+                {acceptMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                {data.hasAccount ? "Join With My Login" : "Create Login"}
+              </Button>
+            </form>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
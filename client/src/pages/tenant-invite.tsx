@@ -0,0 +1,136 @@
+import { useState } from "react";
+import { useLocation, useParams } from "wouter";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2 } from "lucide-react";
+import logoHorizontal from "@/assets/logo-horizontal.png";
+import { SEO } from "@/components/seo";
+
+interface TenantInviteView {
+  fullName: string;
+  email: string | null;
+  propertyName: string | null;
+  propertyAddress: string | null;
+  landlordName: string;
+  hasAccount: boolean;
+}
+
+// Public page: an occupant follows their emailed invite link and creates (or
+// links) the tenant login that the portal uses.
+export default function TenantInvite() {
+  const { token } = useParams<{ token: string }>();
+  const { toast } = useToast();
+  const [, setLocation] = useLocation();
+  const [password, setPassword] = useState("");
+  const [confirm, setConfirm] = useState("");
+
+  const { data, isLoading, error } = useQuery<TenantInviteView>({
+    queryKey: ["/api/auth/tenant-invite", token],
+    retry: false,
+  });
+
+  const acceptMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/auth/tenant-invite/${token}/accept`, { password });
+      return response.json();
+    },
+    onSuccess: async (result) => {
+      if (result.accessToken) {
+        localStorage.setItem("accessToken", result.accessToken);
+      }
+      await queryClient.invalidateQueries({ queryKey: ["/api/auth/user"] });
+      await queryClient.refetchQueries({ queryKey: ["/api/auth/user"] });
+      setLocation("/portal");
+    },
+    onError: (e: Error) => {
+      toast({ title: "Could not accept invite", description: e.message, variant: "destructive" });
+    },
+  });
+
+  const needsConfirm = !data?.hasAccount;
+  const canSubmit = password.length >= 8 && (!needsConfirm || password === confirm);
+  const premises = data?.propertyAddress || data?.propertyName;
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background p-4">
+      <SEO title="Tenant Portal Invite" description="Create your LeaseShield tenant portal login." noIndex />
+      <Card className="w-full max-w-md">
+        <CardHeader className="text-center space-y-4">
+          <div className="flex justify-center">
+            <img src={logoHorizontal} alt="LeaseShield" className="h-12" />
+          </div>
+          <div>
+            <CardTitle className="text-2xl font-semibold" data-testid="text-tenant-invite-title">
+              Your Tenant Portal
+            </CardTitle>
+            {data && (
+              <CardDescription>
+                {data.landlordName} invited you to view your lease{premises ? ` at ${premises}` : ""}, pay rent and submit maintenance requests.
+              </CardDescription>
+            )}
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex justify-center py-8"><Loader2 className="h-6 w-6 animate-spin text-muted-foreground" /></div>
+          ) : error || !data ? (
+            <Alert variant="destructive">
+              <AlertDescription>This invite link is invalid or has already been used. Ask your landlord to send a new one.</AlertDescription>
+            </Alert>
+          ) : (
+            <form
+              className="space-y-4"
+              onSubmit={(e) => {
+                e.preventDefault();
+                if (canSubmit) acceptMutation.mutate();
+              }}
+            >
+              <div className="space-y-2">
+                <Label>Email</Label>
+                <Input value={data.email || ""} disabled data-testid="input-tenant-invite-email" />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="tenant-invite-password">
+                  {data.hasAccount ? "Your existing tenant portal password" : "Choose a password"}
+                </Label>
+                <Input
+                  id="tenant-invite-password"
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  placeholder="At least 8 characters"
+                  data-testid="input-tenant-invite-password"
+                />
+              </div>
+              {needsConfirm && (
+                <div className="space-y-2">
+                  <Label htmlFor="tenant-invite-confirm">Confirm password</Label>
+                  <Input
+                    id="tenant-invite-confirm"
+                    type="password"
+                    value={confirm}
+                    onChange={(e) => setConfirm(e.target.value)}
+                    data-testid="input-tenant-invite-confirm"
+                  />
+                  {confirm && password !== confirm && (
+                    <p className="text-sm text-destructive">Passwords don't match</p>
+                  )}
+                </div>
+              )}
+              <Button type="submit" className="w-full" disabled={!canSubmit || acceptMutation.isPending} data-testid="button-tenant-invite-accept">
+                {acceptMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                {data.hasAccount ? "Link to My Login" : "Create Login"}
+              </Button>
+            </form>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
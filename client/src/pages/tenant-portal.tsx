@@ -0,0 +1,506 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Select, SelectContent, SelectItem, SelectTrigger, SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient, getAccessToken } from "@/lib/queryClient";
+import type { MaintenanceRequest } from "@shared/schema";
+import { MAINTENANCE_CATEGORIES, MAINTENANCE_PRIORITIES, MAINTENANCE_STATUSES } from "@shared/maintenance";
+import { entryNet } from "@shared/tenantLedger";
+import { AuthedPhoto, PhotoUploadButton, uploadMaintenancePhoto } from "@/components/maintenance-photos";
+import { Loader2, Download, FileText, Wrench, CreditCard, Home } from "lucide-react";
+import { SEO } from "@/components/seo";
+
+interface PortalTenancySummary {
+  id: string;
+  status: string;
+  startDate: string;
+  endDate: string | null;
+  premises: string;
+}
+
+interface PortalTenancy extends PortalTenancySummary {
+  monthlyRent: number;
+  rentDueDay: number;
+  landlordName: string;
+  landlordEmail: string | null;
+  landlordPhone: string | null;
+  balance: number;
+  ledgerEntries: {
+    id: string;
+    effectiveDate: string | null;
+    month: string;
+    type: string | null;
+    category: string | null;
+    description: string | null;
+    amountExpected: number;
+    amountReceived: number | null;
+  }[];
+  paymentRequests: {
+    id: string;
+    amount: number;
+    amountPaid: number;
+    dueDate: string;
+    description: string | null;
+    status: string;
+    payUrl: string;
+  }[];
+  subscriptions: {
+    id: string;
+    amount: number;
+    dayOfMonth: number;
+    nextScheduledDate: string | null;
+    status: string;
+    bankAccountLast4: string | null;
+    bankAccountBankName: string | null;
+    manageUrl: string;
+  }[];
+  documents: { id: string; documentName: string; createdAt: string; signed: boolean; sharedAt: string | null }[];
+}
+
+type PortalMaintenanceRequest = MaintenanceRequest & { photoIds: string[] };
+
+function money(cents: number | null | undefined): string {
+  return `$${((cents || 0) / 100).toFixed(2)}`;
+}
+
+function formatDate(value: string | Date | null | undefined): string {
+  if (!value) return "";
+  const d = typeof value === "string" && /^\d{4}-\d{2}-\d{2}$/.test(value) ? new Date(`${value}T00:00:00`) : new Date(value);
+  return d.toLocaleDateString();
+}
+
+function MaintenanceTab({ tenancyId }: { tenancyId: string }) {
+  const { toast } = useToast();
+  const [category, setCategory] = useState("other");
+  const [priority, setPriority] = useState("routine");
+  const [title, setTitle] = useState("");
+  const [description, setDescription] = useState("");
+  const [permissionToEnter, setPermissionToEnter] = useState(false);
+  const [photos, setPhotos] = useState<File[]>([]);
+  const requestsPath = `/api/tenant-portal/tenancies/${tenancyId}/maintenance-requests`;
+
+  const { data: requests = [], isLoading } = useQuery<PortalMaintenanceRequest[]>({
+    queryKey: ["/api/tenant-portal/tenancies", tenancyId, "maintenance-requests"],
+  });
+
+  const refreshRequests = () =>
+    queryClient.invalidateQueries({ queryKey: ["/api/tenant-portal/tenancies", tenancyId, "maintenance-requests"] });
+
+  const submitMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", requestsPath, {
+        category, priority, title, description, permissionToEnter,
+      });
+      const created: MaintenanceRequest = await res.json();
+      // The ticket exists even if a photo fails; report the failure but keep going.
+      let failedPhotos = 0;
+      for (const file of photos) {
+        await uploadMaintenancePhoto(`${requestsPath}/${created.id}/photos`, file).catch(() => failedPhotos++);
+      }
+      return { created, failedPhotos };
+    },
+    onSuccess: ({ failedPhotos }) => {
+      setTitle("");
+      setDescription("");
+      setPermissionToEnter(false);
+      setCategory("other");
+      setPriority("routine");
+      setPhotos([]);
+      refreshRequests();
+      toast({
+        title: "Request submitted",
+        description: failedPhotos > 0
+          ? `Your landlord has been notified, but ${failedPhotos} photo${failedPhotos === 1 ? "" : "s"} could not be uploaded.`
+          : "Your landlord has been notified.",
+      });
+    },
+    onError: (e: Error) => toast({ title: "Could not submit request", description: e.message, variant: "destructive" }),
+  });
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">New Maintenance Request</CardTitle>
+          <CardDescription>For emergencies like fire, gas leaks or flooding, call 911 or your landlord directly first.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid gap-4 sm:grid-cols-3">
+            <div className="space-y-2">
+              <Label>Category</Label>
+              <Select value={category} onValueChange={setCategory}>
+                <SelectTrigger data-testid="select-maintenance-category"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {MAINTENANCE_CATEGORIES.map((c) => (
+                    <SelectItem key={c.value} value={c.value}>{c.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Urgency</Label>
+              <Select value={priority} onValueChange={setPriority}>
+                <SelectTrigger data-testid="select-maintenance-priority"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {MAINTENANCE_PRIORITIES.map((p) => (
+                    <SelectItem key={p.value} value={p.value}>{p.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                {MAINTENANCE_PRIORITIES.find((p) => p.value === priority)?.description}
+              </p>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="maintenance-title">Summary</Label>
+              <Input
+                id="maintenance-title"
+                value={title}
+                onChange={(e) => setTitle(e.target.value)}
+                placeholder="e.g. Kitchen sink is leaking"
+                data-testid="input-maintenance-title"
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="maintenance-description">Details</Label>
+            <Textarea
+              id="maintenance-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              rows={4}
+              placeholder="What's wrong, where is it, and when did it start?"
+              data-testid="input-maintenance-description"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="maintenance-photos">Photos (optional)</Label>
+            <Input
+              id="maintenance-photos"
+              type="file"
+              accept="image/jpeg,image/png,image/webp"
+              multiple
+              onChange={(e) => setPhotos(Array.from(e.target.files || []))}
+              data-testid="input-maintenance-photos"
+            />
+          </div>
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="maintenance-permission"
+              checked={permissionToEnter}
+              onCheckedChange={(v) => setPermissionToEnter(v === true)}
+              data-testid="checkbox-maintenance-permission"
+            />
+            <Label htmlFor="maintenance-permission" className="font-normal">
+              Maintenance may enter if I'm not home
+            </Label>
+          </div>
+          <Button
+            onClick={() => submitMutation.mutate()}
+            disabled={!title.trim() || !description.trim() || submitMutation.isPending}
+            data-testid="button-submit-maintenance"
+          >
+            {submitMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Submit Request
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Your Requests</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          ) : requests.length === 0 ? (
+            <p className="text-sm text-muted-foreground">You haven't submitted any maintenance requests.</p>
+          ) : (
+            <div className="divide-y">
+              {requests.map((r) => (
+                <div key={r.id} className="py-3 space-y-2" data-testid={`row-maintenance-${r.id}`}>
+                  <div className="flex items-start justify-between gap-4">
+                    <div>
+                      <p className="font-medium">{r.title}</p>
+                      <p className="text-sm text-muted-foreground">
+                        {MAINTENANCE_CATEGORIES.find((c) => c.value === r.category)?.label || r.category} - submitted {formatDate(r.createdAt)}
+                        {r.scheduledFor && ` - scheduled for ${formatDate(r.scheduledFor)}`}
+                      </p>
+                    </div>
+                    <Badge variant={r.status === "completed" ? "default" : "secondary"}>
+                      {MAINTENANCE_STATUSES.find((st) => st.value === r.status)?.label || r.status}
+                    </Badge>
+                  </div>
+                  <div className="flex flex-wrap items-center gap-2">
+                    {r.photoIds.map((photoId) => (
+                      <AuthedPhoto
+                        key={photoId}
+                        src={`${requestsPath}/${r.id}/photos/${photoId}`}
+                        alt="Maintenance photo"
+                        className="h-16 w-16 rounded-md"
+                      />
+                    ))}
+                    {(r.status === "open" || r.status === "in_progress") && (
+                      <PhotoUploadButton
+                        endpoint={`${requestsPath}/${r.id}/photos`}
+                        onUploaded={refreshRequests}
+                        testId={`button-add-photos-${r.id}`}
+                      />
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+export default function TenantPortal() {
+  const { toast } = useToast();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const { data: tenancies = [], isLoading: isLoadingList } = useQuery<PortalTenancySummary[]>({
+    queryKey: ["/api/tenant-portal/tenancies"],
+  });
+
+  useEffect(() => {
+    if (!selectedId && tenancies.length > 0) {
+      setSelectedId((tenancies.find((t) => t.status === "active") || tenancies[0]).id);
+    }
+  }, [tenancies, selectedId]);
+
+  const { data: tenancy, isLoading } = useQuery<PortalTenancy>({
+    queryKey: ["/api/tenant-portal/tenancies", selectedId],
+    enabled: !!selectedId,
+  });
+
+  const downloadDocument = async (doc: { id: string; documentName: string }) => {
+    const token = getAccessToken();
+    const response = await fetch(`/api/tenant-portal/tenancies/${selectedId}/documents/${doc.id}/download`, {
+      credentials: 'include',
+      headers: token ? { 'Authorization': `Bearer ${token}` } : {}
+    });
+    if (!response.ok) {
+      toast({ title: "Download Failed", description: "Failed to download the document.", variant: "destructive" });
+      return;
+    }
+    const url = window.URL.createObjectURL(await response.blob());
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${doc.documentName}.pdf`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    window.URL.revokeObjectURL(url);
+  };
+
+  if (isLoadingList) {
+    return (
+      <div className="flex justify-center py-16"><Loader2 className="h-6 w-6 animate-spin text-muted-foreground" /></div>
+    );
+  }
+
+  if (tenancies.length === 0) {
+    return (
+      <div className="max-w-3xl mx-auto p-6">
+        <Card>
+          <CardContent className="py-12 text-center text-muted-foreground">
+            Your login isn't linked to a lease yet. Ask your landlord to send you a portal invite.
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-5xl mx-auto p-6 space-y-6">
+      <SEO title="Tenant Portal" description="Your lease, balance, payments and maintenance requests." noIndex />
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-semibold" data-testid="text-tenant-portal-title">Tenant Portal</h1>
+          {tenancy && <p className="text-muted-foreground">{tenancy.premises}</p>}
+        </div>
+        {tenancies.length > 1 && (
+          <Select value={selectedId || undefined} onValueChange={setSelectedId}>
+            <SelectTrigger className="w-72" data-testid="select-portal-tenancy"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {tenancies.map((t) => (
+                <SelectItem key={t.id} value={t.id}>{t.premises} ({formatDate(t.startDate)})</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+      </div>
+
+      {isLoading || !tenancy ? (
+        <div className="flex justify-center py-16"><Loader2 className="h-6 w-6 animate-spin text-muted-foreground" /></div>
+      ) : (
+        <>
+          <div className="grid gap-4 sm:grid-cols-3">
+            <Card>
+              <CardHeader className="pb-2"><CardDescription>Current Balance</CardDescription></CardHeader>
+              <CardContent>
+                <p className={`text-2xl font-semibold ${tenancy.balance > 0 ? "text-destructive" : ""}`} data-testid="text-portal-balance">
+                  {money(tenancy.balance)}
+                </p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader className="pb-2"><CardDescription>Monthly Rent</CardDescription></CardHeader>
+              <CardContent>
+                <p className="text-2xl font-semibold">{money(tenancy.monthlyRent)}</p>
+                <p className="text-sm text-muted-foreground">Due on day {tenancy.rentDueDay} of each month</p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader className="pb-2"><CardDescription>Landlord</CardDescription></CardHeader>
+              <CardContent className="text-sm space-y-1">
+                <p className="font-medium">{tenancy.landlordName}</p>
+                {tenancy.landlordEmail && <p className="text-muted-foreground">{tenancy.landlordEmail}</p>}
+                {tenancy.landlordPhone && <p className="text-muted-foreground">{tenancy.landlordPhone}</p>}
+              </CardContent>
+            </Card>
+          </div>
+
+          <Tabs defaultValue="payments">
+            <TabsList className="grid w-full grid-cols-4">
+              <TabsTrigger value="payments" data-testid="tab-portal-payments"><CreditCard className="h-4 w-4 mr-2" />Payments</TabsTrigger>
+              <TabsTrigger value="ledger" data-testid="tab-portal-ledger"><Home className="h-4 w-4 mr-2" />Ledger</TabsTrigger>
+              <TabsTrigger value="documents" data-testid="tab-portal-documents"><FileText className="h-4 w-4 mr-2" />Documents</TabsTrigger>
+              <TabsTrigger value="maintenance" data-testid="tab-portal-maintenance"><Wrench className="h-4 w-4 mr-2" />Maintenance</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="payments" className="space-y-4">
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-lg">Pay Rent</CardTitle>
+                  <CardDescription>Open payment requests from your landlord.</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  {tenancy.paymentRequests.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">Nothing to pay right now.</p>
+                  ) : (
+                    <div className="divide-y">
+                      {tenancy.paymentRequests.map((p) => (
+                        <div key={p.id} className="py-3 flex items-center justify-between gap-4" data-testid={`row-portal-payment-${p.id}`}>
+                          <div>
+                            <p className="font-medium">{p.description || "Rent"}</p>
+                            <p className="text-sm text-muted-foreground">
+                              Due {formatDate(p.dueDate)}{p.status === "overdue" ? " - overdue" : ""}
+                            </p>
+                          </div>
+                          <div className="flex items-center gap-3">
+                            <span className="font-semibold">{money(p.amount - p.amountPaid)}</span>
+                            <Button size="sm" asChild data-testid={`button-portal-pay-${p.id}`}>
+                              <a href={p.payUrl}>Pay</a>
+                            </Button>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-lg">Auto-Pay</CardTitle>
+                  <CardDescription>Automatic monthly rent payments from your bank account.</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  {tenancy.subscriptions.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">Your landlord hasn't set up auto-pay for this lease.</p>
+                  ) : (
+                    <div className="divide-y">
+                      {tenancy.subscriptions.map((s) => (
+                        <div key={s.id} className="py-3 flex items-center justify-between gap-4" data-testid={`row-portal-autopay-${s.id}`}>
+                          <div>
+                            <p className="font-medium">{money(s.amount)} on day {s.dayOfMonth}</p>
+                            <p className="text-sm text-muted-foreground">
+                              {s.status === "pending_authorization"
+                                ? "Waiting for your authorization"
+                                : s.bankAccountLast4
+                                  ? `${s.bankAccountBankName || "Bank"} ••${s.bankAccountLast4}${s.nextScheduledDate ? ` - next debit ${formatDate(s.nextScheduledDate)}` : ""}`
+                                  : s.status}
+                            </p>
+                          </div>
+                          <Button size="sm" variant="outline" asChild data-testid={`button-portal-autopay-${s.id}`}>
+                            <a href={s.manageUrl}>{s.status === "pending_authorization" ? "Set Up" : "Manage"}</a>
+                          </Button>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            </TabsContent>
+
+            <TabsContent value="ledger">
+              <Card>
+                <CardContent className="pt-6">
+                  {tenancy.ledgerEntries.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">No charges or payments have been posted yet.</p>
+                  ) : (
+                    <div className="divide-y">
+                      {tenancy.ledgerEntries.map((e) => (
+                        <div key={e.id} className="py-2 grid grid-cols-4 gap-2 text-sm" data-testid={`row-portal-ledger-${e.id}`}>
+                          <span>{formatDate(e.effectiveDate) || e.month}</span>
+                          <span className="col-span-2">{e.description || e.category}</span>
+                          <span className="text-right">
+                            {entryNet(e) < 0 ? `-${money(-entryNet(e))}` : money(entryNet(e))}
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            </TabsContent>
+
+            <TabsContent value="documents">
+              <Card>
+                <CardContent className="pt-6">
+                  {tenancy.documents.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">No documents have been shared with you yet.</p>
+                  ) : (
+                    <div className="divide-y">
+                      {tenancy.documents.map((d) => (
+                        <div key={d.id} className="py-3 flex items-center justify-between gap-4" data-testid={`row-portal-document-${d.id}`}>
+                          <div className="flex items-center gap-2">
+                            <FileText className="h-4 w-4 text-muted-foreground" />
+                            <span className="font-medium">{d.documentName}</span>
+                            {d.signed && <Badge variant="secondary">Signed</Badge>}
+                          </div>
+                          <Button size="sm" variant="outline" onClick={() => downloadDocument(d)} data-testid={`button-portal-download-${d.id}`}>
+                            <Download className="h-4 w-4 mr-2" />
+                            Download
+                          </Button>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            </TabsContent>
+
+            <TabsContent value="maintenance">
+              <MaintenanceTab tenancyId={tenancy.id} />
+            </TabsContent>
+          </Tabs>
+        </>
+      )}
+    </div>
+  );
+}
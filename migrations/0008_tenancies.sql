@@ -0,0 +1,109 @@
+-- First-class tenancies (leases). Until now the rent ledger, payment requests,
+-- auto-pay subscriptions and saved documents were only tied together by a
+-- free-text tenant name. A tenancy row links a rental property/unit to its
+-- occupants and is referenced by all of those records through a nullable
+-- tenancy_id, so existing rows are unaffected. Idempotent so repeat runs and
+-- environments where the tables were created manually succeed without error.
+CREATE TABLE IF NOT EXISTS "tenancies" (
+  "id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "user_id" varchar NOT NULL,
+  "rental_property_id" varchar,
+  "rental_unit_id" varchar,
+  "submission_id" varchar,
+  "decision_id" varchar,
+  "status" varchar(24) DEFAULT 'pending' NOT NULL,
+  "start_date" date NOT NULL,
+  "end_date" date,
+  "monthly_rent" integer NOT NULL,
+  "security_deposit" integer DEFAULT 0 NOT NULL,
+  "rent_due_day" integer DEFAULT 1 NOT NULL,
+  "notes" text,
+  "ended_at" timestamp,
+  "created_at" timestamp DEFAULT now() NOT NULL,
+  "updated_at" timestamp DEFAULT now() NOT NULL
+);--> statement-breakpoint
+
+DO $$ BEGIN
+  ALTER TABLE "tenancies" ADD CONSTRAINT "tenancies_user_id_users_id_fk"
+    FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION WHEN duplicate_object THEN null; END $$;--> statement-breakpoint
+
+DO $$ BEGIN
+  ALTER TABLE "tenancies" ADD CONSTRAINT "tenancies_rental_property_id_rental_properties_id_fk"
+    FOREIGN KEY ("rental_property_id") REFERENCES "public"."rental_properties"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION WHEN duplicate_object THEN null; END $$;--> statement-breakpoint
+
+DO $$ BEGIN
+  ALTER TABLE "tenancies" ADD CONSTRAINT "tenancies_rental_unit_id_rental_units_id_fk"
+    FOREIGN KEY ("rental_unit_id") REFERENCES "public"."rental_units"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION WHEN duplicate_object THEN null; END $$;--> statement-breakpoint
+
+DO $$ BEGIN
+  ALTER TABLE "tenancies" ADD CONSTRAINT "tenancies_submission_id_rental_submissions_id_fk"
+    FOREIGN KEY ("submission_id") REFERENCES "public"."rental_submissions"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION WHEN duplicate_object THEN null; END $$;--> statement-breakpoint
+
+DO $$ BEGIN
+  ALTER TABLE "tenancies" ADD CONSTRAINT "tenancies_decision_id_rental_decisions_id_fk"
+    FOREIGN KEY ("decision_id") REFERENCES "public"."rental_decisions"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION WHEN duplicate_object THEN null; END $$;--> statement-breakpoint
+
+CREATE INDEX IF NOT EXISTS "idx_tenancies_user" ON "tenancies" USING btree ("user_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "idx_tenancies_property" ON "tenancies" USING btree ("rental_property_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "idx_tenancies_unit" ON "tenancies" USING btree ("rental_unit_id");--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "tenancies_one_per_submission" ON "tenancies" USING btree ("submission_id");--> statement-breakpoint
+
+CREATE TABLE IF NOT EXISTS "tenancy_occupants" (
+  "id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "tenancy_id" varchar NOT NULL,
+  "role" varchar(16) DEFAULT 'tenant' NOT NULL,
+  "full_name" text NOT NULL,
+  "email" varchar,
+  "phone" varchar,
+  "is_primary" boolean DEFAULT false NOT NULL,
+  "submission_person_id" varchar,
+  "created_at" timestamp DEFAULT now() NOT NULL
+);--> statement-breakpoint
+
+DO $$ BEGIN
+  ALTER TABLE "tenancy_occupants" ADD CONSTRAINT "tenancy_occupants_tenancy_id_tenancies_id_fk"
+    FOREIGN KEY ("tenancy_id") REFERENCES "public"."tenancies"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION WHEN duplicate_object THEN null; END $$;--> statement-breakpoint
+
+DO $$ BEGIN
+  ALTER TABLE "tenancy_occupants" ADD CONSTRAINT "tenancy_occupants_submission_person_id_rental_submission_people_id_fk"
+    FOREIGN KEY ("submission_person_id") REFERENCES "public"."rental_submission_people"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION WHEN duplicate_object THEN null; END $$;--> statement-breakpoint
+
+CREATE INDEX IF NOT EXISTS "idx_tenancy_occupants_tenancy" ON "tenancy_occupants" USING btree ("tenancy_id");--> statement-breakpoint
+
+-- Link existing money/document tables to a tenancy
+ALTER TABLE "rent_ledger_entries" ADD COLUMN IF NOT EXISTS "tenancy_id" varchar;--> statement-breakpoint
+ALTER TABLE "rent_payment_requests" ADD COLUMN IF NOT EXISTS "tenancy_id" varchar;--> statement-breakpoint
+ALTER TABLE "rent_subscriptions" ADD COLUMN IF NOT EXISTS "tenancy_id" varchar;--> statement-breakpoint
+ALTER TABLE "saved_documents" ADD COLUMN IF NOT EXISTS "tenancy_id" varchar;--> statement-breakpoint
+
+DO $$ BEGIN
+  ALTER TABLE "rent_ledger_entries" ADD CONSTRAINT "rent_ledger_entries_tenancy_id_tenancies_id_fk"
+    FOREIGN KEY ("tenancy_id") REFERENCES "public"."tenancies"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION WHEN duplicate_object THEN null; END $$;--> statement-breakpoint
+
+DO $$ BEGIN
+  ALTER TABLE "rent_payment_requests" ADD CONSTRAINT "rent_payment_requests_tenancy_id_tenancies_id_fk"
+    FOREIGN KEY ("tenancy_id") REFERENCES "public"."tenancies"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION WHEN duplicate_object THEN null; END $$;--> statement-breakpoint
+
+DO $$ BEGIN
+  ALTER TABLE "rent_subscriptions" ADD CONSTRAINT "rent_subscriptions_tenancy_id_tenancies_id_fk"
+    FOREIGN KEY ("tenancy_id") REFERENCES "public"."tenancies"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION WHEN duplicate_object THEN null; END $$;--> statement-breakpoint
+
+DO $$ BEGIN
+  ALTER TABLE "saved_documents" ADD CONSTRAINT "saved_documents_tenancy_id_tenancies_id_fk"
+    FOREIGN KEY ("tenancy_id") REFERENCES "public"."tenancies"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION WHEN duplicate_object THEN null; END $$;--> statement-breakpoint
+
+CREATE INDEX IF NOT EXISTS "idx_rent_ledger_tenancy" ON "rent_ledger_entries" USING btree ("tenancy_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "idx_rent_payment_tenancy" ON "rent_payment_requests" USING btree ("tenancy_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "idx_rent_sub_tenancy" ON "rent_subscriptions" USING btree ("tenancy_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "idx_saved_documents_tenancy_id" ON "saved_documents" USING btree ("tenancy_id");
@@ -0,0 +1,67 @@
+-- Native e-signature for saved documents. A signature request snapshots the
+-- rendered PDF (path + SHA-256) so every party signs the same bytes; each
+-- signer row holds a tokenized signing link and the captured signature with
+-- IP, user agent and timestamp. On completion the saved document gets a
+-- signed_at stamp and a certificate of completion. Idempotent so repeat runs
+-- and environments where the tables were created manually succeed without error.
+ALTER TABLE "saved_documents" ADD COLUMN IF NOT EXISTS "signed_at" timestamp;--> statement-breakpoint
+ALTER TABLE "saved_documents" ADD COLUMN IF NOT EXISTS "signature_certificate_json" jsonb;--> statement-breakpoint
+
+CREATE TABLE IF NOT EXISTS "document_signature_requests" (
+  "id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "user_id" varchar NOT NULL,
+  "saved_document_id" varchar NOT NULL,
+  "status" varchar(16) DEFAULT 'pending' NOT NULL,
+  "message" text,
+  "unsigned_pdf_path" text NOT NULL,
+  "unsigned_pdf_sha256" varchar(64) NOT NULL,
+  "signed_pdf_path" text,
+  "signed_pdf_sha256" varchar(64),
+  "completed_at" timestamp,
+  "canceled_at" timestamp,
+  "created_at" timestamp DEFAULT now() NOT NULL,
+  "updated_at" timestamp DEFAULT now() NOT NULL
+);--> statement-breakpoint
+
+DO $$ BEGIN
+  ALTER TABLE "document_signature_requests" ADD CONSTRAINT "document_signature_requests_user_id_users_id_fk"
+    FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION WHEN duplicate_object THEN null; END $$;--> statement-breakpoint
+
+DO $$ BEGIN
+  ALTER TABLE "document_signature_requests" ADD CONSTRAINT "document_signature_requests_saved_document_id_saved_documents_id_fk"
+    FOREIGN KEY ("saved_document_id") REFERENCES "public"."saved_documents"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION WHEN duplicate_object THEN null; END $$;--> statement-breakpoint
+
+CREATE INDEX IF NOT EXISTS "idx_doc_sig_requests_user" ON "document_signature_requests" USING btree ("user_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "idx_doc_sig_requests_document" ON "document_signature_requests" USING btree ("saved_document_id");--> statement-breakpoint
+
+CREATE TABLE IF NOT EXISTS "document_signers" (
+  "id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "request_id" varchar NOT NULL,
+  "name" text NOT NULL,
+  "email" varchar NOT NULL,
+  "role" varchar(24) DEFAULT 'tenant' NOT NULL,
+  "token" varchar(64) NOT NULL,
+  "status" varchar(16) DEFAULT 'pending' NOT NULL,
+  "viewed_at" timestamp,
+  "signature_type" varchar(8),
+  "signature_text" text,
+  "signature_image" text,
+  "consent_text" text,
+  "signed_at" timestamp,
+  "ip_address" text,
+  "user_agent" text,
+  "declined_at" timestamp,
+  "decline_reason" text,
+  "last_emailed_at" timestamp,
+  "created_at" timestamp DEFAULT now() NOT NULL,
+  CONSTRAINT "document_signers_token_unique" UNIQUE("token")
+);--> statement-breakpoint
+
+DO $$ BEGIN
+  ALTER TABLE "document_signers" ADD CONSTRAINT "document_signers_request_id_document_signature_requests_id_fk"
+    FOREIGN KEY ("request_id") REFERENCES "public"."document_signature_requests"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION WHEN duplicate_object THEN null; END $$;--> statement-breakpoint
+
+CREATE INDEX IF NOT EXISTS "idx_document_signers_request" ON "document_signers" USING btree ("request_id");
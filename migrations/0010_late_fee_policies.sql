@@ -0,0 +1,17 @@
+-- Configurable late-fee policies (flat / percent of rent / daily accrual /
+-- tiered) on rent payment requests and auto-pay subscriptions, validated
+-- against the state's late_fee_* clause values. Requests track the running
+-- total of late fees posted so accruing policies can post the difference on
+-- each run, and late-fee ledger entries record the statute they were checked
+-- against. Existing rows keep their flat late_fee_amount behavior.
+-- Idempotent so repeat runs succeed without error.
+ALTER TABLE "rent_payment_requests" ADD COLUMN IF NOT EXISTS "late_fee_policy_json" jsonb;--> statement-breakpoint
+ALTER TABLE "rent_payment_requests" ADD COLUMN IF NOT EXISTS "late_fee_assessed_amount" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "rent_subscriptions" ADD COLUMN IF NOT EXISTS "late_fee_policy_json" jsonb;--> statement-breakpoint
+ALTER TABLE "rent_ledger_entries" ADD COLUMN IF NOT EXISTS "statute_citation" text;--> statement-breakpoint
+
+-- Requests whose flat late fee was already applied: record it as assessed so
+-- the engine doesn't post it a second time.
+UPDATE "rent_payment_requests"
+  SET "late_fee_assessed_amount" = "late_fee_amount"
+  WHERE "late_fee_applied_at" IS NOT NULL AND "late_fee_assessed_amount" = 0;
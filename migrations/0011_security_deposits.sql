@@ -0,0 +1,66 @@
+-- Security deposits held against a tenancy: amount, date collected, holding
+-- account and (where the state requires it) annual interest. A move-out date
+-- fixes the statutory return deadline; deductions are itemized against the
+-- move-out checklist and disposition links the ledger entry it posted.
+-- Idempotent so repeat runs and environments where the tables were created
+-- manually succeed without error.
+CREATE TABLE IF NOT EXISTS "security_deposits" (
+  "id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "user_id" varchar NOT NULL,
+  "tenancy_id" varchar NOT NULL,
+  "deposit_type" varchar(16) DEFAULT 'security' NOT NULL,
+  "amount" integer NOT NULL,
+  "collected_date" date NOT NULL,
+  "holding_account" text,
+  "interest_rate_pct" double precision,
+  "status" varchar(24) DEFAULT 'held' NOT NULL,
+  "move_out_date" date,
+  "return_deadline" date,
+  "return_deadline_days" integer,
+  "return_deadline_citation" text,
+  "forwarding_address" text,
+  "disposition_date" date,
+  "interest_amount" integer DEFAULT 0 NOT NULL,
+  "total_deductions" integer DEFAULT 0 NOT NULL,
+  "amount_returned" integer,
+  "disposition_ledger_entry_id" varchar,
+  "notes" text,
+  "created_at" timestamp DEFAULT now() NOT NULL,
+  "updated_at" timestamp DEFAULT now() NOT NULL
+);--> statement-breakpoint
+
+DO $$ BEGIN
+  ALTER TABLE "security_deposits" ADD CONSTRAINT "security_deposits_user_id_users_id_fk"
+    FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION WHEN duplicate_object THEN null; END $$;--> statement-breakpoint
+
+DO $$ BEGIN
+  ALTER TABLE "security_deposits" ADD CONSTRAINT "security_deposits_tenancy_id_tenancies_id_fk"
+    FOREIGN KEY ("tenancy_id") REFERENCES "public"."tenancies"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION WHEN duplicate_object THEN null; END $$;--> statement-breakpoint
+
+DO $$ BEGIN
+  ALTER TABLE "security_deposits" ADD CONSTRAINT "security_deposits_disposition_ledger_entry_id_rent_ledger_entries_id_fk"
+    FOREIGN KEY ("disposition_ledger_entry_id") REFERENCES "public"."rent_ledger_entries"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION WHEN duplicate_object THEN null; END $$;--> statement-breakpoint
+
+CREATE INDEX IF NOT EXISTS "idx_security_deposits_user" ON "security_deposits" USING btree ("user_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "idx_security_deposits_tenancy" ON "security_deposits" USING btree ("tenancy_id");--> statement-breakpoint
+
+CREATE TABLE IF NOT EXISTS "security_deposit_deductions" (
+  "id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "deposit_id" varchar NOT NULL,
+  "checklist_room" varchar(48),
+  "checklist_item" varchar(64),
+  "condition" varchar(8),
+  "description" text NOT NULL,
+  "amount" integer NOT NULL,
+  "created_at" timestamp DEFAULT now() NOT NULL
+);--> statement-breakpoint
+
+DO $$ BEGIN
+  ALTER TABLE "security_deposit_deductions" ADD CONSTRAINT "security_deposit_deductions_deposit_id_security_deposits_id_fk"
+    FOREIGN KEY ("deposit_id") REFERENCES "public"."security_deposits"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION WHEN duplicate_object THEN null; END $$;--> statement-breakpoint
+
+CREATE INDEX IF NOT EXISTS "idx_security_deposit_deductions_deposit" ON "security_deposit_deductions" USING btree ("deposit_id");
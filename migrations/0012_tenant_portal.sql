@@ -0,0 +1,67 @@
+-- Tenant portal. Users get a role (landlord | tenant); a tenant login is
+-- linked to the tenancy_occupants row it was invited from, which is the only
+-- thing that scopes what the portal can see. Saved documents can be shared
+-- with the tenant, and tenants can submit maintenance requests.
+-- Idempotent so repeat runs succeed without error.
+ALTER TABLE "users" ADD COLUMN IF NOT EXISTS "role" varchar(16) DEFAULT 'landlord' NOT NULL;--> statement-breakpoint
+
+ALTER TABLE "tenancy_occupants" ADD COLUMN IF NOT EXISTS "user_id" varchar;--> statement-breakpoint
+ALTER TABLE "tenancy_occupants" ADD COLUMN IF NOT EXISTS "portal_invite_token" varchar(64);--> statement-breakpoint
+ALTER TABLE "tenancy_occupants" ADD COLUMN IF NOT EXISTS "portal_invited_at" timestamp;--> statement-breakpoint
+
+DO $$ BEGIN
+  ALTER TABLE "tenancy_occupants" ADD CONSTRAINT "tenancy_occupants_user_id_users_id_fk"
+    FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION WHEN duplicate_object THEN null; END $$;--> statement-breakpoint
+
+DO $$ BEGIN
+  ALTER TABLE "tenancy_occupants" ADD CONSTRAINT "tenancy_occupants_portal_invite_token_unique" UNIQUE ("portal_invite_token");
+EXCEPTION WHEN duplicate_object OR duplicate_table THEN null; END $$;--> statement-breakpoint
+
+CREATE INDEX IF NOT EXISTS "idx_tenancy_occupants_user" ON "tenancy_occupants" USING btree ("user_id");--> statement-breakpoint
+
+ALTER TABLE "saved_documents" ADD COLUMN IF NOT EXISTS "shared_with_tenant_at" timestamp;--> statement-breakpoint
+
+CREATE TABLE IF NOT EXISTS "maintenance_requests" (
+  "id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "user_id" varchar NOT NULL,
+  "tenancy_id" varchar,
+  "rental_property_id" varchar,
+  "rental_unit_id" varchar,
+  "submitted_by_user_id" varchar,
+  "category" varchar(24) DEFAULT 'other' NOT NULL,
+  "title" text NOT NULL,
+  "description" text NOT NULL,
+  "permission_to_enter" boolean DEFAULT false NOT NULL,
+  "status" varchar(16) DEFAULT 'open' NOT NULL,
+  "created_at" timestamp DEFAULT now() NOT NULL,
+  "updated_at" timestamp DEFAULT now() NOT NULL
+);--> statement-breakpoint
+
+DO $$ BEGIN
+  ALTER TABLE "maintenance_requests" ADD CONSTRAINT "maintenance_requests_user_id_users_id_fk"
+    FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION WHEN duplicate_object THEN null; END $$;--> statement-breakpoint
+
+DO $$ BEGIN
+  ALTER TABLE "maintenance_requests" ADD CONSTRAINT "maintenance_requests_tenancy_id_tenancies_id_fk"
+    FOREIGN KEY ("tenancy_id") REFERENCES "public"."tenancies"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION WHEN duplicate_object THEN null; END $$;--> statement-breakpoint
+
+DO $$ BEGIN
+  ALTER TABLE "maintenance_requests" ADD CONSTRAINT "maintenance_requests_rental_property_id_rental_properties_id_fk"
+    FOREIGN KEY ("rental_property_id") REFERENCES "public"."rental_properties"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION WHEN duplicate_object THEN null; END $$;--> statement-breakpoint
+
+DO $$ BEGIN
+  ALTER TABLE "maintenance_requests" ADD CONSTRAINT "maintenance_requests_rental_unit_id_rental_units_id_fk"
+    FOREIGN KEY ("rental_unit_id") REFERENCES "public"."rental_units"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION WHEN duplicate_object THEN null; END $$;--> statement-breakpoint
+
+DO $$ BEGIN
+  ALTER TABLE "maintenance_requests" ADD CONSTRAINT "maintenance_requests_submitted_by_user_id_users_id_fk"
+    FOREIGN KEY ("submitted_by_user_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION WHEN duplicate_object THEN null; END $$;--> statement-breakpoint
+
+CREATE INDEX IF NOT EXISTS "idx_maintenance_requests_user" ON "maintenance_requests" USING btree ("user_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "idx_maintenance_requests_tenancy" ON "maintenance_requests" USING btree ("tenancy_id");
@@ -0,0 +1,92 @@
+-- Maintenance work orders. Adds priority, vendor assignment, cost and SLA
+-- timers to maintenance_requests, plus a vendor directory, an append-only
+-- status history and photo attachments (stored in private object storage).
+-- Idempotent so repeat runs succeed without error.
+CREATE TABLE IF NOT EXISTS "vendors" (
+  "id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "user_id" varchar NOT NULL,
+  "name" text NOT NULL,
+  "trade" varchar(24),
+  "phone" varchar,
+  "email" varchar,
+  "notes" text,
+  "created_at" timestamp DEFAULT now() NOT NULL,
+  "updated_at" timestamp DEFAULT now() NOT NULL
+);--> statement-breakpoint
+
+DO $$ BEGIN
+  ALTER TABLE "vendors" ADD CONSTRAINT "vendors_user_id_users_id_fk"
+    FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION WHEN duplicate_object THEN null; END $$;--> statement-breakpoint
+
+CREATE INDEX IF NOT EXISTS "idx_vendors_user" ON "vendors" USING btree ("user_id");--> statement-breakpoint
+
+ALTER TABLE "maintenance_requests" ADD COLUMN IF NOT EXISTS "priority" varchar(16) DEFAULT 'routine' NOT NULL;--> statement-breakpoint
+ALTER TABLE "maintenance_requests" ADD COLUMN IF NOT EXISTS "vendor_id" varchar;--> statement-breakpoint
+ALTER TABLE "maintenance_requests" ADD COLUMN IF NOT EXISTS "scheduled_for" date;--> statement-breakpoint
+ALTER TABLE "maintenance_requests" ADD COLUMN IF NOT EXISTS "estimated_cost" integer;--> statement-breakpoint
+ALTER TABLE "maintenance_requests" ADD COLUMN IF NOT EXISTS "actual_cost" integer;--> statement-breakpoint
+ALTER TABLE "maintenance_requests" ADD COLUMN IF NOT EXISTS "landlord_notes" text;--> statement-breakpoint
+ALTER TABLE "maintenance_requests" ADD COLUMN IF NOT EXISTS "respond_by_at" timestamp;--> statement-breakpoint
+ALTER TABLE "maintenance_requests" ADD COLUMN IF NOT EXISTS "resolve_by_at" timestamp;--> statement-breakpoint
+ALTER TABLE "maintenance_requests" ADD COLUMN IF NOT EXISTS "acknowledged_at" timestamp;--> statement-breakpoint
+ALTER TABLE "maintenance_requests" ADD COLUMN IF NOT EXISTS "completed_at" timestamp;--> statement-breakpoint
+
+DO $$ BEGIN
+  ALTER TABLE "maintenance_requests" ADD CONSTRAINT "maintenance_requests_vendor_id_vendors_id_fk"
+    FOREIGN KEY ("vendor_id") REFERENCES "public"."vendors"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION WHEN duplicate_object THEN null; END $$;--> statement-breakpoint
+
+CREATE INDEX IF NOT EXISTS "idx_maintenance_requests_property" ON "maintenance_requests" USING btree ("rental_property_id");--> statement-breakpoint
+
+-- Tickets created before SLA timers existed get routine deadlines.
+UPDATE "maintenance_requests"
+  SET "respond_by_at" = "created_at" + interval '72 hours',
+      "resolve_by_at" = "created_at" + interval '14 days'
+  WHERE "respond_by_at" IS NULL;--> statement-breakpoint
+
+CREATE TABLE IF NOT EXISTS "maintenance_request_events" (
+  "id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "request_id" varchar NOT NULL,
+  "event_type" varchar(24) NOT NULL,
+  "from_value" text,
+  "to_value" text,
+  "note" text,
+  "actor_user_id" varchar,
+  "created_at" timestamp DEFAULT now() NOT NULL
+);--> statement-breakpoint
+
+DO $$ BEGIN
+  ALTER TABLE "maintenance_request_events" ADD CONSTRAINT "maintenance_request_events_request_id_maintenance_requests_id_fk"
+    FOREIGN KEY ("request_id") REFERENCES "public"."maintenance_requests"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION WHEN duplicate_object THEN null; END $$;--> statement-breakpoint
+
+DO $$ BEGIN
+  ALTER TABLE "maintenance_request_events" ADD CONSTRAINT "maintenance_request_events_actor_user_id_users_id_fk"
+    FOREIGN KEY ("actor_user_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION WHEN duplicate_object THEN null; END $$;--> statement-breakpoint
+
+CREATE INDEX IF NOT EXISTS "idx_maintenance_request_events_request" ON "maintenance_request_events" USING btree ("request_id");--> statement-breakpoint
+
+CREATE TABLE IF NOT EXISTS "maintenance_request_photos" (
+  "id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "request_id" varchar NOT NULL,
+  "storage_path" text NOT NULL,
+  "file_name" text NOT NULL,
+  "content_type" varchar(64) NOT NULL,
+  "size_bytes" integer NOT NULL,
+  "uploaded_by_user_id" varchar,
+  "created_at" timestamp DEFAULT now() NOT NULL
+);--> statement-breakpoint
+
+DO $$ BEGIN
+  ALTER TABLE "maintenance_request_photos" ADD CONSTRAINT "maintenance_request_photos_request_id_maintenance_requests_id_fk"
+    FOREIGN KEY ("request_id") REFERENCES "public"."maintenance_requests"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION WHEN duplicate_object THEN null; END $$;--> statement-breakpoint
+
+DO $$ BEGIN
+  ALTER TABLE "maintenance_request_photos" ADD CONSTRAINT "maintenance_request_photos_uploaded_by_user_id_users_id_fk"
+    FOREIGN KEY ("uploaded_by_user_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION WHEN duplicate_object THEN null; END $$;--> statement-breakpoint
+
+CREATE INDEX IF NOT EXISTS "idx_maintenance_request_photos_request" ON "maintenance_request_photos" USING btree ("request_id");
@@ -0,0 +1,16 @@
+-- Counting conventions for notice day rules and per-method service extensions.
+-- The compliance-matrix tables were created with db:push, so skip cleanly on
+-- databases that don't have them yet.
+DO $$ BEGIN
+  IF EXISTS (SELECT 1 FROM pg_type WHERE typname = 'counting_convention') THEN
+    ALTER TYPE "public"."counting_convention" ADD VALUE IF NOT EXISTS 'day0_service_plus_n_roll_forward';
+    ALTER TYPE "public"."counting_convention" ADD VALUE IF NOT EXISTS 'day1_service_inclusive';
+    ALTER TYPE "public"."counting_convention" ADD VALUE IF NOT EXISTS 'day1_service_inclusive_roll_forward';
+  END IF;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+  IF EXISTS (SELECT 1 FROM information_schema.tables WHERE table_name = 'form_service_rules') THEN
+    ALTER TABLE "form_service_rules" ADD COLUMN IF NOT EXISTS "extension_days" integer DEFAULT 0 NOT NULL;
+  END IF;
+END $$;
@@ -0,0 +1,92 @@
+-- Eviction case timelines: per-state durations for the court steps after a
+-- notice, cases anchored on a generated notice, and their planned/actual steps.
+-- The notice-engine tables (generated_notice_documents, holiday_calendars)
+-- were created with db:push, so their column and foreign keys are skipped on
+-- databases that don't have them yet. Idempotent so repeat runs succeed.
+DO $$ BEGIN
+  IF EXISTS (SELECT 1 FROM information_schema.tables WHERE table_name = 'generated_notice_documents') THEN
+    ALTER TABLE "generated_notice_documents" ADD COLUMN IF NOT EXISTS "service_date" date;
+  END IF;
+END $$;--> statement-breakpoint
+
+CREATE TABLE IF NOT EXISTS "eviction_timeline_rules" (
+  "id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "state_id" varchar(2) NOT NULL,
+  "step_key" varchar(32) NOT NULL,
+  "days" integer NOT NULL,
+  "day_type" varchar(32) DEFAULT 'calendar' NOT NULL,
+  "counting_convention" varchar(48) DEFAULT 'day0_service_plus_n' NOT NULL,
+  "holiday_calendar_id" varchar,
+  "citation" text,
+  "notes" text,
+  "created_at" timestamp DEFAULT now() NOT NULL,
+  "updated_at" timestamp DEFAULT now() NOT NULL
+);--> statement-breakpoint
+
+DO $$ BEGIN
+  ALTER TABLE "eviction_timeline_rules" ADD CONSTRAINT "eviction_timeline_rules_state_id_states_id_fk"
+    FOREIGN KEY ("state_id") REFERENCES "public"."states"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION WHEN duplicate_object THEN null; END $$;--> statement-breakpoint
+
+DO $$ BEGIN
+  ALTER TABLE "eviction_timeline_rules" ADD CONSTRAINT "eviction_timeline_rules_holiday_calendar_id_holiday_calendars_id_fk"
+    FOREIGN KEY ("holiday_calendar_id") REFERENCES "public"."holiday_calendars"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION WHEN duplicate_object OR undefined_table THEN null; END $$;--> statement-breakpoint
+
+CREATE UNIQUE INDEX IF NOT EXISTS "idx_eviction_timeline_rules_state_step" ON "eviction_timeline_rules" USING btree ("state_id", "step_key");--> statement-breakpoint
+
+CREATE TABLE IF NOT EXISTS "eviction_cases" (
+  "id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "user_id" varchar NOT NULL,
+  "generated_notice_document_id" varchar NOT NULL,
+  "tenancy_id" varchar,
+  "state_id" varchar(2) NOT NULL,
+  "case_label" text NOT NULL,
+  "court_case_number" varchar,
+  "service_date" date NOT NULL,
+  "status" varchar(16) DEFAULT 'active' NOT NULL,
+  "closed_at" timestamp,
+  "created_at" timestamp DEFAULT now() NOT NULL,
+  "updated_at" timestamp DEFAULT now() NOT NULL
+);--> statement-breakpoint
+
+DO $$ BEGIN
+  ALTER TABLE "eviction_cases" ADD CONSTRAINT "eviction_cases_user_id_users_id_fk"
+    FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION WHEN duplicate_object THEN null; END $$;--> statement-breakpoint
+
+DO $$ BEGIN
+  ALTER TABLE "eviction_cases" ADD CONSTRAINT "eviction_cases_generated_notice_document_id_generated_notice_documents_id_fk"
+    FOREIGN KEY ("generated_notice_document_id") REFERENCES "public"."generated_notice_documents"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION WHEN duplicate_object OR undefined_table THEN null; END $$;--> statement-breakpoint
+
+DO $$ BEGIN
+  ALTER TABLE "eviction_cases" ADD CONSTRAINT "eviction_cases_tenancy_id_tenancies_id_fk"
+    FOREIGN KEY ("tenancy_id") REFERENCES "public"."tenancies"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION WHEN duplicate_object THEN null; END $$;--> statement-breakpoint
+
+CREATE INDEX IF NOT EXISTS "idx_eviction_cases_user" ON "eviction_cases" USING btree ("user_id");--> statement-breakpoint
+
+CREATE TABLE IF NOT EXISTS "eviction_case_steps" (
+  "id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "case_id" varchar NOT NULL,
+  "step_key" varchar(32) NOT NULL,
+  "sort_order" integer NOT NULL,
+  "label" text NOT NULL,
+  "planned_date" date,
+  "actual_date" date,
+  "is_estimate" boolean DEFAULT false NOT NULL,
+  "explain" text,
+  "citation" text,
+  "reminder_sent_at" timestamp,
+  "created_at" timestamp DEFAULT now() NOT NULL,
+  "updated_at" timestamp DEFAULT now() NOT NULL
+);--> statement-breakpoint
+
+DO $$ BEGIN
+  ALTER TABLE "eviction_case_steps" ADD CONSTRAINT "eviction_case_steps_case_id_eviction_cases_id_fk"
+    FOREIGN KEY ("case_id") REFERENCES "public"."eviction_cases"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION WHEN duplicate_object THEN null; END $$;--> statement-breakpoint
+
+CREATE UNIQUE INDEX IF NOT EXISTS "idx_eviction_case_steps_case_step" ON "eviction_case_steps" USING btree ("case_id", "step_key");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "idx_eviction_case_steps_planned" ON "eviction_case_steps" USING btree ("planned_date");
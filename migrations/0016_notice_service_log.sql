@@ -0,0 +1,68 @@
+-- Proof of service: a log of service attempts per generated notice, with
+-- photo evidence, and a purpose on output templates so a form version can
+-- carry its state's certificate/affidavit of service form. The
+-- compliance-matrix tables were created with db:push, so their ALTERs and
+-- foreign keys skip cleanly on databases that don't have them yet.
+DO $$ BEGIN
+  IF EXISTS (SELECT 1 FROM information_schema.tables WHERE table_name = 'output_templates') THEN
+    ALTER TABLE "output_templates" ADD COLUMN IF NOT EXISTS "purpose" varchar(24) DEFAULT 'notice' NOT NULL;
+  END IF;
+END $$;
+--> statement-breakpoint
+
+CREATE TABLE IF NOT EXISTS "notice_service_attempts" (
+  "id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "generated_notice_document_id" varchar NOT NULL,
+  "user_id" varchar NOT NULL,
+  "attempt_number" integer NOT NULL,
+  "method_id" varchar NOT NULL,
+  "served_by_name" text NOT NULL,
+  "served_by_role" varchar(24) DEFAULT 'landlord' NOT NULL,
+  "attempt_date" date NOT NULL,
+  "attempt_time" varchar(5),
+  "address" text NOT NULL,
+  "recipient_name" text,
+  "outcome" varchar(16) NOT NULL,
+  "notes" text,
+  "created_at" timestamp DEFAULT now() NOT NULL
+);--> statement-breakpoint
+
+DO $$ BEGIN
+  ALTER TABLE "notice_service_attempts" ADD CONSTRAINT "notice_service_attempts_generated_notice_document_id_generated_notice_documents_id_fk"
+    FOREIGN KEY ("generated_notice_document_id") REFERENCES "public"."generated_notice_documents"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION WHEN duplicate_object OR undefined_table THEN null; END $$;--> statement-breakpoint
+
+DO $$ BEGIN
+  ALTER TABLE "notice_service_attempts" ADD CONSTRAINT "notice_service_attempts_user_id_users_id_fk"
+    FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION WHEN duplicate_object THEN null; END $$;--> statement-breakpoint
+
+DO $$ BEGIN
+  ALTER TABLE "notice_service_attempts" ADD CONSTRAINT "notice_service_attempts_method_id_service_methods_id_fk"
+    FOREIGN KEY ("method_id") REFERENCES "public"."service_methods"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION WHEN duplicate_object OR undefined_table THEN null; END $$;--> statement-breakpoint
+
+CREATE INDEX IF NOT EXISTS "idx_notice_service_attempts_notice" ON "notice_service_attempts" USING btree ("generated_notice_document_id");--> statement-breakpoint
+
+CREATE TABLE IF NOT EXISTS "notice_service_attempt_photos" (
+  "id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "attempt_id" varchar NOT NULL,
+  "storage_path" text NOT NULL,
+  "file_name" text NOT NULL,
+  "content_type" varchar(64) NOT NULL,
+  "size_bytes" integer NOT NULL,
+  "uploaded_by_user_id" varchar,
+  "created_at" timestamp DEFAULT now() NOT NULL
+);--> statement-breakpoint
+
+DO $$ BEGIN
+  ALTER TABLE "notice_service_attempt_photos" ADD CONSTRAINT "notice_service_attempt_photos_attempt_id_notice_service_attempts_id_fk"
+    FOREIGN KEY ("attempt_id") REFERENCES "public"."notice_service_attempts"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION WHEN duplicate_object THEN null; END $$;--> statement-breakpoint
+
+DO $$ BEGIN
+  ALTER TABLE "notice_service_attempt_photos" ADD CONSTRAINT "notice_service_attempt_photos_uploaded_by_user_id_users_id_fk"
+    FOREIGN KEY ("uploaded_by_user_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION WHEN duplicate_object THEN null; END $$;--> statement-breakpoint
+
+CREATE INDEX IF NOT EXISTS "idx_notice_service_attempt_photos_attempt" ON "notice_service_attempt_photos" USING btree ("attempt_id");
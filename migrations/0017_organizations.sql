@@ -0,0 +1,48 @@
+-- Landlord teams: an organization owned by one landlord account, with
+-- invited members who act on the owner's data under a role.
+CREATE TABLE IF NOT EXISTS "organizations" (
+  "id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "name" text NOT NULL,
+  "owner_user_id" varchar NOT NULL,
+  "created_at" timestamp DEFAULT now() NOT NULL,
+  "updated_at" timestamp DEFAULT now() NOT NULL,
+  CONSTRAINT "organizations_owner_user_id_unique" UNIQUE("owner_user_id")
+);--> statement-breakpoint
+
+CREATE TABLE IF NOT EXISTS "organization_members" (
+  "id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "organization_id" varchar NOT NULL,
+  "email" varchar NOT NULL,
+  "role" varchar(24) NOT NULL,
+  "user_id" varchar,
+  "invite_token" varchar(64),
+  "invited_at" timestamp,
+  "invited_by_user_id" varchar,
+  "joined_at" timestamp,
+  "created_at" timestamp DEFAULT now() NOT NULL,
+  CONSTRAINT "organization_members_user_id_unique" UNIQUE("user_id"),
+  CONSTRAINT "organization_members_invite_token_unique" UNIQUE("invite_token")
+);--> statement-breakpoint
+
+DO $$ BEGIN
+  ALTER TABLE "organizations" ADD CONSTRAINT "organizations_owner_user_id_users_id_fk"
+    FOREIGN KEY ("owner_user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION WHEN duplicate_object THEN null; END $$;--> statement-breakpoint
+
+DO $$ BEGIN
+  ALTER TABLE "organization_members" ADD CONSTRAINT "organization_members_organization_id_organizations_id_fk"
+    FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION WHEN duplicate_object THEN null; END $$;--> statement-breakpoint
+
+DO $$ BEGIN
+  ALTER TABLE "organization_members" ADD CONSTRAINT "organization_members_user_id_users_id_fk"
+    FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION WHEN duplicate_object THEN null; END $$;--> statement-breakpoint
+
+DO $$ BEGIN
+  ALTER TABLE "organization_members" ADD CONSTRAINT "organization_members_invited_by_user_id_users_id_fk"
+    FOREIGN KEY ("invited_by_user_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION WHEN duplicate_object THEN null; END $$;--> statement-breakpoint
+
+CREATE INDEX IF NOT EXISTS "idx_organization_members_org" ON "organization_members" USING btree ("organization_id");--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "idx_organization_members_org_email" ON "organization_members" USING btree ("organization_id","email");
@@ -0,0 +1,17 @@
+-- Screening providers: each landlord picks the provider their screening
+-- credentials belong to, and every order records the provider it went to.
+-- Raw webhook bodies are no longer assumed to be XML.
+ALTER TABLE "landlord_screening_credentials" ADD COLUMN IF NOT EXISTS "provider" varchar(32) DEFAULT 'digitaldelve' NOT NULL;--> statement-breakpoint
+ALTER TABLE "rental_screening_orders" ADD COLUMN IF NOT EXISTS "provider" varchar(32) DEFAULT 'digitaldelve' NOT NULL;--> statement-breakpoint
+
+DO $$ BEGIN
+  IF EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'rental_screening_orders' AND column_name = 'raw_status_xml') THEN
+    ALTER TABLE "rental_screening_orders" RENAME COLUMN "raw_status_xml" TO "raw_status_payload";
+  END IF;
+END $$;--> statement-breakpoint
+
+DO $$ BEGIN
+  IF EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'rental_screening_orders' AND column_name = 'raw_result_xml') THEN
+    ALTER TABLE "rental_screening_orders" RENAME COLUMN "raw_result_xml" TO "raw_result_payload";
+  END IF;
+END $$;
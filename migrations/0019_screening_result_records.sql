@@ -0,0 +1,28 @@
+-- Structured screening results: credit score, collections, evictions and
+-- criminal records parsed from each order's result webhook.
+CREATE TABLE IF NOT EXISTS "screening_result_records" (
+  "id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "order_id" varchar NOT NULL,
+  "kind" varchar(16) NOT NULL,
+  "credit_score" integer,
+  "score_band" varchar(16),
+  "creditor_name" text,
+  "amount_cents" integer,
+  "housing_related" boolean DEFAULT false NOT NULL,
+  "case_number" text,
+  "court" text,
+  "filed_on" date,
+  "disposition" varchar(16),
+  "disposition_on" date,
+  "offense_class" varchar(16),
+  "offense_description" text,
+  "offense_on" date,
+  "created_at" timestamp DEFAULT now() NOT NULL
+);--> statement-breakpoint
+
+DO $$ BEGIN
+  ALTER TABLE "screening_result_records" ADD CONSTRAINT "screening_result_records_order_id_rental_screening_orders_id_fk"
+    FOREIGN KEY ("order_id") REFERENCES "public"."rental_screening_orders"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION WHEN duplicate_object THEN null; END $$;--> statement-breakpoint
+
+CREATE INDEX IF NOT EXISTS "idx_screening_result_records_order" ON "screening_result_records" USING btree ("order_id");
@@ -0,0 +1,34 @@
+-- Fair-chance individualized assessments attached to denial decision audit
+-- log entries.
+CREATE TABLE IF NOT EXISTS "individualized_assessments" (
+  "id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "audit_log_id" varchar NOT NULL,
+  "user_id" varchar NOT NULL,
+  "required_steps" jsonb NOT NULL,
+  "mitigating_factors" jsonb DEFAULT '[]'::jsonb NOT NULL,
+  "offense_relevance" text,
+  "assessment_notes" text,
+  "pre_adverse_notice_sent_on" date,
+  "response_days" integer DEFAULT 5 NOT NULL,
+  "response_day_type" varchar(16) DEFAULT 'business' NOT NULL,
+  "response_deadline" date,
+  "response_deadline_explain" text,
+  "applicant_responded_on" date,
+  "applicant_response" text,
+  "completed_at" timestamp,
+  "created_at" timestamp DEFAULT now() NOT NULL,
+  "updated_at" timestamp DEFAULT now() NOT NULL,
+  CONSTRAINT "individualized_assessments_audit_log_id_unique" UNIQUE("audit_log_id")
+);--> statement-breakpoint
+
+DO $$ BEGIN
+  ALTER TABLE "individualized_assessments" ADD CONSTRAINT "individualized_assessments_audit_log_id_denial_decision_audit_logs_id_fk"
+    FOREIGN KEY ("audit_log_id") REFERENCES "public"."denial_decision_audit_logs"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION WHEN duplicate_object THEN null; END $$;--> statement-breakpoint
+
+DO $$ BEGIN
+  ALTER TABLE "individualized_assessments" ADD CONSTRAINT "individualized_assessments_user_id_users_id_fk"
+    FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION WHEN duplicate_object THEN null; END $$;--> statement-breakpoint
+
+CREATE INDEX IF NOT EXISTS "idx_individualized_assessments_user" ON "individualized_assessments" USING btree ("user_id");
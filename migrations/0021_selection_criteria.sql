@@ -0,0 +1,39 @@
+-- Versioned tenant selection criteria per rental property, the version each
+-- applicant acknowledged, and the version a denial decision was checked
+-- against.
+CREATE TABLE IF NOT EXISTS "rental_property_selection_criteria" (
+  "id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "property_id" varchar NOT NULL,
+  "version" integer NOT NULL,
+  "criteria_json" jsonb NOT NULL,
+  "published_by_user_id" varchar,
+  "published_at" timestamp DEFAULT now() NOT NULL
+);--> statement-breakpoint
+
+DO $$ BEGIN
+  ALTER TABLE "rental_property_selection_criteria" ADD CONSTRAINT "rental_property_selection_criteria_property_id_rental_properties_id_fk"
+    FOREIGN KEY ("property_id") REFERENCES "public"."rental_properties"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION WHEN duplicate_object THEN null; END $$;--> statement-breakpoint
+
+DO $$ BEGIN
+  ALTER TABLE "rental_property_selection_criteria" ADD CONSTRAINT "rental_property_selection_criteria_published_by_user_id_users_id_fk"
+    FOREIGN KEY ("published_by_user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION WHEN duplicate_object THEN null; END $$;--> statement-breakpoint
+
+CREATE UNIQUE INDEX IF NOT EXISTS "idx_selection_criteria_property_version" ON "rental_property_selection_criteria" USING btree ("property_id","version");--> statement-breakpoint
+
+ALTER TABLE "rental_submission_people" ADD COLUMN IF NOT EXISTS "selection_criteria_ack_id" varchar;--> statement-breakpoint
+ALTER TABLE "rental_submission_people" ADD COLUMN IF NOT EXISTS "selection_criteria_acknowledged_at" timestamp;--> statement-breakpoint
+
+DO $$ BEGIN
+  ALTER TABLE "rental_submission_people" ADD CONSTRAINT "rental_submission_people_selection_criteria_ack_id_rental_property_selection_criteria_id_fk"
+    FOREIGN KEY ("selection_criteria_ack_id") REFERENCES "public"."rental_property_selection_criteria"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION WHEN duplicate_object THEN null; END $$;--> statement-breakpoint
+
+ALTER TABLE "denial_decision_audit_logs" ADD COLUMN IF NOT EXISTS "selection_criteria_id" varchar;--> statement-breakpoint
+ALTER TABLE "denial_decision_audit_logs" ADD COLUMN IF NOT EXISTS "unpublished_criteria" jsonb;--> statement-breakpoint
+
+DO $$ BEGIN
+  ALTER TABLE "denial_decision_audit_logs" ADD CONSTRAINT "denial_decision_audit_logs_selection_criteria_id_rental_property_selection_criteria_id_fk"
+    FOREIGN KEY ("selection_criteria_id") REFERENCES "public"."rental_property_selection_criteria"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION WHEN duplicate_object THEN null; END $$;
@@ -0,0 +1,39 @@
+-- Per-person income sources on rental submissions and the household income
+-- check recorded on the submission.
+CREATE TABLE IF NOT EXISTS "rental_income_sources" (
+  "id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "submission_id" varchar NOT NULL,
+  "person_id" varchar NOT NULL,
+  "source_type" varchar(20) NOT NULL,
+  "payer_name" text,
+  "pay_frequency" varchar(16) NOT NULL,
+  "gross_amount_cents" integer NOT NULL,
+  "start_date" date,
+  "document_file_id" varchar,
+  "origin" varchar(16) DEFAULT 'entered' NOT NULL,
+  "verified_at" timestamp,
+  "created_at" timestamp DEFAULT now() NOT NULL,
+  "updated_at" timestamp DEFAULT now() NOT NULL
+);--> statement-breakpoint
+
+DO $$ BEGIN
+  ALTER TABLE "rental_income_sources" ADD CONSTRAINT "rental_income_sources_submission_id_rental_submissions_id_fk"
+    FOREIGN KEY ("submission_id") REFERENCES "public"."rental_submissions"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION WHEN duplicate_object THEN null; END $$;--> statement-breakpoint
+
+DO $$ BEGIN
+  ALTER TABLE "rental_income_sources" ADD CONSTRAINT "rental_income_sources_person_id_rental_submission_people_id_fk"
+    FOREIGN KEY ("person_id") REFERENCES "public"."rental_submission_people"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION WHEN duplicate_object THEN null; END $$;--> statement-breakpoint
+
+DO $$ BEGIN
+  ALTER TABLE "rental_income_sources" ADD CONSTRAINT "rental_income_sources_document_file_id_rental_submission_files_id_fk"
+    FOREIGN KEY ("document_file_id") REFERENCES "public"."rental_submission_files"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION WHEN duplicate_object THEN null; END $$;--> statement-breakpoint
+
+CREATE INDEX IF NOT EXISTS "idx_rental_income_sources_submission" ON "rental_income_sources" USING btree ("submission_id");--> statement-breakpoint
+
+ALTER TABLE "rental_submissions" ADD COLUMN IF NOT EXISTS "income_monthly_cents" integer;--> statement-breakpoint
+ALTER TABLE "rental_submissions" ADD COLUMN IF NOT EXISTS "income_required_monthly_cents" integer;--> statement-breakpoint
+ALTER TABLE "rental_submissions" ADD COLUMN IF NOT EXISTS "income_meets_requirement" boolean;--> statement-breakpoint
+ALTER TABLE "rental_submissions" ADD COLUMN IF NOT EXISTS "income_checked_at" timestamp;
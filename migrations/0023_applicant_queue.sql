@@ -0,0 +1,7 @@
+-- Per-unit applicant queue: a waitlisted submission status, when the waitlist
+-- notice went out, and whether a property decides applications in the order
+-- they were completed.
+ALTER TYPE "public"."rental_submission_status" ADD VALUE IF NOT EXISTS 'waitlisted';--> statement-breakpoint
+
+ALTER TABLE "rental_submissions" ADD COLUMN IF NOT EXISTS "waitlisted_at" timestamp;--> statement-breakpoint
+ALTER TABLE "rental_properties" ADD COLUMN IF NOT EXISTS "applicant_queue_policy" varchar(20) DEFAULT 'landlord_choice' NOT NULL;
@@ -0,0 +1,8 @@
+-- Lease-signing deadline and optional holding deposit on approvals. Expired
+-- holds reopen the application links that were paused for the approval.
+ALTER TABLE "rental_decisions" ADD COLUMN IF NOT EXISTS "lease_sign_deadline_at" timestamp;--> statement-breakpoint
+ALTER TABLE "rental_decisions" ADD COLUMN IF NOT EXISTS "holding_deposit_request_id" varchar;--> statement-breakpoint
+ALTER TABLE "rental_decisions" ADD COLUMN IF NOT EXISTS "lease_signed_at" timestamp;--> statement-breakpoint
+ALTER TABLE "rental_decisions" ADD COLUMN IF NOT EXISTS "paused_application_link_ids" jsonb;--> statement-breakpoint
+ALTER TABLE "rental_decisions" ADD COLUMN IF NOT EXISTS "hold_completed_at" timestamp;--> statement-breakpoint
+ALTER TABLE "rental_decisions" ADD COLUMN IF NOT EXISTS "hold_expired_at" timestamp;
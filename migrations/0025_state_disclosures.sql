@@ -0,0 +1,44 @@
+-- Versioned, effective-dated state lease disclosures edited from the admin
+-- Legislative Monitoring "Disclosures" tab. Generated leases render the
+-- approved version in effect on the lease date and fall back to the built-in
+-- text in server/states/disclosures.ts for states with no approved rows.
+DO $$ BEGIN
+  CREATE TYPE "public"."state_disclosure_status" AS ENUM('draft', 'in_review', 'approved', 'archived');
+EXCEPTION WHEN duplicate_object THEN null; END $$;--> statement-breakpoint
+
+CREATE TABLE IF NOT EXISTS "state_disclosures" (
+  "id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "state_id" varchar(2) NOT NULL,
+  "disclosure_key" varchar(64) NOT NULL,
+  "title" text NOT NULL,
+  "body" text NOT NULL,
+  "citation" text,
+  "category" varchar(32),
+  "sort_order" integer DEFAULT 0,
+  "version" integer DEFAULT 1 NOT NULL,
+  "effective_date" date NOT NULL,
+  "status" "state_disclosure_status" DEFAULT 'draft',
+  "created_by" varchar,
+  "submitted_at" timestamp,
+  "reviewed_by_user_id" varchar,
+  "reviewed_at" timestamp,
+  "review_notes" text,
+  "needs_review" boolean DEFAULT false,
+  "needs_review_reason" text,
+  "source_bill_id" varchar,
+  "created_at" timestamp DEFAULT now(),
+  "updated_at" timestamp DEFAULT now()
+);--> statement-breakpoint
+
+DO $$ BEGIN
+  ALTER TABLE "state_disclosures" ADD CONSTRAINT "state_disclosures_state_id_states_id_fk"
+    FOREIGN KEY ("state_id") REFERENCES "public"."states"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION WHEN duplicate_object THEN null; END $$;--> statement-breakpoint
+
+DO $$ BEGIN
+  ALTER TABLE "state_disclosures" ADD CONSTRAINT "state_disclosures_reviewed_by_user_id_users_id_fk"
+    FOREIGN KEY ("reviewed_by_user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION WHEN duplicate_object THEN null; END $$;--> statement-breakpoint
+
+CREATE UNIQUE INDEX IF NOT EXISTS "idx_state_disclosures_key_version" ON "state_disclosures" USING btree ("state_id","disclosure_key","version");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "idx_state_disclosures_state" ON "state_disclosures" USING btree ("state_id");
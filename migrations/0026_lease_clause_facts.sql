@@ -0,0 +1,4 @@
+-- Year built on rental properties. The lease clause library makes the
+-- lead-based paint addendum mandatory for pre-1978 properties and leaves it
+-- out for newer ones; unknown years leave it to the landlord.
+ALTER TABLE "rental_properties" ADD COLUMN IF NOT EXISTS "year_built" integer;
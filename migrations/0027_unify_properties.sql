@@ -0,0 +1,100 @@
+-- One property model. rental_properties (with rental_units) is the property
+-- landlords pick everywhere in the UI; the legacy properties table is retired.
+-- Every legacy row is matched to the same landlord's rental property at the
+-- same address, or copied across as a new rental property, and
+-- legacy_property_id records the mapping. The ledger, saved and uploaded
+-- documents, retention settings and denial audit logs are then re-pointed at
+-- rental_properties so they keep the property the landlord selected.
+ALTER TABLE "rental_properties" ADD COLUMN IF NOT EXISTS "county" text;--> statement-breakpoint
+ALTER TABLE "rental_properties" ADD COLUMN IF NOT EXISTS "legacy_property_id" varchar;--> statement-breakpoint
+
+-- Same landlord, same street address and ZIP: reuse the existing rental property.
+UPDATE "rental_properties" rp
+SET "legacy_property_id" = m."property_id",
+    "county" = COALESCE(rp."county", m."county")
+FROM (
+  SELECT DISTINCT ON (p."id") p."id" AS "property_id", p."county", rp2."id" AS "rental_property_id"
+  FROM "properties" p
+  JOIN "rental_properties" rp2
+    ON rp2."user_id" = p."user_id"
+   AND lower(trim(COALESCE(rp2."address", ''))) = lower(trim(p."address"))
+   AND COALESCE(rp2."zip_code", '') = COALESCE(p."zip_code", '')
+  WHERE rp2."legacy_property_id" IS NULL
+    AND NOT EXISTS (SELECT 1 FROM "rental_properties" o WHERE o."legacy_property_id" = p."id")
+  ORDER BY p."id", rp2."created_at"
+) m
+WHERE rp."id" = m."rental_property_id";--> statement-breakpoint
+
+-- Everything else is copied across with the default application settings.
+INSERT INTO "rental_properties" (
+  "user_id", "name", "address", "city", "county", "state", "zip_code", "property_type", "notes",
+  "default_cover_page_json", "default_field_schema_json", "legacy_property_id", "created_at", "updated_at"
+)
+SELECT
+  p."user_id", p."name", p."address", p."city", p."county", p."state", p."zip_code", p."property_type", p."notes",
+  '{"title": "Rental Application Requirements", "intro": "Please read the following requirements carefully before submitting your application. Applications are reviewed in the order received.", "sections": [{"id": "processing_time", "heading": "Processing Time", "body": "Most applications are processed within 1–3 business days."}, {"id": "required_uploads", "heading": "Required Documents", "body": "Government-issued ID and proof of income are required. Additional documents may be requested."}, {"id": "move_in_funds", "heading": "Move-In Funds", "body": "Move-in funds are due upon approval unless otherwise stated in the rental terms above."}, {"id": "pet_policy", "heading": "Pet Policy", "body": "Pets may require approval and additional deposits or fees. Unauthorized pets may result in denial or lease violation."}, {"id": "renters_insurance", "heading": "Renters Insurance", "body": "Renters insurance may be required prior to move-in and throughout the lease term."}, {"id": "fees", "heading": "Fees", "body": "Late fees and other administrative fees may apply per the lease agreement."}, {"id": "no_verbal", "heading": "No Verbal Agreements", "body": "All agreements must be in writing. Verbal statements do not modify the lease."}], "footerNote": ""}'::jsonb,
+  '{"stateScope": "all_leaseshield_states", "fields": {"phone": {"visibility": "required"}, "dlNumber": {"visibility": "optional"}, "dlState": {"visibility": "optional"}, "ssn": {"visibility": "hidden"}, "dob": {"visibility": "hidden"}, "currentAddress": {"visibility": "required"}, "previousAddresses": {"visibility": "required"}, "employmentHistory": {"visibility": "required"}, "rentalHistory": {"visibility": "optional"}, "vehicles": {"visibility": "optional"}, "pets": {"visibility": "optional"}, "emergencyContact": {"visibility": "optional"}, "desiredMoveInDate": {"visibility": "optional"}, "numberOfOccupants": {"visibility": "optional"}, "personalReferences": {"visibility": "optional"}, "housingVoucher": {"visibility": "hidden"}, "referralSource": {"visibility": "optional"}, "currentLandlordContact": {"visibility": "optional"}, "employerPhone": {"visibility": "optional"}, "monthlyIncome": {"visibility": "required"}, "reasonForMoving": {"visibility": "optional"}}, "historyRules": {"minAddressYears": 2, "minEmploymentYears": 2, "minPreviousRentals": 2}, "uploads": {"govId": {"required": true, "label": "Government ID"}, "paystubs30Days": {"required": true, "label": "Paystubs (last 30 days)"}, "taxDocsSelfEmployed": {"required": false, "label": "Self-employed tax documents (Schedule C, etc.)"}, "otherIncome": {"required": false, "label": "Other income documentation"}}}'::jsonb,
+  p."id", p."created_at", p."updated_at"
+FROM "properties" p
+WHERE NOT EXISTS (SELECT 1 FROM "rental_properties" rp WHERE rp."legacy_property_id" = p."id");--> statement-breakpoint
+
+CREATE UNIQUE INDEX IF NOT EXISTS "idx_rental_properties_legacy_property" ON "rental_properties" USING btree ("legacy_property_id") WHERE "legacy_property_id" IS NOT NULL;--> statement-breakpoint
+
+ALTER TABLE "rent_ledger_entries" DROP CONSTRAINT IF EXISTS "rent_ledger_entries_property_id_properties_id_fk";--> statement-breakpoint
+UPDATE "rent_ledger_entries" t SET "property_id" = rp."id"
+FROM "rental_properties" rp
+WHERE rp."legacy_property_id" = t."property_id";--> statement-breakpoint
+UPDATE "rent_ledger_entries" SET "property_id" = NULL
+WHERE "property_id" IS NOT NULL
+  AND "property_id" NOT IN (SELECT "id" FROM "rental_properties");--> statement-breakpoint
+DO $$ BEGIN
+  ALTER TABLE "rent_ledger_entries" ADD CONSTRAINT "rent_ledger_entries_property_id_rental_properties_id_fk"
+    FOREIGN KEY ("property_id") REFERENCES "public"."rental_properties"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION WHEN duplicate_object THEN null; END $$;--> statement-breakpoint
+
+ALTER TABLE "saved_documents" DROP CONSTRAINT IF EXISTS "saved_documents_property_id_properties_id_fk";--> statement-breakpoint
+UPDATE "saved_documents" t SET "property_id" = rp."id"
+FROM "rental_properties" rp
+WHERE rp."legacy_property_id" = t."property_id";--> statement-breakpoint
+UPDATE "saved_documents" SET "property_id" = NULL
+WHERE "property_id" IS NOT NULL
+  AND "property_id" NOT IN (SELECT "id" FROM "rental_properties");--> statement-breakpoint
+DO $$ BEGIN
+  ALTER TABLE "saved_documents" ADD CONSTRAINT "saved_documents_property_id_rental_properties_id_fk"
+    FOREIGN KEY ("property_id") REFERENCES "public"."rental_properties"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION WHEN duplicate_object THEN null; END $$;--> statement-breakpoint
+
+ALTER TABLE "uploaded_documents" DROP CONSTRAINT IF EXISTS "uploaded_documents_property_id_properties_id_fk";--> statement-breakpoint
+UPDATE "uploaded_documents" t SET "property_id" = rp."id"
+FROM "rental_properties" rp
+WHERE rp."legacy_property_id" = t."property_id";--> statement-breakpoint
+UPDATE "uploaded_documents" SET "property_id" = NULL
+WHERE "property_id" IS NOT NULL
+  AND "property_id" NOT IN (SELECT "id" FROM "rental_properties");--> statement-breakpoint
+DO $$ BEGIN
+  ALTER TABLE "uploaded_documents" ADD CONSTRAINT "uploaded_documents_property_id_rental_properties_id_fk"
+    FOREIGN KEY ("property_id") REFERENCES "public"."rental_properties"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION WHEN duplicate_object THEN null; END $$;--> statement-breakpoint
+
+ALTER TABLE "denial_decision_audit_logs" DROP CONSTRAINT IF EXISTS "denial_decision_audit_logs_property_id_properties_id_fk";--> statement-breakpoint
+UPDATE "denial_decision_audit_logs" t SET "property_id" = rp."id"
+FROM "rental_properties" rp
+WHERE rp."legacy_property_id" = t."property_id";--> statement-breakpoint
+UPDATE "denial_decision_audit_logs" SET "property_id" = NULL
+WHERE "property_id" IS NOT NULL
+  AND "property_id" NOT IN (SELECT "id" FROM "rental_properties");--> statement-breakpoint
+DO $$ BEGIN
+  ALTER TABLE "denial_decision_audit_logs" ADD CONSTRAINT "denial_decision_audit_logs_property_id_rental_properties_id_fk"
+    FOREIGN KEY ("property_id") REFERENCES "public"."rental_properties"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION WHEN duplicate_object THEN null; END $$;--> statement-breakpoint
+
+ALTER TABLE "retention_settings" DROP CONSTRAINT IF EXISTS "retention_settings_property_id_properties_id_fk";--> statement-breakpoint
+UPDATE "retention_settings" t SET "property_id" = rp."id"
+FROM "rental_properties" rp
+WHERE rp."legacy_property_id" = t."property_id";--> statement-breakpoint
+DELETE FROM "retention_settings"
+WHERE "property_id" NOT IN (SELECT "id" FROM "rental_properties");--> statement-breakpoint
+DO $$ BEGIN
+  ALTER TABLE "retention_settings" ADD CONSTRAINT "retention_settings_property_id_rental_properties_id_fk"
+    FOREIGN KEY ("property_id") REFERENCES "public"."rental_properties"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION WHEN duplicate_object THEN null; END $$;
@@ -0,0 +1,68 @@
+-- Double-entry tenant ledger. Posted rent_ledger_entries are immutable:
+-- mistakes are corrected by reversal, NSF return and adjustment entries that
+-- point at the entry they correct. Payments are allocated to the charges they
+-- pay down in rent_ledger_allocations (see shared/tenantLedger.ts).
+ALTER TABLE "rent_ledger_entries" ADD COLUMN IF NOT EXISTS "reverses_entry_id" varchar;--> statement-breakpoint
+ALTER TABLE "rent_ledger_entries" ADD COLUMN IF NOT EXISTS "adjusts_entry_id" varchar;--> statement-breakpoint
+ALTER TABLE "rent_ledger_entries" ADD COLUMN IF NOT EXISTS "allocation_rule" varchar(20);--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "idx_rent_ledger_reverses" ON "rent_ledger_entries" USING btree ("reverses_entry_id");--> statement-breakpoint
+
+-- An entry can be reversed at most once.
+CREATE UNIQUE INDEX IF NOT EXISTS "idx_rent_ledger_reverses_unique" ON "rent_ledger_entries" USING btree ("reverses_entry_id") WHERE "reverses_entry_id" IS NOT NULL;--> statement-breakpoint
+
+CREATE TABLE IF NOT EXISTS "rent_ledger_allocations" (
+  "id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "user_id" varchar NOT NULL,
+  "tenancy_id" varchar NOT NULL,
+  "credit_entry_id" varchar NOT NULL,
+  "debit_entry_id" varchar NOT NULL,
+  "amount" integer NOT NULL,
+  "released_at" timestamp,
+  "released_by_entry_id" varchar,
+  "created_at" timestamp DEFAULT now() NOT NULL
+);--> statement-breakpoint
+
+DO $$ BEGIN
+  ALTER TABLE "rent_ledger_allocations" ADD CONSTRAINT "rent_ledger_allocations_user_id_users_id_fk"
+    FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION WHEN duplicate_object THEN null; END $$;--> statement-breakpoint
+
+DO $$ BEGIN
+  ALTER TABLE "rent_ledger_allocations" ADD CONSTRAINT "rent_ledger_allocations_tenancy_id_tenancies_id_fk"
+    FOREIGN KEY ("tenancy_id") REFERENCES "public"."tenancies"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION WHEN duplicate_object THEN null; END $$;--> statement-breakpoint
+
+DO $$ BEGIN
+  ALTER TABLE "rent_ledger_allocations" ADD CONSTRAINT "rent_ledger_allocations_credit_entry_id_rent_ledger_entries_id_fk"
+    FOREIGN KEY ("credit_entry_id") REFERENCES "public"."rent_ledger_entries"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION WHEN duplicate_object THEN null; END $$;--> statement-breakpoint
+
+DO $$ BEGIN
+  ALTER TABLE "rent_ledger_allocations" ADD CONSTRAINT "rent_ledger_allocations_debit_entry_id_rent_ledger_entries_id_fk"
+    FOREIGN KEY ("debit_entry_id") REFERENCES "public"."rent_ledger_entries"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION WHEN duplicate_object THEN null; END $$;--> statement-breakpoint
+
+CREATE INDEX IF NOT EXISTS "idx_rent_ledger_allocations_tenancy" ON "rent_ledger_allocations" USING btree ("tenancy_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "idx_rent_ledger_allocations_credit" ON "rent_ledger_allocations" USING btree ("credit_entry_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "idx_rent_ledger_allocations_debit" ON "rent_ledger_allocations" USING btree ("debit_entry_id");--> statement-breakpoint
+
+-- Refuse edits to the money on a posted entry, whatever code path tries.
+-- Link columns (property, tenancy) may still be cleared by ON DELETE SET NULL,
+-- and whole rows may still go with account deletion.
+CREATE OR REPLACE FUNCTION "rent_ledger_entries_immutable"() RETURNS trigger AS $$
+BEGIN
+  IF NEW.amount_expected IS DISTINCT FROM OLD.amount_expected
+    OR NEW.amount_received IS DISTINCT FROM OLD.amount_received
+    OR NEW.type IS DISTINCT FROM OLD.type
+    OR NEW.effective_date IS DISTINCT FROM OLD.effective_date
+    OR NEW.reverses_entry_id IS DISTINCT FROM OLD.reverses_entry_id
+    OR NEW.adjusts_entry_id IS DISTINCT FROM OLD.adjusts_entry_id THEN
+    RAISE EXCEPTION 'Posted rent ledger entries are immutable; post a reversal or adjustment instead';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;--> statement-breakpoint
+
+DROP TRIGGER IF EXISTS "rent_ledger_entries_immutable" ON "rent_ledger_entries";--> statement-breakpoint
+CREATE TRIGGER "rent_ledger_entries_immutable" BEFORE UPDATE ON "rent_ledger_entries"
+  FOR EACH ROW EXECUTE FUNCTION "rent_ledger_entries_immutable"();
@@ -0,0 +1,51 @@
+-- Property expenses, categorized for IRS Schedule E. Receipts live in private
+-- object storage; the row keeps the path.
+CREATE TABLE IF NOT EXISTS "property_expenses" (
+  "id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "user_id" varchar NOT NULL,
+  "rental_property_id" varchar NOT NULL,
+  "rental_unit_id" varchar,
+  "vendor_id" varchar,
+  "maintenance_request_id" varchar,
+  "category" varchar(32) NOT NULL,
+  "amount" integer NOT NULL,
+  "expense_date" date NOT NULL,
+  "payee" text,
+  "description" text,
+  "payment_method" varchar(50),
+  "receipt_path" text,
+  "receipt_file_name" text,
+  "receipt_content_type" varchar(64),
+  "receipt_size_bytes" integer,
+  "created_at" timestamp DEFAULT now() NOT NULL,
+  "updated_at" timestamp DEFAULT now() NOT NULL
+);--> statement-breakpoint
+
+DO $$ BEGIN
+  ALTER TABLE "property_expenses" ADD CONSTRAINT "property_expenses_user_id_users_id_fk"
+    FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION WHEN duplicate_object THEN null; END $$;--> statement-breakpoint
+
+DO $$ BEGIN
+  ALTER TABLE "property_expenses" ADD CONSTRAINT "property_expenses_rental_property_id_rental_properties_id_fk"
+    FOREIGN KEY ("rental_property_id") REFERENCES "public"."rental_properties"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION WHEN duplicate_object THEN null; END $$;--> statement-breakpoint
+
+DO $$ BEGIN
+  ALTER TABLE "property_expenses" ADD CONSTRAINT "property_expenses_rental_unit_id_rental_units_id_fk"
+    FOREIGN KEY ("rental_unit_id") REFERENCES "public"."rental_units"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION WHEN duplicate_object THEN null; END $$;--> statement-breakpoint
+
+DO $$ BEGIN
+  ALTER TABLE "property_expenses" ADD CONSTRAINT "property_expenses_vendor_id_vendors_id_fk"
+    FOREIGN KEY ("vendor_id") REFERENCES "public"."vendors"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION WHEN duplicate_object THEN null; END $$;--> statement-breakpoint
+
+DO $$ BEGIN
+  ALTER TABLE "property_expenses" ADD CONSTRAINT "property_expenses_maintenance_request_id_maintenance_requests_id_fk"
+    FOREIGN KEY ("maintenance_request_id") REFERENCES "public"."maintenance_requests"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION WHEN duplicate_object THEN null; END $$;--> statement-breakpoint
+
+CREATE INDEX IF NOT EXISTS "idx_property_expenses_user" ON "property_expenses" USING btree ("user_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "idx_property_expenses_property" ON "property_expenses" USING btree ("rental_property_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "idx_property_expenses_date" ON "property_expenses" USING btree ("expense_date");
@@ -54,7 +54,7 @@ export class AIContentService {
         throw new Error(`User not found: ${userId}`);
       }
 
-      const properties = await storage.getPropertiesByUserId(userId);
+      const properties = await storage.getRentalPropertiesByUserId(userId);
       const savedDocs = await storage.getSavedDocumentsByUserId(userId);
       
       const now = new Date();
@@ -66,6 +66,40 @@ export async function uploadApplicantBuffer(
   };
 }
 
+// Generic private-object helpers for files that aren't applicant uploads
+// (e.g. signed document PDFs). Same bucket and prefix, different folder.
+export function getPrivateObjectKey(folder: string, filename: string): string {
+  const { prefix } = getBucketAndPrefix();
+  return `${prefix}/${folder}/${filename}`;
+}
+
+export async function uploadPrivateBuffer(
+  buffer: Buffer,
+  folder: string,
+  filename: string,
+  contentType: string
+): Promise<{ objectKey: string; dbPath: string }> {
+  const { bucketName } = getBucketAndPrefix();
+  const objectKey = getPrivateObjectKey(folder, filename);
+  const bucket = objectStorageClient.bucket(bucketName);
+  await bucket.file(objectKey).save(buffer, { resumable: false, contentType });
+  return {
+    objectKey,
+    dbPath: toDbPath(objectKey),
+  };
+}
+
+export async function downloadPrivateBuffer(dbPath: string): Promise<Buffer | null> {
+  const bucket = objectStorageClient.bucket(dbPathToBucketName(dbPath));
+  const file = bucket.file(dbPathToObjectKey(dbPath));
+  const [exists] = await file.exists();
+  if (!exists) {
+    return null;
+  }
+  const [contents] = await file.download();
+  return contents;
+}
+
 export async function downloadApplicantStream(dbPath: string) {
   const objectKey = dbPathToObjectKey(dbPath);
   const bucketName = dbPathToBucketName(dbPath);
@@ -2,7 +2,7 @@ import { Router, Request, Response } from 'express';
 import bcrypt from 'bcryptjs';
 import crypto from 'crypto';
 import { db } from './db';
-import { users, refreshTokens } from '@shared/schema';
+import { users, refreshTokens, organizations } from '@shared/schema';
 import { eq } from 'drizzle-orm';
 import { z } from 'zod';
 import {
@@ -15,6 +15,9 @@ import {
   TokenPayload,
 } from './jwt';
 import { emailService } from './emailService';
+import { storage } from './storage';
+import { resolveTeamContext } from './utils/organizations';
+import { TEAM_ROLES } from '@shared/organizations';
 
 const router = Router();
 
@@ -50,6 +53,16 @@ const resetPasswordSchema = z.object({
   password: z.string().min(8, 'Password must be at least 8 characters'),
 });
 
+const acceptTenantInviteSchema = z.object({
+  password: z.string().min(8, 'Password must be at least 8 characters'),
+});
+
+const acceptTeamInviteSchema = z.object({
+  password: z.string().min(8, 'Password must be at least 8 characters'),
+  firstName: z.string().optional(),
+  lastName: z.string().optional(),
+});
+
 router.post('/signup', async (req: Request, res: Response) => {
   try {
     const parsed = signupSchema.safeParse(req.body);
@@ -119,6 +132,7 @@ router.post('/signup', async (req: Request, res: Response) => {
         firstName: newUser.firstName,
         lastName: newUser.lastName,
         isAdmin: newUser.isAdmin,
+        role: newUser.role,
         subscriptionStatus: newUser.subscriptionStatus,
         trialEndsAt: newUser.trialEndsAt,
         createdAt: newUser.createdAt,
@@ -183,6 +197,7 @@ router.post('/login', async (req: Request, res: Response) => {
         firstName: user.firstName,
         lastName: user.lastName,
         isAdmin: user.isAdmin,
+        role: user.role,
         preferredState: user.preferredState,
         hasCompletedOnboarding: user.hasCompletedOnboarding,
         subscriptionStatus: user.subscriptionStatus,
@@ -281,6 +296,7 @@ router.post('/refresh', async (req: Request, res: Response) => {
         firstName: user.firstName,
         lastName: user.lastName,
         isAdmin: user.isAdmin,
+        role: user.role,
         preferredState: user.preferredState,
         hasCompletedOnboarding: user.hasCompletedOnboarding,
         subscriptionStatus: user.subscriptionStatus,
@@ -318,22 +334,29 @@ router.get('/user', async (req: Request, res: Response) => {
       return res.status(404).json({ message: 'User not found' });
     }
 
+    // Team members use the owner's subscription and business profile.
+    const team = await resolveTeamContext(user);
+    const account = team.dataOwner;
+
     return res.json({
       id: user.id,
       email: user.email,
       firstName: user.firstName,
       lastName: user.lastName,
       isAdmin: user.isAdmin,
-      preferredState: user.preferredState,
+      role: user.role,
+      teamRole: team.role,
+      organizationName: team.organization?.name || null,
+      preferredState: account.preferredState,
       hasCompletedOnboarding: user.hasCompletedOnboarding,
-      subscriptionStatus: user.subscriptionStatus,
-      billingInterval: user.billingInterval,
-      trialEndsAt: user.trialEndsAt,
-      subscriptionEndsAt: user.subscriptionEndsAt,
-      paymentFailedAt: user.paymentFailedAt,
-      stripeCustomerId: user.stripeCustomerId,
-      businessName: user.businessName,
-      phoneNumber: user.phoneNumber,
+      subscriptionStatus: account.subscriptionStatus,
+      billingInterval: account.billingInterval,
+      trialEndsAt: account.trialEndsAt,
+      subscriptionEndsAt: account.subscriptionEndsAt,
+      paymentFailedAt: account.paymentFailedAt,
+      stripeCustomerId: team.member ? null : user.stripeCustomerId,
+      businessName: account.businessName,
+      phoneNumber: account.phoneNumber,
       notifyLegalUpdates: user.notifyLegalUpdates,
       notifyTemplateRevisions: user.notifyTemplateRevisions,
       notifyBillingAlerts: user.notifyBillingAlerts,
@@ -363,22 +386,29 @@ router.get('/me', async (req: Request, res: Response) => {
       return res.status(404).json({ message: 'User not found' });
     }
 
+    // Team members use the owner's subscription and business profile.
+    const team = await resolveTeamContext(user);
+    const account = team.dataOwner;
+
     return res.json({
       id: user.id,
       email: user.email,
       firstName: user.firstName,
       lastName: user.lastName,
       isAdmin: user.isAdmin,
-      preferredState: user.preferredState,
+      role: user.role,
+      teamRole: team.role,
+      organizationName: team.organization?.name || null,
+      preferredState: account.preferredState,
       hasCompletedOnboarding: user.hasCompletedOnboarding,
-      subscriptionStatus: user.subscriptionStatus,
-      billingInterval: user.billingInterval,
-      trialEndsAt: user.trialEndsAt,
-      subscriptionEndsAt: user.subscriptionEndsAt,
-      paymentFailedAt: user.paymentFailedAt,
-      stripeCustomerId: user.stripeCustomerId,
-      businessName: user.businessName,
-      phoneNumber: user.phoneNumber,
+      subscriptionStatus: account.subscriptionStatus,
+      billingInterval: account.billingInterval,
+      trialEndsAt: account.trialEndsAt,
+      subscriptionEndsAt: account.subscriptionEndsAt,
+      paymentFailedAt: account.paymentFailedAt,
+      stripeCustomerId: team.member ? null : user.stripeCustomerId,
+      businessName: account.businessName,
+      phoneNumber: account.phoneNumber,
       notifyLegalUpdates: user.notifyLegalUpdates,
       notifyTemplateRevisions: user.notifyTemplateRevisions,
       notifyBillingAlerts: user.notifyBillingAlerts,
@@ -476,4 +506,243 @@ router.post('/reset-password', async (req: Request, res: Response) => {
   }
 });
 
+// Tenant portal invite: shows who invited the occupant before they create
+// (or link) their tenant login.
+router.get('/tenant-invite/:token', async (req: Request, res: Response) => {
+  try {
+    const occupant = await storage.getTenancyOccupantByInviteToken(req.params.token);
+    if (!occupant) {
+      return res.status(404).json({ message: 'This invite link is invalid or has already been used' });
+    }
+    const tenancy = await storage.getTenancyById(occupant.tenancyId);
+    if (!tenancy) {
+      return res.status(404).json({ message: 'This invite link is invalid or has already been used' });
+    }
+    const landlord = await storage.getUser(tenancy.userId);
+    const property = tenancy.rentalPropertyId
+      ? await storage.getRentalProperty(tenancy.rentalPropertyId, tenancy.userId)
+      : null;
+    const [existing] = occupant.email
+      ? await db.select({ id: users.id }).from(users).where(eq(users.email, occupant.email)).limit(1)
+      : [];
+
+    return res.json({
+      fullName: occupant.fullName,
+      email: occupant.email,
+      propertyName: property?.name || null,
+      propertyAddress: property?.address || null,
+      landlordName: landlord?.businessName
+        || [landlord?.firstName, landlord?.lastName].filter(Boolean).join(' ')
+        || 'Your landlord',
+      hasAccount: !!existing,
+    });
+  } catch (error) {
+    console.error('Get tenant invite error:', error);
+    return res.status(500).json({ message: 'Failed to load invite' });
+  }
+});
+
+// Accept a tenant portal invite. New emails get a tenant login; an existing
+// tenant login (e.g. a tenant who has rented from another landlord on the
+// platform) is linked after confirming its password. Landlord accounts can't
+// be reused as tenant logins.
+router.post('/tenant-invite/:token/accept', async (req: Request, res: Response) => {
+  try {
+    const parsed = acceptTenantInviteSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0].message });
+    }
+
+    const occupant = await storage.getTenancyOccupantByInviteToken(req.params.token);
+    if (!occupant || !occupant.email) {
+      return res.status(404).json({ message: 'This invite link is invalid or has already been used' });
+    }
+    const email = occupant.email.toLowerCase().trim();
+    const { password } = parsed.data;
+
+    let [user] = await db.select().from(users).where(eq(users.email, email)).limit(1);
+    if (user) {
+      if (user.role !== 'tenant') {
+        return res.status(409).json({
+          message: 'This email is already used by a landlord account. Ask your landlord to invite a different email address.',
+        });
+      }
+      if (!user.passwordHash || !(await bcrypt.compare(password, user.passwordHash))) {
+        return res.status(401).json({ message: 'Incorrect password for your existing tenant login' });
+      }
+    } else {
+      const [first, ...rest] = occupant.fullName.trim().split(/\s+/);
+      const passwordHash = await bcrypt.hash(password, 12);
+      [user] = await db.insert(users).values({
+        email,
+        passwordHash,
+        firstName: first || null,
+        lastName: rest.join(' ') || null,
+        role: 'tenant',
+        hasCompletedOnboarding: true,
+      }).returning();
+    }
+
+    await storage.updateTenancyOccupant(occupant.id, {
+      userId: user.id,
+      portalInviteToken: null,
+    });
+
+    const tokenPayload: TokenPayload = {
+      userId: user.id,
+      email: user.email,
+      isAdmin: user.isAdmin ?? false,
+    };
+
+    const accessToken = generateAccessToken(tokenPayload);
+    const refreshTokenValue = generateRefreshTokenValue();
+
+    await db.insert(refreshTokens).values({
+      userId: user.id,
+      token: hashToken(refreshTokenValue),
+      expiresAt: getRefreshTokenExpiry(),
+    });
+
+    res.cookie('refreshToken', refreshTokenValue, getCookieOptions(req));
+
+    return res.json({
+      message: 'Invite accepted',
+      accessToken,
+      user: {
+        id: user.id,
+        email: user.email,
+        firstName: user.firstName,
+        lastName: user.lastName,
+        isAdmin: user.isAdmin,
+        role: user.role,
+        hasCompletedOnboarding: user.hasCompletedOnboarding,
+        createdAt: user.createdAt,
+      },
+    });
+  } catch (error) {
+    console.error('Accept tenant invite error:', error);
+    return res.status(500).json({ message: 'Failed to accept invite' });
+  }
+});
+
+// Team invite: shows which team and role the invite is for before the member
+// creates (or links) their login.
+router.get('/team-invite/:token', async (req: Request, res: Response) => {
+  try {
+    const member = await storage.getOrganizationMemberByInviteToken(req.params.token);
+    if (!member) {
+      return res.status(404).json({ message: 'This invite link is invalid or has already been used' });
+    }
+    const [organization] = await db.select().from(organizations).where(eq(organizations.id, member.organizationId)).limit(1);
+    if (!organization) {
+      return res.status(404).json({ message: 'This invite link is invalid or has already been used' });
+    }
+    const [existing] = await db.select({ id: users.id }).from(users).where(eq(users.email, member.email)).limit(1);
+
+    return res.json({
+      email: member.email,
+      organizationName: organization.name,
+      role: member.role,
+      roleLabel: TEAM_ROLES.find((r) => r.value === member.role)?.label || member.role,
+      hasAccount: !!existing,
+    });
+  } catch (error) {
+    console.error('Get team invite error:', error);
+    return res.status(500).json({ message: 'Failed to load invite' });
+  }
+});
+
+// Accept a team invite. New emails get a landlord login with no subscription
+// of their own; an existing landlord login is linked after confirming its
+// password. While linked, the login works on the team owner's account.
+router.post('/team-invite/:token/accept', async (req: Request, res: Response) => {
+  try {
+    const parsed = acceptTeamInviteSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0].message });
+    }
+
+    const member = await storage.getOrganizationMemberByInviteToken(req.params.token);
+    if (!member) {
+      return res.status(404).json({ message: 'This invite link is invalid or has already been used' });
+    }
+    const email = member.email;
+    const { password, firstName, lastName } = parsed.data;
+
+    let [user] = await db.select().from(users).where(eq(users.email, email)).limit(1);
+    if (user) {
+      if (user.role === 'tenant') {
+        return res.status(409).json({
+          message: 'This email is used by a tenant portal login. Ask to be invited with a different email address.',
+        });
+      }
+      if (user.isAdmin) {
+        return res.status(409).json({ message: 'Admin accounts can\'t join a team' });
+      }
+      if (!user.passwordHash || !(await bcrypt.compare(password, user.passwordHash))) {
+        return res.status(401).json({ message: 'Incorrect password for your existing login' });
+      }
+      const ownTeam = await storage.getOrganizationByOwner(user.id);
+      if (ownTeam && (await storage.getOrganizationMembers(ownTeam.id)).length > 0) {
+        return res.status(409).json({ message: 'You own a team with members. Remove them before joining another team.' });
+      }
+      const current = await storage.getOrganizationMembershipForUser(user.id);
+      if (current && current.member.id !== member.id) {
+        return res.status(409).json({ message: `You're already a member of ${current.organization.name}` });
+      }
+    } else {
+      const passwordHash = await bcrypt.hash(password, 12);
+      [user] = await db.insert(users).values({
+        email,
+        passwordHash,
+        firstName: firstName?.trim() || null,
+        lastName: lastName?.trim() || null,
+        role: 'landlord',
+        hasCompletedOnboarding: true,
+      }).returning();
+    }
+
+    await storage.updateOrganizationMember(member.id, {
+      userId: user.id,
+      inviteToken: null,
+      joinedAt: new Date(),
+    });
+
+    const tokenPayload: TokenPayload = {
+      userId: user.id,
+      email: user.email,
+      isAdmin: user.isAdmin ?? false,
+    };
+
+    const accessToken = generateAccessToken(tokenPayload);
+    const refreshTokenValue = generateRefreshTokenValue();
+
+    await db.insert(refreshTokens).values({
+      userId: user.id,
+      token: hashToken(refreshTokenValue),
+      expiresAt: getRefreshTokenExpiry(),
+    });
+
+    res.cookie('refreshToken', refreshTokenValue, getCookieOptions(req));
+
+    return res.json({
+      message: 'Invite accepted',
+      accessToken,
+      user: {
+        id: user.id,
+        email: user.email,
+        firstName: user.firstName,
+        lastName: user.lastName,
+        isAdmin: user.isAdmin,
+        role: user.role,
+        hasCompletedOnboarding: user.hasCompletedOnboarding,
+        createdAt: user.createdAt,
+      },
+    });
+  } catch (error) {
+    console.error('Accept team invite error:', error);
+    return res.status(500).json({ message: 'Failed to accept invite' });
+  }
+});
+
 export default router;
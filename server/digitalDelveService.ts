@@ -1,5 +1,12 @@
-import { storage } from "./storage";
 import { XMLParser } from "fast-xml-parser";
+import type { ScreeningCredentials, ScreeningResultRecordInput } from "./screening/types";
+import {
+  creditScoreBand,
+  normalizeCriminalDisposition,
+  normalizeEvictionDisposition,
+  normalizeOffenseClass,
+  normalizeReportDate,
+} from "@shared/screeningResults";
 
 // DigitalDelve SSO API URL (Western Verify's screening platform)
 const DIGITAL_DELVE_SSO_URL = "https://secure.westernverify.com/listeners/sso.cfm";
@@ -29,6 +36,13 @@ function getCredentials() {
   return { username, password };
 }
 
+// The system account, for landlords without their own verified credentials.
+export function getSystemCredentials(): ScreeningCredentials | undefined {
+  const username = process.env.DIGITAL_DELVE_USERNAME;
+  const password = process.env.DIGITAL_DELVE_PASSWORD;
+  return username && password ? { username, password } : undefined;
+}
+
 function escapeXml(str: string | undefined | null): string {
   if (!str) return '';
   return str
@@ -48,12 +62,6 @@ function getXmlValue(obj: any, ...keys: string[]): string | undefined {
   return undefined;
 }
 
-export interface ScreeningCredentials {
-  username: string;
-  password: string;
-  invitationId?: string;
-}
-
 interface AppScreenRequest {
   firstName: string;
   lastName: string;
@@ -367,7 +375,8 @@ export async function getViewReportByRefSsoUrl(
 
 // NOTE: There is NO RetrieveOrderStatus function in Western Verify's API.
 // Status updates are received via webhooks to StatusPostURL and ResultPostURL.
-// See parseStatusWebhook and parseResultWebhook below.
+// See parseStatusWebhook and parseResultWebhook below; the order lifecycle
+// around them lives in screening/orders.ts.
 
 /**
  * Performs server-side SSO request to Western Verify and returns redirect info.
@@ -581,257 +590,97 @@ export function parseResultWebhook(xml: string): WebhookStatusData | null {
   }
 }
 
-export async function processScreeningRequest(
-  submissionId: string,
-  applicantData: {
-    firstName: string;
-    lastName: string;
-    email: string;
-    phone?: string;
-    ssn?: string;
-    dob?: string;
-    address?: string;
-    city?: string;
-    state?: string;
-    zip?: string;
-  },
-  baseUrl: string,
-  invitationId?: string,
-  credentials?: ScreeningCredentials,
-  personId?: string
-): Promise<{ success: boolean; order?: any; error?: string }> {
-  const referenceNumber = `LS-${submissionId.slice(0, 8)}-${Date.now()}`;
-  
-  const webhookSecret = process.env.DIGITAL_DELVE_WEBHOOK_SECRET || "";
-  const tokenParam = webhookSecret ? `?token=${encodeURIComponent(webhookSecret)}` : "";
-  
-  const statusPostUrl = `${baseUrl}/api/webhooks/digitaldelve/status${tokenParam}`;
-  const resultPostUrl = `${baseUrl}/api/webhooks/digitaldelve/result${tokenParam}`;
-
-  // Initialize polling fields - poll for 48 hours, first check in 2 minutes
-  const now = new Date();
-  const nextStatusCheckAt = new Date(now.getTime() + 2 * 60 * 1000); // 2 minutes
-  const pollUntil = new Date(now.getTime() + 48 * 60 * 60 * 1000); // 48 hours
-  
-  const order = await storage.createRentalScreeningOrder({
-    submissionId,
-    personId: personId || null,
-    referenceNumber,
-    invitationId: invitationId || credentials?.invitationId || null,
-    status: "not_sent",
-    reportId: null,
-    reportUrl: null,
-    rawStatusXml: null,
-    rawResultXml: null,
-    errorMessage: null,
-    lastStatusCheckAt: null,
-    nextStatusCheckAt,
-    pollUntil,
-    consecutiveFailures: 0,
-  });
-
-  const result = await sendAppScreenRequest({
-    ...applicantData,
-    referenceNumber,
-    invitationId: invitationId || credentials?.invitationId,
-    statusPostUrl,
-    resultPostUrl,
-    credentials,
-  });
-
-  if (result.success) {
-    const updatedOrder = await storage.updateRentalScreeningOrder(order.id, {
-      status: "sent",
-    });
-    
-    return { success: true, order: updatedOrder || order };
-  } else {
-    await storage.updateRentalScreeningOrder(order.id, {
-      status: "error",
-      errorMessage: result.error,
-    });
-    
-    return { success: false, error: result.error };
-  }
-}
-
-export async function handleStatusWebhook(xml: string): Promise<{ success: boolean; submissionId?: string }> {
-  const data = parseStatusWebhook(xml);
-  if (!data) {
-    console.error("Failed to parse status webhook:", xml);
-    return { success: false };
-  }
-
-  try {
-    const order = await storage.getRentalScreeningOrderByReference(data.referenceNumber);
-
-    if (!order) {
-      console.error("Screening order not found for reference:", data.referenceNumber);
-      return { success: false };
-    }
-    
-    // The STATUS webhook (StatusPostURL) carries intermediate progress only.
-    // Final completion + the report arrive via the RESULT webhook
-    // (ResultPostURL -> handleResultWebhook), which is the sole authority for
-    // marking an order "complete". Never let a status webhook flip an order to
-    // "complete" (that would show "Screening Complete" with no report). Map any
-    // incoming status to a safe intermediate value; unknown/normalized
-    // statuses fall back to "in_progress".
-    const normalized = data.status; // already lowercased + underscored by parseStatusWebhook
-    let mappedStatus: 'sent' | 'in_progress' | 'error';
-    if (normalized === 'error' || normalized === 'failed') {
-      mappedStatus = 'error';
-    } else if (normalized === 'sent' || normalized === 'invitation_sent' || normalized === 'not_sent') {
-      mappedStatus = 'sent';
+// Every element under any of the given tag names, at any depth. Repeated
+// tags parse to arrays, single ones to objects - or to bare values for
+// elements with no children.
+function collectXmlNodes(obj: any, tags: string[], out: any[] = []): any[] {
+  if (!obj || typeof obj !== 'object') return out;
+  for (const [key, value] of Object.entries(obj)) {
+    if (tags.includes(key)) {
+      for (const node of Array.isArray(value) ? value : [value]) {
+        if (node !== null && node !== undefined && node !== '') out.push(node);
+      }
     } else {
-      // in_progress, complete, completed, pending, received, or anything else
-      mappedStatus = 'in_progress';
-    }
-    if (normalized === 'complete' || normalized === 'completed') {
-      console.warn(`[DigitalDelve] Status webhook reported "${data.status}" for ref ${data.referenceNumber}; recording as in_progress and waiting for the result webhook to confirm completion.`);
+      collectXmlNodes(value, tags, out);
     }
-
-    await storage.updateRentalScreeningOrder(order.id, {
-      status: mappedStatus,
-      reportId: data.reportId || order.reportId,
-      reportUrl: data.reportUrl || order.reportUrl,
-      rawStatusXml: data.rawXml,
-    });
-
-    return { success: true, submissionId: order.submissionId };
-  } catch (error) {
-    console.error("Error processing status webhook:", error);
-    return { success: false };
   }
+  return out;
 }
 
-export async function handleResultWebhook(xml: string): Promise<{ success: boolean; submissionId?: string }> {
-  const data = parseResultWebhook(xml);
-  if (!data) {
-    console.error("Failed to parse result webhook:", xml);
-    return { success: false };
-  }
-
-  try {
-    const order = await storage.getRentalScreeningOrderByReference(data.referenceNumber);
-
-    if (!order) {
-      console.error("Screening order not found for reference:", data.referenceNumber);
-      return { success: false };
-    }
-    
-    await storage.updateRentalScreeningOrder(order.id, {
-      status: "complete",
-      reportId: data.reportId || order.reportId,
-      reportUrl: data.reportUrl || order.reportUrl,
-      rawResultXml: data.rawXml,
-    });
+function objectNodes(nodes: any[]): any[] {
+  return nodes.filter((node) => typeof node === 'object');
+}
 
-    return { success: true, submissionId: order.submissionId };
-  } catch (error) {
-    console.error("Error processing result webhook:", error);
-    return { success: false };
-  }
+function parseAmountCents(raw: string | undefined): number | null {
+  if (!raw) return null;
+  const amount = parseFloat(raw.replace(/[$,\s]/g, ''));
+  return Number.isFinite(amount) ? Math.round(amount * 100) : null;
 }
 
 /**
- * Refresh the status-check timestamp for a pending screening order by pinging
- * the SSO view-report endpoint.
- *
- * IMPORTANT: This function NEVER changes the order status. Western Verify's SSO
- * endpoint hands back a portal landing URL even for orders that are merely
- * "invited" (the applicant may not have started), so an SSO redirect URL is NOT
- * a reliable completion signal. Completion is determined SOLELY by the result
- * webhook (ResultPostURL -> handleResultWebhook). If a webhook is genuinely
- * missed, the landlord verifies on Western Verify and uses the explicit
- * "Mark complete" action.
+ * Best-effort extraction of report findings from a result webhook. Western
+ * Verify only embeds report data for packages set up to return it - most
+ * result posts carry just the ReportURL, in which case this returns null.
  */
-export async function syncScreeningStatus(
-  orderId: string,
-  credentials: ScreeningCredentials
-): Promise<{ success: boolean; status: string; newlyCompleted?: boolean; error?: string }> {
+export function parseResultRecords(xml: string): ScreeningResultRecordInput[] | null {
+  let parsed: any;
   try {
-    const order = await storage.getRentalScreeningOrderById(orderId);
-    if (!order) {
-      return { success: false, status: 'error', error: 'Order not found' };
-    }
+    parsed = xmlParser.parse(xml);
+  } catch (error) {
+    console.error("Error parsing result webhook report data:", error);
+    return null;
+  }
 
-    if (!order.referenceNumber) {
-      return { success: false, status: order.status, error: 'No reference number' };
-    }
+  const reportRoots = objectNodes(collectXmlNodes(parsed, ['Report', 'ReportData', 'ScreeningReport', 'Results']));
+  if (reportRoots.length === 0) return null;
 
-    if (order.status === 'complete') {
-      return { success: true, status: 'complete' };
+  const records: ScreeningResultRecordInput[] = [];
+
+  for (const node of collectXmlNodes(reportRoots, ['CreditScore', 'Score', 'CreditReport'])) {
+    const raw = typeof node === 'object' ? getXmlValue(node, 'Value', 'Score', 'ScoreValue', '#text') : String(node);
+    const score = parseInt(raw || '', 10);
+    if (Number.isFinite(score)) {
+      records.push({ kind: 'credit_score', creditScore: score, scoreBand: creditScoreBand(score) });
     }
+  }
 
-    console.log(`[DigitalDelve] Checking status for order ${orderId}, ref: ${order.referenceNumber}`);
-
-    // IMPORTANT: An SSO redirect URL is NOT a reliable completion signal.
-    // Western Verify's SSO endpoint returns a portal landing URL
-    // (e.g. ordersystem/default.cfm?param=...) for orders that are still
-    // pending or that have only had an invitation sent - the applicant may
-    // not have even started the report. Marking such orders "complete" based
-    // on the presence of a redirect URL produces false "Screening Complete"
-    // states. Completion is determined SOLELY by the result webhook
-    // (ResultPostURL -> handleResultWebhook). This sync only records that a
-    // status check happened; it never changes the order status. If a webhook
-    // is genuinely missed, the landlord can verify on Western Verify and use
-    // the explicit "Mark complete" action.
-    const ssoResult = await performSsoViewReport(order.referenceNumber, credentials);
-
-    await storage.updateRentalScreeningOrder(orderId, {
-      lastStatusCheckAt: new Date(),
+  for (const node of objectNodes(collectXmlNodes(reportRoots, ['Collection', 'CollectionAccount', 'Tradeline']))) {
+    const accountType = getXmlValue(node, 'AccountType', 'Type', 'IndustryCode') || '';
+    // Tradelines are only findings when they're in collection.
+    if (node.Status && !/collect|charge/i.test(String(node.Status)) && !/collect/i.test(accountType)) continue;
+    const creditorName = getXmlValue(node, 'CreditorName', 'Creditor', 'SubscriberName', 'Name') || null;
+    records.push({
+      kind: 'collection',
+      creditorName,
+      amountCents: parseAmountCents(getXmlValue(node, 'Amount', 'Balance', 'BalanceAmount', 'OriginalAmount')),
+      housingRelated: /rent|apartment|propert|landlord|housing|realty/i.test(`${accountType} ${creditorName || ''}`),
     });
+  }
 
-    if (ssoResult.error === 'in_progress') {
-      console.log(`[DigitalDelve] Order ${orderId} still in progress at Western Verify`);
-    } else if (ssoResult.error) {
-      console.warn(`[DigitalDelve] SSO check returned error for ${orderId}: ${ssoResult.error}`);
-    } else if (ssoResult.success) {
-      console.log(`[DigitalDelve] Order ${orderId} SSO check ok; awaiting result webhook before marking complete`);
-    }
-
-    return { success: true, status: order.status };
-  } catch (error: any) {
-    console.error('[DigitalDelve] Error checking screening status:', error);
-    return { success: false, status: 'error', error: error.message };
+  for (const node of objectNodes(collectXmlNodes(reportRoots, ['Eviction', 'EvictionRecord', 'LandlordTenantRecord']))) {
+    const disposition = getXmlValue(node, 'Disposition', 'CaseStatus', 'Status');
+    records.push({
+      kind: 'eviction',
+      caseNumber: getXmlValue(node, 'CaseNumber', 'CaseNo') || null,
+      court: getXmlValue(node, 'Court', 'CourtName', 'County') || null,
+      filedOn: normalizeReportDate(getXmlValue(node, 'FileDate', 'FiledDate', 'FilingDate')),
+      disposition: normalizeEvictionDisposition(disposition),
+      dispositionOn: normalizeReportDate(getXmlValue(node, 'DispositionDate', 'JudgmentDate')),
+    });
   }
-}
 
-export async function bulkSyncScreeningStatuses(
-  userId: string,
-  credentials: ScreeningCredentials
-): Promise<{ synced: number; completed: number; errors: number }> {
-  let synced = 0, completed = 0, errors = 0;
-  
-  try {
-    const pendingOrders = await storage.getPendingScreeningOrdersForUser(userId);
-    
-    if (pendingOrders.length === 0) {
-      return { synced: 0, completed: 0, errors: 0 };
-    }
-    
-    console.log(`[DigitalDelve] Bulk sync: ${pendingOrders.length} pending orders for user ${userId}`);
-    
-    for (const order of pendingOrders) {
-      try {
-        await new Promise(resolve => setTimeout(resolve, 500));
-        
-        const result = await syncScreeningStatus(order.id, credentials);
-        synced++;
-        if (result.status === 'complete') {
-          completed++;
-        }
-      } catch (err) {
-        console.error(`[DigitalDelve] Bulk sync error for order ${order.id}:`, err);
-        errors++;
-      }
-    }
-    
-    console.log(`[DigitalDelve] Bulk sync done: ${synced} checked, ${completed} completed, ${errors} errors`);
-  } catch (error) {
-    console.error('[DigitalDelve] Bulk sync error:', error);
+  for (const node of objectNodes(collectXmlNodes(reportRoots, ['Criminal', 'CriminalRecord', 'Offense', 'Charge']))) {
+    records.push({
+      kind: 'criminal',
+      caseNumber: getXmlValue(node, 'CaseNumber', 'CaseNo') || null,
+      court: getXmlValue(node, 'Court', 'CourtName', 'Jurisdiction') || null,
+      disposition: normalizeCriminalDisposition(getXmlValue(node, 'Disposition', 'Status')),
+      dispositionOn: normalizeReportDate(getXmlValue(node, 'DispositionDate', 'SentenceDate')),
+      offenseClass: normalizeOffenseClass(getXmlValue(node, 'OffenseClass', 'Class', 'Degree', 'Severity')),
+      offenseDescription: getXmlValue(node, 'OffenseDescription', 'Description', 'ChargeDescription') || null,
+      offenseOn: normalizeReportDate(getXmlValue(node, 'OffenseDate', 'ArrestDate', 'FileDate')),
+    });
   }
-  
-  return { synced, completed, errors };
+
+  return records;
 }
@@ -4,6 +4,7 @@ import { storage } from './storage';
 import { aiContentService } from './aiContentService';
 import { getUncachableResendClient } from './resend';
 import type { EmailSequenceStep, User } from '@shared/schema';
+import { paymentRequestWording } from '@shared/paymentRequests';
 
 interface EmailTemplate {
   subject: string;
@@ -455,10 +456,14 @@ The LeaseShield App Team
     applicant: EmailRecipient, 
     decision: 'approved' | 'denied',
     propertyAddress: string,
-    landlordInfo?: { name?: string; businessName?: string; phoneNumber?: string }
+    landlordInfo?: { name?: string; businessName?: string; phoneNumber?: string },
+    hold?: { deadline: string; depositAmount?: string; depositLink?: string }
   ): Promise<boolean> {
     const firstName = applicant.firstName || 'Applicant';
     const isApproved = decision === 'approved';
+    const holdText = hold
+      ? `\n\nPlease sign the lease${hold.depositLink ? ` and pay the ${hold.depositAmount} holding deposit` : ''} by ${hold.deadline}, or this approval will expire.${hold.depositLink ? `\n\nPay the holding deposit: ${hold.depositLink}` : ''}`
+      : '';
     const displayName = landlordInfo?.businessName || landlordInfo?.name;
     const contactInfo = landlordInfo?.phoneNumber ? `\n\nContact: ${landlordInfo.phoneNumber}` : '';
     
@@ -471,7 +476,7 @@ The LeaseShield App Team
 
 Great news! Your rental application for ${propertyAddress} has been approved.
 
-${displayName ? `${displayName} will` : 'The landlord will'} be in touch with you soon regarding next steps, including signing the lease and move-in details.${contactInfo}
+${displayName ? `${displayName} will` : 'The landlord will'} be in touch with you soon regarding next steps, including signing the lease and move-in details.${holdText}${contactInfo}
 
 Congratulations on your new home!
 
@@ -527,6 +532,10 @@ LeaseShield App
         </ul>
         ${landlordInfo?.phoneNumber ? `<p style="margin-top: 12px; margin-bottom: 0;"><strong>Contact:</strong> ${landlordInfo.phoneNumber}</p>` : ''}
       </div>
+      ${hold ? `
+      <p><strong>Please sign the lease${hold.depositLink ? ` and pay the ${hold.depositAmount} holding deposit` : ''} by ${hold.deadline}</strong>, or this approval will expire.</p>
+      ${hold.depositLink ? `<p><a href="${hold.depositLink}" style="background: #10b981; color: #fff; padding: 12px 20px; border-radius: 6px; text-decoration: none; display: inline-block; font-weight: 600;">Pay Holding Deposit</a></p>` : ''}
+      ` : ''}
       
       <p>Congratulations on your new home!</p>
       ` : `
@@ -560,6 +569,72 @@ LeaseShield App
     return this.sendEmail(applicant, template);
   }
 
+  /**
+   * The same waitlist notice goes to every applicant moved to the waitlist
+   * when another application for the unit is approved.
+   */
+  async sendApplicationWaitlistedEmail(
+    applicant: EmailRecipient,
+    propertyAddress: string,
+    opts: { position: number; landlordName?: string }
+  ): Promise<boolean> {
+    const firstName = applicant.firstName || 'Applicant';
+    const landlord = opts.landlordName || 'the landlord';
+    const subject = `Your rental application has been placed on the waitlist`;
+    const htmlBody = `
+      <div style="font-family: -apple-system, Helvetica, Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 24px;">
+        <h2 style="color: #111;">Application waitlisted</h2>
+        <p>Hi ${firstName},</p>
+        <p>Thank you for applying for <strong>${propertyAddress}</strong>. Another application for this unit has been approved.</p>
+        <p>Your application has not been denied. It is number <strong>${opts.position}</strong> on the waitlist, and ${landlord} will contact you if the unit becomes available again.</p>
+        <p style="color: #555; font-size: 14px;">- LeaseShield</p>
+      </div>
+    `;
+    const textBody = `Hi ${firstName},
+
+Thank you for applying for ${propertyAddress}. Another application for this unit has been approved.
+
+Your application has not been denied. It is number ${opts.position} on the waitlist, and ${landlord} will contact you if the unit becomes available again.
+
+- LeaseShield`;
+    return this.sendEmail(applicant, { subject, htmlBody, textBody });
+  }
+
+  /**
+   * The applicant didn't sign the lease (or pay the holding deposit) by the
+   * deadline, so the approval lapsed and the unit is open to applicants again.
+   */
+  async sendApprovalExpiredEmail(
+    applicant: EmailRecipient,
+    propertyAddress: string,
+    opts: { leaseSigned: boolean; depositRequested: boolean; depositPaid: boolean }
+  ): Promise<boolean> {
+    const firstName = applicant.firstName || 'Applicant';
+    const missing = [
+      !opts.leaseSigned ? 'the lease was not signed' : null,
+      opts.depositRequested && !opts.depositPaid ? 'the holding deposit was not paid' : null,
+    ].filter(Boolean).join(' and ');
+    const depositNote = opts.depositPaid
+      ? 'Please contact the landlord about the holding deposit you paid.'
+      : '';
+    const subject = `Your rental approval has expired`;
+    const htmlBody = `
+      <div style="font-family: -apple-system, Helvetica, Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 24px;">
+        <h2 style="color: #111;">Approval expired</h2>
+        <p>Hi ${firstName},</p>
+        <p>Your approved application for <strong>${propertyAddress}</strong> has expired because ${missing} by the deadline. The unit is now open to other applicants.</p>
+        ${depositNote ? `<p>${depositNote}</p>` : ''}
+        <p style="color: #555; font-size: 14px;">- LeaseShield</p>
+      </div>
+    `;
+    const textBody = `Hi ${firstName},
+
+Your approved application for ${propertyAddress} has expired because ${missing} by the deadline. The unit is now open to other applicants.
+${depositNote ? `\n${depositNote}\n` : ''}
+- LeaseShield`;
+    return this.sendEmail(applicant, { subject, htmlBody, textBody });
+  }
+
   async sendCustomDecisionEmail(
     recipientEmail: string, 
     subject: string,
@@ -2045,7 +2120,8 @@ The LeaseShield Team
   }
 
   /**
-   * Send rent reminder email to tenant N days before due date
+   * Send rent reminder email to tenant N days before due date. Holding
+   * deposit and application fee requests get their own wording.
    */
   async sendRentReminderEmail(
     to: { email: string; tenantName: string },
@@ -2057,28 +2133,30 @@ The LeaseShield Team
       paymentLink: string;
       lateFeeDollars?: string;
       gracePeriodDays?: number;
+      requestType?: string | null;
     }
   ): Promise<boolean> {
+    const wording = paymentRequestWording(opts.requestType);
     const lateFeeNote = opts.lateFeeDollars && Number(opts.lateFeeDollars) > 0
-      ? `<p style="margin: 16px 0; color: #b45309;"><strong>Heads up:</strong> A late fee of $${opts.lateFeeDollars} applies if rent is not paid within ${opts.gracePeriodDays || 5} days of the due date.</p>`
+      ? `<p style="margin: 16px 0; color: #b45309;"><strong>Heads up:</strong> A late fee of $${opts.lateFeeDollars} applies if ${wording.object} is not paid within ${opts.gracePeriodDays || 5} days of the due date.</p>`
       : '';
     const propertyLine = opts.propertyName ? `<p style="margin: 4px 0; color: #555;">Property: ${opts.propertyName}</p>` : '';
-    const subject = `Rent reminder: $${opts.amountDollars} due ${opts.dueDate}`;
+    const subject = `${wording.title} reminder: $${opts.amountDollars} due ${opts.dueDate}`;
     const htmlBody = `
       <div style="font-family: -apple-system, Helvetica, Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 24px;">
-        <h2 style="color: #111;">Rent Reminder</h2>
+        <h2 style="color: #111;">${wording.title} Reminder</h2>
         <p>Hi ${to.tenantName || 'there'},</p>
-        <p>This is a friendly reminder that your rent payment of <strong>$${opts.amountDollars}</strong> is due on <strong>${opts.dueDate}</strong>.</p>
+        <p>This is a friendly reminder that your ${wording.noun} of <strong>$${opts.amountDollars}</strong> is due on <strong>${opts.dueDate}</strong>.</p>
         ${propertyLine}
         <p style="margin: 24px 0;">
-          <a href="${opts.paymentLink}" style="background: #2563eb; color: #fff; padding: 12px 20px; border-radius: 6px; text-decoration: none; display: inline-block;">Pay Rent Online (ACH - No Card Fees)</a>
+          <a href="${opts.paymentLink}" style="background: #2563eb; color: #fff; padding: 12px 20px; border-radius: 6px; text-decoration: none; display: inline-block;">Pay ${wording.title} Online (ACH - No Card Fees)</a>
         </p>
         ${lateFeeNote}
         <p style="color: #555; font-size: 14px;">Paying by bank transfer (ACH) is free - no credit card processing fees.</p>
         <p style="color: #555; font-size: 14px;">Thank you,<br/>${opts.landlordName}</p>
       </div>
     `;
-    const textBody = `Hi ${to.tenantName || 'there'},\n\nReminder: rent of $${opts.amountDollars} is due on ${opts.dueDate}.${opts.propertyName ? `\nProperty: ${opts.propertyName}` : ''}\n\nPay online (ACH, no card fees): ${opts.paymentLink}\n\n${opts.lateFeeDollars && Number(opts.lateFeeDollars) > 0 ? `Late fee of $${opts.lateFeeDollars} applies after ${opts.gracePeriodDays || 5} day grace period.\n\n` : ''}Thank you,\n${opts.landlordName}`;
+    const textBody = `Hi ${to.tenantName || 'there'},\n\nReminder: your ${wording.noun} of $${opts.amountDollars} is due on ${opts.dueDate}.${opts.propertyName ? `\nProperty: ${opts.propertyName}` : ''}\n\nPay online (ACH, no card fees): ${opts.paymentLink}\n\n${opts.lateFeeDollars && Number(opts.lateFeeDollars) > 0 ? `Late fee of $${opts.lateFeeDollars} applies after ${opts.gracePeriodDays || 5} day grace period.\n\n` : ''}Thank you,\n${opts.landlordName}`;
     return this.sendEmail({ email: to.email, firstName: to.tenantName }, { subject, htmlBody, textBody });
   }
 
@@ -2095,8 +2173,10 @@ The LeaseShield Team
       receiptUrl?: string | null;
       rentDollars?: string | null;
       serviceFeeDollars?: string | null;
+      requestType?: string | null;
     }
   ): Promise<boolean> {
+    const wording = paymentRequestWording(opts.requestType);
     const subject = `Payment received: $${opts.amountDollars}`;
     const propertyLine = opts.propertyName ? `<p style="margin: 4px 0; color: #555;">Property: ${opts.propertyName}</p>` : '';
     const receiptLink = opts.receiptUrl ? `<p style="margin: 16px 0;"><a href="${opts.receiptUrl}" style="color: #2563eb;">View Stripe receipt</a></p>` : '';
@@ -2119,7 +2199,7 @@ The LeaseShield Team
       ? `
         <table style="width: 100%; max-width: 420px; margin: 16px 0; border-collapse: collapse; font-size: 14px;">
           <tr>
-            <td style="padding: 6px 0; color: #555;">Rent</td>
+            <td style="padding: 6px 0; color: #555;">${wording.item}</td>
             <td style="padding: 6px 0; text-align: right; color: #111;">$${opts.rentDollars}</td>
           </tr>${serviceFeeRowHtml}
           <tr>
@@ -2131,23 +2211,23 @@ The LeaseShield Team
       : '';
 
     const itemizationText = showItemization
-      ? `\nRent:        $${opts.rentDollars}\n${showServiceFeeRow ? `Service fee: $${opts.serviceFeeDollars}\n` : ''}Total paid:  $${opts.amountDollars}\n`
+      ? `\n${`${wording.item}:`.padEnd(13)}$${opts.rentDollars}\n${showServiceFeeRow ? `Service fee: $${opts.serviceFeeDollars}\n` : ''}Total paid:  $${opts.amountDollars}\n`
       : '';
 
     const htmlBody = `
       <div style="font-family: -apple-system, Helvetica, Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 24px;">
         <h2 style="color: #047857;">Payment Received</h2>
         <p>Hi ${to.tenantName || 'there'},</p>
-        <p>We received your rent payment of <strong>$${opts.amountDollars}</strong> on ${opts.paidDate}.</p>
+        <p>We received your ${wording.noun} of <strong>$${opts.amountDollars}</strong> on ${opts.paidDate}.</p>
         ${propertyLine}
         ${itemizationHtml}
         <p style="color: #555;">ACH payments typically take 3-5 business days to fully clear. We'll mark your account paid in full once funds settle.</p>
         ${receiptLink}
-        <p style="color: #555; font-size: 14px;">Keep this receipt for your records - it itemizes the rent and any service fee for tax or expense reporting.</p>
+        <p style="color: #555; font-size: 14px;">Keep this receipt for your records - it itemizes the ${wording.item.toLowerCase()} and any service fee for tax or expense reporting.</p>
         <p style="color: #555; font-size: 14px;">Thank you,<br/>${opts.landlordName}</p>
       </div>
     `;
-    const textBody = `Hi ${to.tenantName || 'there'},\n\nWe received your rent payment of $${opts.amountDollars} on ${opts.paidDate}.${opts.propertyName ? `\nProperty: ${opts.propertyName}` : ''}\n${itemizationText}\nACH payments take 3-5 business days to clear.\n${opts.receiptUrl ? `Receipt: ${opts.receiptUrl}\n` : ''}\nKeep this receipt for your records.\n\nThank you,\n${opts.landlordName}`;
+    const textBody = `Hi ${to.tenantName || 'there'},\n\nWe received your ${wording.noun} of $${opts.amountDollars} on ${opts.paidDate}.${opts.propertyName ? `\nProperty: ${opts.propertyName}` : ''}\n${itemizationText}\nACH payments take 3-5 business days to clear.\n${opts.receiptUrl ? `Receipt: ${opts.receiptUrl}\n` : ''}\nKeep this receipt for your records.\n\nThank you,\n${opts.landlordName}`;
     return this.sendEmail({ email: to.email, firstName: to.tenantName }, { subject, htmlBody, textBody });
   }
 
@@ -2168,9 +2248,11 @@ The LeaseShield Team
       platformFeeDollars: string;
       tenantTotalDollars: string;
       netToLandlordDollars: string;
+      requestType?: string | null;
     }
   ): Promise<boolean> {
-    const subject = `Rent payment received from ${opts.tenantName}: $${opts.rentDollars}`;
+    const wording = paymentRequestWording(opts.requestType);
+    const subject = `${wording.title} payment received from ${opts.tenantName}: $${opts.rentDollars}`;
     const propertyLine = opts.propertyName
       ? `<p style="margin: 4px 0; color: #555;">Property: ${opts.propertyName}</p>` : '';
 
@@ -2187,7 +2269,7 @@ The LeaseShield Team
     const rows: string[] = [];
     rows.push(`
       <tr>
-        <td style="padding: 6px 0; color: #555;">Rent</td>
+        <td style="padding: 6px 0; color: #555;">${wording.item}</td>
         <td style="padding: 6px 0; text-align: right; color: #111;">$${opts.rentDollars}</td>
       </tr>`);
     if (showServiceFee) {
@@ -2217,9 +2299,9 @@ The LeaseShield Team
 
     const htmlBody = `
       <div style="font-family: -apple-system, Helvetica, Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 24px;">
-        <h2 style="color: #047857;">Rent Payment Received</h2>
+        <h2 style="color: #047857;">${wording.title} Payment Received</h2>
         <p>Hi ${to.firstName || 'there'},</p>
-        <p><strong>${opts.tenantName}</strong> just paid rent on ${opts.paidDate}.</p>
+        <p><strong>${opts.tenantName}</strong> just paid ${wording.object} on ${opts.paidDate}.</p>
         ${propertyLine}
         <table style="width: 100%; max-width: 460px; margin: 16px 0; border-collapse: collapse; font-size: 14px;">
           ${rows.join('')}
@@ -2231,10 +2313,10 @@ The LeaseShield Team
     const textLines: string[] = [];
     textLines.push(`Hi ${to.firstName || 'there'},`);
     textLines.push('');
-    textLines.push(`${opts.tenantName} just paid rent on ${opts.paidDate}.`);
+    textLines.push(`${opts.tenantName} just paid ${wording.object} on ${opts.paidDate}.`);
     if (opts.propertyName) textLines.push(`Property: ${opts.propertyName}`);
     textLines.push('');
-    textLines.push(`Rent:                    $${opts.rentDollars}`);
+    textLines.push(`${`${wording.item}:`.padEnd(25)}$${opts.rentDollars}`);
     if (showServiceFee) textLines.push(`${feePayerLabel}: $${opts.serviceFeeDollars}`);
     textLines.push(`Tenant paid:             $${opts.tenantTotalDollars}`);
     if (showPlatformFee) textLines.push(`LeaseShield platform fee: -$${opts.platformFeeDollars}`);
@@ -2335,6 +2417,199 @@ ${opts.tenantName} (${opts.tenantEmail}) just canceled their automatic rent paym
 
 No more debits will be attempted under this authorization. You'll need to invoice them manually or send a new auto-pay authorization link.
 
+- LeaseShield`;
+    return this.sendEmail({ email: to.email, firstName: to.firstName || '' }, { subject, htmlBody, textBody });
+  }
+
+  /**
+   * Send a signer their tokenized e-signature link.
+   */
+  async sendDocumentSignatureRequestEmail(
+    to: { email: string; name: string },
+    opts: { senderName: string; documentName: string; signingLink: string; message?: string | null; isReminder?: boolean }
+  ): Promise<boolean> {
+    const subject = opts.isReminder
+      ? `Reminder: ${opts.senderName} is waiting for your signature`
+      : `${opts.senderName} sent you "${opts.documentName}" to sign`;
+    const messageBlock = opts.message
+      ? `<p style="margin: 16px 0; padding: 12px; background: #f5f5f5; border-radius: 6px; color: #333;">${opts.message}</p>` : '';
+    const htmlBody = `
+      <div style="font-family: -apple-system, Helvetica, Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 24px;">
+        <h2 style="color: #111;">Please review and sign</h2>
+        <p>Hi ${to.name || 'there'},</p>
+        <p>${opts.senderName} has asked you to sign <strong>${opts.documentName}</strong>.</p>
+        ${messageBlock}
+        <p style="margin: 24px 0;">
+          <a href="${opts.signingLink}" style="background: #2DD4BF; color: #fff; padding: 12px 20px; border-radius: 6px; text-decoration: none; display: inline-block; font-weight: 600;">Review & Sign</a>
+        </p>
+        <p style="color: #666; font-size: 13px;">This link is unique to you - please don't forward it. You can read the full document before signing, and you'll be able to download the signed copy once everyone has signed.</p>
+        <p style="color: #555; font-size: 14px;">- LeaseShield</p>
+      </div>
+    `;
+    const textBody = `Hi ${to.name || 'there'},
+
+${opts.senderName} has asked you to sign "${opts.documentName}".${opts.message ? `\n\n${opts.message}` : ''}
+
+Review & sign: ${opts.signingLink}
+
+This link is unique to you - please don't forward it.
+
+- LeaseShield`;
+    return this.sendEmail({ email: to.email, firstName: to.name }, { subject, htmlBody, textBody });
+  }
+
+  /**
+   * Tell every party (and the sender) that all signatures are in.
+   */
+  async sendDocumentSigningCompletedEmail(
+    to: { email: string; name: string },
+    opts: { documentName: string; downloadLink: string }
+  ): Promise<boolean> {
+    const subject = `Completed: "${opts.documentName}" has been signed by all parties`;
+    const htmlBody = `
+      <div style="font-family: -apple-system, Helvetica, Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 24px;">
+        <h2 style="color: #166534;">All signatures collected</h2>
+        <p>Hi ${to.name || 'there'},</p>
+        <p>Everyone has signed <strong>${opts.documentName}</strong>. The signed copy includes a certificate of completion for your records.</p>
+        <p style="margin: 24px 0;">
+          <a href="${opts.downloadLink}" style="background: #2DD4BF; color: #fff; padding: 12px 20px; border-radius: 6px; text-decoration: none; display: inline-block; font-weight: 600;">Download Signed Copy</a>
+        </p>
+        <p style="color: #555; font-size: 14px;">- LeaseShield</p>
+      </div>
+    `;
+    const textBody = `Hi ${to.name || 'there'},
+
+Everyone has signed "${opts.documentName}". The signed copy includes a certificate of completion for your records.
+
+Download: ${opts.downloadLink}
+
+- LeaseShield`;
+    return this.sendEmail({ email: to.email, firstName: to.name }, { subject, htmlBody, textBody });
+  }
+  /**
+   * Invite an occupant to create their tenant portal login.
+   */
+  async sendTenantPortalInviteEmail(
+    to: { email: string; name: string },
+    opts: { landlordName: string; propertyLabel: string; inviteLink: string }
+  ): Promise<boolean> {
+    const subject = `${opts.landlordName} invited you to your tenant portal`;
+    const htmlBody = `
+      <div style="font-family: -apple-system, Helvetica, Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 24px;">
+        <h2 style="color: #111;">Your tenant portal is ready</h2>
+        <p>Hi ${to.name || 'there'},</p>
+        <p>${opts.landlordName} has set up a LeaseShield tenant portal for <strong>${opts.propertyLabel}</strong>. From the portal you can check your balance, pay rent, manage auto-pay, download your lease and notices, and submit maintenance requests.</p>
+        <p style="margin: 24px 0;">
+          <a href="${opts.inviteLink}" style="background: #2DD4BF; color: #fff; padding: 12px 20px; border-radius: 6px; text-decoration: none; display: inline-block; font-weight: 600;">Create Your Login</a>
+        </p>
+        <p style="color: #666; font-size: 13px;">This link is unique to you - please don't forward it.</p>
+        <p style="color: #555; font-size: 14px;">- LeaseShield</p>
+      </div>
+    `;
+    const textBody = `Hi ${to.name || 'there'},
+
+${opts.landlordName} has set up a LeaseShield tenant portal for ${opts.propertyLabel}. From the portal you can check your balance, pay rent, manage auto-pay, download your lease and notices, and submit maintenance requests.
+
+Create your login: ${opts.inviteLink}
+
+This link is unique to you - please don't forward it.
+
+- LeaseShield`;
+    return this.sendEmail({ email: to.email, firstName: to.name }, { subject, htmlBody, textBody });
+  }
+
+  /**
+   * Invite someone to join a landlord's team with a role.
+   */
+  async sendTeamInviteEmail(
+    to: { email: string },
+    opts: { inviterName: string; organizationName: string; roleLabel: string; inviteLink: string }
+  ): Promise<boolean> {
+    const subject = `${opts.inviterName} invited you to ${opts.organizationName} on LeaseShield`;
+    const htmlBody = `
+      <div style="font-family: -apple-system, Helvetica, Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 24px;">
+        <h2 style="color: #111;">You've been invited to a team</h2>
+        <p>Hi there,</p>
+        <p>${opts.inviterName} added you to <strong>${opts.organizationName}</strong> on LeaseShield as a <strong>${opts.roleLabel}</strong>. Accept the invite to sign in and work on the team's properties.</p>
+        <p style="margin: 24px 0;">
+          <a href="${opts.inviteLink}" style="background: #2DD4BF; color: #fff; padding: 12px 20px; border-radius: 6px; text-decoration: none; display: inline-block; font-weight: 600;">Accept Invite</a>
+        </p>
+        <p style="color: #666; font-size: 13px;">This link is unique to you - please don't forward it.</p>
+        <p style="color: #555; font-size: 14px;">- LeaseShield</p>
+      </div>
+    `;
+    const textBody = `Hi there,
+
+${opts.inviterName} added you to ${opts.organizationName} on LeaseShield as a ${opts.roleLabel}. Accept the invite to sign in and work on the team's properties.
+
+Accept the invite: ${opts.inviteLink}
+
+This link is unique to you - please don't forward it.
+
+- LeaseShield`;
+    return this.sendEmail({ email: to.email, firstName: '' }, { subject, htmlBody, textBody });
+  }
+
+  /**
+   * Notify the landlord that a tenant submitted a maintenance request.
+   */
+  async sendMaintenanceRequestNotification(
+    to: { email: string; firstName?: string | null },
+    opts: { tenantName: string; propertyLabel: string; title: string; description: string; category: string; dashboardLink: string }
+  ): Promise<boolean> {
+    const subject = `Maintenance request: ${opts.title}`;
+    const htmlBody = `
+      <div style="font-family: -apple-system, Helvetica, Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 24px;">
+        <h2 style="color: #111;">New maintenance request</h2>
+        <p>Hi ${to.firstName || 'there'},</p>
+        <p>${opts.tenantName} submitted a <strong>${opts.category}</strong> request for ${opts.propertyLabel}:</p>
+        <p style="margin: 16px 0; padding: 12px; background: #f5f5f5; border-radius: 6px; color: #333;"><strong>${opts.title}</strong><br/>${opts.description}</p>
+        <p style="margin: 24px 0;">
+          <a href="${opts.dashboardLink}" style="background: #2DD4BF; color: #fff; padding: 12px 20px; border-radius: 6px; text-decoration: none; display: inline-block; font-weight: 600;">View in LeaseShield</a>
+        </p>
+        <p style="color: #555; font-size: 14px;">- LeaseShield</p>
+      </div>
+    `;
+    const textBody = `Hi ${to.firstName || 'there'},
+
+${opts.tenantName} submitted a ${opts.category} request for ${opts.propertyLabel}:
+
+${opts.title}
+${opts.description}
+
+View in LeaseShield: ${opts.dashboardLink}
+
+- LeaseShield`;
+    return this.sendEmail({ email: to.email, firstName: to.firstName || '' }, { subject, htmlBody, textBody });
+  }
+
+  async sendEvictionStepReminderEmail(
+    to: { email: string; firstName?: string | null },
+    opts: { caseLabel: string; stepLabel: string; dueDate: string; explain: string | null; isEstimate: boolean; caseLink: string }
+  ): Promise<boolean> {
+    const subject = `${opts.stepLabel} on ${opts.dueDate}: ${opts.caseLabel}`;
+    const estimateNote = opts.isEstimate
+      ? 'This date is an estimate based on typical timing. Check the court\'s summons or hearing notice for the actual date.'
+      : '';
+    const htmlBody = `
+      <div style="font-family: -apple-system, Helvetica, Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 24px;">
+        <h2 style="color: #111;">Upcoming eviction case step</h2>
+        <p>Hi ${to.firstName || 'there'},</p>
+        <p><strong>${opts.stepLabel}</strong> is coming up on <strong>${opts.dueDate}</strong> for ${opts.caseLabel}.</p>
+        ${opts.explain ? `<p style="margin: 16px 0; padding: 12px; background: #f5f5f5; border-radius: 6px; color: #333;">${opts.explain}</p>` : ''}
+        ${estimateNote ? `<p style="color: #92400e; font-size: 14px;">${estimateNote}</p>` : ''}
+        <p style="margin: 24px 0;">
+          <a href="${opts.caseLink}" style="background: #2DD4BF; color: #fff; padding: 12px 20px; border-radius: 6px; text-decoration: none; display: inline-block; font-weight: 600;">Open Case Timeline</a>
+        </p>
+        <p style="color: #555; font-size: 14px;">- LeaseShield</p>
+      </div>
+    `;
+    const textBody = `Hi ${to.firstName || 'there'},
+
+${opts.stepLabel} is coming up on ${opts.dueDate} for ${opts.caseLabel}.
+${opts.explain ? `\n${opts.explain}\n` : ''}${estimateNote ? `\n${estimateNote}\n` : ''}
+Open the case timeline: ${opts.caseLink}
+
 - LeaseShield`;
     return this.sendEmail({ email: to.email, firstName: to.firstName || '' }, { subject, htmlBody, textBody });
   }
@@ -1,9 +1,13 @@
+import type { HydratedFormDefinition } from "./matrixResolver";
+
 export type DateCalculationInput = {
   dayType: string;
   noticePeriodDays: number;
   countingConvention: string;
   serviceDate: string;
   holidays: Array<{ date: string; label: string }>;
+  // Selected service methods that extend the period (e.g. mail +3 days).
+  serviceExtensions?: Array<{ methodDisplayName: string; extensionDays: number }>;
 };
 
 export type DateCalculationResult = {
@@ -12,48 +16,179 @@ export type DateCalculationResult = {
   explainFormula: string;
 };
 
+// A period counted forward from a start date - the notice period from
+// service, or a court step (answer deadline, hearing) from filing.
+export type PeriodInput = {
+  dayType: string;
+  periodDays: number;
+  countingConvention: string;
+  startDate: string;
+  // How the start date reads in the explanation, e.g. "Service date", "Filing date".
+  startLabel?: string;
+  holidays: Array<{ date: string; label: string }>;
+  serviceExtensions?: Array<{ methodDisplayName: string; extensionDays: number }>;
+};
+
+export type PeriodResult = {
+  endDate: string;
+  explain: string;
+};
+
+type CountingConvention = {
+  startDayCounts: boolean;
+  rollForward: boolean;
+  describe: (startDay: string) => string;
+};
+
+const COUNTING_CONVENTIONS: Record<string, CountingConvention> = {
+  day0_service_plus_n: {
+    startDayCounts: false,
+    rollForward: false,
+    describe: day => `${day} excluded (day 0)`,
+  },
+  day0_service_plus_n_roll_forward: {
+    startDayCounts: false,
+    rollForward: true,
+    describe: day => `${day} excluded (day 0); a last day on a weekend or holiday rolls forward`,
+  },
+  day1_service_inclusive: {
+    startDayCounts: true,
+    rollForward: false,
+    describe: day => `${day} counted as day 1`,
+  },
+  day1_service_inclusive_roll_forward: {
+    startDayCounts: true,
+    rollForward: true,
+    describe: day => `${day} counted as day 1; a last day on a weekend or holiday rolls forward`,
+  },
+};
+
+const DEFAULT_CONVENTION = 'day0_service_plus_n';
+
+const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+type DayRule = HydratedFormDefinition['dayRules'][number];
+
+// A form can carry several day rules (e.g. 7 days for nonpayment, 30 for a
+// lease violation); a lease gate marked affectsNoticePeriod picks between them.
+export function selectDayRule(
+  def: HydratedFormDefinition,
+  gateAnswers?: Record<string, string | number | boolean>,
+): DayRule | null {
+  if (!def.dayRules || def.dayRules.length === 0) return null;
+  if (def.dayRules.length === 1) return def.dayRules[0];
+  if (gateAnswers && def.leaseGates) {
+    for (const gate of def.leaseGates) {
+      if (gate.affectsNoticePeriod) {
+        const answer = gateAnswers[gate.gateKey];
+        const matchRule = def.dayRules.find(r => r.dayType === answer);
+        if (matchRule) return matchRule;
+      }
+    }
+  }
+  return def.dayRules[0];
+}
+
+export function selectedServiceExtensions(
+  def: HydratedFormDefinition,
+  serviceSelection?: Record<string, boolean | string> | null,
+): Array<{ methodDisplayName: string; extensionDays: number }> {
+  if (!serviceSelection) return [];
+  return def.serviceRules
+    .filter(r => serviceSelection[r.methodId] === true && r.extensionDays > 0)
+    .map(r => ({ methodDisplayName: r.methodDisplayName, extensionDays: r.extensionDays }));
+}
+
 export function calculateDates(input: DateCalculationInput): DateCalculationResult {
-  const { dayType, noticePeriodDays, countingConvention, serviceDate, holidays } = input;
+  const { endDate, explain } = countPeriod({
+    dayType: input.dayType,
+    periodDays: input.noticePeriodDays,
+    countingConvention: input.countingConvention,
+    startDate: input.serviceDate,
+    startLabel: 'Service date',
+    holidays: input.holidays,
+    serviceExtensions: input.serviceExtensions,
+  });
+
+  const holidaySet = new Set(input.holidays.map(h => h.date));
+  const earliestFiling = addCalendarDays(parseDate(endDate), 1);
+  const filing = skipToNextBusinessDay(earliestFiling, holidaySet);
+
+  return {
+    complianceDeadline: endDate,
+    earliestFilingDate: formatDate(filing),
+    explainFormula: `${explain}. Earliest filing date: ${formatDate(filing)} (next business day after deadline)`,
+  };
+}
+
+export function countPeriod(input: PeriodInput): PeriodResult {
+  const { dayType, periodDays, countingConvention, startDate, holidays } = input;
+  const startLabel = input.startLabel || 'Start date';
+  const startDay = startLabel === 'Service date' ? 'day of service' : `${startLabel.toLowerCase().replace(/ date$/, '')} day`;
 
-  const service = parseDate(serviceDate);
+  const start = parseDate(startDate);
   const holidaySet = new Set(holidays.map(h => h.date));
+  const holidayLabels = new Map(holidays.map(h => [h.date, h.label]));
+  const convention = COUNTING_CONVENTIONS[countingConvention] || COUNTING_CONVENTIONS[DEFAULT_CONVENTION];
+  const conventionNote = COUNTING_CONVENTIONS[countingConvention]
+    ? convention.describe(startDay)
+    : `${convention.describe(startDay)} (unrecognized convention "${countingConvention}", using default)`;
 
-  let deadline: Date;
-  let formula: string;
+  let isCountable: (date: Date) => boolean;
+  let unit: string;
 
   switch (dayType) {
     case 'calendar': {
-      deadline = addCalendarDays(service, noticePeriodDays);
-      formula = `Service date (${serviceDate}) + ${noticePeriodDays} calendar days = ${formatDate(deadline)}`;
+      isCountable = () => true;
+      unit = 'calendar days';
       break;
     }
     case 'business': {
-      deadline = addBusinessDays(service, noticePeriodDays, holidaySet);
-      formula = `Service date (${serviceDate}) + ${noticePeriodDays} business days (excluding weekends${holidays.length ? ' and holidays' : ''}) = ${formatDate(deadline)}`;
+      isCountable = d => !isWeekend(d) && !isHoliday(d, holidaySet);
+      unit = `business days (excluding weekends${holidays.length ? ' and holidays' : ''})`;
+      break;
+    }
+    case 'judicial': {
+      // Court days: the court is closed on weekends. Holidays are only
+      // skipped under judicial_holidays_excluded.
+      isCountable = d => !isWeekend(d);
+      unit = 'judicial days (excluding weekends)';
       break;
     }
-    case 'judicial':
     case 'judicial_holidays_excluded': {
-      deadline = addBusinessDays(service, noticePeriodDays, holidaySet);
-      formula = `Service date (${serviceDate}) + ${noticePeriodDays} judicial days (excluding weekends and court holidays) = ${formatDate(deadline)}`;
+      isCountable = d => !isWeekend(d) && !isHoliday(d, holidaySet);
+      unit = 'judicial days (excluding weekends and court holidays)';
       break;
     }
     default: {
-      deadline = addCalendarDays(service, noticePeriodDays);
-      formula = `Service date (${serviceDate}) + ${noticePeriodDays} days = ${formatDate(deadline)}`;
+      isCountable = () => true;
+      unit = 'days';
     }
   }
 
-  const earliestFiling = addCalendarDays(deadline, 1);
-  const filing = skipToNextBusinessDay(earliestFiling, holidaySet);
+  let end = countDays(start, periodDays, isCountable, convention.startDayCounts);
+  let explain = `${startLabel} (${startDate}), ${conventionNote}: + ${periodDays} ${unit} = ${formatDate(end)}`;
+
+  // The longest extension among the selected methods governs - serving by
+  // posting and mail together still gets the mail extension once.
+  const extension = (input.serviceExtensions || [])
+    .filter(e => e.extensionDays > 0)
+    .sort((a, b) => b.extensionDays - a.extensionDays)[0];
+  if (extension) {
+    end = addCalendarDays(end, extension.extensionDays);
+    explain += `. Served by ${extension.methodDisplayName}: + ${extension.extensionDays} calendar days = ${formatDate(end)}`;
+  }
 
-  formula += `. Earliest filing date: ${formatDate(filing)} (next business day after deadline)`;
+  if (convention.rollForward && (isWeekend(end) || isHoliday(end, holidaySet))) {
+    const reason = isWeekend(end)
+      ? WEEKDAY_NAMES[end.getDay()]
+      : `a holiday (${holidayLabels.get(formatDate(end))})`;
+    const rolled = skipToNextBusinessDay(end, holidaySet);
+    explain += `. Last day falls on ${reason}, so it rolls forward to ${formatDate(rolled)}`;
+    end = rolled;
+  }
 
-  return {
-    complianceDeadline: formatDate(deadline),
-    earliestFilingDate: formatDate(filing),
-    explainFormula: formula,
-  };
+  return { endDate: formatDate(end), explain };
 }
 
 function parseDate(dateStr: string): Date {
@@ -83,13 +218,15 @@ function isHoliday(date: Date, holidays: Set<string>): boolean {
   return holidays.has(formatDate(date));
 }
 
-function addBusinessDays(startDate: Date, days: number, holidays: Set<string>): Date {
+// Walk forward until `days` countable days have passed. When the start day
+// itself counts, it is day 1 (if countable) and counting continues from there.
+function countDays(startDate: Date, days: number, isCountable: (date: Date) => boolean, startDayCounts: boolean): Date {
   let current = new Date(startDate);
-  let counted = 0;
+  let counted = startDayCounts && days > 0 && isCountable(current) ? 1 : 0;
 
   while (counted < days) {
     current.setDate(current.getDate() + 1);
-    if (!isWeekend(current) && !isHoliday(current, holidays)) {
+    if (isCountable(current)) {
       counted++;
     }
   }
@@ -5,6 +5,8 @@ import { sql } from 'drizzle-orm';
 import { renderOfficialOverlay, type OverlayField, type RenderStrategy } from './officialOverlayRenderer';
 import { runOfficialOverlayGuardrails, computeSha256, assertBasePdfReadable } from './overlayGuardrails';
 import { resolveForm, getOverlayData } from './index';
+import type { HydratedFormDefinition, HydratedOutputTemplate } from './matrixResolver';
+import type { DateCalculationResult } from './dateEngine';
 
 export type DocumentRenderInput = {
   templateId?: string;
@@ -53,9 +55,6 @@ async function renderFromNoticeForm(input: DocumentRenderInput): Promise<Documen
     throw new Error(`[DocumentRenderer] Notice form "${formKey}" has no basePdfAttachmentPath set.`);
   }
 
-  const basePdfPath = path.resolve(process.cwd(), def.outputTemplate.basePdfAttachmentPath);
-  await assertBasePdfReadable(basePdfPath);
-
   const overlayData = getOverlayData({
     def,
     inputs: input.inputs,
@@ -63,8 +62,58 @@ async function renderFromNoticeForm(input: DocumentRenderInput): Promise<Documen
     dateCalc: input.dateCalc || null,
   });
 
-  const renderStrategy: RenderStrategy = (def.outputTemplate.renderStrategy as RenderStrategy) || 'form_fields';
-  const fieldNameMap: Record<string, string> | undefined = def.outputTemplate.fieldMapJson || undefined;
+  const safeTitle = def.form.displayName.replace(/[^a-zA-Z0-9]/g, '_');
+  return renderOverlayTemplate(def.outputTemplate, overlayData, formKey, `${safeTitle}.pdf`);
+}
+
+/**
+ * Certificate/affidavit of service for a generated notice, filled from its
+ * service log. Uses the form version's proof-of-service template when the
+ * state has one; otherwise, when the notice is an official form with its own
+ * certificate-of-service section, re-renders the notice with the logged
+ * service filled in. Returns null when neither is configured.
+ */
+export async function renderProofOfService(input: {
+  def: HydratedFormDefinition;
+  inputs: Record<string, string | number | boolean>;
+  serviceSelection: Record<string, boolean>;
+  dateCalc: DateCalculationResult | null;
+  serviceValues: Record<string, string>;
+}): Promise<DocumentRenderResult | null> {
+  const { def, serviceValues } = input;
+  const safeTitle = def.form.displayName.replace(/[^a-zA-Z0-9]/g, '_');
+
+  const proof = def.proofOfServiceTemplate;
+  if (proof?.mode === 'official_pdf_overlay' && proof.basePdfAttachmentPath) {
+    const overlayData = proof.overlayFields.map(f => ({ ...f, value: serviceValues[f.fieldKey] || '' }));
+    return renderOverlayTemplate(proof, overlayData, def.form.key, `${safeTitle}_Proof_of_Service.pdf`);
+  }
+
+  const notice = def.outputTemplate;
+  if (notice?.mode === 'official_pdf_overlay' && notice.basePdfAttachmentPath) {
+    const overlayData = getOverlayData({
+      def,
+      inputs: input.inputs,
+      serviceSelection: input.serviceSelection,
+      dateCalc: input.dateCalc,
+    }).map(f => (f.fieldKey in serviceValues ? { ...f, value: serviceValues[f.fieldKey] } : f));
+    return renderOverlayTemplate(notice, overlayData, def.form.key, `${safeTitle}_Certificate_of_Service.pdf`);
+  }
+
+  return null;
+}
+
+async function renderOverlayTemplate(
+  template: HydratedOutputTemplate,
+  overlayData: OverlayField[],
+  formKey: string,
+  filename: string,
+): Promise<DocumentRenderResult> {
+  const basePdfPath = path.resolve(process.cwd(), template.basePdfAttachmentPath!);
+  await assertBasePdfReadable(basePdfPath);
+
+  const renderStrategy: RenderStrategy = (template.renderStrategy as RenderStrategy) || 'form_fields';
+  const fieldNameMap: Record<string, string> | undefined = template.fieldMapJson || undefined;
 
   const basePdfBytes = fs.readFileSync(basePdfPath);
   const basePdfSha256 = computeSha256(basePdfBytes);
@@ -87,12 +136,11 @@ async function renderFromNoticeForm(input: DocumentRenderInput): Promise<Documen
   }
 
   const outputPdfSha256 = computeSha256(result.buffer);
-  const safeTitle = def.form.displayName.replace(/[^a-zA-Z0-9]/g, '_');
 
   return {
     buffer: result.buffer,
     contentType: 'application/pdf',
-    filename: `${safeTitle}.pdf`,
+    filename,
     renderModeUsed: 'official_pdf_overlay',
     renderStrategyUsed: result.strategyUsed,
     basePdfSha256,
@@ -0,0 +1,145 @@
+import { calculateDates, countPeriod, selectDayRule, selectedServiceExtensions } from "./dateEngine";
+import type { HydratedFormDefinition } from "./matrixResolver";
+import {
+  EVICTION_STEPS,
+  EVICTION_COURT_STEPS,
+  DEFAULT_EVICTION_COURT_STEP_DAYS,
+  type EvictionStepKey,
+  type EvictionCourtStepKey,
+} from "@shared/evictionTimeline";
+
+type Holiday = { date: string; label: string };
+
+export type CourtStepRule = {
+  days: number;
+  dayType: string;
+  countingConvention: string;
+  holidays: Holiday[];
+  citation: string | null;
+};
+
+export type EvictionTimelineInput = {
+  serviceDate: string;
+  // The notice-form version the notice was generated from, when it still
+  // resolves. Null falls back to the dates stored on the generated notice.
+  def: HydratedFormDefinition | null;
+  leaseGateAnswers: Record<string, string | number | boolean> | null;
+  serviceSelection: Record<string, boolean | string> | null;
+  storedDates: { complianceDeadline: string | null; earliestFilingDate: string | null };
+  courtRules: Partial<Record<EvictionCourtStepKey, CourtStepRule>>;
+  // The state's court holidays, used for steps without a configured rule.
+  stateHolidays: Holiday[];
+  actualDates: Partial<Record<EvictionStepKey, string | null>>;
+};
+
+export type PlannedEvictionStep = {
+  stepKey: EvictionStepKey;
+  sortOrder: number;
+  label: string;
+  plannedDate: string | null;
+  isEstimate: boolean;
+  explain: string | null;
+  citation: string | null;
+};
+
+export function planEvictionTimeline(input: EvictionTimelineInput): PlannedEvictionStep[] {
+  const planned: Partial<Record<EvictionStepKey, Omit<PlannedEvictionStep, 'stepKey' | 'sortOrder' | 'label'>>> = {};
+
+  planned.notice_served = {
+    plannedDate: input.serviceDate,
+    isEstimate: false,
+    explain: `Notice served ${input.serviceDate}`,
+    citation: null,
+  };
+
+  // Notice period and earliest filing come from the form's own day rules so
+  // the timeline matches the deadline printed on the notice.
+  const rule = input.def ? selectDayRule(input.def, input.leaseGateAnswers || undefined) : null;
+  if (input.def && rule) {
+    const serviceExtensions = selectedServiceExtensions(input.def, input.serviceSelection);
+    const period = countPeriod({
+      dayType: rule.dayType,
+      periodDays: rule.noticePeriodDays,
+      countingConvention: rule.countingConvention,
+      startDate: input.serviceDate,
+      startLabel: 'Service date',
+      holidays: rule.holidays,
+      serviceExtensions,
+    });
+    const dates = calculateDates({
+      dayType: rule.dayType,
+      noticePeriodDays: rule.noticePeriodDays,
+      countingConvention: rule.countingConvention,
+      serviceDate: input.serviceDate,
+      holidays: rule.holidays,
+      serviceExtensions,
+    });
+    const citation = input.def.version.statuteSourceCitation;
+    planned.cure_period_ends = { plannedDate: period.endDate, isEstimate: false, explain: period.explain, citation };
+    planned.filing = {
+      plannedDate: dates.earliestFilingDate,
+      isEstimate: false,
+      explain: `Earliest filing date: next business day after the notice period ends (${dates.complianceDeadline})`,
+      citation,
+    };
+  } else {
+    planned.cure_period_ends = {
+      plannedDate: input.storedDates.complianceDeadline,
+      isEstimate: false,
+      explain: input.storedDates.complianceDeadline ? 'Deadline calculated when the notice was generated' : null,
+      citation: null,
+    };
+    planned.filing = {
+      plannedDate: input.storedDates.earliestFilingDate,
+      isEstimate: false,
+      explain: input.storedDates.earliestFilingDate ? 'Earliest filing date calculated when the notice was generated' : null,
+      citation: null,
+    };
+  }
+
+  // Court steps count from the step before them - the actual date once the
+  // landlord records it (filed, hearing set), otherwise the planned one.
+  for (const step of EVICTION_COURT_STEPS) {
+    const anchorDate = input.actualDates[step.anchor] || planned[step.anchor]?.plannedDate || null;
+    if (!anchorDate) {
+      planned[step.key] = { plannedDate: null, isEstimate: false, explain: null, citation: null };
+      continue;
+    }
+    const anchorLabel = EVICTION_STEPS.find((s) => s.key === step.anchor)!.label;
+    const startLabel = `${step.anchor === 'filing' ? 'Filing' : step.anchor === 'hearing' ? 'Hearing' : 'Judgment'} date`;
+    const courtRule = input.courtRules[step.key];
+    if (courtRule) {
+      const period = countPeriod({
+        dayType: courtRule.dayType,
+        periodDays: courtRule.days,
+        countingConvention: courtRule.countingConvention,
+        startDate: anchorDate,
+        startLabel,
+        holidays: courtRule.holidays,
+      });
+      planned[step.key] = { plannedDate: period.endDate, isEstimate: false, explain: period.explain, citation: courtRule.citation };
+    } else {
+      const period = countPeriod({
+        dayType: 'calendar',
+        periodDays: DEFAULT_EVICTION_COURT_STEP_DAYS[step.key],
+        countingConvention: 'day0_service_plus_n_roll_forward',
+        startDate: anchorDate,
+        startLabel,
+        holidays: input.stateHolidays,
+      });
+      planned[step.key] = {
+        plannedDate: period.endDate,
+        isEstimate: true,
+        explain: `Typical timing after ${anchorLabel.toLowerCase()} - no rule is configured for this state, so confirm with the court. ${period.explain}`,
+        citation: null,
+      };
+    }
+  }
+
+  return EVICTION_STEPS.map((s, index) => ({
+    stepKey: s.key,
+    sortOrder: index,
+    label: s.label,
+    ...planned[s.key]!,
+  }));
+}
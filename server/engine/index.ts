@@ -1,5 +1,7 @@
-export { resolveForm, type HydratedFormDefinition } from "./matrixResolver";
+export { resolveForm, resolveFormVersion, type HydratedFormDefinition, type HydratedOutputTemplate } from "./matrixResolver";
 export { validateInputs, type ValidationResult, type ValidationError } from "./validationEngine";
-export { calculateDates, type DateCalculationInput, type DateCalculationResult } from "./dateEngine";
+export { calculateDates, countPeriod, selectDayRule, selectedServiceExtensions, type DateCalculationInput, type DateCalculationResult, type PeriodInput, type PeriodResult } from "./dateEngine";
 export { resolveServiceMethods, enforceServiceHierarchy, type AvailableServiceMethod } from "./serviceEngine";
+export { checkServiceAttempt, summarizeServiceLog, getServiceOverlayValues, type ServiceAttemptRecord, type ServiceLogSummary } from "./serviceLog";
 export { renderHtml, getOverlayData, type RenderInput } from "./renderer";
+export { planEvictionTimeline, type EvictionTimelineInput, type PlannedEvictionStep, type CourtStepRule } from "./evictionTimeline";
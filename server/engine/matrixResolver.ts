@@ -48,6 +48,7 @@ export type HydratedFormDefinition = {
     additionalMethodIds: string[];
     ackText: string | null;
     requiresAck: boolean;
+    extensionDays: number;
     sortOrder: number;
   }>;
   leaseGates: Array<{
@@ -86,27 +87,31 @@ export type HydratedFormDefinition = {
       errorMessage: string;
     }>;
   }>;
-  outputTemplate: {
-    id: string;
-    mode: string;
-    basePdfAttachmentPath: string | null;
-    htmlTemplate: string | null;
-    docxTemplateAttachmentPath: string | null;
-    pageCount: number | null;
-    renderStrategy: string | null;
-    fieldMapJson: Record<string, string> | null;
-    overlayFields: Array<{
-      fieldKey: string;
-      pageNumber: number;
-      x: number;
-      y: number;
-      font: string;
-      fontSize: number;
-      maxWidth: number | null;
-      align: string;
-      wrap: boolean;
-    }>;
-  } | null;
+  outputTemplate: HydratedOutputTemplate | null;
+  // The state's certificate/affidavit of service form, when configured.
+  proofOfServiceTemplate: HydratedOutputTemplate | null;
+};
+
+export type HydratedOutputTemplate = {
+  id: string;
+  mode: string;
+  basePdfAttachmentPath: string | null;
+  htmlTemplate: string | null;
+  docxTemplateAttachmentPath: string | null;
+  pageCount: number | null;
+  renderStrategy: string | null;
+  fieldMapJson: Record<string, string> | null;
+  overlayFields: Array<{
+    fieldKey: string;
+    pageNumber: number;
+    x: number;
+    y: number;
+    font: string;
+    fontSize: number;
+    maxWidth: number | null;
+    align: string;
+    wrap: boolean;
+  }>;
 };
 
 export async function resolveForm(formKey: string, asOfDate?: Date): Promise<HydratedFormDefinition> {
@@ -134,6 +139,24 @@ export async function resolveForm(formKey: string, asOfDate?: Date): Promise<Hyd
 
   if (!version) throw new Error(`No approved version found for ${formKey} as of ${dateStr}`);
 
+  return hydrateFormVersion(form, version);
+}
+
+// Load the exact version a notice was generated from, so later date math
+// (e.g. an eviction timeline) uses the rules that were in force at the time
+// rather than whichever version is current.
+export async function resolveFormVersion(versionId: string): Promise<HydratedFormDefinition> {
+  const [version] = await db.select().from(noticeFormVersions).where(eq(noticeFormVersions.id, versionId));
+  if (!version) throw new Error(`Form version not found: ${versionId}`);
+  const [form] = await db.select().from(noticeForms).where(eq(noticeForms.id, version.formId));
+  if (!form) throw new Error(`Form not found for version: ${versionId}`);
+  return hydrateFormVersion(form, version);
+}
+
+async function hydrateFormVersion(
+  form: typeof noticeForms.$inferSelect,
+  version: typeof noticeFormVersions.$inferSelect,
+): Promise<HydratedFormDefinition> {
   const allMethods = await db.select().from(serviceMethods);
   const methodMap = new Map(allMethods.map(m => [m.id, m]));
 
@@ -182,35 +205,12 @@ export async function resolveForm(formKey: string, asOfDate?: Date): Promise<Hyd
     validationsByField.set(v.fieldId, list);
   });
 
-  let outputTemplate: HydratedFormDefinition['outputTemplate'] = null;
-  if (outputsResult.length) {
-    const tmpl = outputsResult[0];
-    const oFields = await db.select().from(overlayFields)
-      .where(eq(overlayFields.outputTemplateId, tmpl.id))
-      .orderBy(asc(overlayFields.pageNumber), asc(overlayFields.y));
-
-    outputTemplate = {
-      id: tmpl.id,
-      mode: tmpl.mode,
-      basePdfAttachmentPath: tmpl.basePdfAttachmentPath,
-      htmlTemplate: tmpl.htmlTemplate,
-      docxTemplateAttachmentPath: tmpl.docxTemplateAttachmentPath,
-      pageCount: tmpl.pageCount,
-      renderStrategy: tmpl.renderStrategy,
-      fieldMapJson: (tmpl.fieldMapJson as Record<string, string>) || null,
-      overlayFields: oFields.map(f => ({
-        fieldKey: f.fieldKey,
-        pageNumber: f.pageNumber,
-        x: f.x,
-        y: f.y,
-        font: f.font || 'Helvetica',
-        fontSize: f.fontSize || 10,
-        maxWidth: f.maxWidth,
-        align: f.align || 'left',
-        wrap: f.wrap || false,
-      })),
-    };
-  }
+  const noticeTemplate = outputsResult.find(t => t.purpose === 'notice');
+  const proofTemplate = outputsResult.find(t => t.purpose === 'proof_of_service');
+  const [outputTemplate, proofOfServiceTemplate] = await Promise.all([
+    noticeTemplate ? hydrateOutputTemplate(noticeTemplate) : null,
+    proofTemplate ? hydrateOutputTemplate(proofTemplate) : null,
+  ]);
 
   return {
     form: {
@@ -245,6 +245,7 @@ export async function resolveForm(formKey: string, asOfDate?: Date): Promise<Hyd
         additionalMethodIds: (r.additionalMethodIds as string[]) || [],
         ackText: r.ackText,
         requiresAck: r.requiresAck,
+        extensionDays: r.extensionDays,
         sortOrder: r.sortOrder,
       };
     }),
@@ -288,5 +289,34 @@ export async function resolveForm(formKey: string, asOfDate?: Date): Promise<Hyd
       })),
     })),
     outputTemplate,
+    proofOfServiceTemplate,
+  };
+}
+
+async function hydrateOutputTemplate(tmpl: typeof outputTemplates.$inferSelect): Promise<HydratedOutputTemplate> {
+  const oFields = await db.select().from(overlayFields)
+    .where(eq(overlayFields.outputTemplateId, tmpl.id))
+    .orderBy(asc(overlayFields.pageNumber), asc(overlayFields.y));
+
+  return {
+    id: tmpl.id,
+    mode: tmpl.mode,
+    basePdfAttachmentPath: tmpl.basePdfAttachmentPath,
+    htmlTemplate: tmpl.htmlTemplate,
+    docxTemplateAttachmentPath: tmpl.docxTemplateAttachmentPath,
+    pageCount: tmpl.pageCount,
+    renderStrategy: tmpl.renderStrategy,
+    fieldMapJson: (tmpl.fieldMapJson as Record<string, string>) || null,
+    overlayFields: oFields.map(f => ({
+      fieldKey: f.fieldKey,
+      pageNumber: f.pageNumber,
+      x: f.x,
+      y: f.y,
+      font: f.font || 'Helvetica',
+      fontSize: f.fontSize || 10,
+      maxWidth: f.maxWidth,
+      align: f.align || 'left',
+      wrap: f.wrap || false,
+    })),
   };
 }
@@ -0,0 +1,155 @@
+import type { HydratedFormDefinition } from "./matrixResolver";
+import { resolveServiceMethods } from "./serviceEngine";
+
+export type ServiceAttemptRecord = {
+  attemptNumber: number;
+  methodId: string;
+  servedByName: string;
+  servedByRole: string;
+  attemptDate: string;
+  attemptTime: string | null;
+  address: string;
+  recipientName: string | null;
+  outcome: string;
+};
+
+export type ServiceLogSummary = {
+  complete: boolean;
+  // When service was completed - the last of the served method and any
+  // methods it must be combined with (e.g. posting + mailing).
+  servedDate: string | null;
+  servedMethodIds: string[];
+  missingMethodNames: string[];
+};
+
+// Attempts order by date, then time (untimed attempts first on their day).
+function sortKey(a: { attemptDate: string; attemptTime: string | null }): string {
+  return `${a.attemptDate} ${a.attemptTime || ''}`;
+}
+
+function methodName(def: HydratedFormDefinition, methodId: string): string {
+  return def.serviceRules.find(r => r.methodId === methodId)?.methodDisplayName || methodId;
+}
+
+/**
+ * Check a new attempt against the form version's service rules: the method
+ * must be allowed for this notice (including lease-gate locks), and methods
+ * that require prior attempts can only be logged after an earlier
+ * unsuccessful attempt by each prerequisite method.
+ */
+export function checkServiceAttempt(
+  def: HydratedFormDefinition,
+  gateAnswers: Record<string, string | number | boolean>,
+  attempts: ServiceAttemptRecord[],
+  candidate: { methodId: string; attemptDate: string; attemptTime: string | null },
+): { valid: boolean; errors: string[] } {
+  const errors: string[] = [];
+  const method = resolveServiceMethods(def, gateAnswers).find(m => m.methodId === candidate.methodId);
+
+  if (!method) {
+    return { valid: false, errors: ['That service method is not available for this notice'] };
+  }
+  if (!method.isAllowed) {
+    errors.push(method.lockReason
+      ? `${method.displayName} is not allowed for this notice. ${method.lockReason}`
+      : `${method.displayName} is not allowed for this notice`);
+  }
+
+  const rule = def.serviceRules.find(r => r.methodId === candidate.methodId)!;
+  if (rule.requiresPriorAttempts) {
+    const candidateAt = sortKey(candidate);
+    const earlierFailures = attempts.filter(a => a.outcome === 'unsuccessful' && sortKey(a) < candidateAt);
+    if (rule.priorAttemptMethodIds.length === 0) {
+      if (earlierFailures.length === 0) {
+        errors.push(`${method.displayName} is only allowed after an earlier unsuccessful service attempt`);
+      }
+    } else {
+      for (const priorId of rule.priorAttemptMethodIds) {
+        if (!earlierFailures.some(a => a.methodId === priorId)) {
+          errors.push(`${method.displayName} is only allowed after an unsuccessful ${methodName(def, priorId)} attempt`);
+        }
+      }
+    }
+  }
+
+  return { valid: errors.length === 0, errors };
+}
+
+/**
+ * Whether the log shows completed service. A served attempt counts once every
+ * method its rule must be combined with has also been served.
+ */
+export function summarizeServiceLog(def: HydratedFormDefinition, attempts: ServiceAttemptRecord[]): ServiceLogSummary {
+  const served = attempts.filter(a => a.outcome === 'served');
+  const servedMethodIds = Array.from(new Set(served.map(a => a.methodId)));
+  if (served.length === 0) {
+    return { complete: false, servedDate: null, servedMethodIds, missingMethodNames: [] };
+  }
+
+  const missing = new Set<string>();
+  for (const methodId of servedMethodIds) {
+    const rule = def.serviceRules.find(r => r.methodId === methodId);
+    if (!rule?.requiresAdditionalMethods) continue;
+    for (const addId of rule.additionalMethodIds) {
+      if (!servedMethodIds.includes(addId)) missing.add(addId);
+    }
+  }
+
+  const complete = missing.size === 0;
+  const lastServed = complete ? [...served].sort((a, b) => sortKey(a).localeCompare(sortKey(b))).pop()! : null;
+  return {
+    complete,
+    servedDate: lastServed?.attemptDate || null,
+    servedMethodIds,
+    missingMethodNames: Array.from(missing).map(id => methodName(def, id)),
+  };
+}
+
+// MM/DD/YYYY, as court forms print dates.
+function formatDate(isoDate: string): string {
+  const [y, m, d] = isoDate.split('-');
+  return `${m}/${d}/${y}`;
+}
+
+function formatTime(time: string | null): string {
+  if (!time) return '';
+  const [h, m] = time.split(':').map(Number);
+  return `${h % 12 || 12}:${String(m).padStart(2, '0')} ${h < 12 ? 'AM' : 'PM'}`;
+}
+
+/**
+ * Values for a certificate/affidavit of service overlay, keyed the same way
+ * as notice overlays (service_checkbox_<method key>, service_date,
+ * server_name) so a notice form that carries its own certificate section can
+ * be re-rendered with the logged service filled in.
+ */
+export function getServiceOverlayValues(def: HydratedFormDefinition, attempts: ServiceAttemptRecord[]): Record<string, string> {
+  const summary = summarizeServiceLog(def, attempts);
+  const ordered = [...attempts].sort((a, b) => a.attemptNumber - b.attemptNumber);
+  const lastServed = [...ordered].reverse().find(a => a.outcome === 'served');
+  const values: Record<string, string> = {
+    signature_date: formatDate(new Date().toISOString().slice(0, 10)),
+  };
+
+  for (const rule of def.serviceRules) {
+    values[`service_checkbox_${rule.methodKey}`] = summary.servedMethodIds.includes(rule.methodId) ? 'X' : '';
+  }
+  if (lastServed) {
+    values['service_date'] = formatDate(summary.servedDate || lastServed.attemptDate);
+    values['service_time'] = formatTime(lastServed.attemptTime);
+    values['service_address'] = lastServed.address;
+    values['service_method'] = summary.servedMethodIds.map(id => methodName(def, id)).join(' and ');
+    values['server_name'] = lastServed.servedByName;
+    values['server_role'] = lastServed.servedByRole.replace(/_/g, ' ');
+    values['recipient_name'] = lastServed.recipientName || '';
+  }
+  for (const a of ordered) {
+    const prefix = `attempt_${a.attemptNumber}`;
+    values[`${prefix}_date`] = formatDate(a.attemptDate);
+    values[`${prefix}_time`] = formatTime(a.attemptTime);
+    values[`${prefix}_method`] = methodName(def, a.methodId);
+    values[`${prefix}_outcome`] = a.outcome === 'served' ? 'Served' : 'Unsuccessful';
+    values[`${prefix}_address`] = a.address;
+  }
+  return values;
+}
@@ -105,8 +105,8 @@ app.use((req, res, next) => {
   if (req.path === '/api/stripe-webhook') {
     // Use raw body parser for Stripe webhook
     express.raw({ type: 'application/json' })(req, res, next);
-  } else if (req.path.startsWith('/api/webhooks/digitaldelve/')) {
-    // Use text body parser for DigitalDelve XML webhooks
+  } else if (req.path.startsWith('/api/webhooks/screening/') || req.path.startsWith('/api/webhooks/digitaldelve/')) {
+    // Use text body parser for screening provider webhooks (DigitalDelve posts XML)
     express.text({ type: ['application/xml', 'text/xml', '*/*'], limit: '1mb' })(req, res, next);
   } else {
     // Use JSON parser for all other routes
@@ -1,6 +1,9 @@
 import type { RequestHandler, Request, Response, NextFunction } from 'express';
 import { verifyAccessToken, extractTokenFromHeader } from './jwt';
 import { storage } from './storage';
+import { canAccessTeamArea } from '@shared/organizations';
+import { resolveTeamContext } from './utils/organizations';
+import { teamAreaForPath } from './utils/teamRouteAreas';
 
 // In-memory impersonation storage: adminId -> { impersonatedUserId, startedAt }
 const impersonationSessions = new Map<string, { impersonatedUserId: string; startedAt: Date }>();
@@ -51,14 +54,30 @@ export const isAuthenticated: RequestHandler = async (req: Request, res: Respons
         (req as any).userId = impersonatedUser.id;
         (req as any).isImpersonating = true;
         (req as any).realAdmin = authenticatedUser;
+        (req as any).teamRole = 'owner';
         console.error(`🔒 [JWT Auth] ✅ Admin ${authenticatedUser.email} impersonating: ${impersonatedUser.email}`);
         return next();
       }
     }
 
-    (req as any).user = authenticatedUser;
-    (req as any).userId = authenticatedUser.id;
+    // Team members work on the owner's account: the owner becomes the request
+    // user, so every userId-scoped storage query returns the team's shared
+    // records. The member's role then decides which areas they can reach.
+    const team = await resolveTeamContext(authenticatedUser);
+    (req as any).user = team.dataOwner;
+    (req as any).userId = team.dataOwner.id;
     (req as any).isImpersonating = false;
+    (req as any).teamRole = team.role;
+    if (team.member) {
+      (req as any).teamMember = authenticatedUser;
+      const path = req.originalUrl.split('?')[0];
+      const level = req.method === 'GET' || req.method === 'HEAD' ? 'read' : 'write';
+      const area = teamAreaForPath(path);
+      if (!area || !canAccessTeamArea(team.role, area, level)) {
+        console.error(`🔒 [JWT Auth] ❌ ${authenticatedUser.email} (${team.role}) denied ${req.method} ${path}`);
+        return res.status(403).json({ message: "Your team role doesn't allow this", teamRole: team.role });
+      }
+    }
     console.error(`🔒 [JWT Auth] ✅ Authenticated: ${authenticatedUser.email}`);
     next();
   } catch (error) {
@@ -78,6 +97,11 @@ export const requireAccess: RequestHandler = async (req: Request, res: Response,
     return next();
   }
 
+  // Tenant logins only reach the tenant portal, never landlord features
+  if (user.role === 'tenant') {
+    return res.status(403).json({ message: 'Landlord account required' });
+  }
+
   const hasActiveSubscription = 
     user.subscriptionStatus === 'active' || 
     user.subscriptionStatus === 'cancel_at_period_end' ||
@@ -110,9 +134,24 @@ export const requireAdmin: RequestHandler = async (req: Request, res: Response,
     return res.status(401).json({ message: 'Unauthorized' });
   }
 
-  if (!user.isAdmin) {
+  // A team member acts as the owner's account but never with admin rights.
+  if (!user.isAdmin || (req as any).teamMember) {
     return res.status(403).json({ message: 'Admin access required' });
   }
 
   next();
 };
+
+export const requireTenant: RequestHandler = async (req: Request, res: Response, next: NextFunction) => {
+  const user = (req as any).user;
+
+  if (!user) {
+    return res.status(401).json({ message: 'Unauthorized' });
+  }
+
+  if (user.role !== 'tenant') {
+    return res.status(403).json({ message: 'Tenant access required' });
+  }
+
+  next();
+};
@@ -13,6 +13,7 @@ export interface ApproveBillResult {
   success: boolean;
   alreadyReviewed: boolean;
   templatesQueued: number;
+  disclosuresFlagged: number;
   drafts: Array<{ templateId: string; changeSummary: string; draftedClause: string }>;
 }
 
@@ -26,7 +27,7 @@ export async function approveBill(
   }
 
   if (bill.isReviewed) {
-    return { success: true, alreadyReviewed: true, templatesQueued: 0, drafts: [] };
+    return { success: true, alreadyReviewed: true, templatesQueued: 0, disclosuresFlagged: 0, drafts: [] };
   }
 
   let templatesQueued = 0;
@@ -102,6 +103,16 @@ export async function approveBill(
     }
   }
 
+  // Lease disclosures in the bill's compliance categories need an admin to
+  // confirm the text still matches the law.
+  let disclosuresFlagged = 0;
+  try {
+    const { flagDisclosuresForBill } = await import("./states/disclosures");
+    disclosuresFlagged = await flagDisclosuresForBill(bill);
+  } catch (flagError) {
+    console.error("Error flagging state disclosures for bill:", billId, flagError);
+  }
+
   await storage.updateLegislativeMonitoring(bill.id, {
     isReviewed: true,
     reviewedBy: opts.reviewedBy,
@@ -110,7 +121,7 @@ export async function approveBill(
       opts.reviewNotes ?? `Approved by ${opts.reviewedBy} - ${templatesQueued} template drafts created`,
   });
 
-  return { success: true, alreadyReviewed: false, templatesQueued, drafts };
+  return { success: true, alreadyReviewed: false, templatesQueued, disclosuresFlagged, drafts };
 }
 
 /**
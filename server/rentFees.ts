@@ -17,6 +17,14 @@ export const MIN_SERVICE_FEE_CENTS = 350; // $3.50
 // Default tenant convenience fee charged when a landlord hasn't customized it.
 export const DEFAULT_SERVICE_FEE_CENTS = 495; // $4.95
 
+// Resolve a landlord's effective default service fee in cents. Treats any
+// stored value below MIN_SERVICE_FEE_CENTS (including 0 from legacy rows
+// where the toggle was off) as "use the platform default".
+export function resolveDefaultServiceFeeCents(stored: number | null | undefined): number {
+  const v = stored ?? 0;
+  return v >= MIN_SERVICE_FEE_CENTS ? v : DEFAULT_SERVICE_FEE_CENTS;
+}
+
 export type ServiceFeePayer = "tenant" | "landlord" | "none";
 
 export function isServiceFeePayer(v: unknown): v is ServiceFeePayer {
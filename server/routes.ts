@@ -31,6 +31,7 @@ import { registerBlogRoutes } from "./routes/blog";
 import { registerNotifyLegalUpdateRoute } from "./routes/notifyLegalUpdate";
 import { registerTemplateReviewQueueRoutes } from "./routes/templateReviewQueue";
 import { registerStateClauseValuesRoutes } from "./routes/stateClauseValues";
+import { registerStateDisclosuresRoutes } from "./routes/stateDisclosures";
 import { registerTemplateVersionsRoutes } from "./routes/templateVersions";
 import { registerDocumentsGenerateRoutes } from "./routes/documentsGenerate";
 import { registerLegislativeBillsRoutes } from "./routes/legislativeBills";
@@ -45,18 +46,33 @@ import { registerAdminBroadcastsRoutes } from "./routes/adminBroadcasts";
 import { registerAdminScreeningCredentialsRoutes } from "./routes/adminScreeningCredentials";
 import { registerMessagesRoutes } from "./routes/messages";
 import { registerRentalPropertiesRoutes } from "./routes/rentalProperties";
+import { registerRentalSelectionCriteriaRoutes } from "./routes/rentalSelectionCriteria";
 import { registerRentalSubmissionsRoutes } from "./routes/rentalSubmissions";
 import { registerRentalScreeningRoutes } from "./routes/rentalScreening";
-import { registerDigitalDelveWebhooksRoutes } from "./routes/digitalDelveWebhooks";
+import { registerRentalIncomeRoutes } from "./routes/rentalIncome";
+import { registerRentalApplicantQueueRoutes } from "./routes/rentalApplicantQueue";
+import { registerRentalApprovalHoldRoutes } from "./routes/rentalApprovalHolds";
+import { registerScreeningWebhooksRoutes } from "./routes/screeningWebhooks";
 import { registerApplyRoutes } from "./routes/apply";
 import { registerRentalFilesRoutes } from "./routes/rentalFiles";
 import { registerReuploadRoutes } from "./routes/reupload";
 import { registerAdminDatabaseRoutes } from "./routes/adminDatabase";
 import { registerStateNotesRoutes } from "./routes/stateNotes";
 import { registerDenialDecisionRoutes } from "./routes/denialDecision";
+import { registerIndividualizedAssessmentRoutes } from "./routes/individualizedAssessments";
 import { registerRentSubscriptionsRoutes } from "./routes/rentSubscriptions";
 import { registerDashboardRoutes } from "./routes/dashboard";
 import { registerWaitlistRoutes } from "./routes/waitlist";
+import { registerTenanciesRoutes } from "./routes/tenancies";
+import { registerDocumentSignaturesRoutes } from "./routes/documentSignatures";
+import { registerSecurityDepositsRoutes } from "./routes/securityDeposits";
+import { registerTenantPortalRoutes } from "./routes/tenantPortal";
+import { registerMaintenanceRoutes } from "./routes/maintenance";
+import { registerEvictionCaseRoutes } from "./routes/evictionCases";
+import { registerNoticeServiceLogRoutes } from "./routes/noticeServiceLog";
+import { registerOrganizationRoutes } from "./routes/organization";
+import { registerOwnerReportsRoutes } from "./routes/ownerReports";
+import { registerPropertyExpensesRoutes } from "./routes/propertyExpenses";
 
 export async function registerRoutes(app: Express): Promise<Server> {
   // Trust proxy - required for secure cookies behind Replit's HTTPS proxy
@@ -105,6 +121,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   await registerNotifyLegalUpdateRoute(app);
   await registerTemplateReviewQueueRoutes(app);
   await registerStateClauseValuesRoutes(app);
+  await registerStateDisclosuresRoutes(app);
   await registerTemplateVersionsRoutes(app);
   await registerDocumentsGenerateRoutes(app);
   await registerLegislativeBillsRoutes(app);
@@ -119,18 +136,33 @@ export async function registerRoutes(app: Express): Promise<Server> {
   await registerAdminScreeningCredentialsRoutes(app);
   await registerMessagesRoutes(app);
   await registerRentalPropertiesRoutes(app);
+  await registerRentalSelectionCriteriaRoutes(app);
   await registerRentalSubmissionsRoutes(app);
   await registerRentalScreeningRoutes(app);
-  await registerDigitalDelveWebhooksRoutes(app);
+  await registerRentalIncomeRoutes(app);
+  await registerRentalApplicantQueueRoutes(app);
+  await registerRentalApprovalHoldRoutes(app);
+  await registerScreeningWebhooksRoutes(app);
   await registerApplyRoutes(app);
   await registerRentalFilesRoutes(app);
   await registerReuploadRoutes(app);
   await registerAdminDatabaseRoutes(app);
   await registerStateNotesRoutes(app);
   await registerDenialDecisionRoutes(app);
+  await registerIndividualizedAssessmentRoutes(app);
   await registerRentSubscriptionsRoutes(app);
   await registerDashboardRoutes(app);
   await registerWaitlistRoutes(app);
+  await registerTenanciesRoutes(app);
+  await registerDocumentSignaturesRoutes(app);
+  await registerSecurityDepositsRoutes(app);
+  await registerTenantPortalRoutes(app);
+  await registerMaintenanceRoutes(app);
+  await registerEvictionCaseRoutes(app);
+  await registerNoticeServiceLogRoutes(app);
+  await registerOrganizationRoutes(app);
+  await registerOwnerReportsRoutes(app);
+  await registerPropertyExpensesRoutes(app);
 
   const httpServer = createServer(app);
   return httpServer;
@@ -105,6 +105,84 @@ export const applicantUpload = multer({
   }
 });
 
+// Photos attached to maintenance tickets (kept in memory, then written to
+// private object storage)
+export const photoUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 10 * 1024 * 1024 // 10MB max file size
+  },
+  fileFilter: (req, file, cb) => {
+    const allowedMimeTypes = [
+      'image/jpeg',
+      'image/jpg',
+      'image/png',
+      'image/webp',
+    ];
+    const allowedExtensions = /\.(jpg|jpeg|png|webp)$/i;
+
+    const ext = path.extname(file.originalname).toLowerCase();
+    const mimeTypeValid = allowedMimeTypes.includes(file.mimetype);
+    const extensionValid = allowedExtensions.test(ext);
+
+    if (mimeTypeValid && extensionValid) {
+      cb(null, true);
+    } else {
+      cb(new Error('Only JPG, PNG, and WEBP images are allowed'));
+    }
+  }
+});
+
+// Single "photo" field, with multer errors returned as JSON instead of
+// falling through to the default error handler.
+export function singlePhotoUpload(req: any, res: any, next: any) {
+  photoUpload.single('photo')(req, res, (err: any) => {
+    if (err) {
+      const status = err.code === 'LIMIT_FILE_SIZE' ? 413 : 400;
+      return res.status(status).json({ message: err.message || "Photo upload failed" });
+    }
+    next();
+  });
+}
+
+// Expense receipts: a photo of the receipt or the PDF invoice
+export const receiptUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 10 * 1024 * 1024 // 10MB max file size
+  },
+  fileFilter: (req, file, cb) => {
+    const allowedMimeTypes = [
+      'application/pdf',
+      'image/jpeg',
+      'image/jpg',
+      'image/png',
+      'image/webp',
+    ];
+    const allowedExtensions = /\.(pdf|jpg|jpeg|png|webp)$/i;
+
+    const ext = path.extname(file.originalname).toLowerCase();
+    const mimeTypeValid = allowedMimeTypes.includes(file.mimetype);
+    const extensionValid = allowedExtensions.test(ext);
+
+    if (mimeTypeValid && extensionValid) {
+      cb(null, true);
+    } else {
+      cb(new Error('Only PDF, JPG, PNG, and WEBP files are allowed'));
+    }
+  }
+});
+
+export function singleReceiptUpload(req: any, res: any, next: any) {
+  receiptUpload.single('receipt')(req, res, (err: any) => {
+    if (err) {
+      const status = err.code === 'LIMIT_FILE_SIZE' ? 413 : 400;
+      return res.status(status).json({ message: err.message || "Receipt upload failed" });
+    }
+    next();
+  });
+}
+
 export function shortToken(length = 10): string {
   const chars = '0123456789abcdefghijklmnopqrstuvwxyz';
   const bytes = randomBytes(length);
@@ -120,6 +198,12 @@ export function getUserId(req: any): string {
   return userId;
 }
 
+// The login actually making the request. Differs from getUserId for team
+// members, whose requests run against the team owner's account.
+export function getActingUserId(req: any): string {
+  return req.teamMember?.id || getUserId(req);
+}
+
 // Helper to get client IP address
 export function getClientIp(req: any): string {
   return req.ip || req.connection.remoteAddress || 'unknown';
@@ -135,6 +219,9 @@ export async function updateSubmissionStatusFromScreening(submissionId: string):
     const decision = await storage.getRentalDecision(submissionId);
     if (decision) return;
 
+    // Waitlisted applicants stay waitlisted while their screening finishes
+    if (submission.status === 'waitlisted') return;
+
     const screeningOrders = await storage.getRentalScreeningOrdersBySubmission(submissionId);
 
     if (screeningOrders.length === 0) {
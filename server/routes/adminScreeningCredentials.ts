@@ -106,12 +106,16 @@ export async function registerAdminScreeningCredentialsRoutes(app: Express) {
         encryptionIv: credentials.encryptionIv,
       });
 
-      // Test with Digital Delve
-      const { verifyCredentialsWithParams } = await import("../digitalDelveService");
-      const verifyResult = await verifyCredentialsWithParams(username, password);
+      // Test with the landlord's screening provider
+      const { getScreeningProvider } = await import("../screening");
+      const provider = getScreeningProvider(credentials.provider);
+      if (!provider) {
+        return res.status(400).json({ message: `Unknown screening provider: ${credentials.provider}` });
+      }
+      const verifyResult = await provider.verifyCredentials({ username, password });
       const testResult = {
         success: verifyResult.success,
-        error: verifyResult.error || verifyResult.message,
+        error: verifyResult.success ? undefined : verifyResult.error,
       };
 
       // Update status based on test result
@@ -7,13 +7,15 @@ import { emailService } from "../emailService";
 import { uploadApplicantBuffer, isObjstorePath, deleteApplicantObject } from "../applicantObjectStorage";
 import { upload, applicantUpload, shortToken } from "./_shared";
 import { hasDisplayableTerms, propertyTermsChanged, type PropertyTerms } from "@shared/propertyTerms";
+import type { RentalPropertySelectionCriteria } from "@shared/schema";
 
 // Resolve the live property/unit data for an application link so landlord edits
 // propagate to existing links immediately. The link's mergedSchemaJson snapshot
 // is only a fallback when the unit/property chain is unavailable. Returns the
 // fields needed by the public apply endpoints plus the resolved propertyTerms,
 // which the start/submit flows compare against an applicant's acknowledged
-// snapshot to decide whether a re-acknowledgment is required.
+// snapshot to decide whether a re-acknowledgment is required. The property's
+// current published selection criteria come along for the cover page.
 async function resolveLiveLinkData(link: any): Promise<{
   propertyName: string;
   unitLabel: string;
@@ -21,6 +23,8 @@ async function resolveLiveLinkData(link: any): Promise<{
   fieldSchema: any;
   propertyTerms: PropertyTerms;
   propertyState: string | null;
+  propertyId: string | null;
+  selectionCriteria: RentalPropertySelectionCriteria | null;
 }> {
   const snapshot = (link.mergedSchemaJson as any) || {};
   let propertyState: string | null = null;
@@ -29,12 +33,15 @@ async function resolveLiveLinkData(link: any): Promise<{
   let liveCoverPage: any = snapshot.coverPage;
   let basePropertyTerms: any = snapshot.propertyTerms || {};
   let liveUnit: any = null;
+  let propertyId: string | null = null;
+  let selectionCriteria: RentalPropertySelectionCriteria | null = null;
 
   if (link.unitId) {
     liveUnit = await storage.getRentalUnit(link.unitId);
     if (liveUnit?.propertyId) {
       const property = await storage.getRentalPropertyById(liveUnit.propertyId);
       if (property) {
+        propertyId = property.id;
         propertyState = property.state || null;
         livePropertyName = property.name || livePropertyName;
         // Field schema: unit override wins, else live property default
@@ -53,6 +60,7 @@ async function resolveLiveLinkData(link: any): Promise<{
         // Authoritative even when cleared to null, so cleared terms don't fall
         // back to the stale snapshot.
         basePropertyTerms = property.propertyTermsJson ?? {};
+        selectionCriteria = (await storage.getCurrentSelectionCriteria(property.id)) || null;
       }
     }
   }
@@ -79,9 +87,27 @@ async function resolveLiveLinkData(link: any): Promise<{
     fieldSchema: currentFieldSchema,
     propertyTerms: livePropertyTerms,
     propertyState,
+    propertyId,
+    selectionCriteria,
   };
 }
 
+// What applicants see of the published criteria - the version id is echoed
+// back when they acknowledge it.
+function publicSelectionCriteria(criteria: RentalPropertySelectionCriteria | null) {
+  if (!criteria) return null;
+  return { id: criteria.id, version: criteria.version, publishedAt: criteria.publishedAt, criteria: criteria.criteriaJson };
+}
+
+// Acknowledgment fields for a person. Only a version published for the
+// link's own property counts.
+async function selectionCriteriaAck(propertyId: string | null, selectionCriteriaId: unknown) {
+  if (!propertyId || typeof selectionCriteriaId !== 'string') return {};
+  const version = await storage.getSelectionCriteriaVersion(selectionCriteriaId);
+  if (!version || version.propertyId !== propertyId) return {};
+  return { selectionCriteriaAckId: version.id, selectionCriteriaAcknowledgedAt: new Date() };
+}
+
 export async function registerApplyRoutes(app: Express) {
   // Get application link data by public token (for applicants)
   app.get('/api/apply/:token', async (req, res) => {
@@ -127,6 +153,7 @@ export async function registerApplyRoutes(app: Express) {
         documentRequirements,
         propertyState: live.propertyState, // For state-specific compliance (e.g., TX tenant selection criteria)
         complianceRules, // Dynamic compliance rules from database
+        selectionCriteria: publicSelectionCriteria(live.selectionCriteria),
       });
     } catch (error) {
       console.error("Error getting application link:", error);
@@ -172,6 +199,7 @@ export async function registerApplyRoutes(app: Express) {
         documentRequirements,
         propertyState: live.propertyState,
         complianceRules,
+        selectionCriteria: publicSelectionCriteria(live.selectionCriteria),
       });
     } catch (error) {
       console.error("Error getting application link by ID:", error);
@@ -192,7 +220,7 @@ export async function registerApplyRoutes(app: Express) {
         return res.status(410).json({ message: "This application link has expired" });
       }
 
-      const { email, firstName, lastName, personType, propertyTermsAcknowledgedAt } = req.body;
+      const { email, firstName, lastName, personType, propertyTermsAcknowledgedAt, selectionCriteriaId } = req.body;
       
       if (!email || !firstName || !lastName) {
         return res.status(400).json({ message: "Email, first name, and last name are required" });
@@ -224,6 +252,7 @@ export async function registerApplyRoutes(app: Express) {
         inviteToken: shortToken(),
         propertyTermsAcknowledgedAt: acknowledged ? new Date() : null,
         propertyTermsAckSnapshotJson: acknowledged ? (live.propertyTerms as any) : null,
+        ...(await selectionCriteriaAck(live.propertyId, selectionCriteriaId)),
       });
 
       // Log event
@@ -380,6 +409,17 @@ export async function registerApplyRoutes(app: Express) {
         }
       }
 
+      // Invited co-applicants never go through start, so their cover-page
+      // acknowledgment of the selection criteria is recorded here.
+      let criteriaAck = {};
+      if (!person.selectionCriteriaAckId && req.body.selectionCriteriaId && submissionForTerms) {
+        const link = await storage.getRentalApplicationLink(submissionForTerms.applicationLinkId);
+        if (link) {
+          const live = await resolveLiveLinkData(link);
+          criteriaAck = await selectionCriteriaAck(live.propertyId, req.body.selectionCriteriaId);
+        }
+      }
+
       // Capture screening disclosure acknowledgment audit data
       const ipAddress = (req.headers['x-forwarded-for'] as string)?.split(',')[0]?.trim() || 
                         req.socket.remoteAddress || 
@@ -435,6 +475,7 @@ export async function registerApplyRoutes(app: Express) {
         // FCRA authorization (all states)
         fcraAuthorized: fcraAuthorized,
         fcraAuthorizedTimestamp: fcraAuthorized ? new Date() : null,
+        ...criteriaAck,
       });
 
       // Check if all people have completed
@@ -523,45 +564,25 @@ export async function registerApplyRoutes(app: Express) {
                                          primaryApplicant.email;
                   
                   if (!existingOrder && hasRequiredData) {
-                    // Import DigitalDelve service and crypto
-                    const { processScreeningRequest } = await import("../digitalDelveService");
-                    const { decryptCredentials } = await import("../crypto");
+                    const { placeScreeningOrder, resolveScreeningAccount } = await import("../screening");
                     
                     // Construct base URL for webhook callbacks - use stable production domain
                     const baseUrl = process.env.REPLIT_DOMAINS 
                       ? `https://${process.env.REPLIT_DOMAINS.split(',')[0]}`
                       : `${req.headers['x-forwarded-proto'] || req.protocol || 'https'}://${req.headers['x-forwarded-host'] || req.headers.host}`;
                     
-                    // Resolve landlord's screening credentials if configured
-                    let screeningCredentials: { username: string; password: string; invitationId?: string } | undefined;
-                    const landlordCreds = await storage.getLandlordScreeningCredentials(property.userId);
-                    if (landlordCreds && landlordCreds.status === 'verified') {
-                      try {
-                        const decrypted = decryptCredentials({
-                          encryptedUsername: landlordCreds.encryptedUsername,
-                          encryptedPassword: landlordCreds.encryptedPassword,
-                          encryptionIv: landlordCreds.encryptionIv,
-                        });
-                        // Resolve per-property invitation ID override (same chain as manual screening)
-                        const perPropertyId = (property as any).screeningInvitationId as string | null | undefined;
-                        let resolvedInvitationId = landlordCreds.defaultInvitationId || undefined;
-                        if (perPropertyId) {
-                          resolvedInvitationId = perPropertyId;
-                          console.log(`[Screening] Auto-screen: using per-property invitation ID for submission ${person.submissionId}`);
-                        }
-                        screeningCredentials = {
-                          username: decrypted.username,
-                          password: decrypted.password,
-                          invitationId: resolvedInvitationId,
-                        };
-                      } catch (e) {
-                        console.error("Failed to decrypt landlord credentials, falling back to system credentials");
-                      }
+                    // Resolve landlord's screening provider and credentials if configured
+                    const account = await resolveScreeningAccount(property.userId);
+                    // Resolve per-property invitation ID override (same chain as manual screening)
+                    const perPropertyId = (property as any).screeningInvitationId as string | null | undefined;
+                    if (account.credentials && perPropertyId) {
+                      account.credentials = { ...account.credentials, invitationId: perPropertyId };
+                      console.log(`[Screening] Auto-screen: using per-property invitation ID for submission ${person.submissionId}`);
                     }
                     
-                    // Build applicant data - SSN/DOB collected by Western Verify portal directly
+                    // Build applicant data - SSN/DOB collected by the provider's portal directly
                     // Pass all available fields for consistency with manual flow
-                    const result = await processScreeningRequest(
+                    const result = await placeScreeningOrder(
                       person.submissionId,
                       {
                         firstName: primaryApplicant.firstName || "",
@@ -576,8 +597,8 @@ export async function registerApplyRoutes(app: Express) {
                         zip: formData.currentZip,
                       },
                       baseUrl,
+                      account,
                       undefined,
-                      screeningCredentials,
                       primaryApplicant.id
                     );
                     
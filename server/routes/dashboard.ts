@@ -2,6 +2,10 @@ import type { Express } from "express";
 import { storage } from "../storage";
 import { isAuthenticated } from "../jwtAuth";
 import { getUserId } from "./_shared";
+import { daysUntilDate } from "@shared/securityDeposit";
+import { getMaintenanceSlaStatus } from "@shared/maintenance";
+import { reversedEntryIds } from "@shared/tenantLedger";
+import { canAccessTeamArea, type TeamArea, type TeamRole } from "@shared/organizations";
 
 type AttentionItem = {
   id: string;
@@ -39,23 +43,29 @@ export async function registerDashboardRoutes(app: Express) {
       const user = await storage.getUser(userId);
       const userState = user?.preferredState || null;
 
+      // Team members only see the sections their role can open.
+      const role: TeamRole = req.teamRole || 'owner';
+      const canSee = (area: TeamArea) => canAccessTeamArea(role, area);
+
       const [
         rentalProperties,
-        properties,
         submissions,
         rentLedger,
         stateLegalUpdates,
+        securityDeposits,
+        maintenanceRequests,
       ] = await Promise.all([
-        storage.getRentalPropertiesByUserId(userId).catch(() => []),
-        storage.getPropertiesByUserId(userId).catch(() => []),
-        storage.getRentalSubmissionsByUserId(userId, false, false).catch(() => []),
-        storage.getRentLedgerEntries(userId).catch(() => []),
+        canSee('properties') ? storage.getRentalPropertiesByUserId(userId).catch(() => []) : Promise.resolve([]),
+        canSee('applications') ? storage.getRentalSubmissionsByUserId(userId, false, false).catch(() => []) : Promise.resolve([]),
+        canSee('ledger') ? storage.getRentLedgerEntries(userId).catch(() => []) : Promise.resolve([]),
         // State-scoped fetch so we never miss a relevant update by being
         // truncated out of a global "recent" window. Empty array if no
         // preferred state - matches the gating logic below.
         userState
           ? storage.getLegalUpdatesByState(userState).catch(() => [])
           : Promise.resolve([] as any[]),
+        canSee('ledger') ? storage.getSecurityDeposits(userId).catch(() => []) : Promise.resolve([]),
+        canSee('properties') ? storage.getMaintenanceRequests(userId).catch(() => []) : Promise.resolve([]),
       ]);
 
       const attention: AttentionItem[] = [];
@@ -160,8 +170,10 @@ export async function registerDashboardRoutes(app: Express) {
 
       // Overdue rent: charge entries with effectiveDate in the past and amountReceived < amountExpected
       const now = new Date();
+      const reversed = reversedEntryIds(rentLedger || []);
       const overdue = (rentLedger || []).filter((e: any) => {
         if (e.type && e.type !== "charge") return false;
+        if (reversed.has(e.id)) return false;
         const eff = e.effectiveDate ? new Date(e.effectiveDate) : null;
         if (!eff || eff > now) return false;
         const expected = e.amountExpected || 0;
@@ -182,6 +194,50 @@ export async function registerDashboardRoutes(app: Express) {
         });
       }
 
+      // Security deposits whose statutory return deadline is within a week or
+      // already past. Missing it can forfeit the right to keep any deductions.
+      for (const d of securityDeposits) {
+        if (d.status !== "awaiting_disposition" || !d.returnDeadline) continue;
+        const daysLeft = daysUntilDate(String(d.returnDeadline));
+        if (daysLeft > 7) continue;
+        const dollars = (d.amount / 100).toFixed(2);
+        attention.push({
+          id: `deposit-${d.id}`,
+          type: "deposit_deadline",
+          priority: daysLeft <= 3 ? "high" : "medium",
+          title: daysLeft < 0
+            ? `Deposit return overdue by ${-daysLeft} day${daysLeft === -1 ? "" : "s"}`
+            : `Deposit return due ${daysLeft === 0 ? "today" : `in ${daysLeft} day${daysLeft === 1 ? "" : "s"}`}`,
+          description: `Return the $${dollars} deposit or send the itemized deductions by ${d.returnDeadline}.`,
+          actionLabel: "Review deposit",
+          actionHref: "/rent-ledger?tab=deposits",
+          timestamp: new Date(`${d.returnDeadline}T00:00:00Z`).toISOString(),
+        });
+      }
+
+      // Maintenance tickets past their response or resolution SLA. Emergencies
+      // and missed resolutions go to the top; slow first responses are medium.
+      for (const m of maintenanceRequests) {
+        const sla = getMaintenanceSlaStatus(m, now);
+        if (!sla.responseOverdue && !sla.resolutionOverdue) continue;
+        const hoursLate = -(sla.hoursRemaining ?? 0);
+        const late = hoursLate >= 48 ? `${Math.floor(hoursLate / 24)} days` : `${hoursLate} hour${hoursLate === 1 ? "" : "s"}`;
+        attention.push({
+          id: `maintenance-${m.id}`,
+          type: "maintenance_overdue",
+          priority: m.priority === "emergency" || sla.resolutionOverdue ? "high" : "medium",
+          title: sla.resolutionOverdue
+            ? `${m.priority === "emergency" ? "Emergency repair" : "Repair"} overdue: ${m.title}`
+            : `No response yet: ${m.title}`,
+          description: sla.resolutionOverdue
+            ? `Past the ${m.priority} resolution window by ${late}.`
+            : `Acknowledge this ${m.priority} request - the response window passed ${late} ago.`,
+          actionLabel: "Open ticket",
+          actionHref: `/maintenance?id=${m.id}`,
+          timestamp: (m.resolveByAt as any) ?? undefined,
+        });
+      }
+
       // Recent legal updates this month for user's state.
       // If user has not set a preferred state, do NOT surface updates from
       // every state - that would defeat the "all caught up" empty state and
@@ -223,7 +279,7 @@ export async function registerDashboardRoutes(app: Express) {
       const sevenDaysAgo = new Date();
       sevenDaysAgo.setDate(sevenDaysAgo.getDate() - 7);
       const updatesThisMonthCount = stateUpdates.length;
-      const propertiesCount = rentalProperties.length || properties.length || 0;
+      const propertiesCount = rentalProperties.length;
 
       // Application links: a property auto-generates a shareable link, so the
       // onboarding "share your link" step should reflect link existence, not
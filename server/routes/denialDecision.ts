@@ -3,6 +3,10 @@ import { storage } from "../storage";
 import { isAuthenticated, requireAdmin } from "../jwtAuth";
 import { asyncHandler } from "../utils/validation";
 import { STATE_ADVERSE_ACTION_REGISTRY } from "../states/adverseActionDisclosures";
+import { finalLetterLockReason, requiredStepsForCriteria } from "../utils/individualizedAssessments";
+import { requiresIndividualizedAssessment } from "@shared/individualizedAssessment";
+import { selectionCriteriaForSubmission } from "../utils/selectionCriteria";
+import { unpublishedDenialCodes } from "@shared/selectionCriteria";
 
 export async function registerDenialDecisionRoutes(app: Express) {
   // Get cities by state
@@ -262,7 +266,9 @@ export async function registerDenialDecisionRoutes(app: Express) {
       fairChanceSteps,
       applicantName,
       propertyId,
-      noticesProvided
+      noticesProvided,
+      submissionId,
+      personId
     } = req.body;
 
     if (!stateId || !outcome || !criteriaPresent) {
@@ -323,6 +329,30 @@ export async function registerDenialDecisionRoutes(app: Express) {
       }
     }
 
+    // Decisions made from a rental application are checked against the
+    // selection criteria the applicant acknowledged. Reasons the criteria
+    // never published are recorded, not rejected - the landlord sees the
+    // warning before saving.
+    let selectionCriteriaId: string | null = null;
+    let unpublishedCriteria: string[] | null = null;
+    if (submissionId) {
+      const held = await selectionCriteriaForSubmission(submissionId, req.user.id, personId);
+      if (!held) {
+        return res.status(404).json({ message: "Application not found" });
+      }
+      if (held.criteria) {
+        selectionCriteriaId = held.criteria.id;
+        if (outcome === 'deny' && Array.isArray(criteriaSelected)) {
+          const codeById = new Map((await storage.getAllDenialCriteria()).map((c) => [c.id, c.code]));
+          const unpublished = new Set(unpublishedDenialCodes(
+            held.criteria.criteriaJson,
+            criteriaSelected.map((id: string) => codeById.get(id)).filter((code): code is string => !!code),
+          ));
+          unpublishedCriteria = criteriaSelected.filter((id: string) => unpublished.has(codeById.get(id) || ''));
+        }
+      }
+    }
+
     // Create rule version with snapshot of active rules
     const ruleVersion = `v${Date.now()}_${rules.length}rules`;
 
@@ -346,6 +376,8 @@ export async function registerDenialDecisionRoutes(app: Express) {
       conditions: conditions || null,
       fairChanceStepsCompleted: fairChanceSteps || null,
       noticesProvided: noticesProvided || null,
+      selectionCriteriaId,
+      unpublishedCriteria,
       ipAddress: req.ip || null,
       userAgent: req.get('user-agent') || null,
     });
@@ -382,6 +414,33 @@ export async function registerDenialDecisionRoutes(app: Express) {
     if (!stateId || !denialReasons) {
       return res.status(400).json({ message: "stateId and denialReasons are required" });
     }
+
+    // Fair-chance jurisdictions: the final letter waits on the individualized
+    // assessment and the applicant's response window. Reasons that call for an
+    // assessment need a saved decision to track it, so the lock can't be
+    // skipped by leaving auditLogId off.
+    const auditLog = auditLogId ? await storage.getDenialDecisionAuditLog(String(auditLogId), req.user.id) : undefined;
+    if (auditLogId && !auditLog) {
+      return res.status(404).json({ message: "Decision not found" });
+    }
+    const assessment = auditLog ? await storage.getIndividualizedAssessmentByAuditLog(auditLog.id, req.user.id) : undefined;
+    if (!isPreAdverse) {
+      const lockReason = auditLog ? await finalLetterLockReason(auditLog.id, req.user.id) : null;
+      if (lockReason) {
+        return res.status(409).json({ message: lockReason });
+      }
+      const requestedSteps = await requiredStepsForCriteria(
+        { stateId, cityId, countyId },
+        Array.isArray(criteriaIds) ? criteriaIds : [],
+      );
+      if (!assessment && requiresIndividualizedAssessment(requestedSteps)) {
+        return res.status(409).json({
+          message: auditLog
+            ? "This denial requires an individualized assessment before the final adverse action letter"
+            : "Save this decision and complete its individualized assessment before the final adverse action letter",
+        });
+      }
+    }
     
     // Update audit log with the letter type if auditLogId is provided
     if (auditLogId) {
@@ -493,6 +552,10 @@ export async function registerDenialDecisionRoutes(app: Express) {
     if (isPreAdverse) {
       b.paragraph('We are considering denying your rental application based, in whole or in part, on information obtained from a consumer reporting agency. This is not a final decision.');
       b.paragraph('If you believe the information in the consumer report is inaccurate or incomplete, you may contact the consumer reporting agency listed below as soon as possible.');
+      if (assessment?.responseDeadline) {
+        const deadlineStr = new Date(`${assessment.responseDeadline}T00:00:00`).toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' });
+        b.paragraph(`You may also give us any information you would like us to consider - for example, evidence of rehabilitation, your rental history since, or errors in the record. We will not make a final decision before ${deadlineStr}.`);
+      }
     } else {
       b.paragraph(`We regret to inform you that your rental application has been denied${isFcra ? ' based, in whole or in part, on information obtained from a consumer reporting agency' : ''}.`);
     }
@@ -548,6 +611,9 @@ export async function registerDenialDecisionRoutes(app: Express) {
     b.footer([`${footerLaw}${jurisdictionLabel ? ` and applicable ${jurisdictionLabel} fair housing laws` : ''}.`]);
 
     const pdfBuffer = await b.toBuffer();
+    if (assessment && !isPreAdverse && !assessment.completedAt) {
+      await storage.updateIndividualizedAssessment(assessment.id, req.user.id, { completedAt: new Date() });
+    }
     const filename = isFcra
       ? `adverse-action-letter-${new Date().toISOString().split('T')[0]}.pdf`
       : `denial-notice-${new Date().toISOString().split('T')[0]}.pdf`;
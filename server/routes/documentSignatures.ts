@@ -0,0 +1,478 @@
+import type { Express } from "express";
+import { randomBytes, randomUUID } from "crypto";
+import { storage } from "../storage";
+import { isAuthenticated, requireAccess } from "../jwtAuth";
+import type { DocumentSignatureRequest, DocumentSigner, SignatureCertificate } from "@shared/schema";
+import { emailService } from "../emailService";
+import { getAppBaseUrl } from "../utils/appUrl";
+import { renderSavedDocument } from "../utils/savedDocumentRenderer";
+import { ESIGN_CONSENT_TEXT, sha256Hex, stampSignatures } from "../utils/signatureStamper";
+import { uploadPrivateBuffer, downloadPrivateBuffer } from "../applicantObjectStorage";
+import { headerFilename } from "../utils/download";
+import { getUserId, getClientIp } from "./_shared";
+
+const SIGNER_ROLES = ['landlord', 'tenant', 'cosigner', 'guarantor', 'other'];
+const MAX_SIGNERS = 10;
+// Drawn signatures are small canvas PNGs; anything much bigger is not a signature.
+const MAX_SIGNATURE_IMAGE_BYTES = 200 * 1024;
+const EMAIL_RE = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// Strip tokens and captured signature images before sending signer rows to
+// the landlord UI - the token is the signer's credential.
+function publicSigner(s: DocumentSigner) {
+  const { token, signatureImage, ...rest } = s;
+  return rest;
+}
+
+function senderDisplayName(user: { firstName?: string | null; lastName?: string | null; businessName?: string | null } | undefined): string {
+  if (!user) return 'Your landlord';
+  if (user.firstName && user.lastName) return `${user.firstName} ${user.lastName}`;
+  return user.businessName || 'Your landlord';
+}
+
+/**
+ * Once every signer has signed: stamp the snapshot, store the signed PDF, mark
+ * the request completed, attach the certificate to the saved document and
+ * email everyone a copy link. Called from the signing endpoint, so failures
+ * are logged and the request goes back to pending (the last signer's
+ * signature is already recorded; the landlord can retry from the UI via the
+ * remind flow).
+ *
+ * The last two signers can submit at the same moment and both see every
+ * signature in, so completion is claimed with a conditional update first;
+ * only the caller that wins the claim stamps and sends.
+ */
+async function finalizeSignatureRequest(request: DocumentSignatureRequest, baseUrl: string): Promise<void> {
+  const signers = await storage.getDocumentSigners(request.id);
+  if (signers.length === 0 || signers.some((s) => s.status !== 'signed')) return;
+
+  const document = await storage.getSavedDocumentById(request.savedDocumentId);
+  if (!document) return;
+
+  const unsigned = await downloadPrivateBuffer(request.unsignedPdfPath);
+  if (!unsigned) {
+    console.error(`Unsigned PDF snapshot missing for signature request ${request.id}`);
+    return;
+  }
+
+  const completedAt = new Date();
+  const claimed = await storage.claimDocumentSignatureCompletion(request.id, completedAt);
+  if (!claimed) return;
+
+  let signedSha256: string;
+  try {
+    const signed = await stampSignatures(unsigned, {
+      requestId: request.id,
+      documentName: document.documentName,
+      unsignedSha256: request.unsignedPdfSha256,
+      completedAt,
+      signers,
+    });
+    signedSha256 = sha256Hex(signed);
+    const { dbPath } = await uploadPrivateBuffer(signed, 'signatures', `${request.id}-signed.pdf`, 'application/pdf');
+    await storage.updateDocumentSignatureRequest(request.id, {
+      signedPdfPath: dbPath,
+      signedPdfSha256: signedSha256,
+    });
+  } catch (err) {
+    await storage.updateDocumentSignatureRequest(request.id, { status: 'pending', completedAt: null });
+    throw err;
+  }
+
+  const certificate: SignatureCertificate = {
+    signatureRequestId: request.id,
+    documentName: document.documentName,
+    unsignedSha256: request.unsignedPdfSha256,
+    signedSha256,
+    completedAt: completedAt.toISOString(),
+    signers: signers.map((s) => ({
+      name: s.name,
+      email: s.email,
+      role: s.role,
+      signatureType: s.signatureType === 'drawn' ? 'drawn' : 'typed',
+      signedAt: s.signedAt ? new Date(s.signedAt).toISOString() : '',
+      ipAddress: s.ipAddress,
+      userAgent: s.userAgent,
+    })),
+  };
+  await storage.updateSavedDocument(document.id, { signedAt: completedAt, signatureCertificateJson: certificate });
+
+  await storage.trackEvent({
+    userId: request.userId,
+    eventType: 'document_signing_completed',
+    eventData: { savedDocumentId: document.id, signatureRequestId: request.id, signerCount: signers.length },
+  });
+
+  // Signers download through their own token; the landlord through My Documents.
+  for (const s of signers) {
+    try {
+      await emailService.sendDocumentSigningCompletedEmail(
+        { email: s.email, name: s.name },
+        { documentName: document.documentName, downloadLink: `${baseUrl}/sign/${s.token}` },
+      );
+    } catch (err) {
+      console.error(`Failed to send signing completed email to signer ${s.id}:`, err);
+    }
+  }
+  const landlord = await storage.getUser(request.userId);
+  if (landlord?.email) {
+    try {
+      await emailService.sendDocumentSigningCompletedEmail(
+        { email: landlord.email, name: landlord.firstName || '' },
+        { documentName: document.documentName, downloadLink: `${baseUrl}/my-documents` },
+      );
+    } catch (err) {
+      console.error(`Failed to send signing completed email to landlord ${landlord.id}:`, err);
+    }
+  }
+}
+
+export async function registerDocumentSignaturesRoutes(app: Express) {
+  // ===== Landlord endpoints =====
+  app.post('/api/saved-documents/:id/signature-request', isAuthenticated, requireAccess, async (req: any, res) => {
+    try {
+      const userId = getUserId(req);
+      const document = await storage.getSavedDocumentById(req.params.id);
+      if (!document) return res.status(404).json({ message: "Document not found" });
+      if (document.userId !== userId) return res.status(403).json({ message: "Forbidden" });
+
+      const rawSigners = Array.isArray(req.body?.signers) ? req.body.signers : [];
+      if (rawSigners.length === 0) {
+        return res.status(400).json({ message: "Add at least one signer" });
+      }
+      if (rawSigners.length > MAX_SIGNERS) {
+        return res.status(400).json({ message: `A document can have at most ${MAX_SIGNERS} signers` });
+      }
+      const signers: { name: string; email: string; role: string }[] = [];
+      const seenEmails = new Set<string>();
+      for (const raw of rawSigners) {
+        const name = String(raw?.name || '').trim();
+        const email = String(raw?.email || '').trim().toLowerCase();
+        const role = SIGNER_ROLES.includes(raw?.role) ? raw.role : 'tenant';
+        if (!name) return res.status(400).json({ message: "Each signer needs a name" });
+        if (!EMAIL_RE.test(email)) return res.status(400).json({ message: `Invalid email for ${name}` });
+        if (seenEmails.has(email)) return res.status(400).json({ message: `${email} is listed more than once` });
+        seenEmails.add(email);
+        signers.push({ name, email, role });
+      }
+
+      const existing = await storage.getDocumentSignatureRequestsByDocument(document.id, userId);
+      if (existing.some((r) => r.status === 'pending')) {
+        return res.status(409).json({ message: "This document already has a pending signature request. Cancel it before sending a new one." });
+      }
+
+      const template = await storage.getTemplate(document.templateId);
+      if (!template) return res.status(404).json({ message: "Template not found" });
+
+      const user = await storage.getUser(userId);
+      const landlordInfo = user ? {
+        businessName: user.businessName,
+        phoneNumber: user.phoneNumber,
+        email: user.email,
+        firstName: user.firstName,
+        lastName: user.lastName,
+      } : undefined;
+
+      // Snapshot the rendered PDF: generators stamp the generation date, so
+      // re-rendering later would not reproduce the bytes the signers saw.
+      const unsignedPdf = await renderSavedDocument(document, template, 'pdf', landlordInfo);
+      const unsignedSha256 = sha256Hex(unsignedPdf);
+      const { dbPath } = await uploadPrivateBuffer(unsignedPdf, 'signatures', `${randomUUID()}.pdf`, 'application/pdf');
+
+      const message = typeof req.body?.message === 'string' ? req.body.message.trim().slice(0, 1000) || null : null;
+      const created = await storage.createDocumentSignatureRequest(
+        {
+          userId,
+          savedDocumentId: document.id,
+          status: 'pending',
+          message,
+          unsignedPdfPath: dbPath,
+          unsignedPdfSha256: unsignedSha256,
+        },
+        signers.map((s) => ({ ...s, token: randomBytes(32).toString('hex'), status: 'pending' })),
+      );
+
+      const baseUrl = getAppBaseUrl(req);
+      const senderName = senderDisplayName(user);
+      let emailed = 0;
+      for (const s of created.signers) {
+        try {
+          const sent = await emailService.sendDocumentSignatureRequestEmail(
+            { email: s.email, name: s.name },
+            { senderName, documentName: document.documentName, signingLink: `${baseUrl}/sign/${s.token}`, message },
+          );
+          if (sent) {
+            emailed++;
+            await storage.updateDocumentSigner(s.id, { lastEmailedAt: new Date() });
+          }
+        } catch (err) {
+          console.error(`Failed to send signature request email to signer ${s.id}:`, err);
+        }
+      }
+
+      await storage.trackEvent({
+        userId,
+        eventType: 'document_signature_requested',
+        eventData: { savedDocumentId: document.id, signatureRequestId: created.request.id, signerCount: signers.length },
+      });
+
+      res.status(201).json({
+        ...created.request,
+        signers: created.signers.map(publicSigner),
+        emailed,
+      });
+    } catch (error) {
+      console.error("Error creating signature request:", error);
+      res.status(500).json({ message: "Failed to send document for signature" });
+    }
+  });
+
+  app.get('/api/saved-documents/:id/signature-requests', isAuthenticated, requireAccess, async (req: any, res) => {
+    try {
+      const userId = getUserId(req);
+      const requests = await storage.getDocumentSignatureRequestsByDocument(req.params.id, userId);
+      const withSigners = await Promise.all(requests.map(async (r) => ({
+        ...r,
+        signers: (await storage.getDocumentSigners(r.id)).map(publicSigner),
+      })));
+      res.json(withSigners);
+    } catch (error) {
+      console.error("Error fetching signature requests:", error);
+      res.status(500).json({ message: "Failed to fetch signature requests" });
+    }
+  });
+
+  app.post('/api/signature-requests/:id/cancel', isAuthenticated, requireAccess, async (req: any, res) => {
+    try {
+      const userId = getUserId(req);
+      const request = await storage.getDocumentSignatureRequest(req.params.id, userId);
+      if (!request) return res.status(404).json({ message: "Signature request not found" });
+      if (request.status !== 'pending') {
+        return res.status(400).json({ message: `Cannot cancel a ${request.status} signature request` });
+      }
+      const updated = await storage.cancelDocumentSignatureRequest(request.id, new Date());
+      if (!updated) {
+        return res.status(409).json({ message: "This signature request is no longer pending" });
+      }
+      res.json(updated);
+    } catch (error) {
+      console.error("Error canceling signature request:", error);
+      res.status(500).json({ message: "Failed to cancel signature request" });
+    }
+  });
+
+  app.post('/api/signature-requests/:id/remind', isAuthenticated, requireAccess, async (req: any, res) => {
+    try {
+      const userId = getUserId(req);
+      const request = await storage.getDocumentSignatureRequest(req.params.id, userId);
+      if (!request) return res.status(404).json({ message: "Signature request not found" });
+      if (request.status !== 'pending') {
+        return res.status(400).json({ message: `Cannot remind signers on a ${request.status} signature request` });
+      }
+      const document = await storage.getSavedDocumentById(request.savedDocumentId);
+      if (!document) return res.status(404).json({ message: "Document not found" });
+
+      const baseUrl = getAppBaseUrl(req);
+      const signers = await storage.getDocumentSigners(request.id);
+
+      // All signatures may be in if finalization failed earlier - retry it
+      // rather than emailing people who have already signed.
+      if (signers.length > 0 && signers.every((s) => s.status === 'signed')) {
+        await finalizeSignatureRequest(request, baseUrl);
+        const refreshed = await storage.getDocumentSignatureRequestById(request.id);
+        return res.json({ sent: 0, status: refreshed?.status || request.status });
+      }
+
+      const senderName = senderDisplayName(await storage.getUser(userId));
+      let sent = 0;
+      for (const s of signers.filter((s) => s.status === 'pending' || s.status === 'viewed')) {
+        const ok = await emailService.sendDocumentSignatureRequestEmail(
+          { email: s.email, name: s.name },
+          {
+            senderName,
+            documentName: document.documentName,
+            signingLink: `${baseUrl}/sign/${s.token}`,
+            message: request.message,
+            isReminder: true,
+          },
+        );
+        if (ok) {
+          sent++;
+          await storage.updateDocumentSigner(s.id, { lastEmailedAt: new Date() });
+        }
+      }
+      res.json({ sent, status: request.status });
+    } catch (error) {
+      console.error("Error sending signature reminders:", error);
+      res.status(500).json({ message: "Failed to send reminders" });
+    }
+  });
+
+  app.get('/api/signature-requests/:id/signed-pdf', isAuthenticated, requireAccess, async (req: any, res) => {
+    try {
+      const userId = getUserId(req);
+      const request = await storage.getDocumentSignatureRequest(req.params.id, userId);
+      if (!request) return res.status(404).json({ message: "Signature request not found" });
+      if (request.status !== 'completed' || !request.signedPdfPath) {
+        return res.status(400).json({ message: "This document has not been signed by all parties yet" });
+      }
+      const buffer = await downloadPrivateBuffer(request.signedPdfPath);
+      if (!buffer) return res.status(404).json({ message: "Signed PDF not found" });
+      const document = await storage.getSavedDocumentById(request.savedDocumentId);
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `attachment; filename="${headerFilename(`${document?.documentName || 'document'} (signed).pdf`)}"`);
+      res.send(buffer);
+    } catch (error) {
+      console.error("Error downloading signed PDF:", error);
+      res.status(500).json({ message: "Failed to download signed document" });
+    }
+  });
+
+  // ===== Public signer endpoints (token is the credential) =====
+  app.get('/api/sign/:token', async (req, res) => {
+    try {
+      const signer = await storage.getDocumentSignerByToken(req.params.token);
+      if (!signer) return res.status(404).json({ message: "Signing link not found" });
+      const request = await storage.getDocumentSignatureRequestById(signer.requestId);
+      if (!request) return res.status(404).json({ message: "Signing link not found" });
+      const document = await storage.getSavedDocumentById(request.savedDocumentId);
+      const landlord = await storage.getUser(request.userId);
+
+      if (signer.status === 'pending' && request.status === 'pending') {
+        await storage.updateDocumentSigner(signer.id, { status: 'viewed', viewedAt: new Date() });
+      }
+      const signers = await storage.getDocumentSigners(request.id);
+
+      res.json({
+        documentName: document?.documentName || 'Document',
+        senderName: senderDisplayName(landlord),
+        message: request.message,
+        requestStatus: request.status,
+        signer: {
+          name: signer.name,
+          email: signer.email,
+          role: signer.role,
+          status: signer.status === 'pending' && request.status === 'pending' ? 'viewed' : signer.status,
+          signedAt: signer.signedAt,
+        },
+        // Other parties by name/status only - no emails or tokens.
+        parties: signers.map((s) => ({ name: s.name, role: s.role, status: s.status })),
+        unsignedSha256: request.unsignedPdfSha256,
+        consentText: ESIGN_CONSENT_TEXT,
+      });
+    } catch (error) {
+      console.error("Error fetching signing session:", error);
+      res.status(500).json({ message: "Failed to load document" });
+    }
+  });
+
+  app.get('/api/sign/:token/pdf', async (req, res) => {
+    try {
+      const signer = await storage.getDocumentSignerByToken(req.params.token);
+      if (!signer) return res.status(404).json({ message: "Signing link not found" });
+      const request = await storage.getDocumentSignatureRequestById(signer.requestId);
+      if (!request || request.status === 'canceled') {
+        return res.status(404).json({ message: "This signing request is no longer available" });
+      }
+      const path = request.status === 'completed' && request.signedPdfPath ? request.signedPdfPath : request.unsignedPdfPath;
+      const buffer = await downloadPrivateBuffer(path);
+      if (!buffer) return res.status(404).json({ message: "Document not found" });
+      const document = await storage.getSavedDocumentById(request.savedDocumentId);
+      const suffix = request.status === 'completed' && request.signedPdfPath ? ' (signed)' : '';
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `inline; filename="${headerFilename(`${document?.documentName || 'document'}${suffix}.pdf`)}"`);
+      res.send(buffer);
+    } catch (error) {
+      console.error("Error fetching signing PDF:", error);
+      res.status(500).json({ message: "Failed to load document" });
+    }
+  });
+
+  app.post('/api/sign/:token', async (req, res) => {
+    try {
+      const signer = await storage.getDocumentSignerByToken(req.params.token);
+      if (!signer) return res.status(404).json({ message: "Signing link not found" });
+      const request = await storage.getDocumentSignatureRequestById(signer.requestId);
+      if (!request) return res.status(404).json({ message: "Signing link not found" });
+      if (request.status !== 'pending') {
+        return res.status(400).json({ message: `This signing request is ${request.status}` });
+      }
+      if (signer.status === 'signed') return res.status(400).json({ message: "You have already signed this document" });
+      if (signer.status === 'declined') return res.status(400).json({ message: "You declined to sign this document" });
+
+      const { signatureType, typedName, signatureImage, consent } = req.body || {};
+      if (consent !== true) {
+        return res.status(400).json({ message: "You must agree to sign electronically" });
+      }
+      const updates: Partial<DocumentSigner> = {
+        signedAt: new Date(),
+        ipAddress: getClientIp(req),
+        userAgent: String(req.headers['user-agent'] || '').slice(0, 500) || null,
+        consentText: ESIGN_CONSENT_TEXT,
+      };
+      if (signatureType === 'drawn') {
+        if (typeof signatureImage !== 'string' || !/^data:image\/png;base64,[A-Za-z0-9+/=]+$/.test(signatureImage)) {
+          return res.status(400).json({ message: "Invalid signature image" });
+        }
+        if (Buffer.byteLength(signatureImage.split(',')[1], 'base64') > MAX_SIGNATURE_IMAGE_BYTES) {
+          return res.status(400).json({ message: "Signature image is too large" });
+        }
+        updates.signatureType = 'drawn';
+        updates.signatureImage = signatureImage;
+        updates.signatureText = signer.name;
+      } else if (signatureType === 'typed') {
+        const text = typeof typedName === 'string' ? typedName.trim() : '';
+        if (!text) return res.status(400).json({ message: "Type your full name to sign" });
+        updates.signatureType = 'typed';
+        updates.signatureText = text.slice(0, 200);
+      } else {
+        return res.status(400).json({ message: "Invalid signature type" });
+      }
+
+      // Conditional update: guards against double-submits and a cancel
+      // racing the signature.
+      const recorded = await storage.recordDocumentSignature(signer.id, updates);
+      if (!recorded) {
+        return res.status(409).json({ message: "This document can no longer be signed" });
+      }
+
+      try {
+        await finalizeSignatureRequest(request, getAppBaseUrl(req));
+      } catch (err) {
+        console.error(`Failed to finalize signature request ${request.id}:`, err);
+      }
+      const refreshed = await storage.getDocumentSignatureRequestById(request.id);
+      res.json({ status: 'signed', requestStatus: refreshed?.status || request.status });
+    } catch (error) {
+      console.error("Error recording signature:", error);
+      res.status(500).json({ message: "Failed to record signature" });
+    }
+  });
+
+  app.post('/api/sign/:token/decline', async (req, res) => {
+    try {
+      const signer = await storage.getDocumentSignerByToken(req.params.token);
+      if (!signer) return res.status(404).json({ message: "Signing link not found" });
+      const request = await storage.getDocumentSignatureRequestById(signer.requestId);
+      if (!request || request.status !== 'pending') {
+        return res.status(400).json({ message: "This signing request is no longer open" });
+      }
+      if (signer.status === 'signed') return res.status(400).json({ message: "You have already signed this document" });
+
+      const reason = typeof req.body?.reason === 'string' ? req.body.reason.trim().slice(0, 1000) || null : null;
+      const declined = await storage.declineDocumentSignature(signer.id, { declinedAt: new Date(), declineReason: reason });
+      if (!declined) {
+        return res.status(409).json({ message: "This document can no longer be declined" });
+      }
+      await storage.trackEvent({
+        userId: request.userId,
+        eventType: 'document_signing_declined',
+        eventData: { savedDocumentId: request.savedDocumentId, signatureRequestId: request.id },
+      });
+      res.json({ status: 'declined' });
+    } catch (error) {
+      console.error("Error declining signature:", error);
+      res.status(500).json({ message: "Failed to decline" });
+    }
+  });
+}
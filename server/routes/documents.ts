@@ -5,6 +5,7 @@ import fs from "fs/promises";
 import { storage } from "../storage";
 import { isAuthenticated, requireAccess } from "../jwtAuth";
 import { insertSavedDocumentSchema } from "@shared/schema";
+import { renderSavedDocument } from "../utils/savedDocumentRenderer";
 import { upload, getUserId } from "./_shared";
 
 export async function registerDocumentsRoutes(app: Express) {
@@ -55,15 +56,24 @@ export async function registerDocumentsRoutes(app: Express) {
         ...req.body,
         userId,
         propertyId: req.body.propertyId || null,
+        tenancyId: req.body.tenancyId || null,
       });
       
       // Validate propertyId ownership if provided
       if (validatedData.propertyId) {
-        const property = await storage.getProperty(validatedData.propertyId, userId);
+        const property = await storage.getRentalProperty(validatedData.propertyId, userId);
         if (!property) {
           return res.status(403).json({ message: "Property not found or access denied" });
         }
       }
+
+      // Validate tenancyId ownership if provided
+      if (validatedData.tenancyId) {
+        const tenancy = await storage.getTenancy(validatedData.tenancyId, userId);
+        if (!tenancy) {
+          return res.status(403).json({ message: "Lease not found or access denied" });
+        }
+      }
       
       const savedDocument = await storage.createSavedDocument(validatedData);
 
@@ -116,71 +126,16 @@ export async function registerDocumentsRoutes(app: Express) {
         lastName: user.lastName,
       } : undefined;
 
-      // Import document generators
-      const { generateDocument, generateDocumentDOCX } = await import("../utils/documentGenerator");
-      const { generateLeaseAgreementDocx, generateLeaseAgreementPdf } = await import("../utils/leaseAgreementGenerator");
-
-      const generationOptions = {
-        templateTitle: template.title,
-        templateContent: '',
-        fieldValues: document.formData as Record<string, string>,
-        stateId: template.stateId,
-        version: template.version || 1,
-        updatedAt: template.updatedAt || new Date(),
-        landlordInfo,
-      };
-
-      // Check if this is a lease agreement template. Route by template type
-      // first (authoritative); fall back to title keywords for safety. This
-      // catches lease-type templates whose titles lack "lease"/"rental
-      // agreement" (e.g. "Month-to-Month Agreement (XX)"), which would
-      // otherwise fall through to the generic generator and silently drop the
-      // landlord/tenant contact block.
-      const isLeaseAgreement = (template as any).templateType === 'lease' ||
-                               template.title.toLowerCase().includes('lease') || 
-                               template.title.toLowerCase().includes('rental agreement');
+      const buffer = await renderSavedDocument(document, template, format, landlordInfo);
 
       if (format === 'docx') {
-        let docxBuffer: Buffer;
-        
-        if (isLeaseAgreement) {
-          // Use specialized lease generator for cleaner DOCX output
-          docxBuffer = await generateLeaseAgreementDocx({
-            templateTitle: template.title,
-            stateId: template.stateId,
-            fieldValues: document.formData as Record<string, string>,
-            version: template.version || 1,
-            updatedAt: template.updatedAt || new Date(),
-            landlordInfo,
-          });
-        } else {
-          docxBuffer = await generateDocumentDOCX(generationOptions);
-        }
-        
         res.setHeader('Content-Type', 'application/vnd.openxmlformats-officedocument.wordprocessingml.document');
         res.setHeader('Content-Disposition', `attachment; filename="${document.documentName}.docx"`);
-        res.send(docxBuffer);
       } else {
-        let pdfBuffer: Buffer;
-        
-        if (isLeaseAgreement) {
-          // Use specialized lease generator for consistent PDF/DOCX output
-          pdfBuffer = await generateLeaseAgreementPdf({
-            templateTitle: template.title,
-            stateId: template.stateId,
-            fieldValues: document.formData as Record<string, string>,
-            version: template.version || 1,
-            updatedAt: template.updatedAt || new Date(),
-            landlordInfo,
-          });
-        } else {
-          pdfBuffer = await generateDocument(generationOptions);
-        }
-        
         res.setHeader('Content-Type', 'application/pdf');
         res.setHeader('Content-Disposition', `attachment; filename="${document.documentName}.pdf"`);
-        res.send(pdfBuffer);
       }
+      res.send(buffer);
 
       await storage.trackEvent({
         userId,
@@ -245,7 +200,7 @@ export async function registerDocumentsRoutes(app: Express) {
 
       // Validate propertyId ownership if provided
       if (validatedMetadata.propertyId) {
-        const property = await storage.getProperty(validatedMetadata.propertyId, userId);
+        const property = await storage.getRentalProperty(validatedMetadata.propertyId, userId);
         if (!property) {
           // Clean up uploaded file if property validation fails
           await fs.unlink(req.file.path).catch(err => console.error("Error deleting orphaned file:", err));
@@ -307,7 +262,7 @@ export async function registerDocumentsRoutes(app: Express) {
       const { propertyId } = req.params;
 
       // Validate property ownership
-      const property = await storage.getProperty(propertyId, userId);
+      const property = await storage.getRentalProperty(propertyId, userId);
       if (!property) {
         return res.status(403).json({ message: "Property not found or access denied" });
       }
@@ -73,7 +73,7 @@ export async function registerDocumentsGenerateRoutes(app: Express) {
 
       // Import document generators
       const { generateDocument, generateDocumentDOCX } = await import("../utils/documentGenerator");
-      const { generateLeaseAgreementDocx, generateLeaseAgreementPdf } = await import("../utils/leaseAgreementGenerator");
+      const { generateLeaseAgreementDocx, generateLeaseAgreementPdf, getLeaseClauseIssues } = await import("../utils/leaseAgreementGenerator");
 
       const generationOptions = {
         templateTitle: template.title,
@@ -95,6 +95,13 @@ export async function registerDocumentsGenerateRoutes(app: Express) {
                                template.title.toLowerCase().includes('lease') || 
                                template.title.toLowerCase().includes('rental agreement');
 
+      if (isLeaseAgreement) {
+        const clauseErrors = (await getLeaseClauseIssues(template.stateId, fieldValues)).filter(i => i.severity === 'error');
+        if (clauseErrors.length > 0) {
+          return res.status(400).json({ message: clauseErrors[0].message, issues: clauseErrors });
+        }
+      }
+
       const safeFilename = template.title.replace(/[^a-z0-9]/gi, '_');
       
       if (format === 'docx') {
@@ -150,4 +157,43 @@ export async function registerDocumentsGenerateRoutes(app: Express) {
       res.status(500).json({ message: "Something went wrong. Please try again." });
     }
   });
+
+  // Live lease preview for the document wizard: the same HTML the PDF is
+  // printed from, plus any clause issues to show next to the toggles.
+  app.post('/api/documents/lease-preview', isAuthenticated, async (req: any, res) => {
+    try {
+      const { templateId, fieldValues } = req.body;
+      if (!templateId || !fieldValues || typeof fieldValues !== 'object') {
+        return res.status(400).json({ message: "Template ID and field values are required" });
+      }
+
+      const template = await storage.getTemplate(templateId);
+      if (!template) {
+        return res.status(404).json({ message: "Template not found" });
+      }
+
+      const userId = getUserId(req);
+      const user = userId ? await storage.getUser(userId) : null;
+      const { generateLeaseAgreementHtml, getLeaseClauseIssues } = await import("../utils/leaseAgreementGenerator");
+      const [html, issues] = await Promise.all([
+        generateLeaseAgreementHtml({
+          templateTitle: template.title,
+          stateId: template.stateId,
+          fieldValues,
+          version: template.version || 1,
+          updatedAt: template.updatedAt || new Date(),
+          landlordInfo: user ? {
+            businessName: user.businessName,
+            phoneNumber: user.phoneNumber,
+            email: user.email,
+          } : undefined,
+        }),
+        getLeaseClauseIssues(template.stateId, fieldValues),
+      ]);
+      res.json({ html, issues });
+    } catch (error: any) {
+      console.error('Lease preview error:', error);
+      res.status(500).json({ message: "Failed to build lease preview" });
+    }
+  });
 }
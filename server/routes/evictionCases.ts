@@ -0,0 +1,263 @@
+import type { Express } from "express";
+import { storage } from "../storage";
+import { isAuthenticated, requireAccess, requireAdmin } from "../jwtAuth";
+import { countingConventionEnum, dayTypeEnum, type EvictionCase } from "@shared/schema";
+import { isEvictionCourtStepKey } from "@shared/evictionTimeline";
+import { resolveFormVersion, summarizeServiceLog } from "../engine";
+import { replanEvictionCase } from "../utils/evictionCases";
+import { generateEvictionTimelinePdf } from "../utils/evictionTimelinePdf";
+import { isValidDate } from "../utils/validation";
+import { getUserId } from "./_shared";
+
+async function withSteps(evictionCase: EvictionCase) {
+  const [steps, notice] = await Promise.all([
+    storage.getEvictionCaseSteps(evictionCase.id),
+    storage.getGeneratedNoticeDocument(evictionCase.generatedNoticeDocumentId, evictionCase.userId),
+  ]);
+  return { ...evictionCase, noticeName: notice?.formDisplayName || 'Notice', steps };
+}
+
+export async function registerEvictionCaseRoutes(app: Express) {
+  // Notices the landlord generated through the notice-form engine - the
+  // starting point for a case.
+  app.get('/api/generated-notices', isAuthenticated, requireAccess, async (req: any, res) => {
+    try {
+      const userId = getUserId(req);
+      res.json(await storage.getGeneratedNoticeDocumentsForUser(userId));
+    } catch (error) {
+      console.error("Error fetching generated notices:", error);
+      res.status(500).json({ message: "Failed to fetch generated notices" });
+    }
+  });
+
+  // ===== Cases =====
+
+  app.get('/api/eviction-cases', isAuthenticated, requireAccess, async (req: any, res) => {
+    try {
+      const userId = getUserId(req);
+      const cases = await storage.getEvictionCases(userId);
+      res.json(await Promise.all(cases.map(withSteps)));
+    } catch (error) {
+      console.error("Error fetching eviction cases:", error);
+      res.status(500).json({ message: "Failed to fetch eviction cases" });
+    }
+  });
+
+  app.get('/api/eviction-cases/:id', isAuthenticated, requireAccess, async (req: any, res) => {
+    try {
+      const userId = getUserId(req);
+      const evictionCase = await storage.getEvictionCase(req.params.id, userId);
+      if (!evictionCase) return res.status(404).json({ message: "Case not found" });
+      res.json(await withSteps(evictionCase));
+    } catch (error) {
+      console.error("Error fetching eviction case:", error);
+      res.status(500).json({ message: "Failed to fetch eviction case" });
+    }
+  });
+
+  app.post('/api/eviction-cases', isAuthenticated, requireAccess, async (req: any, res) => {
+    try {
+      const userId = getUserId(req);
+      const { generatedNoticeDocumentId, serviceDate, caseLabel, tenancyId, courtCaseNumber } = req.body;
+
+      const notice = typeof generatedNoticeDocumentId === 'string'
+        ? await storage.getGeneratedNoticeDocument(generatedNoticeDocumentId, userId)
+        : undefined;
+      if (!notice) return res.status(400).json({ message: "Select a notice you generated" });
+
+      // Defaults to when the service log shows service was completed, else the
+      // service date the notice's deadlines were calculated from.
+      let servedOn = serviceDate;
+      if (!servedOn) {
+        const attempts = await storage.getNoticeServiceAttempts(notice.id);
+        const logged = attempts.length > 0
+          ? summarizeServiceLog(await resolveFormVersion(notice.formVersionId), attempts)
+          : null;
+        servedOn = logged?.servedDate || notice.serviceDate;
+      }
+      if (!isValidDate(servedOn)) {
+        return res.status(400).json({ message: "Enter the date the notice was served" });
+      }
+      if (typeof caseLabel !== 'string' || !caseLabel.trim()) {
+        return res.status(400).json({ message: "Case label is required" });
+      }
+      if (tenancyId && !(await storage.getTenancy(tenancyId, userId))) {
+        return res.status(400).json({ message: "Tenancy not found" });
+      }
+
+      const evictionCase = await storage.createEvictionCase({
+        userId,
+        generatedNoticeDocumentId: notice.id,
+        tenancyId: tenancyId || null,
+        stateId: notice.stateId,
+        caseLabel: caseLabel.trim(),
+        courtCaseNumber: courtCaseNumber?.trim() || null,
+        serviceDate: servedOn,
+        status: 'active',
+      });
+      await replanEvictionCase(evictionCase);
+      res.status(201).json(await withSteps(evictionCase));
+    } catch (error) {
+      console.error("Error creating eviction case:", error);
+      res.status(500).json({ message: "Failed to create eviction case" });
+    }
+  });
+
+  app.patch('/api/eviction-cases/:id', isAuthenticated, requireAccess, async (req: any, res) => {
+    try {
+      const userId = getUserId(req);
+      const existing = await storage.getEvictionCase(req.params.id, userId);
+      if (!existing) return res.status(404).json({ message: "Case not found" });
+
+      const { caseLabel, courtCaseNumber, status } = req.body;
+      const updates: Partial<EvictionCase> = {};
+      if (caseLabel !== undefined) {
+        if (typeof caseLabel !== 'string' || !caseLabel.trim()) {
+          return res.status(400).json({ message: "Case label is required" });
+        }
+        updates.caseLabel = caseLabel.trim();
+      }
+      if (courtCaseNumber !== undefined) updates.courtCaseNumber = courtCaseNumber?.trim() || null;
+      if (status !== undefined) {
+        if (status !== 'active' && status !== 'closed') {
+          return res.status(400).json({ message: "Invalid status" });
+        }
+        updates.status = status;
+        updates.closedAt = status === 'closed' ? (existing.closedAt || new Date()) : null;
+      }
+
+      const updated = await storage.updateEvictionCase(existing.id, userId, updates);
+      if (!updated) return res.status(404).json({ message: "Case not found" });
+      res.json(await withSteps(updated));
+    } catch (error) {
+      console.error("Error updating eviction case:", error);
+      res.status(500).json({ message: "Failed to update eviction case" });
+    }
+  });
+
+  app.delete('/api/eviction-cases/:id', isAuthenticated, requireAccess, async (req: any, res) => {
+    try {
+      const userId = getUserId(req);
+      const deleted = await storage.deleteEvictionCase(req.params.id, userId);
+      if (!deleted) return res.status(404).json({ message: "Case not found" });
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting eviction case:", error);
+      res.status(500).json({ message: "Failed to delete eviction case" });
+    }
+  });
+
+  // Record (or clear) the date a step actually happened. Later steps are
+  // re-planned from it.
+  app.patch('/api/eviction-cases/:id/steps/:stepId', isAuthenticated, requireAccess, async (req: any, res) => {
+    try {
+      const userId = getUserId(req);
+      const evictionCase = await storage.getEvictionCase(req.params.id, userId);
+      if (!evictionCase) return res.status(404).json({ message: "Case not found" });
+      const step = (await storage.getEvictionCaseSteps(evictionCase.id)).find((s) => s.id === req.params.stepId);
+      if (!step) return res.status(404).json({ message: "Step not found" });
+
+      const { actualDate } = req.body;
+      if (actualDate !== null && actualDate !== '' && !isValidDate(actualDate)) {
+        return res.status(400).json({ message: "Invalid date" });
+      }
+
+      let current = evictionCase;
+      if (step.stepKey === 'notice_served') {
+        // The whole timeline counts from service, so it can be corrected but
+        // not cleared.
+        if (!actualDate) return res.status(400).json({ message: "Enter the date the notice was served" });
+        current = (await storage.updateEvictionCase(evictionCase.id, userId, { serviceDate: actualDate })) || evictionCase;
+      }
+      await storage.updateEvictionCaseStep(step.id, evictionCase.id, { actualDate: actualDate || null });
+      await replanEvictionCase(current);
+      res.json(await withSteps(current));
+    } catch (error) {
+      console.error("Error updating eviction case step:", error);
+      res.status(500).json({ message: "Failed to update eviction case step" });
+    }
+  });
+
+  app.get('/api/eviction-cases/:id/timeline.pdf', isAuthenticated, requireAccess, async (req: any, res) => {
+    try {
+      const userId = getUserId(req);
+      const evictionCase = await storage.getEvictionCase(req.params.id, userId);
+      if (!evictionCase) return res.status(404).json({ message: "Case not found" });
+
+      const { steps, noticeName } = await withSteps(evictionCase);
+      const user = await storage.getUser(userId);
+      const landlordName = user?.firstName && user?.lastName
+        ? `${user.firstName} ${user.lastName}`
+        : user?.businessName || 'Landlord';
+
+      const pdf = await generateEvictionTimelinePdf({ evictionCase, steps, noticeName, landlordName });
+
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `attachment; filename="eviction-timeline-${evictionCase.serviceDate}.pdf"`);
+      res.send(pdf);
+    } catch (error) {
+      console.error("Error generating eviction timeline PDF:", error);
+      res.status(500).json({ message: "Failed to generate eviction timeline" });
+    }
+  });
+
+  // ===== Admin: per-state court step rules =====
+
+  app.get('/api/admin/eviction-timeline-rules', isAuthenticated, requireAdmin, async (req: any, res) => {
+    try {
+      const stateId = typeof req.query.stateId === 'string' ? req.query.stateId : undefined;
+      res.json(await storage.getEvictionTimelineRules(stateId));
+    } catch (error) {
+      console.error("Error fetching eviction timeline rules:", error);
+      res.status(500).json({ message: "Failed to fetch eviction timeline rules" });
+    }
+  });
+
+  app.post('/api/admin/eviction-timeline-rules', isAuthenticated, requireAdmin, async (req: any, res) => {
+    try {
+      const { stateId, stepKey, days, dayType, countingConvention, holidayCalendarId, citation, notes } = req.body;
+      if (typeof stateId !== 'string' || stateId.length !== 2) {
+        return res.status(400).json({ message: "State is required" });
+      }
+      if (!isEvictionCourtStepKey(stepKey)) {
+        return res.status(400).json({ message: "Invalid step" });
+      }
+      const parsedDays = parseInt(String(days), 10);
+      if (!Number.isFinite(parsedDays) || parsedDays < 0) {
+        return res.status(400).json({ message: "Days must be zero or more" });
+      }
+      if (dayType !== undefined && !(dayTypeEnum.enumValues as readonly string[]).includes(dayType)) {
+        return res.status(400).json({ message: "Invalid day type" });
+      }
+      if (countingConvention !== undefined && !(countingConventionEnum.enumValues as readonly string[]).includes(countingConvention)) {
+        return res.status(400).json({ message: "Invalid counting convention" });
+      }
+
+      const rule = await storage.upsertEvictionTimelineRule({
+        stateId: stateId.toUpperCase(),
+        stepKey,
+        days: parsedDays,
+        dayType: dayType || 'calendar',
+        countingConvention: countingConvention || 'day0_service_plus_n',
+        holidayCalendarId: holidayCalendarId || null,
+        citation: citation?.trim() || null,
+        notes: notes?.trim() || null,
+      });
+      res.json(rule);
+    } catch (error) {
+      console.error("Error saving eviction timeline rule:", error);
+      res.status(500).json({ message: "Failed to save eviction timeline rule" });
+    }
+  });
+
+  app.delete('/api/admin/eviction-timeline-rules/:id', isAuthenticated, requireAdmin, async (req: any, res) => {
+    try {
+      const deleted = await storage.deleteEvictionTimelineRule(req.params.id);
+      if (!deleted) return res.status(404).json({ message: "Rule not found" });
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting eviction timeline rule:", error);
+      res.status(500).json({ message: "Failed to delete eviction timeline rule" });
+    }
+  });
+}
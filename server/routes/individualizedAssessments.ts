@@ -0,0 +1,143 @@
+import type { Express } from "express";
+import { z } from "zod";
+import { storage } from "../storage";
+import { isAuthenticated } from "../jwtAuth";
+import { asyncHandler, today } from "../utils/validation";
+import {
+  DEFAULT_RESPONSE_WINDOW,
+  MITIGATING_FACTORS,
+  requiresIndividualizedAssessment,
+} from "@shared/individualizedAssessment";
+import {
+  computeResponseDeadline,
+  requiredStepsForAuditLog,
+  withStage,
+} from "../utils/individualizedAssessments";
+
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Dates must be YYYY-MM-DD');
+const factorValues = MITIGATING_FACTORS.map((f) => f.value) as [string, ...string[]];
+
+const updateAssessmentSchema = z.object({
+  mitigatingFactors: z.array(z.enum(factorValues)).optional(),
+  offenseRelevance: z.string().max(5000).nullable().optional(),
+  assessmentNotes: z.string().max(10000).nullable().optional(),
+  applicantRespondedOn: isoDate.nullable().optional(),
+  applicantResponse: z.string().max(10000).nullable().optional(),
+});
+
+const preAdverseNoticeSchema = z.object({
+  sentOn: isoDate.optional(),
+  responseDays: z.number().int().min(1).max(60).optional(),
+  responseDayType: z.enum(['business', 'calendar']).optional(),
+});
+
+export async function registerIndividualizedAssessmentRoutes(app: Express) {
+  // The assessment for a decision, plus whether the decision's reasons call
+  // for one.
+  app.get('/api/denial-decision/audit-history/:id/assessment', isAuthenticated, asyncHandler(async (req: any, res) => {
+    const log = await storage.getDenialDecisionAuditLog(req.params.id, req.user.id);
+    if (!log) {
+      return res.status(404).json({ message: "Decision not found" });
+    }
+    const assessment = await storage.getIndividualizedAssessmentByAuditLog(log.id, req.user.id);
+    const requiredSteps = assessment?.requiredSteps || await requiredStepsForAuditLog(log);
+    res.json({
+      assessment: assessment ? withStage(assessment) : null,
+      requiredSteps,
+      required: requiresIndividualizedAssessment(requiredSteps),
+    });
+  }));
+
+  // Start the assessment. Idempotent - a second call returns the existing one.
+  app.post('/api/denial-decision/audit-history/:id/assessment', isAuthenticated, asyncHandler(async (req: any, res) => {
+    const log = await storage.getDenialDecisionAuditLog(req.params.id, req.user.id);
+    if (!log) {
+      return res.status(404).json({ message: "Decision not found" });
+    }
+    if (log.outcome !== 'deny') {
+      return res.status(400).json({ message: "Only denials go through an individualized assessment" });
+    }
+
+    const existing = await storage.getIndividualizedAssessmentByAuditLog(log.id, req.user.id);
+    if (existing) return res.json(withStage(existing));
+
+    const assessment = await storage.createIndividualizedAssessment({
+      auditLogId: log.id,
+      userId: req.user.id,
+      requiredSteps: await requiredStepsForAuditLog(log),
+      responseDays: DEFAULT_RESPONSE_WINDOW.days,
+      responseDayType: DEFAULT_RESPONSE_WINDOW.dayType,
+    });
+    res.status(201).json(withStage(assessment));
+  }));
+
+  app.patch('/api/denial-decision/audit-history/:id/assessment', isAuthenticated, asyncHandler(async (req: any, res) => {
+    const parsed = updateAssessmentSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0].message });
+    }
+    const assessment = await storage.getIndividualizedAssessmentByAuditLog(req.params.id, req.user.id);
+    if (!assessment) {
+      return res.status(404).json({ message: "Assessment not found" });
+    }
+    if (assessment.completedAt) {
+      return res.status(400).json({ message: "This assessment is closed - the final letter has been issued" });
+    }
+
+    const updates = parsed.data;
+    if ((updates.applicantRespondedOn || updates.applicantResponse) && !assessment.preAdverseNoticeSentOn) {
+      return res.status(400).json({ message: "Record the pre-adverse action notice before the applicant's response" });
+    }
+    if (updates.applicantRespondedOn && assessment.preAdverseNoticeSentOn && updates.applicantRespondedOn < assessment.preAdverseNoticeSentOn) {
+      return res.status(400).json({ message: "The response date can't be before the notice was sent" });
+    }
+
+    const updated = await storage.updateIndividualizedAssessment(assessment.id, req.user.id, updates);
+    if (!updated) {
+      return res.status(404).json({ message: "Assessment not found" });
+    }
+    res.json(withStage(updated));
+  }));
+
+  // Record that the pre-adverse action notice went out and start the
+  // applicant's response window. The notice itself comes from the adverse
+  // action letter endpoint with letterType 'pre-adverse'.
+  app.post('/api/denial-decision/audit-history/:id/assessment/pre-adverse-notice', isAuthenticated, asyncHandler(async (req: any, res) => {
+    const parsed = preAdverseNoticeSchema.safeParse(req.body || {});
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0].message });
+    }
+    const log = await storage.getDenialDecisionAuditLog(req.params.id, req.user.id);
+    const assessment = log ? await storage.getIndividualizedAssessmentByAuditLog(log.id, req.user.id) : undefined;
+    if (!log || !assessment) {
+      return res.status(404).json({ message: "Assessment not found" });
+    }
+    if (assessment.completedAt) {
+      return res.status(400).json({ message: "This assessment is closed - the final letter has been issued" });
+    }
+    if (!assessment.offenseRelevance?.trim()) {
+      return res.status(400).json({ message: "Explain how the record relates to resident safety or property before sending the notice" });
+    }
+
+    const sentOn = parsed.data.sentOn || today();
+    const responseDays = parsed.data.responseDays ?? assessment.responseDays;
+    const responseDayType = parsed.data.responseDayType ?? assessment.responseDayType;
+    const { deadline, explain } = await computeResponseDeadline(log.stateId, sentOn, responseDays, responseDayType);
+
+    const updated = await storage.updateIndividualizedAssessment(assessment.id, req.user.id, {
+      preAdverseNoticeSentOn: sentOn,
+      responseDays,
+      responseDayType,
+      responseDeadline: deadline,
+      responseDeadlineExplain: explain,
+    });
+    await storage.updateDenialDecisionAuditLog(log.id, req.user.id, {
+      fairChanceStepsCompleted: {
+        ...(log.fairChanceStepsCompleted || {}),
+        individualized_assessment: true,
+        pre_adverse_notice: true,
+      },
+    });
+    res.json(updated ? withStage(updated) : null);
+  }));
+}
@@ -82,8 +82,10 @@ export async function registerLegislativeBillsRoutes(app: Express) {
         success: true,
         message: result.alreadyReviewed
           ? 'Bill was already reviewed'
-          : `Bill approved - ${result.templatesQueued} template drafts created for review`,
+          : `Bill approved - ${result.templatesQueued} template drafts created for review` +
+            (result.disclosuresFlagged > 0 ? `, ${result.disclosuresFlagged} state disclosures flagged` : ''),
         templatesQueued: result.templatesQueued,
+        disclosuresFlagged: result.disclosuresFlagged,
         drafts: result.drafts,
       });
     } catch (error) {
@@ -0,0 +1,366 @@
+import type { Express } from "express";
+import { storage } from "../storage";
+import { isAuthenticated, requireAccess } from "../jwtAuth";
+import type { InsertMaintenanceRequestEvent, MaintenanceRequest } from "@shared/schema";
+import {
+  computeSlaDeadlines,
+  isMaintenanceCategory,
+  isMaintenancePriority,
+  isMaintenanceStatus,
+} from "@shared/maintenance";
+import { deleteApplicantObject } from "../applicantObjectStorage";
+import { saveMaintenancePhoto, sendMaintenancePhoto, withSla } from "../utils/maintenanceTickets";
+import { dollars } from "../utils/reportFormat";
+import { isValidDate } from "../utils/validation";
+import { getActingUserId, getUserId, singlePhotoUpload } from "./_shared";
+
+// Parse a dollar amount from the request body into integer cents. Returns
+// undefined when the field is absent and null when it's cleared or invalid.
+function parseCostCents(value: unknown): number | null | undefined {
+  if (value === undefined) return undefined;
+  if (value === null || value === '') return null;
+  const parsed = parseFloat(String(value));
+  if (!Number.isFinite(parsed) || parsed < 0) return null;
+  return Math.round(parsed * 100);
+}
+
+export async function registerMaintenanceRoutes(app: Express) {
+  // ===== Tickets =====
+
+  app.get('/api/maintenance-requests', isAuthenticated, requireAccess, async (req: any, res) => {
+    try {
+      const userId = getUserId(req);
+      const status = typeof req.query.status === 'string' ? req.query.status : null;
+      const propertyId = typeof req.query.propertyId === 'string' ? req.query.propertyId : null;
+
+      let tickets = await storage.getMaintenanceRequests(userId);
+      if (status) tickets = tickets.filter((t) => t.status === status);
+      if (propertyId) tickets = tickets.filter((t) => t.rentalPropertyId === propertyId);
+
+      const [properties, vendorList] = await Promise.all([
+        storage.getRentalPropertiesByUserId(userId),
+        storage.getVendors(userId),
+      ]);
+      const unitIds = Array.from(new Set(tickets.map((t) => t.rentalUnitId).filter((id): id is string => !!id)));
+      const units = await Promise.all(unitIds.map((id) => storage.getRentalUnit(id)));
+
+      res.json(tickets.map((t) => ({
+        ...withSla(t),
+        propertyName: properties.find((p) => p.id === t.rentalPropertyId)?.name || null,
+        unitLabel: units.find((u) => u?.id === t.rentalUnitId)?.unitLabel || null,
+        vendorName: vendorList.find((v) => v.id === t.vendorId)?.name || null,
+      })));
+    } catch (error) {
+      console.error("Error fetching maintenance requests:", error);
+      res.status(500).json({ message: "Failed to fetch maintenance requests" });
+    }
+  });
+
+  // Landlord-entered ticket (phone call, inspection finding, etc.)
+  app.post('/api/maintenance-requests', isAuthenticated, requireAccess, async (req: any, res) => {
+    try {
+      const userId = getUserId(req);
+      const title = String(req.body?.title ?? '').trim();
+      const description = String(req.body?.description ?? '').trim();
+      if (!title || !description) {
+        return res.status(400).json({ message: "Title and description are required" });
+      }
+
+      const property = req.body?.rentalPropertyId
+        ? await storage.getRentalProperty(String(req.body.rentalPropertyId), userId)
+        : null;
+      if (!property) return res.status(400).json({ message: "Select a property" });
+
+      let rentalUnitId: string | null = null;
+      if (req.body?.rentalUnitId) {
+        const unit = await storage.getRentalUnit(String(req.body.rentalUnitId));
+        if (!unit || unit.propertyId !== property.id) {
+          return res.status(400).json({ message: "Unit does not belong to this property" });
+        }
+        rentalUnitId = unit.id;
+      }
+
+      let tenancyId: string | null = null;
+      if (req.body?.tenancyId) {
+        const tenancy = await storage.getTenancy(String(req.body.tenancyId), userId);
+        if (!tenancy) return res.status(400).json({ message: "Tenancy not found" });
+        tenancyId = tenancy.id;
+      }
+
+      let vendorId: string | null = null;
+      if (req.body?.vendorId) {
+        const vendor = await storage.getVendor(String(req.body.vendorId), userId);
+        if (!vendor) return res.status(400).json({ message: "Vendor not found" });
+        vendorId = vendor.id;
+      }
+
+      const priority = isMaintenancePriority(req.body?.priority) ? req.body.priority : 'routine';
+      const { respondByAt, resolveByAt } = computeSlaDeadlines(new Date(), priority);
+
+      const created = await storage.createMaintenanceRequest({
+        userId,
+        tenancyId,
+        rentalPropertyId: property.id,
+        rentalUnitId,
+        submittedByUserId: null,
+        category: isMaintenanceCategory(req.body?.category) ? req.body.category : 'other',
+        priority,
+        title: title.slice(0, 200),
+        description: description.slice(0, 5000),
+        permissionToEnter: !!req.body?.permissionToEnter,
+        vendorId,
+        scheduledFor: isValidDate(req.body?.scheduledFor) ? req.body.scheduledFor : null,
+        estimatedCost: parseCostCents(req.body?.estimatedCost) ?? null,
+        landlordNotes: req.body?.landlordNotes ? String(req.body.landlordNotes) : null,
+        respondByAt,
+        resolveByAt,
+      }, userId);
+
+      res.status(201).json(withSla(created));
+    } catch (error) {
+      console.error("Error creating maintenance request:", error);
+      res.status(500).json({ message: "Failed to create maintenance request" });
+    }
+  });
+
+  app.get('/api/maintenance-requests/:id', isAuthenticated, requireAccess, async (req: any, res) => {
+    try {
+      const userId = getUserId(req);
+      const ticket = await storage.getMaintenanceRequest(req.params.id, userId);
+      if (!ticket) return res.status(404).json({ message: "Maintenance request not found" });
+
+      const [events, photos, occupants] = await Promise.all([
+        storage.getMaintenanceRequestEvents(ticket.id),
+        storage.getMaintenanceRequestPhotos(ticket.id),
+        ticket.tenancyId ? storage.getTenancyOccupants(ticket.tenancyId) : Promise.resolve([]),
+      ]);
+      const property = ticket.rentalPropertyId
+        ? await storage.getRentalProperty(ticket.rentalPropertyId, userId)
+        : null;
+      const unit = ticket.rentalUnitId ? await storage.getRentalUnit(ticket.rentalUnitId) : null;
+      const vendor = ticket.vendorId ? await storage.getVendor(ticket.vendorId, userId) : null;
+      const submittedBy = ticket.submittedByUserId
+        ? occupants.find((o) => o.userId === ticket.submittedByUserId)
+        : null;
+
+      res.json({
+        ...withSla(ticket),
+        propertyName: property?.name || null,
+        propertyAddress: property?.address || null,
+        unitLabel: unit?.unitLabel || null,
+        vendor: vendor || null,
+        submittedByName: submittedBy?.fullName || null,
+        tenantContacts: occupants
+          .filter((o) => o.role !== 'guarantor')
+          .map((o) => ({ fullName: o.fullName, email: o.email, phone: o.phone })),
+        events,
+        photos: photos.map(({ storagePath, ...p }) => p),
+      });
+    } catch (error) {
+      console.error("Error fetching maintenance request:", error);
+      res.status(500).json({ message: "Failed to fetch maintenance request" });
+    }
+  });
+
+  // Work the ticket: status, priority, vendor, schedule, cost. Every change
+  // that matters for response-time records is appended to the history.
+  app.patch('/api/maintenance-requests/:id', isAuthenticated, requireAccess, async (req: any, res) => {
+    try {
+      const userId = getUserId(req);
+      const actorUserId = getActingUserId(req);
+      const ticket = await storage.getMaintenanceRequest(req.params.id, userId);
+      if (!ticket) return res.status(404).json({ message: "Maintenance request not found" });
+
+      const body = req.body || {};
+      const data: Partial<MaintenanceRequest> = {};
+      const events: Omit<InsertMaintenanceRequestEvent, 'requestId'>[] = [];
+      const note = body.note ? String(body.note).trim() : null;
+
+      if (body.status !== undefined && body.status !== ticket.status) {
+        if (!isMaintenanceStatus(body.status)) return res.status(400).json({ message: "Invalid status" });
+        data.status = body.status;
+        if (!ticket.acknowledgedAt && body.status !== 'open') data.acknowledgedAt = new Date();
+        data.completedAt = body.status === 'completed' ? new Date() : null;
+        events.push({ eventType: 'status_change', fromValue: ticket.status, toValue: body.status, note, actorUserId });
+      }
+
+      if (body.priority !== undefined && body.priority !== ticket.priority) {
+        if (!isMaintenancePriority(body.priority)) return res.status(400).json({ message: "Invalid priority" });
+        data.priority = body.priority;
+        // SLA windows run from submission, not from the reclassification.
+        Object.assign(data, computeSlaDeadlines(new Date(ticket.createdAt), body.priority));
+        events.push({ eventType: 'priority_change', fromValue: ticket.priority, toValue: body.priority, actorUserId });
+      }
+
+      if (body.vendorId !== undefined && (body.vendorId || null) !== ticket.vendorId) {
+        const vendor = body.vendorId ? await storage.getVendor(String(body.vendorId), userId) : null;
+        if (body.vendorId && !vendor) return res.status(400).json({ message: "Vendor not found" });
+        data.vendorId = vendor?.id ?? null;
+        events.push({ eventType: 'vendor_assigned', toValue: vendor?.name ?? null, actorUserId });
+      }
+
+      if (body.scheduledFor !== undefined) {
+        const scheduledFor = isValidDate(body.scheduledFor) ? body.scheduledFor : null;
+        if (scheduledFor !== ticket.scheduledFor) {
+          data.scheduledFor = scheduledFor;
+          events.push({ eventType: 'scheduled', fromValue: ticket.scheduledFor, toValue: scheduledFor, actorUserId });
+        }
+      }
+
+      if (body.category !== undefined) {
+        if (!isMaintenanceCategory(body.category)) return res.status(400).json({ message: "Invalid category" });
+        data.category = body.category;
+      }
+
+      const estimatedCost = parseCostCents(body.estimatedCost);
+      if (estimatedCost !== undefined) data.estimatedCost = estimatedCost;
+      const actualCost = parseCostCents(body.actualCost);
+      if (actualCost !== undefined && actualCost !== ticket.actualCost) {
+        data.actualCost = actualCost;
+        events.push({ eventType: 'note', note: `Actual cost set to ${actualCost == null ? 'none' : dollars(actualCost)}`, actorUserId });
+      }
+      if (body.landlordNotes !== undefined) data.landlordNotes = body.landlordNotes ? String(body.landlordNotes) : null;
+
+      // A note with no status change is still part of the history.
+      if (note && !events.some((e) => e.eventType === 'status_change')) {
+        events.push({ eventType: 'note', note, actorUserId });
+      }
+
+      const updated = await storage.updateMaintenanceRequest(ticket.id, userId, data, events);
+      if (!updated) return res.status(404).json({ message: "Maintenance request not found" });
+      res.json(withSla(updated));
+    } catch (error) {
+      console.error("Error updating maintenance request:", error);
+      res.status(500).json({ message: "Failed to update maintenance request" });
+    }
+  });
+
+  app.delete('/api/maintenance-requests/:id', isAuthenticated, requireAccess, async (req: any, res) => {
+    try {
+      const userId = getUserId(req);
+      const ticket = await storage.getMaintenanceRequest(req.params.id, userId);
+      if (!ticket) return res.status(404).json({ message: "Maintenance request not found" });
+      const photos = await storage.getMaintenanceRequestPhotos(ticket.id);
+      await storage.deleteMaintenanceRequest(ticket.id, userId);
+      await Promise.all(photos.map((p) => deleteApplicantObject(p.storagePath)));
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting maintenance request:", error);
+      res.status(500).json({ message: "Failed to delete maintenance request" });
+    }
+  });
+
+  // ===== Photos =====
+
+  app.post('/api/maintenance-requests/:id/photos', isAuthenticated, requireAccess, singlePhotoUpload, async (req: any, res) => {
+    try {
+      const userId = getUserId(req);
+      const ticket = await storage.getMaintenanceRequest(req.params.id, userId);
+      if (!ticket) return res.status(404).json({ message: "Maintenance request not found" });
+      if (!req.file) return res.status(400).json({ message: "No photo uploaded" });
+
+      const photo = await saveMaintenancePhoto(ticket.id, req.file, getActingUserId(req));
+      if (!photo) return res.status(400).json({ message: "This request already has the maximum number of photos" });
+      const { storagePath, ...rest } = photo;
+      res.status(201).json(rest);
+    } catch (error) {
+      console.error("Error uploading maintenance photo:", error);
+      res.status(500).json({ message: "Failed to upload photo" });
+    }
+  });
+
+  app.get('/api/maintenance-requests/:id/photos/:photoId', isAuthenticated, requireAccess, async (req: any, res) => {
+    try {
+      const userId = getUserId(req);
+      const ticket = await storage.getMaintenanceRequest(req.params.id, userId);
+      if (!ticket) return res.status(404).json({ message: "Maintenance request not found" });
+      const photo = await storage.getMaintenanceRequestPhoto(req.params.photoId, ticket.id);
+      if (!photo) return res.status(404).json({ message: "Photo not found" });
+      await sendMaintenancePhoto(res, photo);
+    } catch (error) {
+      console.error("Error fetching maintenance photo:", error);
+      res.status(500).json({ message: "Failed to fetch photo" });
+    }
+  });
+
+  app.delete('/api/maintenance-requests/:id/photos/:photoId', isAuthenticated, requireAccess, async (req: any, res) => {
+    try {
+      const userId = getUserId(req);
+      const ticket = await storage.getMaintenanceRequest(req.params.id, userId);
+      if (!ticket) return res.status(404).json({ message: "Maintenance request not found" });
+      const photo = await storage.getMaintenanceRequestPhoto(req.params.photoId, ticket.id);
+      if (!photo) return res.status(404).json({ message: "Photo not found" });
+      await storage.deleteMaintenanceRequestPhoto(photo.id, ticket.id);
+      await deleteApplicantObject(photo.storagePath);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting maintenance photo:", error);
+      res.status(500).json({ message: "Failed to delete photo" });
+    }
+  });
+
+  // ===== Vendors =====
+
+  app.get('/api/vendors', isAuthenticated, requireAccess, async (req: any, res) => {
+    try {
+      res.json(await storage.getVendors(getUserId(req)));
+    } catch (error) {
+      console.error("Error fetching vendors:", error);
+      res.status(500).json({ message: "Failed to fetch vendors" });
+    }
+  });
+
+  app.post('/api/vendors', isAuthenticated, requireAccess, async (req: any, res) => {
+    try {
+      const userId = getUserId(req);
+      const name = String(req.body?.name ?? '').trim();
+      if (!name) return res.status(400).json({ message: "Vendor name is required" });
+      const vendor = await storage.createVendor({
+        userId,
+        name,
+        trade: isMaintenanceCategory(req.body?.trade) ? req.body.trade : null,
+        phone: req.body?.phone ? String(req.body.phone).trim() : null,
+        email: req.body?.email ? String(req.body.email).trim().toLowerCase() : null,
+        notes: req.body?.notes ? String(req.body.notes) : null,
+      });
+      res.status(201).json(vendor);
+    } catch (error) {
+      console.error("Error creating vendor:", error);
+      res.status(500).json({ message: "Failed to create vendor" });
+    }
+  });
+
+  app.patch('/api/vendors/:id', isAuthenticated, requireAccess, async (req: any, res) => {
+    try {
+      const userId = getUserId(req);
+      const body = req.body || {};
+      const data: Record<string, unknown> = {};
+      if (body.name !== undefined) {
+        const name = String(body.name).trim();
+        if (!name) return res.status(400).json({ message: "Vendor name is required" });
+        data.name = name;
+      }
+      if (body.trade !== undefined) data.trade = isMaintenanceCategory(body.trade) ? body.trade : null;
+      if (body.phone !== undefined) data.phone = body.phone ? String(body.phone).trim() : null;
+      if (body.email !== undefined) data.email = body.email ? String(body.email).trim().toLowerCase() : null;
+      if (body.notes !== undefined) data.notes = body.notes ? String(body.notes) : null;
+      const updated = await storage.updateVendor(req.params.id, userId, data);
+      if (!updated) return res.status(404).json({ message: "Vendor not found" });
+      res.json(updated);
+    } catch (error) {
+      console.error("Error updating vendor:", error);
+      res.status(500).json({ message: "Failed to update vendor" });
+    }
+  });
+
+  app.delete('/api/vendors/:id', isAuthenticated, requireAccess, async (req: any, res) => {
+    try {
+      const deleted = await storage.deleteVendor(req.params.id, getUserId(req));
+      if (!deleted) return res.status(404).json({ message: "Vendor not found" });
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting vendor:", error);
+      res.status(500).json({ message: "Failed to delete vendor" });
+    }
+  });
+}
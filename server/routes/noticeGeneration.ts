@@ -6,29 +6,19 @@ import {
   resolveServiceMethods,
   enforceServiceHierarchy,
   renderHtml,
+  getOverlayData,
+  selectDayRule,
+  selectedServiceExtensions,
 } from "../engine";
 import { db } from "../db";
 import { generatedNoticeDocuments, noticeAuditEvents } from "@shared/schema";
 import { randomUUID } from "crypto";
 import { renderDocument, saveRenderProvenance } from "../engine/documentRenderer";
+import { isAuthenticated, requireAccess } from "../jwtAuth";
+import { getUserId } from "./_shared";
 
 const router = Router();
 
-function selectDayRule(def: any, gateAnswers?: Record<string, string>) {
-  if (!def.dayRules || def.dayRules.length === 0) return null;
-  if (def.dayRules.length === 1) return def.dayRules[0];
-  if (gateAnswers && def.leaseGates) {
-    for (const gate of def.leaseGates) {
-      if (gate.affectsNoticePeriod) {
-        const answer = gateAnswers[gate.gateKey];
-        const matchRule = def.dayRules.find((r: any) => r.dayType === answer);
-        if (matchRule) return matchRule;
-      }
-    }
-  }
-  return def.dayRules[0];
-}
-
 router.get("/api/notice-forms/:formKey/definition", async (req, res) => {
   try {
     const def = await resolveForm(req.params.formKey);
@@ -63,7 +53,7 @@ router.post("/api/notice-forms/:formKey/validate", async (req, res) => {
 router.post("/api/notice-forms/:formKey/calculate-dates", async (req, res) => {
   try {
     const def = await resolveForm(req.params.formKey);
-    const { serviceDate, gateAnswers } = req.body;
+    const { serviceDate, gateAnswers, serviceSelection } = req.body;
 
     if (!serviceDate) {
       return res.status(400).json({ error: "serviceDate is required" });
@@ -81,6 +71,7 @@ router.post("/api/notice-forms/:formKey/calculate-dates", async (req, res) => {
       countingConvention: applicableRule.countingConvention,
       serviceDate,
       holidays: applicableRule.holidays,
+      serviceExtensions: selectedServiceExtensions(def, serviceSelection),
     });
 
     res.json(result);
@@ -118,6 +109,7 @@ router.post("/api/notice-forms/:formKey/preview", async (req, res) => {
         countingConvention: rule.countingConvention,
         serviceDate,
         holidays: rule.holidays,
+        serviceExtensions: selectedServiceExtensions(def, serviceSelection),
       });
     }
 
@@ -134,11 +126,13 @@ router.post("/api/notice-forms/:formKey/preview", async (req, res) => {
   }
 });
 
-router.post("/api/notice-forms/:formKey/generate", async (req, res) => {
+// Generated notices are saved to the landlord's account - they're the record
+// of what was served and feed the eviction case timeline.
+router.post("/api/notice-forms/:formKey/generate", isAuthenticated, requireAccess, async (req, res) => {
   try {
     const def = await resolveForm(req.params.formKey);
     const { inputs, gateAnswers, serviceSelection, serviceDate } = req.body;
-    const userId = (req as any).userId;
+    const userId = getUserId(req);
 
     const validation = validateInputs(def, inputs || {}, gateAnswers || {}, serviceSelection || {});
     if (!validation.valid) {
@@ -154,6 +148,7 @@ router.post("/api/notice-forms/:formKey/generate", async (req, res) => {
         countingConvention: selectedRule.countingConvention,
         serviceDate,
         holidays: selectedRule.holidays,
+        serviceExtensions: selectedServiceExtensions(def, serviceSelection),
       });
     }
 
@@ -164,24 +159,22 @@ router.post("/api/notice-forms/:formKey/generate", async (req, res) => {
     await db.insert(generatedNoticeDocuments).values({
       id: docId,
       formVersionId: def.version.id,
-      userId: userId || null,
-      inputSnapshot: inputs,
-      gateSnapshot: gateAnswers,
-      serviceSnapshot: serviceSelection,
-      dateCalcSnapshot: dateCalc,
-      renderedHtml: html,
-      overlayJson: overlayData.length > 0 ? overlayData : null,
-      complianceDeadline: dateCalc?.complianceDeadline || null,
-      earliestFilingDate: dateCalc?.earliestFilingDate || null,
-    } as any);
+      userId,
+      inputs: inputs || {},
+      serviceSelection: serviceSelection || null,
+      leaseGateAnswers: gateAnswers || null,
+      serviceDate: dateCalc ? serviceDate : null,
+      calculatedComplianceDeadline: dateCalc?.complianceDeadline || null,
+      calculatedEarliestFilingDate: dateCalc?.earliestFilingDate || null,
+    });
 
     await db.insert(noticeAuditEvents).values({
-      id: randomUUID(),
-      documentId: docId,
-      eventType: 'generated',
-      actorId: userId || null,
-      detail: { formKey: def.form.key, versionNumber: def.version.versionNumber },
-    } as any);
+      generatedDocumentId: docId,
+      formVersionId: def.version.id,
+      userId,
+      eventType: 'form_generated',
+      payload: { formKey: def.form.key, versionNumber: def.version.versionNumber },
+    });
 
     res.json({
       documentId: docId,
@@ -197,12 +190,12 @@ router.post("/api/notice-forms/:formKey/generate", async (req, res) => {
   }
 });
 
-router.post("/api/notice-forms/:formKey/generate-pdf", async (req, res) => {
+router.post("/api/notice-forms/:formKey/generate-pdf", isAuthenticated, requireAccess, async (req, res) => {
   try {
     const formKey = req.params.formKey;
     const def = await resolveForm(formKey);
     const { inputs, gateAnswers, serviceSelection, serviceDate } = req.body;
-    const userId = (req as any).userId;
+    const userId = getUserId(req);
 
     const validation = validateInputs(def, inputs || {}, gateAnswers || {}, serviceSelection || {});
     if (!validation.valid) {
@@ -218,6 +211,7 @@ router.post("/api/notice-forms/:formKey/generate-pdf", async (req, res) => {
         countingConvention: selectedRule.countingConvention,
         serviceDate,
         holidays: selectedRule.holidays,
+        serviceExtensions: selectedServiceExtensions(def, serviceSelection),
       });
     }
 
@@ -241,15 +235,13 @@ router.post("/api/notice-forms/:formKey/generate-pdf", async (req, res) => {
             id: docId,
             formVersionId: def.version.id,
             userId,
-            inputSnapshot: inputs,
-            gateSnapshot: gateAnswers,
-            serviceSnapshot: serviceSelection,
-            dateCalcSnapshot: dateCalc,
-            renderedHtml: null,
-            overlayJson: null,
-            complianceDeadline: dateCalc?.complianceDeadline || null,
-            earliestFilingDate: dateCalc?.earliestFilingDate || null,
-          } as any);
+            inputs: inputs || {},
+            serviceSelection: serviceSelection || null,
+            leaseGateAnswers: gateAnswers || null,
+            serviceDate: dateCalc ? serviceDate : null,
+            calculatedComplianceDeadline: dateCalc?.complianceDeadline || null,
+            calculatedEarliestFilingDate: dateCalc?.earliestFilingDate || null,
+          });
 
           await saveRenderProvenance(docId, {
             renderModeUsed: rendered.renderModeUsed,
@@ -259,17 +251,17 @@ router.post("/api/notice-forms/:formKey/generate-pdf", async (req, res) => {
           });
 
           await db.insert(noticeAuditEvents).values({
-            id: randomUUID(),
-            documentId: docId,
-            eventType: 'generated',
-            actorId: userId,
-            detail: {
+            generatedDocumentId: docId,
+            formVersionId: def.version.id,
+            userId,
+            eventType: 'form_generated',
+            payload: {
               formKey: def.form.key,
               versionNumber: def.version.versionNumber,
               outputMode: rendered.renderModeUsed,
               renderStrategy: rendered.renderStrategyUsed,
             },
-          } as any);
+          });
         } catch (dbErr: any) {
           console.warn('[NoticeGeneration] Failed to log document generation:', dbErr.message);
         }
@@ -0,0 +1,226 @@
+import type { Express } from "express";
+import { storage } from "../storage";
+import { isAuthenticated, requireAccess } from "../jwtAuth";
+import { isServiceOutcome, isServiceServerRole } from "@shared/noticeService";
+import { deleteApplicantObject } from "../applicantObjectStorage";
+import {
+  checkServiceAttempt,
+  resolveFormVersion,
+  resolveServiceMethods,
+  summarizeServiceLog,
+} from "../engine";
+import {
+  generateProofOfService,
+  proofOfServiceSource,
+  saveServiceAttemptPhoto,
+  sendServiceAttemptPhoto,
+} from "../utils/noticeServiceLog";
+import { isValidDate } from "../utils/validation";
+import { getActingUserId, getUserId, singlePhotoUpload } from "./_shared";
+
+function isValidTime(value: unknown): value is string {
+  return typeof value === 'string' && /^([01]\d|2[0-3]):[0-5]\d$/.test(value);
+}
+
+async function loadNotice(id: string, userId: string) {
+  const notice = await storage.getGeneratedNoticeDocument(id, userId);
+  if (!notice) return null;
+  const def = await resolveFormVersion(notice.formVersionId);
+  return { notice, def };
+}
+
+export async function registerNoticeServiceLogRoutes(app: Express) {
+  // The service log for one generated notice: the methods its form allows,
+  // every logged attempt with photo ids, and whether service is complete.
+  app.get('/api/generated-notices/:id/service-log', isAuthenticated, requireAccess, async (req: any, res) => {
+    try {
+      const userId = getUserId(req);
+      const loaded = await loadNotice(req.params.id, userId);
+      if (!loaded) return res.status(404).json({ message: "Notice not found" });
+      const { notice, def } = loaded;
+
+      const attempts = await storage.getNoticeServiceAttempts(notice.id);
+      const photos = await storage.getNoticeServiceAttemptPhotos(attempts.map((a) => a.id));
+
+      res.json({
+        notice,
+        methods: resolveServiceMethods(def, notice.leaseGateAnswers || {}),
+        attempts: attempts.map((a) => ({
+          ...a,
+          photoIds: photos.filter((p) => p.attemptId === a.id).map((p) => p.id),
+        })),
+        summary: summarizeServiceLog(def, attempts),
+        proofSource: proofOfServiceSource(def),
+      });
+    } catch (error) {
+      console.error("Error fetching service log:", error);
+      res.status(500).json({ message: "Failed to fetch service log" });
+    }
+  });
+
+  app.post('/api/generated-notices/:id/service-attempts', isAuthenticated, requireAccess, async (req: any, res) => {
+    try {
+      const userId = getUserId(req);
+      const loaded = await loadNotice(req.params.id, userId);
+      if (!loaded) return res.status(404).json({ message: "Notice not found" });
+      const { notice, def } = loaded;
+
+      const { methodId, servedByName, servedByRole, attemptDate, attemptTime, address, recipientName, outcome, notes } = req.body;
+      if (typeof servedByName !== 'string' || !servedByName.trim()) {
+        return res.status(400).json({ message: "Enter who served the notice" });
+      }
+      if (!isServiceServerRole(servedByRole)) {
+        return res.status(400).json({ message: "Invalid server role" });
+      }
+      if (!isValidDate(attemptDate)) {
+        return res.status(400).json({ message: "Enter the date of the attempt" });
+      }
+      if (attemptTime && !isValidTime(attemptTime)) {
+        return res.status(400).json({ message: "Invalid time" });
+      }
+      if (typeof address !== 'string' || !address.trim()) {
+        return res.status(400).json({ message: "Enter the address where service was attempted" });
+      }
+      if (!isServiceOutcome(outcome)) {
+        return res.status(400).json({ message: "Invalid outcome" });
+      }
+
+      const attempts = await storage.getNoticeServiceAttempts(notice.id);
+      const check = checkServiceAttempt(def, notice.leaseGateAnswers || {}, attempts, {
+        methodId,
+        attemptDate,
+        attemptTime: attemptTime || null,
+      });
+      if (!check.valid) {
+        return res.status(400).json({ message: check.errors.join('. '), errors: check.errors });
+      }
+
+      const attempt = await storage.createNoticeServiceAttempt({
+        generatedNoticeDocumentId: notice.id,
+        userId,
+        methodId,
+        servedByName: servedByName.trim(),
+        servedByRole,
+        attemptDate,
+        attemptTime: attemptTime || null,
+        address: address.trim(),
+        recipientName: recipientName?.trim() || null,
+        outcome,
+        notes: notes?.trim() || null,
+      });
+      res.status(201).json(attempt);
+    } catch (error) {
+      console.error("Error logging service attempt:", error);
+      res.status(500).json({ message: "Failed to log service attempt" });
+    }
+  });
+
+  // Only the most recent attempt can be removed, so attempt numbers and the
+  // prior-attempt history the later entries relied on stay intact.
+  app.delete('/api/generated-notices/:id/service-attempts/:attemptId', isAuthenticated, requireAccess, async (req: any, res) => {
+    try {
+      const userId = getUserId(req);
+      const notice = await storage.getGeneratedNoticeDocument(req.params.id, userId);
+      if (!notice) return res.status(404).json({ message: "Notice not found" });
+
+      const attempts = await storage.getNoticeServiceAttempts(notice.id);
+      const attempt = attempts.find((a) => a.id === req.params.attemptId);
+      if (!attempt) return res.status(404).json({ message: "Attempt not found" });
+      if (attempt.id !== attempts[attempts.length - 1].id) {
+        return res.status(400).json({ message: "Only the most recent attempt can be removed" });
+      }
+
+      const photos = await storage.getNoticeServiceAttemptPhotos([attempt.id]);
+      await storage.deleteNoticeServiceAttempt(attempt.id, notice.id);
+      await Promise.all(photos.map((p) => deleteApplicantObject(p.storagePath)));
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting service attempt:", error);
+      res.status(500).json({ message: "Failed to delete service attempt" });
+    }
+  });
+
+  // ===== Photos =====
+
+  app.post('/api/generated-notices/:id/service-attempts/:attemptId/photos', isAuthenticated, requireAccess, singlePhotoUpload, async (req: any, res) => {
+    try {
+      const userId = getUserId(req);
+      const notice = await storage.getGeneratedNoticeDocument(req.params.id, userId);
+      if (!notice) return res.status(404).json({ message: "Notice not found" });
+      const attempt = (await storage.getNoticeServiceAttempts(notice.id)).find((a) => a.id === req.params.attemptId);
+      if (!attempt) return res.status(404).json({ message: "Attempt not found" });
+      if (!req.file) return res.status(400).json({ message: "No photo uploaded" });
+
+      const photo = await saveServiceAttemptPhoto(attempt.id, req.file, getActingUserId(req));
+      if (!photo) return res.status(400).json({ message: "This attempt already has the maximum number of photos" });
+      const { storagePath, ...rest } = photo;
+      res.status(201).json(rest);
+    } catch (error) {
+      console.error("Error uploading service photo:", error);
+      res.status(500).json({ message: "Failed to upload photo" });
+    }
+  });
+
+  app.get('/api/generated-notices/:id/service-attempts/:attemptId/photos/:photoId', isAuthenticated, requireAccess, async (req: any, res) => {
+    try {
+      const userId = getUserId(req);
+      const notice = await storage.getGeneratedNoticeDocument(req.params.id, userId);
+      if (!notice) return res.status(404).json({ message: "Notice not found" });
+      const attempt = (await storage.getNoticeServiceAttempts(notice.id)).find((a) => a.id === req.params.attemptId);
+      if (!attempt) return res.status(404).json({ message: "Attempt not found" });
+      const photo = await storage.getNoticeServiceAttemptPhoto(req.params.photoId, attempt.id);
+      if (!photo) return res.status(404).json({ message: "Photo not found" });
+      await sendServiceAttemptPhoto(res, photo);
+    } catch (error) {
+      console.error("Error fetching service photo:", error);
+      res.status(500).json({ message: "Failed to fetch photo" });
+    }
+  });
+
+  app.delete('/api/generated-notices/:id/service-attempts/:attemptId/photos/:photoId', isAuthenticated, requireAccess, async (req: any, res) => {
+    try {
+      const userId = getUserId(req);
+      const notice = await storage.getGeneratedNoticeDocument(req.params.id, userId);
+      if (!notice) return res.status(404).json({ message: "Notice not found" });
+      const attempt = (await storage.getNoticeServiceAttempts(notice.id)).find((a) => a.id === req.params.attemptId);
+      if (!attempt) return res.status(404).json({ message: "Attempt not found" });
+      const photo = await storage.getNoticeServiceAttemptPhoto(req.params.photoId, attempt.id);
+      if (!photo) return res.status(404).json({ message: "Photo not found" });
+      await storage.deleteNoticeServiceAttemptPhoto(photo.id, attempt.id);
+      await deleteApplicantObject(photo.storagePath);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting service photo:", error);
+      res.status(500).json({ message: "Failed to delete photo" });
+    }
+  });
+
+  // ===== Certificate / affidavit of service =====
+
+  app.get('/api/generated-notices/:id/proof-of-service.pdf', isAuthenticated, requireAccess, async (req: any, res) => {
+    try {
+      const userId = getUserId(req);
+      const loaded = await loadNotice(req.params.id, userId);
+      if (!loaded) return res.status(404).json({ message: "Notice not found" });
+      const { notice, def } = loaded;
+
+      const attempts = await storage.getNoticeServiceAttempts(notice.id);
+      const summary = summarizeServiceLog(def, attempts);
+      if (!summary.complete) {
+        return res.status(400).json({
+          message: summary.missingMethodNames.length > 0
+            ? `Service isn't complete - also serve by ${summary.missingMethodNames.join(' and ')}`
+            : "Log a successful service attempt before generating proof of service",
+        });
+      }
+
+      const { buffer, filename } = await generateProofOfService(notice, def, attempts);
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+      res.send(buffer);
+    } catch (error) {
+      console.error("Error generating proof of service:", error);
+      res.status(500).json({ message: "Failed to generate proof of service" });
+    }
+  });
+}
@@ -0,0 +1,194 @@
+import type { Express } from "express";
+import { randomBytes } from "crypto";
+import { z } from "zod";
+import { storage } from "../storage";
+import { isAuthenticated, requireAccess } from "../jwtAuth";
+import type { OrganizationMember, User } from "@shared/schema";
+import { TEAM_ROLES, isInvitableTeamRole } from "@shared/organizations";
+import { emailService } from "../emailService";
+import { getAppBaseUrl } from "../utils/appUrl";
+import { teamDisplayName } from "../utils/organizations";
+import { getActingUserId, getUserId } from "./_shared";
+
+const inviteSchema = z.object({
+  email: z.string().email('Enter a valid email address'),
+  role: z.string(),
+});
+
+// Member rows go to the client without the invite token - it's the invitee's
+// credential for joining.
+function publicMember(m: OrganizationMember, user?: User) {
+  const { inviteToken, ...rest } = m;
+  return {
+    ...rest,
+    name: user ? [user.firstName, user.lastName].filter(Boolean).join(' ') || null : null,
+    invitePending: !!inviteToken,
+  };
+}
+
+function roleLabel(role: string): string {
+  return TEAM_ROLES.find((r) => r.value === role)?.label || role;
+}
+
+async function ensureOrganization(owner: User) {
+  return (await storage.getOrganizationByOwner(owner.id))
+    || storage.createOrganization({ name: teamDisplayName(owner), ownerUserId: owner.id });
+}
+
+async function sendInvite(req: any, member: OrganizationMember, organizationName: string) {
+  const inviter = await storage.getUser(getActingUserId(req));
+  const inviteUrl = `${getAppBaseUrl(req)}/team-invite/${member.inviteToken}`;
+  const emailSent = await emailService.sendTeamInviteEmail(
+    { email: member.email },
+    {
+      inviterName: inviter ? [inviter.firstName, inviter.lastName].filter(Boolean).join(' ') || inviter.email : 'Your team',
+      organizationName,
+      roleLabel: roleLabel(member.role).toLowerCase(),
+      inviteLink: inviteUrl,
+    },
+  ).catch((err) => {
+    console.error("Failed to send team invite email:", err);
+    return false;
+  });
+  return { inviteUrl, emailSent };
+}
+
+export async function registerOrganizationRoutes(app: Express) {
+  // The signed-in account's team. Owners without members yet get a null
+  // organization - it's created with the first invite.
+  app.get('/api/organization', isAuthenticated, requireAccess, async (req: any, res) => {
+    try {
+      const owner = req.user as User;
+      const organization = await storage.getOrganizationByOwner(owner.id);
+      const members = organization ? await storage.getOrganizationMembers(organization.id) : [];
+      const users = await Promise.all(members.map((m) => (m.userId ? storage.getUser(m.userId) : undefined)));
+
+      res.json({
+        organization: organization || null,
+        defaultName: teamDisplayName(owner),
+        owner: {
+          email: owner.email,
+          name: [owner.firstName, owner.lastName].filter(Boolean).join(' ') || null,
+        },
+        members: members.map((m, i) => publicMember(m, users[i])),
+        role: req.teamRole,
+      });
+    } catch (error) {
+      console.error("Error fetching organization:", error);
+      res.status(500).json({ message: "Failed to fetch team" });
+    }
+  });
+
+  app.patch('/api/organization', isAuthenticated, requireAccess, async (req: any, res) => {
+    try {
+      const name = typeof req.body?.name === 'string' ? req.body.name.trim() : '';
+      if (!name) return res.status(400).json({ message: "Team name is required" });
+      const organization = await ensureOrganization(req.user);
+      const updated = await storage.updateOrganization(organization.id, { name });
+      res.json(updated);
+    } catch (error) {
+      console.error("Error updating organization:", error);
+      res.status(500).json({ message: "Failed to update team" });
+    }
+  });
+
+  app.post('/api/organization/members', isAuthenticated, requireAccess, async (req: any, res) => {
+    try {
+      const owner = req.user as User;
+      const parsed = inviteSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+      const email = parsed.data.email.toLowerCase().trim();
+      const { role } = parsed.data;
+      if (!isInvitableTeamRole(role)) {
+        return res.status(400).json({ message: "Invalid role" });
+      }
+      if (owner.isAdmin) {
+        return res.status(400).json({ message: "Admin accounts can't have team members" });
+      }
+      if (email === owner.email.toLowerCase()) {
+        return res.status(400).json({ message: "You're already the owner of this team" });
+      }
+
+      const organization = await ensureOrganization(owner);
+      const existingMember = await storage.getOrganizationMemberByEmail(organization.id, email);
+      if (existingMember) {
+        return res.status(400).json({
+          message: existingMember.userId ? "This person is already on your team" : "This person has already been invited",
+        });
+      }
+
+      const member = await storage.createOrganizationMember({
+        organizationId: organization.id,
+        email,
+        role,
+        inviteToken: randomBytes(32).toString('hex'),
+        invitedAt: new Date(),
+        invitedByUserId: getActingUserId(req),
+      });
+      const { inviteUrl, emailSent } = await sendInvite(req, member, organization.name);
+      res.status(201).json({ member: publicMember(member), inviteUrl, emailSent });
+    } catch (error) {
+      console.error("Error inviting team member:", error);
+      res.status(500).json({ message: "Failed to invite team member" });
+    }
+  });
+
+  // Re-sending issues a fresh token and invalidates the previous link.
+  app.post('/api/organization/members/:id/resend', isAuthenticated, requireAccess, async (req: any, res) => {
+    try {
+      const organization = await storage.getOrganizationByOwner(getUserId(req));
+      if (!organization) return res.status(404).json({ message: "Member not found" });
+      const member = await storage.getOrganizationMember(req.params.id, organization.id);
+      if (!member) return res.status(404).json({ message: "Member not found" });
+      if (member.userId) {
+        return res.status(400).json({ message: "This person has already joined" });
+      }
+
+      const updated = await storage.updateOrganizationMember(member.id, {
+        inviteToken: randomBytes(32).toString('hex'),
+        invitedAt: new Date(),
+      });
+      if (!updated) return res.status(404).json({ message: "Member not found" });
+      const { inviteUrl, emailSent } = await sendInvite(req, updated, organization.name);
+      res.json({ member: publicMember(updated), inviteUrl, emailSent });
+    } catch (error) {
+      console.error("Error resending team invite:", error);
+      res.status(500).json({ message: "Failed to resend invite" });
+    }
+  });
+
+  app.patch('/api/organization/members/:id', isAuthenticated, requireAccess, async (req: any, res) => {
+    try {
+      const organization = await storage.getOrganizationByOwner(getUserId(req));
+      if (!organization) return res.status(404).json({ message: "Member not found" });
+      const member = await storage.getOrganizationMember(req.params.id, organization.id);
+      if (!member) return res.status(404).json({ message: "Member not found" });
+      if (!isInvitableTeamRole(req.body?.role)) {
+        return res.status(400).json({ message: "Invalid role" });
+      }
+
+      const updated = await storage.updateOrganizationMember(member.id, { role: req.body.role });
+      res.json(updated ? publicMember(updated) : null);
+    } catch (error) {
+      console.error("Error updating team member:", error);
+      res.status(500).json({ message: "Failed to update team member" });
+    }
+  });
+
+  // Removing a member ends their access right away - their login goes back
+  // to being a standalone account with no data of the team's.
+  app.delete('/api/organization/members/:id', isAuthenticated, requireAccess, async (req: any, res) => {
+    try {
+      const organization = await storage.getOrganizationByOwner(getUserId(req));
+      if (!organization) return res.status(404).json({ message: "Member not found" });
+      const deleted = await storage.deleteOrganizationMember(req.params.id, organization.id);
+      if (!deleted) return res.status(404).json({ message: "Member not found" });
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error removing team member:", error);
+      res.status(500).json({ message: "Failed to remove team member" });
+    }
+  });
+}
@@ -0,0 +1,79 @@
+import type { Express } from "express";
+import { z } from "zod";
+import { storage } from "../storage";
+import { isAuthenticated, requireAccess } from "../jwtAuth";
+import { getUserId } from "./_shared";
+import { sendBinaryDownload, CONTENT_TYPES } from "../utils/download";
+import { OWNER_REPORT_KINDS, type OwnerReport } from "@shared/ownerReports";
+import {
+  buildDelinquencyAging,
+  buildIncomeExpense,
+  buildRentRoll,
+  generateOwnerReportPdf,
+  loadOwnerReportData,
+  ownerReportCsv,
+  scopeToProperty,
+} from "../utils/ownerReports";
+
+const reportQuerySchema = z.object({
+  format: z.enum(['json', 'csv', 'pdf']).default('json'),
+  asOf: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Report date must be YYYY-MM-DD').optional(),
+  year: z.coerce.number().int().min(2000).max(2100).optional(),
+  propertyId: z.string().optional(),
+});
+
+export async function registerOwnerReportsRoutes(app: Express) {
+  // Rent roll, delinquency aging, and income & expenses. ?format=json for the
+  // page, csv or pdf to download. Rent roll and aging take ?asOf (default
+  // today); income & expenses takes ?year (default this year).
+  app.get('/api/owner-reports/:kind', isAuthenticated, requireAccess, async (req: any, res) => {
+    try {
+      const userId = getUserId(req);
+      const kind = req.params.kind;
+      if (!OWNER_REPORT_KINDS.includes(kind)) {
+        return res.status(404).json({ message: "Report not found" });
+      }
+      const parsed = reportQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+      const { format, propertyId } = parsed.data;
+      const asOf = parsed.data.asOf || new Date().toISOString().slice(0, 10);
+      const year = parsed.data.year || new Date().getFullYear();
+
+      let data = await loadOwnerReportData(userId);
+      if (propertyId) {
+        if (!data.properties.some((p) => p.id === propertyId)) {
+          return res.status(404).json({ message: "Property not found" });
+        }
+        data = scopeToProperty(data, propertyId);
+      }
+
+      let report: OwnerReport;
+      if (kind === 'rent-roll') report = buildRentRoll(data, asOf);
+      else if (kind === 'delinquency') report = buildDelinquencyAging(data, asOf);
+      else report = buildIncomeExpense(data, year);
+
+      if (format === 'json') {
+        return res.json(report);
+      }
+      const filename = `${kind}-${kind === 'income-expense' ? year : asOf}.${format}`;
+      if (format === 'csv') {
+        res.setHeader("Content-Type", "text/csv; charset=utf-8");
+        res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+        return res.send(ownerReportCsv(report));
+      }
+      const user = await storage.getUser(userId);
+      const ownerName = user?.businessName
+        || (user?.firstName && user?.lastName ? `${user.firstName} ${user.lastName}` : 'Landlord');
+      sendBinaryDownload(res, {
+        buffer: await generateOwnerReportPdf(report, ownerName),
+        filename,
+        contentType: CONTENT_TYPES.PDF,
+      });
+    } catch (error) {
+      console.error("Error generating owner report:", error);
+      res.status(500).json({ message: "Failed to generate report" });
+    }
+  });
+}
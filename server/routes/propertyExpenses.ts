@@ -0,0 +1,283 @@
+import type { Express } from "express";
+import { z } from "zod";
+import { storage } from "../storage";
+import { isAuthenticated, requireAccess } from "../jwtAuth";
+import { getUserId, singleReceiptUpload } from "./_shared";
+import { sendBinaryDownload, CONTENT_TYPES } from "../utils/download";
+import { deleteApplicantObject } from "../applicantObjectStorage";
+import { EXPENSE_CATEGORIES, type ExpenseCategory } from "@shared/propertyExpenses";
+import { loadOwnerReportData, scopeToProperty } from "../utils/ownerReports";
+import {
+  buildScheduleE,
+  generateScheduleEPdf,
+  saveExpenseReceipt,
+  scheduleECsv,
+  sendExpenseReceipt,
+  toExpenseResponse,
+} from "../utils/propertyExpenses";
+
+const optionalText = (max: number) => z.string().trim().max(max).nullable().optional();
+
+const expenseSchema = z.object({
+  rentalPropertyId: z.string().min(1, 'Choose a property'),
+  rentalUnitId: z.string().nullable().optional(),
+  vendorId: z.string().nullable().optional(),
+  maintenanceRequestId: z.string().nullable().optional(),
+  category: z.enum(EXPENSE_CATEGORIES.map((c) => c.value) as [ExpenseCategory, ...ExpenseCategory[]], {
+    errorMap: () => ({ message: 'Choose an expense category' }),
+  }),
+  amount: z.number().int().positive('Amount must be greater than zero').max(100_000_000), // in cents
+  expenseDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date paid must be YYYY-MM-DD'),
+  payee: optionalText(200),
+  description: optionalText(1000),
+  paymentMethod: optionalText(50),
+});
+
+const listQuerySchema = z.object({
+  propertyId: z.string().optional(),
+  year: z.coerce.number().int().min(2000).max(2100).optional(),
+});
+
+const scheduleEQuerySchema = z.object({
+  format: z.enum(['json', 'csv', 'pdf']).default('json'),
+  year: z.coerce.number().int().min(2000).max(2100).optional(),
+  propertyId: z.string().optional(),
+});
+
+type ExpenseInput = z.infer<typeof expenseSchema>;
+
+// The property, unit, vendor and work order must all be the caller's, and the
+// unit and work order must be on the chosen property. Returns an error
+// message, or the payee to store (the vendor's name when none was typed).
+async function checkExpenseLinks(
+  userId: string,
+  input: ExpenseInput,
+): Promise<{ error: string } | { payee: string | null }> {
+  const property = await storage.getRentalProperty(input.rentalPropertyId, userId);
+  if (!property) return { error: "Property not found" };
+  if (input.rentalUnitId) {
+    const unit = await storage.getRentalUnit(input.rentalUnitId);
+    if (!unit || unit.propertyId !== property.id) return { error: "Unit not found on this property" };
+  }
+  if (input.maintenanceRequestId) {
+    const ticket = await storage.getMaintenanceRequest(input.maintenanceRequestId, userId);
+    if (!ticket || (ticket.rentalPropertyId && ticket.rentalPropertyId !== property.id)) {
+      return { error: "Maintenance request not found on this property" };
+    }
+  }
+  let payee = input.payee || null;
+  if (input.vendorId) {
+    const vendor = await storage.getVendor(input.vendorId, userId);
+    if (!vendor) return { error: "Vendor not found" };
+    payee = payee || vendor.name;
+  }
+  return { payee };
+}
+
+export async function registerPropertyExpensesRoutes(app: Express) {
+  app.get('/api/property-expenses', isAuthenticated, requireAccess, async (req: any, res) => {
+    try {
+      const userId = getUserId(req);
+      const parsed = listQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+      const { propertyId, year } = parsed.data;
+      let expenses = await storage.getPropertyExpenses(userId);
+      if (propertyId) expenses = expenses.filter((x) => x.rentalPropertyId === propertyId);
+      if (year) expenses = expenses.filter((x) => x.expenseDate.startsWith(`${year}-`));
+      res.json(expenses.map(toExpenseResponse));
+    } catch (error) {
+      console.error("Error fetching property expenses:", error);
+      res.status(500).json({ message: "Failed to fetch expenses" });
+    }
+  });
+
+  // Year-end Schedule E worksheet per property. ?format=json for the page,
+  // csv or pdf to download; ?year defaults to last year, the one being filed.
+  app.get('/api/property-expenses/schedule-e', isAuthenticated, requireAccess, async (req: any, res) => {
+    try {
+      const userId = getUserId(req);
+      const parsed = scheduleEQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+      const { format, propertyId } = parsed.data;
+      const year = parsed.data.year || new Date().getFullYear() - 1;
+
+      let data = await loadOwnerReportData(userId);
+      if (propertyId) {
+        if (!data.properties.some((p) => p.id === propertyId)) {
+          return res.status(404).json({ message: "Property not found" });
+        }
+        data = scopeToProperty(data, propertyId);
+      }
+      const worksheet = buildScheduleE(data, year);
+
+      if (format === 'json') {
+        return res.json(worksheet);
+      }
+      const filename = `schedule-e-worksheet-${year}.${format}`;
+      if (format === 'csv') {
+        res.setHeader("Content-Type", "text/csv; charset=utf-8");
+        res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+        return res.send(scheduleECsv(worksheet));
+      }
+      const user = await storage.getUser(userId);
+      const ownerName = user?.businessName
+        || (user?.firstName && user?.lastName ? `${user.firstName} ${user.lastName}` : 'Landlord');
+      sendBinaryDownload(res, {
+        buffer: await generateScheduleEPdf(worksheet, ownerName),
+        filename,
+        contentType: CONTENT_TYPES.PDF,
+      });
+    } catch (error) {
+      console.error("Error generating Schedule E worksheet:", error);
+      res.status(500).json({ message: "Failed to generate Schedule E worksheet" });
+    }
+  });
+
+  app.post('/api/property-expenses', isAuthenticated, requireAccess, async (req: any, res) => {
+    try {
+      const userId = getUserId(req);
+      const parsed = expenseSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+      const links = await checkExpenseLinks(userId, parsed.data);
+      if ('error' in links) return res.status(400).json({ message: links.error });
+
+      const input = parsed.data;
+      const expense = await storage.createPropertyExpense({
+        userId,
+        rentalPropertyId: input.rentalPropertyId,
+        rentalUnitId: input.rentalUnitId || null,
+        vendorId: input.vendorId || null,
+        maintenanceRequestId: input.maintenanceRequestId || null,
+        category: input.category,
+        amount: input.amount,
+        expenseDate: input.expenseDate,
+        payee: links.payee,
+        description: input.description || null,
+        paymentMethod: input.paymentMethod || null,
+      });
+      res.status(201).json(toExpenseResponse(expense));
+    } catch (error) {
+      console.error("Error creating property expense:", error);
+      res.status(500).json({ message: "Failed to record expense" });
+    }
+  });
+
+  app.patch('/api/property-expenses/:id', isAuthenticated, requireAccess, async (req: any, res) => {
+    try {
+      const userId = getUserId(req);
+      const existing = await storage.getPropertyExpense(req.params.id, userId);
+      if (!existing) return res.status(404).json({ message: "Expense not found" });
+
+      // Validate the merged record so links are rechecked against the
+      // property the expense ends up on.
+      const parsed = expenseSchema.safeParse({
+        rentalPropertyId: existing.rentalPropertyId,
+        rentalUnitId: existing.rentalUnitId,
+        vendorId: existing.vendorId,
+        maintenanceRequestId: existing.maintenanceRequestId,
+        category: existing.category,
+        amount: existing.amount,
+        expenseDate: existing.expenseDate,
+        payee: existing.payee,
+        description: existing.description,
+        paymentMethod: existing.paymentMethod,
+        ...req.body,
+      });
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+      const links = await checkExpenseLinks(userId, parsed.data);
+      if ('error' in links) return res.status(400).json({ message: links.error });
+
+      const input = parsed.data;
+      const updated = await storage.updatePropertyExpense(existing.id, userId, {
+        rentalPropertyId: input.rentalPropertyId,
+        rentalUnitId: input.rentalUnitId || null,
+        vendorId: input.vendorId || null,
+        maintenanceRequestId: input.maintenanceRequestId || null,
+        category: input.category,
+        amount: input.amount,
+        expenseDate: input.expenseDate,
+        payee: links.payee,
+        description: input.description || null,
+        paymentMethod: input.paymentMethod || null,
+      });
+      if (!updated) return res.status(404).json({ message: "Expense not found" });
+      res.json(toExpenseResponse(updated));
+    } catch (error) {
+      console.error("Error updating property expense:", error);
+      res.status(500).json({ message: "Failed to update expense" });
+    }
+  });
+
+  app.delete('/api/property-expenses/:id', isAuthenticated, requireAccess, async (req: any, res) => {
+    try {
+      const userId = getUserId(req);
+      const existing = await storage.getPropertyExpense(req.params.id, userId);
+      if (!existing) return res.status(404).json({ message: "Expense not found" });
+      await storage.deletePropertyExpense(existing.id, userId);
+      if (existing.receiptPath) await deleteApplicantObject(existing.receiptPath);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting property expense:", error);
+      res.status(500).json({ message: "Failed to delete expense" });
+    }
+  });
+
+  // ===== Receipts =====
+
+  app.post('/api/property-expenses/:id/receipt', isAuthenticated, requireAccess, singleReceiptUpload, async (req: any, res) => {
+    try {
+      const userId = getUserId(req);
+      const expense = await storage.getPropertyExpense(req.params.id, userId);
+      if (!expense) return res.status(404).json({ message: "Expense not found" });
+      if (!req.file) return res.status(400).json({ message: "No receipt uploaded" });
+
+      const updated = await saveExpenseReceipt(expense, req.file);
+      if (!updated) return res.status(404).json({ message: "Expense not found" });
+      res.status(201).json(toExpenseResponse(updated));
+    } catch (error) {
+      console.error("Error uploading expense receipt:", error);
+      res.status(500).json({ message: "Failed to upload receipt" });
+    }
+  });
+
+  app.get('/api/property-expenses/:id/receipt', isAuthenticated, requireAccess, async (req: any, res) => {
+    try {
+      const userId = getUserId(req);
+      const expense = await storage.getPropertyExpense(req.params.id, userId);
+      if (!expense) return res.status(404).json({ message: "Expense not found" });
+      await sendExpenseReceipt(res, expense);
+    } catch (error) {
+      console.error("Error fetching expense receipt:", error);
+      res.status(500).json({ message: "Failed to fetch receipt" });
+    }
+  });
+
+  app.delete('/api/property-expenses/:id/receipt', isAuthenticated, requireAccess, async (req: any, res) => {
+    try {
+      const userId = getUserId(req);
+      const expense = await storage.getPropertyExpense(req.params.id, userId);
+      if (!expense) return res.status(404).json({ message: "Expense not found" });
+      if (!expense.receiptPath) return res.status(404).json({ message: "Receipt not found" });
+
+      const updated = await storage.updatePropertyExpense(expense.id, userId, {
+        receiptPath: null,
+        receiptFileName: null,
+        receiptContentType: null,
+        receiptSizeBytes: null,
+      });
+      await deleteApplicantObject(expense.receiptPath);
+      res.json(updated ? toExpenseResponse(updated) : null);
+    } catch (error) {
+      console.error("Error deleting expense receipt:", error);
+      res.status(500).json({ message: "Failed to delete receipt" });
+    }
+  });
+}
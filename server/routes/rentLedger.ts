@@ -2,8 +2,91 @@ import type { Express } from "express";
 import path from "path";
 import { storage } from "../storage";
 import { isAuthenticated } from "../jwtAuth";
-import { insertRentLedgerEntrySchema } from "@shared/schema";
+import { z } from "zod";
+import { insertRentLedgerEntrySchema, type RentLedgerEntry, type SavedDocument } from "@shared/schema";
+import {
+  isAllocationRule,
+  ledgerBalance,
+  ledgerPositions,
+  planAllocations,
+  reversalError,
+  withRunningBalances,
+} from "@shared/tenantLedger";
 import { getUserId } from "./_shared";
+import { sendBinaryDownload } from "../utils/download";
+import { generateLedgerStatementDocx, generateLedgerStatementPdf } from "../utils/ledgerStatement";
+import { LEASE_LATE_FEE_SECTION, leaseLateFeeClauseText } from "../utils/leaseAgreementGenerator";
+import { isLeaseAgreementTemplate } from "../utils/savedDocumentRenderer";
+
+const effectiveDateField = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Effective date must be YYYY-MM-DD').optional();
+
+const reverseSchema = z.object({
+  reason: z.string().trim().min(1, 'A reason is required to reverse an entry').max(500),
+  effectiveDate: effectiveDateField,
+});
+
+const nsfSchema = z.object({
+  feeAmount: z.number().int().min(0).max(100000).optional(), // in cents
+  notes: z.string().trim().max(500).optional(),
+  effectiveDate: effectiveDateField,
+});
+
+const adjustSchema = z.object({
+  direction: z.enum(['debit', 'credit']),
+  amount: z.number().int().positive('Adjustment amount must be greater than zero'), // in cents
+  reason: z.string().trim().min(1, 'A reason is required for an adjustment').max(500),
+  effectiveDate: effectiveDateField,
+});
+
+const statementQuerySchema = z.object({
+  format: z.enum(['pdf', 'docx']).default('pdf'),
+  from: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Period start must be YYYY-MM-DD').optional(),
+  to: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Period end must be YYYY-MM-DD').optional(),
+});
+
+async function loadReversible(
+  id: string,
+  userId: string,
+  nsf: boolean,
+): Promise<{ original: RentLedgerEntry } | { status: number; error: string }> {
+  const original = await storage.getRentLedgerEntry(id, userId);
+  if (!original) return { status: 404, error: "Entry not found" };
+  const related = original.tenancyId
+    ? await storage.getRentLedgerEntriesByTenancy(original.tenancyId, userId)
+    : [original];
+  const error = reversalError(original, related, nsf);
+  return error ? { status: 400, error } : { original };
+}
+
+// The tenancy's lease, for quoting its late-fee term: a signed lease first,
+// otherwise the most recent lease saved against the tenancy.
+async function findTenancyLease(tenancyId: string, userId: string): Promise<SavedDocument | null> {
+  const documents = await storage.getSavedDocumentsByTenancy(tenancyId, userId);
+  const leases: SavedDocument[] = [];
+  for (const doc of documents) {
+    const template = await storage.getTemplate(doc.templateId);
+    if (template && isLeaseAgreementTemplate(template)) leases.push(doc);
+  }
+  leases.sort((a, b) =>
+    Number(!!b.signedAt) - Number(!!a.signedAt) ||
+    new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime(),
+  );
+  return leases[0] || null;
+}
+
+// Who and what a correcting entry posts against - always the original's
+// account, never something the caller picks.
+function correctionBase(original: RentLedgerEntry, effectiveDate?: string) {
+  const effective = effectiveDate ? new Date(`${effectiveDate}T00:00:00Z`) : new Date();
+  return {
+    userId: original.userId,
+    propertyId: original.propertyId,
+    tenancyId: original.tenancyId,
+    tenantName: original.tenantName,
+    month: effective.toISOString().slice(0, 7),
+    effectiveDate: effective,
+  };
+}
 
 export async function registerRentLedgerRoutes(app: Express) {
   // Rent Ledger routes
@@ -31,25 +114,26 @@ export async function registerRentLedgerRoutes(app: Express) {
       console.log("📝 Creating rent ledger entry, body:", JSON.stringify(req.body, null, 2));
 
       // Validate property exists and belongs to user if provided
-      // Note: The client uses rentalProperties table, but the rent ledger FK references properties table
-      // We need to check rentalProperties since that's where the UI gets the list
       const propertyId = req.body.propertyId || null;
-      if (propertyId) {
-        console.log("📝 Checking rental property:", propertyId);
-        const rentalProperty = await storage.getRentalPropertyById(propertyId);
-        if (!rentalProperty) {
-          console.error("❌ Rental property not found:", propertyId);
-          return res.status(400).json({ message: "Property not found. Please select a valid property or leave it blank." });
-        }
-        if (rentalProperty.userId !== userId) {
-          console.error("❌ Rental property belongs to different user:", rentalProperty.userId, "vs", userId);
-          return res.status(400).json({ message: "Property not found. Please select a valid property or leave it blank." });
+      if (propertyId && !(await storage.getRentalProperty(propertyId, userId))) {
+        return res.status(400).json({ message: "Property not found. Please select a valid property or leave it blank." });
+      }
+
+      // Validate tenancy ownership if provided. The primary leaseholder's name
+      // fills in tenantName when the caller didn't supply one, and the lease's
+      // property fills in propertyId.
+      let tenancyId: string | null = null;
+      let tenancyTenantName: string | null = null;
+      let tenancyPropertyId: string | null = null;
+      if (req.body.tenancyId) {
+        const tenancy = await storage.getTenancy(req.body.tenancyId, userId);
+        if (!tenancy) {
+          return res.status(400).json({ message: "Lease not found. Please select a valid lease or leave it blank." });
         }
-        console.log("✅ Rental property validated:", rentalProperty.name);
-        // Clear the propertyId since it references the wrong table (properties vs rentalProperties)
-        // The rent ledger FK references the old 'properties' table, but UI uses 'rentalProperties'
-        // For now, we'll store null to avoid FK violation, but log what property was selected
-        console.log("⚠️ Clearing propertyId due to table mismatch - UI uses rentalProperties, DB expects properties");
+        tenancyId = tenancy.id;
+        tenancyPropertyId = tenancy.rentalPropertyId;
+        const occupants = await storage.getTenancyOccupants(tenancy.id);
+        tenancyTenantName = occupants[0]?.fullName || null;
       }
 
       // Auto-generate month from effectiveDate if not provided
@@ -68,14 +152,29 @@ export async function registerRentLedgerRoutes(app: Express) {
         month = `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}`;
       }
 
+      // Only new charges and payments are posted here. Corrections go through
+      // the reverse, NSF and adjust routes so they stay linked to the entry
+      // they correct.
+      const type = req.body.type || 'charge';
+      if (type !== 'charge' && type !== 'payment') {
+        return res.status(400).json({ message: "Only charges and payments can be posted. Reverse or adjust an entry to correct it." });
+      }
+      if (req.body.allocationRule && !isAllocationRule(req.body.allocationRule)) {
+        return res.status(400).json({ message: `Unknown allocation rule: ${req.body.allocationRule}` });
+      }
+
       // Clean up optional fields - convert empty strings to null
-      // Note: propertyId is intentionally set to null because the UI uses rentalProperties table
-      // but the rent ledger FK references the old 'properties' table - table mismatch issue
       const dataToValidate = {
         ...req.body,
+        type,
+        allocationRule: type === 'payment' ? req.body.allocationRule || null : null,
+        reversesEntryId: null,
+        adjustsEntryId: null,
         userId,
         month,
-        propertyId: null, // Intentionally null due to FK/table mismatch - see validation above
+        propertyId: propertyId || tenancyPropertyId,
+        tenancyId,
+        tenantName: req.body.tenantName || tenancyTenantName,
         description: req.body.description || null,
         notes: req.body.notes || null,
         paymentMethod: req.body.paymentMethod || null,
@@ -108,44 +207,250 @@ export async function registerRentLedgerRoutes(app: Express) {
     }
   });
 
-  app.put('/api/rent-ledger/:id', isAuthenticated, async (req: any, res) => {
+  // A tenancy's ledger as an account: entries in ledger order with the running
+  // balance, what each payment paid down, and what is still open.
+  app.get('/api/rent-ledger/tenancies/:tenancyId', isAuthenticated, async (req: any, res) => {
     try {
       const userId = getUserId(req);
-      if (!userId) {
-        return res.status(401).json({ message: "Unauthorized" });
+      const tenancy = await storage.getTenancy(req.params.tenancyId, userId);
+      if (!tenancy) {
+        return res.status(404).json({ message: "Lease not found" });
       }
+      const [entries, allocations] = await Promise.all([
+        storage.getRentLedgerEntriesByTenancy(tenancy.id, userId),
+        storage.getRentLedgerAllocationsByTenancy(tenancy.id, userId),
+      ]);
+      const active = allocations.filter((a) => !a.releasedAt);
+      // Entries posted before allocation existed have none stored yet; show
+      // them as the next posting will allocate them.
+      const pending = planAllocations(entries, active);
+      const { openDebits, unappliedCredits } = ledgerPositions(entries, [...active, ...pending]);
 
-      const validated = insertRentLedgerEntrySchema.parse({
-        ...req.body,
-        userId,
+      let unappliedCredit = 0;
+      unappliedCredits.forEach((amount) => { unappliedCredit += amount; });
+      const openCharges: { entryId: string; open: number }[] = [];
+      openDebits.forEach((open, entryId) => {
+        if (open > 0) openCharges.push({ entryId, open });
       });
 
-      const updated = await storage.updateRentLedgerEntry(req.params.id, userId, validated);
-      if (!updated) {
-        return res.status(404).json({ message: "Entry not found" });
+      res.json({
+        tenancyId: tenancy.id,
+        balance: ledgerBalance(entries),
+        unappliedCredit,
+        entries: withRunningBalances(entries),
+        allocations: [...active, ...pending],
+        openCharges,
+      });
+    } catch (error) {
+      console.error("Error fetching tenancy ledger:", error);
+      res.status(500).json({ message: "Failed to fetch ledger" });
+    }
+  });
+
+  // Statement of account for a nonpayment filing, as PDF or DOCX. `from` and
+  // `to` (YYYY-MM-DD) bound the period; earlier activity becomes the opening
+  // balance.
+  app.get('/api/rent-ledger/tenancies/:tenancyId/statement', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = getUserId(req);
+      const parsed = statementQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+      const { format, from } = parsed.data;
+      const to = parsed.data.to || new Date().toISOString().slice(0, 10);
+      if (from && from > to) {
+        return res.status(400).json({ message: "The statement period must start before it ends" });
+      }
+
+      const tenancy = await storage.getTenancy(req.params.tenancyId, userId);
+      if (!tenancy) {
+        return res.status(404).json({ message: "Lease not found" });
+      }
+      const [entries, occupants, lease, user] = await Promise.all([
+        storage.getRentLedgerEntriesByTenancy(tenancy.id, userId),
+        storage.getTenancyOccupants(tenancy.id),
+        findTenancyLease(tenancy.id, userId),
+        storage.getUser(userId),
+      ]);
+      const property = tenancy.rentalPropertyId
+        ? await storage.getRentalProperty(tenancy.rentalPropertyId, userId)
+        : null;
+      const unit = tenancy.rentalUnitId ? await storage.getRentalUnit(tenancy.rentalUnitId) : null;
+      const premisesAddress = [
+        property?.address || property?.name,
+        unit?.unitLabel,
+        [property?.city, property?.state].filter(Boolean).join(', '),
+        property?.zipCode,
+      ].filter(Boolean).join(', ') || 'the rental premises';
+      const landlordName = user?.firstName && user?.lastName
+        ? `${user.firstName} ${user.lastName}`
+        : user?.businessName || 'Landlord';
+      const formatDay = (d: string) => new Date(`${d}T00:00:00Z`).toLocaleDateString('en-US', {
+        year: 'numeric', month: 'long', day: 'numeric', timeZone: 'UTC',
+      });
+
+      const options = {
+        entries,
+        tenantNames: occupants.filter((o) => o.role === 'tenant').map((o) => o.fullName),
+        premisesAddress,
+        landlordName,
+        stateId: property?.state || null,
+        leaseTerm: `${formatDay(tenancy.startDate)} to ${tenancy.endDate ? formatDay(tenancy.endDate) : 'month-to-month'}`,
+        monthlyRent: tenancy.monthlyRent,
+        periodFrom: from || null,
+        periodTo: to,
+        lateFeeAuthority: lease
+          ? {
+              section: LEASE_LATE_FEE_SECTION,
+              text: leaseLateFeeClauseText(lease.formData as Record<string, string>),
+              leaseName: lease.signedAt
+                ? `${lease.documentName} (signed ${lease.signedAt.toISOString().slice(0, 10)})`
+                : lease.documentName,
+            }
+          : null,
+      };
+      const filename = `statement-of-account-${to}.${format}`;
+      if (format === 'docx') {
+        sendBinaryDownload(res, {
+          buffer: await generateLedgerStatementDocx(options),
+          filename,
+          contentType: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+        });
+      } else {
+        sendBinaryDownload(res, {
+          buffer: await generateLedgerStatementPdf(options),
+          filename,
+          contentType: "application/pdf",
+        });
       }
-      res.json(updated);
     } catch (error) {
-      console.error("Error updating rent ledger entry:", error);
-      res.status(500).json({ message: "Failed to update entry" });
+      console.error("Error generating statement of account:", error);
+      res.status(500).json({ message: "Failed to generate statement of account" });
     }
   });
 
-  app.delete('/api/rent-ledger/:id', isAuthenticated, async (req: any, res) => {
+  // Posted entries are immutable - there is no edit or delete. A mistake is
+  // reversed in full, a bounced payment is returned NSF, and anything else is
+  // corrected with an adjusting entry.
+  app.post('/api/rent-ledger/:id/reverse', isAuthenticated, async (req: any, res) => {
     try {
       const userId = getUserId(req);
-      if (!userId) {
-        return res.status(401).json({ message: "Unauthorized" });
+      const parsed = reverseSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
       }
+      const loaded = await loadReversible(req.params.id, userId, false);
+      if ('error' in loaded) {
+        return res.status(loaded.status).json({ message: loaded.error });
+      }
+      const { original } = loaded;
+      const label = original.description || original.category || "entry";
+      const result = await storage.reverseRentLedgerEntryInTransaction(original.id, {
+        ...correctionBase(original, parsed.data.effectiveDate),
+        type: 'reversal',
+        category: original.category,
+        description: `Reversal of ${label}`,
+        amountExpected: original.amountReceived || 0,
+        amountReceived: original.amountExpected,
+        paymentMethod: original.paymentMethod,
+        referenceNumber: original.referenceNumber,
+        notes: parsed.data.reason,
+      });
+      if (!result) {
+        return res.status(409).json({ message: "This entry has already been reversed" });
+      }
+      res.json(result.reversal);
+    } catch (error) {
+      console.error("Error reversing rent ledger entry:", error);
+      res.status(500).json({ message: "Failed to reverse entry" });
+    }
+  });
 
-      const deleted = await storage.deleteRentLedgerEntry(req.params.id, userId);
-      if (!deleted) {
+  // The bank returned a payment: post the returned amount back as owed and,
+  // optionally, the returned-payment fee the lease allows.
+  app.post('/api/rent-ledger/:id/nsf', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = getUserId(req);
+      const parsed = nsfSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+      const loaded = await loadReversible(req.params.id, userId, true);
+      if ('error' in loaded) {
+        return res.status(loaded.status).json({ message: loaded.error });
+      }
+      const { original } = loaded;
+      const base = correctionBase(original, parsed.data.effectiveDate);
+      const ref = original.referenceNumber ? ` (ref ${original.referenceNumber})` : "";
+      const feeAmount = parsed.data.feeAmount || 0;
+
+      const result = await storage.reverseRentLedgerEntryInTransaction(
+        original.id,
+        {
+          ...base,
+          type: 'nsf_return',
+          category: 'NSF Return',
+          description: `Returned payment${ref}`,
+          amountExpected: original.amountReceived || 0,
+          amountReceived: 0,
+          paymentMethod: original.paymentMethod,
+          referenceNumber: original.referenceNumber,
+          notes: parsed.data.notes || null,
+        },
+        feeAmount > 0
+          ? {
+              ...base,
+              type: 'charge',
+              category: 'NSF Fee',
+              description: `Returned payment fee${ref}`,
+              amountExpected: feeAmount,
+              amountReceived: 0,
+              paymentMethod: null,
+              referenceNumber: null,
+              notes: null,
+            }
+          : undefined,
+      );
+      if (!result) {
+        return res.status(409).json({ message: "This payment has already been reversed" });
+      }
+      res.json(result);
+    } catch (error) {
+      console.error("Error recording returned payment:", error);
+      res.status(500).json({ message: "Failed to record returned payment" });
+    }
+  });
+
+  app.post('/api/rent-ledger/:id/adjust', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = getUserId(req);
+      const parsed = adjustSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+      const original = await storage.getRentLedgerEntry(req.params.id, userId);
+      if (!original) {
         return res.status(404).json({ message: "Entry not found" });
       }
-      res.json({ success: true });
+      const { direction, amount, reason } = parsed.data;
+      const label = original.description || original.category || "entry";
+      const entry = await storage.createRentLedgerEntry({
+        ...correctionBase(original, parsed.data.effectiveDate),
+        type: 'adjustment',
+        category: original.category,
+        description: `Adjustment to ${label}`,
+        amountExpected: direction === 'debit' ? amount : 0,
+        amountReceived: direction === 'credit' ? amount : 0,
+        paymentMethod: null,
+        referenceNumber: null,
+        notes: reason,
+        adjustsEntryId: original.id,
+      });
+      res.json(entry);
     } catch (error) {
-      console.error("Error deleting rent ledger entry:", error);
-      res.status(500).json({ message: "Failed to delete entry" });
+      console.error("Error adjusting rent ledger entry:", error);
+      res.status(500).json({ message: "Failed to post adjustment" });
     }
   });
 }
@@ -11,20 +11,31 @@ import {
   PLATFORM_FEE_CENTS,
   MAX_SERVICE_FEE_CENTS,
   MIN_SERVICE_FEE_CENTS,
-  DEFAULT_SERVICE_FEE_CENTS,
   computeRentFees,
+  resolveDefaultServiceFeeCents,
   type ServiceFeePayer,
 } from "../rentFees";
-
-// Resolve a landlord's effective default service fee in cents. Treats any
-// stored value below MIN_SERVICE_FEE_CENTS (including 0 from legacy rows
-// where the toggle was off) as "use the platform default".
-function resolveDefaultServiceFeeCents(stored: number | null | undefined): number {
-  const v = stored ?? 0;
-  return v >= MIN_SERVICE_FEE_CENTS ? v : DEFAULT_SERVICE_FEE_CENTS;
-}
+import { effectiveLateFeePolicy } from "@shared/lateFeePolicy";
+import {
+  checkLateFeePolicyForState,
+  getLateFeeStateLimits,
+  readLateFeePolicy,
+  resolveRentRequestState,
+} from "../utils/lateFeeEngine";
 
 export async function registerRentPaymentsRoutes(app: Express) {
+  // State late-fee limits (cap + minimum grace) so the request form can show
+  // them before the landlord saves a policy the server would reject.
+  app.get('/api/rent-payments/late-fee-limits/:stateId', isAuthenticated, async (req: any, res) => {
+    try {
+      const limits = await getLateFeeStateLimits(String(req.params.stateId).slice(0, 2));
+      res.json(limits);
+    } catch (error) {
+      console.error('Error fetching late fee limits:', error);
+      res.status(500).json({ message: 'Failed to fetch late fee limits' });
+    }
+  });
+
   // ----- Landlord fee settings (defaults applied when creating new requests) -----
   app.get('/api/rent-payments/fee-settings', isAuthenticated, async (req: any, res) => {
     try {
@@ -143,14 +154,32 @@ export async function registerRentPaymentsRoutes(app: Express) {
       if (!amount || amount < 100) {
         return res.status(400).json({ message: 'Amount must be at least $1.00' });
       }
-      if (!body.tenantName || !body.dueDate) {
+
+      // Validate tenancy ownership if provided. A tenancy supplies defaults
+      // for the property and primary tenant so the landlord doesn't retype them.
+      let tenancyId: string | null = null;
+      let tenancyPropertyId: string | null = null;
+      let tenancyTenant: { fullName: string; email: string | null } | null = null;
+      if (body.tenancyId) {
+        const tenancy = await storage.getTenancy(body.tenancyId, userId);
+        if (!tenancy) {
+          return res.status(400).json({ message: 'Invalid lease' });
+        }
+        tenancyId = tenancy.id;
+        tenancyPropertyId = tenancy.rentalPropertyId;
+        const occupants = await storage.getTenancyOccupants(tenancy.id);
+        tenancyTenant = occupants[0] || null;
+      }
+      const tenantName = body.tenantName || tenancyTenant?.fullName;
+      if (!tenantName || !body.dueDate) {
         return res.status(400).json({ message: 'tenantName and dueDate are required' });
       }
 
       // Validate property ownership if provided
       let rentalPropertyId: string | null = null;
-      if (body.rentalPropertyId) {
-        const p = await storage.getRentalPropertyById(body.rentalPropertyId);
+      const requestedPropertyId = body.rentalPropertyId || tenancyPropertyId;
+      if (requestedPropertyId) {
+        const p = await storage.getRentalPropertyById(requestedPropertyId);
         if (!p || p.userId !== userId) {
           return res.status(400).json({ message: 'Invalid property' });
         }
@@ -174,18 +203,32 @@ export async function registerRentPaymentsRoutes(app: Express) {
       const serviceFeeAmount = requestedCents;
 
       const requestType = body.requestType === 'application_fee' ? 'application_fee' : 'rent';
+      const gracePeriodDays = Number.isFinite(parseInt(body.gracePeriodDays)) ? parseInt(body.gracePeriodDays) : 5;
+
+      const { policy: lateFeePolicy, error: policyError } = readLateFeePolicy(body);
+      if (policyError) return res.status(400).json({ message: policyError });
+      // Refuse policies that could exceed the state's late-fee cap or charge
+      // inside its minimum grace period.
+      const lateFeeError = await checkLateFeePolicyForState(
+        effectiveLateFeePolicy({ lateFeePolicyJson: lateFeePolicy, lateFeeAmount }),
+        { rentCents: amount, graceDays: gracePeriodDays, stateId: await resolveRentRequestState({ rentalPropertyId, tenancyId }) },
+      );
+      if (lateFeeError) return res.status(400).json({ message: lateFeeError });
 
       const insertData = {
         userId,
         rentalPropertyId,
-        tenantName: String(body.tenantName).trim(),
-        tenantEmail: body.tenantEmail ? String(body.tenantEmail).trim() : null,
+        tenancyId,
+        tenantName: String(tenantName).trim(),
+        tenantEmail: body.tenantEmail
+          ? String(body.tenantEmail).trim()
+          : (tenancyTenant?.email || null),
         amount,
         dueDate: body.dueDate,
         description: body.description || null,
         requestType,
-        lateFeeAmount,
-        gracePeriodDays: Number.isFinite(parseInt(body.gracePeriodDays)) ? parseInt(body.gracePeriodDays) : 5,
+        lateFeeAmount: lateFeePolicy?.type === 'flat' ? lateFeePolicy.amountCents : lateFeeAmount,
+        gracePeriodDays,
         reminderDaysBefore: Number.isFinite(parseInt(body.reminderDaysBefore)) ? parseInt(body.reminderDaysBefore) : 5,
         serviceFeeAmount,
         serviceFeePayer,
@@ -193,7 +236,13 @@ export async function registerRentPaymentsRoutes(app: Express) {
       };
       const validated = insertRentPaymentRequestSchema.parse(insertData);
       const publicToken = crypto.randomBytes(24).toString('hex');
-      const created = await storage.createRentPaymentRequest({ ...validated, publicToken });
+      // The policy was already validated by parseLateFeePolicy; keep its
+      // precise type rather than the schema's generic JSON.
+      const created = await storage.createRentPaymentRequest({
+        ...validated,
+        lateFeePolicyJson: lateFeePolicy ?? null,
+        publicToken,
+      });
 
       const baseUrl = getAppBaseUrl(req);
       res.json({ ...created, paymentLink: `${baseUrl}/pay-rent/${publicToken}` });
@@ -264,6 +313,12 @@ export async function registerRentPaymentsRoutes(app: Express) {
         }
         updates.gracePeriodDays = g;
       }
+      if (body.lateFeePolicy !== undefined) {
+        const { policy, error } = readLateFeePolicy(body);
+        if (error) return res.status(400).json({ message: error });
+        updates.lateFeePolicyJson = policy ?? null;
+        if (policy?.type === 'flat') updates.lateFeeAmount = policy.amountCents;
+      }
       if (body.reminderDaysBefore !== undefined) {
         const r = parseInt(body.reminderDaysBefore);
         if (!Number.isFinite(r) || r < 0) {
@@ -302,6 +357,18 @@ export async function registerRentPaymentsRoutes(app: Express) {
         return res.status(400).json({ message: 'No changes provided' });
       }
 
+      // Re-check the resulting late-fee terms against the state cap whenever
+      // anything that feeds the calculation changed.
+      if (['amount', 'lateFeeAmount', 'lateFeePolicyJson', 'gracePeriodDays', 'rentalPropertyId'].some((k) => k in updates)) {
+        const merged = { ...existing, ...updates };
+        const lateFeeError = await checkLateFeePolicyForState(effectiveLateFeePolicy(merged), {
+          rentCents: merged.amount - existing.lateFeeAssessedAmount,
+          graceDays: merged.gracePeriodDays,
+          stateId: await resolveRentRequestState(merged),
+        });
+        if (lateFeeError) return res.status(400).json({ message: lateFeeError });
+      }
+
       // If amount, due date, OR fee config changed, expire any open checkout
       // session so the tenant can't complete payment against the old terms or
       // pay the wrong total.
@@ -402,6 +469,7 @@ export async function registerRentPaymentsRoutes(app: Express) {
           paymentLink: `${baseUrl}/pay-rent/${r.publicToken}`,
           lateFeeDollars: r.lateFeeAmount > 0 ? (r.lateFeeAmount / 100).toFixed(2) : undefined,
           gracePeriodDays: r.gracePeriodDays,
+          requestType: r.requestType,
         }
       );
       if (sent) {
@@ -460,11 +528,9 @@ export async function registerRentPaymentsRoutes(app: Express) {
       const r = await storage.getRentPaymentRequestByToken(req.params.token);
       if (!r) return res.status(404).json({ message: 'Payment request not found' });
       if (r.status === 'paid') return res.status(400).json({ message: 'This rent has already been paid' });
-      // Note: a `canceled` status is reserved in the schema for future
-      // soft-cancel semantics. Today, deletion is a hard delete (the row is
-      // removed via DELETE /api/rent-payments/:id), so a canceled request
-      // would 404 above before reaching this check. The branch is kept as a
-      // defensive guard for the future when soft-cancel is introduced.
+      // Deletion is a hard delete (the row is removed via DELETE
+      // /api/rent-payments/:id), so a deleted request 404s above. `canceled`
+      // is set on holding deposits whose approval expired unpaid.
       if (r.status === 'canceled') return res.status(400).json({ message: 'This payment request has been canceled' });
       if (r.status === 'processing') {
         return res.status(409).json({
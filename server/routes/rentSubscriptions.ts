@@ -5,6 +5,8 @@ import { isAuthenticated } from "../jwtAuth";
 import { emailService } from "../emailService";
 import { getAppBaseUrl } from "../utils/appUrl";
 import { stripe, getUserId } from "./_shared";
+import { effectiveLateFeePolicy } from "@shared/lateFeePolicy";
+import { checkLateFeePolicyForState, readLateFeePolicy, resolveRentRequestState } from "../utils/lateFeeEngine";
 
 // NACHA-compliant mandate disclosure template. Snapshotted onto each mandate
 // at acceptance time so wording changes never alter prior authorizations.
@@ -88,32 +90,62 @@ export async function registerRentSubscriptionsRoutes(app: Express) {
       if (!amount || amount < 100) {
         return res.status(400).json({ message: 'Amount must be at least $1.00' });
       }
-      if (!body.tenantName || !body.tenantEmail || !body.startDate) {
+
+      // Validate tenancy ownership if provided; it supplies defaults for the
+      // tenant, property and due day.
+      let tenancy: Awaited<ReturnType<typeof storage.getTenancy>> = undefined;
+      let tenancyTenant: { fullName: string; email: string | null } | null = null;
+      if (body.tenancyId) {
+        tenancy = await storage.getTenancy(body.tenancyId, userId);
+        if (!tenancy) {
+          return res.status(400).json({ message: 'Invalid lease' });
+        }
+        const occupants = await storage.getTenancyOccupants(tenancy.id);
+        tenancyTenant = occupants[0] || null;
+      }
+      const tenantName = body.tenantName || tenancyTenant?.fullName;
+      const tenantEmail = body.tenantEmail || tenancyTenant?.email;
+      if (!tenantName || !tenantEmail || !body.startDate) {
         return res.status(400).json({ message: 'tenantName, tenantEmail and startDate are required' });
       }
-      const dayOfMonth = Math.min(28, Math.max(1, parseInt(body.dayOfMonth ?? '1', 10) || 1));
+      const dayOfMonth = Math.min(28, Math.max(1, parseInt(body.dayOfMonth ?? String(tenancy?.rentDueDay ?? 1), 10) || 1));
       const gracePeriodDays = Math.max(0, parseInt(body.gracePeriodDays ?? '5', 10) || 0);
 
       // Validate property ownership if provided
       let rentalPropertyId: string | null = null;
-      if (body.rentalPropertyId) {
-        const p = await storage.getRentalPropertyById(body.rentalPropertyId);
+      const requestedPropertyId = body.rentalPropertyId || tenancy?.rentalPropertyId;
+      if (requestedPropertyId) {
+        const p = await storage.getRentalPropertyById(requestedPropertyId);
         if (!p || p.userId !== userId) {
           return res.status(400).json({ message: 'Invalid property' });
         }
         rentalPropertyId = p.id;
       }
 
+      const { policy: lateFeePolicy, error: policyError } = readLateFeePolicy(body);
+      if (policyError) return res.status(400).json({ message: policyError });
+      const lateFeeError = await checkLateFeePolicyForState(
+        effectiveLateFeePolicy({ lateFeePolicyJson: lateFeePolicy, lateFeeAmount }),
+        {
+          rentCents: amount,
+          graceDays: gracePeriodDays,
+          stateId: await resolveRentRequestState({ rentalPropertyId, tenancyId: tenancy?.id || null }),
+        },
+      );
+      if (lateFeeError) return res.status(400).json({ message: lateFeeError });
+
       const created = await storage.createRentSubscription({
         userId,
         rentalPropertyId,
-        tenantName: String(body.tenantName).trim(),
-        tenantEmail: String(body.tenantEmail).trim().toLowerCase(),
+        tenancyId: tenancy?.id || null,
+        tenantName: String(tenantName).trim(),
+        tenantEmail: String(tenantEmail).trim().toLowerCase(),
         amount,
         dayOfMonth,
         startDate: body.startDate,
         endDate: body.endDate || null,
-        lateFeeAmount,
+        lateFeeAmount: lateFeePolicy?.type === 'flat' ? lateFeePolicy.amountCents : lateFeeAmount,
+        lateFeePolicyJson: lateFeePolicy ?? null,
         gracePeriodDays,
         description: body.description ? String(body.description).trim() : null,
         publicToken: generateToken(),
@@ -202,7 +234,7 @@ export async function registerRentSubscriptionsRoutes(app: Express) {
       }
 
       // Amount / fee / day-of-month edits - only allowed pre-authorization or while paused
-      const editFields: string[] = ['amountDollars', 'lateFeeDollars', 'dayOfMonth', 'gracePeriodDays', 'endDate', 'description'];
+      const editFields: string[] = ['amountDollars', 'lateFeeDollars', 'lateFeePolicy', 'dayOfMonth', 'gracePeriodDays', 'endDate', 'description'];
       const wantsEdit = editFields.some((k) => body[k] !== undefined);
       if (wantsEdit) {
         if (sub.status === 'active') {
@@ -218,6 +250,12 @@ export async function registerRentSubscriptionsRoutes(app: Express) {
         if (body.lateFeeDollars !== undefined) {
           updates.lateFeeAmount = Math.max(0, Math.round(parseFloat(body.lateFeeDollars) * 100));
         }
+        if (body.lateFeePolicy !== undefined) {
+          const { policy, error } = readLateFeePolicy(body);
+          if (error) return res.status(400).json({ message: error });
+          updates.lateFeePolicyJson = policy ?? null;
+          if (policy?.type === 'flat') updates.lateFeeAmount = policy.amountCents;
+        }
         if (body.dayOfMonth !== undefined) {
           updates.dayOfMonth = Math.min(28, Math.max(1, parseInt(body.dayOfMonth, 10) || 1));
         }
@@ -236,6 +274,16 @@ export async function registerRentSubscriptionsRoutes(app: Express) {
         return res.status(400).json({ message: 'No valid updates provided' });
       }
 
+      if (['amount', 'lateFeeAmount', 'lateFeePolicyJson', 'gracePeriodDays'].some((k) => k in updates)) {
+        const merged = { ...sub, ...updates };
+        const lateFeeError = await checkLateFeePolicyForState(effectiveLateFeePolicy(merged), {
+          rentCents: merged.amount,
+          graceDays: merged.gracePeriodDays,
+          stateId: await resolveRentRequestState(merged),
+        });
+        if (lateFeeError) return res.status(400).json({ message: lateFeeError });
+      }
+
       const updated = await storage.updateRentSubscription(sub.id, updates);
       res.json(updated);
     } catch (error: any) {
@@ -0,0 +1,69 @@
+import type { Express } from "express";
+import { storage } from "../storage";
+import { isAuthenticated, requireAccess } from "../jwtAuth";
+import { getUserId } from "./_shared";
+import { unitApplicantQueue } from "../utils/applicantQueue";
+
+// Events that show the order applications for a unit were processed in.
+const QUEUE_AUDIT_EVENTS = ['decision_approved', 'decision_denied', 'waitlisted'];
+
+export async function registerRentalApplicantQueueRoutes(app: Express) {
+  // Completed applications for a unit in the order they came in, with each
+  // one's decision and the decision/waitlist history across the queue.
+  app.get('/api/rental/units/:unitId/queue', isAuthenticated, requireAccess, async (req: any, res) => {
+    try {
+      const unit = await storage.getRentalUnit(req.params.unitId);
+      const property = unit ? await storage.getRentalProperty(unit.propertyId, getUserId(req)) : undefined;
+      if (!unit || !property) {
+        return res.status(404).json({ message: "Unit not found" });
+      }
+
+      const queue = await unitApplicantQueue(unit.id);
+      const [people, events] = await Promise.all([
+        Promise.all(queue.map((e) => storage.getRentalSubmissionPeople(e.submission.id))),
+        Promise.all(queue.map((e) => storage.getRentalApplicationEvents(e.submission.id))),
+      ]);
+
+      const entries = queue.map((entry, i) => {
+        const applicant = people[i].find((p) => p.role === 'applicant');
+        return {
+          submissionId: entry.submission.id,
+          position: entry.position,
+          submittedAt: entry.submission.submittedAt,
+          status: entry.submission.status,
+          waitlistedAt: entry.submission.waitlistedAt,
+          applicantName: applicant
+            ? [applicant.firstName, applicant.lastName].filter(Boolean).join(' ') || applicant.email
+            : null,
+          decision: entry.decision?.decision ?? null,
+          decidedAt: entry.decision?.decidedAt ?? null,
+        };
+      });
+
+      const auditTrail = queue
+        .flatMap((entry, i) => events[i]
+          .filter((e) => QUEUE_AUDIT_EVENTS.includes(e.eventType))
+          .map((e) => ({
+            id: e.id,
+            submissionId: entry.submission.id,
+            position: entry.position,
+            eventType: e.eventType,
+            metadata: e.metadataJson,
+            createdAt: e.createdAt,
+          })))
+        .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+
+      res.json({
+        unitId: unit.id,
+        unitLabel: unit.unitLabel,
+        propertyName: property.name,
+        policy: property.applicantQueuePolicy,
+        entries,
+        auditTrail,
+      });
+    } catch (error) {
+      console.error("Error getting applicant queue:", error);
+      res.status(500).json({ message: "Failed to get applicant queue" });
+    }
+  });
+}
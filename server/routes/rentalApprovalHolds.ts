@@ -0,0 +1,75 @@
+import type { Express } from "express";
+import { storage } from "../storage";
+import { isAuthenticated, requireAccess } from "../jwtAuth";
+import { getActingUserId, getUserId } from "./_shared";
+import { approvalHoldStatus } from "@shared/approvalHold";
+import { getOwnedSubmission } from "../utils/rentalSubmissions";
+import { checkApprovalHold, holdingDepositLink, leaseSignedAt } from "../utils/approvalHold";
+import { getAppBaseUrl } from "../utils/appUrl";
+
+export async function registerRentalApprovalHoldRoutes(app: Express) {
+  // Countdown for an approval: the deadline, whether the lease is signed and
+  // where the holding deposit stands.
+  app.get('/api/rental/submissions/:id/approval-hold', isAuthenticated, requireAccess, async (req: any, res) => {
+    try {
+      const owned = await getOwnedSubmission(req.params.id, getUserId(req));
+      if (!owned) {
+        return res.status(404).json({ message: "Submission not found" });
+      }
+      const decision = await storage.getRentalDecision(owned.submission.id);
+      if (!decision || decision.decision !== 'approved') {
+        return res.status(404).json({ message: "This application hasn't been approved" });
+      }
+
+      const [signedAt, deposit] = await Promise.all([
+        leaseSignedAt(decision, owned.property),
+        decision.holdingDepositRequestId ? storage.getRentPaymentRequestById(decision.holdingDepositRequestId) : undefined,
+      ]);
+      res.json({
+        status: approvalHoldStatus(decision),
+        leaseSignDeadlineAt: decision.leaseSignDeadlineAt,
+        leaseSignedAt: signedAt,
+        holdCompletedAt: decision.holdCompletedAt,
+        holdExpiredAt: decision.holdExpiredAt,
+        pausedApplicationLinkCount: decision.pausedApplicationLinkIds?.length ?? 0,
+        holdingDeposit: deposit ? {
+          id: deposit.id,
+          amount: deposit.amount,
+          status: deposit.status,
+          paidAt: deposit.paidAt,
+          paymentLink: holdingDepositLink(deposit, getAppBaseUrl(req)),
+        } : null,
+      });
+    } catch (error) {
+      console.error("Error getting approval hold:", error);
+      res.status(500).json({ message: "Failed to get approval hold" });
+    }
+  });
+
+  // For leases signed outside the e-signature flow (on paper, or elsewhere).
+  app.post('/api/rental/submissions/:id/approval-hold/lease-signed', isAuthenticated, requireAccess, async (req: any, res) => {
+    try {
+      const userId = getUserId(req);
+      const owned = await getOwnedSubmission(req.params.id, userId);
+      if (!owned) {
+        return res.status(404).json({ message: "Submission not found" });
+      }
+      const decision = await storage.getRentalDecision(owned.submission.id);
+      if (!decision || approvalHoldStatus(decision) !== 'pending') {
+        return res.status(400).json({ message: "There's no open lease signing deadline for this application" });
+      }
+
+      const updated = await storage.updateRentalDecision(decision.id, { leaseSignedAt: new Date() });
+      await storage.logRentalApplicationEvent({
+        submissionId: owned.submission.id,
+        eventType: 'lease_signed_marked',
+        metadataJson: { decisionId: decision.id, markedBy: getActingUserId(req) },
+      });
+      const status = await checkApprovalHold(updated || decision, owned);
+      res.json({ status });
+    } catch (error) {
+      console.error("Error marking lease signed:", error);
+      res.status(500).json({ message: "Failed to mark lease signed" });
+    }
+  });
+}
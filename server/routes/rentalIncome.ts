@@ -0,0 +1,202 @@
+import type { Express } from "express";
+import { z } from "zod";
+import { storage } from "../storage";
+import { isAuthenticated, requireAccess } from "../jwtAuth";
+import { getUserId } from "./_shared";
+import {
+  householdIncome,
+  INCOME_DOCUMENT_FILE_TYPES,
+  INCOME_SOURCE_TYPES,
+  PAY_FREQUENCIES,
+  parseIncomeText,
+} from "@shared/incomeVerification";
+import { getOwnedSubmission } from "../utils/rentalSubmissions";
+import { incomeRequirement, recordHouseholdIncome } from "../utils/incomeVerification";
+
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Dates must be YYYY-MM-DD');
+const sourceTypes = INCOME_SOURCE_TYPES.map((t) => t.value) as [string, ...string[]];
+const payFrequencies = PAY_FREQUENCIES.map((f) => f.value) as [string, ...string[]];
+
+const incomeSourceSchema = z.object({
+  personId: z.string().min(1),
+  sourceType: z.enum(sourceTypes),
+  payerName: z.string().max(200).nullable().optional(),
+  payFrequency: z.enum(payFrequencies),
+  grossAmountCents: z.number().int().positive().max(100_000_000),
+  startDate: isoDate.nullable().optional(),
+  documentFileId: z.string().nullable().optional(),
+  verified: z.boolean().optional(),
+});
+
+// "MM/YYYY" from the application's employment step
+function monthYearToDate(value: unknown): string | null {
+  if (typeof value !== 'string') return null;
+  const match = value.match(/^(\d{2})\/(\d{4})$/);
+  return match ? `${match[2]}-${match[1]}-01` : null;
+}
+
+export async function registerRentalIncomeRoutes(app: Express) {
+  // Everyone's income sources, the documents that can back them, and the
+  // household total against the rent-to-income requirement.
+  app.get('/api/rental/submissions/:id/income', isAuthenticated, requireAccess, async (req: any, res) => {
+    try {
+      const owned = await getOwnedSubmission(req.params.id, getUserId(req));
+      if (!owned) {
+        return res.status(404).json({ message: "Submission not found" });
+      }
+      const { submission, unit, property } = owned;
+      const [people, sources, requirement] = await Promise.all([
+        storage.getRentalSubmissionPeople(submission.id),
+        storage.getRentalIncomeSources(submission.id),
+        incomeRequirement(submission, unit, property),
+      ]);
+      const files = (await Promise.all(people.map((p) => storage.getCurrentFiles(p.id)))).flat();
+
+      res.json({
+        people: people.map((p) => ({
+          id: p.id,
+          role: p.role,
+          name: [p.firstName, p.lastName].filter(Boolean).join(' ') || p.email,
+        })),
+        sources,
+        documents: files
+          .filter((f) => INCOME_DOCUMENT_FILE_TYPES.includes(f.fileType))
+          .map((f) => ({ id: f.id, personId: f.personId, fileType: f.fileType, originalName: f.originalName })),
+        requirement,
+        result: householdIncome(sources, requirement.rentCents, requirement.incomeMultiple),
+        checkedAt: submission.incomeCheckedAt,
+      });
+    } catch (error) {
+      console.error("Error getting income verification:", error);
+      res.status(500).json({ message: "Failed to get income verification" });
+    }
+  });
+
+  app.post('/api/rental/submissions/:id/income/sources', isAuthenticated, requireAccess, async (req: any, res) => {
+    try {
+      const owned = await getOwnedSubmission(req.params.id, getUserId(req));
+      if (!owned) {
+        return res.status(404).json({ message: "Submission not found" });
+      }
+      const parsed = incomeSourceSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+      const { verified, ...data } = parsed.data;
+
+      const people = await storage.getRentalSubmissionPeople(owned.submission.id);
+      if (!people.some((p) => p.id === data.personId)) {
+        return res.status(400).json({ message: "That person isn't on this application" });
+      }
+      if (data.documentFileId) {
+        const file = await storage.getRentalSubmissionFile(data.documentFileId);
+        if (!file || !people.some((p) => p.id === file.personId)) {
+          return res.status(400).json({ message: "That document isn't part of this application" });
+        }
+      }
+
+      const source = await storage.createRentalIncomeSource({
+        ...data,
+        submissionId: owned.submission.id,
+        payerName: data.payerName || null,
+        startDate: data.startDate || null,
+        documentFileId: data.documentFileId || null,
+        origin: 'entered',
+        verifiedAt: verified ? new Date() : null,
+      });
+      const { result } = await recordHouseholdIncome(owned.submission, owned.unit, owned.property);
+      res.status(201).json({ source, result });
+    } catch (error) {
+      console.error("Error adding income source:", error);
+      res.status(500).json({ message: "Failed to add income source" });
+    }
+  });
+
+  // Pull each person's stated monthly income from their application. Skips
+  // people who already have an imported source.
+  app.post('/api/rental/submissions/:id/income/import', isAuthenticated, requireAccess, async (req: any, res) => {
+    try {
+      const owned = await getOwnedSubmission(req.params.id, getUserId(req));
+      if (!owned) {
+        return res.status(404).json({ message: "Submission not found" });
+      }
+      const [people, existing] = await Promise.all([
+        storage.getRentalSubmissionPeople(owned.submission.id),
+        storage.getRentalIncomeSources(owned.submission.id),
+      ]);
+
+      let imported = 0;
+      for (const person of people) {
+        if (existing.some((s) => s.personId === person.id && s.origin === 'application')) continue;
+        const form = (person.formJson || {}) as Record<string, any>;
+        const grossAmountCents = parseIncomeText(form.monthlyIncome);
+        if (!grossAmountCents || form.notCurrentlyEmployed) continue;
+        await storage.createRentalIncomeSource({
+          submissionId: owned.submission.id,
+          personId: person.id,
+          sourceType: 'employment',
+          payerName: form.employer || null,
+          payFrequency: 'monthly',
+          grossAmountCents,
+          startDate: monthYearToDate(form.employmentStart),
+          origin: 'application',
+        });
+        imported++;
+      }
+
+      const { result } = await recordHouseholdIncome(owned.submission, owned.unit, owned.property);
+      res.json({ imported, result });
+    } catch (error) {
+      console.error("Error importing income from application:", error);
+      res.status(500).json({ message: "Failed to import income" });
+    }
+  });
+
+  app.patch('/api/rental/submissions/:id/income/sources/:sourceId', isAuthenticated, requireAccess, async (req: any, res) => {
+    try {
+      const owned = await getOwnedSubmission(req.params.id, getUserId(req));
+      const existing = owned ? await storage.getRentalIncomeSource(req.params.sourceId) : undefined;
+      if (!owned || !existing || existing.submissionId !== owned.submission.id) {
+        return res.status(404).json({ message: "Income source not found" });
+      }
+      const parsed = incomeSourceSchema.omit({ personId: true }).partial().safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+      const { verified, ...data } = parsed.data;
+      if (data.documentFileId) {
+        const file = await storage.getRentalSubmissionFile(data.documentFileId);
+        const people = await storage.getRentalSubmissionPeople(owned.submission.id);
+        if (!file || !people.some((p) => p.id === file.personId)) {
+          return res.status(400).json({ message: "That document isn't part of this application" });
+        }
+      }
+
+      const source = await storage.updateRentalIncomeSource(existing.id, {
+        ...data,
+        ...(verified === undefined ? {} : { verifiedAt: verified ? new Date() : null }),
+      });
+      const { result } = await recordHouseholdIncome(owned.submission, owned.unit, owned.property);
+      res.json({ source, result });
+    } catch (error) {
+      console.error("Error updating income source:", error);
+      res.status(500).json({ message: "Failed to update income source" });
+    }
+  });
+
+  app.delete('/api/rental/submissions/:id/income/sources/:sourceId', isAuthenticated, requireAccess, async (req: any, res) => {
+    try {
+      const owned = await getOwnedSubmission(req.params.id, getUserId(req));
+      const existing = owned ? await storage.getRentalIncomeSource(req.params.sourceId) : undefined;
+      if (!owned || !existing || existing.submissionId !== owned.submission.id) {
+        return res.status(404).json({ message: "Income source not found" });
+      }
+      await storage.deleteRentalIncomeSource(existing.id);
+      const { result } = await recordHouseholdIncome(owned.submission, owned.unit, owned.property);
+      res.json({ result });
+    } catch (error) {
+      console.error("Error deleting income source:", error);
+      res.status(500).json({ message: "Failed to delete income source" });
+    }
+  });
+}
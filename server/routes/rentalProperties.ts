@@ -2,6 +2,8 @@ import type { Express } from "express";
 import { storage } from "../storage";
 import { isAuthenticated, requireAccess } from "../jwtAuth";
 import { shortToken, getUserId } from "./_shared";
+import { APPLICANT_QUEUE_POLICIES } from "@shared/applicantQueue";
+import { parseYearBuilt } from "@shared/leaseClauses";
 
 export async function registerRentalPropertiesRoutes(app: Express) {
 
@@ -41,11 +43,14 @@ export async function registerRentalPropertiesRoutes(app: Express) {
   app.post('/api/rental/properties', isAuthenticated, requireAccess, async (req: any, res) => {
     try {
       const userId = getUserId(req);
-      const { name, address, city, state, zipCode, propertyType, notes, defaultCoverPageJson, defaultFieldSchemaJson, requiredDocumentTypes, autoScreening, screeningInvitationId, propertyTermsJson } = req.body;
+      const { name, address, city, county, state, zipCode, propertyType, notes, defaultCoverPageJson, defaultFieldSchemaJson, requiredDocumentTypes, autoScreening, screeningInvitationId, propertyTermsJson, yearBuilt } = req.body;
 
       if (!name) {
         return res.status(400).json({ message: "Property name is required" });
       }
+      if (yearBuilt != null && yearBuilt !== '' && parseYearBuilt(yearBuilt) === null) {
+        return res.status(400).json({ message: "Year built must be a four-digit year", field: 'yearBuilt' });
+      }
 
       // The per-property Screening Package ID override is an admin-only control.
       // Non-admins never see the field; ignore any value they submit.
@@ -72,6 +77,7 @@ export async function registerRentalPropertiesRoutes(app: Express) {
         name,
         address: address || null,
         city: city || null,
+        county: county || null,
         state: state || null,
         zipCode: zipCode || null,
         propertyType: propertyType || null,
@@ -82,6 +88,7 @@ export async function registerRentalPropertiesRoutes(app: Express) {
         autoScreening: autoScreening ?? false,
         screeningInvitationId: isAdmin ? (screeningInvitationId || null) : null,
         propertyTermsJson: propertyTermsJson || null,
+        yearBuilt: parseYearBuilt(yearBuilt),
       });
 
       res.status(201).json(property);
@@ -102,7 +109,7 @@ export async function registerRentalPropertiesRoutes(app: Express) {
   app.patch('/api/rental/properties/:id', isAuthenticated, requireAccess, async (req: any, res) => {
     try {
       const userId = getUserId(req);
-      const { name, address, city, state, zipCode, propertyType, notes, defaultCoverPageJson, defaultFieldSchemaJson, requiredDocumentTypes, autoScreening, screeningInvitationId, propertyTermsJson } = req.body;
+      const { name, address, city, county, state, zipCode, propertyType, notes, defaultCoverPageJson, defaultFieldSchemaJson, requiredDocumentTypes, autoScreening, screeningInvitationId, propertyTermsJson, applicantQueuePolicy, yearBuilt } = req.body;
 
       // The per-property Screening Package ID override is an admin-only control.
       // Non-admins never see the field; ignore any value they submit and leave
@@ -127,10 +134,18 @@ export async function registerRentalPropertiesRoutes(app: Express) {
         }
       }
 
+      if (applicantQueuePolicy !== undefined && !APPLICANT_QUEUE_POLICIES.some((p) => p.value === applicantQueuePolicy)) {
+        return res.status(400).json({ message: "Unknown applicant queue policy", field: 'applicantQueuePolicy' });
+      }
+      if (yearBuilt != null && yearBuilt !== '' && parseYearBuilt(yearBuilt) === null) {
+        return res.status(400).json({ message: "Year built must be a four-digit year", field: 'yearBuilt' });
+      }
+
       const property = await storage.updateRentalProperty(req.params.id, userId, {
         name,
         address,
         city,
+        county,
         state,
         zipCode,
         propertyType,
@@ -141,6 +156,9 @@ export async function registerRentalPropertiesRoutes(app: Express) {
         autoScreening,
         screeningInvitationId: isAdmin ? (screeningInvitationId || null) : undefined,
         propertyTermsJson,
+        applicantQueuePolicy,
+        // undefined leaves the stored year alone; null or "" clears it
+        yearBuilt: yearBuilt === undefined ? undefined : parseYearBuilt(yearBuilt),
       });
 
       if (!property) {
@@ -5,7 +5,8 @@ import { storage } from "../storage";
 import { isAuthenticated, requireAccess } from "../jwtAuth";
 import { db } from "../db";
 import { emailService } from "../emailService";
-import { getUserId, updateSubmissionStatusFromScreening } from "./_shared";
+import { suggestDenialCriteria } from "@shared/screeningResults";
+import { getActingUserId, getUserId, updateSubmissionStatusFromScreening } from "./_shared";
 
 export async function registerRentalScreeningRoutes(app: Express) {
   // Get all screening orders for a submission (per-person model)
@@ -41,6 +42,53 @@ export async function registerRentalScreeningRoutes(app: Express) {
     }
   });
 
+  // Structured findings per screening order, with the denial criteria they
+  // suggest. Orders whose report arrived without readable data have no records.
+  app.get('/api/rental/submissions/:id/screening/results', isAuthenticated, requireAccess, async (req: any, res) => {
+    try {
+      const userId = getUserId(req);
+      const submission = await storage.getRentalSubmission(req.params.id);
+      if (!submission) {
+        return res.status(404).json({ message: "Submission not found" });
+      }
+
+      const appLink = submission.applicationLinkId ? await storage.getRentalApplicationLink(submission.applicationLinkId) : null;
+      if (!appLink) {
+        return res.status(404).json({ message: "Application link not found" });
+      }
+      const unit = await storage.getRentalUnit(appLink.unitId);
+      if (!unit) {
+        return res.status(404).json({ message: "Unit not found" });
+      }
+      const property = await storage.getRentalProperty(unit.propertyId, userId);
+      if (!property) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const [orders, people, records] = await Promise.all([
+        storage.getRentalScreeningOrdersBySubmission(submission.id),
+        storage.getRentalSubmissionPeople(submission.id),
+        storage.getScreeningResultRecordsBySubmission(submission.id),
+      ]);
+
+      res.json(orders.map((order) => {
+        const person = people.find((p) => p.id === order.personId);
+        const orderRecords = records.filter((r) => r.orderId === order.id);
+        return {
+          orderId: order.id,
+          personId: order.personId,
+          personName: person ? [person.firstName, person.lastName].filter(Boolean).join(' ') || null : null,
+          status: order.status,
+          records: orderRecords,
+          suggestedCriteria: suggestDenialCriteria(orderRecords),
+        };
+      }));
+    } catch (error) {
+      console.error("Error getting screening results:", error);
+      res.status(500).json({ message: "Failed to get screening results" });
+    }
+  });
+
   // Download consent authorization PDF for a specific person
   app.get('/api/rental/submissions/:id/person/:personId/consent-pdf', isAuthenticated, requireAccess, async (req: any, res) => {
     try {
@@ -629,57 +677,39 @@ export async function registerRentalScreeningRoutes(app: Express) {
 
       const formData = targetPerson.formJson as Record<string, any>;
       
-      // Import DigitalDelve service and crypto
-      const { processScreeningRequest } = await import("../digitalDelveService");
-      const { decryptCredentials } = await import("../crypto");
+      const { placeScreeningOrder, resolveScreeningAccount } = await import("../screening");
       
       // Determine base URL for webhooks - use stable production domain
-      // IMPORTANT: Use REPLIT_DOMAINS for consistent webhook URLs that Western Verify can reach
+      // IMPORTANT: Use REPLIT_DOMAINS for consistent webhook URLs that the provider can reach
       const baseUrl = process.env.REPLIT_DOMAINS 
         ? `https://${process.env.REPLIT_DOMAINS.split(',')[0]}`
         : `${req.headers['x-forwarded-proto'] || req.protocol || 'https'}://${req.headers['x-forwarded-host'] || req.headers.host}`;
       
-      // Resolve landlord's screening credentials if configured
-      let screeningCredentials: { username: string; password: string; invitationId?: string } | undefined;
-      const landlordCreds = await storage.getLandlordScreeningCredentials(userId);
-      if (landlordCreds && landlordCreds.status === 'verified') {
+      // Resolve landlord's screening provider and credentials if configured
+      const account = await resolveScreeningAccount(userId);
+      if (account.credentials) {
+        // Resolve per-property invitation ID override: submission → application_link → unit → property
         try {
-          const decrypted = decryptCredentials({
-            encryptedUsername: landlordCreds.encryptedUsername,
-            encryptedPassword: landlordCreds.encryptedPassword,
-            encryptionIv: landlordCreds.encryptionIv,
-          });
-          // Resolve per-property invitation ID override: submission → application_link → unit → property
-          let resolvedInvitationId = landlordCreds.defaultInvitationId || undefined;
-          try {
-            const propertyRow = await db.execute(sql`
-              SELECT rp.screening_invitation_id
-              FROM rental_submissions rs
-              JOIN rental_application_links ral ON rs.application_link_id = ral.id
-              JOIN rental_units ru ON ral.unit_id = ru.id
-              JOIN rental_properties rp ON ru.property_id = rp.id
-              WHERE rs.id = ${submission.id}
-              LIMIT 1
-            `);
-            const propInvId = propertyRow.rows[0]?.screening_invitation_id as string | null | undefined;
-            if (propInvId) {
-              resolvedInvitationId = propInvId;
-              console.log(`[Screening] Using per-property invitation ID for submission ${submission.id}`);
-            }
-          } catch (propErr) {
-            console.error("[Screening] Failed to resolve property invitation ID, using account default:", propErr);
+          const propertyRow = await db.execute(sql`
+            SELECT rp.screening_invitation_id
+            FROM rental_submissions rs
+            JOIN rental_application_links ral ON rs.application_link_id = ral.id
+            JOIN rental_units ru ON ral.unit_id = ru.id
+            JOIN rental_properties rp ON ru.property_id = rp.id
+            WHERE rs.id = ${submission.id}
+            LIMIT 1
+          `);
+          const propInvId = propertyRow.rows[0]?.screening_invitation_id as string | null | undefined;
+          if (propInvId) {
+            account.credentials = { ...account.credentials, invitationId: propInvId };
+            console.log(`[Screening] Using per-property invitation ID for submission ${submission.id}`);
           }
-          screeningCredentials = {
-            username: decrypted.username,
-            password: decrypted.password,
-            invitationId: resolvedInvitationId,
-          };
-        } catch (e) {
-          console.error("Failed to decrypt landlord credentials, falling back to system credentials");
+        } catch (propErr) {
+          console.error("[Screening] Failed to resolve property invitation ID, using account default:", propErr);
         }
       }
       
-      const result = await processScreeningRequest(
+      const result = await placeScreeningOrder(
         submission.id,
         {
           firstName: targetPerson.firstName || "",
@@ -694,8 +724,8 @@ export async function registerRentalScreeningRoutes(app: Express) {
           zip: formData.currentZip,
         },
         baseUrl,
+        account,
         invitationId,
-        screeningCredentials,
         targetPerson.id
       );
 
@@ -763,8 +793,13 @@ export async function registerRentalScreeningRoutes(app: Express) {
         return res.status(403).json({ message: "Access denied" });
       }
 
-      // Redirect to Western Verify report lookup page
-      res.redirect('https://secure.westernverify.com/report_lookup.cfm');
+      const { getScreeningProvider } = await import("../screening");
+      const provider = getScreeningProvider(order.provider);
+      const report = provider ? await provider.getReportUrl(order) : null;
+      if (!report?.success) {
+        return res.status(404).json({ message: report?.error || "Report not available" });
+      }
+      res.redirect(report.url);
     } catch (error: any) {
       console.error("Error redirecting to report:", error);
       res.status(500).json({ message: "Something went wrong. Please try again." });
@@ -897,7 +932,7 @@ export async function registerRentalScreeningRoutes(app: Express) {
           personId, 
           personName: `${person.firstName} ${person.lastName}`,
           role: person.role,
-          removedBy: userId 
+          removedBy: getActingUserId(req)
         },
       });
 
@@ -912,26 +947,12 @@ export async function registerRentalScreeningRoutes(app: Express) {
   // Get available screening invitations (packages) - uses landlord's own credentials
   app.get('/api/rental/screening/invitations', isAuthenticated, requireAccess, async (req: any, res) => {
     try {
-      const userId = req.user.id;
-      const { retrieveInvitations } = await import("../digitalDelveService");
-      const { decryptCredentials } = await import("../crypto");
-      const landlordCreds = await storage.getLandlordScreeningCredentials(userId);
-      let credentialsToUse: { username: string; password: string } | undefined;
-      if (landlordCreds && landlordCreds.status === 'verified') {
-        try {
-          const decrypted = decryptCredentials({
-            encryptedUsername: landlordCreds.encryptedUsername,
-            encryptedPassword: landlordCreds.encryptedPassword,
-            encryptionIv: landlordCreds.encryptionIv,
-          });
-          credentialsToUse = { username: decrypted.username, password: decrypted.password };
-        } catch (e) {
-          // fall through to system creds
-        }
-      }
-      const result = await retrieveInvitations(credentialsToUse);
+      const userId = getUserId(req);
+      const { resolveScreeningAccount } = await import("../screening");
+      const { provider, credentials } = await resolveScreeningAccount(userId);
+      const result = await provider.listPackages(credentials);
       if (result.success) {
-        res.json(result.invitations || []);
+        res.json(result.packages);
       } else {
         res.status(500).json({ message: result.error || "Failed to retrieve invitations" });
       }
@@ -984,8 +1005,15 @@ export async function registerRentalScreeningRoutes(app: Express) {
         return res.status(403).json({ message: "Access denied" });
       }
 
-      // Direct to Western Verify login page for compliance
-      res.json({ url: 'https://secure.westernverify.com/login.cfm' });
+      // The provider decides where reports are viewed - Western Verify sends
+      // landlords to its login page for compliance
+      const { getScreeningProvider } = await import("../screening");
+      const provider = getScreeningProvider(order.provider);
+      const report = provider ? await provider.getReportUrl(order) : null;
+      if (!report?.success) {
+        return res.status(404).json({ message: report?.error || "Report not available" });
+      }
+      res.json({ url: report.url });
     } catch (error) {
       console.error("Error getting report URL:", error);
       res.status(500).json({ message: "Failed to get report URL" });
@@ -1022,8 +1050,15 @@ export async function registerRentalScreeningRoutes(app: Express) {
         return res.status(403).json({ message: "Access denied" });
       }
 
-      // Direct to Western Verify login page for compliance
-      res.json({ url: 'https://secure.westernverify.com/login.cfm' });
+      // The provider decides where reports are viewed - Western Verify sends
+      // landlords to its login page for compliance
+      const { getScreeningProvider } = await import("../screening");
+      const provider = getScreeningProvider(order.provider);
+      const report = provider ? await provider.getReportUrl(order) : null;
+      if (!report?.success) {
+        return res.status(404).json({ message: report?.error || "Report not available" });
+      }
+      res.json({ url: report.url });
     } catch (error) {
       console.error("Error getting report URL:", error);
       res.status(500).json({ message: "Failed to get report URL" });
@@ -1098,31 +1133,19 @@ export async function registerRentalScreeningRoutes(app: Express) {
       }
 
       // Get credentials for sync
-      const storedCredentials = await storage.getLandlordScreeningCredentials(userId);
-      if (!storedCredentials || !storedCredentials.encryptedUsername || !storedCredentials.encryptedPassword) {
-        return res.status(400).json({ message: "Screening credentials not configured" });
-      }
-
-      // Decrypt credentials before using
-      const { decryptCredentials } = await import("../crypto");
-      let credentials;
+      const { getSavedScreeningAccount, syncScreeningOrder } = await import("../screening");
+      let account;
       try {
-        const decrypted = decryptCredentials({
-          encryptedUsername: storedCredentials.encryptedUsername,
-          encryptedPassword: storedCredentials.encryptedPassword,
-          encryptionIv: storedCredentials.encryptionIv,
-        });
-        credentials = {
-          username: decrypted.username,
-          password: decrypted.password,
-        };
+        account = await getSavedScreeningAccount(userId);
       } catch (e) {
         console.error("Failed to decrypt credentials:", e);
         return res.status(400).json({ message: "Failed to decrypt credentials" });
       }
+      if (!account) {
+        return res.status(400).json({ message: "Screening credentials not configured" });
+      }
 
-      const { syncScreeningStatus } = await import("../digitalDelveService");
-      const result = await syncScreeningStatus(req.params.orderId, credentials);
+      const result = await syncScreeningOrder(req.params.orderId, account);
 
       res.json(result);
     } catch (error) {
@@ -1136,26 +1159,18 @@ export async function registerRentalScreeningRoutes(app: Express) {
     try {
       const userId = getUserId(req);
       
-      const storedCredentials = await storage.getLandlordScreeningCredentials(userId);
-      if (!storedCredentials || !storedCredentials.encryptedUsername || !storedCredentials.encryptedPassword) {
-        return res.json({ synced: 0, completed: 0, errors: 0, message: 'no_credentials' });
-      }
-
-      const { decryptCredentials } = await import("../crypto");
-      let credentials;
+      const { getSavedScreeningAccount, bulkSyncScreeningOrders } = await import("../screening");
+      let account;
       try {
-        const decrypted = decryptCredentials({
-          encryptedUsername: storedCredentials.encryptedUsername,
-          encryptedPassword: storedCredentials.encryptedPassword,
-          encryptionIv: storedCredentials.encryptionIv,
-        });
-        credentials = { username: decrypted.username, password: decrypted.password };
+        account = await getSavedScreeningAccount(userId);
       } catch (e) {
         return res.json({ synced: 0, completed: 0, errors: 0, message: 'credential_error' });
       }
+      if (!account) {
+        return res.json({ synced: 0, completed: 0, errors: 0, message: 'no_credentials' });
+      }
 
-      const { bulkSyncScreeningStatuses } = await import("../digitalDelveService");
-      const result = await bulkSyncScreeningStatuses(userId, credentials);
+      const result = await bulkSyncScreeningOrders(userId, account);
       
       res.json(result);
     } catch (error) {
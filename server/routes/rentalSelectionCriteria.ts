@@ -0,0 +1,119 @@
+import type { Express } from "express";
+import { z } from "zod";
+import { storage } from "../storage";
+import { isAuthenticated, requireAccess } from "../jwtAuth";
+import { getUserId } from "./_shared";
+import { hasPublishableCriteria } from "@shared/selectionCriteria";
+import { selectionCriteriaForSubmission, validateCriteriaForProperty } from "../utils/selectionCriteria";
+
+const positiveOrNull = (max: number) => z.number().positive().max(max).nullable().optional();
+
+const selectionCriteriaSchema = z.object({
+  minIncomeMultiple: positiveOrNull(10),
+  minCreditScore: z.number().int().min(300).max(850).nullable().optional(),
+  collectionsDisqualify: z.boolean().optional(),
+  housingDebtDisqualify: z.boolean().optional(),
+  evictionLookbackYears: z.number().int().min(1).max(10).nullable().optional(),
+  criminalLookbackYears: z.number().int().min(1).max(10).nullable().optional(),
+  felonyOnly: z.boolean().optional(),
+  maxOccupants: z.number().int().min(1).max(30).nullable().optional(),
+  petsAllowed: z.boolean().optional(),
+  maxPets: z.number().int().min(1).max(10).nullable().optional(),
+  additionalNotes: z.string().max(2000).optional(),
+});
+
+export async function registerRentalSelectionCriteriaRoutes(app: Express) {
+  // Current published criteria plus the version history
+  app.get('/api/rental/properties/:id/selection-criteria', isAuthenticated, requireAccess, async (req: any, res) => {
+    try {
+      const userId = getUserId(req);
+      const property = await storage.getRentalProperty(req.params.id, userId);
+      if (!property) {
+        return res.status(404).json({ message: "Property not found" });
+      }
+      const versions = await storage.getSelectionCriteriaVersions(property.id);
+      const current = versions[0] || null;
+      res.json({
+        current,
+        versions,
+        issues: current ? await validateCriteriaForProperty(property, current.criteriaJson) : [],
+      });
+    } catch (error) {
+      console.error("Error getting selection criteria:", error);
+      res.status(500).json({ message: "Failed to get selection criteria" });
+    }
+  });
+
+  // Check a draft against the property's jurisdiction without publishing it
+  app.post('/api/rental/properties/:id/selection-criteria/validate', isAuthenticated, requireAccess, async (req: any, res) => {
+    try {
+      const userId = getUserId(req);
+      const property = await storage.getRentalProperty(req.params.id, userId);
+      if (!property) {
+        return res.status(404).json({ message: "Property not found" });
+      }
+      const parsed = selectionCriteriaSchema.safeParse(req.body?.criteria);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+      res.json({ issues: await validateCriteriaForProperty(property, parsed.data) });
+    } catch (error) {
+      console.error("Error validating selection criteria:", error);
+      res.status(500).json({ message: "Failed to validate selection criteria" });
+    }
+  });
+
+  // Publish a new version. Criteria a jurisdiction blocks are rejected;
+  // conditional ones publish with warnings.
+  app.post('/api/rental/properties/:id/selection-criteria', isAuthenticated, requireAccess, async (req: any, res) => {
+    try {
+      const userId = getUserId(req);
+      const property = await storage.getRentalProperty(req.params.id, userId);
+      if (!property) {
+        return res.status(404).json({ message: "Property not found" });
+      }
+      const parsed = selectionCriteriaSchema.safeParse(req.body?.criteria);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+      const criteria = parsed.data;
+      if (!hasPublishableCriteria(criteria)) {
+        return res.status(400).json({ message: "Add at least one criterion before publishing" });
+      }
+
+      const issues = await validateCriteriaForProperty(property, criteria);
+      const errors = issues.filter((i) => i.severity === 'error');
+      if (errors.length > 0) {
+        return res.status(400).json({ message: errors[0].message, issues });
+      }
+
+      const published = await storage.publishSelectionCriteria(property.id, userId, criteria);
+      res.status(201).json({ ...published, issues });
+    } catch (error) {
+      console.error("Error publishing selection criteria:", error);
+      res.status(500).json({ message: "Failed to publish selection criteria" });
+    }
+  });
+
+  // The criteria version an applicant on this submission is held to - used by
+  // the denial decision flow to check reasons against what was published.
+  app.get('/api/rental/submissions/:id/selection-criteria', isAuthenticated, requireAccess, async (req: any, res) => {
+    try {
+      const userId = getUserId(req);
+      const personId = typeof req.query.personId === 'string' ? req.query.personId : undefined;
+      const result = await selectionCriteriaForSubmission(req.params.id, userId, personId);
+      if (!result) {
+        return res.status(404).json({ message: "Submission not found" });
+      }
+      res.json({
+        propertyId: result.property.id,
+        propertyName: result.property.name,
+        criteria: result.criteria,
+        acknowledgedAt: result.acknowledgedAt,
+      });
+    } catch (error) {
+      console.error("Error getting submission selection criteria:", error);
+      res.status(500).json({ message: "Failed to get selection criteria" });
+    }
+  });
+}
@@ -2,7 +2,11 @@ import type { Express } from "express";
 import { storage } from "../storage";
 import { isAuthenticated, requireAccess } from "../jwtAuth";
 import { emailService } from "../emailService";
-import { getUserId } from "./_shared";
+import { buildLeaseDraftFieldValues, pickLeaseTemplate } from "../utils/leaseDraftBuilder";
+import { getActingUserId, getUserId } from "./_shared";
+import { queueDecisionContext, unitApplicantQueue, waitlistRemainingApplicants } from "../utils/applicantQueue";
+import { holdingDepositLink, startApprovalHold } from "../utils/approvalHold";
+import { getAppBaseUrl } from "../utils/appUrl";
 
 export async function registerRentalSubmissionsRoutes(app: Express) {
   // Get count of pending (submitted) applications for landlord
@@ -116,6 +120,7 @@ export async function registerRentalSubmissionsRoutes(app: Express) {
       res.json({
         ...submission,
         propertyName: property.name,
+        unitId: unit.id,
         unitLabel: unit.unitLabel,
         people,
         events,
@@ -163,7 +168,7 @@ export async function registerRentalSubmissionsRoutes(app: Express) {
         await storage.logRentalApplicationEvent({
           submissionId: submission.id,
           eventType: `status_changed_to_${status}`,
-          metadataJson: { previousStatus: submission.status, newStatus: status, changedBy: userId },
+          metadataJson: { previousStatus: submission.status, newStatus: status, changedBy: getActingUserId(req) },
         });
       }
 
@@ -205,7 +210,7 @@ export async function registerRentalSubmissionsRoutes(app: Express) {
         await storage.logRentalApplicationEvent({
           submissionId: submission.id,
           eventType: 'submission_deleted',
-          metadataJson: { deletedBy: userId, deletedAt: new Date().toISOString() },
+          metadataJson: { deletedBy: getActingUserId(req), deletedAt: new Date().toISOString() },
         });
       }
 
@@ -288,16 +293,53 @@ export async function registerRentalSubmissionsRoutes(app: Express) {
         return res.status(400).json({ message: "A decision has already been made for this application" });
       }
 
-      const { decision, notes, denialReasons, skipNotification } = req.body;
+      const { decision, notes, denialReasons, skipNotification, holdingDepositDollars } = req.body;
       if (!decision || !['approved', 'denied'].includes(decision)) {
         return res.status(400).json({ message: "Decision must be 'approved' or 'denied'" });
       }
 
+      // Approvals start a lease-signing countdown when the property has a
+      // deadline (or the landlord sets one here), optionally with a holding
+      // deposit due by the same deadline.
+      const deadlineHours = decision === 'approved'
+        ? Number(req.body.leaseSignDeadlineHours ?? property.propertyTermsJson?.leaseSignDeadlineHours) || null
+        : null;
+      if (deadlineHours !== null && (!Number.isInteger(deadlineHours) || deadlineHours < 1 || deadlineHours > 720)) {
+        return res.status(400).json({ message: "The lease signing deadline must be between 1 and 720 hours" });
+      }
+      const holdingDepositCents = decision === 'approved' && holdingDepositDollars
+        ? Math.round(parseFloat(holdingDepositDollars) * 100)
+        : null;
+      const landlord = await storage.getUser(property.userId);
+      if (holdingDepositCents !== null) {
+        if (!Number.isFinite(holdingDepositCents) || holdingDepositCents < 100) {
+          return res.status(400).json({ message: "The holding deposit must be at least $1.00" });
+        }
+        if (!deadlineHours) {
+          return res.status(400).json({ message: "Set a lease signing deadline to request a holding deposit" });
+        }
+        if (!landlord?.stripeConnectChargesEnabled || !landlord.stripeConnectAccountId) {
+          return res.status(400).json({ message: "Connect your Stripe account before requesting a holding deposit" });
+        }
+      }
+
+      // First-in-time properties decide applications in the order they were
+      // completed, so anything earlier in the unit's queue goes first.
+      const queue = await unitApplicantQueue(unit.id);
+      const queueContext = queueDecisionContext(queue, submission.id, unit.id, property.applicantQueuePolicy);
+      if (property.applicantQueuePolicy === 'first_in_time' && queueContext.undecidedAhead.length > 0) {
+        const count = queueContext.undecidedAhead.length;
+        return res.status(409).json({
+          message: `This property decides applications first in time. ${count} application${count === 1 ? ' was' : 's were'} completed before this one and still need${count === 1 ? 's' : ''} a decision.`,
+          undecidedAhead: queueContext.undecidedAhead,
+        });
+      }
+
       const newDecision = await storage.createRentalDecision({
         submissionId: submission.id,
         decision,
         decidedAt: new Date(),
-        decidedByUserId: userId,
+        decidedByUserId: getActingUserId(req),
         notes: notes || null,
       });
 
@@ -318,20 +360,45 @@ export async function registerRentalSubmissionsRoutes(app: Express) {
         eventType: `decision_${decision}`,
         metadataJson: { 
           decisionId: newDecision.id, 
-          decidedBy: userId, 
+          decidedBy: getActingUserId(req),
           notes, 
           denialReasons: reasons.map(r => r.category),
           skipNotification: skipNotification || false,
+          queue: queueContext,
         },
       });
 
+      // Approving one applicant waitlists everyone else still undecided for the unit
+      const waitlistedSubmissionIds = decision === 'approved'
+        ? await waitlistRemainingApplicants(queue, submission.id, unit, property, userId, getActingUserId(req))
+        : [];
+
+      const people = await storage.getRentalSubmissionPeople(submission.id);
+      const primaryApplicant = people.find(p => p.role === 'applicant');
+      let approvalHold: { leaseSignDeadlineAt: Date; holdingDepositCents: number | null; holdingDepositLink: string | null } | null = null;
+      if (deadlineHours && landlord) {
+        const hold = await startApprovalHold({
+          decision: newDecision,
+          unit,
+          property,
+          landlord,
+          applicant: {
+            name: [primaryApplicant?.firstName, primaryApplicant?.lastName].filter(Boolean).join(' ') || primaryApplicant?.email || 'Applicant',
+            email: primaryApplicant?.email || null,
+          },
+          deadlineHours,
+          holdingDepositCents,
+        });
+        approvalHold = {
+          leaseSignDeadlineAt: hold.decision.leaseSignDeadlineAt!,
+          holdingDepositCents,
+          holdingDepositLink: hold.holdingDeposit ? holdingDepositLink(hold.holdingDeposit, getAppBaseUrl(req)) : null,
+        };
+      }
+
       // Send notification email to applicant if not skipped
       if (!skipNotification) {
         try {
-          // Get the primary applicant for the submission
-          const people = await storage.getRentalSubmissionPeople(submission.id);
-          const primaryApplicant = people.find(p => p.role === 'applicant');
-          
           if (primaryApplicant && primaryApplicant.email) {
             // Build property address
             let propertyAddress = 'the rental property';
@@ -341,8 +408,6 @@ export async function registerRentalSubmissionsRoutes(app: Express) {
                 : property.name;
             }
             
-            // Get landlord name
-            const landlord = await storage.getUser(userId);
             const landlordInfo = landlord ? {
               name: landlord.firstName && landlord.lastName 
                 ? `${landlord.firstName} ${landlord.lastName}`
@@ -359,7 +424,12 @@ export async function registerRentalSubmissionsRoutes(app: Express) {
               },
               decision as 'approved' | 'denied',
               propertyAddress,
-              landlordInfo
+              landlordInfo,
+              approvalHold ? {
+                deadline: approvalHold.leaseSignDeadlineAt.toLocaleString('en-US', { dateStyle: 'long', timeStyle: 'short' }),
+                depositAmount: approvalHold.holdingDepositCents ? `$${(approvalHold.holdingDepositCents / 100).toFixed(2)}` : undefined,
+                depositLink: approvalHold.holdingDepositLink || undefined,
+              } : undefined
             );
             console.log(`✅ Decision notification sent to ${primaryApplicant.email}`);
           }
@@ -369,7 +439,7 @@ export async function registerRentalSubmissionsRoutes(app: Express) {
         }
       }
 
-      res.status(201).json({ ...newDecision, denialReasons: reasons });
+      res.status(201).json({ ...newDecision, denialReasons: reasons, waitlistedSubmissionIds, approvalHold });
     } catch (error) {
       console.error("Error creating decision:", error);
       res.status(500).json({ message: "Failed to create decision" });
@@ -417,6 +487,102 @@ export async function registerRentalSubmissionsRoutes(app: Express) {
     }
   });
 
+  // Turn an approved application into a pre-filled lease draft. Applicant and
+  // co-applicant names come from the submission, rent/deposit from the unit
+  // (or tenancy / property terms), and the state from the property. The draft
+  // is saved to My Documents so the landlord can review it in the document
+  // wizard and download it through the normal lease generator.
+  app.post('/api/rental/submissions/:id/lease-draft', isAuthenticated, requireAccess, async (req: any, res) => {
+    try {
+      const userId = getUserId(req);
+      const submission = await storage.getRentalSubmission(req.params.id);
+
+      if (!submission) {
+        return res.status(404).json({ message: "Submission not found" });
+      }
+
+      // Verify ownership
+      const appLink = submission.applicationLinkId ? await storage.getRentalApplicationLink(submission.applicationLinkId) : null;
+      if (!appLink) {
+        return res.status(404).json({ message: "Application link not found" });
+      }
+      const unit = await storage.getRentalUnit(appLink.unitId);
+      if (!unit) {
+        return res.status(404).json({ message: "Unit not found" });
+      }
+      const property = await storage.getRentalProperty(unit.propertyId, userId);
+      if (!property) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const decision = await storage.getRentalDecision(submission.id);
+      if (!decision || decision.decision !== 'approved') {
+        return res.status(400).json({ message: "A lease can only be drafted for an approved application" });
+      }
+      if (!property.state) {
+        return res.status(400).json({ message: "Set the property's state before drafting a lease" });
+      }
+
+      const { leaseStartDate, leaseEndDate } = req.body || {};
+      const tenancy = await storage.getTenancyBySubmissionId(submission.id);
+      const monthToMonth = !(leaseEndDate || tenancy?.endDate);
+      const template = pickLeaseTemplate(
+        await storage.getAllTemplates({ stateId: property.state }),
+        monthToMonth,
+      );
+      if (!template) {
+        return res.status(404).json({ message: `No lease template is available for ${property.state}` });
+      }
+
+      const [landlord, people] = await Promise.all([
+        storage.getUser(userId),
+        storage.getRentalSubmissionPeople(submission.id),
+      ]);
+      if (!landlord) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const fieldValues = buildLeaseDraftFieldValues({
+        landlord,
+        property,
+        unit,
+        people,
+        tenancy,
+        leaseStartDate: leaseStartDate || null,
+        leaseEndDate: leaseEndDate || null,
+      });
+
+      const document = await storage.createSavedDocument({
+        userId,
+        propertyId: property.id,
+        tenancyId: tenancy?.id || null,
+        templateId: template.id,
+        templateName: template.title,
+        templateVersion: template.version || 1,
+        documentName: `${template.title} - ${fieldValues.tenantName || 'Draft'}`,
+        formData: fieldValues,
+        stateCode: property.state,
+      });
+
+      await storage.logRentalApplicationEvent({
+        submissionId: submission.id,
+        eventType: 'lease_draft_created',
+        metadataJson: { savedDocumentId: document.id, templateId: template.id, createdBy: getActingUserId(req) },
+      });
+
+      await storage.trackEvent({
+        userId,
+        eventType: 'document_saved',
+        eventData: { templateId: template.id, documentName: document.documentName, source: 'rental_application' },
+      });
+
+      res.status(201).json({ document, templateId: template.id, fieldValues });
+    } catch (error) {
+      console.error("Error creating lease draft:", error);
+      res.status(500).json({ message: "Failed to create lease draft" });
+    }
+  });
+
   // Send custom notification email for a decision
   app.post('/api/rental/submissions/:id/send-notification', isAuthenticated, requireAccess, async (req: any, res) => {
     try {
@@ -4,7 +4,7 @@ import path from "path";
 import { storage } from "../storage";
 import { isAuthenticated } from "../jwtAuth";
 import { uploadApplicantBuffer } from "../applicantObjectStorage";
-import { upload, applicantUpload } from "./_shared";
+import { upload, applicantUpload, getActingUserId } from "./_shared";
 
 export async function registerReuploadRoutes(app: Express) {
   // ============================================
@@ -61,7 +61,7 @@ export async function registerReuploadRoutes(app: Express) {
         personId: req.params.personId,
         allowedFileTypes: allowed_file_types,
         expiresAt,
-        createdByUserId: userId,
+        createdByUserId: getActingUserId(req),
       });
 
       const baseUrl = process.env.REPLIT_DOMAINS
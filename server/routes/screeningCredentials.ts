@@ -9,34 +9,51 @@ import { getUserId } from "./_shared";
 
 export async function registerScreeningCredentialsRoutes(app: Express) {
   // Import crypto helper for credentials
-  const { encryptCredentials, decryptCredentials } = await import("../crypto");
-  const { verifyCredentialsWithParams, retrieveInvitations } = await import("../digitalDelveService");
+  const { encryptCredentials } = await import("../crypto");
+  const { DEFAULT_SCREENING_PROVIDER, getAvailableScreeningProviders, getScreeningProvider, getSavedScreeningAccount } = await import("../screening");
   
-  // Schema for credential input (landlord only sets username/password, admin sets invitation ID)
+  // Schema for credential input (landlord only sets provider/username/password, admin sets invitation ID)
   const screeningCredentialsSchema = z.object({
+    provider: z.string().default(DEFAULT_SCREENING_PROVIDER),
     username: z.string().min(1).max(100),
     password: z.string().min(1).max(100),
   });
+
+  function availableProvider(id: string) {
+    const provider = getScreeningProvider(id);
+    return provider?.isAvailable() ? provider : undefined;
+  }
+
+  // Providers a landlord can connect (the mock provider only outside production)
+  app.get('/api/screening-providers', isAuthenticated, async (_req: any, res) => {
+    res.json(getAvailableScreeningProviders().map((p) => ({
+      id: p.id,
+      name: p.name,
+      requiresPackageSetup: p.requiresPackageSetup,
+    })));
+  });
   
-  // Test credentials with Western Verify (no save)
+  // Test credentials with the provider (no save)
   app.post('/api/screening-credentials/test', isAuthenticated, async (req: any, res) => {
     try {
       const validatedData = screeningCredentialsSchema.parse(req.body);
+      const provider = availableProvider(validatedData.provider);
+      if (!provider) {
+        return res.status(400).json({ success: false, message: "Unknown screening provider" });
+      }
       
-      // Test authentication with Western Verify
-      const result = await verifyCredentialsWithParams(validatedData.username, validatedData.password);
+      // Test authentication with the provider
+      const credentials = { username: validatedData.username, password: validatedData.password };
+      const result = await provider.verifyCredentials(credentials);
       
       if (result.success) {
         // Also fetch invitations to return them
-        const invitationsResult = await retrieveInvitations({ 
-          username: validatedData.username, 
-          password: validatedData.password 
-        });
+        const packagesResult = await provider.listPackages(credentials);
         
         res.json({
           success: true,
           message: "Credentials verified successfully",
-          invitations: invitationsResult.success ? invitationsResult.invitations : [],
+          invitations: packagesResult.success ? packagesResult.packages : [],
         });
       } else {
         res.json({
@@ -58,14 +75,18 @@ export async function registerScreeningCredentialsRoutes(app: Express) {
     try {
       const userId = getUserId(req);
       const validatedData = screeningCredentialsSchema.parse(req.body);
+      const provider = availableProvider(validatedData.provider);
+      if (!provider) {
+        return res.status(400).json({ success: false, message: "Unknown screening provider" });
+      }
       
       // Test credentials first
-      const testResult = await verifyCredentialsWithParams(validatedData.username, validatedData.password);
+      const testResult = await provider.verifyCredentials({ username: validatedData.username, password: validatedData.password });
       
       if (!testResult.success) {
         return res.status(400).json({
           success: false,
-          message: testResult.error || "Invalid credentials - please verify your Western Verify login details",
+          message: testResult.error || `Invalid credentials - please verify your ${provider.name} login details`,
         });
       }
       
@@ -76,8 +97,12 @@ export async function registerScreeningCredentialsRoutes(app: Express) {
       const existing = await storage.getLandlordScreeningCredentials(userId);
       
       if (existing) {
-        // Update existing credentials (preserve admin-set invitation ID)
+        // Update existing credentials (preserve admin-set invitation ID unless
+        // the landlord switched providers - packages don't carry over)
+        const switchedProvider = existing.provider !== provider.id;
         const updated = await storage.updateLandlordScreeningCredentials(userId, {
+          provider: provider.id,
+          ...(switchedProvider ? { defaultInvitationId: null } : {}),
           encryptedUsername: encrypted.encryptedUsername,
           encryptedPassword: encrypted.encryptedPassword,
           encryptionIv: encrypted.encryptionIv,
@@ -91,10 +116,27 @@ export async function registerScreeningCredentialsRoutes(app: Express) {
           message: "Screening credentials updated successfully",
           status: updated?.status,
         });
+      } else if (!provider.requiresPackageSetup) {
+        await storage.createLandlordScreeningCredentials({
+          userId,
+          provider: provider.id,
+          encryptedUsername: encrypted.encryptedUsername,
+          encryptedPassword: encrypted.encryptedPassword,
+          encryptionIv: encrypted.encryptionIv,
+          status: 'verified',
+          lastVerifiedAt: new Date(),
+        });
+        
+        res.json({
+          success: true,
+          message: "Screening credentials saved successfully",
+          status: 'verified',
+        });
       } else {
         // Create new credentials (admin will set invitation ID separately)
         await storage.createLandlordScreeningCredentials({
           userId,
+          provider: provider.id,
           encryptedUsername: encrypted.encryptedUsername,
           encryptedPassword: encrypted.encryptedPassword,
           encryptionIv: encrypted.encryptionIv,
@@ -147,12 +189,17 @@ export async function registerScreeningCredentialsRoutes(app: Express) {
         });
       }
       
-      // Integration is ready when credentials are verified AND invitation ID is set
-      const integrationReady = credentials.status === 'verified' && !!credentials.defaultInvitationId;
-      const pendingAdminSetup = credentials.status === 'verified' && !credentials.defaultInvitationId;
+      // Integration is ready when credentials are verified AND, for providers
+      // that need one, an invitation ID is set
+      const provider = getScreeningProvider(credentials.provider);
+      const needsPackage = !!provider?.requiresPackageSetup && !credentials.defaultInvitationId;
+      const integrationReady = credentials.status === 'verified' && !!provider?.isAvailable() && !needsPackage;
+      const pendingAdminSetup = credentials.status === 'verified' && needsPackage;
       
       res.json({
         configured: true,
+        provider: credentials.provider,
+        providerName: provider?.name || credentials.provider,
         status: credentials.status,
         lastVerifiedAt: credentials.lastVerifiedAt,
         lastErrorMessage: credentials.lastErrorMessage,
@@ -187,32 +234,22 @@ export async function registerScreeningCredentialsRoutes(app: Express) {
   app.get('/api/screening-credentials/invitations', isAuthenticated, async (req: any, res) => {
     try {
       const userId = getUserId(req);
-      const credentials = await storage.getLandlordScreeningCredentials(userId);
+      const account = await getSavedScreeningAccount(userId);
       
-      if (!credentials) {
+      if (!account) {
         return res.status(400).json({
           success: false,
           message: "No screening credentials configured",
         });
       }
       
-      // Decrypt credentials
-      const decrypted = decryptCredentials({
-        encryptedUsername: credentials.encryptedUsername,
-        encryptedPassword: credentials.encryptedPassword,
-        encryptionIv: credentials.encryptionIv,
-      });
-      
-      const result = await retrieveInvitations({ 
-        username: decrypted.username, 
-        password: decrypted.password 
-      });
+      const result = await account.provider.listPackages(account.credentials);
       
       if (result.success) {
         res.json({
           success: true,
-          invitations: result.invitations,
-          defaultInvitationId: credentials.defaultInvitationId,
+          invitations: result.packages,
+          defaultInvitationId: account.record?.defaultInvitationId,
         });
       } else {
         res.json({
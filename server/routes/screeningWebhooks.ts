@@ -0,0 +1,155 @@
+import type { Express } from "express";
+import { updateSubmissionStatusFromScreening } from "./_shared";
+import {
+  getScreeningProvider,
+  getScreeningWebhookSecret,
+  handleScreeningWebhook,
+  type ScreeningWebhookKind,
+} from "../screening";
+import { storage } from "../storage";
+
+export async function registerScreeningWebhooksRoutes(app: Express) {
+  // ============================================================
+  // WEBHOOK ROUTES (No Auth - called by screening providers)
+  // ============================================================
+
+  function verifyWebhookToken(token: string | undefined): boolean {
+    const webhookSecret = getScreeningWebhookSecret();
+    if (!webhookSecret) {
+      // Fail CLOSED in production: an unprotected screening webhook would let
+      // anyone write screening statuses/results. Only allow the open path in
+      // development so local testing without the secret still works.
+      if (process.env.NODE_ENV === "production") {
+        console.error("SCREENING_WEBHOOK_SECRET not set in production - rejecting webhook");
+        return false;
+      }
+      console.warn("SCREENING_WEBHOOK_SECRET not set - webhooks are unprotected (dev only)");
+      return true;
+    }
+    return token === webhookSecret;
+  }
+
+  // Helper to extract the payload from a webhook body. Western Verify's
+  // transport has varied (raw XML posted directly vs. form-urlencoded with the
+  // XML in a 'request' param), and these routes use a catch-all text body
+  // parser, so the body can arrive as either a parsed object or a raw string.
+  // Result webhooks are the ONLY authority for marking a screening complete,
+  // so this MUST never silently drop a valid payload. Handle every shape
+  // defensively; anything else (e.g. the mock provider's JSON) passes through
+  // as-is for the provider to parse.
+  function extractWebhookBody(req: any): string {
+    // Case 1: a body parser already produced an object with a 'request' field.
+    if (req.body && typeof req.body === 'object' && req.body.request) {
+      console.log("[Webhook] Extracted XML from parsed 'request' parameter");
+      return String(req.body.request);
+    }
+
+    // Case 2: raw string body (the catch-all text parser handles all content types).
+    if (typeof req.body === 'string') {
+      const raw = req.body.trim();
+
+      // 2a. Raw XML posted directly (the observed Western Verify format).
+      if (raw.startsWith('<')) {
+        return raw;
+      }
+
+      // 2b. Form-urlencoded posted as text, e.g. "request=%3C%3Fxml...%3E".
+      if (raw.includes('request=')) {
+        try {
+          const reqVal = new URLSearchParams(raw).get('request');
+          if (reqVal && reqVal.includes('<')) {
+            console.log("[Webhook] Extracted XML from URL-encoded 'request' field");
+            return reqVal;
+          }
+        } catch {
+          /* fall through */
+        }
+      }
+
+      // 2c. Whole body is URL-encoded XML without a key (decode best-effort).
+      if (raw.includes('%3C')) {
+        try {
+          const decoded = decodeURIComponent(raw);
+          if (decoded.includes('<')) {
+            console.log("[Webhook] Extracted XML by decoding URL-encoded body");
+            return decoded;
+          }
+        } catch {
+          /* fall through */
+        }
+      }
+
+      return raw;
+    }
+
+    return '';
+  }
+
+  async function receiveWebhook(req: any, res: any, providerId: string, kind: ScreeningWebhookKind) {
+    try {
+      const token = req.query.token as string | undefined;
+      if (!verifyWebhookToken(token)) {
+        console.warn(`Invalid webhook token received for ${providerId} ${kind} webhook`);
+        return res.status(401).send("Unauthorized");
+      }
+
+      console.log(`Received ${providerId} ${kind} webhook`);
+      console.log("[Webhook] Content-Type:", req.headers['content-type']);
+      console.log("[Webhook] Body type:", typeof req.body);
+      console.log("[Webhook] Body keys:", req.body && typeof req.body === 'object' ? Object.keys(req.body) : 'N/A');
+
+      const body = extractWebhookBody(req);
+      if (!body) {
+        console.warn("Empty webhook body received");
+        return res.status(400).send("Invalid webhook body");
+      }
+
+      console.log("[Webhook] Payload (first 500 chars):", body.substring(0, 500));
+
+      const result = await handleScreeningWebhook(providerId, kind, body);
+
+      if (result.success) {
+        // Auto-update submission status based on screening progress
+        if (result.submissionId) {
+          await updateSubmissionStatusFromScreening(result.submissionId);
+        }
+        res.status(200).send("OK");
+      } else {
+        res.status(400).send("Failed to process webhook");
+      }
+    } catch (error) {
+      console.error(`Error processing ${kind} webhook:`, error);
+      res.status(500).send("Internal error");
+    }
+  }
+
+  // Simulated report page the mock provider's result webhook points at.
+  // Registered ahead of the generic route so "report" isn't read as a kind.
+  app.get('/api/webhooks/screening/mock/report/:referenceNumber', async (req, res) => {
+    if (!getScreeningProvider('mock')?.isAvailable()) {
+      return res.status(404).send("Not found");
+    }
+    const order = await storage.getRentalScreeningOrderByReference(req.params.referenceNumber);
+    if (!order || order.provider !== 'mock') {
+      return res.status(404).send("Not found");
+    }
+    res.type('html').send(
+      `<!doctype html><title>Mock screening report</title>` +
+      `<h1>Mock screening report</h1>` +
+      `<p>Reference ${order.referenceNumber.replace(/[^A-Za-z0-9-]/g, '')}</p>` +
+      `<p>This report was produced by the mock screening provider. It contains no consumer data.</p>`
+    );
+  });
+
+  app.post('/api/webhooks/screening/:provider/:kind', async (req, res) => {
+    const { provider, kind } = req.params;
+    if (kind !== 'status' && kind !== 'result') {
+      return res.status(404).send("Not found");
+    }
+    await receiveWebhook(req, res, provider, kind);
+  });
+
+  // Orders placed before providers were pluggable carry these URLs.
+  app.post('/api/webhooks/digitaldelve/status', (req, res) => receiveWebhook(req, res, 'digitaldelve', 'status'));
+  app.post('/api/webhooks/digitaldelve/result', (req, res) => receiveWebhook(req, res, 'digitaldelve', 'result'));
+}
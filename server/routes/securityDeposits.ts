@@ -0,0 +1,487 @@
+import type { Express } from "express";
+import { storage } from "../storage";
+import { isAuthenticated, requireAccess } from "../jwtAuth";
+import type { SecurityDeposit, SecurityDepositDeduction, Tenancy } from "@shared/schema";
+import { CHECKLIST_CONDITIONS, isChecklistItem } from "@shared/moveOutChecklist";
+import {
+  computeDepositDisposition,
+  computeDepositInterestCents,
+  daysUntilDate,
+  SECURITY_DEPOSIT_TYPES,
+} from "@shared/securityDeposit";
+import {
+  computeReturnDeadline,
+  getDepositInterestRequirement,
+  getDepositReturnRule,
+  resolveTenancyState,
+} from "../utils/depositEngine";
+import { generateDepositItemizationLetterPdf } from "../utils/depositItemizationLetter";
+import { isValidDate, parseDollarsToCents, today } from "../utils/validation";
+import { getUserId } from "./_shared";
+
+const DEPOSIT_TYPE_VALUES = SECURITY_DEPOSIT_TYPES.map((t) => t.value);
+const CONDITION_CODES: string[] = CHECKLIST_CONDITIONS.map((c) => c.code);
+
+// Interest rate is optional; blank clears it. Returns undefined when absent
+// and NaN when invalid.
+function parseInterestRate(value: unknown): number | null | undefined {
+  if (value === undefined) return undefined;
+  if (value === null || value === '') return null;
+  const parsed = parseFloat(String(value));
+  return Number.isFinite(parsed) && parsed >= 0 && parsed <= 25 ? parsed : NaN;
+}
+
+// Interest runs to the disposition date once disposed, otherwise to today
+// (a preview of what would be owed if disposed now).
+function dispositionFor(deposit: SecurityDeposit, deductions: SecurityDepositDeduction[], throughDate?: string) {
+  const deductionsCents = deductions.reduce((sum, d) => sum + d.amount, 0);
+  const interestCents = deposit.status === 'disposed'
+    ? deposit.interestAmount
+    : computeDepositInterestCents({
+        amountCents: deposit.amount,
+        annualRatePct: deposit.interestRatePct,
+        collectedDate: String(deposit.collectedDate),
+        throughDate: throughDate || today(),
+      });
+  return computeDepositDisposition({ depositCents: deposit.amount, interestCents, deductionsCents });
+}
+
+function withCountdown(deposit: SecurityDeposit) {
+  const daysUntilDeadline = deposit.returnDeadline && deposit.status !== 'disposed'
+    ? daysUntilDate(String(deposit.returnDeadline))
+    : null;
+  return { ...deposit, daysUntilDeadline };
+}
+
+async function tenantNamesFor(tenancy: Tenancy): Promise<string[]> {
+  const occupants = await storage.getTenancyOccupants(tenancy.id);
+  return occupants.filter((o) => o.role === 'tenant').map((o) => o.fullName);
+}
+
+async function loadDeposit(id: string, userId: string) {
+  const deposit = await storage.getSecurityDeposit(id, userId);
+  if (!deposit) return null;
+  const tenancy = await storage.getTenancy(deposit.tenancyId, userId);
+  if (!tenancy) return null;
+  return { deposit, tenancy };
+}
+
+// Keep the denormalized total on the deposit row in step with its line items.
+async function refreshDeductionTotal(deposit: SecurityDeposit, userId: string) {
+  const deductions = await storage.getSecurityDepositDeductions(deposit.id);
+  const totalDeductions = deductions.reduce((sum, d) => sum + d.amount, 0);
+  const updated = await storage.updateSecurityDeposit(deposit.id, userId, { totalDeductions });
+  return { deposit: updated || deposit, deductions };
+}
+
+export async function registerSecurityDepositsRoutes(app: Express) {
+  // Return period and interest requirement for the tenancy's state, used to
+  // prefill the deposit form and explain the countdown.
+  app.get('/api/tenancies/:tenancyId/deposit-rules', isAuthenticated, requireAccess, async (req: any, res) => {
+    try {
+      const userId = getUserId(req);
+      const tenancy = await storage.getTenancy(req.params.tenancyId, userId);
+      if (!tenancy) return res.status(404).json({ message: "Tenancy not found" });
+
+      const stateId = await resolveTenancyState(tenancy);
+      const [returnRule, interest] = await Promise.all([
+        getDepositReturnRule(stateId),
+        getDepositInterestRequirement(stateId),
+      ]);
+      res.json({ stateId, returnRule, interest });
+    } catch (error) {
+      console.error("Error fetching deposit rules:", error);
+      res.status(500).json({ message: "Failed to fetch deposit rules" });
+    }
+  });
+
+  app.get('/api/tenancies/:tenancyId/deposits', isAuthenticated, requireAccess, async (req: any, res) => {
+    try {
+      const userId = getUserId(req);
+      const tenancy = await storage.getTenancy(req.params.tenancyId, userId);
+      if (!tenancy) return res.status(404).json({ message: "Tenancy not found" });
+
+      const deposits = await storage.getSecurityDepositsByTenancy(tenancy.id, userId);
+      const enriched = await Promise.all(deposits.map(async (d) => {
+        const deductions = await storage.getSecurityDepositDeductions(d.id);
+        return { ...withCountdown(d), deductions, disposition: dispositionFor(d, deductions) };
+      }));
+      res.json(enriched);
+    } catch (error) {
+      console.error("Error fetching deposits:", error);
+      res.status(500).json({ message: "Failed to fetch deposits" });
+    }
+  });
+
+  // Record a deposit collected for a tenancy. Amount and collection date
+  // default to the lease terms; the interest rate defaults to the state's
+  // required rate when one is on file.
+  app.post('/api/tenancies/:tenancyId/deposits', isAuthenticated, requireAccess, async (req: any, res) => {
+    try {
+      const userId = getUserId(req);
+      const tenancy = await storage.getTenancy(req.params.tenancyId, userId);
+      if (!tenancy) return res.status(404).json({ message: "Tenancy not found" });
+
+      const body = req.body || {};
+      const amountCents = parseDollarsToCents(body.amountDollars);
+      if (amountCents === null) {
+        return res.status(400).json({ message: "Deposit amount must be a non-negative number" });
+      }
+      const amount = amountCents ?? tenancy.securityDeposit;
+      if (!amount) {
+        return res.status(400).json({ message: "Deposit amount must be greater than $0" });
+      }
+      if (body.collectedDate !== undefined && !isValidDate(body.collectedDate)) {
+        return res.status(400).json({ message: "collectedDate is not a valid date" });
+      }
+      const depositType = body.depositType ?? 'security';
+      if (!DEPOSIT_TYPE_VALUES.includes(depositType)) {
+        return res.status(400).json({ message: `depositType must be one of: ${DEPOSIT_TYPE_VALUES.join(', ')}` });
+      }
+      let interestRatePct = parseInterestRate(body.interestRatePct);
+      if (Number.isNaN(interestRatePct)) {
+        return res.status(400).json({ message: "Interest rate must be between 0 and 25 percent" });
+      }
+      if (interestRatePct === undefined) {
+        const interest = await getDepositInterestRequirement(await resolveTenancyState(tenancy));
+        interestRatePct = interest?.ratePct ?? null;
+      }
+
+      const created = await storage.createSecurityDeposit({
+        userId,
+        tenancyId: tenancy.id,
+        depositType,
+        amount,
+        collectedDate: body.collectedDate || String(tenancy.startDate),
+        holdingAccount: body.holdingAccount ? String(body.holdingAccount).trim() : null,
+        interestRatePct,
+        forwardingAddress: body.forwardingAddress ? String(body.forwardingAddress).trim() : null,
+        notes: body.notes ? String(body.notes) : null,
+      });
+      res.status(201).json({ ...withCountdown(created), deductions: [], disposition: dispositionFor(created, []) });
+    } catch (error) {
+      console.error("Error creating deposit:", error);
+      res.status(500).json({ message: "Failed to create deposit" });
+    }
+  });
+
+  // All deposits for the landlord with the tenant names attached, soonest
+  // return deadline first.
+  app.get('/api/deposits', isAuthenticated, requireAccess, async (req: any, res) => {
+    try {
+      const userId = getUserId(req);
+      const deposits = await storage.getSecurityDeposits(userId);
+      const enriched = await Promise.all(deposits.map(async (d) => {
+        const tenancy = await storage.getTenancy(d.tenancyId, userId);
+        return { ...withCountdown(d), tenantNames: tenancy ? await tenantNamesFor(tenancy) : [] };
+      }));
+      enriched.sort((a, b) => (a.daysUntilDeadline ?? Infinity) - (b.daysUntilDeadline ?? Infinity));
+      res.json(enriched);
+    } catch (error) {
+      console.error("Error fetching deposits:", error);
+      res.status(500).json({ message: "Failed to fetch deposits" });
+    }
+  });
+
+  app.get('/api/deposits/:id', isAuthenticated, requireAccess, async (req: any, res) => {
+    try {
+      const userId = getUserId(req);
+      const loaded = await loadDeposit(req.params.id, userId);
+      if (!loaded) return res.status(404).json({ message: "Deposit not found" });
+
+      const deductions = await storage.getSecurityDepositDeductions(loaded.deposit.id);
+      res.json({
+        ...withCountdown(loaded.deposit),
+        deductions,
+        disposition: dispositionFor(loaded.deposit, deductions),
+        tenantNames: await tenantNamesFor(loaded.tenancy),
+      });
+    } catch (error) {
+      console.error("Error fetching deposit:", error);
+      res.status(500).json({ message: "Failed to fetch deposit" });
+    }
+  });
+
+  // Update deposit details. Setting a move-out date fixes the statutory return
+  // deadline from the tenancy's state and starts the countdown; clearing it
+  // puts the deposit back to held. Disposed deposits are read-only.
+  app.patch('/api/deposits/:id', isAuthenticated, requireAccess, async (req: any, res) => {
+    try {
+      const userId = getUserId(req);
+      const loaded = await loadDeposit(req.params.id, userId);
+      if (!loaded) return res.status(404).json({ message: "Deposit not found" });
+      const { deposit, tenancy } = loaded;
+      if (deposit.status === 'disposed') {
+        return res.status(409).json({ message: "This deposit has already been disposed" });
+      }
+
+      const body = req.body || {};
+      const updates: Partial<SecurityDeposit> = {};
+
+      if (body.amountDollars !== undefined) {
+        const cents = parseDollarsToCents(body.amountDollars);
+        if (!cents) return res.status(400).json({ message: "Deposit amount must be greater than $0" });
+        updates.amount = cents;
+      }
+      if (body.collectedDate !== undefined) {
+        if (!isValidDate(body.collectedDate)) return res.status(400).json({ message: "collectedDate is not a valid date" });
+        updates.collectedDate = body.collectedDate;
+      }
+      if (body.depositType !== undefined) {
+        if (!DEPOSIT_TYPE_VALUES.includes(body.depositType)) {
+          return res.status(400).json({ message: `depositType must be one of: ${DEPOSIT_TYPE_VALUES.join(', ')}` });
+        }
+        updates.depositType = body.depositType;
+      }
+      if (body.interestRatePct !== undefined) {
+        const rate = parseInterestRate(body.interestRatePct);
+        if (Number.isNaN(rate)) return res.status(400).json({ message: "Interest rate must be between 0 and 25 percent" });
+        updates.interestRatePct = rate ?? null;
+      }
+      if (body.holdingAccount !== undefined) {
+        updates.holdingAccount = body.holdingAccount ? String(body.holdingAccount).trim() : null;
+      }
+      if (body.forwardingAddress !== undefined) {
+        updates.forwardingAddress = body.forwardingAddress ? String(body.forwardingAddress).trim() : null;
+      }
+      if (body.notes !== undefined) {
+        updates.notes = body.notes ? String(body.notes) : null;
+      }
+      if (body.moveOutDate !== undefined) {
+        if (body.moveOutDate) {
+          if (!isValidDate(body.moveOutDate)) return res.status(400).json({ message: "moveOutDate is not a valid date" });
+          const { returnDeadline, rule } = await computeReturnDeadline(await resolveTenancyState(tenancy), body.moveOutDate);
+          updates.moveOutDate = body.moveOutDate;
+          updates.returnDeadline = returnDeadline;
+          updates.returnDeadlineDays = rule.days;
+          updates.returnDeadlineCitation = rule.statuteCitation;
+          updates.status = 'awaiting_disposition';
+        } else {
+          updates.moveOutDate = null;
+          updates.returnDeadline = null;
+          updates.returnDeadlineDays = null;
+          updates.returnDeadlineCitation = null;
+          updates.status = 'held';
+        }
+      }
+
+      const updated = await storage.updateSecurityDeposit(deposit.id, userId, updates);
+      if (!updated) return res.status(404).json({ message: "Deposit not found" });
+      const deductions = await storage.getSecurityDepositDeductions(updated.id);
+      res.json({ ...withCountdown(updated), deductions, disposition: dispositionFor(updated, deductions) });
+    } catch (error) {
+      console.error("Error updating deposit:", error);
+      res.status(500).json({ message: "Failed to update deposit" });
+    }
+  });
+
+  // Disposed deposits are kept as the record of what was returned.
+  app.delete('/api/deposits/:id', isAuthenticated, requireAccess, async (req: any, res) => {
+    try {
+      const userId = getUserId(req);
+      const deposit = await storage.getSecurityDeposit(req.params.id, userId);
+      if (!deposit) return res.status(404).json({ message: "Deposit not found" });
+      if (deposit.status === 'disposed') {
+        return res.status(409).json({ message: "A disposed deposit cannot be deleted" });
+      }
+      await storage.deleteSecurityDeposit(deposit.id, userId);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting deposit:", error);
+      res.status(500).json({ message: "Failed to delete deposit" });
+    }
+  });
+
+  // Add a deduction line. Room/item must name a move-out checklist finding
+  // when given; free-form lines (unpaid rent, cleaning) leave them blank.
+  app.post('/api/deposits/:id/deductions', isAuthenticated, requireAccess, async (req: any, res) => {
+    try {
+      const userId = getUserId(req);
+      const deposit = await storage.getSecurityDeposit(req.params.id, userId);
+      if (!deposit) return res.status(404).json({ message: "Deposit not found" });
+      if (deposit.status === 'disposed') {
+        return res.status(409).json({ message: "This deposit has already been disposed" });
+      }
+
+      const body = req.body || {};
+      const description = String(body.description ?? '').trim();
+      if (!description) return res.status(400).json({ message: "A description is required" });
+      const amount = parseDollarsToCents(body.amountDollars);
+      if (!amount) return res.status(400).json({ message: "Deduction amount must be greater than $0" });
+
+      const checklistRoom = body.checklistRoom ? String(body.checklistRoom) : null;
+      const checklistItem = body.checklistItem ? String(body.checklistItem) : null;
+      if ((checklistRoom || checklistItem) && !(checklistRoom && checklistItem && isChecklistItem(checklistRoom, checklistItem))) {
+        return res.status(400).json({ message: "Room and item must match the move-out checklist" });
+      }
+      const condition = body.condition ? String(body.condition) : null;
+      if (condition && !CONDITION_CODES.includes(condition)) {
+        return res.status(400).json({ message: `condition must be one of: ${CONDITION_CODES.join(', ')}` });
+      }
+
+      const deduction = await storage.createSecurityDepositDeduction({
+        depositId: deposit.id,
+        checklistRoom,
+        checklistItem,
+        condition,
+        description,
+        amount,
+      });
+      const refreshed = await refreshDeductionTotal(deposit, userId);
+      res.status(201).json({
+        deduction,
+        deposit: {
+          ...withCountdown(refreshed.deposit),
+          deductions: refreshed.deductions,
+          disposition: dispositionFor(refreshed.deposit, refreshed.deductions),
+        },
+      });
+    } catch (error) {
+      console.error("Error adding deposit deduction:", error);
+      res.status(500).json({ message: "Failed to add deduction" });
+    }
+  });
+
+  app.delete('/api/deposits/:id/deductions/:deductionId', isAuthenticated, requireAccess, async (req: any, res) => {
+    try {
+      const userId = getUserId(req);
+      const deposit = await storage.getSecurityDeposit(req.params.id, userId);
+      if (!deposit) return res.status(404).json({ message: "Deposit not found" });
+      if (deposit.status === 'disposed') {
+        return res.status(409).json({ message: "This deposit has already been disposed" });
+      }
+      const deleted = await storage.deleteSecurityDepositDeduction(req.params.deductionId, deposit.id);
+      if (!deleted) return res.status(404).json({ message: "Deduction not found" });
+      await refreshDeductionTotal(deposit, userId);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting deposit deduction:", error);
+      res.status(500).json({ message: "Failed to delete deduction" });
+    }
+  });
+
+  // Final disposition: fix interest and totals, post one ledger entry for the
+  // deductions paid out of the deposit (any shortfall stays open as a balance
+  // due) and mark the deposit disposed. The itemization letter is then
+  // available from the endpoint below.
+  app.post('/api/deposits/:id/disposition', isAuthenticated, requireAccess, async (req: any, res) => {
+    try {
+      const userId = getUserId(req);
+      const loaded = await loadDeposit(req.params.id, userId);
+      if (!loaded) return res.status(404).json({ message: "Deposit not found" });
+      const { deposit, tenancy } = loaded;
+      if (deposit.status === 'disposed') {
+        return res.status(409).json({ message: "This deposit has already been disposed" });
+      }
+      if (!deposit.moveOutDate) {
+        return res.status(400).json({ message: "Enter the move-out date before disposing of the deposit" });
+      }
+
+      const body = req.body || {};
+      if (body.dispositionDate !== undefined && !isValidDate(body.dispositionDate)) {
+        return res.status(400).json({ message: "dispositionDate is not a valid date" });
+      }
+      const dispositionDate: string = body.dispositionDate || today();
+      const deductions = await storage.getSecurityDepositDeductions(deposit.id);
+      const disposition = dispositionFor(deposit, deductions, dispositionDate);
+      const tenantNames = await tenantNamesFor(tenancy);
+
+      const noteParts = [
+        `Deposit ${(disposition.depositCents / 100).toFixed(2)}`,
+        disposition.interestCents > 0 ? `interest ${(disposition.interestCents / 100).toFixed(2)}` : null,
+        `deductions ${(disposition.deductionsCents / 100).toFixed(2)} (${deductions.length} item${deductions.length === 1 ? '' : 's'})`,
+        `refunded ${(disposition.refundCents / 100).toFixed(2)}`,
+        disposition.balanceDueCents > 0 ? `balance due ${(disposition.balanceDueCents / 100).toFixed(2)}` : null,
+      ].filter(Boolean);
+
+      const result = await storage.disposeSecurityDepositInTransaction(deposit.id, {
+        userId,
+        propertyId: tenancy.rentalPropertyId,
+        tenancyId: tenancy.id,
+        tenantName: tenantNames[0] || 'Tenant',
+        month: dispositionDate.slice(0, 7),
+        effectiveDate: new Date(`${dispositionDate}T00:00:00Z`),
+        type: 'charge',
+        category: 'Deposit',
+        description: 'Security deposit deductions',
+        amountExpected: disposition.deductionsCents,
+        amountReceived: disposition.appliedCents,
+        paymentDate: new Date(`${dispositionDate}T00:00:00Z`),
+        paymentMethod: 'Security deposit',
+        referenceNumber: null,
+        notes: `${noteParts.join('; ')}.`,
+        statuteCitation: deposit.returnDeadlineCitation,
+      }, {
+        dispositionDate,
+        interestAmount: disposition.interestCents,
+        totalDeductions: disposition.deductionsCents,
+        amountReturned: disposition.refundCents,
+      });
+      if (!result) {
+        return res.status(409).json({ message: "This deposit has already been disposed" });
+      }
+
+      res.json({
+        ...withCountdown(result.deposit),
+        deductions,
+        disposition,
+        ledgerEntry: result.ledgerEntry,
+        // Disposed after the statutory deadline - many states forfeit the
+        // right to withhold anything in that case; the landlord should know.
+        pastDeadline: !!deposit.returnDeadline && dispositionDate > String(deposit.returnDeadline),
+      });
+    } catch (error) {
+      console.error("Error disposing deposit:", error);
+      res.status(500).json({ message: "Failed to dispose of deposit" });
+    }
+  });
+
+  // Itemized statement of deductions. Before disposition this is a preview
+  // with interest calculated through today.
+  app.get('/api/deposits/:id/itemization-letter', isAuthenticated, requireAccess, async (req: any, res) => {
+    try {
+      const userId = getUserId(req);
+      const loaded = await loadDeposit(req.params.id, userId);
+      if (!loaded) return res.status(404).json({ message: "Deposit not found" });
+      const { deposit, tenancy } = loaded;
+      if (!deposit.moveOutDate) {
+        return res.status(400).json({ message: "Enter the move-out date before generating the itemization letter" });
+      }
+
+      const deductions = await storage.getSecurityDepositDeductions(deposit.id);
+      const property = tenancy.rentalPropertyId
+        ? await storage.getRentalProperty(tenancy.rentalPropertyId, userId)
+        : null;
+      const unit = tenancy.rentalUnitId ? await storage.getRentalUnit(tenancy.rentalUnitId) : null;
+      const premisesAddress = [
+        property?.address || property?.name,
+        unit?.unitLabel,
+        [property?.city, property?.state].filter(Boolean).join(', '),
+        property?.zipCode,
+      ].filter(Boolean).join(', ') || 'the rental premises';
+
+      const user = await storage.getUser(userId);
+      const landlordName = user?.firstName && user?.lastName
+        ? `${user.firstName} ${user.lastName}`
+        : user?.businessName || 'Landlord';
+
+      const pdf = await generateDepositItemizationLetterPdf({
+        deposit,
+        deductions,
+        disposition: dispositionFor(deposit, deductions),
+        tenantNames: await tenantNamesFor(tenancy),
+        premisesAddress,
+        landlordName,
+        stateId: property?.state || null,
+        returnDeadlineCitation: deposit.returnDeadlineCitation,
+      });
+
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `attachment; filename="deposit-itemization-${deposit.moveOutDate}.pdf"`);
+      res.send(pdf);
+    } catch (error) {
+      console.error("Error generating itemization letter:", error);
+      res.status(500).json({ message: "Failed to generate itemization letter" });
+    }
+  });
+}
@@ -0,0 +1,275 @@
+import type { Express } from 'express';
+import { z } from 'zod';
+import { db } from '../db';
+import { states } from '@shared/schema';
+import { isAuthenticated, requireAdmin } from '../jwtAuth';
+import { storage } from '../storage';
+import { getUserId } from './_shared';
+import { DISCLOSURE_CATEGORIES, DISCLOSURE_STATUSES } from '@shared/stateDisclosures';
+import { BUILT_IN_EFFECTIVE_DATE, BUILT_IN_STATE_DISCLOSURES } from '../states/disclosures';
+import { eq } from 'drizzle-orm';
+
+const categories = DISCLOSURE_CATEGORIES.map((c) => c.value) as [string, ...string[]];
+
+const disclosureFieldsSchema = z.object({
+  title: z.string().trim().min(1).max(200),
+  body: z.string().trim().min(1).max(10000),
+  citation: z.string().trim().max(500).nullable().optional(),
+  category: z.enum(categories).nullable().optional(),
+  sortOrder: z.number().int().min(0).max(1000).optional(),
+  effectiveDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Effective date must be YYYY-MM-DD'),
+});
+
+// A new key, or the next version of an existing one. Always starts as a draft.
+const createDisclosureSchema = disclosureFieldsSchema.extend({
+  stateId: z.string().length(2).transform((s) => s.toUpperCase()),
+  disclosureKey: z.string().regex(/^[a-z0-9_]{2,64}$/, 'Key must be lowercase letters, numbers and underscores'),
+});
+
+const reviewSchema = z.object({
+  reviewNotes: z.string().trim().max(2000).nullable().optional(),
+});
+
+export async function registerStateDisclosuresRoutes(app: Express) {
+  // Every version for a state (or all states), newest version first per key
+  app.get('/api/admin/state-disclosures', isAuthenticated, requireAdmin, async (req, res) => {
+    try {
+      const stateId = (req.query.stateId as string | undefined)?.toUpperCase();
+      const status = req.query.status as string | undefined;
+      if (status && !(DISCLOSURE_STATUSES as readonly string[]).includes(status)) {
+        return res.status(400).json({ message: `Unknown status: ${status}` });
+      }
+      const disclosures = await storage.getStateDisclosures({
+        stateId,
+        status,
+        needsReview: req.query.needsReview === 'true' ? true : undefined,
+      });
+      res.json({
+        disclosures,
+        builtInStates: Object.keys(BUILT_IN_STATE_DISCLOSURES),
+      });
+    } catch (error) {
+      console.error('Error listing state disclosures:', error);
+      res.status(500).json({ message: 'Failed to list state disclosures' });
+    }
+  });
+
+  app.post('/api/admin/state-disclosures', isAuthenticated, requireAdmin, async (req, res) => {
+    try {
+      const parsed = createDisclosureSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+      const data = parsed.data;
+      const [state] = await db.select().from(states).where(eq(states.id, data.stateId)).limit(1);
+      if (!state) {
+        return res.status(400).json({ message: `Unknown state: ${data.stateId}` });
+      }
+
+      const latestVersion = await storage.getLatestStateDisclosureVersion(data.stateId, data.disclosureKey);
+      const disclosure = await storage.createStateDisclosure({
+        ...data,
+        citation: data.citation || null,
+        category: data.category || null,
+        version: latestVersion + 1,
+        status: 'draft',
+        createdBy: getUserId(req),
+      });
+      res.status(201).json(disclosure);
+    } catch (error) {
+      console.error('Error creating state disclosure:', error);
+      res.status(500).json({ message: 'Failed to create state disclosure' });
+    }
+  });
+
+  // Only drafts can be edited - approved text changes through a new version.
+  app.patch('/api/admin/state-disclosures/:id', isAuthenticated, requireAdmin, async (req, res) => {
+    try {
+      const existing = await storage.getStateDisclosure(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: 'State disclosure not found' });
+      }
+      if (existing.status !== 'draft') {
+        return res.status(400).json({ message: 'Only drafts can be edited. Create a new version instead.' });
+      }
+      const parsed = disclosureFieldsSchema.partial().safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+      const data = parsed.data;
+      const disclosure = await storage.updateStateDisclosure(existing.id, {
+        ...data,
+        ...(data.citation === undefined ? {} : { citation: data.citation || null }),
+        ...(data.category === undefined ? {} : { category: data.category || null }),
+      });
+      res.json(disclosure);
+    } catch (error) {
+      console.error('Error updating state disclosure:', error);
+      res.status(500).json({ message: 'Failed to update state disclosure' });
+    }
+  });
+
+  app.post('/api/admin/state-disclosures/:id/submit', isAuthenticated, requireAdmin, async (req, res) => {
+    try {
+      const existing = await storage.getStateDisclosure(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: 'State disclosure not found' });
+      }
+      if (existing.status !== 'draft') {
+        return res.status(400).json({ message: 'Only drafts can be submitted for review' });
+      }
+      const disclosure = await storage.updateStateDisclosure(existing.id, {
+        status: 'in_review',
+        submittedAt: new Date(),
+      });
+      res.json(disclosure);
+    } catch (error) {
+      console.error('Error submitting state disclosure:', error);
+      res.status(500).json({ message: 'Failed to submit state disclosure' });
+    }
+  });
+
+  // Approving a version answers any open review flag on the same key.
+  app.post('/api/admin/state-disclosures/:id/approve', isAuthenticated, requireAdmin, async (req, res) => {
+    try {
+      const existing = await storage.getStateDisclosure(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: 'State disclosure not found' });
+      }
+      if (existing.status !== 'in_review') {
+        return res.status(400).json({ message: 'Only disclosures in review can be approved' });
+      }
+      const parsed = reviewSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+
+      const disclosure = await storage.updateStateDisclosure(existing.id, {
+        status: 'approved',
+        reviewedByUserId: getUserId(req),
+        reviewedAt: new Date(),
+        reviewNotes: parsed.data.reviewNotes || null,
+      });
+      const flagged = await storage.getStateDisclosures({ stateId: existing.stateId, needsReview: true });
+      for (const other of flagged) {
+        if (other.disclosureKey !== existing.disclosureKey) continue;
+        await storage.updateStateDisclosure(other.id, { needsReview: false });
+      }
+      res.json(disclosure);
+    } catch (error) {
+      console.error('Error approving state disclosure:', error);
+      res.status(500).json({ message: 'Failed to approve state disclosure' });
+    }
+  });
+
+  // Send a version in review back to draft with the reviewer's notes.
+  app.post('/api/admin/state-disclosures/:id/reject', isAuthenticated, requireAdmin, async (req, res) => {
+    try {
+      const existing = await storage.getStateDisclosure(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: 'State disclosure not found' });
+      }
+      if (existing.status !== 'in_review') {
+        return res.status(400).json({ message: 'Only disclosures in review can be sent back' });
+      }
+      const parsed = reviewSchema.safeParse(req.body);
+      if (!parsed.success || !parsed.data.reviewNotes) {
+        return res.status(400).json({ message: 'Review notes are required when sending a disclosure back' });
+      }
+      const disclosure = await storage.updateStateDisclosure(existing.id, {
+        status: 'draft',
+        reviewedByUserId: getUserId(req),
+        reviewedAt: new Date(),
+        reviewNotes: parsed.data.reviewNotes,
+      });
+      res.json(disclosure);
+    } catch (error) {
+      console.error('Error rejecting state disclosure:', error);
+      res.status(500).json({ message: 'Failed to send state disclosure back' });
+    }
+  });
+
+  // Archived versions never render, including on leases dated while they were in effect.
+  app.post('/api/admin/state-disclosures/:id/archive', isAuthenticated, requireAdmin, async (req, res) => {
+    try {
+      const existing = await storage.getStateDisclosure(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: 'State disclosure not found' });
+      }
+      const disclosure = await storage.updateStateDisclosure(existing.id, { status: 'archived', needsReview: false });
+      res.json(disclosure);
+    } catch (error) {
+      console.error('Error archiving state disclosure:', error);
+      res.status(500).json({ message: 'Failed to archive state disclosure' });
+    }
+  });
+
+  // Clear a legislative review flag when the bill needs no change to the text.
+  app.post('/api/admin/state-disclosures/:id/resolve-review', isAuthenticated, requireAdmin, async (req, res) => {
+    try {
+      const existing = await storage.getStateDisclosure(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: 'State disclosure not found' });
+      }
+      const parsed = reviewSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+      const disclosure = await storage.updateStateDisclosure(existing.id, {
+        needsReview: false,
+        reviewedByUserId: getUserId(req),
+        reviewedAt: new Date(),
+        reviewNotes: parsed.data.reviewNotes || existing.reviewNotes,
+      });
+      res.json(disclosure);
+    } catch (error) {
+      console.error('Error resolving state disclosure review:', error);
+      res.status(500).json({ message: 'Failed to resolve review' });
+    }
+  });
+
+  // Idempotently import the built-in text as approved version 1 for states
+  // that have nothing in the library yet. States with any rows are skipped.
+  app.post('/api/admin/state-disclosures/import-built-in', isAuthenticated, requireAdmin, async (req, res) => {
+    try {
+      const userId = getUserId(req);
+      const [knownStates, existing] = await Promise.all([
+        db.select({ id: states.id }).from(states),
+        storage.getStateDisclosures(),
+      ]);
+      const known = new Set(knownStates.map((s) => s.id));
+      const populated = new Set(existing.map((d) => d.stateId));
+
+      let imported = 0;
+      const importedStates: string[] = [];
+      for (const [stateId, disclosures] of Object.entries(BUILT_IN_STATE_DISCLOSURES)) {
+        if (!known.has(stateId) || populated.has(stateId)) continue;
+        for (let index = 0; index < disclosures.length; index++) {
+          const d = disclosures[index];
+          await storage.createStateDisclosure({
+            stateId,
+            disclosureKey: d.key,
+            title: d.title,
+            body: d.body,
+            citation: d.citation,
+            category: d.category,
+            sortOrder: (index + 1) * 10,
+            version: 1,
+            effectiveDate: BUILT_IN_EFFECTIVE_DATE,
+            status: 'approved',
+            createdBy: userId,
+            reviewedByUserId: userId,
+            reviewedAt: new Date(),
+            reviewNotes: 'Imported from built-in disclosures',
+          });
+          imported++;
+        }
+        importedStates.push(stateId);
+      }
+      res.json({ success: true, imported, states: importedStates });
+    } catch (error) {
+      console.error('Error importing built-in state disclosures:', error);
+      res.status(500).json({ message: 'Failed to import built-in disclosures' });
+    }
+  });
+}
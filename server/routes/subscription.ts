@@ -7,6 +7,7 @@ import { users, rentLedgerEntries } from "@shared/schema";
 import { db } from "../db";
 import { emailService } from "../emailService";
 import { stripe, getUserId } from "./_shared";
+import { paymentRequestWording } from "@shared/paymentRequests";
 
 export async function registerSubscriptionRoutes(app: Express) {
   // Stripe subscription routes
@@ -628,6 +629,9 @@ export async function registerSubscriptionRoutes(app: Express) {
       feeNotesParts.push(`LeaseShield platform fee $${(existing.platformFeeAmount/100).toFixed(2)} deducted at settlement`);
     }
     const feeNotes = feeNotesParts.length > 0 ? feeNotesParts.join(' • ') : null;
+    // Holding deposits and application fees post under their own category so
+    // the income reports don't count them as rent.
+    const wording = paymentRequestWording(existing.requestType);
 
     const result = await storage.finalizeRentPaymentInTransaction(
       requestId,
@@ -635,17 +639,16 @@ export async function registerSubscriptionRoutes(app: Express) {
       rentPortionReceived,
       {
         userId: existing.userId,
-        // NOTE: rent_ledger_entries.propertyId FK still references the legacy
-        // `properties` table; new rental_properties IDs cannot be set directly
-        // here without a separate schema migration. Property name is preserved
-        // in description/notes for visibility and is rendered in the UI.
-        propertyId: null,
+        propertyId: existing.rentalPropertyId,
+        tenancyId: existing.tenancyId,
         tenantName: existing.tenantName,
         month: monthStr,
         effectiveDate: new Date(),
         type: 'payment',
-        category: 'Rent',
-        description: `Online ACH payment via Stripe (req ${existing.id.slice(0, 8)})`,
+        category: wording.ledgerCategory,
+        description: existing.requestType === 'rent'
+          ? `Online ACH payment via Stripe (req ${existing.id.slice(0, 8)})`
+          : `${wording.item} paid online via Stripe (req ${existing.id.slice(0, 8)})`,
         // Record the rent portion only - fees are separately accounted for on
         // the request row and surfaced to the landlord as informational notes.
         amountExpected: existing.amount,
@@ -718,6 +721,7 @@ export async function registerSubscriptionRoutes(app: Express) {
             receiptUrl,
             rentDollars,
             serviceFeeDollars: tenantServiceFeeDollars,
+            requestType: r.requestType,
           },
         );
       } catch (emailErr) {
@@ -741,6 +745,7 @@ export async function registerSubscriptionRoutes(app: Express) {
             platformFeeDollars,
             tenantTotalDollars,
             netToLandlordDollars,
+            requestType: r.requestType,
           },
         );
       } catch (emailErr) {
@@ -786,10 +791,8 @@ export async function registerSubscriptionRoutes(app: Express) {
 
       await storage.createRentLedgerEntry({
         userId: r.userId,
-        // Same FK caveat as the success path: rent_ledger_entries.propertyId
-        // references the legacy `properties` table; new rentalProperties IDs
-        // can't be set directly without a migration.
-        propertyId: null,
+        propertyId: r.rentalPropertyId,
+        tenancyId: r.tenancyId,
         tenantName: r.tenantName,
         month: monthStr,
         effectiveDate: new Date(),
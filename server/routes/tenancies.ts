@@ -0,0 +1,336 @@
+import type { Express } from "express";
+import { storage } from "../storage";
+import { isAuthenticated, requireAccess } from "../jwtAuth";
+import type { InsertTenancyOccupant, Tenancy } from "@shared/schema";
+import { isValidDate, parseDollarsToCents } from "../utils/validation";
+import { getActingUserId, getUserId } from "./_shared";
+
+const TENANCY_STATUSES = ['pending', 'active', 'ended', 'canceled'] as const;
+const OCCUPANT_ROLES = ['tenant', 'occupant', 'guarantor'] as const;
+
+function clampDueDay(value: unknown): number {
+  return Math.min(28, Math.max(1, parseInt(String(value ?? '1'), 10) || 1));
+}
+
+function normalizeOccupants(raw: unknown): InsertTenancyOccupant[] | null {
+  if (!Array.isArray(raw)) return null;
+  const out: InsertTenancyOccupant[] = [];
+  for (const o of raw) {
+    const fullName = String(o?.fullName ?? '').trim();
+    if (!fullName) return null;
+    const role = OCCUPANT_ROLES.includes(o?.role) ? o.role : 'tenant';
+    out.push({
+      role,
+      fullName,
+      email: o?.email ? String(o.email).trim().toLowerCase() : null,
+      phone: o?.phone ? String(o.phone).trim() : null,
+      isPrimary: !!o?.isPrimary,
+      submissionPersonId: null,
+    });
+  }
+  return out;
+}
+
+export async function registerTenanciesRoutes(app: Express) {
+  // List the landlord's tenancies (optionally for one property), with the
+  // occupants attached so the list can show tenant names without N+1 calls
+  // from the client.
+  app.get('/api/tenancies', isAuthenticated, requireAccess, async (req: any, res) => {
+    try {
+      const userId = getUserId(req);
+      const propertyId = typeof req.query.propertyId === 'string' ? req.query.propertyId : null;
+      const list = propertyId
+        ? await storage.getTenanciesByProperty(propertyId, userId)
+        : await storage.getTenancies(userId);
+
+      const enriched = await Promise.all(list.map(async (t) => {
+        const occupants = await storage.getTenancyOccupants(t.id);
+        const property = t.rentalPropertyId
+          ? await storage.getRentalProperty(t.rentalPropertyId, userId)
+          : null;
+        const unit = t.rentalUnitId ? await storage.getRentalUnit(t.rentalUnitId) : null;
+        return {
+          ...t,
+          occupants,
+          propertyName: property?.name || null,
+          unitLabel: unit?.unitLabel || null,
+        };
+      }));
+      res.json(enriched);
+    } catch (error) {
+      console.error("Error fetching tenancies:", error);
+      res.status(500).json({ message: "Failed to fetch tenancies" });
+    }
+  });
+
+  // Full tenancy view: the lease plus everything linked to it.
+  app.get('/api/tenancies/:id', isAuthenticated, requireAccess, async (req: any, res) => {
+    try {
+      const userId = getUserId(req);
+      const tenancy = await storage.getTenancy(req.params.id, userId);
+      if (!tenancy) return res.status(404).json({ message: "Tenancy not found" });
+
+      const [occupants, ledgerEntries, paymentRequests, subscriptions, documents] = await Promise.all([
+        storage.getTenancyOccupants(tenancy.id),
+        storage.getRentLedgerEntriesByTenancy(tenancy.id, userId),
+        storage.getRentPaymentRequestsByTenancy(tenancy.id, userId),
+        storage.getRentSubscriptionsByTenancy(tenancy.id, userId),
+        storage.getSavedDocumentsByTenancy(tenancy.id, userId),
+      ]);
+      const property = tenancy.rentalPropertyId
+        ? await storage.getRentalProperty(tenancy.rentalPropertyId, userId)
+        : null;
+      const unit = tenancy.rentalUnitId ? await storage.getRentalUnit(tenancy.rentalUnitId) : null;
+
+      res.json({
+        ...tenancy,
+        property: property || null,
+        unit: unit || null,
+        occupants,
+        ledgerEntries,
+        paymentRequests,
+        subscriptions,
+        documents,
+      });
+    } catch (error) {
+      console.error("Error fetching tenancy:", error);
+      res.status(500).json({ message: "Failed to fetch tenancy" });
+    }
+  });
+
+  // Manually create a tenancy (e.g. for a tenant placed before the landlord
+  // started using LeaseShield). Approved applicants should go through
+  // POST /api/rental/submissions/:id/tenancy instead so the link is kept.
+  app.post('/api/tenancies', isAuthenticated, requireAccess, async (req: any, res) => {
+    try {
+      const userId = getUserId(req);
+      const body = req.body || {};
+
+      const property = body.rentalPropertyId
+        ? await storage.getRentalProperty(body.rentalPropertyId, userId)
+        : null;
+      if (!property) {
+        return res.status(400).json({ message: "A valid property is required" });
+      }
+      let rentalUnitId: string | null = null;
+      if (body.rentalUnitId) {
+        const unit = await storage.getRentalUnit(body.rentalUnitId);
+        if (!unit || unit.propertyId !== property.id) {
+          return res.status(400).json({ message: "Unit does not belong to this property" });
+        }
+        rentalUnitId = unit.id;
+      }
+
+      if (!isValidDate(body.startDate)) {
+        return res.status(400).json({ message: "startDate is required" });
+      }
+      if (body.endDate && !isValidDate(body.endDate)) {
+        return res.status(400).json({ message: "endDate is not a valid date" });
+      }
+      const monthlyRent = parseDollarsToCents(body.monthlyRentDollars);
+      if (!monthlyRent) {
+        return res.status(400).json({ message: "Monthly rent must be greater than $0" });
+      }
+      const securityDeposit = parseDollarsToCents(body.securityDepositDollars);
+      if (securityDeposit === null) {
+        return res.status(400).json({ message: "Security deposit must be a non-negative number" });
+      }
+
+      const occupants = normalizeOccupants(body.occupants);
+      if (!occupants || !occupants.some((o) => o.role === 'tenant')) {
+        return res.status(400).json({ message: "At least one tenant with a name is required" });
+      }
+
+      const status = TENANCY_STATUSES.includes(body.status) ? body.status : 'pending';
+      const created = await storage.createTenancy({
+        userId,
+        rentalPropertyId: property.id,
+        rentalUnitId,
+        submissionId: null,
+        decisionId: null,
+        status,
+        startDate: body.startDate,
+        endDate: body.endDate || null,
+        monthlyRent,
+        securityDeposit: securityDeposit ?? 0,
+        rentDueDay: clampDueDay(body.rentDueDay),
+        notes: body.notes ? String(body.notes) : null,
+      }, occupants);
+
+      res.status(201).json({ ...created, occupants: await storage.getTenancyOccupants(created.id) });
+    } catch (error) {
+      console.error("Error creating tenancy:", error);
+      res.status(500).json({ message: "Failed to create tenancy" });
+    }
+  });
+
+  // Create the tenancy for an approved application. Occupants, unit, rent and
+  // deposit are carried over from the submission and unit; the landlord only
+  // has to confirm the lease dates. Re-running returns 409 with the existing
+  // tenancy so a double click can't create a duplicate lease.
+  app.post('/api/rental/submissions/:id/tenancy', isAuthenticated, requireAccess, async (req: any, res) => {
+    try {
+      const userId = getUserId(req);
+      const submission = await storage.getRentalSubmission(req.params.id);
+      if (!submission) {
+        return res.status(404).json({ message: "Submission not found" });
+      }
+
+      // Verify ownership
+      const appLink = submission.applicationLinkId ? await storage.getRentalApplicationLink(submission.applicationLinkId) : null;
+      if (!appLink) {
+        return res.status(404).json({ message: "Application link not found" });
+      }
+      const unit = await storage.getRentalUnit(appLink.unitId);
+      if (!unit) {
+        return res.status(404).json({ message: "Unit not found" });
+      }
+      const property = await storage.getRentalProperty(unit.propertyId, userId);
+      if (!property) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const decision = await storage.getRentalDecision(submission.id);
+      if (!decision || decision.decision !== 'approved') {
+        return res.status(400).json({ message: "Only approved applications can be converted into a tenancy" });
+      }
+
+      const existing = await storage.getTenancyBySubmissionId(submission.id);
+      if (existing) {
+        return res.status(409).json({ message: "A tenancy already exists for this application", tenancy: existing });
+      }
+
+      const body = req.body || {};
+      if (!isValidDate(body.startDate)) {
+        return res.status(400).json({ message: "startDate is required" });
+      }
+      if (body.endDate && !isValidDate(body.endDate)) {
+        return res.status(400).json({ message: "endDate is not a valid date" });
+      }
+      const rentOverride = parseDollarsToCents(body.monthlyRentDollars);
+      const depositOverride = parseDollarsToCents(body.securityDepositDollars);
+      if (rentOverride === null || depositOverride === null) {
+        return res.status(400).json({ message: "Rent and deposit must be non-negative numbers" });
+      }
+      const monthlyRent = rentOverride ?? unit.rentAmount ?? 0;
+      if (!monthlyRent) {
+        return res.status(400).json({ message: "This unit has no rent amount on file. Please enter the monthly rent." });
+      }
+
+      const people = await storage.getRentalSubmissionPeople(submission.id);
+      const occupants: InsertTenancyOccupant[] = people
+        .map((p) => ({
+          role: p.role === 'guarantor' ? 'guarantor' : 'tenant',
+          fullName: [p.firstName, p.lastName].filter(Boolean).join(' ').trim(),
+          email: p.email ? p.email.toLowerCase() : null,
+          phone: p.phone || null,
+          isPrimary: p.role === 'applicant',
+          submissionPersonId: p.id,
+        }))
+        .filter((o) => o.fullName);
+      if (!occupants.some((o) => o.role === 'tenant')) {
+        return res.status(400).json({ message: "The application has no named applicant to put on the lease" });
+      }
+
+      const created = await storage.createTenancy({
+        userId,
+        rentalPropertyId: property.id,
+        rentalUnitId: unit.id,
+        submissionId: submission.id,
+        decisionId: decision.id,
+        status: 'pending',
+        startDate: body.startDate,
+        endDate: body.endDate || null,
+        monthlyRent,
+        securityDeposit: depositOverride ?? unit.securityDepositAmount ?? 0,
+        rentDueDay: clampDueDay(body.rentDueDay),
+        notes: body.notes ? String(body.notes) : null,
+      }, occupants);
+
+      await storage.logRentalApplicationEvent({
+        submissionId: submission.id,
+        eventType: 'tenancy_created',
+        metadataJson: { tenancyId: created.id, createdBy: getActingUserId(req) },
+      });
+
+      res.status(201).json({ ...created, occupants: await storage.getTenancyOccupants(created.id) });
+    } catch (error: any) {
+      console.error("Error creating tenancy from submission:", error);
+      if (error?.cause?.code === '23505') {
+        return res.status(409).json({ message: "A tenancy already exists for this application" });
+      }
+      res.status(500).json({ message: "Failed to create tenancy" });
+    }
+  });
+
+  // Update lease terms or move the tenancy through its lifecycle. Ending or
+  // canceling stamps endedAt; the linked ledger/payment history is kept.
+  app.patch('/api/tenancies/:id', isAuthenticated, requireAccess, async (req: any, res) => {
+    try {
+      const userId = getUserId(req);
+      const existing = await storage.getTenancy(req.params.id, userId);
+      if (!existing) return res.status(404).json({ message: "Tenancy not found" });
+
+      const body = req.body || {};
+      const updates: Partial<Tenancy> = {};
+
+      if (body.status !== undefined) {
+        if (!TENANCY_STATUSES.includes(body.status)) {
+          return res.status(400).json({ message: `status must be one of: ${TENANCY_STATUSES.join(', ')}` });
+        }
+        updates.status = body.status;
+        if ((body.status === 'ended' || body.status === 'canceled') && !existing.endedAt) {
+          updates.endedAt = new Date();
+        } else if (body.status === 'pending' || body.status === 'active') {
+          updates.endedAt = null;
+        }
+      }
+      if (body.startDate !== undefined) {
+        if (!isValidDate(body.startDate)) return res.status(400).json({ message: "startDate is not a valid date" });
+        updates.startDate = body.startDate;
+      }
+      if (body.endDate !== undefined) {
+        if (body.endDate && !isValidDate(body.endDate)) {
+          return res.status(400).json({ message: "endDate is not a valid date" });
+        }
+        updates.endDate = body.endDate || null;
+      }
+      if (body.monthlyRentDollars !== undefined) {
+        const cents = parseDollarsToCents(body.monthlyRentDollars);
+        if (!cents) return res.status(400).json({ message: "Monthly rent must be greater than $0" });
+        updates.monthlyRent = cents;
+      }
+      if (body.securityDepositDollars !== undefined) {
+        const cents = parseDollarsToCents(body.securityDepositDollars);
+        if (cents === null) return res.status(400).json({ message: "Security deposit must be a non-negative number" });
+        updates.securityDeposit = cents ?? 0;
+      }
+      if (body.rentDueDay !== undefined) {
+        updates.rentDueDay = clampDueDay(body.rentDueDay);
+      }
+      if (body.notes !== undefined) {
+        updates.notes = body.notes ? String(body.notes) : null;
+      }
+
+      const updated = await storage.updateTenancy(existing.id, userId, updates);
+      res.json(updated);
+    } catch (error) {
+      console.error("Error updating tenancy:", error);
+      res.status(500).json({ message: "Failed to update tenancy" });
+    }
+  });
+
+  // Deleting a tenancy detaches (not deletes) its ledger entries, payment
+  // requests, subscriptions and documents - the FKs are ON DELETE SET NULL.
+  app.delete('/api/tenancies/:id', isAuthenticated, requireAccess, async (req: any, res) => {
+    try {
+      const userId = getUserId(req);
+      const deleted = await storage.deleteTenancy(req.params.id, userId);
+      if (!deleted) return res.status(404).json({ message: "Tenancy not found" });
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting tenancy:", error);
+      res.status(500).json({ message: "Failed to delete tenancy" });
+    }
+  });
+}
@@ -0,0 +1,411 @@
+import type { Express } from "express";
+import { randomBytes } from "crypto";
+import { storage } from "../storage";
+import { isAuthenticated, requireAccess, requireTenant } from "../jwtAuth";
+import type { MaintenanceRequest, SavedDocument, Tenancy, TenancyOccupant } from "@shared/schema";
+import { ledgerBalance } from "@shared/tenantLedger";
+import { computeSlaDeadlines, isMaintenanceCategory, isMaintenancePriority } from "@shared/maintenance";
+import { emailService } from "../emailService";
+import { getAppBaseUrl } from "../utils/appUrl";
+import { headerFilename } from "../utils/download";
+import { renderSavedDocument } from "../utils/savedDocumentRenderer";
+import { downloadPrivateBuffer } from "../applicantObjectStorage";
+import { saveMaintenancePhoto, sendMaintenancePhoto } from "../utils/maintenanceTickets";
+import { getUserId, singlePhotoUpload } from "./_shared";
+
+// Payment requests the tenant can still act on from the portal.
+const OPEN_PAYMENT_REQUEST_STATUSES = ['pending', 'reminded', 'overdue', 'failed'];
+const CLOSED_SUBSCRIPTION_STATUSES = ['canceled', 'completed'];
+
+// Occupant rows go to the landlord UI without the invite token - it's the
+// tenant's credential for creating their login.
+function publicOccupant(o: TenancyOccupant) {
+  const { portalInviteToken, ...rest } = o;
+  return { ...rest, portalInvitePending: !!portalInviteToken };
+}
+
+// What a tenant sees of a ticket: no landlord notes, costs or vendor details.
+function tenantTicketView(t: MaintenanceRequest) {
+  return {
+    id: t.id,
+    category: t.category,
+    priority: t.priority,
+    title: t.title,
+    description: t.description,
+    permissionToEnter: t.permissionToEnter,
+    status: t.status,
+    scheduledFor: t.scheduledFor,
+    completedAt: t.completedAt,
+    createdAt: t.createdAt,
+  };
+}
+
+async function loadTenantTicket(tenancyId: string, requestId: string) {
+  const ticket = await storage.getMaintenanceRequestById(requestId);
+  return ticket && ticket.tenancyId === tenancyId ? ticket : null;
+}
+
+function landlordDisplayName(user: { firstName?: string | null; lastName?: string | null; businessName?: string | null } | undefined): string {
+  if (!user) return 'Your landlord';
+  if (user.businessName) return user.businessName;
+  if (user.firstName && user.lastName) return `${user.firstName} ${user.lastName}`;
+  return 'Your landlord';
+}
+
+async function describePremises(tenancy: Tenancy) {
+  const property = tenancy.rentalPropertyId
+    ? await storage.getRentalProperty(tenancy.rentalPropertyId, tenancy.userId)
+    : null;
+  const unit = tenancy.rentalUnitId ? await storage.getRentalUnit(tenancy.rentalUnitId) : null;
+  const label = [property?.address || property?.name, unit?.unitLabel].filter(Boolean).join(', ') || 'your rental';
+  return { property: property || null, unit: unit || null, label };
+}
+
+// A tenant sees a document once it's been signed by everyone or the landlord
+// has explicitly shared it. Drafts stay private to the landlord.
+function isVisibleToTenant(document: SavedDocument): boolean {
+  return !!document.signatureCertificateJson || !!document.sharedWithTenantAt;
+}
+
+/**
+ * Resolve a tenancy for the signed-in tenant. Access is granted only through
+ * the occupant row the tenant's login is linked to, so a tenant can never
+ * reach another tenancy by guessing ids.
+ */
+async function loadTenantTenancy(tenancyId: string, tenantUserId: string) {
+  const occupant = await storage.getTenancyOccupantForUser(tenancyId, tenantUserId);
+  if (!occupant) return null;
+  const tenancy = await storage.getTenancyById(tenancyId);
+  if (!tenancy) return null;
+  return { tenancy, occupant };
+}
+
+export async function registerTenantPortalRoutes(app: Express) {
+  // ===== Landlord endpoints =====
+
+  // Email an occupant a link to create their tenant portal login. Re-sending
+  // issues a fresh token and invalidates the previous link.
+  app.post('/api/tenancies/:tenancyId/occupants/:occupantId/portal-invite', isAuthenticated, requireAccess, async (req: any, res) => {
+    try {
+      const userId = getUserId(req);
+      const tenancy = await storage.getTenancy(req.params.tenancyId, userId);
+      if (!tenancy) return res.status(404).json({ message: "Tenancy not found" });
+      const occupant = await storage.getTenancyOccupantById(req.params.occupantId);
+      if (!occupant || occupant.tenancyId !== tenancy.id) {
+        return res.status(404).json({ message: "Occupant not found" });
+      }
+      if (occupant.role === 'guarantor') {
+        return res.status(400).json({ message: "Guarantors don't have portal access" });
+      }
+      if (!occupant.email) {
+        return res.status(400).json({ message: "Add an email address for this occupant before inviting them" });
+      }
+      if (occupant.userId) {
+        return res.status(400).json({ message: "This occupant already has a portal login" });
+      }
+
+      const token = randomBytes(32).toString('hex');
+      const updated = await storage.updateTenancyOccupant(occupant.id, {
+        portalInviteToken: token,
+        portalInvitedAt: new Date(),
+      });
+      if (!updated) return res.status(404).json({ message: "Occupant not found" });
+
+      const landlord = await storage.getUser(userId);
+      const { label } = await describePremises(tenancy);
+      const inviteUrl = `${getAppBaseUrl(req)}/tenant-invite/${token}`;
+      const sent = await emailService.sendTenantPortalInviteEmail(
+        { email: occupant.email, name: occupant.fullName },
+        { landlordName: landlordDisplayName(landlord), propertyLabel: label, inviteLink: inviteUrl },
+      ).catch((err) => {
+        console.error("Failed to send tenant portal invite email:", err);
+        return false;
+      });
+
+      res.json({ occupant: publicOccupant(updated), inviteUrl, emailSent: sent });
+    } catch (error) {
+      console.error("Error sending tenant portal invite:", error);
+      res.status(500).json({ message: "Failed to send portal invite" });
+    }
+  });
+
+  // Share (or unshare) a saved document with the tenants on its tenancy.
+  // Signed documents are always visible, so this only matters for notices
+  // and other unsigned documents.
+  app.post('/api/saved-documents/:id/share-with-tenant', isAuthenticated, requireAccess, async (req: any, res) => {
+    try {
+      const userId = getUserId(req);
+      const document = await storage.getSavedDocumentById(req.params.id);
+      if (!document || document.userId !== userId) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+      if (!document.tenancyId) {
+        return res.status(400).json({ message: "Link this document to a tenancy before sharing it" });
+      }
+      const shared = req.body?.shared !== false;
+      const updated = await storage.updateSavedDocument(document.id, {
+        sharedWithTenantAt: shared ? new Date() : null,
+      });
+      res.json(updated);
+    } catch (error) {
+      console.error("Error sharing document with tenant:", error);
+      res.status(500).json({ message: "Failed to update document sharing" });
+    }
+  });
+
+  // ===== Tenant endpoints (tenant login, scoped to linked tenancies) =====
+
+  app.get('/api/tenant-portal/tenancies', isAuthenticated, requireTenant, async (req: any, res) => {
+    try {
+      const tenantUserId = getUserId(req);
+      const list = await storage.getTenanciesForTenantUser(tenantUserId);
+      const enriched = await Promise.all(list.map(async (t) => {
+        const { property, unit, label } = await describePremises(t);
+        return {
+          id: t.id,
+          status: t.status,
+          startDate: t.startDate,
+          endDate: t.endDate,
+          monthlyRent: t.monthlyRent,
+          rentDueDay: t.rentDueDay,
+          propertyName: property?.name || null,
+          unitLabel: unit?.unitLabel || null,
+          premises: label,
+        };
+      }));
+      res.json(enriched);
+    } catch (error) {
+      console.error("Error fetching tenant tenancies:", error);
+      res.status(500).json({ message: "Failed to fetch your leases" });
+    }
+  });
+
+  // Everything the tenant can see for one tenancy: balance and ledger, open
+  // payment links, auto-pay, and visible documents. Only fields meant for the
+  // tenant are returned - landlord notes and Stripe ids stay server-side.
+  app.get('/api/tenant-portal/tenancies/:tenancyId', isAuthenticated, requireTenant, async (req: any, res) => {
+    try {
+      const loaded = await loadTenantTenancy(req.params.tenancyId, getUserId(req));
+      if (!loaded) return res.status(404).json({ message: "Lease not found" });
+      const { tenancy } = loaded;
+      const landlordId = tenancy.userId;
+
+      const [ledgerEntries, paymentRequests, subscriptions, documents, landlord] = await Promise.all([
+        storage.getRentLedgerEntriesByTenancy(tenancy.id, landlordId),
+        storage.getRentPaymentRequestsByTenancy(tenancy.id, landlordId),
+        storage.getRentSubscriptionsByTenancy(tenancy.id, landlordId),
+        storage.getSavedDocumentsByTenancy(tenancy.id, landlordId),
+        storage.getUser(landlordId),
+      ]);
+      const { property, unit, label } = await describePremises(tenancy);
+
+      const balance = ledgerBalance(ledgerEntries);
+
+      res.json({
+        id: tenancy.id,
+        status: tenancy.status,
+        startDate: tenancy.startDate,
+        endDate: tenancy.endDate,
+        monthlyRent: tenancy.monthlyRent,
+        rentDueDay: tenancy.rentDueDay,
+        propertyName: property?.name || null,
+        unitLabel: unit?.unitLabel || null,
+        premises: label,
+        landlordName: landlordDisplayName(landlord),
+        landlordEmail: landlord?.email || null,
+        landlordPhone: landlord?.phoneNumber || null,
+        balance,
+        ledgerEntries: ledgerEntries.map((e) => ({
+          id: e.id,
+          effectiveDate: e.effectiveDate,
+          month: e.month,
+          type: e.type,
+          category: e.category,
+          description: e.description,
+          amountExpected: e.amountExpected,
+          amountReceived: e.amountReceived,
+          paymentDate: e.paymentDate,
+          paymentMethod: e.paymentMethod,
+        })),
+        paymentRequests: paymentRequests
+          .filter((p) => OPEN_PAYMENT_REQUEST_STATUSES.includes(p.status))
+          .map((p) => ({
+            id: p.id,
+            amount: p.amount,
+            amountPaid: p.amountPaid,
+            dueDate: p.dueDate,
+            description: p.description,
+            status: p.status,
+            payUrl: `/pay-rent/${p.publicToken}`,
+          })),
+        subscriptions: subscriptions
+          .filter((s) => !CLOSED_SUBSCRIPTION_STATUSES.includes(s.status))
+          .map((s) => ({
+            id: s.id,
+            amount: s.amount,
+            dayOfMonth: s.dayOfMonth,
+            nextScheduledDate: s.nextScheduledDate,
+            status: s.status,
+            bankAccountLast4: s.bankAccountLast4,
+            bankAccountBankName: s.bankAccountBankName,
+            manageUrl: `/auto-pay/${s.publicToken}`,
+          })),
+        documents: documents.filter(isVisibleToTenant).map((d) => ({
+          id: d.id,
+          documentName: d.documentName,
+          createdAt: d.createdAt,
+          signed: !!d.signatureCertificateJson,
+          sharedAt: d.sharedWithTenantAt,
+        })),
+      });
+    } catch (error) {
+      console.error("Error fetching tenant portal tenancy:", error);
+      res.status(500).json({ message: "Failed to fetch your lease" });
+    }
+  });
+
+  // Download a visible document. Signed documents come from the stamped PDF
+  // in object storage so the tenant gets the same bytes everyone signed.
+  app.get('/api/tenant-portal/tenancies/:tenancyId/documents/:documentId/download', isAuthenticated, requireTenant, async (req: any, res) => {
+    try {
+      const loaded = await loadTenantTenancy(req.params.tenancyId, getUserId(req));
+      if (!loaded) return res.status(404).json({ message: "Lease not found" });
+      const { tenancy } = loaded;
+
+      const document = await storage.getSavedDocumentById(req.params.documentId);
+      if (!document || document.tenancyId !== tenancy.id || document.userId !== tenancy.userId || !isVisibleToTenant(document)) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+
+      let buffer: Buffer | null = null;
+      if (document.signatureCertificateJson) {
+        const requests = await storage.getDocumentSignatureRequestsByDocument(document.id, tenancy.userId);
+        const completed = requests.find((r) => r.status === 'completed' && r.signedPdfPath);
+        if (completed?.signedPdfPath) buffer = await downloadPrivateBuffer(completed.signedPdfPath);
+      }
+      if (!buffer) {
+        const template = await storage.getTemplate(document.templateId);
+        if (!template) return res.status(404).json({ message: "Document not found" });
+        const landlord = await storage.getUser(tenancy.userId);
+        const landlordInfo = landlord ? {
+          businessName: landlord.businessName,
+          phoneNumber: landlord.phoneNumber,
+          email: landlord.email,
+          firstName: landlord.firstName,
+          lastName: landlord.lastName,
+        } : undefined;
+        buffer = await renderSavedDocument(document, template, 'pdf', landlordInfo);
+      }
+
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `attachment; filename="${headerFilename(`${document.documentName}.pdf`)}"`);
+      res.send(buffer);
+    } catch (error) {
+      console.error("Error downloading tenant document:", error);
+      res.status(500).json({ message: "Failed to download document" });
+    }
+  });
+
+  app.get('/api/tenant-portal/tenancies/:tenancyId/maintenance-requests', isAuthenticated, requireTenant, async (req: any, res) => {
+    try {
+      const loaded = await loadTenantTenancy(req.params.tenancyId, getUserId(req));
+      if (!loaded) return res.status(404).json({ message: "Lease not found" });
+      const tickets = await storage.getMaintenanceRequestsByTenancy(loaded.tenancy.id);
+      const withPhotos = await Promise.all(tickets.map(async (t) => ({
+        ...tenantTicketView(t),
+        photoIds: (await storage.getMaintenanceRequestPhotos(t.id)).map((p) => p.id),
+      })));
+      res.json(withPhotos);
+    } catch (error) {
+      console.error("Error fetching tenant maintenance requests:", error);
+      res.status(500).json({ message: "Failed to fetch maintenance requests" });
+    }
+  });
+
+  app.post('/api/tenant-portal/tenancies/:tenancyId/maintenance-requests', isAuthenticated, requireTenant, async (req: any, res) => {
+    try {
+      const tenantUserId = getUserId(req);
+      const loaded = await loadTenantTenancy(req.params.tenancyId, tenantUserId);
+      if (!loaded) return res.status(404).json({ message: "Lease not found" });
+      const { tenancy, occupant } = loaded;
+
+      const title = String(req.body?.title ?? '').trim();
+      const description = String(req.body?.description ?? '').trim();
+      if (!title || !description) {
+        return res.status(400).json({ message: "Title and description are required" });
+      }
+      const category = isMaintenanceCategory(req.body?.category) ? req.body.category : 'other';
+      const priority = isMaintenancePriority(req.body?.priority) ? req.body.priority : 'routine';
+      const { respondByAt, resolveByAt } = computeSlaDeadlines(new Date(), priority);
+
+      const created = await storage.createMaintenanceRequest({
+        userId: tenancy.userId,
+        tenancyId: tenancy.id,
+        rentalPropertyId: tenancy.rentalPropertyId,
+        rentalUnitId: tenancy.rentalUnitId,
+        submittedByUserId: tenantUserId,
+        category,
+        priority,
+        title: title.slice(0, 200),
+        description: description.slice(0, 5000),
+        permissionToEnter: !!req.body?.permissionToEnter,
+        respondByAt,
+        resolveByAt,
+      }, tenantUserId);
+
+      const landlord = await storage.getUser(tenancy.userId);
+      if (landlord?.email) {
+        const { label } = await describePremises(tenancy);
+        emailService.sendMaintenanceRequestNotification(
+          { email: landlord.email, firstName: landlord.firstName },
+          {
+            tenantName: occupant.fullName,
+            propertyLabel: label,
+            title: created.title,
+            description: created.description,
+            category: created.priority === 'routine' ? created.category : `${created.priority} ${created.category}`,
+            dashboardLink: `${getAppBaseUrl(req)}/maintenance?id=${created.id}`,
+          },
+        ).catch((err) => console.error("Failed to send maintenance request notification:", err));
+      }
+
+      res.status(201).json(tenantTicketView(created));
+    } catch (error) {
+      console.error("Error creating maintenance request:", error);
+      res.status(500).json({ message: "Failed to submit maintenance request" });
+    }
+  });
+
+  app.post('/api/tenant-portal/tenancies/:tenancyId/maintenance-requests/:requestId/photos', isAuthenticated, requireTenant, singlePhotoUpload, async (req: any, res) => {
+    try {
+      const tenantUserId = getUserId(req);
+      const loaded = await loadTenantTenancy(req.params.tenancyId, tenantUserId);
+      if (!loaded) return res.status(404).json({ message: "Lease not found" });
+      const ticket = await loadTenantTicket(loaded.tenancy.id, req.params.requestId);
+      if (!ticket) return res.status(404).json({ message: "Maintenance request not found" });
+      if (!req.file) return res.status(400).json({ message: "No photo uploaded" });
+
+      const photo = await saveMaintenancePhoto(ticket.id, req.file, tenantUserId);
+      if (!photo) return res.status(400).json({ message: "This request already has the maximum number of photos" });
+      res.status(201).json({ id: photo.id, fileName: photo.fileName });
+    } catch (error) {
+      console.error("Error uploading tenant maintenance photo:", error);
+      res.status(500).json({ message: "Failed to upload photo" });
+    }
+  });
+
+  app.get('/api/tenant-portal/tenancies/:tenancyId/maintenance-requests/:requestId/photos/:photoId', isAuthenticated, requireTenant, async (req: any, res) => {
+    try {
+      const loaded = await loadTenantTenancy(req.params.tenancyId, getUserId(req));
+      if (!loaded) return res.status(404).json({ message: "Lease not found" });
+      const ticket = await loadTenantTicket(loaded.tenancy.id, req.params.requestId);
+      if (!ticket) return res.status(404).json({ message: "Maintenance request not found" });
+      const photo = await storage.getMaintenanceRequestPhoto(req.params.photoId, ticket.id);
+      if (!photo) return res.status(404).json({ message: "Photo not found" });
+      await sendMaintenancePhoto(res, photo);
+    } catch (error) {
+      console.error("Error fetching tenant maintenance photo:", error);
+      res.status(500).json({ message: "Failed to fetch photo" });
+    }
+  });
+}
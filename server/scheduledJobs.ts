@@ -11,6 +11,8 @@ import { setupEmailSequences } from "./emailSequenceSetup";
 import { runUploadCleanup } from "./cleanup";
 import { getAppBaseUrl } from "./utils/appUrl";
 import { isProduction } from "./utils/env";
+import { EVICTION_REMINDER_LEAD_DAYS } from "@shared/evictionTimeline";
+import { approvalHoldContext, checkApprovalHold } from "./utils/approvalHold";
 import Stripe from "stripe";
 
 const stripeForJobs = process.env.STRIPE_SECRET_KEY
@@ -137,6 +139,8 @@ export class ScheduledJobs {
   private rentRemindersInterval: NodeJS.Timeout | null = null;
   private rentLateFeesInterval: NodeJS.Timeout | null = null;
   private rentRecurringDebitsInterval: NodeJS.Timeout | null = null;
+  private evictionStepRemindersInterval: NodeJS.Timeout | null = null;
+  private approvalHoldsInterval: NodeJS.Timeout | null = null;
 
   // =========================================================================
   // LIFECYCLE EMAILS (3-email strategy based on signup date, not trial)
@@ -1344,6 +1348,7 @@ Manage preferences: ${baseUrl}/settings
               paymentLink: `${baseUrl}/pay-rent/${r.publicToken}`,
               lateFeeDollars: r.lateFeeAmount > 0 ? (r.lateFeeAmount / 100).toFixed(2) : undefined,
               gracePeriodDays: r.gracePeriodDays,
+              requestType: r.requestType,
             }
           );
           if (sent) {
@@ -1371,28 +1376,39 @@ Manage preferences: ${baseUrl}/settings
         return;
       }
 
+      const { assessLateFee } = await import('./utils/lateFeeEngine');
       let appliedCount = 0;
       for (const r of overdue) {
         try {
+          // The engine applies the request's policy, the state's minimum
+          // grace period and the state cap; it returns only the amount not
+          // yet posted (accruing policies grow between runs).
+          const assessment = await assessLateFee(r);
+          if (!assessment || assessment.feeToPostCents <= 0) continue;
+
           // Apply the late fee atomically: ledger insert + request update in
           // a single DB transaction with row lock + idempotency guard. If the
           // transaction fails, no partial state is committed and the next
           // run will safely retry.
           const result = await storage.applyRentLateFeeInTransaction(r.id, {
             userId: r.userId,
-            propertyId: null,
+            propertyId: r.rentalPropertyId,
+            tenancyId: r.tenancyId,
             tenantName: r.tenantName,
             month: new Date(r.dueDate).toISOString().slice(0, 7),
             effectiveDate: new Date(),
             type: 'charge',
             category: 'Late Fee',
-            description: `Auto-applied late fee for rent due ${new Date(r.dueDate).toLocaleDateString()}`,
-            amountExpected: r.lateFeeAmount,
+            description: assessment.alreadyAssessedCents > 0
+              ? `Additional late fee for rent due ${new Date(r.dueDate).toLocaleDateString()} (${assessment.daysLate} days late)`
+              : `Auto-applied late fee for rent due ${new Date(r.dueDate).toLocaleDateString()}`,
+            amountExpected: assessment.feeToPostCents,
             amountReceived: 0,
             paymentMethod: null,
             referenceNumber: null,
-            notes: `Auto-applied after ${r.gracePeriodDays}-day grace period`,
-          });
+            notes: `Auto-applied. ${assessment.notes}`,
+            statuteCitation: assessment.statuteCitation,
+          }, assessment.alreadyAssessedCents);
 
           if (!result) {
             // Late fee was already applied (or the request was paid/canceled
@@ -1420,7 +1436,7 @@ Manage preferences: ${baseUrl}/settings
             }
           }
 
-          console.log(`  Applied late fee $${(r.lateFeeAmount / 100).toFixed(2)} to request ${r.id}`);
+          console.log(`  Applied late fee $${(assessment.feeToPostCents / 100).toFixed(2)} to request ${r.id}${assessment.capped ? ' (capped by state law)' : ''}`);
         } catch (e) {
           console.error(`  Failed to apply late fee for request ${r.id}:`, e);
         }
@@ -1431,6 +1447,84 @@ Manage preferences: ${baseUrl}/settings
     }
   }
 
+  // ===== Eviction case timelines: upcoming step reminders =====
+  async processEvictionStepReminders(): Promise<void> {
+    try {
+      console.log('⚖️ Processing eviction step reminders...');
+      const today = new Date();
+      const through = new Date(today.getTime() + EVICTION_REMINDER_LEAD_DAYS * 24 * 60 * 60 * 1000);
+      const due = await storage.getEvictionStepsDueForReminder(
+        today.toISOString().slice(0, 10),
+        through.toISOString().slice(0, 10),
+      );
+      if (due.length === 0) {
+        console.log('  No eviction step reminders to send');
+        return;
+      }
+
+      const baseUrl = getAppBaseUrl();
+      let sentCount = 0;
+
+      for (const { step, evictionCase } of due) {
+        try {
+          const landlord = await storage.getUser(evictionCase.userId);
+          if (!landlord?.email) continue;
+          const dueDateStr = new Date(`${step.plannedDate}T00:00:00Z`).toLocaleDateString('en-US', {
+            year: 'numeric', month: 'long', day: 'numeric', timeZone: 'UTC',
+          });
+          const sent = await emailService.sendEvictionStepReminderEmail(
+            { email: landlord.email, firstName: landlord.firstName },
+            {
+              caseLabel: evictionCase.caseLabel,
+              stepLabel: step.label,
+              dueDate: dueDateStr,
+              explain: step.explain,
+              isEstimate: step.isEstimate,
+              caseLink: `${baseUrl}/eviction-timeline?id=${evictionCase.id}`,
+            }
+          );
+          if (sent) {
+            await storage.updateEvictionCaseStep(step.id, evictionCase.id, { reminderSentAt: new Date() });
+            sentCount++;
+          }
+        } catch (e) {
+          console.error(`  Failed to send eviction step reminder for step ${step.id}:`, e);
+        }
+      }
+      console.log(`✅ Sent ${sentCount} eviction step reminders`);
+    } catch (error) {
+      console.error('❌ Error processing eviction step reminders:', error);
+    }
+  }
+
+  // Approvals waiting on a signed lease / holding deposit: complete the ones
+  // that are met and expire the ones past their deadline.
+  async processApprovalHolds(): Promise<void> {
+    try {
+      const holds = await storage.getPendingApprovalHolds();
+      if (holds.length === 0) return;
+
+      let completedCount = 0;
+      let expiredCount = 0;
+      for (const decision of holds) {
+        try {
+          const context = await approvalHoldContext(decision);
+          if (!context) continue;
+          const status = await checkApprovalHold(decision, context);
+          if (status === 'completed') completedCount++;
+          if (status === 'expired') expiredCount++;
+        } catch (e) {
+          console.error(`  Failed to check approval hold for decision ${decision.id}:`, e);
+        }
+      }
+      if (completedCount > 0 || expiredCount > 0) {
+        console.log(`✅ Approval holds: ${completedCount} completed, ${expiredCount} expired`);
+      }
+    } catch (error) {
+      console.error('❌ Error processing approval holds:', error);
+    }
+  }
+
   async autoArchiveOldSubmissions(): Promise<void> {
     try {
       const count = await storage.autoArchiveOldSubmissions();
@@ -1580,6 +1674,19 @@ Manage preferences: ${baseUrl}/settings
         24 * 60 * 60 * 1000
       );
       setTimeout(() => this.processRecurringRentDebits(), 15 * 60 * 1000);
+
+      this.evictionStepRemindersInterval = setInterval(
+        () => this.processEvictionStepReminders(),
+        24 * 60 * 60 * 1000
+      );
+      setTimeout(() => this.processEvictionStepReminders(), 16 * 60 * 1000);
+
+      // Lease-signing deadlines are in hours, so check hourly
+      this.approvalHoldsInterval = setInterval(
+        () => this.processApprovalHolds(),
+        60 * 60 * 1000
+      );
+      setTimeout(() => this.processApprovalHolds(), 17 * 60 * 1000);
     }
 
     console.log('✅ Scheduled jobs started');
@@ -1679,6 +1786,16 @@ Manage preferences: ${baseUrl}/settings
       this.rentRecurringDebitsInterval = null;
     }
 
+    if (this.evictionStepRemindersInterval) {
+      clearInterval(this.evictionStepRemindersInterval);
+      this.evictionStepRemindersInterval = null;
+    }
+
+    if (this.approvalHoldsInterval) {
+      clearInterval(this.approvalHoldsInterval);
+      this.approvalHoldsInterval = null;
+    }
+
     console.log('✅ Scheduled jobs stopped');
   }
 
@@ -1771,9 +1888,11 @@ Manage preferences: ${baseUrl}/settings
             description: sub.description || `Recurring rent - ${dueDate}`,
             lateFeeAmount: sub.lateFeeAmount,
             gracePeriodDays: sub.gracePeriodDays,
+            lateFeePolicyJson: sub.lateFeePolicyJson,
             publicToken: tenantToken,
             status: 'auto_scheduled',
             rentSubscriptionId: sub.id,
+            tenancyId: sub.tenancyId,
           } as any);
 
           // 2. Create off-session PaymentIntent
@@ -0,0 +1,52 @@
+import type { LandlordScreeningCredentials } from "@shared/schema";
+import { storage } from "../storage";
+import { decryptCredentials } from "../crypto";
+import { DEFAULT_SCREENING_PROVIDER, getScreeningProvider } from "./registry";
+import type { ScreeningCredentials, ScreeningProvider } from "./types";
+
+export interface ScreeningAccount {
+  provider: ScreeningProvider;
+  // Undefined when the landlord falls back to the provider's system account.
+  credentials?: ScreeningCredentials;
+  record: LandlordScreeningCredentials | null;
+}
+
+/**
+ * The landlord's saved screening account, whatever its verification status.
+ * Null when nothing is saved; throws if the credentials can't be decrypted.
+ */
+export async function getSavedScreeningAccount(userId: string): Promise<ScreeningAccount | null> {
+  const record = await storage.getLandlordScreeningCredentials(userId);
+  if (!record) return null;
+  const provider = getScreeningProvider(record.provider);
+  if (!provider) throw new Error(`Unknown screening provider: ${record.provider}`);
+
+  const decrypted = decryptCredentials({
+    encryptedUsername: record.encryptedUsername,
+    encryptedPassword: record.encryptedPassword,
+    encryptionIv: record.encryptionIv,
+  });
+  return {
+    provider,
+    credentials: {
+      username: decrypted.username,
+      password: decrypted.password,
+      invitationId: record.defaultInvitationId || undefined,
+    },
+    record,
+  };
+}
+
+/**
+ * The account screening orders for a landlord go through: their own verified
+ * account when they have one, otherwise the default provider's system account.
+ */
+export async function resolveScreeningAccount(userId: string): Promise<ScreeningAccount> {
+  try {
+    const saved = await getSavedScreeningAccount(userId);
+    if (saved && saved.record?.status === 'verified') return saved;
+  } catch (e) {
+    console.error("Failed to decrypt landlord screening credentials, falling back to system credentials");
+  }
+  return { provider: getScreeningProvider(DEFAULT_SCREENING_PROVIDER)!, credentials: undefined, record: null };
+}
@@ -0,0 +1,104 @@
+/**
+ * DigitalDelve (Western Verify) Screening Adapter
+ *
+ * Full-integration AppScreen: Western Verify emails the applicant an
+ * invitation, collects SSN/DOB and consent on its own portal, then posts
+ * status and result XML back to our webhooks.
+ */
+
+import {
+  getSystemCredentials,
+  parseResultRecords,
+  parseResultWebhook,
+  parseStatusWebhook,
+  performSsoViewReport,
+  retrieveInvitations,
+  sendAppScreenRequest,
+  verifyCredentialsWithParams,
+} from "../../digitalDelveService";
+import type { ScreeningProvider } from "../types";
+import { registerScreeningProvider } from "../registry";
+
+// Reports are viewed on Western Verify after the landlord logs in there -
+// credentials never reach the browser, so we can't SSO them in.
+const REPORT_LOGIN_URL = "https://secure.westernverify.com/login.cfm";
+
+export const digitalDelveAdapter: ScreeningProvider = {
+  id: "digitaldelve",
+  name: "Western Verify",
+  requiresPackageSetup: true,
+
+  isAvailable() {
+    return true;
+  },
+
+  async verifyCredentials(credentials) {
+    const result = await verifyCredentialsWithParams(credentials.username, credentials.password);
+    return result.success
+      ? { success: true }
+      : { success: false, error: result.error || result.message || "Invalid credentials" };
+  },
+
+  async listPackages(credentials) {
+    const result = await retrieveInvitations(credentials);
+    return result.success
+      ? { success: true, packages: result.invitations || [] }
+      : { success: false, error: result.error || "Failed to retrieve invitations" };
+  },
+
+  async orderScreening(request) {
+    const result = await sendAppScreenRequest({
+      ...request.applicant,
+      referenceNumber: request.referenceNumber,
+      invitationId: request.invitationId,
+      statusPostUrl: request.statusPostUrl,
+      resultPostUrl: request.resultPostUrl,
+      credentials: request.credentials,
+    });
+    return result.success
+      ? { success: true, reportId: result.reportId }
+      : { success: false, error: result.error || "Failed to send screening request" };
+  },
+
+  // Western Verify has no order-status call. The SSO view-report ping only
+  // tells us the order exists - its redirect URL comes back even for orders
+  // that are merely invited, so it is never treated as progress.
+  async checkStatus(order, credentials) {
+    const creds = credentials || getSystemCredentials();
+    if (!creds) return { success: false, error: "Screening credentials not configured" };
+
+    const ssoResult = await performSsoViewReport(order.referenceNumber, creds);
+    if (ssoResult.error === "in_progress") {
+      console.log(`[DigitalDelve] Order ${order.id} still in progress at Western Verify`);
+    } else if (ssoResult.error) {
+      console.warn(`[DigitalDelve] SSO check returned error for ${order.id}: ${ssoResult.error}`);
+    } else {
+      console.log(`[DigitalDelve] Order ${order.id} SSO check ok; awaiting result webhook before marking complete`);
+    }
+    return { success: true };
+  },
+
+  parseWebhook(kind, body) {
+    if (body.length < 20 || !body.includes("<")) return null;
+    const data = kind === "status" ? parseStatusWebhook(body) : parseResultWebhook(body);
+    if (!data) return null;
+    return {
+      referenceNumber: data.referenceNumber,
+      status: data.status,
+      reportId: data.reportId,
+      reportUrl: data.reportUrl,
+      raw: data.rawXml,
+    };
+  },
+
+  parseResultRecords(body) {
+    if (!body.includes("<")) return null;
+    return parseResultRecords(body);
+  },
+
+  async getReportUrl() {
+    return { success: true, url: REPORT_LOGIN_URL };
+  },
+};
+
+registerScreeningProvider(digitalDelveAdapter);
@@ -0,0 +1,192 @@
+/**
+ * Mock Screening Adapter
+ *
+ * A local stand-in provider for development and testing. Ordering always
+ * succeeds, then the adapter posts its own status and result webhooks back
+ * to the URLs it was given, so an order runs the same webhook path a real
+ * provider's would. Never available in production.
+ *
+ * - Any username/password verifies.
+ * - Applicant emails containing "+fail@" get an error status and no result.
+ * - The result carries a structured report: clean with a 720 score by
+ *   default, or with findings for "+evict@", "+crim@", "+collections@" and
+ *   "+lowcredit@" emails.
+ * - MOCK_SCREENING_STEP_MS sets the delay between steps (default 5s).
+ */
+
+import { isProduction } from "../../utils/env";
+import {
+  creditScoreBand,
+  normalizeCriminalDisposition,
+  normalizeEvictionDisposition,
+  normalizeOffenseClass,
+  normalizeReportDate,
+} from "@shared/screeningResults";
+import type { ScreeningProvider, ScreeningResultRecordInput, ScreeningWebhookEvent } from "../types";
+import { registerScreeningProvider } from "../registry";
+
+const MOCK_PACKAGES = [
+  { id: "mock-basic", name: "Mock Basic", description: "Simulated credit and eviction check" },
+  { id: "mock-plus", name: "Mock Plus", description: "Simulated credit, eviction and criminal check" },
+];
+
+function stepDelayMs(): number {
+  return Number(process.env.MOCK_SCREENING_STEP_MS) || 5000;
+}
+
+export function mockReportPath(referenceNumber: string): string {
+  return `/api/webhooks/screening/mock/report/${encodeURIComponent(referenceNumber)}`;
+}
+
+interface MockReport {
+  creditScore: number;
+  collections: Array<{ creditor: string; amount: number; housing: boolean }>;
+  evictions: Array<{ caseNumber: string; court: string; filed: string; disposition: string; dispositionDate: string }>;
+  criminal: Array<{ caseNumber: string; offenseClass: string; description: string; offenseDate: string; disposition: string; dispositionDate: string }>;
+}
+
+function yearsAgo(years: number): string {
+  const d = new Date();
+  d.setFullYear(d.getFullYear() - years);
+  return d.toISOString().slice(0, 10);
+}
+
+function buildMockReport(email: string): MockReport {
+  const tag = (name: string) => new RegExp(`\\+${name}@`, "i").test(email);
+  return {
+    creditScore: tag("lowcredit") ? 545 : 720,
+    collections: tag("collections")
+      ? [
+          { creditor: "Midland Credit Management", amount: 842.17, housing: false },
+          { creditor: "Oakwood Apartments", amount: 2150, housing: true },
+        ]
+      : [],
+    evictions: tag("evict")
+      ? [{ caseNumber: "MOCK-EV-2041", court: "Mock County Justice Court", filed: yearsAgo(3), disposition: "Judgment for Plaintiff", dispositionDate: yearsAgo(3) }]
+      : [],
+    criminal: tag("crim")
+      ? [
+          { caseNumber: "MOCK-CR-1187", offenseClass: "Misdemeanor", description: "Disorderly conduct", offenseDate: yearsAgo(9), disposition: "Convicted", dispositionDate: yearsAgo(9) },
+          { caseNumber: "MOCK-CR-2290", offenseClass: "Felony", description: "Theft", offenseDate: yearsAgo(1), disposition: "Arrest - no disposition", dispositionDate: "" },
+        ]
+      : [],
+  };
+}
+
+function postMockWebhook(url: string, payload: { referenceNumber: string; status: string } & Record<string, unknown>, delayMs: number) {
+  const timer = setTimeout(() => {
+    fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(payload),
+    })
+      .then((res) => console.log(`[MockScreening] Posted ${payload.status} for ${payload.referenceNumber}: ${res.status}`))
+      .catch((err) => console.error(`[MockScreening] Failed to post webhook for ${payload.referenceNumber}:`, err));
+  }, delayMs);
+  timer.unref();
+}
+
+export const mockAdapter: ScreeningProvider = {
+  id: "mock",
+  name: "Mock provider (testing)",
+  requiresPackageSetup: false,
+
+  isAvailable() {
+    return !isProduction();
+  },
+
+  async verifyCredentials() {
+    return { success: true };
+  },
+
+  async listPackages() {
+    return { success: true, packages: MOCK_PACKAGES };
+  },
+
+  async orderScreening(request) {
+    const { referenceNumber } = request;
+    const delay = stepDelayMs();
+
+    if (/\+fail@/i.test(request.applicant.email)) {
+      postMockWebhook(request.statusPostUrl, { referenceNumber, status: "Error" }, delay);
+      return { success: true };
+    }
+
+    const reportId = `MOCK-${referenceNumber}`;
+    const reportUrl = new URL(mockReportPath(referenceNumber), request.resultPostUrl).toString();
+    postMockWebhook(request.statusPostUrl, { referenceNumber, status: "In Progress" }, delay);
+    const report = buildMockReport(request.applicant.email);
+    postMockWebhook(request.resultPostUrl, { referenceNumber, status: "Complete", reportId, reportUrl, report }, delay * 2);
+    return { success: true, reportId };
+  },
+
+  async checkStatus(order) {
+    return { success: true, status: order.status === "sent" ? "in_progress" : undefined };
+  },
+
+  parseWebhook(_kind, body) {
+    try {
+      const data = JSON.parse(body);
+      if (!data || typeof data.referenceNumber !== "string" || typeof data.status !== "string") return null;
+      const event: ScreeningWebhookEvent = {
+        referenceNumber: data.referenceNumber,
+        status: data.status.toLowerCase().replace(/\s+/g, "_"),
+        reportId: typeof data.reportId === "string" ? data.reportId : undefined,
+        reportUrl: typeof data.reportUrl === "string" ? data.reportUrl : undefined,
+        raw: body,
+      };
+      return event;
+    } catch {
+      return null;
+    }
+  },
+
+  parseResultRecords(body) {
+    let report: MockReport | undefined;
+    try {
+      report = JSON.parse(body)?.report;
+    } catch {
+      return null;
+    }
+    if (!report || typeof report !== "object") return null;
+
+    const records: ScreeningResultRecordInput[] = [];
+    if (typeof report.creditScore === "number") {
+      records.push({ kind: "credit_score", creditScore: report.creditScore, scoreBand: creditScoreBand(report.creditScore) });
+    }
+    for (const c of report.collections || []) {
+      records.push({ kind: "collection", creditorName: c.creditor, amountCents: Math.round(c.amount * 100), housingRelated: c.housing });
+    }
+    for (const e of report.evictions || []) {
+      records.push({
+        kind: "eviction",
+        caseNumber: e.caseNumber,
+        court: e.court,
+        filedOn: normalizeReportDate(e.filed),
+        disposition: normalizeEvictionDisposition(e.disposition),
+        dispositionOn: normalizeReportDate(e.dispositionDate),
+      });
+    }
+    for (const c of report.criminal || []) {
+      records.push({
+        kind: "criminal",
+        caseNumber: c.caseNumber,
+        disposition: normalizeCriminalDisposition(c.disposition),
+        dispositionOn: normalizeReportDate(c.dispositionDate),
+        offenseClass: normalizeOffenseClass(c.offenseClass),
+        offenseDescription: c.description,
+        offenseOn: normalizeReportDate(c.offenseDate),
+      });
+    }
+    return records;
+  },
+
+  async getReportUrl(order) {
+    if (order.status !== "complete" || !order.reportUrl) {
+      return { success: false, error: "Report not available yet" };
+    }
+    return { success: true, url: order.reportUrl };
+  },
+};
+
+registerScreeningProvider(mockAdapter);
@@ -0,0 +1,18 @@
+/**
+ * Screening Providers Module
+ *
+ * To add a provider:
+ * 1. Create adapter file in ./adapters/
+ * 2. Import it here (auto-registers via registerScreeningProvider call in adapter)
+ */
+
+export * from "./types";
+export * from "./registry";
+export * from "./accounts";
+export * from "./orders";
+
+import "./adapters/digitalDelveAdapter";
+import "./adapters/mockAdapter";
+
+export { digitalDelveAdapter } from "./adapters/digitalDelveAdapter";
+export { mockAdapter, mockReportPath } from "./adapters/mockAdapter";
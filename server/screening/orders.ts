@@ -0,0 +1,247 @@
+/**
+ * Screening order lifecycle, shared by every provider.
+ *
+ * Completion is determined SOLELY by a provider's result webhook. Status
+ * webhooks and status checks only ever record intermediate progress - a
+ * status webhook saying "complete" (or a check that looks finished) would
+ * otherwise show "Screening Complete" with no report behind it. If a result
+ * webhook is genuinely missed, the landlord verifies with the provider and
+ * uses the explicit "Mark complete" action.
+ */
+
+import type { RentalScreeningOrder } from "@shared/schema";
+import { storage } from "../storage";
+import { getScreeningProvider } from "./registry";
+import type { ScreeningAccount } from "./accounts";
+import type { ScreeningApplicant, ScreeningWebhookKind } from "./types";
+
+export function getScreeningWebhookSecret(): string | undefined {
+  return process.env.SCREENING_WEBHOOK_SECRET || process.env.DIGITAL_DELVE_WEBHOOK_SECRET;
+}
+
+function webhookUrl(baseUrl: string, providerId: string, kind: ScreeningWebhookKind): string {
+  const secret = getScreeningWebhookSecret();
+  const tokenParam = secret ? `?token=${encodeURIComponent(secret)}` : "";
+  return `${baseUrl}/api/webhooks/screening/${providerId}/${kind}${tokenParam}`;
+}
+
+export async function placeScreeningOrder(
+  submissionId: string,
+  applicant: ScreeningApplicant,
+  baseUrl: string,
+  account: ScreeningAccount,
+  invitationId?: string,
+  personId?: string
+): Promise<{ success: boolean; order?: RentalScreeningOrder; error?: string }> {
+  const { provider, credentials } = account;
+  if (!provider.isAvailable()) {
+    return { success: false, error: `${provider.name} is not available` };
+  }
+
+  const referenceNumber = `LS-${submissionId.slice(0, 8)}-${Date.now()}`;
+  const resolvedInvitationId = invitationId || credentials?.invitationId;
+
+  // Initialize polling fields - poll for 48 hours, first check in 2 minutes
+  const now = new Date();
+  const nextStatusCheckAt = new Date(now.getTime() + 2 * 60 * 1000); // 2 minutes
+  const pollUntil = new Date(now.getTime() + 48 * 60 * 60 * 1000); // 48 hours
+
+  const order = await storage.createRentalScreeningOrder({
+    submissionId,
+    personId: personId || null,
+    provider: provider.id,
+    referenceNumber,
+    invitationId: resolvedInvitationId || null,
+    status: "not_sent",
+    reportId: null,
+    reportUrl: null,
+    rawStatusPayload: null,
+    rawResultPayload: null,
+    errorMessage: null,
+    lastStatusCheckAt: null,
+    nextStatusCheckAt,
+    pollUntil,
+    consecutiveFailures: 0,
+  });
+
+  const result = await provider.orderScreening({
+    referenceNumber,
+    applicant,
+    invitationId: resolvedInvitationId,
+    statusPostUrl: webhookUrl(baseUrl, provider.id, "status"),
+    resultPostUrl: webhookUrl(baseUrl, provider.id, "result"),
+    credentials,
+  });
+
+  if (result.success) {
+    const updatedOrder = await storage.updateRentalScreeningOrder(order.id, {
+      status: "sent",
+      reportId: result.reportId || null,
+    });
+    return { success: true, order: updatedOrder || order };
+  }
+
+  await storage.updateRentalScreeningOrder(order.id, {
+    status: "error",
+    errorMessage: result.error,
+  });
+  return { success: false, error: result.error };
+}
+
+/**
+ * Apply a provider webhook to its order. Returns the submission so the caller
+ * can roll the submission status forward.
+ */
+export async function handleScreeningWebhook(
+  providerId: string,
+  kind: ScreeningWebhookKind,
+  body: string
+): Promise<{ success: boolean; submissionId?: string }> {
+  const provider = getScreeningProvider(providerId);
+  if (!provider || !provider.isAvailable()) {
+    console.error("Webhook for unknown screening provider:", providerId);
+    return { success: false };
+  }
+
+  const event = provider.parseWebhook(kind, body);
+  if (!event) {
+    console.error(`Failed to parse ${provider.id} ${kind} webhook:`, body.substring(0, 500));
+    return { success: false };
+  }
+
+  try {
+    const order = await storage.getRentalScreeningOrderByReference(event.referenceNumber);
+    if (!order) {
+      console.error("Screening order not found for reference:", event.referenceNumber);
+      return { success: false };
+    }
+    if (order.provider !== provider.id) {
+      console.error(`Screening order ${order.id} belongs to ${order.provider}, not ${provider.id}`);
+      return { success: false };
+    }
+
+    if (kind === "result") {
+      await storage.updateRentalScreeningOrder(order.id, {
+        status: "complete",
+        reportId: event.reportId || order.reportId,
+        reportUrl: event.reportUrl || order.reportUrl,
+        rawResultPayload: event.raw,
+      });
+      // Findings are a convenience on top of the report - a payload we can't
+      // read never holds up completion.
+      try {
+        const records = provider.parseResultRecords(event.raw);
+        if (records) await storage.replaceScreeningResultRecords(order.id, records);
+      } catch (error) {
+        console.error(`Failed to store screening findings for order ${order.id}:`, error);
+      }
+      return { success: true, submissionId: order.submissionId };
+    }
+
+    // Map any incoming status to a safe intermediate value; unknown statuses
+    // fall back to "in_progress".
+    let mappedStatus: "sent" | "in_progress" | "error";
+    if (event.status === "error" || event.status === "failed") {
+      mappedStatus = "error";
+    } else if (event.status === "sent" || event.status === "invitation_sent" || event.status === "not_sent") {
+      mappedStatus = "sent";
+    } else {
+      mappedStatus = "in_progress";
+    }
+    if (event.status === "complete" || event.status === "completed") {
+      console.warn(`[Screening] ${provider.id} status webhook reported "${event.status}" for ref ${event.referenceNumber}; recording as in_progress and waiting for the result webhook to confirm completion.`);
+    }
+
+    await storage.updateRentalScreeningOrder(order.id, {
+      status: mappedStatus,
+      reportId: event.reportId || order.reportId,
+      reportUrl: event.reportUrl || order.reportUrl,
+      rawStatusPayload: event.raw,
+    });
+    return { success: true, submissionId: order.submissionId };
+  } catch (error) {
+    console.error(`Error processing ${kind} webhook:`, error);
+    return { success: false };
+  }
+}
+
+/**
+ * Check on a pending order with its provider and record that a check
+ * happened. Never marks an order complete (see the note at the top).
+ * The account's credentials are only used when it is the order's provider.
+ */
+export async function syncScreeningOrder(
+  orderId: string,
+  account: ScreeningAccount | null
+): Promise<{ success: boolean; status: string; newlyCompleted?: boolean; error?: string }> {
+  try {
+    const order = await storage.getRentalScreeningOrderById(orderId);
+    if (!order) {
+      return { success: false, status: 'error', error: 'Order not found' };
+    }
+    if (!order.referenceNumber) {
+      return { success: false, status: order.status, error: 'No reference number' };
+    }
+    if (order.status === 'complete') {
+      return { success: true, status: 'complete' };
+    }
+
+    const provider = getScreeningProvider(order.provider);
+    if (!provider) {
+      return { success: false, status: order.status, error: `Unknown screening provider: ${order.provider}` };
+    }
+    const credentials = account?.provider.id === provider.id ? account.credentials : undefined;
+
+    console.log(`[Screening] Checking ${provider.id} status for order ${orderId}, ref: ${order.referenceNumber}`);
+    const result = await provider.checkStatus(order, credentials);
+    if (!result.success) {
+      return { success: false, status: order.status, error: result.error };
+    }
+
+    const updated = await storage.updateRentalScreeningOrder(orderId, {
+      lastStatusCheckAt: new Date(),
+      ...(result.status ? { status: result.status } : {}),
+    });
+    return { success: true, status: updated?.status || order.status };
+  } catch (error: any) {
+    console.error('[Screening] Error checking screening status:', error);
+    return { success: false, status: 'error', error: error.message };
+  }
+}
+
+export async function bulkSyncScreeningOrders(
+  userId: string,
+  account: ScreeningAccount | null
+): Promise<{ synced: number; completed: number; errors: number }> {
+  let synced = 0, completed = 0, errors = 0;
+
+  try {
+    const pendingOrders = await storage.getPendingScreeningOrdersForUser(userId);
+    if (pendingOrders.length === 0) {
+      return { synced: 0, completed: 0, errors: 0 };
+    }
+
+    console.log(`[Screening] Bulk sync: ${pendingOrders.length} pending orders for user ${userId}`);
+
+    for (const order of pendingOrders) {
+      try {
+        await new Promise(resolve => setTimeout(resolve, 500));
+
+        const result = await syncScreeningOrder(order.id, account);
+        synced++;
+        if (result.status === 'complete') {
+          completed++;
+        }
+      } catch (err) {
+        console.error(`[Screening] Bulk sync error for order ${order.id}:`, err);
+        errors++;
+      }
+    }
+
+    console.log(`[Screening] Bulk sync done: ${synced} checked, ${completed} completed, ${errors} errors`);
+  } catch (error) {
+    console.error('[Screening] Bulk sync error:', error);
+  }
+
+  return { synced, completed, errors };
+}
@@ -0,0 +1,31 @@
+/**
+ * Screening Provider Registry
+ *
+ * To add a provider:
+ * 1. Create the adapter in ./adapters/ and call registerScreeningProvider
+ * 2. Import it from ./index.ts
+ * 3. Add its id to ScreeningProviderId
+ */
+
+import type { ScreeningProvider, ScreeningProviderId } from "./types";
+
+// Landlords without a saved provider choice (and every order placed before
+// providers were pluggable) use DigitalDelve.
+export const DEFAULT_SCREENING_PROVIDER: ScreeningProviderId = "digitaldelve";
+
+const providers: Map<ScreeningProviderId, ScreeningProvider> = new Map();
+
+export function registerScreeningProvider(provider: ScreeningProvider): void {
+  if (providers.has(provider.id)) {
+    console.warn(`Screening provider ${provider.id} already registered, replacing...`);
+  }
+  providers.set(provider.id, provider);
+}
+
+export function getScreeningProvider(id: string | null | undefined): ScreeningProvider | undefined {
+  return providers.get((id || DEFAULT_SCREENING_PROVIDER) as ScreeningProviderId);
+}
+
+export function getAvailableScreeningProviders(): ScreeningProvider[] {
+  return Array.from(providers.values()).filter((p) => p.isAvailable());
+}
@@ -0,0 +1,98 @@
+/**
+ * Screening Provider Types
+ *
+ * A screening provider is the consumer reporting agency a landlord orders
+ * applicant screening through. The order lifecycle (creating the order row,
+ * webhook bookkeeping, submission status) is shared; each provider only
+ * translates between that lifecycle and its own API.
+ */
+
+import type { InsertScreeningResultRecord, RentalScreeningOrder } from "@shared/schema";
+
+export type ScreeningProviderId = "digitaldelve" | "mock";
+
+export interface ScreeningCredentials {
+  username: string;
+  password: string;
+  invitationId?: string;
+}
+
+export interface ScreeningApplicant {
+  firstName: string;
+  lastName: string;
+  email: string;
+  phone?: string;
+  ssn?: string;
+  dob?: string;
+  address?: string;
+  city?: string;
+  state?: string;
+  zip?: string;
+}
+
+export interface ScreeningOrderRequest {
+  referenceNumber: string;
+  applicant: ScreeningApplicant;
+  invitationId?: string;
+  statusPostUrl: string;
+  resultPostUrl: string;
+  // Omitted when the landlord has no verified account - providers fall back
+  // to the system account if they have one.
+  credentials?: ScreeningCredentials;
+}
+
+export type ScreeningWebhookKind = "status" | "result";
+
+export interface ScreeningWebhookEvent {
+  referenceNumber: string;
+  status: string; // Provider status, lowercased with spaces as underscores
+  reportId?: string;
+  reportUrl?: string;
+  raw: string;
+}
+
+export interface ScreeningPackage {
+  id: string;
+  name: string;
+  description: string;
+}
+
+export type ScreeningResultRecordInput = Omit<InsertScreeningResultRecord, "orderId">;
+
+export type ScreeningProviderResult<T = {}> = ({ success: true } & T) | { success: false; error: string };
+
+export interface ScreeningProvider {
+  id: ScreeningProviderId;
+  name: string;
+  // Orders need a package (DigitalDelve invitation) attached by an admin
+  // before the landlord's integration is ready.
+  requiresPackageSetup: boolean;
+
+  isAvailable(): boolean;
+
+  verifyCredentials(credentials: ScreeningCredentials): Promise<ScreeningProviderResult>;
+
+  listPackages(credentials?: ScreeningCredentials): Promise<ScreeningProviderResult<{ packages: ScreeningPackage[] }>>;
+
+  orderScreening(request: ScreeningOrderRequest): Promise<ScreeningProviderResult<{ reportId?: string }>>;
+
+  /**
+   * Check on an order between webhooks. Only ever reports intermediate
+   * progress - completion comes solely from the result webhook.
+   */
+  checkStatus(
+    order: RentalScreeningOrder,
+    credentials?: ScreeningCredentials,
+  ): Promise<ScreeningProviderResult<{ status?: "sent" | "in_progress" | "error" }>>;
+
+  parseWebhook(kind: ScreeningWebhookKind, body: string): ScreeningWebhookEvent | null;
+
+  /**
+   * Pull structured findings out of a result webhook body. Returns null when
+   * the payload carries no report data (the report only lives behind the
+   * provider's URL); an empty array means a report with nothing on it.
+   */
+  parseResultRecords(body: string): ScreeningResultRecordInput[] | null;
+
+  getReportUrl(order: RentalScreeningOrder, credentials?: ScreeningCredentials): Promise<ScreeningProviderResult<{ url: string }>>;
+}
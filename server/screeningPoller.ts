@@ -1,7 +1,6 @@
 import { storage } from "./storage";
 import { emailService } from "./emailService";
-import { syncScreeningStatus, type ScreeningCredentials } from "./digitalDelveService";
-import { decryptCredentials } from "./crypto";
+import { resolveScreeningAccount, syncScreeningOrder, type ScreeningAccount } from "./screening";
 import { isProduction } from "./utils/env";
 
 let pollerInterval: NodeJS.Timeout | null = null;
@@ -12,7 +11,7 @@ const INITIAL_DELAY_MS = 60 * 1000; // 1 minute after startup
  * Screening Poller - Refreshes SSO URLs and retries failed notifications.
  * 
  * IMPORTANT: This poller does NOT determine completion status.
- * Completion is ONLY determined by webhooks from Western Verify.
+ * Completion is ONLY determined by result webhooks from the screening provider.
  * SSO redirect URLs are NOT reliable indicators of report readiness -
  * Western Verify returns them even for draft/pending orders.
  * 
@@ -32,50 +31,24 @@ export async function pollScreeningStatus(): Promise<void> {
     } else {
       console.log(`[Poller] Refreshing SSO URLs for ${pendingOrders.length} pending orders`);
 
-      const credentialCache = new Map<string, ScreeningCredentials | null>();
+      const accountCache = new Map<string, ScreeningAccount>();
 
       for (const orderInfo of pendingOrders) {
         const { order, ownerUserId } = orderInfo;
 
         try {
-          if (!credentialCache.has(ownerUserId)) {
-            const landlordCreds = await storage.getLandlordScreeningCredentials(ownerUserId);
-            if (landlordCreds && landlordCreds.status === 'verified') {
-              try {
-                const decrypted = decryptCredentials({
-                  encryptedUsername: landlordCreds.encryptedUsername,
-                  encryptedPassword: landlordCreds.encryptedPassword,
-                  encryptionIv: landlordCreds.encryptionIv,
-                });
-                credentialCache.set(ownerUserId, {
-                  username: decrypted.username,
-                  password: decrypted.password,
-                  invitationId: landlordCreds.defaultInvitationId || undefined,
-                });
-              } catch (e) {
-                console.error(`[Poller] Failed to decrypt credentials for user ${ownerUserId}`);
-                credentialCache.set(ownerUserId, null);
-              }
-            } else {
-              const systemUsername = process.env.DIGITAL_DELVE_USERNAME;
-              const systemPassword = process.env.DIGITAL_DELVE_PASSWORD;
-              if (systemUsername && systemPassword) {
-                credentialCache.set(ownerUserId, { username: systemUsername, password: systemPassword });
-              } else {
-                credentialCache.set(ownerUserId, null);
-              }
-            }
-          }
-
-          const credentials = credentialCache.get(ownerUserId);
-          if (!credentials) {
-            console.log(`[Poller] No credentials available for user ${ownerUserId}, skipping order ${order.id}`);
-            continue;
+          let account = accountCache.get(ownerUserId);
+          if (!account) {
+            account = await resolveScreeningAccount(ownerUserId);
+            accountCache.set(ownerUserId, account);
           }
 
           await new Promise(resolve => setTimeout(resolve, 1000));
 
-          await syncScreeningStatus(order.id, credentials);
+          const result = await syncScreeningOrder(order.id, account);
+          if (!result.success) {
+            console.log(`[Poller] Skipped order ${order.id}: ${result.error}`);
+          }
         } catch (error) {
           console.error(`[Poller] Error refreshing SSO URL for order ${order.id}:`, error);
         }
@@ -6,7 +6,7 @@
  */
 
 import { db } from '../db';
-import { cities, counties, properties } from '../../shared/schema';
+import { cities, counties, rentalProperties } from '../../shared/schema';
 import { eq, and, ilike } from 'drizzle-orm';
 
 export interface ResolvedJurisdiction {
@@ -29,7 +29,7 @@ export interface JurisdictionWarning {
  * Resolve jurisdiction from property ID
  */
 export async function resolveJurisdictionFromProperty(propertyId: string): Promise<ResolvedJurisdiction | null> {
-  const propertyResult = await db.select().from(properties).where(eq(properties.id, propertyId));
+  const propertyResult = await db.select().from(rentalProperties).where(eq(rentalProperties.id, propertyId));
   if (propertyResult.length === 0) return null;
   
   const property = propertyResult[0];
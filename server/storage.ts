@@ -14,11 +14,11 @@ import {
   templateReviewQueue,
   monitoringRuns,
   templateVersions,
-  properties,
   savedDocuments,
   uploadedDocuments,
   communicationTemplates,
   rentLedgerEntries,
+  rentLedgerAllocations,
   rentPaymentRequests,
   rentSubscriptions,
   emailSequences,
@@ -51,6 +51,9 @@ import {
   stateClauseValues,
   type StateClauseValue,
   type InsertStateClauseValue,
+  stateDisclosures,
+  type StateDisclosure,
+  type InsertStateDisclosure,
   type CaseLawMonitoring,
   type InsertCaseLawMonitoring,
   type TemplateReviewQueue,
@@ -59,8 +62,6 @@ import {
   type InsertMonitoringRun,
   type TemplateVersion,
   type InsertTemplateVersion,
-  type Property,
-  type InsertProperty,
   type SavedDocument,
   type InsertSavedDocument,
   type UploadedDocument,
@@ -69,6 +70,7 @@ import {
   type InsertCommunicationTemplate,
   type RentLedgerEntry,
   type InsertRentLedgerEntry,
+  type RentLedgerAllocation,
   type RentPaymentRequest,
   type InsertRentPaymentRequest,
   type RentSubscription,
@@ -94,13 +96,19 @@ import {
   type BroadcastReply,
   type InsertBroadcastReply,
   rentalProperties,
+  rentalPropertySelectionCriteria,
+  type RentalPropertySelectionCriteria,
   rentalUnits,
   rentalApplicationLinks,
   rentalSubmissions,
   rentalSubmissionPeople,
   rentalSubmissionFiles,
+  rentalIncomeSources,
+  type RentalIncomeSource,
+  type InsertRentalIncomeSource,
   rentalSubmissionAcknowledgements,
   rentalScreeningOrders,
+  screeningResultRecords,
   rentalDecisions,
   rentalDenialReasons,
   rentalDecisionLetters,
@@ -121,6 +129,8 @@ import {
   type InsertRentalSubmissionAcknowledgement,
   type RentalScreeningOrder,
   type InsertRentalScreeningOrder,
+  type ScreeningResultRecord,
+  type InsertScreeningResultRecord,
   type RentalDecision,
   type InsertRentalDecision,
   type RentalDenialReason,
@@ -158,6 +168,7 @@ import {
   denialCriteriaRules,
   denialSentenceTemplates,
   denialDecisionAuditLogs,
+  individualizedAssessments,
   type City,
   type InsertCity,
   type County,
@@ -170,12 +181,75 @@ import {
   type InsertDenialSentenceTemplate,
   type DenialDecisionAuditLog,
   type InsertDenialDecisionAuditLog,
+  type IndividualizedAssessment,
   documentReuploadTokens,
   type DocumentReuploadToken,
   type InsertDocumentReuploadToken,
+  tenancies,
+  tenancyOccupants,
+  type Tenancy,
+  type InsertTenancy,
+  type TenancyOccupant,
+  type InsertTenancyOccupant,
+  documentSignatureRequests,
+  documentSigners,
+  type DocumentSignatureRequest,
+  type InsertDocumentSignatureRequest,
+  type DocumentSigner,
+  type InsertDocumentSigner,
+  securityDeposits,
+  securityDepositDeductions,
+  type SecurityDeposit,
+  type InsertSecurityDeposit,
+  type SecurityDepositDeduction,
+  type InsertSecurityDepositDeduction,
+  maintenanceRequests,
+  type MaintenanceRequest,
+  type InsertMaintenanceRequest,
+  vendors,
+  type Vendor,
+  type InsertVendor,
+  propertyExpenses,
+  type PropertyExpense,
+  type InsertPropertyExpense,
+  maintenanceRequestEvents,
+  type MaintenanceRequestEvent,
+  type InsertMaintenanceRequestEvent,
+  maintenanceRequestPhotos,
+  type MaintenanceRequestPhoto,
+  type InsertMaintenanceRequestPhoto,
+  generatedNoticeDocuments,
+  noticeForms,
+  noticeFormVersions,
+  holidayCalendars,
+  holidayCalendarDates,
+  type GeneratedNoticeDocument,
+  evictionTimelineRules,
+  type EvictionTimelineRule,
+  type InsertEvictionTimelineRule,
+  evictionCases,
+  type EvictionCase,
+  type InsertEvictionCase,
+  evictionCaseSteps,
+  type EvictionCaseStep,
+  type InsertEvictionCaseStep,
+  noticeServiceAttempts,
+  type NoticeServiceAttempt,
+  type InsertNoticeServiceAttempt,
+  noticeServiceAttemptPhotos,
+  type NoticeServiceAttemptPhoto,
+  type InsertNoticeServiceAttemptPhoto,
+  organizations,
+  type Organization,
+  type InsertOrganization,
+  organizationMembers,
+  type OrganizationMember,
+  type InsertOrganizationMember,
 } from "@shared/schema";
+import type { SelectionCriteria } from "@shared/selectionCriteria";
+import { planAllocations } from "@shared/tenantLedger";
 import { db } from "./db";
-import { eq, and, or, desc, sql, isNull, lte, lt, gt, gte, inArray, ne } from "drizzle-orm";
+import { eq, and, or, desc, sql, isNull, isNotNull, lte, lt, gt, gte, inArray, ne } from "drizzle-orm";
 import { stateCache, templateCache, complianceCache } from "./utils/cache";
 
 /**
@@ -201,6 +275,48 @@ async function handleDbOperation<T>(
   }
 }
 
+type DbTransaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+function withLedgerMonth(entry: InsertRentLedgerEntry): InsertRentLedgerEntry & { month: string } {
+  return {
+    ...entry,
+    month: entry.month || (entry.effectiveDate
+      ? new Date(entry.effectiveDate).toISOString().slice(0, 7)
+      : new Date().toISOString().slice(0, 7)),
+  };
+}
+
+/**
+ * Apply the tenancy's unapplied credits to its open charges (see
+ * planAllocations). Runs inside every transaction that posts to a tenancy's
+ * ledger; the tenancy row lock serializes concurrent postings so a credit is
+ * never allocated twice.
+ */
+async function allocateTenancyLedger(tx: DbTransaction, tenancyId: string | null | undefined): Promise<void> {
+  if (!tenancyId) return;
+  const [tenancy] = await tx
+    .select({ id: tenancies.id, userId: tenancies.userId })
+    .from(tenancies)
+    .where(eq(tenancies.id, tenancyId))
+    .for('update');
+  if (!tenancy) return;
+
+  const [entries, allocations] = await Promise.all([
+    tx.select().from(rentLedgerEntries).where(eq(rentLedgerEntries.tenancyId, tenancyId)),
+    tx
+      .select()
+      .from(rentLedgerAllocations)
+      .where(and(eq(rentLedgerAllocations.tenancyId, tenancyId), isNull(rentLedgerAllocations.releasedAt))),
+  ]);
+  const planned = planAllocations(entries, allocations);
+  if (planned.length === 0) return;
+  await tx.insert(rentLedgerAllocations).values(
+    planned.map((a) => ({ ...a, userId: tenancy.userId, tenancyId })),
+  );
+}
+
+export type GeneratedNoticeSummary = GeneratedNoticeDocument & { formDisplayName: string; stateId: string };
+
 export interface IStorage {
   // User operations
   getUser(id: string): Promise<User | undefined>;
@@ -323,6 +439,12 @@ export interface IStorage {
   getStateClauseValues(stateId: string): Promise<StateClauseValue[]>;
   upsertStateClauseValue(value: InsertStateClauseValue): Promise<StateClauseValue>;
   listAllStateClauseValues(): Promise<StateClauseValue[]>;
+  getStateDisclosures(filters?: { stateId?: string; status?: string; needsReview?: boolean }): Promise<StateDisclosure[]>;
+  getStateDisclosure(id: string): Promise<StateDisclosure | undefined>;
+  getApprovedStateDisclosures(stateId: string): Promise<StateDisclosure[]>;
+  getLatestStateDisclosureVersion(stateId: string, disclosureKey: string): Promise<number>;
+  createStateDisclosure(disclosure: InsertStateDisclosure): Promise<StateDisclosure>;
+  updateStateDisclosure(id: string, data: Partial<StateDisclosure>): Promise<StateDisclosure | null>;
 
   // Case law monitoring operations
   getCaseLawMonitoringByCaseId(caseId: string): Promise<CaseLawMonitoring | undefined>;
@@ -355,17 +477,11 @@ export interface IStorage {
   createTemplateVersion(versionData: InsertTemplateVersion): Promise<TemplateVersion>;
   getTemplateReviewById(id: string): Promise<TemplateReviewQueue | undefined>;
 
-  // Property operations
-  getPropertiesByUserId(userId: string): Promise<Property[]>;
-  getProperty(id: string, userId: string): Promise<Property | undefined>;
-  createProperty(property: InsertProperty): Promise<Property>;
-  updateProperty(id: string, userId: string, property: Partial<InsertProperty>): Promise<Property | null>;
-  deleteProperty(id: string, userId: string): Promise<boolean>;
-
   // Saved document operations
   getSavedDocumentsByUserId(userId: string): Promise<SavedDocument[]>;
   getSavedDocumentById(id: string): Promise<SavedDocument | undefined>;
   createSavedDocument(document: InsertSavedDocument): Promise<SavedDocument>;
+  updateSavedDocument(id: string, data: Partial<SavedDocument>): Promise<SavedDocument | null>;
   deleteSavedDocument(id: string): Promise<void>;
 
   // Uploaded document operations
@@ -383,9 +499,21 @@ export interface IStorage {
   // Rent ledger operations
   getRentLedgerEntries(userId: string): Promise<RentLedgerEntry[]>;
   getRentLedgerEntriesByProperty(propertyId: string, userId: string): Promise<RentLedgerEntry[]>;
+  getRentLedgerEntry(id: string, userId: string): Promise<RentLedgerEntry | undefined>;
+  /** Posts an entry and allocates the tenancy's open credits. Entries are never updated or deleted. */
   createRentLedgerEntry(entry: InsertRentLedgerEntry): Promise<RentLedgerEntry>;
-  updateRentLedgerEntry(id: string, userId: string, data: Partial<InsertRentLedgerEntry>): Promise<RentLedgerEntry | null>;
-  deleteRentLedgerEntry(id: string, userId: string): Promise<boolean>;
+  /**
+   * Posts a reversal or NSF return of `originalId` (plus an optional fee
+   * charge), releases the original's allocations and re-allocates the
+   * tenancy. Returns null if the original was already reversed.
+   */
+  reverseRentLedgerEntryInTransaction(
+    originalId: string,
+    reversal: InsertRentLedgerEntry,
+    feeEntry?: InsertRentLedgerEntry,
+  ): Promise<{ reversal: RentLedgerEntry; fee: RentLedgerEntry | null } | null>;
+  getRentLedgerAllocationsByTenancy(tenancyId: string, userId: string): Promise<RentLedgerAllocation[]>;
+  getRentLedgerAllocations(userId: string): Promise<RentLedgerAllocation[]>;
 
   // Online rent payment request operations
   getRentPaymentRequests(userId: string): Promise<RentPaymentRequest[]>;
@@ -413,17 +541,20 @@ export interface IStorage {
     ledgerEntryData: InsertRentLedgerEntry,
   ): Promise<{ request: RentPaymentRequest; ledgerEntry: RentLedgerEntry } | null>;
   /**
-   * Atomically apply a late fee: insert a Late Fee charge into rent_ledger,
-   * update the rent payment request (status, lateFeeAppliedAt,
-   * lateFeeLedgerEntryId, increased amount, cleared stripeCheckoutSessionId)
-   * - all in one DB transaction with a SELECT FOR UPDATE row lock.
-   * Idempotent: if the request is already marked with lateFeeAppliedAt, the
-   * call is a no-op and returns null. Recovery-safe: if any step fails, no
-   * partial state is committed.
+   * Atomically apply a late fee: insert a Late Fee charge into rent_ledger
+   * (amountExpected = the fee to post), update the rent payment request
+   * (status, lateFeeAppliedAt, lateFeeLedgerEntryId, lateFeeAssessedAmount,
+   * increased amount, cleared stripeCheckoutSessionId) - all in one DB
+   * transaction with a SELECT FOR UPDATE row lock.
+   * Idempotent: the caller passes the lateFeeAssessedAmount its calculation
+   * was based on; if the locked row no longer matches (another run already
+   * posted), the call is a no-op and returns null. Recovery-safe: if any step
+   * fails, no partial state is committed.
    */
   applyRentLateFeeInTransaction(
     requestId: string,
     ledgerEntryData: InsertRentLedgerEntry,
+    expectedAssessedAmount: number,
   ): Promise<{ request: RentPaymentRequest; ledgerEntry: RentLedgerEntry } | null>;
   deleteRentPaymentRequest(id: string, userId: string): Promise<boolean>;
   getRentPaymentRequestsDueForReminder(): Promise<RentPaymentRequest[]>;
@@ -442,6 +573,178 @@ export interface IStorage {
   deleteRentSubscription(id: string, userId: string): Promise<boolean>;
   getRentSubscriptionsDueForDebit(): Promise<RentSubscription[]>;
 
+  // Tenancy operations
+  getTenancies(userId: string): Promise<Tenancy[]>;
+  getTenancy(id: string, userId: string): Promise<Tenancy | undefined>;
+  getTenancyById(id: string): Promise<Tenancy | undefined>;
+  getTenancyBySubmissionId(submissionId: string): Promise<Tenancy | undefined>;
+  getTenanciesByProperty(rentalPropertyId: string, userId: string): Promise<Tenancy[]>;
+  /**
+   * Creates a tenancy and its occupants in one transaction so a lease never
+   * exists without the people on it. The first occupant flagged isPrimary (or
+   * the first "tenant" if none is flagged) becomes the primary leaseholder.
+   */
+  createTenancy(tenancy: InsertTenancy, occupants: InsertTenancyOccupant[]): Promise<Tenancy>;
+  updateTenancy(id: string, userId: string, data: Partial<Tenancy>): Promise<Tenancy | null>;
+  deleteTenancy(id: string, userId: string): Promise<boolean>;
+  getTenancyOccupants(tenancyId: string): Promise<TenancyOccupant[]>;
+  getRentLedgerEntriesByTenancy(tenancyId: string, userId: string): Promise<RentLedgerEntry[]>;
+  getRentPaymentRequestsByTenancy(tenancyId: string, userId: string): Promise<RentPaymentRequest[]>;
+  getRentSubscriptionsByTenancy(tenancyId: string, userId: string): Promise<RentSubscription[]>;
+  getSavedDocumentsByTenancy(tenancyId: string, userId: string): Promise<SavedDocument[]>;
+
+  // Document signature operations
+  getDocumentSignatureRequest(id: string, userId: string): Promise<DocumentSignatureRequest | undefined>;
+  getDocumentSignatureRequestById(id: string): Promise<DocumentSignatureRequest | undefined>;
+  getDocumentSignatureRequestsByDocument(savedDocumentId: string, userId: string): Promise<DocumentSignatureRequest[]>;
+  createDocumentSignatureRequest(
+    request: InsertDocumentSignatureRequest,
+    signers: InsertDocumentSigner[],
+  ): Promise<{ request: DocumentSignatureRequest; signers: DocumentSigner[] }>;
+  updateDocumentSignatureRequest(id: string, data: Partial<DocumentSignatureRequest>): Promise<DocumentSignatureRequest | null>;
+  /**
+   * Moves a pending request to completed. Conditional on it still being
+   * pending, so when two final signatures race only one caller gets the row
+   * back and goes on to stamp and send. Returns null if nothing was updated.
+   */
+  claimDocumentSignatureCompletion(id: string, completedAt: Date): Promise<DocumentSignatureRequest | null>;
+  /**
+   * Cancels a request only while it is still pending, so a cancel can't undo
+   * a completion or decline that landed first. Returns null if nothing was
+   * updated.
+   */
+  cancelDocumentSignatureRequest(id: string, canceledAt: Date): Promise<DocumentSignatureRequest | null>;
+  getDocumentSigners(requestId: string): Promise<DocumentSigner[]>;
+  getDocumentSignerByToken(token: string): Promise<DocumentSigner | undefined>;
+  updateDocumentSigner(id: string, data: Partial<DocumentSigner>): Promise<DocumentSigner | null>;
+  /**
+   * Records a signature on a pending signer row. The UPDATE is conditional on
+   * the signer (and its request) still being pending, so a double submit or a
+   * race with cancel can't sign twice. Returns null if nothing was updated.
+   */
+  recordDocumentSignature(signerId: string, data: Partial<DocumentSigner>): Promise<DocumentSigner | null>;
+  /**
+   * Declines for one signer and closes the request, in one transaction that
+   * locks the request row. Only a pending request and a signer who hasn't
+   * signed can decline, so a decline racing the last signature can't
+   * overwrite a completion. Returns null if nothing was updated.
+   */
+  declineDocumentSignature(
+    signerId: string,
+    data: Pick<DocumentSigner, 'declinedAt' | 'declineReason'>,
+  ): Promise<{ signer: DocumentSigner; request: DocumentSignatureRequest } | null>;
+
+  // Security deposit operations
+  getSecurityDeposits(userId: string): Promise<SecurityDeposit[]>;
+  getSecurityDepositsByTenancy(tenancyId: string, userId: string): Promise<SecurityDeposit[]>;
+  getSecurityDeposit(id: string, userId: string): Promise<SecurityDeposit | undefined>;
+  createSecurityDeposit(deposit: InsertSecurityDeposit): Promise<SecurityDeposit>;
+  updateSecurityDeposit(id: string, userId: string, data: Partial<SecurityDeposit>): Promise<SecurityDeposit | null>;
+  deleteSecurityDeposit(id: string, userId: string): Promise<boolean>;
+  getSecurityDepositDeductions(depositId: string): Promise<SecurityDepositDeduction[]>;
+  createSecurityDepositDeduction(deduction: InsertSecurityDepositDeduction): Promise<SecurityDepositDeduction>;
+  deleteSecurityDepositDeduction(id: string, depositId: string): Promise<boolean>;
+  /**
+   * Final disposition: posts the ledger entry and marks the deposit disposed
+   * in one transaction. The deposit row is locked and must not already be
+   * disposed, so a double submit can't post the ledger entry twice. Returns
+   * null if the deposit was already disposed.
+   */
+  disposeSecurityDepositInTransaction(
+    id: string,
+    ledgerEntryData: InsertRentLedgerEntry,
+    data: Partial<SecurityDeposit>,
+  ): Promise<{ deposit: SecurityDeposit; ledgerEntry: RentLedgerEntry } | null>;
+
+  // Tenant portal operations
+  getTenancyOccupantById(id: string): Promise<TenancyOccupant | undefined>;
+  getTenancyOccupantByInviteToken(token: string): Promise<TenancyOccupant | undefined>;
+  updateTenancyOccupant(id: string, data: Partial<TenancyOccupant>): Promise<TenancyOccupant | null>;
+  /** Tenancies a tenant login is an occupant of (via tenancy_occupants.user_id). */
+  getTenanciesForTenantUser(tenantUserId: string): Promise<Tenancy[]>;
+  /** The tenant's occupant row on a tenancy; undefined means no access. */
+  getTenancyOccupantForUser(tenancyId: string, tenantUserId: string): Promise<TenancyOccupant | undefined>;
+
+  // Maintenance request operations
+  getMaintenanceRequests(userId: string): Promise<MaintenanceRequest[]>;
+  getMaintenanceRequestsByTenancy(tenancyId: string): Promise<MaintenanceRequest[]>;
+  getMaintenanceRequest(id: string, userId: string): Promise<MaintenanceRequest | undefined>;
+  getMaintenanceRequestById(id: string): Promise<MaintenanceRequest | undefined>;
+  /** Creates the ticket and its "created" history event together. */
+  createMaintenanceRequest(request: InsertMaintenanceRequest, actorUserId: string | null): Promise<MaintenanceRequest>;
+  /**
+   * Updates the ticket and appends its history events in one transaction so
+   * the status history can't drift from the ticket.
+   */
+  updateMaintenanceRequest(
+    id: string,
+    userId: string,
+    data: Partial<MaintenanceRequest>,
+    events: Omit<InsertMaintenanceRequestEvent, 'requestId'>[],
+  ): Promise<MaintenanceRequest | null>;
+  deleteMaintenanceRequest(id: string, userId: string): Promise<boolean>;
+  getMaintenanceRequestEvents(requestId: string): Promise<MaintenanceRequestEvent[]>;
+  createMaintenanceRequestEvent(event: InsertMaintenanceRequestEvent): Promise<MaintenanceRequestEvent>;
+  getMaintenanceRequestPhotos(requestId: string): Promise<MaintenanceRequestPhoto[]>;
+  getMaintenanceRequestPhoto(id: string, requestId: string): Promise<MaintenanceRequestPhoto | undefined>;
+  createMaintenanceRequestPhoto(photo: InsertMaintenanceRequestPhoto): Promise<MaintenanceRequestPhoto>;
+  deleteMaintenanceRequestPhoto(id: string, requestId: string): Promise<boolean>;
+
+  // Vendor operations
+  getVendors(userId: string): Promise<Vendor[]>;
+  getVendor(id: string, userId: string): Promise<Vendor | undefined>;
+  createVendor(vendor: InsertVendor): Promise<Vendor>;
+  updateVendor(id: string, userId: string, data: Partial<Vendor>): Promise<Vendor | null>;
+  deleteVendor(id: string, userId: string): Promise<boolean>;
+
+  // Property expense operations
+  getPropertyExpenses(userId: string): Promise<PropertyExpense[]>;
+  getPropertyExpense(id: string, userId: string): Promise<PropertyExpense | undefined>;
+  createPropertyExpense(expense: InsertPropertyExpense): Promise<PropertyExpense>;
+  updatePropertyExpense(id: string, userId: string, data: Partial<PropertyExpense>): Promise<PropertyExpense | null>;
+  deletePropertyExpense(id: string, userId: string): Promise<boolean>;
+
+  // Eviction case operations
+  getGeneratedNoticeDocumentsForUser(userId: string): Promise<GeneratedNoticeSummary[]>;
+  getGeneratedNoticeDocument(id: string, userId: string): Promise<GeneratedNoticeSummary | undefined>;
+  getHolidaysForState(stateId: string): Promise<Array<{ date: string; label: string }>>;
+  getHolidayCalendarDates(holidayCalendarId: string): Promise<Array<{ date: string; label: string }>>;
+  getEvictionTimelineRules(stateId?: string): Promise<EvictionTimelineRule[]>;
+  upsertEvictionTimelineRule(rule: InsertEvictionTimelineRule): Promise<EvictionTimelineRule>;
+  deleteEvictionTimelineRule(id: string): Promise<boolean>;
+  getEvictionCases(userId: string): Promise<EvictionCase[]>;
+  getEvictionCase(id: string, userId: string): Promise<EvictionCase | undefined>;
+  getEvictionCaseById(id: string): Promise<EvictionCase | undefined>;
+  createEvictionCase(evictionCase: InsertEvictionCase): Promise<EvictionCase>;
+  updateEvictionCase(id: string, userId: string, data: Partial<EvictionCase>): Promise<EvictionCase | null>;
+  deleteEvictionCase(id: string, userId: string): Promise<boolean>;
+  getEvictionCaseSteps(caseId: string): Promise<EvictionCaseStep[]>;
+  saveEvictionCaseSteps(caseId: string, steps: Omit<InsertEvictionCaseStep, 'caseId'>[]): Promise<EvictionCaseStep[]>;
+  updateEvictionCaseStep(id: string, caseId: string, data: Partial<EvictionCaseStep>): Promise<EvictionCaseStep | null>;
+  getEvictionStepsDueForReminder(fromDate: string, throughDate: string): Promise<Array<{ step: EvictionCaseStep; evictionCase: EvictionCase }>>;
+
+  // Notice service log operations
+  getNoticeServiceAttempts(generatedNoticeDocumentId: string): Promise<NoticeServiceAttempt[]>;
+  createNoticeServiceAttempt(attempt: Omit<InsertNoticeServiceAttempt, 'attemptNumber'>): Promise<NoticeServiceAttempt>;
+  deleteNoticeServiceAttempt(id: string, generatedNoticeDocumentId: string): Promise<boolean>;
+  getNoticeServiceAttemptPhotos(attemptIds: string[]): Promise<NoticeServiceAttemptPhoto[]>;
+  getNoticeServiceAttemptPhoto(id: string, attemptId: string): Promise<NoticeServiceAttemptPhoto | undefined>;
+  createNoticeServiceAttemptPhoto(photo: InsertNoticeServiceAttemptPhoto): Promise<NoticeServiceAttemptPhoto>;
+  deleteNoticeServiceAttemptPhoto(id: string, attemptId: string): Promise<boolean>;
+
+  // Organization operations
+  getOrganizationByOwner(ownerUserId: string): Promise<Organization | undefined>;
+  createOrganization(organization: InsertOrganization): Promise<Organization>;
+  updateOrganization(id: string, data: Partial<InsertOrganization>): Promise<Organization | undefined>;
+  getOrganizationMembers(organizationId: string): Promise<OrganizationMember[]>;
+  getOrganizationMember(id: string, organizationId: string): Promise<OrganizationMember | undefined>;
+  getOrganizationMemberByEmail(organizationId: string, email: string): Promise<OrganizationMember | undefined>;
+  getOrganizationMemberByInviteToken(token: string): Promise<OrganizationMember | undefined>;
+  getOrganizationMembershipForUser(userId: string): Promise<{ member: OrganizationMember; organization: Organization } | undefined>;
+  createOrganizationMember(member: InsertOrganizationMember): Promise<OrganizationMember>;
+  updateOrganizationMember(id: string, data: Partial<InsertOrganizationMember>): Promise<OrganizationMember | undefined>;
+  deleteOrganizationMember(id: string, organizationId: string): Promise<boolean>;
+
   // Training interest operations
   getTrainingInterest(userId: string): Promise<TrainingInterest | undefined>;
   createTrainingInterest(interest: InsertTrainingInterest): Promise<TrainingInterest>;
@@ -493,6 +796,12 @@ export interface IStorage {
   updateRentalProperty(id: string, userId: string, property: Partial<InsertRentalProperty>): Promise<RentalProperty | null>;
   deleteRentalProperty(id: string, userId: string): Promise<boolean>;
 
+  // Rental Application System - Published selection criteria (newest version first)
+  getSelectionCriteriaVersions(propertyId: string): Promise<RentalPropertySelectionCriteria[]>;
+  getCurrentSelectionCriteria(propertyId: string): Promise<RentalPropertySelectionCriteria | undefined>;
+  getSelectionCriteriaVersion(id: string): Promise<RentalPropertySelectionCriteria | undefined>;
+  publishSelectionCriteria(propertyId: string, userId: string, criteria: SelectionCriteria): Promise<RentalPropertySelectionCriteria>;
+
   // Rental Application System - Unit operations
   getRentalUnitsByPropertyId(propertyId: string): Promise<RentalUnit[]>;
   getRentalUnit(id: string): Promise<RentalUnit | undefined>;
@@ -516,6 +825,7 @@ export interface IStorage {
   // Rental Application System - Submission operations
   getRentalSubmissionsByUserId(userId: string, includeDeleted?: boolean, includeArchived?: boolean): Promise<RentalSubmission[]>;
   getRentalSubmission(id: string): Promise<RentalSubmission | undefined>;
+  getCompletedRentalSubmissionsByUnitId(unitId: string): Promise<RentalSubmission[]>;
   createRentalSubmission(submission: InsertRentalSubmission): Promise<RentalSubmission>;
   updateRentalSubmission(id: string, submission: Partial<InsertRentalSubmission>): Promise<RentalSubmission | null>;
   softDeleteRentalSubmission(id: string): Promise<boolean>;
@@ -539,6 +849,13 @@ export interface IStorage {
   deleteRentalSubmissionFile(id: string): Promise<boolean>;
   supersedeFilesForType(personId: string, fileType: string): Promise<void>;
 
+  // Rental Application System - Income sources
+  getRentalIncomeSources(submissionId: string): Promise<RentalIncomeSource[]>;
+  getRentalIncomeSource(id: string): Promise<RentalIncomeSource | undefined>;
+  createRentalIncomeSource(source: InsertRentalIncomeSource): Promise<RentalIncomeSource>;
+  updateRentalIncomeSource(id: string, source: Partial<InsertRentalIncomeSource>): Promise<RentalIncomeSource | null>;
+  deleteRentalIncomeSource(id: string): Promise<boolean>;
+
   // Document Re-upload Tokens
   createDocumentReuploadToken(token: InsertDocumentReuploadToken): Promise<DocumentReuploadToken>;
   getDocumentReuploadToken(id: string): Promise<DocumentReuploadToken | undefined>;
@@ -579,10 +896,14 @@ export interface IStorage {
     propertyName: string;
     unitName: string;
   }>>;
+  getScreeningResultRecordsBySubmission(submissionId: string): Promise<ScreeningResultRecord[]>;
+  replaceScreeningResultRecords(orderId: string, records: Omit<InsertScreeningResultRecord, 'orderId'>[]): Promise<ScreeningResultRecord[]>;
 
   // Rental Application System - Decision operations
   getRentalDecision(submissionId: string): Promise<RentalDecision | undefined>;
   createRentalDecision(decision: InsertRentalDecision): Promise<RentalDecision>;
+  updateRentalDecision(id: string, data: Partial<RentalDecision>): Promise<RentalDecision | null>;
+  getPendingApprovalHolds(): Promise<RentalDecision[]>;
 
   // Rental Application System - Denial reason operations
   getRentalDenialReasons(decisionId: string): Promise<RentalDenialReason[]>;
@@ -652,8 +973,14 @@ export interface IStorage {
   createDenialDecisionAuditLog(log: InsertDenialDecisionAuditLog): Promise<DenialDecisionAuditLog>;
   getDenialDecisionAuditLogs(userId: string): Promise<DenialDecisionAuditLog[]>;
   deleteDenialDecisionAuditLog(id: string, userId: string): Promise<boolean>;
-  updateDenialDecisionAuditLog(id: string, userId: string, updates: { applicantName?: string; outcome?: 'approve' | 'conditional' | 'deny' }): Promise<DenialDecisionAuditLog | null>;
+  updateDenialDecisionAuditLog(id: string, userId: string, updates: { applicantName?: string; outcome?: 'approve' | 'conditional' | 'deny'; fairChanceStepsCompleted?: Record<string, boolean> }): Promise<DenialDecisionAuditLog | null>;
   updateDenialDecisionAuditLogLetterType(id: number, userId: string, letterType: string): Promise<DenialDecisionAuditLog | null>;
+  getDenialDecisionAuditLog(id: string, userId: string): Promise<DenialDecisionAuditLog | undefined>;
+
+  // Individualized assessments (fair-chance criminal history denials)
+  getIndividualizedAssessmentByAuditLog(auditLogId: string, userId: string): Promise<IndividualizedAssessment | undefined>;
+  createIndividualizedAssessment(assessment: typeof individualizedAssessments.$inferInsert): Promise<IndividualizedAssessment>;
+  updateIndividualizedAssessment(id: string, userId: string, updates: Partial<IndividualizedAssessment>): Promise<IndividualizedAssessment | undefined>;
   updateUserPreferredCity(userId: string, cityId: string | null): Promise<User>;
 }
 
@@ -1625,6 +1952,60 @@ export class DatabaseStorage implements IStorage {
     return await db.select().from(stateClauseValues);
   }
 
+  async getStateDisclosures(filters?: { stateId?: string; status?: string; needsReview?: boolean }): Promise<StateDisclosure[]> {
+    return handleDbOperation(async () => {
+      const conditions = [];
+      if (filters?.stateId) conditions.push(eq(stateDisclosures.stateId, filters.stateId));
+      if (filters?.status) conditions.push(eq(stateDisclosures.status, filters.status as 'draft' | 'in_review' | 'approved' | 'archived'));
+      if (filters?.needsReview !== undefined) conditions.push(eq(stateDisclosures.needsReview, filters.needsReview));
+      return await db.select().from(stateDisclosures)
+        .where(conditions.length > 0 ? and(...conditions) : undefined)
+        .orderBy(stateDisclosures.stateId, stateDisclosures.sortOrder, stateDisclosures.disclosureKey, desc(stateDisclosures.version));
+    }, 'getStateDisclosures');
+  }
+
+  async getStateDisclosure(id: string): Promise<StateDisclosure | undefined> {
+    return handleDbOperation(async () => {
+      const [disclosure] = await db.select().from(stateDisclosures).where(eq(stateDisclosures.id, id));
+      return disclosure;
+    }, 'getStateDisclosure');
+  }
+
+  // Every approved version, not just the newest - the renderer picks the one
+  // in effect on the lease date.
+  async getApprovedStateDisclosures(stateId: string): Promise<StateDisclosure[]> {
+    return handleDbOperation(async () => {
+      return await db.select().from(stateDisclosures)
+        .where(and(eq(stateDisclosures.stateId, stateId), eq(stateDisclosures.status, 'approved')));
+    }, 'getApprovedStateDisclosures');
+  }
+
+  async getLatestStateDisclosureVersion(stateId: string, disclosureKey: string): Promise<number> {
+    return handleDbOperation(async () => {
+      const [row] = await db.select({ version: sql<number>`max(${stateDisclosures.version})` })
+        .from(stateDisclosures)
+        .where(and(eq(stateDisclosures.stateId, stateId), eq(stateDisclosures.disclosureKey, disclosureKey)));
+      return Number(row?.version ?? 0);
+    }, 'getLatestStateDisclosureVersion');
+  }
+
+  async createStateDisclosure(disclosure: InsertStateDisclosure): Promise<StateDisclosure> {
+    return handleDbOperation(async () => {
+      const [created] = await db.insert(stateDisclosures).values(disclosure).returning();
+      return created;
+    }, 'createStateDisclosure');
+  }
+
+  async updateStateDisclosure(id: string, data: Partial<StateDisclosure>): Promise<StateDisclosure | null> {
+    return handleDbOperation(async () => {
+      const [updated] = await db.update(stateDisclosures)
+        .set({ ...data, updatedAt: new Date() })
+        .where(eq(stateDisclosures.id, id))
+        .returning();
+      return updated || null;
+    }, 'updateStateDisclosure');
+  }
+
   // Case law monitoring operations
   async getCaseLawMonitoringByCaseId(caseId: string): Promise<CaseLawMonitoring | undefined> {
     const [monitoring] = await db.select().from(caseLawMonitoring).where(eq(caseLawMonitoring.caseId, caseId));
@@ -1843,48 +2224,6 @@ export class DatabaseStorage implements IStorage {
     return review;
   }
 
-  // Property operations
-  async getPropertiesByUserId(userId: string): Promise<Property[]> {
-    return await db
-      .select()
-      .from(properties)
-      .where(eq(properties.userId, userId))
-      .orderBy(desc(properties.createdAt));
-  }
-
-  async getProperty(id: string, userId: string): Promise<Property | undefined> {
-    const [property] = await db
-      .select()
-      .from(properties)
-      .where(and(eq(properties.id, id), eq(properties.userId, userId)));
-    return property;
-  }
-
-  async createProperty(property: InsertProperty): Promise<Property> {
-    const [newProperty] = await db
-      .insert(properties)
-      .values(property)
-      .returning();
-    return newProperty;
-  }
-
-  async updateProperty(id: string, userId: string, property: Partial<InsertProperty>): Promise<Property | null> {
-    const [updatedProperty] = await db
-      .update(properties)
-      .set({ ...property, updatedAt: new Date() })
-      .where(and(eq(properties.id, id), eq(properties.userId, userId)))
-      .returning();
-    return updatedProperty || null;
-  }
-
-  async deleteProperty(id: string, userId: string): Promise<boolean> {
-    const result = await db
-      .delete(properties)
-      .where(and(eq(properties.id, id), eq(properties.userId, userId)))
-      .returning();
-    return result.length > 0;
-  }
-
   // Saved document operations
   async getSavedDocumentsByUserId(userId: string): Promise<SavedDocument[]> {
     return await db
@@ -1910,6 +2249,15 @@ export class DatabaseStorage implements IStorage {
     return savedDoc;
   }
 
+  async updateSavedDocument(id: string, data: Partial<SavedDocument>): Promise<SavedDocument | null> {
+    const [updated] = await db
+      .update(savedDocuments)
+      .set(data)
+      .where(eq(savedDocuments.id, id))
+      .returning();
+    return updated || null;
+  }
+
   async deleteSavedDocument(id: string): Promise<void> {
     await db.delete(savedDocuments).where(eq(savedDocuments.id, id));
   }
@@ -2006,45 +2354,91 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(rentLedgerEntries.month));
   }
 
+  async getRentLedgerEntry(id: string, userId: string): Promise<RentLedgerEntry | undefined> {
+    const [entry] = await db
+      .select()
+      .from(rentLedgerEntries)
+      .where(and(eq(rentLedgerEntries.id, id), eq(rentLedgerEntries.userId, userId)));
+    return entry;
+  }
+
   async createRentLedgerEntry(entry: InsertRentLedgerEntry): Promise<RentLedgerEntry> {
-    // Generate month from effectiveDate if not provided
-    const entryWithMonth = {
-      ...entry,
-      month: entry.month || (entry.effectiveDate 
-        ? new Date(entry.effectiveDate).toISOString().slice(0, 7)
-        : new Date().toISOString().slice(0, 7)
-      ),
-    };
-    const [newEntry] = await db
-      .insert(rentLedgerEntries)
-      .values(entryWithMonth)
-      .returning();
-    return newEntry;
+    return handleDbOperation(async () => {
+      return await db.transaction(async (tx) => {
+        const [newEntry] = await tx
+          .insert(rentLedgerEntries)
+          .values(withLedgerMonth(entry))
+          .returning();
+        await allocateTenancyLedger(tx, newEntry.tenancyId);
+        return newEntry;
+      });
+    }, 'createRentLedgerEntry');
+  }
+
+  async reverseRentLedgerEntryInTransaction(
+    originalId: string,
+    reversal: InsertRentLedgerEntry,
+    feeEntry?: InsertRentLedgerEntry,
+  ): Promise<{ reversal: RentLedgerEntry; fee: RentLedgerEntry | null } | null> {
+    return handleDbOperation(async () => {
+      return await db.transaction(async (tx) => {
+        // Lock the original so two reversals of it serialize; the partial
+        // unique index on reverses_entry_id backs this up.
+        const [original] = await tx
+          .select()
+          .from(rentLedgerEntries)
+          .where(eq(rentLedgerEntries.id, originalId))
+          .for('update');
+        if (!original) return null;
+        const [already] = await tx
+          .select({ id: rentLedgerEntries.id })
+          .from(rentLedgerEntries)
+          .where(eq(rentLedgerEntries.reversesEntryId, originalId))
+          .limit(1);
+        if (already) return null;
+
+        const [posted] = await tx
+          .insert(rentLedgerEntries)
+          .values(withLedgerMonth({ ...reversal, reversesEntryId: originalId }))
+          .returning();
+        await tx
+          .update(rentLedgerAllocations)
+          .set({ releasedAt: new Date(), releasedByEntryId: posted.id })
+          .where(and(
+            isNull(rentLedgerAllocations.releasedAt),
+            or(
+              eq(rentLedgerAllocations.creditEntryId, originalId),
+              eq(rentLedgerAllocations.debitEntryId, originalId),
+            ),
+          ));
+
+        let fee: RentLedgerEntry | null = null;
+        if (feeEntry) {
+          [fee] = await tx
+            .insert(rentLedgerEntries)
+            .values(withLedgerMonth(feeEntry))
+            .returning();
+        }
+        await allocateTenancyLedger(tx, original.tenancyId);
+        return { reversal: posted, fee };
+      });
+    }, 'reverseRentLedgerEntryInTransaction');
   }
 
-  async updateRentLedgerEntry(id: string, userId: string, data: Partial<InsertRentLedgerEntry>): Promise<RentLedgerEntry | null> {
-    // Generate month from effectiveDate if not provided
-    const dataWithMonth = {
-      ...data,
-      month: data.month || (data.effectiveDate
-        ? new Date(data.effectiveDate).toISOString().slice(0, 7)
-        : undefined
-      ),
-    };
-    const [updated] = await db
-      .update(rentLedgerEntries)
-      .set({ ...dataWithMonth, updatedAt: new Date() })
-      .where(and(eq(rentLedgerEntries.id, id), eq(rentLedgerEntries.userId, userId)))
-      .returning();
-    return updated || null;
+  async getRentLedgerAllocationsByTenancy(tenancyId: string, userId: string): Promise<RentLedgerAllocation[]> {
+    return await db
+      .select()
+      .from(rentLedgerAllocations)
+      .where(and(eq(rentLedgerAllocations.tenancyId, tenancyId), eq(rentLedgerAllocations.userId, userId)))
+      .orderBy(rentLedgerAllocations.createdAt);
   }
 
-  async deleteRentLedgerEntry(id: string, userId: string): Promise<boolean> {
-    const result = await db
-      .delete(rentLedgerEntries)
-      .where(and(eq(rentLedgerEntries.id, id), eq(rentLedgerEntries.userId, userId)))
-      .returning();
-    return result.length > 0;
+  async getRentLedgerAllocations(userId: string): Promise<RentLedgerAllocation[]> {
+    return await db
+      .select()
+      .from(rentLedgerAllocations)
+      .where(eq(rentLedgerAllocations.userId, userId))
+      .orderBy(rentLedgerAllocations.createdAt);
   }
 
   // Online rent payment request operations
@@ -2114,18 +2508,11 @@ export class DatabaseStorage implements IStorage {
       // Truly finalized - ledger linkage already present. Skip safely.
       if (locked.ledgerEntryId) return null;
 
-      // Ensure month is set, mirroring createRentLedgerEntry's logic.
-      const entryWithMonth = {
-        ...ledgerEntryData,
-        month: ledgerEntryData.month || (ledgerEntryData.effectiveDate
-          ? new Date(ledgerEntryData.effectiveDate).toISOString().slice(0, 7)
-          : new Date().toISOString().slice(0, 7)),
-      };
-
       const [ledgerEntry] = await tx
         .insert(rentLedgerEntries)
-        .values(entryWithMonth)
+        .values(withLedgerMonth(ledgerEntryData))
         .returning();
+      await allocateTenancyLedger(tx, ledgerEntry.tenancyId);
 
       // Defense-in-depth: if the actual amount received is less than what was
       // owed at the time of finalization (would only happen if a stale checkout
@@ -2169,6 +2556,7 @@ export class DatabaseStorage implements IStorage {
   async applyRentLateFeeInTransaction(
     requestId: string,
     ledgerEntryData: InsertRentLedgerEntry,
+    expectedAssessedAmount: number,
   ): Promise<{ request: RentPaymentRequest; ledgerEntry: RentLedgerEntry } | null> {
     return await db.transaction(async (tx) => {
       // Lock the rent_payment_requests row so concurrent late-fee runs (or a
@@ -2179,32 +2567,29 @@ export class DatabaseStorage implements IStorage {
         .where(eq(rentPaymentRequests.id, requestId))
         .for('update');
       if (!locked) return null;
-      // Idempotency guard: if the late fee has already been applied (or the
-      // request was paid/canceled in the meantime), skip - no duplicate
-      // ledger charge will be created.
-      if (locked.lateFeeAppliedAt || locked.lateFeeLedgerEntryId) return null;
+      // Idempotency guard: if another run posted a late fee since the caller
+      // computed this one (or the request was paid/canceled in the meantime),
+      // skip - no duplicate ledger charge will be created.
+      if (locked.lateFeeAssessedAmount !== expectedAssessedAmount) return null;
+      const fee = ledgerEntryData.amountExpected;
+      if (!(fee > 0)) return null;
       if (locked.status === 'paid' || locked.status === 'canceled' || locked.status === 'processing') return null;
 
-      const entryWithMonth = {
-        ...ledgerEntryData,
-        month: ledgerEntryData.month || (ledgerEntryData.effectiveDate
-          ? new Date(ledgerEntryData.effectiveDate).toISOString().slice(0, 7)
-          : new Date().toISOString().slice(0, 7)),
-      };
-
       const [ledgerEntry] = await tx
         .insert(rentLedgerEntries)
-        .values(entryWithMonth)
+        .values(withLedgerMonth(ledgerEntryData))
         .returning();
+      await allocateTenancyLedger(tx, ledgerEntry.tenancyId);
 
       const now = new Date();
       const [request] = await tx
         .update(rentPaymentRequests)
         .set({
-          lateFeeAppliedAt: now,
+          lateFeeAppliedAt: locked.lateFeeAppliedAt ?? now,
           lateFeeLedgerEntryId: ledgerEntry.id,
+          lateFeeAssessedAmount: locked.lateFeeAssessedAmount + fee,
           status: 'overdue',
-          amount: locked.amount + locked.lateFeeAmount,
+          amount: locked.amount + fee,
           // Clear any stale checkout session so the next checkout creates a
           // fresh session with the new (post-late-fee) amount.
           stripeCheckoutSessionId: null,
@@ -2335,176 +2720,1097 @@ export class DatabaseStorage implements IStorage {
   }
 
   async getRentPaymentRequestsDueForLateFee(): Promise<RentPaymentRequest[]> {
-    // Find unpaid requests past due + grace period, with a configured late fee, not yet applied
+    // Find unpaid requests past due + grace period with a configured late fee
+    // that is not yet applied - or, for accruing (daily/tiered) policies, that
+    // may have grown since it was last posted. The late-fee engine decides the
+    // actual amount (and may post nothing).
     return await db
       .select()
       .from(rentPaymentRequests)
       .where(
         and(
-          inArray(rentPaymentRequests.status, ['pending', 'reminded']),
-          isNull(rentPaymentRequests.lateFeeAppliedAt),
-          gt(rentPaymentRequests.lateFeeAmount, 0),
+          inArray(rentPaymentRequests.status, ['pending', 'reminded', 'overdue']),
+          or(
+            gt(rentPaymentRequests.lateFeeAmount, 0),
+            isNotNull(rentPaymentRequests.lateFeePolicyJson),
+          ),
+          or(
+            isNull(rentPaymentRequests.lateFeeAppliedAt),
+            sql`${rentPaymentRequests.lateFeePolicyJson}->>'type' IN ('daily', 'tiered')`,
+          ),
           sql`${rentPaymentRequests.dueDate}::date + (${rentPaymentRequests.gracePeriodDays} || ' days')::interval < CURRENT_DATE`,
         ),
       );
   }
 
-  // Training interest operations
-  async getTrainingInterest(userId: string): Promise<TrainingInterest | undefined> {
-    const [interest] = await db
+  // Tenancy operations
+  async getTenancies(userId: string): Promise<Tenancy[]> {
+    return await db
       .select()
-      .from(trainingInterest)
-      .where(eq(trainingInterest.userId, userId));
-    return interest;
+      .from(tenancies)
+      .where(eq(tenancies.userId, userId))
+      .orderBy(desc(tenancies.startDate));
   }
 
-  async createTrainingInterest(interest: InsertTrainingInterest): Promise<TrainingInterest> {
-    const [newInterest] = await db
-      .insert(trainingInterest)
-      .values(interest)
-      .returning();
-    return newInterest;
+  async getTenancy(id: string, userId: string): Promise<Tenancy | undefined> {
+    const [t] = await db
+      .select()
+      .from(tenancies)
+      .where(and(eq(tenancies.id, id), eq(tenancies.userId, userId)));
+    return t;
   }
 
-  // Email sequence operations
-  async getEmailSequences(): Promise<EmailSequence[]> {
-    return await db.select().from(emailSequences).orderBy(emailSequences.name);
+  async getTenancyById(id: string): Promise<Tenancy | undefined> {
+    const [t] = await db.select().from(tenancies).where(eq(tenancies.id, id));
+    return t;
   }
 
-  async getEmailSequenceByTrigger(trigger: string): Promise<EmailSequence | undefined> {
-    const [sequence] = await db
+  async getTenancyBySubmissionId(submissionId: string): Promise<Tenancy | undefined> {
+    const [t] = await db.select().from(tenancies).where(eq(tenancies.submissionId, submissionId));
+    return t;
+  }
+
+  async getTenanciesByProperty(rentalPropertyId: string, userId: string): Promise<Tenancy[]> {
+    return await db
       .select()
-      .from(emailSequences)
-      .where(and(eq(emailSequences.trigger, trigger), eq(emailSequences.isActive, true)));
-    return sequence;
+      .from(tenancies)
+      .where(and(eq(tenancies.rentalPropertyId, rentalPropertyId), eq(tenancies.userId, userId)))
+      .orderBy(desc(tenancies.startDate));
+  }
+
+  async createTenancy(tenancy: InsertTenancy, occupants: InsertTenancyOccupant[]): Promise<Tenancy> {
+    return handleDbOperation(async () => {
+      return await db.transaction(async (tx) => {
+        const [created] = await tx.insert(tenancies).values(tenancy).returning();
+        if (occupants.length > 0) {
+          const primaryIdx = occupants.findIndex((o) => o.isPrimary);
+          const fallbackIdx = occupants.findIndex((o) => (o.role || 'tenant') === 'tenant');
+          const effectivePrimary = primaryIdx >= 0 ? primaryIdx : fallbackIdx;
+          await tx.insert(tenancyOccupants).values(
+            occupants.map((o, i) => ({ ...o, tenancyId: created.id, isPrimary: i === effectivePrimary })),
+          );
+        }
+        return created;
+      });
+    }, 'createTenancy');
   }
 
-  async getEmailSequenceById(id: string): Promise<EmailSequence | undefined> {
-    const [sequence] = await db.select().from(emailSequences).where(eq(emailSequences.id, id));
-    return sequence;
+  async updateTenancy(id: string, userId: string, data: Partial<Tenancy>): Promise<Tenancy | null> {
+    const [t] = await db
+      .update(tenancies)
+      .set({ ...data, updatedAt: new Date() })
+      .where(and(eq(tenancies.id, id), eq(tenancies.userId, userId)))
+      .returning();
+    return t || null;
   }
 
-  async createEmailSequence(sequence: InsertEmailSequence): Promise<EmailSequence> {
-    const [newSequence] = await db.insert(emailSequences).values(sequence).returning();
-    return newSequence;
+  async deleteTenancy(id: string, userId: string): Promise<boolean> {
+    const result = await db
+      .delete(tenancies)
+      .where(and(eq(tenancies.id, id), eq(tenancies.userId, userId)))
+      .returning({ id: tenancies.id });
+    return result.length > 0;
   }
 
-  // Email sequence step operations
-  async getEmailSequenceSteps(sequenceId: string): Promise<EmailSequenceStep[]> {
+  async getTenancyOccupants(tenancyId: string): Promise<TenancyOccupant[]> {
     return await db
       .select()
-      .from(emailSequenceSteps)
-      .where(eq(emailSequenceSteps.sequenceId, sequenceId))
-      .orderBy(emailSequenceSteps.stepNumber);
-  }
-
-  async getEmailSequenceStep(id: string): Promise<EmailSequenceStep | undefined> {
-    const [step] = await db.select().from(emailSequenceSteps).where(eq(emailSequenceSteps.id, id));
-    return step;
+      .from(tenancyOccupants)
+      .where(eq(tenancyOccupants.tenancyId, tenancyId))
+      .orderBy(desc(tenancyOccupants.isPrimary), tenancyOccupants.createdAt);
   }
 
-  async createEmailSequenceStep(step: InsertEmailSequenceStep): Promise<EmailSequenceStep> {
-    const [newStep] = await db.insert(emailSequenceSteps).values(step).returning();
-    return newStep;
+  async getRentLedgerEntriesByTenancy(tenancyId: string, userId: string): Promise<RentLedgerEntry[]> {
+    return await db
+      .select()
+      .from(rentLedgerEntries)
+      .where(and(eq(rentLedgerEntries.tenancyId, tenancyId), eq(rentLedgerEntries.userId, userId)))
+      .orderBy(desc(rentLedgerEntries.effectiveDate));
   }
 
-  // Email sequence enrollment operations
-  async getActiveEnrollments(): Promise<EmailSequenceEnrollment[]> {
+  async getRentPaymentRequestsByTenancy(tenancyId: string, userId: string): Promise<RentPaymentRequest[]> {
     return await db
       .select()
-      .from(emailSequenceEnrollments)
-      .where(eq(emailSequenceEnrollments.status, "active"));
+      .from(rentPaymentRequests)
+      .where(and(eq(rentPaymentRequests.tenancyId, tenancyId), eq(rentPaymentRequests.userId, userId)))
+      .orderBy(desc(rentPaymentRequests.dueDate));
   }
 
-  async getEnrollmentsByUser(userId: string): Promise<EmailSequenceEnrollment[]> {
+  async getRentSubscriptionsByTenancy(tenancyId: string, userId: string): Promise<RentSubscription[]> {
     return await db
       .select()
-      .from(emailSequenceEnrollments)
-      .where(eq(emailSequenceEnrollments.userId, userId));
+      .from(rentSubscriptions)
+      .where(and(eq(rentSubscriptions.tenancyId, tenancyId), eq(rentSubscriptions.userId, userId)))
+      .orderBy(desc(rentSubscriptions.createdAt));
   }
 
-  async getActiveEnrollmentByUserAndSequence(userId: string, sequenceId: string): Promise<EmailSequenceEnrollment | undefined> {
-    const [enrollment] = await db
+  async getSavedDocumentsByTenancy(tenancyId: string, userId: string): Promise<SavedDocument[]> {
+    return await db
       .select()
-      .from(emailSequenceEnrollments)
-      .where(
-        and(
-          eq(emailSequenceEnrollments.userId, userId),
-          eq(emailSequenceEnrollments.sequenceId, sequenceId),
-          eq(emailSequenceEnrollments.status, "active")
-        )
-      );
-    return enrollment;
+      .from(savedDocuments)
+      .where(and(eq(savedDocuments.tenancyId, tenancyId), eq(savedDocuments.userId, userId)))
+      .orderBy(desc(savedDocuments.createdAt));
   }
 
-  async createEnrollment(enrollment: InsertEmailSequenceEnrollment): Promise<EmailSequenceEnrollment> {
-    const [newEnrollment] = await db.insert(emailSequenceEnrollments).values(enrollment).returning();
-    return newEnrollment;
+  // Document signature operations
+  async getDocumentSignatureRequest(id: string, userId: string): Promise<DocumentSignatureRequest | undefined> {
+    const [r] = await db
+      .select()
+      .from(documentSignatureRequests)
+      .where(and(eq(documentSignatureRequests.id, id), eq(documentSignatureRequests.userId, userId)));
+    return r;
   }
 
-  async updateEnrollment(id: string, data: Partial<EmailSequenceEnrollment>): Promise<EmailSequenceEnrollment> {
-    const [updated] = await db
-      .update(emailSequenceEnrollments)
-      .set(data)
-      .where(eq(emailSequenceEnrollments.id, id))
-      .returning();
-    return updated;
+  async getDocumentSignatureRequestById(id: string): Promise<DocumentSignatureRequest | undefined> {
+    const [r] = await db.select().from(documentSignatureRequests).where(eq(documentSignatureRequests.id, id));
+    return r;
   }
 
-  async getPendingEnrollments(): Promise<EmailSequenceEnrollment[]> {
-    const now = new Date();
+  async getDocumentSignatureRequestsByDocument(savedDocumentId: string, userId: string): Promise<DocumentSignatureRequest[]> {
     return await db
       .select()
-      .from(emailSequenceEnrollments)
-      .where(
-        and(
-          eq(emailSequenceEnrollments.status, "active"),
-          sql`${emailSequenceEnrollments.nextSendAt} <= ${now}`
-        )
-      );
-  }
-
-  // Email event operations
-  async createEmailEvent(event: InsertEmailEvent): Promise<EmailEvent> {
-    const [newEvent] = await db.insert(emailEvents).values(event).returning();
-    return newEvent;
+      .from(documentSignatureRequests)
+      .where(and(
+        eq(documentSignatureRequests.savedDocumentId, savedDocumentId),
+        eq(documentSignatureRequests.userId, userId),
+      ))
+      .orderBy(desc(documentSignatureRequests.createdAt));
+  }
+
+  async createDocumentSignatureRequest(
+    request: InsertDocumentSignatureRequest,
+    signers: InsertDocumentSigner[],
+  ): Promise<{ request: DocumentSignatureRequest; signers: DocumentSigner[] }> {
+    return handleDbOperation(async () => {
+      return await db.transaction(async (tx) => {
+        const [created] = await tx.insert(documentSignatureRequests).values(request).returning();
+        const createdSigners = signers.length > 0
+          ? await tx
+              .insert(documentSigners)
+              .values(signers.map((s) => ({ ...s, requestId: created.id })))
+              .returning()
+          : [];
+        return { request: created, signers: createdSigners };
+      });
+    }, 'createDocumentSignatureRequest');
   }
 
-  async updateEmailEventStatus(resendId: string, status: string, timestamp: Date): Promise<EmailEvent | undefined> {
-    const updateData: Record<string, any> = { status };
-    
-    if (status === "delivered") updateData.deliveredAt = timestamp;
-    else if (status === "opened") updateData.openedAt = timestamp;
-    else if (status === "clicked") updateData.clickedAt = timestamp;
-    else if (status === "bounced") updateData.bouncedAt = timestamp;
-    
-    const [updated] = await db
-      .update(emailEvents)
-      .set(updateData)
-      .where(eq(emailEvents.resendId, resendId))
+  async updateDocumentSignatureRequest(id: string, data: Partial<DocumentSignatureRequest>): Promise<DocumentSignatureRequest | null> {
+    const [r] = await db
+      .update(documentSignatureRequests)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(documentSignatureRequests.id, id))
       .returning();
-    return updated;
+    return r || null;
   }
 
-  async getEmailEventsByUser(userId: string): Promise<EmailEvent[]> {
-    return await db
-      .select()
-      .from(emailEvents)
-      .where(eq(emailEvents.userId, userId))
-      .orderBy(desc(emailEvents.sentAt));
+  async claimDocumentSignatureCompletion(id: string, completedAt: Date): Promise<DocumentSignatureRequest | null> {
+    const [r] = await db
+      .update(documentSignatureRequests)
+      .set({ status: 'completed', completedAt, updatedAt: new Date() })
+      .where(and(eq(documentSignatureRequests.id, id), eq(documentSignatureRequests.status, 'pending')))
+      .returning();
+    return r || null;
   }
 
-  // Broadcast operations
-  async createBroadcast(broadcast: InsertBroadcastMessage): Promise<BroadcastMessage> {
-    const [newBroadcast] = await db.insert(broadcastMessages).values(broadcast).returning();
-    return newBroadcast;
+  async cancelDocumentSignatureRequest(id: string, canceledAt: Date): Promise<DocumentSignatureRequest | null> {
+    const [r] = await db
+      .update(documentSignatureRequests)
+      .set({ status: 'canceled', canceledAt, updatedAt: new Date() })
+      .where(and(eq(documentSignatureRequests.id, id), eq(documentSignatureRequests.status, 'pending')))
+      .returning();
+    return r || null;
   }
 
-  async getAllBroadcasts(): Promise<BroadcastMessage[]> {
+  async getDocumentSigners(requestId: string): Promise<DocumentSigner[]> {
     return await db
       .select()
-      .from(broadcastMessages)
-      .orderBy(desc(broadcastMessages.createdAt));
+      .from(documentSigners)
+      .where(eq(documentSigners.requestId, requestId))
+      .orderBy(documentSigners.createdAt);
+  }
+
+  async getDocumentSignerByToken(token: string): Promise<DocumentSigner | undefined> {
+    const [s] = await db.select().from(documentSigners).where(eq(documentSigners.token, token));
+    return s;
+  }
+
+  async updateDocumentSigner(id: string, data: Partial<DocumentSigner>): Promise<DocumentSigner | null> {
+    const [s] = await db
+      .update(documentSigners)
+      .set(data)
+      .where(eq(documentSigners.id, id))
+      .returning();
+    return s || null;
+  }
+
+  async recordDocumentSignature(signerId: string, data: Partial<DocumentSigner>): Promise<DocumentSigner | null> {
+    const [s] = await db
+      .update(documentSigners)
+      .set({ ...data, status: 'signed' })
+      .where(and(
+        eq(documentSigners.id, signerId),
+        inArray(documentSigners.status, ['pending', 'viewed']),
+        sql`EXISTS (SELECT 1 FROM ${documentSignatureRequests} WHERE ${documentSignatureRequests.id} = ${documentSigners.requestId} AND ${documentSignatureRequests.status} = 'pending')`,
+      ))
+      .returning();
+    return s || null;
+  }
+
+  async declineDocumentSignature(
+    signerId: string,
+    data: Pick<DocumentSigner, 'declinedAt' | 'declineReason'>,
+  ): Promise<{ signer: DocumentSigner; request: DocumentSignatureRequest } | null> {
+    return await db.transaction(async (tx) => {
+      const [current] = await tx.select().from(documentSigners).where(eq(documentSigners.id, signerId));
+      if (!current) return null;
+      // Lock the request so a completion claim waits for (or beats) us.
+      const [locked] = await tx
+        .select()
+        .from(documentSignatureRequests)
+        .where(and(eq(documentSignatureRequests.id, current.requestId), eq(documentSignatureRequests.status, 'pending')))
+        .for('update');
+      if (!locked) return null;
+
+      const [signer] = await tx
+        .update(documentSigners)
+        .set({ ...data, status: 'declined' })
+        .where(and(eq(documentSigners.id, signerId), inArray(documentSigners.status, ['pending', 'viewed'])))
+        .returning();
+      if (!signer) return null;
+      const [request] = await tx
+        .update(documentSignatureRequests)
+        .set({ status: 'declined', updatedAt: new Date() })
+        .where(eq(documentSignatureRequests.id, locked.id))
+        .returning();
+      return { signer, request };
+    });
+  }
+
+  // Security deposit operations
+  async getSecurityDeposits(userId: string): Promise<SecurityDeposit[]> {
+    return await db
+      .select()
+      .from(securityDeposits)
+      .where(eq(securityDeposits.userId, userId))
+      .orderBy(desc(securityDeposits.collectedDate));
+  }
+
+  async getSecurityDepositsByTenancy(tenancyId: string, userId: string): Promise<SecurityDeposit[]> {
+    return await db
+      .select()
+      .from(securityDeposits)
+      .where(and(eq(securityDeposits.tenancyId, tenancyId), eq(securityDeposits.userId, userId)))
+      .orderBy(desc(securityDeposits.collectedDate));
+  }
+
+  async getSecurityDeposit(id: string, userId: string): Promise<SecurityDeposit | undefined> {
+    const [d] = await db
+      .select()
+      .from(securityDeposits)
+      .where(and(eq(securityDeposits.id, id), eq(securityDeposits.userId, userId)));
+    return d;
+  }
+
+  async createSecurityDeposit(deposit: InsertSecurityDeposit): Promise<SecurityDeposit> {
+    const [created] = await db.insert(securityDeposits).values(deposit).returning();
+    return created;
+  }
+
+  async updateSecurityDeposit(id: string, userId: string, data: Partial<SecurityDeposit>): Promise<SecurityDeposit | null> {
+    const [d] = await db
+      .update(securityDeposits)
+      .set({ ...data, updatedAt: new Date() })
+      .where(and(eq(securityDeposits.id, id), eq(securityDeposits.userId, userId)))
+      .returning();
+    return d || null;
+  }
+
+  async deleteSecurityDeposit(id: string, userId: string): Promise<boolean> {
+    const result = await db
+      .delete(securityDeposits)
+      .where(and(eq(securityDeposits.id, id), eq(securityDeposits.userId, userId)))
+      .returning({ id: securityDeposits.id });
+    return result.length > 0;
+  }
+
+  async getSecurityDepositDeductions(depositId: string): Promise<SecurityDepositDeduction[]> {
+    return await db
+      .select()
+      .from(securityDepositDeductions)
+      .where(eq(securityDepositDeductions.depositId, depositId))
+      .orderBy(securityDepositDeductions.createdAt);
+  }
+
+  async createSecurityDepositDeduction(deduction: InsertSecurityDepositDeduction): Promise<SecurityDepositDeduction> {
+    const [created] = await db.insert(securityDepositDeductions).values(deduction).returning();
+    return created;
+  }
+
+  async deleteSecurityDepositDeduction(id: string, depositId: string): Promise<boolean> {
+    const result = await db
+      .delete(securityDepositDeductions)
+      .where(and(eq(securityDepositDeductions.id, id), eq(securityDepositDeductions.depositId, depositId)))
+      .returning({ id: securityDepositDeductions.id });
+    return result.length > 0;
+  }
+
+  async disposeSecurityDepositInTransaction(
+    id: string,
+    ledgerEntryData: InsertRentLedgerEntry,
+    data: Partial<SecurityDeposit>,
+  ): Promise<{ deposit: SecurityDeposit; ledgerEntry: RentLedgerEntry } | null> {
+    return handleDbOperation(async () => {
+      return await db.transaction(async (tx) => {
+        const [locked] = await tx
+          .select()
+          .from(securityDeposits)
+          .where(eq(securityDeposits.id, id))
+          .for('update');
+        if (!locked || locked.status === 'disposed') return null;
+
+        const [ledgerEntry] = await tx
+          .insert(rentLedgerEntries)
+          .values(withLedgerMonth(ledgerEntryData))
+          .returning();
+        await allocateTenancyLedger(tx, ledgerEntry.tenancyId);
+
+        const [deposit] = await tx
+          .update(securityDeposits)
+          .set({
+            ...data,
+            status: 'disposed',
+            dispositionLedgerEntryId: ledgerEntry.id,
+            updatedAt: new Date(),
+          })
+          .where(eq(securityDeposits.id, id))
+          .returning();
+        return { deposit, ledgerEntry };
+      });
+    }, 'disposeSecurityDepositInTransaction');
+  }
+
+  // Tenant portal operations
+  async getTenancyOccupantById(id: string): Promise<TenancyOccupant | undefined> {
+    const [o] = await db.select().from(tenancyOccupants).where(eq(tenancyOccupants.id, id));
+    return o;
+  }
+
+  async getTenancyOccupantByInviteToken(token: string): Promise<TenancyOccupant | undefined> {
+    const [o] = await db.select().from(tenancyOccupants).where(eq(tenancyOccupants.portalInviteToken, token));
+    return o;
+  }
+
+  async updateTenancyOccupant(id: string, data: Partial<TenancyOccupant>): Promise<TenancyOccupant | null> {
+    const [o] = await db
+      .update(tenancyOccupants)
+      .set(data)
+      .where(eq(tenancyOccupants.id, id))
+      .returning();
+    return o || null;
+  }
+
+  async getTenanciesForTenantUser(tenantUserId: string): Promise<Tenancy[]> {
+    const rows = await db
+      .select({ tenancy: tenancies })
+      .from(tenancies)
+      .innerJoin(tenancyOccupants, eq(tenancyOccupants.tenancyId, tenancies.id))
+      .where(eq(tenancyOccupants.userId, tenantUserId))
+      .orderBy(desc(tenancies.startDate));
+    return rows.map((r) => r.tenancy);
+  }
+
+  async getTenancyOccupantForUser(tenancyId: string, tenantUserId: string): Promise<TenancyOccupant | undefined> {
+    const [o] = await db
+      .select()
+      .from(tenancyOccupants)
+      .where(and(eq(tenancyOccupants.tenancyId, tenancyId), eq(tenancyOccupants.userId, tenantUserId)));
+    return o;
+  }
+
+  // Maintenance request operations
+  async getMaintenanceRequests(userId: string): Promise<MaintenanceRequest[]> {
+    return await db
+      .select()
+      .from(maintenanceRequests)
+      .where(eq(maintenanceRequests.userId, userId))
+      .orderBy(desc(maintenanceRequests.createdAt));
+  }
+
+  async getMaintenanceRequestsByTenancy(tenancyId: string): Promise<MaintenanceRequest[]> {
+    return await db
+      .select()
+      .from(maintenanceRequests)
+      .where(eq(maintenanceRequests.tenancyId, tenancyId))
+      .orderBy(desc(maintenanceRequests.createdAt));
+  }
+
+  async getMaintenanceRequest(id: string, userId: string): Promise<MaintenanceRequest | undefined> {
+    const [r] = await db
+      .select()
+      .from(maintenanceRequests)
+      .where(and(eq(maintenanceRequests.id, id), eq(maintenanceRequests.userId, userId)));
+    return r;
+  }
+
+  async getMaintenanceRequestById(id: string): Promise<MaintenanceRequest | undefined> {
+    const [r] = await db.select().from(maintenanceRequests).where(eq(maintenanceRequests.id, id));
+    return r;
+  }
+
+  async createMaintenanceRequest(request: InsertMaintenanceRequest, actorUserId: string | null): Promise<MaintenanceRequest> {
+    return handleDbOperation(async () => {
+      return await db.transaction(async (tx) => {
+        const [created] = await tx.insert(maintenanceRequests).values(request).returning();
+        await tx.insert(maintenanceRequestEvents).values({
+          requestId: created.id,
+          eventType: 'created',
+          toValue: created.status,
+          actorUserId,
+        });
+        return created;
+      });
+    }, 'createMaintenanceRequest');
+  }
+
+  async updateMaintenanceRequest(
+    id: string,
+    userId: string,
+    data: Partial<MaintenanceRequest>,
+    events: Omit<InsertMaintenanceRequestEvent, 'requestId'>[],
+  ): Promise<MaintenanceRequest | null> {
+    return handleDbOperation(async () => {
+      return await db.transaction(async (tx) => {
+        const [updated] = await tx
+          .update(maintenanceRequests)
+          .set({ ...data, updatedAt: new Date() })
+          .where(and(eq(maintenanceRequests.id, id), eq(maintenanceRequests.userId, userId)))
+          .returning();
+        if (!updated) return null;
+        if (events.length > 0) {
+          await tx.insert(maintenanceRequestEvents).values(events.map((e) => ({ ...e, requestId: id })));
+        }
+        return updated;
+      });
+    }, 'updateMaintenanceRequest');
+  }
+
+  async deleteMaintenanceRequest(id: string, userId: string): Promise<boolean> {
+    const result = await db
+      .delete(maintenanceRequests)
+      .where(and(eq(maintenanceRequests.id, id), eq(maintenanceRequests.userId, userId)))
+      .returning({ id: maintenanceRequests.id });
+    return result.length > 0;
+  }
+
+  async getMaintenanceRequestEvents(requestId: string): Promise<MaintenanceRequestEvent[]> {
+    return await db
+      .select()
+      .from(maintenanceRequestEvents)
+      .where(eq(maintenanceRequestEvents.requestId, requestId))
+      .orderBy(maintenanceRequestEvents.createdAt);
+  }
+
+  async createMaintenanceRequestEvent(event: InsertMaintenanceRequestEvent): Promise<MaintenanceRequestEvent> {
+    const [created] = await db.insert(maintenanceRequestEvents).values(event).returning();
+    return created;
+  }
+
+  async getMaintenanceRequestPhotos(requestId: string): Promise<MaintenanceRequestPhoto[]> {
+    return await db
+      .select()
+      .from(maintenanceRequestPhotos)
+      .where(eq(maintenanceRequestPhotos.requestId, requestId))
+      .orderBy(maintenanceRequestPhotos.createdAt);
+  }
+
+  async getMaintenanceRequestPhoto(id: string, requestId: string): Promise<MaintenanceRequestPhoto | undefined> {
+    const [p] = await db
+      .select()
+      .from(maintenanceRequestPhotos)
+      .where(and(eq(maintenanceRequestPhotos.id, id), eq(maintenanceRequestPhotos.requestId, requestId)));
+    return p;
+  }
+
+  async createMaintenanceRequestPhoto(photo: InsertMaintenanceRequestPhoto): Promise<MaintenanceRequestPhoto> {
+    const [created] = await db.insert(maintenanceRequestPhotos).values(photo).returning();
+    return created;
+  }
+
+  async deleteMaintenanceRequestPhoto(id: string, requestId: string): Promise<boolean> {
+    const result = await db
+      .delete(maintenanceRequestPhotos)
+      .where(and(eq(maintenanceRequestPhotos.id, id), eq(maintenanceRequestPhotos.requestId, requestId)))
+      .returning({ id: maintenanceRequestPhotos.id });
+    return result.length > 0;
+  }
+
+  // Vendor operations
+  async getVendors(userId: string): Promise<Vendor[]> {
+    return await db
+      .select()
+      .from(vendors)
+      .where(eq(vendors.userId, userId))
+      .orderBy(vendors.name);
+  }
+
+  async getVendor(id: string, userId: string): Promise<Vendor | undefined> {
+    const [v] = await db
+      .select()
+      .from(vendors)
+      .where(and(eq(vendors.id, id), eq(vendors.userId, userId)));
+    return v;
+  }
+
+  async createVendor(vendor: InsertVendor): Promise<Vendor> {
+    const [created] = await db.insert(vendors).values(vendor).returning();
+    return created;
+  }
+
+  async updateVendor(id: string, userId: string, data: Partial<Vendor>): Promise<Vendor | null> {
+    const [v] = await db
+      .update(vendors)
+      .set({ ...data, updatedAt: new Date() })
+      .where(and(eq(vendors.id, id), eq(vendors.userId, userId)))
+      .returning();
+    return v || null;
+  }
+
+  async deleteVendor(id: string, userId: string): Promise<boolean> {
+    const result = await db
+      .delete(vendors)
+      .where(and(eq(vendors.id, id), eq(vendors.userId, userId)))
+      .returning({ id: vendors.id });
+    return result.length > 0;
+  }
+
+  // Property expense operations
+  async getPropertyExpenses(userId: string): Promise<PropertyExpense[]> {
+    return await db
+      .select()
+      .from(propertyExpenses)
+      .where(eq(propertyExpenses.userId, userId))
+      .orderBy(desc(propertyExpenses.expenseDate), desc(propertyExpenses.createdAt));
+  }
+
+  async getPropertyExpense(id: string, userId: string): Promise<PropertyExpense | undefined> {
+    const [expense] = await db
+      .select()
+      .from(propertyExpenses)
+      .where(and(eq(propertyExpenses.id, id), eq(propertyExpenses.userId, userId)));
+    return expense;
+  }
+
+  async createPropertyExpense(expense: InsertPropertyExpense): Promise<PropertyExpense> {
+    const [created] = await db.insert(propertyExpenses).values(expense).returning();
+    return created;
+  }
+
+  async updatePropertyExpense(id: string, userId: string, data: Partial<PropertyExpense>): Promise<PropertyExpense | null> {
+    const [expense] = await db
+      .update(propertyExpenses)
+      .set({ ...data, updatedAt: new Date() })
+      .where(and(eq(propertyExpenses.id, id), eq(propertyExpenses.userId, userId)))
+      .returning();
+    return expense || null;
+  }
+
+  async deletePropertyExpense(id: string, userId: string): Promise<boolean> {
+    const result = await db
+      .delete(propertyExpenses)
+      .where(and(eq(propertyExpenses.id, id), eq(propertyExpenses.userId, userId)))
+      .returning({ id: propertyExpenses.id });
+    return result.length > 0;
+  }
+
+  // Eviction case operations
+  async getGeneratedNoticeDocumentsForUser(userId: string): Promise<GeneratedNoticeSummary[]> {
+    return await db
+      .select({
+        notice: generatedNoticeDocuments,
+        formDisplayName: noticeForms.displayName,
+        stateId: noticeForms.stateId,
+      })
+      .from(generatedNoticeDocuments)
+      .innerJoin(noticeFormVersions, eq(generatedNoticeDocuments.formVersionId, noticeFormVersions.id))
+      .innerJoin(noticeForms, eq(noticeFormVersions.formId, noticeForms.id))
+      .where(eq(generatedNoticeDocuments.userId, userId))
+      .orderBy(desc(generatedNoticeDocuments.createdAt))
+      .then((rows) => rows.map((r) => ({ ...r.notice, formDisplayName: r.formDisplayName, stateId: r.stateId })));
+  }
+
+  async getGeneratedNoticeDocument(id: string, userId: string): Promise<GeneratedNoticeSummary | undefined> {
+    const [row] = await db
+      .select({
+        notice: generatedNoticeDocuments,
+        formDisplayName: noticeForms.displayName,
+        stateId: noticeForms.stateId,
+      })
+      .from(generatedNoticeDocuments)
+      .innerJoin(noticeFormVersions, eq(generatedNoticeDocuments.formVersionId, noticeFormVersions.id))
+      .innerJoin(noticeForms, eq(noticeFormVersions.formId, noticeForms.id))
+      .where(and(eq(generatedNoticeDocuments.id, id), eq(generatedNoticeDocuments.userId, userId)));
+    return row ? { ...row.notice, formDisplayName: row.formDisplayName, stateId: row.stateId } : undefined;
+  }
+
+  // Every date on the state's active holiday calendars (one calendar per year).
+  async getHolidaysForState(stateId: string): Promise<Array<{ date: string; label: string }>> {
+    return await db
+      .select({ date: holidayCalendarDates.date, label: holidayCalendarDates.label })
+      .from(holidayCalendarDates)
+      .innerJoin(holidayCalendars, eq(holidayCalendarDates.holidayCalendarId, holidayCalendars.id))
+      .where(and(eq(holidayCalendars.stateId, stateId), eq(holidayCalendars.isActive, true)))
+      .orderBy(holidayCalendarDates.date);
+  }
+
+  async getHolidayCalendarDates(holidayCalendarId: string): Promise<Array<{ date: string; label: string }>> {
+    return await db
+      .select({ date: holidayCalendarDates.date, label: holidayCalendarDates.label })
+      .from(holidayCalendarDates)
+      .where(eq(holidayCalendarDates.holidayCalendarId, holidayCalendarId))
+      .orderBy(holidayCalendarDates.date);
+  }
+
+  async getEvictionTimelineRules(stateId?: string): Promise<EvictionTimelineRule[]> {
+    return await db
+      .select()
+      .from(evictionTimelineRules)
+      .where(stateId ? eq(evictionTimelineRules.stateId, stateId) : undefined)
+      .orderBy(evictionTimelineRules.stateId, evictionTimelineRules.stepKey);
+  }
+
+  async upsertEvictionTimelineRule(rule: InsertEvictionTimelineRule): Promise<EvictionTimelineRule> {
+    const [saved] = await db
+      .insert(evictionTimelineRules)
+      .values(rule)
+      .onConflictDoUpdate({
+        target: [evictionTimelineRules.stateId, evictionTimelineRules.stepKey],
+        set: { ...rule, updatedAt: new Date() },
+      })
+      .returning();
+    return saved;
+  }
+
+  async deleteEvictionTimelineRule(id: string): Promise<boolean> {
+    const result = await db
+      .delete(evictionTimelineRules)
+      .where(eq(evictionTimelineRules.id, id))
+      .returning({ id: evictionTimelineRules.id });
+    return result.length > 0;
+  }
+
+  async getEvictionCases(userId: string): Promise<EvictionCase[]> {
+    return await db
+      .select()
+      .from(evictionCases)
+      .where(eq(evictionCases.userId, userId))
+      .orderBy(desc(evictionCases.createdAt));
+  }
+
+  async getEvictionCase(id: string, userId: string): Promise<EvictionCase | undefined> {
+    const [c] = await db
+      .select()
+      .from(evictionCases)
+      .where(and(eq(evictionCases.id, id), eq(evictionCases.userId, userId)));
+    return c;
+  }
+
+  async getEvictionCaseById(id: string): Promise<EvictionCase | undefined> {
+    const [c] = await db.select().from(evictionCases).where(eq(evictionCases.id, id));
+    return c;
+  }
+
+  async createEvictionCase(evictionCase: InsertEvictionCase): Promise<EvictionCase> {
+    const [created] = await db.insert(evictionCases).values(evictionCase).returning();
+    return created;
+  }
+
+  async updateEvictionCase(id: string, userId: string, data: Partial<EvictionCase>): Promise<EvictionCase | null> {
+    const [c] = await db
+      .update(evictionCases)
+      .set({ ...data, updatedAt: new Date() })
+      .where(and(eq(evictionCases.id, id), eq(evictionCases.userId, userId)))
+      .returning();
+    return c || null;
+  }
+
+  async deleteEvictionCase(id: string, userId: string): Promise<boolean> {
+    const result = await db
+      .delete(evictionCases)
+      .where(and(eq(evictionCases.id, id), eq(evictionCases.userId, userId)))
+      .returning({ id: evictionCases.id });
+    return result.length > 0;
+  }
+
+  async getEvictionCaseSteps(caseId: string): Promise<EvictionCaseStep[]> {
+    return await db
+      .select()
+      .from(evictionCaseSteps)
+      .where(eq(evictionCaseSteps.caseId, caseId))
+      .orderBy(evictionCaseSteps.sortOrder);
+  }
+
+  // Write a freshly planned timeline. Actual dates are the landlord's record
+  // and are never overwritten here; a step whose planned date moved gets its
+  // reminder re-armed.
+  async saveEvictionCaseSteps(caseId: string, steps: Omit<InsertEvictionCaseStep, 'caseId'>[]): Promise<EvictionCaseStep[]> {
+    return handleDbOperation(async () => {
+      return await db.transaction(async (tx) => {
+        const existing = await tx.select().from(evictionCaseSteps).where(eq(evictionCaseSteps.caseId, caseId));
+        for (const step of steps) {
+          const current = existing.find((e) => e.stepKey === step.stepKey);
+          if (!current) {
+            await tx.insert(evictionCaseSteps).values({ ...step, caseId });
+            continue;
+          }
+          const { actualDate, ...planned } = step;
+          await tx
+            .update(evictionCaseSteps)
+            .set({
+              ...planned,
+              reminderSentAt: current.plannedDate === step.plannedDate ? current.reminderSentAt : null,
+              updatedAt: new Date(),
+            })
+            .where(eq(evictionCaseSteps.id, current.id));
+        }
+        return await tx
+          .select()
+          .from(evictionCaseSteps)
+          .where(eq(evictionCaseSteps.caseId, caseId))
+          .orderBy(evictionCaseSteps.sortOrder);
+      });
+    }, 'saveEvictionCaseSteps');
+  }
+
+  async updateEvictionCaseStep(id: string, caseId: string, data: Partial<EvictionCaseStep>): Promise<EvictionCaseStep | null> {
+    const [step] = await db
+      .update(evictionCaseSteps)
+      .set({ ...data, updatedAt: new Date() })
+      .where(and(eq(evictionCaseSteps.id, id), eq(evictionCaseSteps.caseId, caseId)))
+      .returning();
+    return step || null;
+  }
+
+  // Steps on active cases that haven't happened yet, are planned between
+  // `fromDate` and `throughDate`, and haven't been reminded about.
+  async getEvictionStepsDueForReminder(fromDate: string, throughDate: string): Promise<Array<{ step: EvictionCaseStep; evictionCase: EvictionCase }>> {
+    return await db
+      .select({ step: evictionCaseSteps, evictionCase: evictionCases })
+      .from(evictionCaseSteps)
+      .innerJoin(evictionCases, eq(evictionCaseSteps.caseId, evictionCases.id))
+      .where(and(
+        eq(evictionCases.status, 'active'),
+        isNull(evictionCaseSteps.actualDate),
+        isNull(evictionCaseSteps.reminderSentAt),
+        gte(evictionCaseSteps.plannedDate, fromDate),
+        lte(evictionCaseSteps.plannedDate, throughDate),
+      ));
+  }
+
+  // Notice service log operations
+  async getNoticeServiceAttempts(generatedNoticeDocumentId: string): Promise<NoticeServiceAttempt[]> {
+    return await db
+      .select()
+      .from(noticeServiceAttempts)
+      .where(eq(noticeServiceAttempts.generatedNoticeDocumentId, generatedNoticeDocumentId))
+      .orderBy(noticeServiceAttempts.attemptNumber);
+  }
+
+  // Attempts are numbered in the order they're logged, per notice.
+  async createNoticeServiceAttempt(attempt: Omit<InsertNoticeServiceAttempt, 'attemptNumber'>): Promise<NoticeServiceAttempt> {
+    return handleDbOperation(async () => {
+      return await db.transaction(async (tx) => {
+        const [{ maxNumber }] = await tx
+          .select({ maxNumber: sql<number>`coalesce(max(${noticeServiceAttempts.attemptNumber}), 0)` })
+          .from(noticeServiceAttempts)
+          .where(eq(noticeServiceAttempts.generatedNoticeDocumentId, attempt.generatedNoticeDocumentId));
+        const [created] = await tx
+          .insert(noticeServiceAttempts)
+          .values({ ...attempt, attemptNumber: Number(maxNumber) + 1 })
+          .returning();
+        return created;
+      });
+    }, 'createNoticeServiceAttempt');
+  }
+
+  async deleteNoticeServiceAttempt(id: string, generatedNoticeDocumentId: string): Promise<boolean> {
+    const result = await db
+      .delete(noticeServiceAttempts)
+      .where(and(
+        eq(noticeServiceAttempts.id, id),
+        eq(noticeServiceAttempts.generatedNoticeDocumentId, generatedNoticeDocumentId),
+      ))
+      .returning({ id: noticeServiceAttempts.id });
+    return result.length > 0;
+  }
+
+  async getNoticeServiceAttemptPhotos(attemptIds: string[]): Promise<NoticeServiceAttemptPhoto[]> {
+    if (attemptIds.length === 0) return [];
+    return await db
+      .select()
+      .from(noticeServiceAttemptPhotos)
+      .where(inArray(noticeServiceAttemptPhotos.attemptId, attemptIds))
+      .orderBy(noticeServiceAttemptPhotos.createdAt);
+  }
+
+  async getNoticeServiceAttemptPhoto(id: string, attemptId: string): Promise<NoticeServiceAttemptPhoto | undefined> {
+    const [p] = await db
+      .select()
+      .from(noticeServiceAttemptPhotos)
+      .where(and(eq(noticeServiceAttemptPhotos.id, id), eq(noticeServiceAttemptPhotos.attemptId, attemptId)));
+    return p;
+  }
+
+  async createNoticeServiceAttemptPhoto(photo: InsertNoticeServiceAttemptPhoto): Promise<NoticeServiceAttemptPhoto> {
+    const [created] = await db.insert(noticeServiceAttemptPhotos).values(photo).returning();
+    return created;
+  }
+
+  async deleteNoticeServiceAttemptPhoto(id: string, attemptId: string): Promise<boolean> {
+    const result = await db
+      .delete(noticeServiceAttemptPhotos)
+      .where(and(eq(noticeServiceAttemptPhotos.id, id), eq(noticeServiceAttemptPhotos.attemptId, attemptId)))
+      .returning({ id: noticeServiceAttemptPhotos.id });
+    return result.length > 0;
+  }
+
+  // Organization operations
+  async getOrganizationByOwner(ownerUserId: string): Promise<Organization | undefined> {
+    const [org] = await db.select().from(organizations).where(eq(organizations.ownerUserId, ownerUserId));
+    return org;
+  }
+
+  async createOrganization(organization: InsertOrganization): Promise<Organization> {
+    const [created] = await db.insert(organizations).values(organization).returning();
+    return created;
+  }
+
+  async updateOrganization(id: string, data: Partial<InsertOrganization>): Promise<Organization | undefined> {
+    const [updated] = await db
+      .update(organizations)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(organizations.id, id))
+      .returning();
+    return updated;
+  }
+
+  async getOrganizationMembers(organizationId: string): Promise<OrganizationMember[]> {
+    return await db
+      .select()
+      .from(organizationMembers)
+      .where(eq(organizationMembers.organizationId, organizationId))
+      .orderBy(organizationMembers.createdAt);
+  }
+
+  async getOrganizationMember(id: string, organizationId: string): Promise<OrganizationMember | undefined> {
+    const [member] = await db
+      .select()
+      .from(organizationMembers)
+      .where(and(eq(organizationMembers.id, id), eq(organizationMembers.organizationId, organizationId)));
+    return member;
+  }
+
+  async getOrganizationMemberByEmail(organizationId: string, email: string): Promise<OrganizationMember | undefined> {
+    const [member] = await db
+      .select()
+      .from(organizationMembers)
+      .where(and(eq(organizationMembers.organizationId, organizationId), eq(organizationMembers.email, email)));
+    return member;
+  }
+
+  async getOrganizationMemberByInviteToken(token: string): Promise<OrganizationMember | undefined> {
+    const [member] = await db.select().from(organizationMembers).where(eq(organizationMembers.inviteToken, token));
+    return member;
+  }
+
+  // Runs on every authenticated landlord request, so it's a single join.
+  async getOrganizationMembershipForUser(userId: string): Promise<{ member: OrganizationMember; organization: Organization } | undefined> {
+    const [row] = await db
+      .select({ member: organizationMembers, organization: organizations })
+      .from(organizationMembers)
+      .innerJoin(organizations, eq(organizationMembers.organizationId, organizations.id))
+      .where(eq(organizationMembers.userId, userId));
+    return row;
+  }
+
+  async createOrganizationMember(member: InsertOrganizationMember): Promise<OrganizationMember> {
+    const [created] = await db.insert(organizationMembers).values(member).returning();
+    return created;
+  }
+
+  async updateOrganizationMember(id: string, data: Partial<InsertOrganizationMember>): Promise<OrganizationMember | undefined> {
+    const [updated] = await db
+      .update(organizationMembers)
+      .set(data)
+      .where(eq(organizationMembers.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteOrganizationMember(id: string, organizationId: string): Promise<boolean> {
+    const result = await db
+      .delete(organizationMembers)
+      .where(and(eq(organizationMembers.id, id), eq(organizationMembers.organizationId, organizationId)))
+      .returning({ id: organizationMembers.id });
+    return result.length > 0;
+  }
+
+  // Training interest operations
+  async getTrainingInterest(userId: string): Promise<TrainingInterest | undefined> {
+    const [interest] = await db
+      .select()
+      .from(trainingInterest)
+      .where(eq(trainingInterest.userId, userId));
+    return interest;
+  }
+
+  async createTrainingInterest(interest: InsertTrainingInterest): Promise<TrainingInterest> {
+    const [newInterest] = await db
+      .insert(trainingInterest)
+      .values(interest)
+      .returning();
+    return newInterest;
+  }
+
+  // Email sequence operations
+  async getEmailSequences(): Promise<EmailSequence[]> {
+    return await db.select().from(emailSequences).orderBy(emailSequences.name);
+  }
+
+  async getEmailSequenceByTrigger(trigger: string): Promise<EmailSequence | undefined> {
+    const [sequence] = await db
+      .select()
+      .from(emailSequences)
+      .where(and(eq(emailSequences.trigger, trigger), eq(emailSequences.isActive, true)));
+    return sequence;
+  }
+
+  async getEmailSequenceById(id: string): Promise<EmailSequence | undefined> {
+    const [sequence] = await db.select().from(emailSequences).where(eq(emailSequences.id, id));
+    return sequence;
+  }
+
+  async createEmailSequence(sequence: InsertEmailSequence): Promise<EmailSequence> {
+    const [newSequence] = await db.insert(emailSequences).values(sequence).returning();
+    return newSequence;
+  }
+
+  // Email sequence step operations
+  async getEmailSequenceSteps(sequenceId: string): Promise<EmailSequenceStep[]> {
+    return await db
+      .select()
+      .from(emailSequenceSteps)
+      .where(eq(emailSequenceSteps.sequenceId, sequenceId))
+      .orderBy(emailSequenceSteps.stepNumber);
+  }
+
+  async getEmailSequenceStep(id: string): Promise<EmailSequenceStep | undefined> {
+    const [step] = await db.select().from(emailSequenceSteps).where(eq(emailSequenceSteps.id, id));
+    return step;
+  }
+
+  async createEmailSequenceStep(step: InsertEmailSequenceStep): Promise<EmailSequenceStep> {
+    const [newStep] = await db.insert(emailSequenceSteps).values(step).returning();
+    return newStep;
+  }
+
+  // Email sequence enrollment operations
+  async getActiveEnrollments(): Promise<EmailSequenceEnrollment[]> {
+    return await db
+      .select()
+      .from(emailSequenceEnrollments)
+      .where(eq(emailSequenceEnrollments.status, "active"));
+  }
+
+  async getEnrollmentsByUser(userId: string): Promise<EmailSequenceEnrollment[]> {
+    return await db
+      .select()
+      .from(emailSequenceEnrollments)
+      .where(eq(emailSequenceEnrollments.userId, userId));
+  }
+
+  async getActiveEnrollmentByUserAndSequence(userId: string, sequenceId: string): Promise<EmailSequenceEnrollment | undefined> {
+    const [enrollment] = await db
+      .select()
+      .from(emailSequenceEnrollments)
+      .where(
+        and(
+          eq(emailSequenceEnrollments.userId, userId),
+          eq(emailSequenceEnrollments.sequenceId, sequenceId),
+          eq(emailSequenceEnrollments.status, "active")
+        )
+      );
+    return enrollment;
+  }
+
+  async createEnrollment(enrollment: InsertEmailSequenceEnrollment): Promise<EmailSequenceEnrollment> {
+    const [newEnrollment] = await db.insert(emailSequenceEnrollments).values(enrollment).returning();
+    return newEnrollment;
+  }
+
+  async updateEnrollment(id: string, data: Partial<EmailSequenceEnrollment>): Promise<EmailSequenceEnrollment> {
+    const [updated] = await db
+      .update(emailSequenceEnrollments)
+      .set(data)
+      .where(eq(emailSequenceEnrollments.id, id))
+      .returning();
+    return updated;
+  }
+
+  async getPendingEnrollments(): Promise<EmailSequenceEnrollment[]> {
+    const now = new Date();
+    return await db
+      .select()
+      .from(emailSequenceEnrollments)
+      .where(
+        and(
+          eq(emailSequenceEnrollments.status, "active"),
+          sql`${emailSequenceEnrollments.nextSendAt} <= ${now}`
+        )
+      );
+  }
+
+  // Email event operations
+  async createEmailEvent(event: InsertEmailEvent): Promise<EmailEvent> {
+    const [newEvent] = await db.insert(emailEvents).values(event).returning();
+    return newEvent;
+  }
+
+  async updateEmailEventStatus(resendId: string, status: string, timestamp: Date): Promise<EmailEvent | undefined> {
+    const updateData: Record<string, any> = { status };
+    
+    if (status === "delivered") updateData.deliveredAt = timestamp;
+    else if (status === "opened") updateData.openedAt = timestamp;
+    else if (status === "clicked") updateData.clickedAt = timestamp;
+    else if (status === "bounced") updateData.bouncedAt = timestamp;
+    
+    const [updated] = await db
+      .update(emailEvents)
+      .set(updateData)
+      .where(eq(emailEvents.resendId, resendId))
+      .returning();
+    return updated;
+  }
+
+  async getEmailEventsByUser(userId: string): Promise<EmailEvent[]> {
+    return await db
+      .select()
+      .from(emailEvents)
+      .where(eq(emailEvents.userId, userId))
+      .orderBy(desc(emailEvents.sentAt));
+  }
+
+  // Broadcast operations
+  async createBroadcast(broadcast: InsertBroadcastMessage): Promise<BroadcastMessage> {
+    const [newBroadcast] = await db.insert(broadcastMessages).values(broadcast).returning();
+    return newBroadcast;
+  }
+
+  async getAllBroadcasts(): Promise<BroadcastMessage[]> {
+    return await db
+      .select()
+      .from(broadcastMessages)
+      .orderBy(desc(broadcastMessages.createdAt));
   }
 
   async getBroadcastById(id: string): Promise<BroadcastMessage | undefined> {
@@ -2648,6 +3954,48 @@ export class DatabaseStorage implements IStorage {
     }, 'deleteRentalProperty');
   }
 
+  // Selection criteria operations
+  async getSelectionCriteriaVersions(propertyId: string): Promise<RentalPropertySelectionCriteria[]> {
+    return handleDbOperation(async () => {
+      return await db.select().from(rentalPropertySelectionCriteria)
+        .where(eq(rentalPropertySelectionCriteria.propertyId, propertyId))
+        .orderBy(desc(rentalPropertySelectionCriteria.version));
+    }, 'getSelectionCriteriaVersions');
+  }
+
+  async getCurrentSelectionCriteria(propertyId: string): Promise<RentalPropertySelectionCriteria | undefined> {
+    return handleDbOperation(async () => {
+      const [current] = await db.select().from(rentalPropertySelectionCriteria)
+        .where(eq(rentalPropertySelectionCriteria.propertyId, propertyId))
+        .orderBy(desc(rentalPropertySelectionCriteria.version))
+        .limit(1);
+      return current;
+    }, 'getCurrentSelectionCriteria');
+  }
+
+  async getSelectionCriteriaVersion(id: string): Promise<RentalPropertySelectionCriteria | undefined> {
+    return handleDbOperation(async () => {
+      const [version] = await db.select().from(rentalPropertySelectionCriteria).where(eq(rentalPropertySelectionCriteria.id, id));
+      return version;
+    }, 'getSelectionCriteriaVersion');
+  }
+
+  async publishSelectionCriteria(propertyId: string, userId: string, criteria: SelectionCriteria): Promise<RentalPropertySelectionCriteria> {
+    return handleDbOperation(async () => {
+      const [{ maxVersion }] = await db
+        .select({ maxVersion: sql<number>`coalesce(max(${rentalPropertySelectionCriteria.version}), 0)` })
+        .from(rentalPropertySelectionCriteria)
+        .where(eq(rentalPropertySelectionCriteria.propertyId, propertyId));
+      const [published] = await db.insert(rentalPropertySelectionCriteria).values({
+        propertyId,
+        version: Number(maxVersion) + 1,
+        criteriaJson: criteria,
+        publishedByUserId: userId,
+      }).returning();
+      return published;
+    }, 'publishSelectionCriteria');
+  }
+
   // Rental Unit operations
   async getRentalUnitsByPropertyId(propertyId: string): Promise<RentalUnit[]> {
     return handleDbOperation(async () => {
@@ -2880,6 +4228,23 @@ export class DatabaseStorage implements IStorage {
     }, 'autoArchiveOldSubmissions');
   }
 
+  // Completed, non-deleted submissions from every link for the unit, earliest first
+  async getCompletedRentalSubmissionsByUnitId(unitId: string): Promise<RentalSubmission[]> {
+    return handleDbOperation(async () => {
+      const results = await db
+        .select({ submission: rentalSubmissions })
+        .from(rentalSubmissions)
+        .innerJoin(rentalApplicationLinks, eq(rentalSubmissions.applicationLinkId, rentalApplicationLinks.id))
+        .where(and(
+          eq(rentalApplicationLinks.unitId, unitId),
+          isNotNull(rentalSubmissions.submittedAt),
+          isNull(rentalSubmissions.deletedAt),
+        ))
+        .orderBy(rentalSubmissions.submittedAt, rentalSubmissions.createdAt);
+      return results.map(r => r.submission);
+    }, 'getCompletedRentalSubmissionsByUnitId');
+  }
+
   async getRentalSubmission(id: string): Promise<RentalSubmission | undefined> {
     return handleDbOperation(async () => {
       const [submission] = await db.select().from(rentalSubmissions).where(eq(rentalSubmissions.id, id));
@@ -3024,6 +4389,46 @@ export class DatabaseStorage implements IStorage {
     }, 'supersedeFilesForType');
   }
 
+  // Income source operations
+  async getRentalIncomeSources(submissionId: string): Promise<RentalIncomeSource[]> {
+    return handleDbOperation(async () => {
+      return await db.select().from(rentalIncomeSources)
+        .where(eq(rentalIncomeSources.submissionId, submissionId))
+        .orderBy(rentalIncomeSources.createdAt);
+    }, 'getRentalIncomeSources');
+  }
+
+  async getRentalIncomeSource(id: string): Promise<RentalIncomeSource | undefined> {
+    return handleDbOperation(async () => {
+      const [source] = await db.select().from(rentalIncomeSources).where(eq(rentalIncomeSources.id, id));
+      return source;
+    }, 'getRentalIncomeSource');
+  }
+
+  async createRentalIncomeSource(source: InsertRentalIncomeSource): Promise<RentalIncomeSource> {
+    return handleDbOperation(async () => {
+      const [created] = await db.insert(rentalIncomeSources).values(source).returning();
+      return created;
+    }, 'createRentalIncomeSource');
+  }
+
+  async updateRentalIncomeSource(id: string, source: Partial<InsertRentalIncomeSource>): Promise<RentalIncomeSource | null> {
+    return handleDbOperation(async () => {
+      const [updated] = await db.update(rentalIncomeSources)
+        .set({ ...source, updatedAt: new Date() })
+        .where(eq(rentalIncomeSources.id, id))
+        .returning();
+      return updated || null;
+    }, 'updateRentalIncomeSource');
+  }
+
+  async deleteRentalIncomeSource(id: string): Promise<boolean> {
+    return handleDbOperation(async () => {
+      await db.delete(rentalIncomeSources).where(eq(rentalIncomeSources.id, id));
+      return true;
+    }, 'deleteRentalIncomeSource');
+  }
+
   // Document Re-upload Token operations
   async createDocumentReuploadToken(token: InsertDocumentReuploadToken): Promise<DocumentReuploadToken> {
     return handleDbOperation(async () => {
@@ -3298,6 +4703,28 @@ export class DatabaseStorage implements IStorage {
     }, 'getAllPendingScreeningOrdersWithOwner');
   }
 
+  async getScreeningResultRecordsBySubmission(submissionId: string): Promise<ScreeningResultRecord[]> {
+    return handleDbOperation(async () => {
+      const rows = await db
+        .select({ record: screeningResultRecords })
+        .from(screeningResultRecords)
+        .innerJoin(rentalScreeningOrders, eq(screeningResultRecords.orderId, rentalScreeningOrders.id))
+        .where(eq(rentalScreeningOrders.submissionId, submissionId))
+        .orderBy(screeningResultRecords.createdAt);
+      return rows.map(r => r.record);
+    }, 'getScreeningResultRecordsBySubmission');
+  }
+
+  // Result webhooks can be redelivered, so an order's records are replaced
+  // wholesale rather than appended.
+  async replaceScreeningResultRecords(orderId: string, records: Omit<InsertScreeningResultRecord, 'orderId'>[]): Promise<ScreeningResultRecord[]> {
+    return await db.transaction(async (tx) => {
+      await tx.delete(screeningResultRecords).where(eq(screeningResultRecords.orderId, orderId));
+      if (records.length === 0) return [];
+      return await tx.insert(screeningResultRecords).values(records.map(r => ({ ...r, orderId }))).returning();
+    });
+  }
+
   // Rental Decision operations
   async getRentalDecision(submissionId: string): Promise<RentalDecision | undefined> {
     return handleDbOperation(async () => {
@@ -3313,6 +4740,24 @@ export class DatabaseStorage implements IStorage {
     }, 'createRentalDecision');
   }
 
+  async updateRentalDecision(id: string, data: Partial<RentalDecision>): Promise<RentalDecision | null> {
+    return handleDbOperation(async () => {
+      const [updated] = await db.update(rentalDecisions).set(data).where(eq(rentalDecisions.id, id)).returning();
+      return updated || null;
+    }, 'updateRentalDecision');
+  }
+
+  // Approvals still waiting on a signed lease / holding deposit
+  async getPendingApprovalHolds(): Promise<RentalDecision[]> {
+    return handleDbOperation(async () => {
+      return await db.select().from(rentalDecisions).where(and(
+        isNotNull(rentalDecisions.leaseSignDeadlineAt),
+        isNull(rentalDecisions.holdCompletedAt),
+        isNull(rentalDecisions.holdExpiredAt),
+      )).orderBy(rentalDecisions.leaseSignDeadlineAt);
+    }, 'getPendingApprovalHolds');
+  }
+
   // Rental Denial Reason operations
   async getRentalDenialReasons(decisionId: string): Promise<RentalDenialReason[]> {
     return handleDbOperation(async () => {
@@ -3938,7 +5383,7 @@ export class DatabaseStorage implements IStorage {
     }, 'deleteDenialDecisionAuditLog');
   }
 
-  async updateDenialDecisionAuditLog(id: string, userId: string, updates: { applicantName?: string; outcome?: 'approve' | 'conditional' | 'deny' }): Promise<DenialDecisionAuditLog | null> {
+  async updateDenialDecisionAuditLog(id: string, userId: string, updates: { applicantName?: string; outcome?: 'approve' | 'conditional' | 'deny'; fairChanceStepsCompleted?: Record<string, boolean> }): Promise<DenialDecisionAuditLog | null> {
     return handleDbOperation(async () => {
       const [updated] = await db.update(denialDecisionAuditLogs)
         .set(updates)
@@ -3967,6 +5412,39 @@ export class DatabaseStorage implements IStorage {
     }, 'updateDenialDecisionAuditLogLetterType');
   }
 
+  async getDenialDecisionAuditLog(id: string, userId: string): Promise<DenialDecisionAuditLog | undefined> {
+    return handleDbOperation(async () => {
+      const [log] = await db.select().from(denialDecisionAuditLogs)
+        .where(and(eq(denialDecisionAuditLogs.id, id), eq(denialDecisionAuditLogs.userId, userId)));
+      return log;
+    }, 'getDenialDecisionAuditLog');
+  }
+
+  async getIndividualizedAssessmentByAuditLog(auditLogId: string, userId: string): Promise<IndividualizedAssessment | undefined> {
+    return handleDbOperation(async () => {
+      const [assessment] = await db.select().from(individualizedAssessments)
+        .where(and(eq(individualizedAssessments.auditLogId, auditLogId), eq(individualizedAssessments.userId, userId)));
+      return assessment;
+    }, 'getIndividualizedAssessmentByAuditLog');
+  }
+
+  async createIndividualizedAssessment(assessment: typeof individualizedAssessments.$inferInsert): Promise<IndividualizedAssessment> {
+    return handleDbOperation(async () => {
+      const [created] = await db.insert(individualizedAssessments).values(assessment).returning();
+      return created;
+    }, 'createIndividualizedAssessment');
+  }
+
+  async updateIndividualizedAssessment(id: string, userId: string, updates: Partial<IndividualizedAssessment>): Promise<IndividualizedAssessment | undefined> {
+    return handleDbOperation(async () => {
+      const [updated] = await db.update(individualizedAssessments)
+        .set({ ...updates, updatedAt: new Date() })
+        .where(and(eq(individualizedAssessments.id, id), eq(individualizedAssessments.userId, userId)))
+        .returning();
+      return updated;
+    }, 'updateIndividualizedAssessment');
+  }
+
   async updateUserPreferredCity(userId: string, cityId: string | null): Promise<User> {
     return handleDbOperation(async () => {
       const [user] = await db.update(users)
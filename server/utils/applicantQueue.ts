@@ -0,0 +1,86 @@
+import type { RentalDecision, RentalProperty, RentalSubmission, RentalUnit } from '@shared/schema';
+import { orderApplicantQueue, undecidedAhead } from '@shared/applicantQueue';
+import { storage } from '../storage';
+import { emailService } from '../emailService';
+import { notifyPrimaryApplicant, unitDisplayLabel } from './rentalSubmissions';
+
+export interface ApplicantQueueEntry {
+  submission: RentalSubmission;
+  position: number;
+  decision: RentalDecision | null;
+}
+
+export async function unitApplicantQueue(unitId: string): Promise<ApplicantQueueEntry[]> {
+  const submissions = orderApplicantQueue(await storage.getCompletedRentalSubmissionsByUnitId(unitId));
+  const decisions = await Promise.all(submissions.map((s) => storage.getRentalDecision(s.id)));
+  return submissions.map((submission, i) => ({ submission, position: i + 1, decision: decisions[i] || null }));
+}
+
+/**
+ * Where a submission stood in its unit's queue at the moment it was decided.
+ * Logged with the decision so the event history shows applications were
+ * processed in order.
+ */
+export function queueDecisionContext(queue: ApplicantQueueEntry[], submissionId: string, unitId: string, policy: string) {
+  const decided = new Set(queue.filter((e) => e.decision).map((e) => e.submission.id));
+  return {
+    unitId,
+    policy,
+    position: queue.find((e) => e.submission.id === submissionId)?.position ?? null,
+    queueLength: queue.length,
+    undecidedAhead: undecidedAhead(queue.map((e) => e.submission), submissionId, (s) => decided.has(s.id)),
+  };
+}
+
+/**
+ * After an approval, move every other undecided applicant in the unit's queue
+ * to the waitlist and send each the same waitlist notice. Applicants already
+ * on the waitlist keep their original notice. Returns the newly waitlisted
+ * submission ids.
+ */
+export async function waitlistRemainingApplicants(
+  queue: ApplicantQueueEntry[],
+  approvedSubmissionId: string,
+  unit: RentalUnit,
+  property: RentalProperty,
+  userId: string,
+  actorUserId: string, // the login that approved; a team member's own id
+): Promise<string[]> {
+  const remaining = queue.filter((e) => !e.decision && e.submission.id !== approvedSubmissionId);
+  const landlord = await storage.getUser(userId);
+  const landlordName = landlord?.businessName
+    || (landlord?.firstName && landlord?.lastName ? `${landlord.firstName} ${landlord.lastName}` : undefined);
+
+  const waitlisted: string[] = [];
+  for (let index = 0; index < remaining.length; index++) {
+    const entry = remaining[index];
+    if (entry.submission.status === 'waitlisted') continue;
+    const waitlistPosition = index + 1;
+    await storage.updateRentalSubmission(entry.submission.id, { status: 'waitlisted', waitlistedAt: new Date() });
+
+    const noticeSentTo = await notifyPrimaryApplicant(
+      entry.submission.id,
+      (applicant) => emailService.sendApplicationWaitlistedEmail(
+        applicant,
+        unitDisplayLabel(unit, property),
+        { position: waitlistPosition, landlordName },
+      ),
+      "Error sending waitlist notice:",
+    );
+
+    await storage.logRentalApplicationEvent({
+      submissionId: entry.submission.id,
+      eventType: 'waitlisted',
+      metadataJson: {
+        unitId: unit.id,
+        approvedSubmissionId,
+        queuePosition: entry.position,
+        waitlistPosition,
+        noticeSentTo,
+        waitlistedBy: actorUserId,
+      },
+    });
+    waitlisted.push(entry.submission.id);
+  }
+  return waitlisted;
+}
@@ -0,0 +1,208 @@
+import crypto from 'crypto';
+import type {
+  RentalDecision,
+  RentalProperty,
+  RentalSubmission,
+  RentalUnit,
+  RentPaymentRequest,
+  User,
+} from '@shared/schema';
+import { approvalHoldMet, leaseSignDeadline } from '@shared/approvalHold';
+import { storage } from '../storage';
+import { emailService } from '../emailService';
+import { PLATFORM_FEE_CENTS, resolveDefaultServiceFeeCents } from '../rentFees';
+import { stripe } from '../routes/_shared';
+import { getAppBaseUrl } from './appUrl';
+import { notifyPrimaryApplicant, unitDisplayLabel } from './rentalSubmissions';
+
+export function holdingDepositLink(request: RentPaymentRequest, baseUrl: string = getAppBaseUrl()): string {
+  return `${baseUrl}/pay-rent/${request.publicToken}`;
+}
+
+/**
+ * Start the lease-signing countdown for an approval: optionally bill a holding
+ * deposit through a rent payment request due on the deadline, and pause the
+ * unit's open application links until the hold completes or expires.
+ */
+export async function startApprovalHold(opts: {
+  decision: RentalDecision;
+  unit: RentalUnit;
+  property: RentalProperty;
+  landlord: User;
+  applicant: { name: string; email: string | null };
+  deadlineHours: number;
+  holdingDepositCents: number | null;
+}): Promise<{ decision: RentalDecision; holdingDeposit: RentPaymentRequest | null }> {
+  const { decision, unit, property, landlord } = opts;
+  const deadline = leaseSignDeadline(decision.decidedAt, opts.deadlineHours);
+
+  const holdingDeposit = opts.holdingDepositCents
+    ? await storage.createRentPaymentRequest({
+        userId: property.userId,
+        rentalPropertyId: property.id,
+        tenantName: opts.applicant.name,
+        tenantEmail: opts.applicant.email,
+        amount: opts.holdingDepositCents,
+        dueDate: deadline.toISOString().slice(0, 10),
+        description: `Holding deposit - ${unitDisplayLabel(unit, property)}`,
+        requestType: 'holding_deposit',
+        lateFeeAmount: 0,
+        reminderDaysBefore: 0,
+        serviceFeeAmount: resolveDefaultServiceFeeCents(landlord.defaultServiceFeeAmount),
+        serviceFeePayer: 'tenant',
+        platformFeeAmount: PLATFORM_FEE_CENTS,
+        publicToken: crypto.randomBytes(24).toString('hex'),
+      })
+    : null;
+
+  const paused = (await storage.getRentalApplicationLinksByUnitId(unit.id)).filter((l) => l.isActive);
+  for (const link of paused) {
+    await storage.updateRentalApplicationLinkStatus(link.id, { isActive: false });
+  }
+
+  const updated = await storage.updateRentalDecision(decision.id, {
+    leaseSignDeadlineAt: deadline,
+    holdingDepositRequestId: holdingDeposit?.id ?? null,
+    pausedApplicationLinkIds: paused.map((l) => l.id),
+  });
+  await storage.logRentalApplicationEvent({
+    submissionId: decision.submissionId,
+    eventType: 'approval_hold_started',
+    metadataJson: {
+      decisionId: decision.id,
+      leaseSignDeadlineAt: deadline.toISOString(),
+      holdingDepositRequestId: holdingDeposit?.id ?? null,
+      holdingDepositCents: opts.holdingDepositCents,
+      pausedApplicationLinkIds: paused.map((l) => l.id),
+    },
+  });
+
+  return { decision: updated || decision, holdingDeposit };
+}
+
+/**
+ * When the lease was signed: marked by the landlord, or the e-signature
+ * request for a lease drafted from this application completed.
+ */
+export async function leaseSignedAt(decision: RentalDecision, property: RentalProperty): Promise<Date | null> {
+  if (decision.leaseSignedAt) return decision.leaseSignedAt;
+  const events = await storage.getRentalApplicationEvents(decision.submissionId);
+  const documentIds = events
+    .filter((e) => e.eventType === 'lease_draft_created')
+    .map((e) => (e.metadataJson as { savedDocumentId?: string } | null)?.savedDocumentId)
+    .filter((id): id is string => !!id);
+  for (const documentId of documentIds) {
+    const requests = await storage.getDocumentSignatureRequestsByDocument(documentId, property.userId);
+    const completed = requests.find((r) => r.status === 'completed');
+    if (completed) return completed.completedAt || new Date();
+  }
+  return null;
+}
+
+export interface ApprovalHoldContext {
+  submission: RentalSubmission;
+  unit: RentalUnit;
+  property: RentalProperty;
+}
+
+// Submission, unit and property for a decision, without an ownership check.
+export async function approvalHoldContext(decision: RentalDecision): Promise<ApprovalHoldContext | null> {
+  const submission = await storage.getRentalSubmission(decision.submissionId);
+  const appLink = submission ? await storage.getRentalApplicationLink(submission.applicationLinkId) : null;
+  const unit = appLink ? await storage.getRentalUnit(appLink.unitId) : null;
+  const property = unit ? await storage.getRentalPropertyById(unit.propertyId) : null;
+  if (!submission || !unit || !property) return null;
+  return { submission, unit, property };
+}
+
+/**
+ * Complete the hold when its requirements are met, or expire it once the
+ * deadline has passed. A deposit payment still settling holds off expiry.
+ */
+export async function checkApprovalHold(
+  decision: RentalDecision,
+  context: ApprovalHoldContext,
+  now: Date = new Date(),
+): Promise<'pending' | 'completed' | 'expired'> {
+  if (!decision.leaseSignDeadlineAt || decision.holdCompletedAt) return 'completed';
+  if (decision.holdExpiredAt) return 'expired';
+
+  const [signedAt, deposit] = await Promise.all([
+    leaseSignedAt(decision, context.property),
+    decision.holdingDepositRequestId ? storage.getRentPaymentRequestById(decision.holdingDepositRequestId) : undefined,
+  ]);
+  const depositStatus = deposit ? deposit.status : null;
+
+  if (approvalHoldMet(!!signedAt, depositStatus)) {
+    await storage.updateRentalDecision(decision.id, { leaseSignedAt: signedAt, holdCompletedAt: now });
+    await storage.logRentalApplicationEvent({
+      submissionId: decision.submissionId,
+      eventType: 'approval_hold_completed',
+      metadataJson: { decisionId: decision.id, leaseSignedAt: signedAt, holdingDepositRequestId: deposit?.id ?? null },
+    });
+    return 'completed';
+  }
+  if (now < decision.leaseSignDeadlineAt || depositStatus === 'processing') return 'pending';
+
+  await expireApprovalHold(decision, context, { leaseSigned: !!signedAt, deposit: deposit || null }, now);
+  return 'expired';
+}
+
+async function expireApprovalHold(
+  decision: RentalDecision,
+  { submission, unit, property }: ApprovalHoldContext,
+  state: { leaseSigned: boolean; deposit: RentPaymentRequest | null },
+  now: Date,
+): Promise<void> {
+  // Stop the applicant from paying a deposit for a unit that's back on the
+  // market. An open Checkout session is expired first, as on delete.
+  const { deposit } = state;
+  if (deposit && deposit.status !== 'paid') {
+    if (deposit.stripeCheckoutSessionId) {
+      try {
+        const session = await stripe.checkout.sessions.retrieve(deposit.stripeCheckoutSessionId);
+        if (session.status === 'open') {
+          await stripe.checkout.sessions.expire(deposit.stripeCheckoutSessionId);
+        }
+      } catch (err: any) {
+        if (err?.code !== 'resource_missing') {
+          console.error(`Failed to expire checkout session for holding deposit ${deposit.id}:`, err?.message);
+        }
+      }
+    }
+    await storage.updateRentPaymentRequest(deposit.id, { status: 'canceled' });
+  }
+
+  const reopened = decision.pausedApplicationLinkIds || [];
+  for (const linkId of reopened) {
+    await storage.updateRentalApplicationLinkStatus(linkId, { isActive: true });
+  }
+  await storage.updateRentalDecision(decision.id, { holdExpiredAt: now });
+
+  const noticeSentTo = await notifyPrimaryApplicant(
+    submission.id,
+    (applicant) => emailService.sendApprovalExpiredEmail(
+      applicant,
+      unitDisplayLabel(unit, property),
+      {
+        leaseSigned: state.leaseSigned,
+        depositRequested: !!deposit,
+        depositPaid: deposit?.status === 'paid',
+      },
+    ),
+    "Error sending approval expired notice:",
+  );
+
+  await storage.logRentalApplicationEvent({
+    submissionId: submission.id,
+    eventType: 'approval_expired',
+    metadataJson: {
+      decisionId: decision.id,
+      leaseSignDeadlineAt: decision.leaseSignDeadlineAt,
+      leaseSigned: state.leaseSigned,
+      holdingDepositStatus: deposit?.status ?? null,
+      reopenedApplicationLinkIds: reopened,
+      noticeSentTo,
+    },
+  });
+}
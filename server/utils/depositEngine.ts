@@ -0,0 +1,65 @@
+import { CLAUSE_KEYS } from '@shared/clauseRegistry';
+import { addDaysToDate, DEFAULT_DEPOSIT_RETURN_DAYS } from '@shared/securityDeposit';
+import type { Tenancy } from '@shared/schema';
+import { storage } from '../storage';
+import { DEPOSIT_RETURN_DAYS } from './leaseAgreementGenerator';
+import { getStateClauseValues } from './stateClauseValues';
+
+export interface DepositReturnRule {
+  stateId: string | null;
+  days: number;
+  statuteCitation: string | null;
+  // 'clause' = admin-maintained state clause value; 'default' = built-in
+  // table or the 30-day fallback (shown to the landlord as an estimate).
+  source: 'clause' | 'default';
+}
+
+/** The state a tenancy is governed by (its property's state). */
+export async function resolveTenancyState(tenancy: Pick<Tenancy, 'rentalPropertyId'>): Promise<string | null> {
+  if (!tenancy.rentalPropertyId) return null;
+  const property = await storage.getRentalPropertyById(tenancy.rentalPropertyId);
+  return property?.state ? property.state.toUpperCase() : null;
+}
+
+/**
+ * Days after move-out the landlord has to return the deposit (or send the
+ * itemization). Built-in ranges like '14-45' use the shorter period so the
+ * countdown never runs past the earliest deadline that could apply.
+ */
+export async function getDepositReturnRule(stateId: string | null): Promise<DepositReturnRule> {
+  if (stateId) {
+    const values = await getStateClauseValues(stateId);
+    const clause = values.get(CLAUSE_KEYS.DEPOSIT_RETURN_DAYS);
+    if (clause?.value != null) {
+      return { stateId, days: clause.value, statuteCitation: clause.statuteCitation, source: 'clause' };
+    }
+    const builtIn = DEPOSIT_RETURN_DAYS[stateId];
+    const days = builtIn ? parseInt(builtIn, 10) : NaN;
+    if (Number.isFinite(days)) {
+      return { stateId, days, statuteCitation: null, source: 'default' };
+    }
+  }
+  return { stateId, days: DEFAULT_DEPOSIT_RETURN_DAYS, statuteCitation: null, source: 'default' };
+}
+
+export async function computeReturnDeadline(
+  stateId: string | null,
+  moveOutDate: string,
+): Promise<{ returnDeadline: string; rule: DepositReturnRule }> {
+  const rule = await getDepositReturnRule(stateId);
+  return { returnDeadline: addDaysToDate(moveOutDate, rule.days), rule };
+}
+
+/**
+ * Annual interest rate the state requires on held deposits, or null when the
+ * state has no deposit_interest_rate_pct value on file.
+ */
+export async function getDepositInterestRequirement(
+  stateId: string | null,
+): Promise<{ ratePct: number; statuteCitation: string | null } | null> {
+  if (!stateId) return null;
+  const values = await getStateClauseValues(stateId);
+  const clause = values.get(CLAUSE_KEYS.DEPOSIT_INTEREST_RATE_PCT);
+  if (clause?.value == null) return null;
+  return { ratePct: clause.value, statuteCitation: clause.statuteCitation };
+}
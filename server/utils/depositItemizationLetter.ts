@@ -0,0 +1,119 @@
+import type { DepositDisposition } from '@shared/securityDeposit';
+import type { SecurityDeposit, SecurityDepositDeduction } from '@shared/schema';
+import { PdfDocBuilder, PDF_COLORS } from './pdfDocBuilder';
+import { dollars } from './reportFormat';
+
+export interface DepositItemizationLetterOptions {
+  deposit: SecurityDeposit;
+  deductions: SecurityDepositDeduction[];
+  disposition: DepositDisposition;
+  tenantNames: string[];
+  premisesAddress: string;
+  landlordName: string;
+  stateId: string | null;
+  returnDeadlineCitation: string | null;
+}
+
+function formatDate(isoDate: string | null | undefined): string {
+  if (!isoDate) return '';
+  return new Date(`${isoDate}T00:00:00Z`).toLocaleDateString('en-US', {
+    year: 'numeric', month: 'long', day: 'numeric', timeZone: 'UTC',
+  });
+}
+
+// Draw one "label ........ amount" row of the accounting summary.
+function amountRow(b: PdfDocBuilder, label: string, amount: string, bold = false) {
+  const size = 11;
+  const f = bold ? b.fontBold : b.font;
+  b.ensureSpace(size + 6);
+  b.y -= size;
+  b.page.drawText(b.safe(label), { x: b.MARGIN, y: b.y, size, font: f, color: PDF_COLORS.dark });
+  const text = b.safe(amount);
+  b.page.drawText(text, {
+    x: b.MARGIN + b.CONTENT_W - f.widthOfTextAtSize(text, size),
+    y: b.y,
+    size,
+    font: f,
+    color: PDF_COLORS.dark,
+  });
+  b.y -= 6;
+}
+
+/**
+ * Itemized statement of security deposit deductions, sent to the tenant's
+ * forwarding address with (or in place of) the refund.
+ */
+export async function generateDepositItemizationLetterPdf(opts: DepositItemizationLetterOptions): Promise<Buffer> {
+  const { deposit, deductions, disposition } = opts;
+  const b = await PdfDocBuilder.create();
+  const tenantLine = opts.tenantNames.length > 0 ? opts.tenantNames.join(', ') : 'Tenant';
+
+  b.paragraph('Itemized Statement of Security Deposit Deductions', { size: 18, bold: true, center: true, color: PDF_COLORS.dark });
+  if (opts.stateId) b.paragraph(`Premises located in ${opts.stateId}`, { size: 11, center: true, color: PDF_COLORS.gray });
+  b.rule(PDF_COLORS.dark, 1.5);
+
+  b.moveDown(6);
+  b.paragraph(tenantLine, { bold: true });
+  if (deposit.forwardingAddress) {
+    for (const part of deposit.forwardingAddress.split('\n').map((s) => s.trim()).filter(Boolean)) {
+      b.paragraph(part, { size: 10 });
+    }
+  }
+  b.paragraph(formatDate(deposit.dispositionDate || new Date().toISOString().slice(0, 10)), { size: 10, color: PDF_COLORS.gray });
+
+  b.moveDown(6);
+  b.paragraph(`Dear ${tenantLine},`);
+  b.paragraph(
+    `This letter accounts for the security deposit held for your tenancy at ${opts.premisesAddress}. ` +
+    `You moved out on ${formatDate(deposit.moveOutDate)}. The deductions below are for damage beyond normal wear and tear ` +
+    'and other amounts owed under the lease, as documented on the move-out inspection checklist.',
+  );
+
+  b.sectionTitle('Deposit');
+  b.fieldGrid([
+    { label: 'Amount Held', value: dollars(deposit.amount) },
+    { label: 'Date Collected', value: formatDate(deposit.collectedDate) },
+    { label: 'Move-Out Date', value: formatDate(deposit.moveOutDate) },
+    { label: 'Return Deadline', value: formatDate(deposit.returnDeadline) },
+    { label: 'Held In', value: deposit.holdingAccount },
+    { label: 'Interest Rate', value: deposit.interestRatePct ? `${deposit.interestRatePct}% per year` : null },
+  ]);
+
+  b.sectionTitle('Itemized Deductions');
+  if (deductions.length === 0) {
+    b.paragraph('No deductions were taken.', { size: 10 });
+  } else {
+    for (const d of deductions) {
+      const finding = [d.checklistRoom, d.checklistItem].filter(Boolean).join(' - ');
+      const condition = d.condition ? ` (condition: ${d.condition})` : '';
+      const label = finding ? `${finding}${condition}: ${d.description}` : d.description;
+      b.bullet(`${label} - ${dollars(d.amount)}`, { size: 10 });
+    }
+  }
+
+  b.sectionTitle('Accounting');
+  amountRow(b, 'Security deposit held', dollars(disposition.depositCents));
+  if (disposition.interestCents > 0) amountRow(b, 'Interest accrued', dollars(disposition.interestCents));
+  amountRow(b, 'Less total deductions', `(${dollars(disposition.deductionsCents)})`);
+  b.rule(PDF_COLORS.line, 0.5);
+  if (disposition.balanceDueCents > 0) {
+    amountRow(b, 'Amount refunded', dollars(0), true);
+    amountRow(b, 'Balance you owe', dollars(disposition.balanceDueCents), true);
+    b.paragraph('The deductions exceed the deposit. Please remit the balance owed or contact us to arrange payment.', { size: 10 });
+  } else {
+    amountRow(b, 'Amount refunded to you', dollars(disposition.refundCents), true);
+  }
+
+  b.moveDown(16);
+  b.paragraph('Sincerely,');
+  b.moveDown(24);
+  b.paragraph('___________________________', { color: PDF_COLORS.gray });
+  b.paragraph(opts.landlordName, { size: 10 });
+
+  const footerLaw = opts.returnDeadlineCitation
+    ? `This statement is provided in accordance with ${opts.returnDeadlineCitation}.`
+    : 'This statement is provided for your records.';
+  b.footer([footerLaw, 'Please keep this statement with your lease records.']);
+
+  return b.toBuffer();
+}
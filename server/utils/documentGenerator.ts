@@ -11,7 +11,8 @@ import {
   TextRun,
   AlignmentType,
 } from 'docx';
-import { H1, H2, H3, P, SignatureLine, HR, Footer, getStateDisclosuresSync, getStateName } from './docxBuilder';
+import { H1, H2, H3, P, SignatureLine, HR, Footer, getStateDisclosuresSync, getStateName, resolveStateDisclosures } from './docxBuilder';
+import { leaseDisclosureDate } from '@shared/stateDisclosures';
 
 interface FieldValue {
   [key: string]: string | number;
@@ -289,7 +290,9 @@ export async function generateDocumentDOCX(options: DocumentGenerationOptions):
   children.push(P("24.3 Joint and Several Liability: If multiple Tenants sign this Lease, each shall be jointly and severally liable."));
   children.push(P("24.4 Binding Effect: This Lease is binding upon the parties and their heirs, executors, and successors."));
 
-  const stateDisclosures = getStateDisclosuresSync(stateId, stateName);
+  // Disclosure text in effect on the lease start date, from the admin-edited library.
+  const libraryDisclosures = await resolveStateDisclosures(stateId, leaseDisclosureDate(fieldValues.leaseStartDate));
+  const stateDisclosures = getStateDisclosuresSync(stateId, stateName, libraryDisclosures);
   children.push(...stateDisclosures);
 
   children.push(HR());
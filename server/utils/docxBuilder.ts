@@ -23,7 +23,7 @@ import {
 } from 'docx';
 
 // Re-export disclosure functions from single source of truth
-export { getStateDisclosures, getStateDisclosuresSync, STATE_DISCLOSURE_REGISTRY } from '../states/disclosures';
+export { getStateDisclosures, getStateDisclosuresSync, resolveStateDisclosures, BUILT_IN_STATE_DISCLOSURES } from '../states/disclosures';
 
 // Re-export state name utilities for callers that need sync state name lookup
 export { getStateName, getStateNames } from '../states/getStateName';
@@ -124,7 +124,9 @@ export const CheckboxLine = (text: string): Paragraph =>
     spacing: { after: 80 },
   });
 
-export const Footer = (text: string = "For informational purposes only. Consult with a licensed attorney for legal advice."): Paragraph =>
+export const DOCUMENT_DISCLAIMER = "For informational purposes only. Consult with a licensed attorney for legal advice.";
+
+export const Footer = (text: string = DOCUMENT_DISCLAIMER): Paragraph =>
   new Paragraph({
     children: [
       new TextRun({
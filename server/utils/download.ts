@@ -1,6 +1,14 @@
 import type { Response } from "express";
 import JSZip from "jszip";
 
+/**
+ * A user-supplied name made safe for a quoted Content-Disposition filename:
+ * quotes would end the value early and CR/LF would start a new header.
+ */
+export function headerFilename(name: string): string {
+  return name.replace(/["\r\n]/g, '').trim() || 'download';
+}
+
 /**
  * Safe binary download helper for DOCX and PDF files.
  * Ensures proper headers and uses res.end() for unambiguous binary delivery.
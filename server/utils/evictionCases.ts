@@ -0,0 +1,74 @@
+import type { EvictionCase, EvictionCaseStep } from '@shared/schema';
+import { isEvictionCourtStepKey, isEvictionStepKey } from '@shared/evictionTimeline';
+import { storage } from '../storage';
+import {
+  planEvictionTimeline,
+  resolveFormVersion,
+  type CourtStepRule,
+  type EvictionTimelineInput,
+  type HydratedFormDefinition,
+} from '../engine';
+
+/**
+ * Re-plan a case's timeline from its notice and the state's court rules and
+ * save it. Runs on create and whenever the landlord records an actual date,
+ * since later steps count from the actual date of the step before them.
+ */
+export async function replanEvictionCase(evictionCase: EvictionCase): Promise<EvictionCaseStep[]> {
+  const notice = await storage.getGeneratedNoticeDocument(evictionCase.generatedNoticeDocumentId, evictionCase.userId);
+
+  let def: HydratedFormDefinition | null = null;
+  if (notice) {
+    try {
+      def = await resolveFormVersion(notice.formVersionId);
+    } catch (error) {
+      // The version was removed or its rules are incomplete - plan from the
+      // dates stored on the notice instead.
+      console.error(`Error resolving form version ${notice.formVersionId} for eviction case ${evictionCase.id}:`, error);
+    }
+  }
+
+  const stateHolidays = await storage.getHolidaysForState(evictionCase.stateId);
+  const courtRules: EvictionTimelineInput['courtRules'] = {};
+  for (const rule of await storage.getEvictionTimelineRules(evictionCase.stateId)) {
+    if (!isEvictionCourtStepKey(rule.stepKey)) continue;
+    const courtRule: CourtStepRule = {
+      days: rule.days,
+      dayType: rule.dayType,
+      countingConvention: rule.countingConvention,
+      holidays: rule.holidayCalendarId ? await storage.getHolidayCalendarDates(rule.holidayCalendarId) : stateHolidays,
+      citation: rule.citation,
+    };
+    courtRules[rule.stepKey] = courtRule;
+  }
+
+  const existing = await storage.getEvictionCaseSteps(evictionCase.id);
+  const actualDates: EvictionTimelineInput['actualDates'] = {};
+  for (const step of existing) {
+    if (isEvictionStepKey(step.stepKey)) actualDates[step.stepKey] = step.actualDate;
+  }
+
+  const planned = planEvictionTimeline({
+    serviceDate: evictionCase.serviceDate,
+    def,
+    leaseGateAnswers: notice?.leaseGateAnswers || null,
+    serviceSelection: notice?.serviceSelection || null,
+    storedDates: {
+      complianceDeadline: notice?.calculatedComplianceDeadline || null,
+      earliestFilingDate: notice?.calculatedEarliestFilingDate || null,
+    },
+    courtRules,
+    stateHolidays,
+    actualDates,
+  });
+
+  // Service is already done when the case is opened, so it starts out with
+  // its actual date recorded (existing rows keep whatever the landlord set).
+  return storage.saveEvictionCaseSteps(
+    evictionCase.id,
+    planned.map((step) => ({
+      ...step,
+      actualDate: step.stepKey === 'notice_served' ? evictionCase.serviceDate : null,
+    })),
+  );
+}
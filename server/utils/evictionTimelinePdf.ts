@@ -0,0 +1,66 @@
+import { EVICTION_STEPS } from '@shared/evictionTimeline';
+import type { EvictionCase, EvictionCaseStep } from '@shared/schema';
+import { PdfDocBuilder, PDF_COLORS } from './pdfDocBuilder';
+
+export interface EvictionTimelinePdfOptions {
+  evictionCase: EvictionCase;
+  steps: EvictionCaseStep[];
+  noticeName: string;
+  landlordName: string;
+}
+
+function formatDate(isoDate: string | null | undefined): string {
+  if (!isoDate) return '';
+  return new Date(`${isoDate}T00:00:00Z`).toLocaleDateString('en-US', {
+    year: 'numeric', month: 'long', day: 'numeric', timeZone: 'UTC',
+  });
+}
+
+/**
+ * Printable case timeline: each step with its planned and actual dates, how
+ * the planned date was counted and the rule it came from.
+ */
+export async function generateEvictionTimelinePdf(opts: EvictionTimelinePdfOptions): Promise<Buffer> {
+  const { evictionCase, steps } = opts;
+  const b = await PdfDocBuilder.create();
+
+  b.paragraph('Eviction Case Timeline', { size: 18, bold: true, center: true, color: PDF_COLORS.dark });
+  b.paragraph(evictionCase.caseLabel, { size: 11, center: true, color: PDF_COLORS.gray });
+  b.rule(PDF_COLORS.dark, 1.5);
+
+  b.sectionTitle('Case');
+  b.fieldGrid([
+    { label: 'Notice', value: opts.noticeName },
+    { label: 'State', value: evictionCase.stateId },
+    { label: 'Notice Served', value: formatDate(evictionCase.serviceDate) },
+    { label: 'Court Case Number', value: evictionCase.courtCaseNumber },
+    { label: 'Landlord', value: opts.landlordName },
+    { label: 'Status', value: evictionCase.status === 'closed' ? 'Closed' : 'Active' },
+  ]);
+
+  b.sectionTitle('Timeline');
+  for (const step of steps) {
+    const meta = EVICTION_STEPS.find((s) => s.key === step.stepKey);
+    const when = step.actualDate
+      ? `${meta?.actualLabel || 'Done'} ${formatDate(step.actualDate)}`
+      : step.plannedDate
+        ? `Planned ${formatDate(step.plannedDate)}${step.isEstimate ? ' (estimate)' : ''}`
+        : 'Not yet planned';
+    b.ensureSpace(60);
+    b.paragraph(step.label, { bold: true, color: step.actualDate ? PDF_COLORS.green : PDF_COLORS.dark });
+    b.paragraph(when, { size: 10, color: step.isEstimate && !step.actualDate ? PDF_COLORS.amber : PDF_COLORS.dark });
+    if (step.actualDate && step.plannedDate && step.actualDate !== step.plannedDate) {
+      b.paragraph(`Originally planned ${formatDate(step.plannedDate)}`, { size: 9, color: PDF_COLORS.gray });
+    }
+    if (step.explain) b.paragraph(step.explain, { size: 9, color: PDF_COLORS.gray });
+    if (step.citation) b.paragraph(`Authority: ${step.citation}`, { size: 9, color: PDF_COLORS.gray });
+    b.moveDown(6);
+  }
+
+  b.footer([
+    `Prepared ${formatDate(new Date().toISOString().slice(0, 10))}. Dates marked as estimates use typical timing; the court's summons and hearing notices control.`,
+    'This timeline is a planning aid and is not legal advice.',
+  ]);
+
+  return b.toBuffer();
+}
@@ -0,0 +1,49 @@
+import type { RentalProperty, RentalSubmission, RentalUnit } from '@shared/schema';
+import { householdIncome, parseIncomeText, type HouseholdIncome } from '@shared/incomeVerification';
+import { storage } from '../storage';
+import { heldSelectionCriteria } from './selectionCriteria';
+
+export interface IncomeRequirement {
+  rentCents: number | null;
+  incomeMultiple: number | null;
+  selectionCriteriaVersion: number | null;
+}
+
+/**
+ * Rent comes from the unit, falling back to the property terms' free-text
+ * rent. The multiple is the one in the selection criteria the applicant is
+ * held to.
+ */
+export async function incomeRequirement(
+  submission: RentalSubmission,
+  unit: RentalUnit,
+  property: RentalProperty,
+): Promise<IncomeRequirement> {
+  const rentCents = unit.rentAmount ?? parseIncomeText(property.propertyTermsJson?.monthlyRent);
+  const { criteria } = await heldSelectionCriteria(submission.id, property.id);
+  return {
+    rentCents,
+    incomeMultiple: criteria?.criteriaJson.minIncomeMultiple ?? null,
+    selectionCriteriaVersion: criteria?.version ?? null,
+  };
+}
+
+// Recompute the household total and store the result on the submission.
+export async function recordHouseholdIncome(
+  submission: RentalSubmission,
+  unit: RentalUnit,
+  property: RentalProperty,
+): Promise<{ requirement: IncomeRequirement; result: HouseholdIncome }> {
+  const [sources, requirement] = await Promise.all([
+    storage.getRentalIncomeSources(submission.id),
+    incomeRequirement(submission, unit, property),
+  ]);
+  const result = householdIncome(sources, requirement.rentCents, requirement.incomeMultiple);
+  await storage.updateRentalSubmission(submission.id, {
+    incomeMonthlyCents: sources.length > 0 ? result.monthlyTotalCents : null,
+    incomeRequiredMonthlyCents: result.requiredMonthlyCents,
+    incomeMeetsRequirement: sources.length > 0 ? result.meetsRequirement : null,
+    incomeCheckedAt: new Date(),
+  });
+  return { requirement, result };
+}
@@ -0,0 +1,87 @@
+import type { DenialDecisionAuditLog, IndividualizedAssessment } from '@shared/schema';
+import {
+  assessmentStage,
+  isFinalLetterUnlocked,
+  requiresIndividualizedAssessment,
+  type AssessmentStage,
+} from '@shared/individualizedAssessment';
+import { storage } from '../storage';
+import { countPeriod } from '../engine';
+import { today } from './validation';
+
+/**
+ * The fair-chance steps these denial reasons trigger, from the most specific
+ * rule for each criterion (city > county > state > federal) in the
+ * jurisdiction.
+ */
+export async function requiredStepsForCriteria(
+  jurisdiction: { stateId: string; cityId?: string | null; countyId?: string | null },
+  criteriaIds: string[],
+): Promise<string[]> {
+  const rules = await storage.getDenialCriteriaRulesForJurisdiction(
+    jurisdiction.stateId,
+    jurisdiction.cityId || undefined,
+    jurisdiction.countyId || undefined,
+  );
+  const specificity = (r: { cityId: string | null; countyId: string | null; stateId: string | null }) =>
+    (r.cityId ? 4 : 0) + (r.countyId ? 2 : 0) + (r.stateId ? 1 : 0);
+  const ruleMap = new Map<string, (typeof rules)[number]>();
+  for (const rule of rules) {
+    const existing = ruleMap.get(rule.criteriaId);
+    if (!existing || specificity(rule) > specificity(existing)) ruleMap.set(rule.criteriaId, rule);
+  }
+
+  const steps = new Set<string>();
+  for (const criteriaId of criteriaIds) {
+    for (const step of ruleMap.get(criteriaId)?.requiredSteps || []) steps.add(step);
+  }
+  return Array.from(steps);
+}
+
+/** The fair-chance steps the audit log's denial reasons trigger. */
+export function requiredStepsForAuditLog(log: DenialDecisionAuditLog): Promise<string[]> {
+  return requiredStepsForCriteria(log, log.criteriaSelectedForDenial || log.criteriaPresent);
+}
+
+// The applicant's response window, counted from the day the pre-adverse
+// notice went out with the state's holidays excluded from business days.
+export async function computeResponseDeadline(
+  stateId: string,
+  sentOn: string,
+  days: number,
+  dayType: string,
+): Promise<{ deadline: string; explain: string }> {
+  const { endDate, explain } = countPeriod({
+    dayType,
+    periodDays: days,
+    countingConvention: 'day0_service_plus_n',
+    startDate: sentOn,
+    startLabel: 'Notice date',
+    holidays: dayType === 'business' ? await storage.getHolidaysForState(stateId) : [],
+  });
+  return { deadline: endDate, explain };
+}
+
+export function withStage(assessment: IndividualizedAssessment): IndividualizedAssessment & { stage: AssessmentStage } {
+  return { ...assessment, stage: assessmentStage(assessment, today()) };
+}
+
+/**
+ * Why the final adverse action letter can't be generated yet for this
+ * decision, or null when it can. Decisions whose reasons don't call for an
+ * individualized assessment are never locked.
+ */
+export async function finalLetterLockReason(auditLogId: string, userId: string): Promise<string | null> {
+  const assessment = await storage.getIndividualizedAssessmentByAuditLog(auditLogId, userId);
+  if (!assessment) {
+    const log = await storage.getDenialDecisionAuditLog(auditLogId, userId);
+    if (!log || !requiresIndividualizedAssessment(await requiredStepsForAuditLog(log))) return null;
+    return "This denial requires an individualized assessment before the final adverse action letter";
+  }
+
+  const stage = assessmentStage(assessment, today());
+  if (isFinalLetterUnlocked(stage)) return null;
+  return stage === 'assessing'
+    ? "Send the pre-adverse action notice before the final adverse action letter"
+    : `The applicant has until ${assessment.responseDeadline} to respond to the pre-adverse action notice`;
+}
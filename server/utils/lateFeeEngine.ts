@@ -0,0 +1,159 @@
+import { CLAUSE_KEYS } from '@shared/clauseRegistry';
+import {
+  computeLateFeeCents,
+  describeLateFeePolicy,
+  effectiveLateFeePolicy,
+  parseLateFeePolicy,
+  stateLateFeeCapCents,
+  validateLateFeePolicy,
+  type LateFeePolicy,
+  type LateFeeStateLimits,
+} from '@shared/lateFeePolicy';
+import type { RentPaymentRequest } from '@shared/schema';
+import { storage } from '../storage';
+import { getStateClauseValues } from './stateClauseValues';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Late-fee limits for a state from the admin-maintained clause values.
+ * Returns null when no state is known; fields are null when the state has no
+ * row for that clause (no cap on file - the engine won't invent one).
+ */
+export async function getLateFeeStateLimits(stateId: string | null | undefined): Promise<LateFeeStateLimits | null> {
+  if (!stateId) return null;
+  const values = await getStateClauseValues(stateId.toUpperCase());
+  const capPct = values.get(CLAUSE_KEYS.LATE_FEE_CAP_PCT);
+  const capFlat = values.get(CLAUSE_KEYS.LATE_FEE_CAP_FLAT_USD);
+  const grace = values.get(CLAUSE_KEYS.LATE_FEE_GRACE_DAYS);
+  const citations = Array.from(new Set(
+    [capPct, capFlat, grace]
+      .filter((c) => c?.value != null && c.statuteCitation)
+      .map((c) => c!.statuteCitation!),
+  ));
+  return {
+    stateId: stateId.toUpperCase(),
+    capPct: capPct?.value ?? null,
+    capFlatCents: capFlat?.value != null ? Math.round(capFlat.value * 100) : null,
+    minGraceDays: grace?.value ?? null,
+    citations,
+  };
+}
+
+/**
+ * Resolve the state a rent request is governed by: its property, else its
+ * tenancy's property.
+ */
+export async function resolveRentRequestState(
+  request: Pick<RentPaymentRequest, 'rentalPropertyId' | 'tenancyId'>,
+): Promise<string | null> {
+  let propertyId = request.rentalPropertyId;
+  if (!propertyId && request.tenancyId) {
+    const tenancy = await storage.getTenancyById(request.tenancyId);
+    propertyId = tenancy?.rentalPropertyId ?? null;
+  }
+  if (!propertyId) return null;
+  const property = await storage.getRentalPropertyById(propertyId);
+  return property?.state || null;
+}
+
+/**
+ * Read the optional `lateFeePolicy` field from a request body. undefined = not
+ * provided, null = clear (fall back to the flat lateFeeAmount).
+ */
+export function readLateFeePolicy(body: any): { policy?: LateFeePolicy | null; error?: string } {
+  if (body.lateFeePolicy === undefined) return {};
+  if (body.lateFeePolicy === null) return { policy: null };
+  const parsed = parseLateFeePolicy(body.lateFeePolicy);
+  return 'error' in parsed ? { error: parsed.error } : { policy: parsed.policy };
+}
+
+/**
+ * Validate a late-fee policy for a request/subscription before it is saved.
+ * Returns an error message or null.
+ */
+export async function checkLateFeePolicyForState(
+  policy: LateFeePolicy | null,
+  opts: { rentCents: number; graceDays: number; stateId: string | null },
+): Promise<string | null> {
+  if (!policy) return null;
+  const limits = await getLateFeeStateLimits(opts.stateId);
+  const errors = validateLateFeePolicy(policy, { rentCents: opts.rentCents, graceDays: opts.graceDays, limits });
+  return errors.length > 0 ? errors.join(' ') : null;
+}
+
+export interface LateFeeAssessment {
+  policy: LateFeePolicy;
+  daysLate: number;
+  graceDays: number;
+  policyTotalCents: number;   // what the policy alone says is owed to date
+  allowedTotalCents: number;  // after the state cap
+  alreadyAssessedCents: number;
+  feeToPostCents: number;     // delta to post now (0 = nothing to do)
+  capCents: number | null;
+  capped: boolean;
+  statuteCitation: string | null;
+  notes: string;
+}
+
+function daysBetween(dueDate: string, asOf: Date): number {
+  const due = Date.UTC(
+    parseInt(dueDate.slice(0, 4), 10),
+    parseInt(dueDate.slice(5, 7), 10) - 1,
+    parseInt(dueDate.slice(8, 10), 10),
+  );
+  const today = Date.UTC(asOf.getUTCFullYear(), asOf.getUTCMonth(), asOf.getUTCDate());
+  return Math.floor((today - due) / MS_PER_DAY);
+}
+
+/**
+ * Work out how much late fee to post on a rent request today. Never returns a
+ * total above the state cap, and never charges inside the state's minimum
+ * grace period even if the request was configured with a shorter one.
+ * Returns null when the request has no late-fee policy.
+ */
+export async function assessLateFee(request: RentPaymentRequest, asOf: Date = new Date()): Promise<LateFeeAssessment | null> {
+  const policy = effectiveLateFeePolicy(request);
+  if (!policy) return null;
+
+  const stateId = await resolveRentRequestState(request);
+  const limits = await getLateFeeStateLimits(stateId);
+
+  const alreadyAssessedCents = request.lateFeeAssessedAmount || 0;
+  // `amount` already includes any late fees posted so far.
+  const rentCents = request.amount - alreadyAssessedCents;
+  const graceDays = Math.max(request.gracePeriodDays, limits?.minGraceDays ?? 0);
+  const daysLate = daysBetween(String(request.dueDate), asOf);
+
+  const policyTotalCents = computeLateFeeCents(policy, { rentCents, daysLate, graceDays });
+  const capCents = stateLateFeeCapCents(limits, rentCents);
+  const allowedTotalCents = capCents != null ? Math.min(policyTotalCents, capCents) : policyTotalCents;
+  const capped = capCents != null && policyTotalCents > capCents;
+  const feeToPostCents = Math.max(0, allowedTotalCents - alreadyAssessedCents);
+  const statuteCitation = limits && limits.citations.length > 0 ? limits.citations.join('; ') : null;
+
+  const noteParts = [
+    `Policy: ${describeLateFeePolicy(policy)}`,
+    `${daysLate} days late, ${graceDays}-day grace period`,
+  ];
+  if (graceDays > request.gracePeriodDays) {
+    noteParts.push(`grace extended to ${stateId} minimum`);
+  }
+  if (capped) {
+    noteParts.push(`capped at ${stateId} maximum $${(capCents! / 100).toFixed(2)}`);
+  }
+
+  return {
+    policy,
+    daysLate,
+    graceDays,
+    policyTotalCents,
+    allowedTotalCents,
+    alreadyAssessedCents,
+    feeToPostCents,
+    capCents,
+    capped,
+    statuteCitation,
+    notes: noteParts.join('; '),
+  };
+}
@@ -16,6 +16,16 @@ import {
 } from 'docx';
 import { CLAUSE_KEYS } from '@shared/clauseRegistry';
 import { getStateClauseValues, type CachedClauseValue } from './stateClauseValues';
+import { disclosureHeading, leaseDisclosureDate } from '@shared/stateDisclosures';
+import { resolveStateDisclosures, type RenderableDisclosure } from '../states/disclosures';
+import {
+  leaseFactsFromFieldValues,
+  resolveLeaseClauses,
+  validateLeaseClauses,
+  type LeaseClauseIssue,
+  type LeaseClauseLimits,
+  type ResolvedLeaseClause,
+} from '@shared/leaseClauses';
 
 interface LeaseAgreementOptions {
   templateTitle: string;
@@ -49,7 +59,9 @@ const STATE_NAMES: Record<string, string> = {
   NM: 'New Mexico',
 };
 
-const DEPOSIT_RETURN_DAYS: Record<string, string> = {
+// Built-in return periods used when a state has no deposit_return_days clause
+// value on file. Ranges depend on whether deductions are taken.
+export const DEPOSIT_RETURN_DAYS: Record<string, string> = {
   UT: '30',
   TX: '30',
   ND: '30',
@@ -123,6 +135,16 @@ function getFieldValueAny(fieldValues: Record<string, string | number>, keys: st
   return defaultValue;
 }
 
+// Section and wording of the lease's late-fee term. The ledger statement of
+// account quotes it next to each late fee, so both must come from here.
+export const LEASE_LATE_FEE_SECTION = 'Section 4 (Rent and Payment)';
+
+export function leaseLateFeeClauseText(fieldValues: Record<string, string | number>): string {
+  const lateFeeGracePeriod = getFieldValueAny(fieldValues, ['lateFeeDays', 'lateFeeGracePeriod'], '5');
+  const lateFeeAmount = getFieldValue(fieldValues, 'lateFeeAmount');
+  return `If rent is not received within ${lateFeeGracePeriod} days of the due date, a late fee of $${lateFeeAmount} shall be assessed.`;
+}
+
 // Formats a day-of-month as an English ordinal (1 -> "1st", 2 -> "2nd",
 // 3 -> "3rd", 11 -> "11th", 21 -> "21st"). Non-numeric input (e.g. a blank
 // placeholder) is returned unchanged.
@@ -198,7 +220,20 @@ const HR = (): Paragraph =>
 
 // NOTE: This function provides comprehensive state-specific disclosures for all 16 states.
 // Includes mold, radon, bed bugs, and all required statutory disclosures per state law.
-function getStateProvisionsParagraphs(stateId: string, depositDays: string): Paragraph[] {
+// Approved disclosures from the admin library, when a state has them, replace the built-in list.
+function getStateProvisionsParagraphs(stateId: string, depositDays: string, libraryDisclosures?: RenderableDisclosure[] | null): Paragraph[] {
+  if (libraryDisclosures && libraryDisclosures.length > 0) {
+    return libraryDisclosures.map(d =>
+      new Paragraph({
+        children: [
+          new TextRun({ text: `${disclosureHeading(d.title, d.citation)}:`, bold: true, size: 22 }),
+          new TextRun({ text: ` ${d.body}`, size: 22 }),
+        ],
+        spacing: { after: 80 },
+      })
+    );
+  }
+
   const stateName = STATE_NAMES[stateId] || stateId;
   
   const provisions: Record<string, { title: string; text: string }[]> = {
@@ -331,6 +366,37 @@ function getStateProvisionsParagraphs(stateId: string, depositDays: string): Par
   );
 }
 
+// Deposit cap the lease clause choices are validated against.
+function leaseClauseLimits(stateId: string, clauseValues: Map<string, CachedClauseValue>): LeaseClauseLimits {
+  const depositCap = clauseValues.get(CLAUSE_KEYS.DEPOSIT_CAP_MONTHS);
+  return {
+    stateId,
+    depositCapMonths: depositCap?.value ?? null,
+    depositCapCitation: depositCap?.statuteCitation ?? null,
+  };
+}
+
+/** Problems with the lease's optional clauses; any error blocks generation. */
+export async function getLeaseClauseIssues(stateId: string, fieldValues: Record<string, string | number>): Promise<LeaseClauseIssue[]> {
+  const clauseValues = await getStateClauseValues(stateId);
+  return validateLeaseClauses(fieldValues, leaseFactsFromFieldValues(stateId, fieldValues), leaseClauseLimits(stateId, clauseValues));
+}
+
+// Sections 8 and 9 defer to the addendum when the lease carries one.
+function petsSectionText(clauses: ResolvedLeaseClause[]): string {
+  const pets = clauses.find(c => c.id === 'pets');
+  return pets
+    ? `Pets are permitted only as set out in the Pet Addendum (Section 23.${pets.number}).`
+    : "No pets are permitted without prior written consent from Landlord. Approved pets require a pet deposit and monthly pet fee as agreed in writing.";
+}
+
+function utilitiesSectionText(clauses: ResolvedLeaseClause[]): string {
+  const utilities = clauses.find(c => c.id === 'utilities');
+  return utilities
+    ? `Utilities are allocated as set out in the Utilities Allocation clause (Section 23.${utilities.number}).`
+    : "Tenant is responsible for all utilities unless otherwise specified in writing.";
+}
+
 export async function generateLeaseAgreementDocx(options: LeaseAgreementOptions): Promise<Buffer> {
   const { templateTitle, stateId, fieldValues, version = 1, updatedAt = new Date(), landlordInfo } = options;
 
@@ -350,6 +416,8 @@ export async function generateLeaseAgreementDocx(options: LeaseAgreementOptions)
   const depositDays = depositReturnClause?.value != null
     ? String(depositReturnClause.value)
     : (DEPOSIT_RETURN_DAYS[stateId] || '30');
+  const libraryDisclosures = await resolveStateDisclosures(stateId, leaseDisclosureDate(fieldValues.leaseStartDate));
+  const leaseClauses = resolveLeaseClauses(fieldValues, leaseFactsFromFieldValues(stateId, fieldValues));
   
   const landlordName = getFieldValue(fieldValues, 'landlordName');
   const landlordAddress = getFieldValue(fieldValues, 'landlordAddress');
@@ -366,8 +434,6 @@ export async function generateLeaseAgreementDocx(options: LeaseAgreementOptions)
   const leaseEndDate = getFieldValue(fieldValues, 'leaseEndDate');
   const monthlyRent = getFieldValue(fieldValues, 'monthlyRent');
   const rentDueDay = getFieldValue(fieldValues, 'rentDueDay', '1');
-  const lateFeeGracePeriod = getFieldValueAny(fieldValues, ['lateFeeDays', 'lateFeeGracePeriod'], '5');
-  const lateFeeAmount = getFieldValue(fieldValues, 'lateFeeAmount');
   const securityDeposit = getFieldValueAny(fieldValues, ['securityDeposit', 'maxDeposit']);
 
   const children: Paragraph[] = [];
@@ -398,7 +464,7 @@ export async function generateLeaseAgreementDocx(options: LeaseAgreementOptions)
 
   children.push(H2("4. RENT AND PAYMENT"));
   children.push(LabelValue("Monthly Rent: ", `$${monthlyRent} payable on the ${ordinalDay(rentDueDay)} day of each month.`));
-  children.push(LabelValue("Late Fee: ", `If rent is not received within ${lateFeeGracePeriod} days of the due date, a late fee of $${lateFeeAmount} shall be assessed.`));
+  children.push(LabelValue("Late Fee: ", leaseLateFeeClauseText(fieldValues)));
   const lateFeeNotes = formatLateFeeStateNote(stateName, lateFeeCapPctClause, lateFeeCapFlatClause, lateFeeGraceMinClause);
   if (lateFeeNotes) {
     children.push(P(lateFeeNotes, { italic: true }));
@@ -420,10 +486,10 @@ export async function generateLeaseAgreementDocx(options: LeaseAgreementOptions)
   children.push(P("The Premises shall be used solely as a residential dwelling. No business, illegal activity, or nuisance shall be permitted. Unauthorized occupants constitute a material breach."));
 
   children.push(H2("8. PETS"));
-  children.push(P("No pets are permitted without prior written consent from Landlord. Approved pets require a pet deposit and monthly pet fee as agreed in writing."));
+  children.push(P(petsSectionText(leaseClauses)));
 
   children.push(H2("9. UTILITIES"));
-  children.push(P("Tenant is responsible for all utilities unless otherwise specified in writing."));
+  children.push(P(utilitiesSectionText(leaseClauses)));
 
   children.push(H2("10. INSURANCE"));
   children.push(P("Tenant shall obtain and maintain renters insurance. Landlord is not liable for loss or damage to Tenant's personal property."));
@@ -445,7 +511,7 @@ export async function generateLeaseAgreementDocx(options: LeaseAgreementOptions)
   children.push(P("Landlord does not discriminate based on race, color, religion, sex, national origin, disability, familial status, or any other protected class under federal, state, or local law."));
 
   children.push(H2(`15. ${stateName.toUpperCase()} STATE-SPECIFIC PROVISIONS`));
-  children.push(...getStateProvisionsParagraphs(stateId, depositDays));
+  children.push(...getStateProvisionsParagraphs(stateId, depositDays, libraryDisclosures));
 
   children.push(H2("16. INDEMNIFICATION AND HOLD HARMLESS"));
   children.push(P("Tenant agrees to indemnify and hold harmless Landlord from any claims, damages, or expenses arising from Tenant's use of the Premises, breach of this Lease, or negligence of Tenant or Tenant's guests. Landlord is not liable for theft, injury, or property damage except as required by law."));
@@ -468,6 +534,14 @@ export async function generateLeaseAgreementDocx(options: LeaseAgreementOptions)
   children.push(H2("22. GOVERNING LAW"));
   children.push(P(`This Lease is governed by the laws of the State of ${stateName}.`));
 
+  if (leaseClauses.length > 0) {
+    children.push(H2("23. ADDITIONAL CLAUSES AND ADDENDA"));
+    for (const clause of leaseClauses) {
+      children.push(P(`23.${clause.number} ${clause.title}`, { bold: true }));
+      children.push(...clause.paragraphs.map(text => P(text)));
+    }
+  }
+
   children.push(HR());
 
   children.push(
@@ -528,12 +602,21 @@ export async function generateLeaseAgreementDocx(options: LeaseAgreementOptions)
   }
 }
 
-export async function generateLeaseAgreementPdf(options: LeaseAgreementOptions): Promise<Buffer> {
+/**
+ * The lease as HTML - the PDF source, also served as the wizard's live
+ * preview so the preview matches the delivered document.
+ */
+export async function generateLeaseAgreementHtml(options: LeaseAgreementOptions): Promise<string> {
   const { templateTitle, stateId, fieldValues, version = 1, updatedAt = new Date(), landlordInfo } = options;
 
   // Pre-warm the clause-value cache so the sync HTML builder can read it.
   const clauseValuesForPdf = await getStateClauseValues(stateId);
-  const htmlContent = generateLeaseHTMLForPdf(templateTitle, stateId, fieldValues, version, updatedAt, landlordInfo, clauseValuesForPdf);
+  const libraryDisclosures = await resolveStateDisclosures(stateId, leaseDisclosureDate(fieldValues.leaseStartDate));
+  return generateLeaseHTMLForPdf(templateTitle, stateId, fieldValues, version, updatedAt, landlordInfo, clauseValuesForPdf, libraryDisclosures);
+}
+
+export async function generateLeaseAgreementPdf(options: LeaseAgreementOptions): Promise<Buffer> {
+  const htmlContent = await generateLeaseAgreementHtml(options);
 
   console.log('📄 Generating lease agreement PDF with Puppeteer...');
   const startTime = Date.now();
@@ -572,7 +655,8 @@ function generateLeaseHTMLForPdf(
   version: number,
   updatedAt: Date,
   landlordInfo?: LeaseAgreementOptions['landlordInfo'],
-  clauseValues?: Map<string, CachedClauseValue>
+  clauseValues?: Map<string, CachedClauseValue>,
+  libraryDisclosures?: RenderableDisclosure[] | null
 ): string {
   const stateName = STATE_NAMES[stateId] || stateId;
   const lateFeeCapPctClause = clauseValues?.get(CLAUSE_KEYS.LATE_FEE_CAP_PCT);
@@ -601,9 +685,8 @@ function generateLeaseHTMLForPdf(
   const leaseEndDate = getFieldValue(fieldValues, 'leaseEndDate');
   const monthlyRent = getFieldValue(fieldValues, 'monthlyRent');
   const rentDueDay = getFieldValue(fieldValues, 'rentDueDay', '1');
-  const lateFeeGracePeriod = getFieldValueAny(fieldValues, ['lateFeeDays', 'lateFeeGracePeriod'], '5');
-  const lateFeeAmount = getFieldValue(fieldValues, 'lateFeeAmount');
   const securityDeposit = getFieldValueAny(fieldValues, ['securityDeposit', 'maxDeposit']);
+  const leaseClauses = resolveLeaseClauses(fieldValues, leaseFactsFromFieldValues(stateId, fieldValues));
 
   return `<!DOCTYPE html>
 <html>
@@ -648,7 +731,7 @@ function generateLeaseHTMLForPdf(
 
 <h2>4. RENT AND PAYMENT</h2>
 <p><strong>Monthly Rent:</strong> $${escapeHtml(monthlyRent)} payable on the ${escapeHtml(ordinalDay(rentDueDay))} day of each month.</p>
-<p><strong>Late Fee:</strong> If rent is not received within ${escapeHtml(lateFeeGracePeriod)} days of the due date, a late fee of $${escapeHtml(lateFeeAmount)} shall be assessed.</p>
+<p><strong>Late Fee:</strong> ${escapeHtml(leaseLateFeeClauseText(fieldValues))}</p>
 ${(() => {
   const note = formatLateFeeStateNote(stateName, lateFeeCapPctClause, lateFeeCapFlatClause, lateFeeGraceMinClause);
   return note ? `<p><em>${escapeHtml(note)}</em></p>` : '';
@@ -667,10 +750,10 @@ ${depositCapMonthsClause?.value != null ? `<p><em>Note: ${escapeHtml(stateName)}
 <p>The Premises shall be used solely as a residential dwelling. No business, illegal activity, or nuisance shall be permitted. Unauthorized occupants constitute a material breach.</p>
 
 <h2>8. PETS</h2>
-<p>No pets are permitted without prior written consent from Landlord. Approved pets require a pet deposit and monthly pet fee as agreed in writing.</p>
+<p>${escapeHtml(petsSectionText(leaseClauses))}</p>
 
 <h2>9. UTILITIES</h2>
-<p>Tenant is responsible for all utilities unless otherwise specified in writing.</p>
+<p>${escapeHtml(utilitiesSectionText(leaseClauses))}</p>
 
 <h2>10. INSURANCE</h2>
 <p>Tenant shall obtain and maintain renters insurance. Landlord is not liable for loss or damage to Tenant's personal property.</p>
@@ -689,7 +772,7 @@ ${(noticeMtmDaysClause?.value != null && noticeMtmDaysClause.value !== 30) ? `<p
 <p>Landlord does not discriminate based on race, color, religion, sex, national origin, disability, familial status, or any other protected class under federal, state, or local law.</p>
 
 <h2>15. ${stateName.toUpperCase()} STATE-SPECIFIC PROVISIONS</h2>
-${getStateProvisionsHtml(stateId, depositDays)}
+${getStateProvisionsHtml(stateId, depositDays, libraryDisclosures)}
 
 <h2>16. INDEMNIFICATION AND HOLD HARMLESS</h2>
 <p>Tenant agrees to indemnify and hold harmless Landlord from any claims, damages, or expenses arising from Tenant's use of the Premises, breach of this Lease, or negligence of Tenant or Tenant's guests. Landlord is not liable for theft, injury, or property damage except as required by law.</p>
@@ -711,7 +794,11 @@ ${getStateProvisionsHtml(stateId, depositDays)}
 
 <h2>22. GOVERNING LAW</h2>
 <p>This Lease is governed by the laws of the State of ${stateName}.</p>
-
+${leaseClauses.length > 0 ? `
+<h2>23. ADDITIONAL CLAUSES AND ADDENDA</h2>
+${leaseClauses.map(clause => `<p><strong>23.${clause.number} ${escapeHtml(clause.title)}</strong></p>
+${clause.paragraphs.map(text => `<p>${escapeHtml(text)}</p>`).join('\n')}`).join('\n')}
+` : ''}
 <hr>
 
 <h2 class="center">SIGNATURES</h2>
@@ -729,7 +816,13 @@ ${getStateProvisionsHtml(stateId, depositDays)}
 
 // NOTE: This function provides comprehensive state-specific disclosures for all 16 states (HTML version for PDF).
 // Includes mold, radon, bed bugs, and all required statutory disclosures per state law.
-function getStateProvisionsHtml(stateId: string, depositDays: string): string {
+function getStateProvisionsHtml(stateId: string, depositDays: string, libraryDisclosures?: RenderableDisclosure[] | null): string {
+  if (libraryDisclosures && libraryDisclosures.length > 0) {
+    return libraryDisclosures
+      .map(d => `<p><strong>${escapeHtml(disclosureHeading(d.title, d.citation))}:</strong> ${escapeHtml(d.body)}</p>`)
+      .join('\n');
+  }
+
   const provisions: Record<string, string> = {
     UT: `<p><strong>Fair Housing (Utah Code 57-21):</strong> In accordance with the Utah Fair Housing Act, it is unlawful to refuse to rent, discriminate, or discriminate in advertising because of race, color, religion, sex, national origin, familial status, source of income, or disability.</p>
 <p><strong>Mold Prevention and Disclosure:</strong> Pursuant to the Utah Fit Premises Act (Utah Code 57-22-4), Landlord discloses that there is no known mold contamination on the Premises. Tenant agrees to maintain adequate ventilation and promptly report any water leaks or visible mold within 48 hours of discovery.</p>
@@ -0,0 +1,137 @@
+// Builds lease-wizard field values from an approved rental application so the
+// landlord doesn't have to re-type names, rent and deposit into the document
+// wizard. Field IDs match the ones read by leaseAgreementGenerator.ts
+// (and the seeded lease templates' fillableFormData), so the resulting values
+// can be saved as a SavedDocument and rendered with
+// generateLeaseAgreementDocx / generateLeaseAgreementPdf unchanged.
+import type {
+  PropertyTerms,
+  RentalProperty,
+  RentalSubmissionPerson,
+  RentalUnit,
+  Template,
+  Tenancy,
+  User,
+} from '@shared/schema';
+
+export interface LeaseDraftInput {
+  landlord: Pick<User, 'firstName' | 'lastName' | 'businessName' | 'email' | 'phoneNumber'>;
+  property: RentalProperty;
+  unit: RentalUnit;
+  people: RentalSubmissionPerson[];
+  tenancy?: Tenancy | null;
+  leaseStartDate?: string | null;
+  leaseEndDate?: string | null;
+}
+
+// Extracts a dollar amount from a free-text PropertyTerms value such as
+// "$1,500 (refundable)" or "1500". Returns null for "N/A" or anything that
+// doesn't start with a number - we'd rather leave the field blank for the
+// landlord than guess.
+export function parseTermsDollars(value: string | undefined | null): number | null {
+  if (!value) return null;
+  const match = value.replace(/,/g, '').match(/^\s*\$?\s*(\d+(?:\.\d{1,2})?)/);
+  if (!match) return null;
+  const parsed = parseFloat(match[1]);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+function centsToDollarString(cents: number): string {
+  return (cents / 100).toFixed(2);
+}
+
+function personName(p: RentalSubmissionPerson): string {
+  return [p.firstName, p.lastName].filter(Boolean).join(' ').trim();
+}
+
+/**
+ * Resolve rent/deposit in priority order: the tenancy (if the landlord already
+ * confirmed lease terms), then the unit's cents columns, then the property's
+ * free-text terms. Returns dollar strings ("1500.00") or '' when unknown.
+ */
+function resolveMoney(input: LeaseDraftInput): { monthlyRent: string; securityDeposit: string } {
+  const terms = (input.property.propertyTermsJson || {}) as PropertyTerms;
+
+  let monthlyRent = '';
+  if (input.tenancy?.monthlyRent) {
+    monthlyRent = centsToDollarString(input.tenancy.monthlyRent);
+  } else if (input.unit.rentAmount) {
+    monthlyRent = centsToDollarString(input.unit.rentAmount);
+  } else {
+    const parsed = parseTermsDollars(terms.monthlyRent);
+    if (parsed != null) monthlyRent = parsed.toFixed(2);
+  }
+
+  let securityDeposit = '';
+  if (input.tenancy && input.tenancy.securityDeposit > 0) {
+    securityDeposit = centsToDollarString(input.tenancy.securityDeposit);
+  } else if (input.unit.securityDepositAmount != null) {
+    securityDeposit = centsToDollarString(input.unit.securityDepositAmount);
+  } else {
+    const parsed = parseTermsDollars(terms.securityDeposit);
+    if (parsed != null) securityDeposit = parsed.toFixed(2);
+  }
+
+  return { monthlyRent, securityDeposit };
+}
+
+export function buildLeaseDraftFieldValues(input: LeaseDraftInput): Record<string, string> {
+  const { landlord, property, unit, people, tenancy } = input;
+
+  // Applicant first, then co-applicants. Guarantors sign a separate guaranty
+  // and are not tenants on the lease.
+  const tenants = people
+    .filter((p) => p.role === 'applicant' || p.role === 'coapplicant')
+    .sort((a, b) => (a.role === 'applicant' ? -1 : 0) - (b.role === 'applicant' ? -1 : 0));
+  const named = tenants.filter((p) => personName(p));
+  const primary = named[0];
+
+  const landlordName =
+    (landlord.firstName && landlord.lastName ? `${landlord.firstName} ${landlord.lastName}` : null) ||
+    landlord.businessName || '';
+
+  const streetAddress = property.address || '';
+  const unitSuffix = unit.unitLabel && !/^main/i.test(unit.unitLabel) ? `, ${unit.unitLabel}` : '';
+  const { monthlyRent, securityDeposit } = resolveMoney(input);
+
+  const values: Record<string, string> = {
+    landlordName,
+    landlordEmail: landlord.email || '',
+    landlordPhone: landlord.phoneNumber || '',
+    tenantName: named.map(personName).join(', '),
+    tenantEmail: primary?.email || '',
+    tenantPhone: primary?.phone || '',
+    propertyAddress: streetAddress ? `${streetAddress}${unitSuffix}` : '',
+    propertyCity: property.city || '',
+    propertyState: property.state || '',
+    propertyZip: property.zipCode || '',
+    propertyType: property.propertyType || '',
+    monthlyRent,
+    securityDeposit,
+    rentDueDay: String(tenancy?.rentDueDay ?? 1),
+    leaseStartDate: input.leaseStartDate || tenancy?.startDate || '',
+    leaseEndDate: input.leaseEndDate || tenancy?.endDate || '',
+  };
+
+  // Drop blanks so the wizard shows its own defaults/placeholders instead of
+  // an empty string that looks like a deliberate answer.
+  for (const key of Object.keys(values)) {
+    if (!values[key]) delete values[key];
+  }
+  return values;
+}
+
+/**
+ * Pick the lease template to draft from for a state. A fixed-term lease uses
+ * the state's Residential Lease Agreement; with no end date we prefer the
+ * Month-to-Month Agreement when one exists.
+ */
+export function pickLeaseTemplate(candidates: Template[], monthToMonth: boolean): Template | undefined {
+  const leases = candidates.filter((t) => t.templateType === 'lease');
+  const isMtm = (t: Template) => /month-to-month/i.test(t.title);
+  if (monthToMonth) {
+    const mtm = leases.find(isMtm);
+    if (mtm) return mtm;
+  }
+  return leases.find((t) => /residential lease/i.test(t.title)) || leases.find((t) => !isMtm(t)) || leases[0];
+}
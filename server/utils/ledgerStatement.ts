@@ -0,0 +1,263 @@
+import type { RentLedgerEntry } from '@shared/schema';
+import { compareLedgerEntries, entryNet, LEDGER_ENTRY_TYPE_LABELS, type LedgerEntryType } from '@shared/tenantLedger';
+import { PdfDocBuilder, PDF_COLORS } from './pdfDocBuilder';
+import { dollars, tableRow } from './reportFormat';
+import { createTable, DOCUMENT_DISCLAIMER, Footer, generateDocx, H1, H2, HR, LabelValue, P, SignatureLine } from './docxBuilder';
+
+export interface LedgerStatementOptions {
+  entries: RentLedgerEntry[]; // every entry on the tenancy; the period is applied here
+  tenantNames: string[];
+  premisesAddress: string;
+  landlordName: string;
+  stateId: string | null;
+  leaseTerm: string | null; // e.g. "January 1, 2026 to December 31, 2026"
+  monthlyRent: number; // cents
+  periodFrom: string | null; // YYYY-MM-DD, null = from the first entry
+  periodTo: string; // YYYY-MM-DD
+  // The lease term authorizing late fees, quoted next to each one. null when
+  // no lease is on file for the tenancy.
+  lateFeeAuthority: { section: string; text: string; leaseName: string } | null;
+}
+
+interface StatementRow {
+  date: string;
+  description: string;
+  reference: string;
+  charge: number;
+  payment: number;
+  balance: number;
+  authority: string | null;
+  note: string | null;
+}
+
+interface LedgerStatement {
+  openingBalance: number;
+  rows: StatementRow[];
+  totalCharges: number;
+  totalPayments: number;
+  totalLateFees: number;
+  closingBalance: number;
+}
+
+function formatDate(isoDate: string | null | undefined): string {
+  if (!isoDate) return '';
+  return new Date(`${isoDate}T00:00:00Z`).toLocaleDateString('en-US', {
+    year: 'numeric', month: 'long', day: 'numeric', timeZone: 'UTC',
+  });
+}
+
+function entryDate(entry: RentLedgerEntry): string {
+  return new Date(entry.effectiveDate || entry.createdAt).toISOString().slice(0, 10);
+}
+
+function isLateFee(entry: RentLedgerEntry): boolean {
+  return (entry.category || '').toLowerCase() === 'late fee' && entryNet(entry) > 0;
+}
+
+function lateFeeAuthorityText(opts: LedgerStatementOptions, entry: RentLedgerEntry): string {
+  const parts: string[] = [];
+  if (opts.lateFeeAuthority) {
+    const { section, text, leaseName } = opts.lateFeeAuthority;
+    parts.push(`Authorized by ${leaseName}, ${section}: "${text}"`);
+  } else {
+    parts.push('No lease on file for this tenancy states the late-fee term.');
+  }
+  if (entry.statuteCitation) parts.push(`Checked against ${entry.statuteCitation}.`);
+  return parts.join(' ');
+}
+
+/**
+ * Ledger entries for the period in ledger order, each with the balance after
+ * it. Entries before the period roll into the opening balance so the running
+ * balance matches the full ledger.
+ */
+function buildLedgerStatement(opts: LedgerStatementOptions): LedgerStatement {
+  const sorted = [...opts.entries].sort(compareLedgerEntries);
+  let balance = 0;
+  let openingBalance = 0;
+  let totalCharges = 0;
+  let totalPayments = 0;
+  let totalLateFees = 0;
+  const rows: StatementRow[] = [];
+
+  for (const entry of sorted) {
+    const date = entryDate(entry);
+    if (date > opts.periodTo) continue;
+    balance += entryNet(entry);
+    if (opts.periodFrom && date < opts.periodFrom) {
+      openingBalance = balance;
+      continue;
+    }
+    const charge = entry.amountExpected || 0;
+    const payment = entry.amountReceived || 0;
+    totalCharges += charge;
+    totalPayments += payment;
+    if (isLateFee(entry)) totalLateFees += charge;
+
+    // Corrections are labelled and carry their reason in notes; other notes
+    // are the landlord's own and stay off the statement.
+    const isCorrection = entry.type === 'reversal' || entry.type === 'nsf_return' || entry.type === 'adjustment';
+    const description = [entry.category, entry.description].filter(Boolean).join(' - ');
+    rows.push({
+      date,
+      description: isCorrection
+        ? `${LEDGER_ENTRY_TYPE_LABELS[entry.type as LedgerEntryType]}: ${description}`
+        : description || 'Ledger entry',
+      reference: [entry.paymentMethod, entry.referenceNumber].filter(Boolean).join(' #'),
+      charge,
+      payment,
+      balance,
+      authority: isLateFee(entry) ? lateFeeAuthorityText(opts, entry) : null,
+      note: isCorrection && entry.notes ? `Reason: ${entry.notes}` : null,
+    });
+  }
+
+  return { openingBalance, rows, totalCharges, totalPayments, totalLateFees, closingBalance: balance };
+}
+
+function periodLabel(opts: LedgerStatementOptions): string {
+  return opts.periodFrom
+    ? `${formatDate(opts.periodFrom)} through ${formatDate(opts.periodTo)}`
+    : `All activity through ${formatDate(opts.periodTo)}`;
+}
+
+const DECLARATION =
+  'I declare that I am the landlord or the landlord\'s authorized agent, that this statement was prepared from ' +
+  'the rent ledger kept in the ordinary course of business at or near the time of each transaction, and that ' +
+  'it is true and correct to the best of my knowledge. Posted ledger entries are never edited or deleted; ' +
+  'corrections appear above as reversal, returned-payment or adjustment entries.';
+
+// PDF table columns: date, description, reference, charge, payment, balance.
+const COLUMNS = [
+  { title: 'Date', width: 62, right: false },
+  { title: 'Description', width: 178, right: false },
+  { title: 'Reference', width: 70, right: false },
+  { title: 'Charge', width: 64, right: true },
+  { title: 'Payment', width: 64, right: true },
+  { title: 'Balance', width: 74, right: true },
+];
+
+/**
+ * Statement of account for a tenancy: every charge and payment in the period
+ * with its running balance, and the lease term behind each late fee. Built
+ * to be attached to a nonpayment complaint.
+ */
+export async function generateLedgerStatementPdf(opts: LedgerStatementOptions): Promise<Buffer> {
+  const statement = buildLedgerStatement(opts);
+  const b = await PdfDocBuilder.create();
+  const tenantLine = opts.tenantNames.length > 0 ? opts.tenantNames.join(', ') : 'Tenant';
+
+  b.paragraph('Statement of Account', { size: 18, bold: true, center: true, color: PDF_COLORS.dark });
+  b.paragraph(periodLabel(opts), { size: 11, center: true, color: PDF_COLORS.gray });
+  b.rule(PDF_COLORS.dark, 1.5);
+
+  b.sectionTitle('Parties and Premises');
+  b.fieldGrid([
+    { label: 'Tenant(s)', value: tenantLine },
+    { label: 'Landlord', value: opts.landlordName },
+    { label: 'Premises', value: opts.premisesAddress },
+    { label: 'State', value: opts.stateId },
+    { label: 'Lease Term', value: opts.leaseTerm },
+    { label: 'Monthly Rent', value: dollars(opts.monthlyRent) },
+  ]);
+
+  b.sectionTitle('Account Activity');
+  tableRow(b, COLUMNS, COLUMNS.map((c) => c.title), { bold: true });
+  b.rule(PDF_COLORS.line, 0.5);
+  if (opts.periodFrom) {
+    tableRow(b, COLUMNS, [formatDate(opts.periodFrom), 'Opening balance', '', '', '', dollars(statement.openingBalance)], { bold: true });
+  }
+  if (statement.rows.length === 0) {
+    b.paragraph('No charges or payments were posted in this period.', { size: 10, color: PDF_COLORS.gray });
+  }
+  for (const row of statement.rows) {
+    tableRow(b, COLUMNS, [
+      formatDate(row.date),
+      row.description,
+      row.reference,
+      row.charge ? dollars(row.charge) : '',
+      row.payment ? dollars(row.payment) : '',
+      dollars(row.balance),
+    ]);
+    const x = b.MARGIN + COLUMNS[0].width;
+    const width = COLUMNS[1].width + COLUMNS[2].width + COLUMNS[3].width;
+    if (row.authority) b.paragraph(row.authority, { size: 8, italic: true, color: PDF_COLORS.gray, x, width, gap: 2 });
+    if (row.note) b.paragraph(row.note, { size: 8, color: PDF_COLORS.gray, x, width, gap: 2 });
+  }
+  b.rule(PDF_COLORS.line, 0.5);
+
+  b.sectionTitle('Summary');
+  b.fieldGrid([
+    { label: 'Opening Balance', value: dollars(statement.openingBalance) },
+    { label: 'Charges', value: dollars(statement.totalCharges) },
+    { label: 'Payments and Credits', value: dollars(statement.totalPayments) },
+    { label: 'Late Fees Included in Charges', value: dollars(statement.totalLateFees) },
+  ]);
+  b.paragraph(`Balance due as of ${formatDate(opts.periodTo)}: ${dollars(statement.closingBalance)}`, { size: 12, bold: true });
+
+  b.sectionTitle('Declaration');
+  b.paragraph(DECLARATION, { size: 10 });
+  b.moveDown(24);
+  b.paragraph('___________________________          Date: ______________', { color: PDF_COLORS.gray });
+  b.paragraph(opts.landlordName, { size: 10 });
+
+  b.footer([
+    `Prepared ${formatDate(new Date().toISOString().slice(0, 10))} from the LeaseShield rent ledger. Amounts in parentheses are credits.`,
+    DOCUMENT_DISCLAIMER,
+  ]);
+
+  return b.toBuffer();
+}
+
+export async function generateLedgerStatementDocx(opts: LedgerStatementOptions): Promise<Buffer> {
+  const statement = buildLedgerStatement(opts);
+  const tenantLine = opts.tenantNames.length > 0 ? opts.tenantNames.join(', ') : 'Tenant';
+
+  const rows: string[][] = [];
+  if (opts.periodFrom) {
+    rows.push([formatDate(opts.periodFrom), 'Opening balance', '', '', '', dollars(statement.openingBalance)]);
+  }
+  for (const row of statement.rows) {
+    rows.push([
+      formatDate(row.date),
+      [row.description, row.authority, row.note].filter(Boolean).join(' - '),
+      row.reference,
+      row.charge ? dollars(row.charge) : '',
+      row.payment ? dollars(row.payment) : '',
+      dollars(row.balance),
+    ]);
+  }
+
+  return generateDocx({
+    title: 'Statement of Account',
+    stateId: opts.stateId || '',
+    children: [
+      H1('STATEMENT OF ACCOUNT'),
+      P(periodLabel(opts), { italic: true, center: true }),
+      HR(),
+      H2('Parties and Premises'),
+      LabelValue('Tenant(s): ', tenantLine),
+      LabelValue('Landlord: ', opts.landlordName),
+      LabelValue('Premises: ', opts.premisesAddress),
+      ...(opts.leaseTerm ? [LabelValue('Lease Term: ', opts.leaseTerm)] : []),
+      LabelValue('Monthly Rent: ', dollars(opts.monthlyRent)),
+      H2('Account Activity'),
+      rows.length > 0
+        ? createTable(COLUMNS.map((c) => c.title), rows)
+        : P('No charges or payments were posted in this period.', { italic: true }),
+      H2('Summary'),
+      LabelValue('Opening Balance: ', dollars(statement.openingBalance)),
+      LabelValue('Charges: ', dollars(statement.totalCharges)),
+      LabelValue('Payments and Credits: ', dollars(statement.totalPayments)),
+      LabelValue('Late Fees Included in Charges: ', dollars(statement.totalLateFees)),
+      P(`Balance due as of ${formatDate(opts.periodTo)}: ${dollars(statement.closingBalance)}`, { bold: true }),
+      H2('Declaration'),
+      P(DECLARATION),
+      SignatureLine('Signature'),
+      SignatureLine('Printed Name'),
+      SignatureLine('Date'),
+      P(`Prepared ${formatDate(new Date().toISOString().slice(0, 10))} from the LeaseShield rent ledger. Amounts in parentheses are credits.`, { size: 18 }),
+      Footer(),
+    ],
+  });
+}
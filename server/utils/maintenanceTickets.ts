@@ -0,0 +1,63 @@
+import { randomUUID } from 'crypto';
+import path from 'path';
+import type { Response } from 'express';
+import { getMaintenanceSlaStatus } from '@shared/maintenance';
+import type { MaintenanceRequest, MaintenanceRequestPhoto } from '@shared/schema';
+import { storage } from '../storage';
+import { uploadPrivateBuffer, downloadPrivateBuffer } from '../applicantObjectStorage';
+
+const PHOTO_FOLDER = 'maintenance-photos';
+const MAX_PHOTOS_PER_REQUEST = 10;
+
+/** Ticket plus its live SLA status, as the API returns it. */
+export function withSla<T extends MaintenanceRequest>(ticket: T) {
+  return { ...ticket, sla: getMaintenanceSlaStatus(ticket) };
+}
+
+/**
+ * Store an uploaded photo in private object storage and attach it to the
+ * ticket's history. Returns null when the ticket already has the maximum
+ * number of photos.
+ */
+export async function saveMaintenancePhoto(
+  requestId: string,
+  file: Express.Multer.File,
+  uploadedByUserId: string,
+): Promise<MaintenanceRequestPhoto | null> {
+  const existing = await storage.getMaintenanceRequestPhotos(requestId);
+  if (existing.length >= MAX_PHOTOS_PER_REQUEST) return null;
+
+  const ext = path.extname(file.originalname).toLowerCase();
+  const { dbPath } = await uploadPrivateBuffer(
+    file.buffer,
+    `${PHOTO_FOLDER}/${requestId}`,
+    `${randomUUID()}${ext}`,
+    file.mimetype,
+  );
+  const photo = await storage.createMaintenanceRequestPhoto({
+    requestId,
+    storagePath: dbPath,
+    fileName: file.originalname,
+    contentType: file.mimetype,
+    sizeBytes: file.size,
+    uploadedByUserId,
+  });
+  await storage.createMaintenanceRequestEvent({
+    requestId,
+    eventType: 'photo_added',
+    toValue: file.originalname,
+    actorUserId: uploadedByUserId,
+  });
+  return photo;
+}
+
+export async function sendMaintenancePhoto(res: Response, photo: MaintenanceRequestPhoto): Promise<void> {
+  const buffer = await downloadPrivateBuffer(photo.storagePath);
+  if (!buffer) {
+    res.status(404).json({ message: "Photo not found" });
+    return;
+  }
+  res.setHeader('Content-Type', photo.contentType);
+  res.setHeader('Cache-Control', 'private, max-age=3600');
+  res.send(buffer);
+}
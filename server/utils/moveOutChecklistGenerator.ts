@@ -18,6 +18,7 @@ import {
   WidthType,
   TableLayoutType,
 } from 'docx';
+import { MOVE_OUT_CHECKLIST_ROOMS } from '@shared/moveOutChecklist';
 
 interface MoveOutChecklistOptions {
   templateTitle: string;
@@ -174,13 +175,7 @@ export async function generateMoveOutChecklistDocx(options: MoveOutChecklistOpti
     ? 'Complete this checklist during the initial walkthrough before tenant move-in. Document the condition of each area to establish baseline condition. Both landlord and tenant should sign upon completion.'
     : 'Complete this checklist during the final walkthrough before tenant move-out. Document the condition of each area and note any damages beyond normal wear and tear. Both landlord and tenant should sign upon completion.';
 
-  const rooms = [
-    { name: 'LIVING ROOM', items: ['Walls/Paint', 'Ceiling', 'Flooring/Carpet', 'Windows/Screens', 'Blinds/Curtains', 'Light Fixtures', 'Electrical Outlets', 'Doors/Locks'] },
-    { name: 'KITCHEN', items: ['Walls/Paint', 'Flooring', 'Countertops', 'Cabinets/Drawers', 'Sink/Faucet', 'Stove/Oven', 'Refrigerator', 'Dishwasher', 'Microwave', 'Exhaust Fan/Hood'] },
-    { name: 'BEDROOM(S)', items: ['Walls/Paint', 'Ceiling', 'Flooring/Carpet', 'Windows/Screens', 'Blinds/Curtains', 'Closet Doors', 'Light Fixtures', 'Electrical Outlets'] },
-    { name: 'BATHROOM(S)', items: ['Walls/Paint', 'Flooring', 'Toilet', 'Sink/Vanity', 'Bathtub/Shower', 'Faucets/Fixtures', 'Mirror/Cabinet', 'Exhaust Fan', 'Towel Bars'] },
-    { name: 'OTHER AREAS', items: ['Hallways', 'Stairs/Railings', 'Garage', 'Patio/Balcony', 'HVAC System', 'Water Heater', 'Smoke Detectors', 'CO Detectors'] }
-  ];
+  const rooms = MOVE_OUT_CHECKLIST_ROOMS;
 
   const children: (Paragraph | Table)[] = [];
 
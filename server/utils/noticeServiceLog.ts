@@ -0,0 +1,119 @@
+import { randomUUID } from 'crypto';
+import path from 'path';
+import type { Response } from 'express';
+import type { NoticeServiceAttempt, NoticeServiceAttemptPhoto } from '@shared/schema';
+import { storage, type GeneratedNoticeSummary } from '../storage';
+import { uploadPrivateBuffer, downloadPrivateBuffer } from '../applicantObjectStorage';
+import {
+  summarizeServiceLog,
+  getServiceOverlayValues,
+  type HydratedFormDefinition,
+  type DateCalculationResult,
+} from '../engine';
+import { renderProofOfService } from '../engine/documentRenderer';
+import { generateProofOfServicePdf } from './proofOfServicePdf';
+
+const PHOTO_FOLDER = 'service-photos';
+const MAX_PHOTOS_PER_ATTEMPT = 10;
+
+/**
+ * Which proof-of-service document the notice gets: the state's official
+ * proof-of-service form, the certificate section on the official notice
+ * itself, or a LeaseShield affidavit when neither is configured.
+ */
+export function proofOfServiceSource(def: HydratedFormDefinition): 'official_form' | 'notice_certificate' | 'affidavit' {
+  if (def.proofOfServiceTemplate?.mode === 'official_pdf_overlay' && def.proofOfServiceTemplate.basePdfAttachmentPath) {
+    return 'official_form';
+  }
+  if (def.outputTemplate?.mode === 'official_pdf_overlay' && def.outputTemplate.basePdfAttachmentPath) {
+    return 'notice_certificate';
+  }
+  return 'affidavit';
+}
+
+export async function generateProofOfService(
+  notice: GeneratedNoticeSummary,
+  def: HydratedFormDefinition,
+  attempts: NoticeServiceAttempt[],
+): Promise<{ buffer: Buffer; filename: string }> {
+  const summary = summarizeServiceLog(def, attempts);
+  const serviceValues = getServiceOverlayValues(def, attempts);
+
+  // Rebuild the notice's own overlay values from what was stored at
+  // generation, so a re-rendered official form matches the served notice.
+  // The logged service replaces the service fields.
+  const dateCalc: DateCalculationResult | null = notice.calculatedComplianceDeadline && notice.calculatedEarliestFilingDate
+    ? {
+        complianceDeadline: notice.calculatedComplianceDeadline,
+        earliestFilingDate: notice.calculatedEarliestFilingDate,
+        explainFormula: '',
+      }
+    : null;
+
+  const rendered = await renderProofOfService({
+    def,
+    inputs: notice.inputs,
+    serviceSelection: (notice.serviceSelection || {}) as Record<string, boolean>,
+    dateCalc,
+    serviceValues,
+  });
+  if (rendered) return { buffer: rendered.buffer, filename: rendered.filename };
+
+  const state = await storage.getStateById(def.form.stateId);
+  const photos = await storage.getNoticeServiceAttemptPhotos(attempts.map((a) => a.id));
+  const photoCounts: Record<string, number> = {};
+  for (const p of photos) photoCounts[p.attemptId] = (photoCounts[p.attemptId] || 0) + 1;
+
+  const buffer = await generateProofOfServicePdf({
+    noticeName: def.form.displayName,
+    stateName: state?.name || def.form.stateId,
+    statuteCitation: def.version.statuteSourceCitation,
+    attempts,
+    methodNames: Object.fromEntries(def.serviceRules.map((r) => [r.methodId, r.methodDisplayName])),
+    methodAckText: Object.fromEntries(def.serviceRules.map((r) => [r.methodId, r.ackText])),
+    servedDate: summary.servedDate,
+    photoCounts,
+  });
+  const safeTitle = def.form.displayName.replace(/[^a-zA-Z0-9]/g, '_');
+  return { buffer, filename: `${safeTitle}_Affidavit_of_Service.pdf` };
+}
+
+/**
+ * Store a photo of service (posted notice, mailing receipt) in private object
+ * storage. Returns null when the attempt already has the maximum number.
+ */
+export async function saveServiceAttemptPhoto(
+  attemptId: string,
+  file: Express.Multer.File,
+  uploadedByUserId: string,
+): Promise<NoticeServiceAttemptPhoto | null> {
+  const existing = await storage.getNoticeServiceAttemptPhotos([attemptId]);
+  if (existing.length >= MAX_PHOTOS_PER_ATTEMPT) return null;
+
+  const ext = path.extname(file.originalname).toLowerCase();
+  const { dbPath } = await uploadPrivateBuffer(
+    file.buffer,
+    `${PHOTO_FOLDER}/${attemptId}`,
+    `${randomUUID()}${ext}`,
+    file.mimetype,
+  );
+  return storage.createNoticeServiceAttemptPhoto({
+    attemptId,
+    storagePath: dbPath,
+    fileName: file.originalname,
+    contentType: file.mimetype,
+    sizeBytes: file.size,
+    uploadedByUserId,
+  });
+}
+
+export async function sendServiceAttemptPhoto(res: Response, photo: NoticeServiceAttemptPhoto): Promise<void> {
+  const buffer = await downloadPrivateBuffer(photo.storagePath);
+  if (!buffer) {
+    res.status(404).json({ message: "Photo not found" });
+    return;
+  }
+  res.setHeader('Content-Type', photo.contentType);
+  res.setHeader('Cache-Control', 'private, max-age=3600');
+  res.send(buffer);
+}
@@ -0,0 +1,41 @@
+import type { Organization, OrganizationMember, User } from '@shared/schema';
+import { isTeamRole, type TeamRole } from '@shared/organizations';
+import { storage } from '../storage';
+
+export interface TeamContext {
+  // The account whose records the request reads and writes - the team owner
+  // for members, the user themselves otherwise.
+  dataOwner: User;
+  role: TeamRole;
+  organization: Organization | null;
+  member: OrganizationMember | null;
+}
+
+/**
+ * Resolve whose data a landlord login works on. Members of an organization
+ * act on the owner's account; everyone else (owners, solo landlords, admins,
+ * tenants) acts on their own.
+ */
+export async function resolveTeamContext(user: User): Promise<TeamContext> {
+  const solo: TeamContext = { dataOwner: user, role: 'owner', organization: null, member: null };
+  if (user.isAdmin || user.role === 'tenant') return solo;
+
+  const membership = await storage.getOrganizationMembershipForUser(user.id);
+  if (!membership || !isTeamRole(membership.member.role)) return solo;
+  // Admin accounts can't own a team - members would inherit admin access.
+  const owner = await storage.getUser(membership.organization.ownerUserId);
+  if (!owner || owner.isAdmin) return solo;
+
+  return {
+    dataOwner: owner,
+    role: membership.member.role,
+    organization: membership.organization,
+    member: membership.member,
+  };
+}
+
+export function teamDisplayName(owner: Pick<User, 'businessName' | 'firstName' | 'lastName' | 'email'>): string {
+  if (owner.businessName) return owner.businessName;
+  const name = [owner.firstName, owner.lastName].filter(Boolean).join(' ');
+  return name ? `${name}'s team` : `${owner.email}'s team`;
+}
@@ -0,0 +1,546 @@
+import type {
+  MaintenanceRequest,
+  PropertyExpense,
+  RentalProperty,
+  RentalUnit,
+  RentLedgerAllocation,
+  RentLedgerEntry,
+  RentPaymentRequest,
+  RentSubscription,
+  Tenancy,
+} from '@shared/schema';
+import {
+  AGING_BUCKETS,
+  agingBucket,
+  type OwnerReport,
+  type OwnerReportCell,
+  type OwnerReportRow,
+} from '@shared/ownerReports';
+import { ledgerBalance, ledgerPositions, planAllocations } from '@shared/tenantLedger';
+import { expenseCategoryLabel, scheduleELineFor } from '@shared/propertyExpenses';
+import { HOLDING_DEPOSIT_CATEGORY } from '@shared/paymentRequests';
+import { computeRentFees, type ServiceFeePayer } from '../rentFees';
+import { PdfDocBuilder, PDF_COLORS } from './pdfDocBuilder';
+import { csvAmount, csvText, dollars, formatDate, shortDate, tableRow as pdfTableRow } from './reportFormat';
+import { DOCUMENT_DISCLAIMER } from './docxBuilder';
+import { storage } from '../storage';
+
+/** Everything the owner reports read, already scoped to one account. */
+export interface OwnerReportData {
+  properties: RentalProperty[];
+  units: RentalUnit[];
+  tenancies: Array<Tenancy & { tenantNames: string[] }>;
+  entries: RentLedgerEntry[];
+  allocations: RentLedgerAllocation[];
+  paymentRequests: RentPaymentRequest[];
+  subscriptions: RentSubscription[];
+  maintenanceRequests: MaintenanceRequest[];
+  expenses: PropertyExpense[];
+}
+
+export async function loadOwnerReportData(userId: string): Promise<OwnerReportData> {
+  const [properties, tenancies, entries, allocations, paymentRequests, subscriptions, maintenanceRequests, expenses] =
+    await Promise.all([
+      storage.getRentalPropertiesByUserId(userId),
+      storage.getTenancies(userId),
+      storage.getRentLedgerEntries(userId),
+      storage.getRentLedgerAllocations(userId),
+      storage.getRentPaymentRequests(userId),
+      storage.getRentSubscriptions(userId),
+      storage.getMaintenanceRequests(userId),
+      storage.getPropertyExpenses(userId),
+    ]);
+  const [units, occupants] = await Promise.all([
+    Promise.all(properties.map((p) => storage.getRentalUnitsByPropertyId(p.id))),
+    Promise.all(tenancies.map((t) => storage.getTenancyOccupants(t.id))),
+  ]);
+  return {
+    properties,
+    units: units.flat(),
+    tenancies: tenancies.map((t, i) => ({
+      ...t,
+      tenantNames: occupants[i].filter((o) => o.role === 'tenant').map((o) => o.fullName),
+    })),
+    entries,
+    allocations,
+    paymentRequests,
+    subscriptions,
+    maintenanceRequests,
+    expenses,
+  };
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const UNASSIGNED = 'unassigned';
+
+const toDay = (value: Date | string) => new Date(value).toISOString().slice(0, 10);
+const daysBetween = (from: string, to: string) => Math.round((Date.parse(to) - Date.parse(from)) / DAY_MS);
+const entryDay = (e: RentLedgerEntry) => toDay(e.effectiveDate || e.createdAt);
+
+function sumInto(target: Record<string, OwnerReportCell>, cells: Record<string, OwnerReportCell>, keys: string[]) {
+  keys.forEach((key) => {
+    target[key] = ((target[key] as number) || 0) + ((cells[key] as number) || 0);
+  });
+}
+
+// Ledger rows and payment requests carry a property directly or through their
+// lease; either may be missing on older rows.
+function propertyResolver(data: OwnerReportData) {
+  const tenancyProperty = new Map(data.tenancies.map((t) => [t.id, t.rentalPropertyId] as [string, string | null]));
+  return (row: { tenancyId: string | null }, direct: string | null) =>
+    direct || (row.tenancyId && tenancyProperty.get(row.tenancyId)) || UNASSIGNED;
+}
+
+/** Narrow every source to one property, following leases where a row has no property of its own. */
+export function scopeToProperty(data: OwnerReportData, propertyId: string): OwnerReportData {
+  const resolveProperty = propertyResolver(data);
+  return {
+    properties: data.properties.filter((p) => p.id === propertyId),
+    units: data.units.filter((u) => u.propertyId === propertyId),
+    tenancies: data.tenancies.filter((t) => t.rentalPropertyId === propertyId),
+    entries: data.entries.filter((e) => resolveProperty(e, e.propertyId) === propertyId),
+    allocations: data.allocations,
+    paymentRequests: data.paymentRequests.filter((r) => resolveProperty(r, r.rentalPropertyId) === propertyId),
+    subscriptions: data.subscriptions.filter((s) => resolveProperty(s, s.rentalPropertyId) === propertyId),
+    maintenanceRequests: data.maintenanceRequests.filter((m) => resolveProperty(m, m.rentalPropertyId) === propertyId),
+    expenses: data.expenses.filter((x) => x.rentalPropertyId === propertyId),
+  };
+}
+
+function propertyNames(data: OwnerReportData): Map<string, string> {
+  const names = new Map(data.properties.map((p) => [p.id, p.name] as [string, string]));
+  names.set(UNASSIGNED, 'No property');
+  return names;
+}
+
+/**
+ * One row per unit with the lease in effect on `asOf`. Vacant units show their
+ * asking rent, which stays out of the scheduled rent total.
+ */
+export function buildRentRoll(data: OwnerReportData, asOf: string): OwnerReport {
+  const inEffect = (t: Tenancy) =>
+    t.status !== 'canceled' &&
+    t.startDate <= asOf &&
+    (!t.endDate || t.endDate >= asOf) &&
+    !(t.status === 'ended' && t.endedAt && toDay(t.endedAt) <= asOf);
+  const autoPay = (t: Tenancy) => {
+    const subs = data.subscriptions.filter((s) => s.tenancyId === t.id);
+    if (subs.some((s) => s.status === 'active')) return 'Active';
+    if (subs.some((s) => s.status === 'paused')) return 'Paused';
+    if (subs.some((s) => s.status === 'pending_authorization')) return 'Pending';
+    return 'None';
+  };
+  const balanceOf = (t: Tenancy) =>
+    ledgerBalance(data.entries.filter((e) => e.tenancyId === t.id && entryDay(e) <= asOf));
+
+  const rows: OwnerReportRow[] = [];
+  const totals: Record<string, OwnerReportCell> = { property: 'Total', rent: 0, deposit: 0, balance: 0 };
+  let unitCount = 0;
+  let occupied = 0;
+
+  const leaseRow = (property: RentalProperty, unitLabel: string, t: Tenancy & { tenantNames: string[] }) => {
+    const cells = {
+      property: property.name,
+      unit: unitLabel,
+      tenants: t.tenantNames.join(', ') || 'Tenant',
+      lease: `${shortDate(t.startDate)} - ${t.endDate ? shortDate(t.endDate) : 'month-to-month'}`,
+      rent: t.monthlyRent,
+      deposit: t.securityDeposit,
+      autoPay: autoPay(t),
+      balance: balanceOf(t),
+    };
+    sumInto(totals, cells, ['rent', 'deposit', 'balance']);
+    rows.push({ cells });
+  };
+
+  const properties = [...data.properties].sort((a, b) => a.name.localeCompare(b.name));
+  for (const property of properties) {
+    const units = data.units
+      .filter((u) => u.propertyId === property.id)
+      .sort((a, b) => a.unitLabel.localeCompare(b.unitLabel, undefined, { numeric: true }));
+    const leases = data.tenancies
+      .filter((t) => t.rentalPropertyId === property.id && inEffect(t))
+      .sort((a, b) => b.startDate.localeCompare(a.startDate));
+
+    for (const unit of units) {
+      unitCount++;
+      const lease = leases.find((t) => t.rentalUnitId === unit.id);
+      if (lease) {
+        occupied++;
+        leaseRow(property, unit.unitLabel, lease);
+        continue;
+      }
+      const next = data.tenancies
+        .filter((t) => t.rentalUnitId === unit.id && t.status !== 'canceled' && t.startDate > asOf)
+        .sort((a, b) => a.startDate.localeCompare(b.startDate))[0];
+      rows.push({
+        cells: {
+          property: property.name,
+          unit: unit.unitLabel,
+          tenants: next ? `Vacant - leased from ${shortDate(next.startDate)}` : 'Vacant',
+          lease: '',
+          rent: unit.rentAmount ?? null,
+          deposit: null,
+          autoPay: '',
+          balance: null,
+        },
+      });
+    }
+    // Leases on the property that aren't tied to a unit
+    for (const lease of leases.filter((t) => !t.rentalUnitId || !units.some((u) => u.id === t.rentalUnitId))) {
+      leaseRow(property, '-', lease);
+    }
+  }
+
+  return {
+    kind: 'rent-roll',
+    title: 'Rent Roll',
+    period: `As of ${formatDate(asOf)}`,
+    columns: [
+      { key: 'property', title: 'Property', width: 88 },
+      { key: 'unit', title: 'Unit', width: 44 },
+      { key: 'tenants', title: 'Tenants', width: 96 },
+      { key: 'lease', title: 'Lease', width: 90 },
+      { key: 'rent', title: 'Rent', money: true, width: 54 },
+      { key: 'deposit', title: 'Deposit', money: true, width: 52 },
+      { key: 'autoPay', title: 'Auto-pay', width: 38 },
+      { key: 'balance', title: 'Balance', money: true, width: 50 },
+    ],
+    rows,
+    totals,
+    notes: [
+      `${occupied} of ${unitCount} unit${unitCount === 1 ? '' : 's'} occupied.`,
+      'Rent on vacant units is the asking rent and is not included in the total.',
+      'Balance is the lease ledger balance on the report date; amounts in parentheses are credits.',
+    ],
+  };
+}
+
+interface AgingAccount {
+  tenant: string;
+  propertyId: string;
+  unitLabel: string | null;
+  entries: RentLedgerEntry[];
+  tenancyId: string | null;
+  requests: RentPaymentRequest[];
+}
+
+/**
+ * Open charges by account, aged from their effective date. Payments are
+ * applied the way the ledger allocates them, so a partial payment clears the
+ * oldest charges first. Online rent requests that haven't reached the ledger
+ * (nothing paid yet) are aged from their due date.
+ */
+export function buildDelinquencyAging(data: OwnerReportData, asOf: string): OwnerReport {
+  const resolveProperty = propertyResolver(data);
+  const names = propertyNames(data);
+  const tenancies = new Map(data.tenancies.map((t) => [t.id, t] as [string, OwnerReportData['tenancies'][number]]));
+  const unitLabels = new Map(data.units.map((u) => [u.id, u.unitLabel] as [string, string]));
+
+  // Accounts follow the ledger: the lease when there is one, otherwise the
+  // tenant name on the property.
+  const accounts = new Map<string, AgingAccount>();
+  const accountFor = (row: { tenancyId: string | null; tenantName: string }, direct: string | null): AgingAccount => {
+    const tenancy = row.tenancyId ? tenancies.get(row.tenancyId) : undefined;
+    const propertyId = resolveProperty(row, direct);
+    const key = tenancy ? `lease:${tenancy.id}` : `tenant:${propertyId}:${row.tenantName.trim().toLowerCase()}`;
+    let account = accounts.get(key);
+    if (!account) {
+      account = {
+        tenant: tenancy?.tenantNames.join(', ') || row.tenantName,
+        propertyId,
+        unitLabel: tenancy?.rentalUnitId ? unitLabels.get(tenancy.rentalUnitId) || null : null,
+        entries: [],
+        tenancyId: tenancy?.id || null,
+        requests: [],
+      };
+      accounts.set(key, account);
+    }
+    return account;
+  };
+
+  data.entries
+    .filter((e) => entryDay(e) <= asOf)
+    .forEach((e) => accountFor(e, e.propertyId).entries.push(e));
+  data.paymentRequests
+    .filter((r) =>
+      r.requestType === 'rent' &&
+      !r.ledgerEntryId &&
+      !['paid', 'canceled', 'processing'].includes(r.status) &&
+      r.dueDate <= asOf)
+    .forEach((r) => accountFor(r, r.rentalPropertyId).requests.push(r));
+
+  const bucketKeys = AGING_BUCKETS.map((b) => b.key);
+  const rows: OwnerReportRow[] = [];
+  const totals: Record<string, OwnerReportCell> = { tenant: 'Total' };
+
+  accounts.forEach((account) => {
+    const ids = new Set(account.entries.map((e) => e.id));
+    const stored = account.tenancyId
+      ? data.allocations.filter((a) =>
+        a.tenancyId === account.tenancyId && !a.releasedAt && ids.has(a.creditEntryId) && ids.has(a.debitEntryId))
+      : [];
+    const planned = planAllocations(account.entries, stored);
+    const { openDebits, unappliedCredits } = ledgerPositions(account.entries, [...stored, ...planned]);
+    const byId = new Map(account.entries.map((e) => [e.id, e] as [string, RentLedgerEntry]));
+
+    const cells: Record<string, OwnerReportCell> = {
+      tenant: account.tenant,
+      property: [names.get(account.propertyId) || 'Property', account.unitLabel].filter(Boolean).join(' - '),
+    };
+    bucketKeys.forEach((key) => { cells[key] = 0; });
+    let open = 0;
+    const age = (amount: number, day: string) => {
+      const key = agingBucket(Math.max(0, daysBetween(day, asOf)));
+      cells[key] = (cells[key] as number) + amount;
+      open += amount;
+    };
+    openDebits.forEach((amount, id) => {
+      if (amount > 0) age(amount, entryDay(byId.get(id)!));
+    });
+    // Late fees on a request are already ledger charges, so only the rent
+    // still owed is aged here.
+    account.requests.forEach((r) => {
+      const owed = r.amount - r.lateFeeAssessedAmount - r.amountPaid;
+      if (owed > 0) age(owed, r.dueDate);
+    });
+    if (open <= 0) return;
+
+    let credit = 0;
+    unappliedCredits.forEach((amount) => { credit += Math.max(0, amount); });
+    const lastPayment = account.entries
+      .filter((e) => e.type !== 'reversal' && e.type !== 'nsf_return' && (e.amountReceived || 0) > 0)
+      .map((e) => toDay(e.paymentDate || e.effectiveDate || e.createdAt))
+      .sort()
+      .pop();
+    cells.credit = credit;
+    cells.balance = open - credit;
+    cells.lastPayment = lastPayment ? shortDate(lastPayment) : 'None';
+    sumInto(totals, cells, [...bucketKeys, 'credit', 'balance']);
+    rows.push({ cells });
+  });
+  rows.sort((a, b) => (b.cells.balance as number) - (a.cells.balance as number));
+
+  return {
+    kind: 'delinquency',
+    title: 'Delinquency Aging',
+    period: `As of ${formatDate(asOf)}`,
+    columns: [
+      { key: 'tenant', title: 'Tenant', width: 84 },
+      { key: 'property', title: 'Property', width: 84 },
+      ...AGING_BUCKETS.map((b) => ({ key: b.key, title: b.label, money: true, width: 48 })),
+      { key: 'credit', title: 'Credit', money: true, width: 46 },
+      { key: 'balance', title: 'Balance', money: true, width: 52 },
+      { key: 'lastPayment', title: 'Last paid', width: 54 },
+    ],
+    rows,
+    totals: rows.length > 0 ? totals : null,
+    notes: [
+      'Ages are days past the charge date (the due date for online rent requests).',
+      'Credit is payments not yet applied to a charge; Balance is what remains after applying it.',
+    ],
+  };
+}
+
+/** One cash-basis money movement on a property, for reports and Schedule E. */
+export interface MoneyLine {
+  propertyId: string;
+  date: string; // YYYY-MM-DD
+  key: 'rentIncome' | 'otherIncome' | 'paymentFees' | 'repairs' | 'otherExpenses';
+  scheduleELine: number;
+  amount: number; // cents; income positive, expenses positive
+  detail: string;
+  expenseId: string | null; // recorded property expense, if that's the source
+}
+
+const INCOME_KEYS = ['rentIncome', 'otherIncome'] as const;
+const EXPENSE_KEYS = ['paymentFees', 'repairs', 'otherExpenses'] as const;
+const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+/**
+ * Cash-basis income and expenses for a calendar year. Income is money
+ * received on the ledger; a reversed or returned payment comes off when the
+ * correction was posted. Expenses are recorded property expenses, fees on
+ * online payments, and completed work orders no expense has been recorded for.
+ */
+export function cashBasisLines(data: OwnerReportData, year: number): MoneyLine[] {
+  const resolveProperty = propertyResolver(data);
+  const byId = new Map(data.entries.map((e) => [e.id, e] as [string, RentLedgerEntry]));
+  const lines: MoneyLine[] = [];
+  const push = (line: Omit<MoneyLine, 'date' | 'expenseId'> & { when: Date | string; expenseId?: string }) => {
+    const date = typeof line.when === 'string' ? line.when : toDay(line.when);
+    if (line.amount === 0 || Number(date.slice(0, 4)) !== year) return;
+    const { when, ...rest } = line;
+    lines.push({ ...rest, date, expenseId: line.expenseId || null });
+  };
+  const incomeKey = (category: string | null) => ((category || '').toLowerCase() === 'rent' ? 'rentIncome' : 'otherIncome');
+
+  const heldDeposit = (e: RentLedgerEntry) => e.category === HOLDING_DEPOSIT_CATEGORY;
+
+  for (const e of data.entries) {
+    const propertyId = resolveProperty(e, e.propertyId);
+    if (e.reversesEntryId) {
+      const original = byId.get(e.reversesEntryId);
+      if (!original || heldDeposit(original)) continue;
+      push({
+        propertyId, when: e.effectiveDate || e.createdAt, key: incomeKey(original.category), scheduleELine: 3,
+        amount: -(original.amountReceived || 0), detail: `${e.tenantName}: ${e.description || 'reversed payment'}`,
+      });
+    } else if (e.type !== 'adjustment' && !heldDeposit(e)) {
+      // Credit adjustments are concessions, not money received. Holding
+      // deposits are the applicant's money until applied, so not income.
+      push({
+        propertyId, when: e.paymentDate || e.effectiveDate || e.createdAt, key: incomeKey(e.category), scheduleELine: 3,
+        amount: e.amountReceived || 0, detail: `${e.tenantName}: ${e.category || 'Payment'}`,
+      });
+    }
+  }
+  for (const r of data.paymentRequests) {
+    if (!r.ledgerEntryId) continue;
+    const fees = computeRentFees({
+      rent: r.amount,
+      serviceFee: r.serviceFeeAmount,
+      serviceFeePayer: (r.serviceFeePayer as ServiceFeePayer) || 'none',
+      platformFee: r.platformFeeAmount,
+    });
+    push({
+      propertyId: resolveProperty(r, r.rentalPropertyId), when: r.paidAt || r.updatedAt, key: 'paymentFees',
+      scheduleELine: 19, amount: fees.rent - fees.landlordNet, detail: `Online payment fees: ${r.tenantName}`,
+    });
+  }
+  const expensedWorkOrders = new Set(data.expenses.map((x) => x.maintenanceRequestId).filter(Boolean));
+  for (const m of data.maintenanceRequests) {
+    if (m.status !== 'completed' || !m.actualCost || expensedWorkOrders.has(m.id)) continue;
+    push({
+      propertyId: resolveProperty(m, m.rentalPropertyId), when: m.completedAt || m.updatedAt, key: 'repairs',
+      scheduleELine: 14, amount: m.actualCost, detail: `Work order: ${m.title}`,
+    });
+  }
+  for (const x of data.expenses) {
+    const line = scheduleELineFor(x.category);
+    push({
+      propertyId: x.rentalPropertyId, when: x.expenseDate, key: line === 14 || line === 7 ? 'repairs' : 'otherExpenses',
+      scheduleELine: line, amount: x.amount, expenseId: x.id,
+      detail: [expenseCategoryLabel(x.category), x.payee, x.description].filter(Boolean).join(': '),
+    });
+  }
+  return lines;
+}
+
+/** Cash-basis income and expenses for a calendar year, by property and month. */
+export function buildIncomeExpense(data: OwnerReportData, year: number): OwnerReport {
+  const names = propertyNames(data);
+  const lines = cashBasisLines(data, year);
+
+  const moneyKeys = [...INCOME_KEYS, ...EXPENSE_KEYS, 'net'];
+  const withNet = (cells: Record<string, OwnerReportCell>) => {
+    const income = INCOME_KEYS.reduce((sum, k) => sum + ((cells[k] as number) || 0), 0);
+    const expenses = EXPENSE_KEYS.reduce((sum, k) => sum + ((cells[k] as number) || 0), 0);
+    cells.net = income - expenses;
+    return cells;
+  };
+
+  const rows: OwnerReportRow[] = [];
+  const totals: Record<string, OwnerReportCell> = { property: 'Total', month: String(year) };
+  const propertyIds = Array.from(new Set(lines.map((l) => l.propertyId)))
+    .sort((a, b) => (names.get(a) || '').localeCompare(names.get(b) || ''));
+  for (const propertyId of propertyIds) {
+    const name = names.get(propertyId) || 'Property';
+    const subtotal: Record<string, OwnerReportCell> = { property: `${name} total`, month: String(year) };
+    for (let month = 0; month < 12; month++) {
+      const monthLines = lines.filter((l) => l.propertyId === propertyId && Number(l.date.slice(5, 7)) === month + 1);
+      if (monthLines.length === 0) continue;
+      const cells: Record<string, OwnerReportCell> = { property: name, month: `${MONTH_NAMES[month]} ${year}` };
+      [...INCOME_KEYS, ...EXPENSE_KEYS].forEach((k) => { cells[k] = 0; });
+      monthLines.forEach((l) => { cells[l.key] = (cells[l.key] as number) + l.amount; });
+      rows.push({ cells: withNet(cells) });
+      sumInto(subtotal, cells, moneyKeys);
+    }
+    rows.push({ cells: subtotal, subtotal: true });
+    sumInto(totals, subtotal, moneyKeys);
+  }
+
+  return {
+    kind: 'income-expense',
+    title: 'Income & Expenses',
+    period: `Tax year ${year}`,
+    columns: [
+      { key: 'property', title: 'Property', width: 92 },
+      { key: 'month', title: 'Month', width: 50 },
+      { key: 'rentIncome', title: 'Rent income', money: true, width: 62 },
+      { key: 'otherIncome', title: 'Other income', money: true, width: 62 },
+      { key: 'paymentFees', title: 'Payment fees', money: true, width: 58 },
+      { key: 'repairs', title: 'Repairs', money: true, width: 58 },
+      { key: 'otherExpenses', title: 'Other expenses', money: true, width: 62 },
+      { key: 'net', title: 'Net', money: true, width: 68 },
+    ],
+    rows,
+    totals: rows.length > 0 ? totals : null,
+    notes: [
+      'Cash basis: income is counted when received. Reversed and returned payments are subtracted in the month the correction was posted.',
+      'Other income includes late fees, utilities and security deposits applied to damages.',
+      'Payment fees are the LeaseShield platform fee and any service fee you absorbed on online payments.',
+      'Repairs are recorded repair and maintenance expenses, plus completed maintenance requests with an actual cost and no recorded expense.',
+    ],
+  };
+}
+
+function cellText(report: OwnerReport, key: string, value: OwnerReportCell): string {
+  if (value == null) return '';
+  const column = report.columns.find((c) => c.key === key);
+  return column?.money && typeof value === 'number' ? dollars(value) : String(value);
+}
+
+export function ownerReportCsv(report: OwnerReport): string {
+  const csvCell = (key: string, value: OwnerReportCell) => {
+    const column = report.columns.find((c) => c.key === key);
+    if (value == null) return '';
+    if (typeof value === 'number') return column?.money ? csvAmount(value) : String(value);
+    return csvText(value);
+  };
+  const lines = [
+    report.columns.map((c) => csvText(c.title)).join(','),
+    ...report.rows.map((row) => report.columns.map((c) => csvCell(c.key, row.cells[c.key] ?? null)).join(',')),
+  ];
+  if (report.totals) {
+    lines.push(report.columns.map((c) => csvCell(c.key, report.totals![c.key] ?? null)).join(','));
+  }
+  return lines.join('\n');
+}
+
+function tableRow(b: PdfDocBuilder, report: OwnerReport, cells: string[], bold = false) {
+  const columns = report.columns.map((c) => ({ width: c.width, right: !!c.money }));
+  pdfTableRow(b, columns, cells, { bold, size: 8, padding: 5, gap: 3 });
+}
+
+export async function generateOwnerReportPdf(report: OwnerReport, ownerName: string): Promise<Buffer> {
+  const b = await PdfDocBuilder.create();
+  b.paragraph(report.title, { size: 18, bold: true, color: PDF_COLORS.dark });
+  b.paragraph(`${ownerName} - ${report.period}`, { size: 11, color: PDF_COLORS.gray });
+  b.rule();
+
+  tableRow(b, report, report.columns.map((c) => c.title), true);
+  b.rule(PDF_COLORS.line, 0.5);
+  if (report.rows.length === 0) {
+    b.paragraph('Nothing to report for this period.', { size: 10, color: PDF_COLORS.gray });
+  }
+  for (const row of report.rows) {
+    tableRow(b, report, report.columns.map((c) => cellText(report, c.key, row.cells[c.key] ?? null)), row.subtotal);
+    if (row.subtotal) b.rule(PDF_COLORS.line, 0.5);
+  }
+  if (report.totals) {
+    b.rule(PDF_COLORS.line, 0.5);
+    tableRow(b, report, report.columns.map((c) => cellText(report, c.key, report.totals![c.key] ?? null)), true);
+  }
+
+  if (report.notes.length > 0) {
+    b.moveDown(8);
+    report.notes.forEach((note) => b.paragraph(note, { size: 9, color: PDF_COLORS.gray, gap: 2 }));
+  }
+
+  b.footer([
+    `Prepared ${formatDate(new Date().toISOString().slice(0, 10))} from LeaseShield rent and property records. Amounts in parentheses are credits or losses.`,
+    DOCUMENT_DISCLAIMER,
+  ]);
+  return b.toBuffer();
+}
@@ -43,6 +43,19 @@ export class PdfDocBuilder {
     return b;
   }
 
+  // Open an existing PDF and start a fresh page at the end of it, so extra
+  // pages (e.g. a signature page) can be appended with the same helpers.
+  static async fromExisting(bytes: Uint8Array | Buffer): Promise<PdfDocBuilder> {
+    const b = new PdfDocBuilder();
+    b.doc = await PDFDocument.load(bytes);
+    b.font = await b.doc.embedFont(StandardFonts.Helvetica);
+    b.fontBold = await b.doc.embedFont(StandardFonts.HelveticaBold);
+    b.fontItalic = await b.doc.embedFont(StandardFonts.HelveticaOblique);
+    b.page = b.doc.addPage([b.PAGE_W, b.PAGE_H]);
+    b.y = b.PAGE_H - b.MARGIN;
+    return b;
+  }
+
   // Standard PDF fonts use WinAnsi and THROW on un-encodable characters, so
   // strip everything outside printable ASCII before any text is drawn.
   safe(str: any): string {
@@ -0,0 +1,93 @@
+import type { NoticeServiceAttempt } from '@shared/schema';
+import { SERVICE_SERVER_ROLES } from '@shared/noticeService';
+import { PdfDocBuilder, PDF_COLORS } from './pdfDocBuilder';
+
+export interface ProofOfServicePdfOptions {
+  noticeName: string;
+  stateName: string;
+  statuteCitation: string | null;
+  attempts: NoticeServiceAttempt[];
+  methodNames: Record<string, string>;
+  // Acknowledgment text the form's service rules attach to each served method.
+  methodAckText: Record<string, string | null>;
+  servedDate: string | null;
+  photoCounts: Record<string, number>;
+}
+
+function formatDate(isoDate: string | null | undefined): string {
+  if (!isoDate) return '';
+  return new Date(`${isoDate}T00:00:00Z`).toLocaleDateString('en-US', {
+    year: 'numeric', month: 'long', day: 'numeric', timeZone: 'UTC',
+  });
+}
+
+function formatTime(time: string | null): string {
+  if (!time) return '';
+  const [h, m] = time.split(':').map(Number);
+  return ` at ${h % 12 || 12}:${String(m).padStart(2, '0')} ${h < 12 ? 'AM' : 'PM'}`;
+}
+
+/**
+ * Affidavit of service for states without an official proof-of-service form
+ * configured: the server's sworn statement of how the notice was served,
+ * followed by every logged attempt.
+ */
+export async function generateProofOfServicePdf(opts: ProofOfServicePdfOptions): Promise<Buffer> {
+  const ordered = [...opts.attempts].sort((a, b) => a.attemptNumber - b.attemptNumber);
+  const served = ordered.filter((a) => a.outcome === 'served');
+  const last = served[served.length - 1];
+  const b = await PdfDocBuilder.create();
+
+  b.paragraph('Affidavit of Service', { size: 18, bold: true, center: true, color: PDF_COLORS.dark });
+  b.paragraph(`State of ${opts.stateName}`, { size: 11, center: true, color: PDF_COLORS.gray });
+  b.rule(PDF_COLORS.dark, 1.5);
+
+  b.moveDown(6);
+  if (last) {
+    const roleLabel = SERVICE_SERVER_ROLES.find((r) => r.value === last.servedByRole)?.label || last.servedByRole;
+    const methods = Array.from(new Set(served.map((a) => opts.methodNames[a.methodId] || 'service')));
+    b.paragraph(
+      `I, ${last.servedByName}, ${roleLabel.toLowerCase()}, am over the age of 18. I served the ${opts.noticeName} ` +
+      `by ${methods.join(' and ').toLowerCase()} as set out below` +
+      (opts.servedDate ? `, completing service on ${formatDate(opts.servedDate)}.` : '.'),
+    );
+  } else {
+    b.paragraph(`No completed service has been logged for the ${opts.noticeName}.`, { color: PDF_COLORS.red });
+  }
+
+  b.sectionTitle('Service Attempts');
+  for (const a of ordered) {
+    const outcome = a.outcome === 'served' ? 'Served' : 'Unsuccessful';
+    b.ensureSpace(60);
+    b.paragraph(
+      `Attempt ${a.attemptNumber}: ${opts.methodNames[a.methodId] || 'Service'} - ${outcome}`,
+      { bold: true, color: a.outcome === 'served' ? PDF_COLORS.green : PDF_COLORS.amber },
+    );
+    b.fieldGrid([
+      { label: 'Date', value: `${formatDate(a.attemptDate)}${formatTime(a.attemptTime)}` },
+      { label: 'Served By', value: a.servedByName },
+      { label: 'Address', value: a.address },
+      { label: 'Delivered To', value: a.recipientName },
+      { label: 'Photos on File', value: opts.photoCounts[a.id] ? String(opts.photoCounts[a.id]) : null },
+    ]);
+    if (a.notes) b.paragraph(a.notes, { size: 9, color: PDF_COLORS.gray });
+    const ack = a.outcome === 'served' ? opts.methodAckText[a.methodId] : null;
+    if (ack) b.paragraph(ack, { size: 9, color: PDF_COLORS.gray });
+    b.moveDown(4);
+  }
+
+  b.moveDown(12);
+  b.paragraph(
+    `I declare under penalty of perjury under the laws of the State of ${opts.stateName} that the foregoing is true and correct.`,
+  );
+  b.moveDown(24);
+  b.paragraph('___________________________          Date: ______________', { color: PDF_COLORS.gray });
+  b.paragraph(last?.servedByName || 'Signature of person who served the notice', { size: 10 });
+
+  const footerLaw = opts.statuteCitation
+    ? `Notice served under ${opts.statuteCitation}.`
+    : 'Keep this affidavit with a copy of the notice.';
+  b.footer([footerLaw, 'Some courts require this affidavit to be notarized. Check local filing requirements.']);
+
+  return b.toBuffer();
+}
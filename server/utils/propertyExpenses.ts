@@ -0,0 +1,207 @@
+import path from 'path';
+import type { Response } from 'express';
+import type { PropertyExpense } from '@shared/schema';
+import {
+  SCHEDULE_E_EXPENSE_LINES,
+  SCHEDULE_E_LINES,
+  type ScheduleEPropertyWorksheet,
+  type ScheduleEWorksheet,
+} from '@shared/propertyExpenses';
+import { storage } from '../storage';
+import { uploadPrivateBuffer, downloadPrivateBuffer, deleteApplicantObject } from '../applicantObjectStorage';
+import { cashBasisLines, type OwnerReportData } from './ownerReports';
+import { PdfDocBuilder, PDF_COLORS } from './pdfDocBuilder';
+import { DOCUMENT_DISCLAIMER } from './docxBuilder';
+import { headerFilename } from './download';
+import { csvAmount, csvText, dollars, formatDate, shortDate, tableRow, type TableColumn } from './reportFormat';
+
+const RECEIPT_FOLDER = 'expense-receipts';
+
+/** Expense as the API returns it; the storage path stays on the server. */
+export function toExpenseResponse(expense: PropertyExpense) {
+  const { receiptPath, ...rest } = expense;
+  return { ...rest, hasReceipt: !!receiptPath };
+}
+
+/** Store an uploaded receipt in private object storage, replacing any earlier one. */
+export async function saveExpenseReceipt(
+  expense: PropertyExpense,
+  file: Express.Multer.File,
+): Promise<PropertyExpense | null> {
+  const ext = path.extname(file.originalname).toLowerCase();
+  const { dbPath } = await uploadPrivateBuffer(
+    file.buffer,
+    `${RECEIPT_FOLDER}/${expense.id}`,
+    `receipt-${Date.now()}${ext}`,
+    file.mimetype,
+  );
+  const updated = await storage.updatePropertyExpense(expense.id, expense.userId, {
+    receiptPath: dbPath,
+    receiptFileName: file.originalname,
+    receiptContentType: file.mimetype,
+    receiptSizeBytes: file.size,
+  });
+  if (expense.receiptPath) await deleteApplicantObject(expense.receiptPath);
+  return updated;
+}
+
+export async function sendExpenseReceipt(res: Response, expense: PropertyExpense): Promise<void> {
+  const buffer = expense.receiptPath ? await downloadPrivateBuffer(expense.receiptPath) : null;
+  if (!buffer) {
+    res.status(404).json({ message: "Receipt not found" });
+    return;
+  }
+  res.setHeader('Content-Type', expense.receiptContentType || 'application/octet-stream');
+  res.setHeader('Content-Disposition', `inline; filename="${headerFilename(expense.receiptFileName || 'receipt')}"`);
+  res.setHeader('Cache-Control', 'private, max-age=3600');
+  res.send(buffer);
+}
+
+/**
+ * Year-end Schedule E (Part I) worksheet, one per property: rents received,
+ * expenses by line, and the expenses behind each line. Uses the same
+ * cash-basis figures as the income and expense report.
+ */
+export function buildScheduleE(data: OwnerReportData, year: number): ScheduleEWorksheet {
+  const lines = cashBasisLines(data, year);
+  const receipts = new Map(data.expenses.map((x) => [x.id, !!x.receiptPath] as [string, boolean]));
+
+  const known = new Set(data.properties.map((p) => p.id));
+  const worksheet = (propertyId: string, name: string, address: string, propertyType: string | null): ScheduleEPropertyWorksheet => {
+    const own = lines.filter((l) => (known.has(l.propertyId) ? l.propertyId : '') === propertyId);
+    const amountFor = (line: number) => own.filter((l) => l.scheduleELine === line).reduce((sum, l) => sum + l.amount, 0);
+    const rents = amountFor(3);
+    const totalExpenses = SCHEDULE_E_EXPENSE_LINES.reduce((sum, line) => sum + amountFor(line), 0);
+    return {
+      propertyId,
+      name,
+      address,
+      propertyType,
+      lines: SCHEDULE_E_LINES.map((l) => ({
+        ...l,
+        amount: l.line === 20 ? totalExpenses : l.line === 21 ? rents - totalExpenses : amountFor(l.line),
+      })),
+      items: own
+        .filter((l) => l.scheduleELine !== 3)
+        .sort((a, b) => a.scheduleELine - b.scheduleELine || a.date.localeCompare(b.date))
+        .map((l) => ({
+          date: l.date,
+          line: l.scheduleELine,
+          detail: l.detail,
+          amount: l.amount,
+          hasReceipt: l.expenseId ? receipts.get(l.expenseId) ?? false : null,
+        })),
+    };
+  };
+
+  const properties = data.properties
+    .slice()
+    .sort((a, b) => a.name.localeCompare(b.name))
+    .map((p) => worksheet(
+      p.id,
+      p.name,
+      [p.address, p.city, [p.state, p.zipCode].filter(Boolean).join(' ')].filter(Boolean).join(', '),
+      p.propertyType,
+    ));
+  // Ledger rows with no property on them or their lease can't go on a
+  // property's Schedule E; list them so nothing silently drops out.
+  if (lines.some((l) => !known.has(l.propertyId))) {
+    properties.push(worksheet('', 'No property', 'Assign these to a property before filing', null));
+  }
+
+  return {
+    year,
+    properties,
+    notes: [
+      'Cash basis: rents are counted when received, and expenses on the date paid.',
+      'Depreciation (line 18) is not tracked here. Take it from Form 4562 or your depreciation schedule.',
+      'Line 19 includes LeaseShield platform and service fees on online rent payments.',
+      'Line 14 includes completed maintenance requests with an actual cost and no recorded expense.',
+    ],
+  };
+}
+
+export function scheduleECsv(worksheet: ScheduleEWorksheet): string {
+  const rows = [['Property', 'Address', 'Line', 'Description', 'Amount'].join(',')];
+  for (const p of worksheet.properties) {
+    for (const l of p.lines) {
+      rows.push([csvText(p.name), csvText(p.address), String(l.line), csvText(l.label), csvAmount(l.amount)].join(','));
+    }
+  }
+  rows.push('');
+  rows.push(['Property', 'Line', 'Date', 'Detail', 'Receipt', 'Amount'].join(','));
+  for (const p of worksheet.properties) {
+    for (const item of p.items) {
+      const receipt = item.hasReceipt == null ? '' : item.hasReceipt ? 'Yes' : 'No';
+      rows.push([csvText(p.name), String(item.line), item.date, csvText(item.detail), receipt, csvAmount(item.amount)].join(','));
+    }
+  }
+  return rows.join('\n');
+}
+
+const LINE_COLUMNS: TableColumn[] = [
+  { width: 50, right: false },
+  { width: 352, right: false },
+  { width: 110, right: true },
+];
+
+const ITEM_COLUMNS: TableColumn[] = [
+  { width: 62, right: false },
+  { width: 36, right: false },
+  { width: 284, right: false },
+  { width: 50, right: false },
+  { width: 80, right: true },
+];
+
+/** One page (or more) per property, laid out in Schedule E line order. */
+export async function generateScheduleEPdf(worksheet: ScheduleEWorksheet, ownerName: string): Promise<Buffer> {
+  const b = await PdfDocBuilder.create();
+  if (worksheet.properties.length === 0) {
+    b.paragraph(`Schedule E Worksheet - Tax Year ${worksheet.year}`, { size: 18, bold: true, color: PDF_COLORS.dark });
+    b.paragraph('No rental properties to report.', { size: 10, color: PDF_COLORS.gray });
+  }
+  worksheet.properties.forEach((p, index) => {
+    if (index > 0) b.newPage();
+    b.paragraph(`Schedule E Worksheet - Tax Year ${worksheet.year}`, { size: 18, bold: true, color: PDF_COLORS.dark });
+    b.paragraph(ownerName, { size: 11, color: PDF_COLORS.gray });
+    b.rule();
+
+    b.sectionTitle('Property');
+    b.fieldGrid([
+      { label: 'Name', value: p.name },
+      { label: 'Address', value: p.address },
+      { label: 'Type', value: p.propertyType },
+    ]);
+
+    b.sectionTitle('Part I - Income or Loss');
+    tableRow(b, LINE_COLUMNS, ['Line', 'Description', 'Amount'], { bold: true });
+    b.rule(PDF_COLORS.line, 0.5);
+    for (const l of p.lines) {
+      const total = l.line === 3 || l.line >= 20;
+      if (l.line === 20) b.rule(PDF_COLORS.line, 0.5);
+      tableRow(b, LINE_COLUMNS, [String(l.line), l.label, dollars(l.amount)], { bold: total });
+    }
+
+    b.sectionTitle('Expense Detail');
+    if (p.items.length === 0) {
+      b.paragraph('No expenses recorded for this year.', { size: 10, color: PDF_COLORS.gray });
+    } else {
+      tableRow(b, ITEM_COLUMNS, ['Date', 'Line', 'Detail', 'Receipt', 'Amount'], { bold: true });
+      b.rule(PDF_COLORS.line, 0.5);
+      for (const item of p.items) {
+        const receipt = item.hasReceipt == null ? '' : item.hasReceipt ? 'Yes' : 'No';
+        tableRow(b, ITEM_COLUMNS, [shortDate(item.date), String(item.line), item.detail, receipt, dollars(item.amount)]);
+      }
+    }
+  });
+
+  if (worksheet.notes.length > 0) {
+    b.moveDown(8);
+    worksheet.notes.forEach((note) => b.paragraph(note, { size: 9, color: PDF_COLORS.gray, gap: 2 }));
+  }
+  b.footer([
+    `Prepared ${formatDate(new Date().toISOString().slice(0, 10))} from LeaseShield rent and expense records. This worksheet is not a tax return; review it with your tax preparer.`,
+    DOCUMENT_DISCLAIMER,
+  ]);
+  return b.toBuffer();
+}
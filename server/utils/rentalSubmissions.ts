@@ -0,0 +1,49 @@
+import type { RentalProperty, RentalSubmission, RentalUnit } from '@shared/schema';
+import { storage } from '../storage';
+
+/**
+ * A submission together with the unit and property its application link
+ * belongs to, or null when the property isn't the user's.
+ */
+export async function getOwnedSubmission(
+  submissionId: string,
+  userId: string,
+): Promise<{ submission: RentalSubmission; unit: RentalUnit; property: RentalProperty } | null> {
+  const submission = await storage.getRentalSubmission(submissionId);
+  const appLink = submission?.applicationLinkId ? await storage.getRentalApplicationLink(submission.applicationLinkId) : null;
+  const unit = appLink ? await storage.getRentalUnit(appLink.unitId) : null;
+  const property = unit ? await storage.getRentalProperty(unit.propertyId, userId) : null;
+  if (!submission || !unit || !property) return null;
+  return { submission, unit, property };
+}
+
+// "Maple Court - Unit 4B", or the property name for a single-unit property.
+export function unitDisplayLabel(unit: RentalUnit, property: RentalProperty): string {
+  return unit.unitLabel ? `${property.name} - Unit ${unit.unitLabel}` : property.name;
+}
+
+/**
+ * Email a submission's primary applicant. A failed send is logged, not
+ * thrown, so the caller's status change still goes through. Returns the
+ * address the notice went to, or null when none was sent.
+ */
+export async function notifyPrimaryApplicant(
+  submissionId: string,
+  send: (applicant: { email: string; firstName?: string; lastName?: string }) => Promise<unknown>,
+  failureMessage: string,
+): Promise<string | null> {
+  try {
+    const people = await storage.getRentalSubmissionPeople(submissionId);
+    const primaryApplicant = people.find((p) => p.role === 'applicant');
+    if (!primaryApplicant?.email) return null;
+    await send({
+      email: primaryApplicant.email,
+      firstName: primaryApplicant.firstName || undefined,
+      lastName: primaryApplicant.lastName || undefined,
+    });
+    return primaryApplicant.email;
+  } catch (emailError) {
+    console.error(failureMessage, emailError);
+    return null;
+  }
+}
@@ -0,0 +1,72 @@
+import { PdfDocBuilder, PDF_COLORS } from './pdfDocBuilder';
+
+// Formatting shared by the owner reports and the Schedule E worksheet: CSV
+// cells, money and dates, and the PDF table row.
+
+/**
+ * A text value as a CSV cell. Cells a spreadsheet would read as a formula
+ * (=, +, -, @, or a leading tab/CR) get a leading apostrophe, so a tenant
+ * name or payee like "=HYPERLINK(...)" stays text when the file is opened.
+ */
+export function csvText(value: string): string {
+  const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+/** Cents as a plain number cell ("-12.50") so spreadsheets can total it. */
+export function csvAmount(cents: number): string {
+  return (cents / 100).toFixed(2);
+}
+
+/** Cents for display; negatives in parentheses, as on a statement. */
+export function dollars(cents: number): string {
+  const abs = (Math.abs(cents) / 100).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+  return cents < 0 ? `($${abs})` : `$${abs}`;
+}
+
+/** YYYY-MM-DD as "January 5, 2026". */
+export function formatDate(day: string): string {
+  return new Date(`${day}T00:00:00Z`).toLocaleDateString('en-US', {
+    year: 'numeric', month: 'long', day: 'numeric', timeZone: 'UTC',
+  });
+}
+
+/** YYYY-MM-DD as "01/05/2026". */
+export function shortDate(day: string): string {
+  return new Date(`${day}T00:00:00Z`).toLocaleDateString('en-US', {
+    year: 'numeric', month: '2-digit', day: '2-digit', timeZone: 'UTC',
+  });
+}
+
+export interface TableColumn {
+  width: number;
+  right: boolean;
+}
+
+/**
+ * One row of a PDF table, each cell wrapped to its column. Starts a new page
+ * when the row won't fit.
+ */
+export function tableRow(
+  b: PdfDocBuilder,
+  columns: TableColumn[],
+  cells: string[],
+  opts: { bold?: boolean; size?: number; padding?: number; gap?: number } = {},
+) {
+  const { size = 9, padding = 6, gap = 2 } = opts;
+  const f = opts.bold ? b.fontBold : b.font;
+  const wrapped = cells.map((cell, i) => b.wrapLines(cell, f, size, columns[i].width - padding));
+  const lines = Math.max(1, ...wrapped.map((w) => w.length));
+  b.ensureSpace(lines * (size + 3) + 4);
+  let x = b.MARGIN;
+  const top = b.y;
+  wrapped.forEach((cellLines, i) => {
+    const col = columns[i];
+    cellLines.forEach((ln, li) => {
+      const drawX = col.right ? x + col.width - padding - f.widthOfTextAtSize(ln, size) : x;
+      b.page.drawText(ln, { x: drawX, y: top - size - li * (size + 3), size, font: f, color: PDF_COLORS.dark });
+    });
+    x += col.width;
+  });
+  b.y = top - lines * (size + 3) - gap;
+}
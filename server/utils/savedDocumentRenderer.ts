@@ -0,0 +1,67 @@
+import type { SavedDocument, Template } from "@shared/schema";
+
+export interface LandlordHeaderInfo {
+  businessName?: string | null;
+  phoneNumber?: string | null;
+  email?: string | null;
+  firstName?: string | null;
+  lastName?: string | null;
+}
+
+// Check if this is a lease agreement template. Route by template type first
+// (authoritative); fall back to title keywords for safety. This catches
+// lease-type templates whose titles lack "lease"/"rental agreement" (e.g.
+// "Month-to-Month Agreement (XX)"), which would otherwise fall through to the
+// generic generator and silently drop the landlord/tenant contact block.
+export function isLeaseAgreementTemplate(template: Template): boolean {
+  return (template as any).templateType === 'lease' ||
+    template.title.toLowerCase().includes('lease') ||
+    template.title.toLowerCase().includes('rental agreement');
+}
+
+/**
+ * Render a saved document to PDF or DOCX from its stored form data. Leases go
+ * through the specialized lease generator; everything else uses the generic
+ * document generator. Shared by the My Documents download and the
+ * e-signature flow so both produce identical output.
+ */
+export async function renderSavedDocument(
+  document: SavedDocument,
+  template: Template,
+  format: 'pdf' | 'docx',
+  landlordInfo?: LandlordHeaderInfo,
+): Promise<Buffer> {
+  const { generateDocument, generateDocumentDOCX } = await import("./documentGenerator");
+  const { generateLeaseAgreementDocx, generateLeaseAgreementPdf } = await import("./leaseAgreementGenerator");
+
+  const fieldValues = document.formData as Record<string, string>;
+  const version = template.version || 1;
+  const updatedAt = template.updatedAt || new Date();
+
+  if (isLeaseAgreementTemplate(template)) {
+    const leaseOptions = {
+      templateTitle: template.title,
+      stateId: template.stateId,
+      fieldValues,
+      version,
+      updatedAt,
+      landlordInfo,
+    };
+    return format === 'docx'
+      ? await generateLeaseAgreementDocx(leaseOptions)
+      : await generateLeaseAgreementPdf(leaseOptions);
+  }
+
+  const generationOptions = {
+    templateTitle: template.title,
+    templateContent: '',
+    fieldValues,
+    stateId: template.stateId,
+    version,
+    updatedAt,
+    landlordInfo,
+  };
+  return format === 'docx'
+    ? await generateDocumentDOCX(generationOptions)
+    : await generateDocument(generationOptions);
+}
@@ -0,0 +1,88 @@
+import type { RentalProperty, RentalPropertySelectionCriteria } from '@shared/schema';
+import {
+  validateSelectionCriteria,
+  type SelectionCriteria,
+  type SelectionCriteriaIssue,
+  type SelectionCriteriaRule,
+} from '@shared/selectionCriteria';
+import { storage } from '../storage';
+import { resolveJurisdictionFromLocation } from '../services/jurisdictionResolver';
+import { getOwnedSubmission } from './rentalSubmissions';
+
+/**
+ * The effective denial rule for each criteria code in a jurisdiction - the
+ * most specific one wins (city > county > state > federal).
+ */
+export async function denialRulesByCode(stateId: string, cityId?: string, countyId?: string): Promise<Record<string, SelectionCriteriaRule>> {
+  const [criteria, rules] = await Promise.all([
+    storage.getAllDenialCriteria(),
+    storage.getDenialCriteriaRulesForJurisdiction(stateId, cityId, countyId),
+  ]);
+  const specificity = (r: { cityId: string | null; countyId: string | null; stateId: string | null }) =>
+    (r.cityId ? 4 : 0) + (r.countyId ? 2 : 0) + (r.stateId ? 1 : 0);
+  const ruleMap = new Map<string, (typeof rules)[number]>();
+  for (const rule of rules) {
+    const existing = ruleMap.get(rule.criteriaId);
+    if (!existing || specificity(rule) > specificity(existing)) ruleMap.set(rule.criteriaId, rule);
+  }
+
+  const byCode: Record<string, SelectionCriteriaRule> = {};
+  for (const criterion of criteria) {
+    const rule = ruleMap.get(criterion.id);
+    if (!rule) continue;
+    byCode[criterion.code] = {
+      status: rule.status,
+      label: criterion.label,
+      explanationPlain: rule.explanationPlain,
+      requiredSteps: rule.requiredSteps,
+    };
+  }
+  return byCode;
+}
+
+// Properties without a state can't be checked; the builder tells the landlord
+// to add one.
+export async function validateCriteriaForProperty(
+  property: RentalProperty,
+  criteria: SelectionCriteria,
+): Promise<SelectionCriteriaIssue[]> {
+  if (!property.state) return [];
+  const jurisdiction = await resolveJurisdictionFromLocation(property.state, property.city || undefined);
+  const rules = await denialRulesByCode(
+    jurisdiction.stateId,
+    jurisdiction.cityId || undefined,
+    jurisdiction.countyId || undefined,
+  );
+  return validateSelectionCriteria(criteria, rules);
+}
+
+/**
+ * The criteria a submission's applicant is held to: the version they
+ * acknowledged, or the property's current version when they never saw one.
+ */
+export async function heldSelectionCriteria(
+  submissionId: string,
+  propertyId: string,
+  personId?: string,
+): Promise<{ criteria: RentalPropertySelectionCriteria | null; acknowledgedAt: Date | null }> {
+  const people = await storage.getRentalSubmissionPeople(submissionId);
+  const person = (personId && people.find((p) => p.id === personId)) || people.find((p) => p.role === 'applicant');
+  const acknowledged = person?.selectionCriteriaAckId
+    ? await storage.getSelectionCriteriaVersion(person.selectionCriteriaAckId)
+    : undefined;
+  if (acknowledged) {
+    return { criteria: acknowledged, acknowledgedAt: person?.selectionCriteriaAcknowledgedAt || null };
+  }
+  return { criteria: (await storage.getCurrentSelectionCriteria(propertyId)) || null, acknowledgedAt: null };
+}
+
+// heldSelectionCriteria for a submission the user owns; null otherwise.
+export async function selectionCriteriaForSubmission(
+  submissionId: string,
+  userId: string,
+  personId?: string,
+): Promise<{ property: RentalProperty; criteria: RentalPropertySelectionCriteria | null; acknowledgedAt: Date | null } | null> {
+  const owned = await getOwnedSubmission(submissionId, userId);
+  if (!owned) return null;
+  return { property: owned.property, ...(await heldSelectionCriteria(owned.submission.id, owned.property.id, personId)) };
+}
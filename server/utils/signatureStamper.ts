@@ -0,0 +1,117 @@
+import { createHash } from 'crypto';
+import { PdfDocBuilder, PDF_COLORS } from './pdfDocBuilder';
+import type { DocumentSigner } from '@shared/schema';
+
+// ESIGN/UETA consent shown on the signing page and snapshotted onto each
+// signer row, so later wording changes never alter what a party agreed to.
+export const ESIGN_CONSENT_TEXT =
+  'I agree to sign this document electronically. I understand that my electronic signature ' +
+  'has the same legal effect as a handwritten signature, that I may request a paper copy from ' +
+  'the sender, and that I can download a copy of the signed document once all parties have signed.';
+
+export function sha256Hex(buffer: Buffer): string {
+  return createHash('sha256').update(buffer).digest('hex');
+}
+
+function formatTimestamp(d: Date | null | undefined): string {
+  if (!d) return '';
+  return new Date(d).toLocaleString('en-US', { timeZone: 'UTC', dateStyle: 'medium', timeStyle: 'long' });
+}
+
+function decodePngDataUrl(dataUrl: string | null): Buffer | null {
+  if (!dataUrl) return null;
+  const match = dataUrl.match(/^data:image\/png;base64,([A-Za-z0-9+/=]+)$/);
+  return match ? Buffer.from(match[1], 'base64') : null;
+}
+
+/**
+ * Stamp signatures onto the unsigned PDF snapshot. Every original page gets a
+ * footer tying it to the signature request; then a signature page (one block
+ * per signer with the drawn image or typed name) and a certificate of
+ * completion page are appended. The unsigned SHA-256 is printed on the
+ * certificate; the signed SHA-256 can't be (it would change the hash) and is
+ * stored on the saved document instead.
+ */
+export async function stampSignatures(
+  unsignedPdf: Buffer,
+  opts: {
+    requestId: string;
+    documentName: string;
+    unsignedSha256: string;
+    completedAt: Date;
+    signers: DocumentSigner[];
+  },
+): Promise<Buffer> {
+  const b = await PdfDocBuilder.fromExisting(unsignedPdf);
+  const envelope = opts.requestId.slice(0, 8).toUpperCase();
+
+  // Footer on each original page (the freshly appended page is last).
+  const originalPages = b.doc.getPages().slice(0, -1);
+  originalPages.forEach((page, i) => {
+    const text = b.safe(`Electronically signed via LeaseShield - Envelope ${envelope} - Page ${i + 1} of ${originalPages.length}`);
+    page.drawText(text, { x: b.MARGIN, y: 20, size: 7, font: b.font, color: PDF_COLORS.gray });
+  });
+
+  // Signature page
+  b.title('Signature Page');
+  b.subtitle(opts.documentName);
+  b.rule();
+  for (const signer of opts.signers) {
+    b.ensureSpace(120);
+    b.h3(`${signer.name} (${signer.role})`);
+    const png = signer.signatureType === 'drawn' ? decodePngDataUrl(signer.signatureImage) : null;
+    if (png) {
+      const image = await b.doc.embedPng(png);
+      const scaled = image.scaleToFit(220, 60);
+      b.moveDown(scaled.height + 6);
+      b.page.drawImage(image, { x: b.MARGIN, y: b.y, width: scaled.width, height: scaled.height });
+    } else {
+      b.moveDown(30);
+      b.page.drawText(b.safe(signer.signatureText || signer.name), {
+        x: b.MARGIN, y: b.y, size: 22, font: b.fontItalic, color: PDF_COLORS.dark,
+      });
+      b.moveDown(6);
+    }
+    b.page.drawLine({
+      start: { x: b.MARGIN, y: b.y }, end: { x: b.MARGIN + 260, y: b.y }, thickness: 0.75, color: PDF_COLORS.gray,
+    });
+    b.moveDown(4);
+    b.fieldGrid([
+      { label: 'Signed', value: formatTimestamp(signer.signedAt) },
+      { label: 'Method', value: signer.signatureType === 'drawn' ? 'Drawn signature' : 'Typed signature' },
+    ]);
+  }
+
+  // Certificate of completion
+  b.newPage();
+  b.title('Certificate of Completion');
+  b.subtitle(`Envelope ${envelope}`);
+  b.rule();
+  b.fieldGrid([
+    { label: 'Document', value: opts.documentName },
+    { label: 'Completed', value: formatTimestamp(opts.completedAt) },
+  ]);
+  b.sectionTitle('Document integrity');
+  b.paragraph('SHA-256 of the document presented to all signers:', { size: 9, color: PDF_COLORS.gray });
+  b.paragraph(opts.unsignedSha256, { size: 9 });
+  b.sectionTitle('Signers');
+  for (const signer of opts.signers) {
+    b.h3(signer.name);
+    b.fieldGrid([
+      { label: 'Email', value: signer.email },
+      { label: 'Role', value: signer.role },
+      { label: 'Viewed', value: formatTimestamp(signer.viewedAt) },
+      { label: 'Signed', value: formatTimestamp(signer.signedAt) },
+      { label: 'IP address', value: signer.ipAddress },
+      { label: 'Signature', value: signer.signatureType === 'drawn' ? 'Drawn' : 'Typed' },
+    ]);
+    b.paragraph(`User agent: ${signer.userAgent || 'unknown'}`, { size: 8, color: PDF_COLORS.gray });
+  }
+  b.sectionTitle('Electronic signature consent');
+  b.paragraph(opts.signers[0]?.consentText || ESIGN_CONSENT_TEXT, { size: 9 });
+  b.footer([
+    'All timestamps are UTC. The SHA-256 of this final signed PDF is recorded with the document in LeaseShield.',
+  ]);
+
+  return b.toBuffer();
+}
@@ -0,0 +1,40 @@
+import type { TeamArea } from '@shared/organizations';
+
+// Which team area each authenticated /api route belongs to. First match
+// wins, so the narrower rules sit above the general ones. `null` marks a
+// route only the account owner may use. Kept free of storage imports so the
+// route check in tests/ can load it without a database.
+const TEAM_ROUTE_AREAS: Array<{ pattern: RegExp; area: TeamArea | null }> = [
+  { pattern: /^\/api\/organization(\/|$)/, area: 'team' },
+  { pattern: /^\/api\/(create-setup-intent|complete-subscription|create-subscription|confirm-payment|sync-subscription|cancel-subscription|cancel-incomplete-subscription|create-portal-session)(\/|$)/, area: 'billing' },
+  { pattern: /^\/api\/(user|messages)(\/|$)/, area: 'account' },
+  { pattern: /^\/api\/(rent-ledger|rent-payments|rent-subscriptions|deposits|stripe-connect|owner-reports|property-expenses)(\/|$)/, area: 'ledger' },
+  { pattern: /^\/api\/tenancies\/[^/]+\/(deposits|deposit-rules)(\/|$)/, area: 'ledger' },
+  { pattern: /^\/api\/(rental\/(properties|units|links)|properties|tenancies|maintenance-requests|vendors)(\/|$)/, area: 'properties' },
+  { pattern: /^\/api\/(rental|denial-decision|screening-credentials|screening-providers|screening-feedback|training-interest)(\/|$)/, area: 'applications' },
+  // Landlord-owned reupload links live under /api/admin for historical reasons
+  { pattern: /^\/api\/admin\/(people\/[^/]+\/reupload-(link|tokens)|reupload-tokens\/[^/]+\/revoke)$/, area: 'applications' },
+  { pattern: /^\/api\/(saved-documents|uploaded-documents|documents|generated-notices|eviction-cases|signature-requests)(\/|$)/, area: 'documents' },
+  { pattern: /^\/api\/notice-forms\/[^/]+\/generate/, area: 'documents' },
+  // Template restore is an admin edit to the shared library
+  { pattern: /^\/api\/templates\/[^/]+\/restore-version\//, area: null },
+  // Compliance content and per-login chrome. The dashboard trims its
+  // sections to the member's areas itself.
+  { pattern: /^\/api\/(templates|communications|compliance-cards|case-law|legal-updates|state-notes|explain-credit-term|explain-criminal-eviction-term|notifications|dashboard|analytics)(\/|$)/, area: 'general' },
+  { pattern: /^\/api\/admin\/(impersonation-status|stop-impersonating)$/, area: 'general' },
+  { pattern: /^\/api\/(admin|tenant-portal)(\/|$)/, area: null },
+];
+
+/** True when some rule covers the path, owner-only rules included. */
+export function hasTeamRouteRule(path: string): boolean {
+  return TEAM_ROUTE_AREAS.some((r) => r.pattern.test(path));
+}
+
+/**
+ * The area a team member needs for a path, or null when only the owner may
+ * use it. Unmapped paths are owner-only, so a new route stays closed to
+ * members until it is added above.
+ */
+export function teamAreaForPath(path: string): TeamArea | null {
+  return TEAM_ROUTE_AREAS.find((r) => r.pattern.test(path))?.area ?? null;
+}
@@ -70,6 +70,31 @@ export function isValidEmail(email: string): boolean {
   return emailRegex.test(email);
 }
 
+/**
+ * Validate a date string from a request body (YYYY-MM-DD or ISO timestamp)
+ */
+export function isValidDate(value: unknown): value is string {
+  return typeof value === 'string' && !!value && !isNaN(new Date(value).getTime());
+}
+
+/**
+ * Today's date in UTC as YYYY-MM-DD
+ */
+export function today(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+/**
+ * Parse a dollar amount from a request body into integer cents. Returns
+ * undefined when the field is absent and null when it's present but invalid.
+ */
+export function parseDollarsToCents(value: unknown): number | null | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  const parsed = parseFloat(String(value));
+  if (!Number.isFinite(parsed) || parsed < 0) return null;
+  return Math.round(parsed * 100);
+}
+
 /**
  * Rate limiting helper
  */
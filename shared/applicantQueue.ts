@@ -0,0 +1,57 @@
+// Per-unit applicant queue: every completed submission for a unit, across all
+// of its application links, in the order the applications were completed.
+// Some cities (Seattle's first-in-time rule, for one) require landlords to
+// process applications in that order.
+
+export const APPLICANT_QUEUE_POLICIES = [
+  {
+    value: 'landlord_choice',
+    label: 'Landlord review order',
+    description: 'Decide applications in any order. The queue is still recorded.',
+  },
+  {
+    value: 'first_in_time',
+    label: 'First in time',
+    description: 'Each application must be decided before any application completed after it.',
+  },
+] as const;
+
+export type ApplicantQueuePolicy = (typeof APPLICANT_QUEUE_POLICIES)[number]['value'];
+
+export interface QueueSubmission {
+  id: string;
+  submittedAt: Date | string | null;
+  createdAt: Date | string;
+}
+
+const time = (value: Date | string) => new Date(value).getTime();
+
+/**
+ * Completed submissions, earliest first. Ties on the completion timestamp fall
+ * back to when the application was started, then to id so the order never
+ * changes between requests.
+ */
+export function orderApplicantQueue<T extends QueueSubmission>(submissions: T[]): T[] {
+  return submissions
+    .filter((s) => s.submittedAt)
+    .sort((a, b) =>
+      time(a.submittedAt!) - time(b.submittedAt!) ||
+      time(a.createdAt) - time(b.createdAt) ||
+      a.id.localeCompare(b.id),
+    );
+}
+
+/**
+ * Ids of the submissions ahead of this one that haven't been decided. Under a
+ * first-in-time policy these have to be decided first. Returns an empty list
+ * for submissions that aren't in the queue.
+ */
+export function undecidedAhead<T extends QueueSubmission>(
+  queue: T[],
+  submissionId: string,
+  isDecided: (submission: T) => boolean,
+): string[] {
+  const index = queue.findIndex((s) => s.id === submissionId);
+  if (index < 0) return [];
+  return queue.slice(0, index).filter((s) => !isDecided(s)).map((s) => s.id);
+}
@@ -0,0 +1,38 @@
+// Approval hold: after an approval the applicant has until a deadline (the
+// property's lease-signing window) to sign the lease and pay the holding
+// deposit, if the landlord asked for one. Otherwise the approval expires and
+// the unit goes back on the market.
+
+export type ApprovalHoldStatus = 'none' | 'pending' | 'completed' | 'expired';
+
+export interface ApprovalHoldFields {
+  leaseSignDeadlineAt: Date | string | null;
+  holdCompletedAt: Date | string | null;
+  holdExpiredAt: Date | string | null;
+}
+
+export function approvalHoldStatus(decision: ApprovalHoldFields): ApprovalHoldStatus {
+  if (!decision.leaseSignDeadlineAt) return 'none';
+  if (decision.holdExpiredAt) return 'expired';
+  if (decision.holdCompletedAt) return 'completed';
+  return 'pending';
+}
+
+// A hold is met once the lease is signed and any requested deposit is paid.
+export function approvalHoldMet(leaseSigned: boolean, depositStatus: string | null): boolean {
+  return leaseSigned && (depositStatus === null || depositStatus === 'paid');
+}
+
+export function leaseSignDeadline(approvedAt: Date, hours: number): Date {
+  return new Date(approvedAt.getTime() + hours * 60 * 60 * 1000);
+}
+
+// "2d 5h left", "3h 20m left", or "Deadline passed"
+export function formatTimeRemaining(deadline: Date | string, now: Date = new Date()): string {
+  const minutes = Math.floor((new Date(deadline).getTime() - now.getTime()) / 60000);
+  if (minutes <= 0) return 'Deadline passed';
+  const days = Math.floor(minutes / 1440);
+  const hours = Math.floor((minutes % 1440) / 60);
+  if (days > 0) return `${days}d ${hours}h left`;
+  return `${hours}h ${minutes % 60}m left`;
+}
@@ -4,6 +4,7 @@ export const CLAUSE_KEYS = {
   LATE_FEE_GRACE_DAYS: 'late_fee_grace_days',
   DEPOSIT_CAP_MONTHS: 'deposit_cap_months',
   DEPOSIT_RETURN_DAYS: 'deposit_return_days',
+  DEPOSIT_INTEREST_RATE_PCT: 'deposit_interest_rate_pct',
   NOTICE_TO_ENTER_HOURS: 'notice_to_enter_hours',
   NOTICE_TERMINATE_MTM_DAYS: 'notice_terminate_mtm_days',
   NOTICE_RENT_INCREASE_DAYS: 'notice_rent_increase_days',
@@ -17,6 +18,7 @@ export type ClauseUnit =
   | 'usd'
   | 'days'
   | 'months_rent'
+  | 'percent_per_year'
   | 'hours';
 
 export interface ClauseDefinition {
@@ -63,6 +65,13 @@ export const CLAUSE_DEFINITIONS: ClauseDefinition[] = [
     unit: 'days',
     helpText: 'Maximum number of days after move-out by which the deposit (less lawful deductions) must be returned.',
   },
+  {
+    key: CLAUSE_KEYS.DEPOSIT_INTEREST_RATE_PCT,
+    label: 'Security deposit interest (% per year)',
+    category: 'deposits',
+    unit: 'percent_per_year',
+    helpText: 'Annual interest the landlord must pay on a held deposit. Leave blank if the state does not require interest.',
+  },
   {
     key: CLAUSE_KEYS.NOTICE_TO_ENTER_HOURS,
     label: 'Notice to enter (hours)',
@@ -96,6 +105,7 @@ export const CLAUSE_BOUNDS: Record<ClauseKey, { min: number; max: number }> = {
   [CLAUSE_KEYS.LATE_FEE_GRACE_DAYS]: { min: 0, max: 365 },
   [CLAUSE_KEYS.DEPOSIT_CAP_MONTHS]: { min: 0, max: 12 },
   [CLAUSE_KEYS.DEPOSIT_RETURN_DAYS]: { min: 0, max: 365 },
+  [CLAUSE_KEYS.DEPOSIT_INTEREST_RATE_PCT]: { min: 0, max: 25 },
   [CLAUSE_KEYS.NOTICE_TO_ENTER_HOURS]: { min: 0, max: 168 },
   [CLAUSE_KEYS.NOTICE_TERMINATE_MTM_DAYS]: { min: 0, max: 365 },
   [CLAUSE_KEYS.NOTICE_RENT_INCREASE_DAYS]: { min: 0, max: 365 },
@@ -0,0 +1,47 @@
+// Eviction case timeline: the steps that follow a served notice, in order.
+// Shared so the server (planning, reminders, PDF) and the client (timeline
+// view) agree on step keys and labels.
+
+export const EVICTION_STEPS = [
+  { key: 'notice_served', label: 'Notice served', actualLabel: 'Served on' },
+  { key: 'cure_period_ends', label: 'Notice period ends', actualLabel: 'Ended on' },
+  { key: 'filing', label: 'File eviction complaint', actualLabel: 'Filed on' },
+  { key: 'answer_deadline', label: 'Tenant answer deadline', actualLabel: 'Set for' },
+  { key: 'hearing', label: 'Court hearing', actualLabel: 'Scheduled for' },
+  { key: 'judgment', label: 'Judgment', actualLabel: 'Entered on' },
+  { key: 'writ', label: 'Writ of possession', actualLabel: 'Issued on' },
+] as const;
+export type EvictionStepKey = typeof EVICTION_STEPS[number]['key'];
+
+// Court steps configured per state in eviction_timeline_rules, and the step
+// each one is counted from.
+export const EVICTION_COURT_STEPS = [
+  { key: 'answer_deadline', anchor: 'filing' },
+  { key: 'hearing', anchor: 'filing' },
+  { key: 'judgment', anchor: 'hearing' },
+  { key: 'writ', anchor: 'judgment' },
+] as const;
+export type EvictionCourtStepKey = typeof EVICTION_COURT_STEPS[number]['key'];
+
+/**
+ * Typical timing used when a state has no rule configured for a court step.
+ * Steps planned from these are flagged as estimates - the court's own
+ * summons and hearing notice control.
+ */
+export const DEFAULT_EVICTION_COURT_STEP_DAYS: Record<EvictionCourtStepKey, number> = {
+  answer_deadline: 10,
+  hearing: 14,
+  judgment: 0,
+  writ: 7,
+};
+
+// Landlords are reminded this many days before a step's planned date.
+export const EVICTION_REMINDER_LEAD_DAYS = 2;
+
+export function isEvictionStepKey(value: unknown): value is EvictionStepKey {
+  return EVICTION_STEPS.some((s) => s.key === value);
+}
+
+export function isEvictionCourtStepKey(value: unknown): value is EvictionCourtStepKey {
+  return EVICTION_COURT_STEPS.some((s) => s.key === value);
+}
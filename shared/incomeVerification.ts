@@ -0,0 +1,72 @@
+// Household income check for a rental application: every person's income
+// sources (applicant, co-applicants and guarantors) converted to a monthly
+// gross and compared to rent times the property's published income multiple.
+
+export const PAY_FREQUENCIES = [
+  { value: 'weekly', label: 'Weekly', periodsPerYear: 52 },
+  { value: 'biweekly', label: 'Every two weeks', periodsPerYear: 26 },
+  { value: 'semimonthly', label: 'Twice a month', periodsPerYear: 24 },
+  { value: 'monthly', label: 'Monthly', periodsPerYear: 12 },
+  { value: 'annual', label: 'Annually', periodsPerYear: 1 },
+] as const;
+
+export type PayFrequency = (typeof PAY_FREQUENCIES)[number]['value'];
+
+export const INCOME_SOURCE_TYPES = [
+  { value: 'employment', label: 'Employment' },
+  { value: 'self_employment', label: 'Self-employment' },
+  { value: 'benefits', label: 'Benefits or assistance' },
+  { value: 'other', label: 'Other' },
+] as const;
+
+// Uploaded file types that can back an income source.
+export const INCOME_DOCUMENT_FILE_TYPES = ['paystub', 'w2', 'employment_letter', 'bank', 'income'];
+
+export function monthlyIncomeCents(grossAmountCents: number, payFrequency: string): number {
+  const frequency = PAY_FREQUENCIES.find((f) => f.value === payFrequency);
+  if (!frequency) return 0;
+  return Math.round((grossAmountCents * frequency.periodsPerYear) / 12);
+}
+
+export interface HouseholdIncome {
+  monthlyTotalCents: number;
+  byPersonCents: Record<string, number>;
+  requiredMonthlyCents: number | null;
+  meetsRequirement: boolean | null;
+}
+
+/**
+ * Sum every source to a monthly household total. Without a rent amount or an
+ * income multiple there's nothing to compare, so meetsRequirement is null.
+ */
+export function householdIncome(
+  sources: Array<{ personId: string; grossAmountCents: number; payFrequency: string }>,
+  rentCents: number | null,
+  incomeMultiple: number | null | undefined,
+): HouseholdIncome {
+  const byPersonCents: Record<string, number> = {};
+  let monthlyTotalCents = 0;
+  for (const source of sources) {
+    const monthly = monthlyIncomeCents(source.grossAmountCents, source.payFrequency);
+    byPersonCents[source.personId] = (byPersonCents[source.personId] || 0) + monthly;
+    monthlyTotalCents += monthly;
+  }
+
+  const requiredMonthlyCents = rentCents && incomeMultiple ? Math.round(rentCents * incomeMultiple) : null;
+  return {
+    monthlyTotalCents,
+    byPersonCents,
+    requiredMonthlyCents,
+    meetsRequirement: requiredMonthlyCents === null ? null : monthlyTotalCents >= requiredMonthlyCents,
+  };
+}
+
+// Best-effort read of a free-text amount like "$1,500/mo" or "5000".
+export function parseIncomeText(value: string | number | null | undefined): number | null {
+  if (value === null || value === undefined || value === '') return null;
+  if (typeof value === 'number') return Number.isFinite(value) ? Math.round(value * 100) : null;
+  const match = value.replace(/,/g, '').match(/\d+(\.\d+)?/);
+  if (!match) return null;
+  const cents = Math.round(parseFloat(match[0]) * 100);
+  return cents > 0 ? cents : null;
+}
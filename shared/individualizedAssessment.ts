@@ -0,0 +1,57 @@
+// Fair-chance individualized assessment: the steps a landlord takes before a
+// criminal-history denial becomes final where local rules require it.
+
+import type { IndividualizedAssessment } from './schema';
+
+// denialCriteriaRules.requiredSteps values that call for this workflow. The
+// seed data uses both spellings.
+export const ASSESSMENT_REQUIRED_STEPS = ['individual_assessment', 'individualized_assessment', 'pre_adverse_notice'];
+
+export const FAIR_CHANCE_STEP_LABELS: Record<string, string> = {
+  individual_assessment: 'Individualized assessment',
+  individualized_assessment: 'Individualized assessment',
+  pre_adverse_notice: 'Pre-adverse action notice',
+  written_explanation: 'Written explanation of the decision',
+  conditional_offer: 'Conditional offer before the background check',
+};
+
+export function requiresIndividualizedAssessment(steps: string[] | null | undefined): boolean {
+  return !!steps?.some((s) => ASSESSMENT_REQUIRED_STEPS.includes(s));
+}
+
+// The factors fair-chance ordinances and HUD's 2016 guidance ask landlords to
+// weigh before relying on a record.
+export const MITIGATING_FACTORS = [
+  { value: 'time_elapsed', label: 'Time since the offense or release' },
+  { value: 'age_at_offense', label: 'Applicant\'s age at the time of the offense' },
+  { value: 'nature_unrelated', label: 'Offense unrelated to resident safety or property' },
+  { value: 'rehabilitation', label: 'Evidence of rehabilitation (programs, treatment, education)' },
+  { value: 'tenant_history', label: 'Good rental history since the offense' },
+  { value: 'employment', label: 'Stable employment or income' },
+  { value: 'references', label: 'References from landlords, employers or case workers' },
+  { value: 'supervision_compliance', label: 'Completed or compliant with parole/probation' },
+  { value: 'single_incident', label: 'Isolated incident, no pattern' },
+] as const;
+
+export const DEFAULT_RESPONSE_WINDOW = { days: 5, dayType: 'business' } as const;
+
+export type AssessmentStage = 'assessing' | 'awaiting_response' | 'ready_for_decision' | 'completed';
+
+/**
+ * Where an assessment stands. The final adverse action letter unlocks at
+ * ready_for_decision: the pre-adverse notice went out and the applicant has
+ * either responded or let the window close.
+ */
+export function assessmentStage(
+  a: Pick<IndividualizedAssessment, 'preAdverseNoticeSentOn' | 'responseDeadline' | 'applicantRespondedOn' | 'completedAt'>,
+  today: string,
+): AssessmentStage {
+  if (a.completedAt) return 'completed';
+  if (!a.preAdverseNoticeSentOn || !a.responseDeadline) return 'assessing';
+  if (a.applicantRespondedOn || today > a.responseDeadline) return 'ready_for_decision';
+  return 'awaiting_response';
+}
+
+export function isFinalLetterUnlocked(stage: AssessmentStage): boolean {
+  return stage === 'ready_for_decision' || stage === 'completed';
+}
@@ -0,0 +1,208 @@
+// Late-fee policies for rent payment requests and auto-pay subscriptions.
+// Pure calculation + validation so the server (scheduled job, routes) and the
+// client (form preview) agree on the numbers. All money is integer cents.
+//
+// `daysLate` is whole days past the rent due date. A fee is only owed once
+// daysLate exceeds the grace period, matching the scheduled job's selector
+// (`due_date + grace_period_days < CURRENT_DATE`).
+
+export type LateFeePolicy =
+  // One-time fee.
+  | { type: 'flat'; amountCents: number }
+  // One-time fee as a percent of the monthly rent.
+  | { type: 'percent'; percentOfRent: number }
+  // Optional initial fee on the first late day, then a per-day charge,
+  // never exceeding maxCents in total.
+  | { type: 'daily'; initialCents: number; dailyCents: number; maxCents: number }
+  // Total fee steps up as the payment gets later. Each tier is the TOTAL fee
+  // once daysLate reaches `daysLate` (not an increment).
+  | { type: 'tiered'; tiers: { daysLate: number; amountCents: number }[] };
+
+export type LateFeePolicyType = LateFeePolicy['type'];
+
+export const LATE_FEE_POLICY_TYPES: { value: LateFeePolicyType; label: string }[] = [
+  { value: 'flat', label: 'Flat fee' },
+  { value: 'percent', label: 'Percent of rent' },
+  { value: 'daily', label: 'Daily accrual (with maximum)' },
+  { value: 'tiered', label: 'Tiered by days late' },
+];
+
+// State limits resolved from state_clause_values. null means the state has
+// no value on file for that clause.
+export interface LateFeeStateLimits {
+  stateId: string;
+  capPct: number | null;
+  capFlatCents: number | null;
+  minGraceDays: number | null;
+  citations: string[];
+}
+
+const MAX_TIERS = 10;
+
+/**
+ * Normalize an untrusted policy payload. Returns the policy or an error
+ * message. Accepts dollar fields (amountDollars etc.) from forms as well as
+ * cents so the routes can pass request bodies straight through.
+ */
+export function parseLateFeePolicy(raw: any): { policy: LateFeePolicy } | { error: string } {
+  if (!raw || typeof raw !== 'object') return { error: 'Late fee policy must be an object' };
+  const cents = (centsKey: string, dollarsKey: string): number => {
+    if (raw[centsKey] !== undefined) return Math.round(Number(raw[centsKey]));
+    if (raw[dollarsKey] !== undefined) return Math.round(parseFloat(raw[dollarsKey]) * 100);
+    return NaN;
+  };
+  const nonNegative = (n: number) => Number.isFinite(n) && n >= 0;
+
+  switch (raw.type) {
+    case 'flat': {
+      const amountCents = cents('amountCents', 'amountDollars');
+      if (!nonNegative(amountCents)) return { error: 'Flat late fee must be a non-negative amount' };
+      return { policy: { type: 'flat', amountCents } };
+    }
+    case 'percent': {
+      const percentOfRent = Number(raw.percentOfRent);
+      if (!Number.isFinite(percentOfRent) || percentOfRent < 0 || percentOfRent > 100) {
+        return { error: 'Late fee percent must be between 0 and 100' };
+      }
+      return { policy: { type: 'percent', percentOfRent } };
+    }
+    case 'daily': {
+      const initialCents = raw.initialCents === undefined && raw.initialDollars === undefined
+        ? 0 : cents('initialCents', 'initialDollars');
+      const dailyCents = cents('dailyCents', 'dailyDollars');
+      const maxCents = cents('maxCents', 'maxDollars');
+      if (!nonNegative(initialCents)) return { error: 'Initial late fee must be a non-negative amount' };
+      if (!nonNegative(dailyCents)) return { error: 'Daily late fee must be a non-negative amount' };
+      if (!nonNegative(maxCents) || maxCents === 0) return { error: 'Daily late fees require a maximum total' };
+      return { policy: { type: 'daily', initialCents, dailyCents, maxCents } };
+    }
+    case 'tiered': {
+      if (!Array.isArray(raw.tiers) || raw.tiers.length === 0) return { error: 'Tiered late fees need at least one tier' };
+      if (raw.tiers.length > MAX_TIERS) return { error: `Tiered late fees support at most ${MAX_TIERS} tiers` };
+      const tiers: { daysLate: number; amountCents: number }[] = [];
+      for (const t of raw.tiers) {
+        const daysLate = parseInt(t?.daysLate, 10);
+        const amountCents = t?.amountCents !== undefined
+          ? Math.round(Number(t.amountCents))
+          : Math.round(parseFloat(t?.amountDollars) * 100);
+        if (!Number.isFinite(daysLate) || daysLate < 1) return { error: 'Each tier needs days late of at least 1' };
+        if (!nonNegative(amountCents)) return { error: 'Each tier needs a non-negative amount' };
+        tiers.push({ daysLate, amountCents });
+      }
+      tiers.sort((a, b) => a.daysLate - b.daysLate);
+      for (let i = 1; i < tiers.length; i++) {
+        if (tiers[i].daysLate === tiers[i - 1].daysLate) return { error: 'Tiers must have distinct days late' };
+        if (tiers[i].amountCents < tiers[i - 1].amountCents) {
+          return { error: 'Tier amounts are running totals and cannot decrease' };
+        }
+      }
+      return { policy: { type: 'tiered', tiers } };
+    }
+    default:
+      return { error: 'Unknown late fee policy type' };
+  }
+}
+
+// Legacy rows only have a flat lateFeeAmount; treat them as a flat policy.
+export function effectiveLateFeePolicy(row: {
+  lateFeePolicyJson?: LateFeePolicy | null;
+  lateFeeAmount: number;
+}): LateFeePolicy | null {
+  if (row.lateFeePolicyJson) return row.lateFeePolicyJson;
+  return row.lateFeeAmount > 0 ? { type: 'flat', amountCents: row.lateFeeAmount } : null;
+}
+
+// Whether the fee can keep growing after it is first posted.
+export function isAccruingPolicy(policy: LateFeePolicy | null): boolean {
+  return policy?.type === 'daily' || policy?.type === 'tiered';
+}
+
+/** Total fee owed under the policy alone (before any state cap). */
+export function computeLateFeeCents(
+  policy: LateFeePolicy,
+  opts: { rentCents: number; daysLate: number; graceDays: number },
+): number {
+  if (opts.daysLate <= opts.graceDays) return 0;
+  switch (policy.type) {
+    case 'flat':
+      return policy.amountCents;
+    case 'percent':
+      return Math.round((opts.rentCents * policy.percentOfRent) / 100);
+    case 'daily': {
+      // Day 1 past grace = initial + one day's accrual.
+      const accrualDays = opts.daysLate - opts.graceDays;
+      return Math.min(policy.maxCents, policy.initialCents + policy.dailyCents * accrualDays);
+    }
+    case 'tiered': {
+      let total = 0;
+      for (const tier of policy.tiers) {
+        if (opts.daysLate >= tier.daysLate) total = Math.max(total, tier.amountCents);
+      }
+      return total;
+    }
+  }
+}
+
+/** The most the policy could ever charge for one rent period. */
+export function maxLateFeeCents(policy: LateFeePolicy, rentCents: number): number {
+  switch (policy.type) {
+    case 'flat':
+      return policy.amountCents;
+    case 'percent':
+      return Math.round((rentCents * policy.percentOfRent) / 100);
+    case 'daily':
+      return policy.maxCents;
+    case 'tiered':
+      return policy.tiers.reduce((max, t) => Math.max(max, t.amountCents), 0);
+  }
+}
+
+/** Lowest applicable state cap in cents, or null when the state has none on file. */
+export function stateLateFeeCapCents(limits: LateFeeStateLimits | null, rentCents: number): number | null {
+  if (!limits) return null;
+  const caps: number[] = [];
+  if (limits.capPct != null) caps.push(Math.floor((rentCents * limits.capPct) / 100));
+  if (limits.capFlatCents != null) caps.push(limits.capFlatCents);
+  return caps.length > 0 ? Math.min(...caps) : null;
+}
+
+function dollars(cents: number): string {
+  return `$${(cents / 100).toFixed(2)}`;
+}
+
+/**
+ * Check a policy against the state's late-fee clauses. Returns a list of
+ * human-readable problems (empty when compliant). Citations are appended so
+ * the landlord can see where the limit comes from.
+ */
+export function validateLateFeePolicy(
+  policy: LateFeePolicy,
+  opts: { rentCents: number; graceDays: number; limits: LateFeeStateLimits | null },
+): string[] {
+  const errors: string[] = [];
+  const { limits } = opts;
+  const cite = limits && limits.citations.length > 0 ? ` (${limits.citations.join('; ')})` : '';
+
+  const cap = stateLateFeeCapCents(limits, opts.rentCents);
+  const max = maxLateFeeCents(policy, opts.rentCents);
+  if (cap != null && max > cap) {
+    errors.push(`Late fee of up to ${dollars(max)} exceeds the ${limits!.stateId} cap of ${dollars(cap)} on ${dollars(opts.rentCents)} rent${cite}.`);
+  }
+  if (limits?.minGraceDays != null && opts.graceDays < limits.minGraceDays) {
+    errors.push(`${limits.stateId} requires a grace period of at least ${limits.minGraceDays} days before a late fee${cite}.`);
+  }
+  return errors;
+}
+
+export function describeLateFeePolicy(policy: LateFeePolicy): string {
+  switch (policy.type) {
+    case 'flat':
+      return `Flat ${dollars(policy.amountCents)}`;
+    case 'percent':
+      return `${policy.percentOfRent}% of rent`;
+    case 'daily':
+      return `${policy.initialCents > 0 ? `${dollars(policy.initialCents)} + ` : ''}${dollars(policy.dailyCents)}/day, max ${dollars(policy.maxCents)}`;
+    case 'tiered':
+      return policy.tiers.map((t) => `${dollars(t.amountCents)} at ${t.daysLate}+ days`).join(', ');
+  }
+}
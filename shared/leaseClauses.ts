@@ -0,0 +1,359 @@
+// Optional and conditional lease clauses (pet addendum, smoking policy,
+// parking, HOA rules, utilities allocation, lead-paint and mold addenda).
+// Pure registry + resolution + validation so the document wizard (toggles and
+// preview) and the lease generator agree on which clauses a lease carries.
+//
+// A lease's clause choices travel in its fieldValues like any other field:
+// `leaseClauses` is a comma-separated list of clause ids and each clause's
+// parameters are plain keys (petDeposit, parkingFee, ...). Saved documents and
+// e-signature re-renders therefore reproduce the same clauses unchanged.
+
+export const LEASE_CLAUSES_FIELD = 'leaseClauses';
+export const YEAR_BUILT_FIELD = 'yearBuilt';
+
+// Residential housing built before 1978 requires the federal lead-based paint
+// disclosure (42 U.S.C. 4852d, 40 CFR 745 Subpart F).
+export const LEAD_PAINT_CUTOFF_YEAR = 1978;
+
+export type LeaseClauseParamType = 'text' | 'money' | 'number' | 'select';
+
+export interface LeaseClauseParam {
+  key: string;
+  label: string;
+  type: LeaseClauseParamType;
+  required?: boolean;
+  placeholder?: string;
+  options?: { value: string; label: string }[];
+}
+
+// Property facts that decide whether a clause is offered or mandatory.
+export interface LeaseFacts {
+  stateId: string;
+  yearBuilt: number | null;
+}
+
+export type LeaseClauseApplicability =
+  | { status: 'optional' }
+  | { status: 'required'; reason: string }
+  | { status: 'unavailable'; reason: string };
+
+type FieldValues = Record<string, string | number>;
+
+export interface LeaseClauseDefinition {
+  id: string;
+  title: string;
+  description: string;
+  params: LeaseClauseParam[];
+  applicability: (facts: LeaseFacts) => LeaseClauseApplicability;
+  render: (values: FieldValues) => string[];
+}
+
+// State cap the clause choices are checked against, resolved from
+// state_clause_values. null means the state has no cap on file.
+export interface LeaseClauseLimits {
+  stateId: string;
+  depositCapMonths: number | null;
+  depositCapCitation: string | null;
+}
+
+export interface LeaseClauseIssue {
+  clauseId: string | null;
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+export interface ResolvedLeaseClause {
+  id: string;
+  title: string;
+  number: number; // position within the additional clauses section, from 1
+  required: boolean;
+  paragraphs: string[];
+}
+
+const optional = (): LeaseClauseApplicability => ({ status: 'optional' });
+
+function text(values: FieldValues, key: string): string {
+  const value = values[key];
+  return value === undefined || value === null ? '' : String(value).trim();
+}
+
+/** Parse a money/number field ("$1,250.00", "1250"). NaN when blank or invalid. */
+export function parseClauseAmount(value: string | number | null | undefined): number {
+  if (value === undefined || value === null || value === '') return NaN;
+  if (typeof value === 'number') return value;
+  const cleaned = value.replace(/[$,\s]/g, '');
+  return cleaned === '' ? NaN : Number(cleaned);
+}
+
+function money(values: FieldValues, key: string): string | null {
+  const amount = parseClauseAmount(values[key]);
+  return Number.isFinite(amount) ? `$${amount.toFixed(2)}` : null;
+}
+
+const SMOKING_POLICIES = [
+  { value: 'prohibited', label: 'Smoke-free (no smoking anywhere on the property)' },
+  { value: 'outdoor_designated', label: 'Designated outdoor areas only' },
+  { value: 'permitted', label: 'Permitted inside the unit' },
+];
+
+export const LEASE_CLAUSE_LIBRARY: LeaseClauseDefinition[] = [
+  {
+    id: 'pets',
+    title: 'Pet Addendum',
+    description: 'Allows approved pets with a pet deposit, monthly pet rent and limits on number and type.',
+    params: [
+      { key: 'petTypes', label: 'Permitted pets', type: 'text', required: true, placeholder: 'e.g. One dog under 40 lbs' },
+      { key: 'petLimit', label: 'Maximum number of pets', type: 'number', placeholder: '1' },
+      { key: 'petDeposit', label: 'Pet deposit', type: 'money', placeholder: '0.00' },
+      { key: 'petRent', label: 'Monthly pet rent', type: 'money', placeholder: '0.00' },
+    ],
+    applicability: optional,
+    render: (values) => {
+      const limit = text(values, 'petLimit');
+      const deposit = money(values, 'petDeposit');
+      const rent = money(values, 'petRent');
+      const paragraphs = [
+        `Tenant may keep the following pet(s) at the Premises: ${text(values, 'petTypes') || '[_____________]'}${limit ? `, not to exceed ${limit} pet(s) in total` : ''}. No other animals may be kept without Landlord's prior written consent. This addendum does not limit assistance animals permitted under fair housing law, which are not pets.`,
+      ];
+      if (deposit) {
+        paragraphs.push(`Tenant shall pay a pet deposit of ${deposit}, held and returned on the same terms as the security deposit.`);
+      }
+      if (rent) {
+        paragraphs.push(`Tenant shall pay monthly pet rent of ${rent}, due with each rent payment.`);
+      }
+      paragraphs.push('Tenant is responsible for all damage, cleaning, and waste removal caused by the pet(s), shall keep pets leashed or contained in common areas, and shall comply with all licensing and vaccination requirements. Landlord may revoke consent on written notice if a pet causes damage, disturbance, or a safety hazard.');
+      return paragraphs;
+    },
+  },
+  {
+    id: 'smoking',
+    title: 'Smoking Policy',
+    description: 'States where smoking (including vaping and cannabis) is allowed on the property.',
+    params: [
+      { key: 'smokingPolicy', label: 'Policy', type: 'select', required: true, options: SMOKING_POLICIES },
+    ],
+    applicability: optional,
+    render: (values) => {
+      const policy = text(values, 'smokingPolicy');
+      const scope = 'For this clause, "smoking" includes tobacco, cannabis, electronic cigarettes and vaping devices.';
+      if (policy === 'permitted') {
+        return [`Smoking is permitted inside the unit. Tenant shall not smoke in common areas and is responsible for any cleaning, odor removal, or repainting beyond normal wear and tear caused by smoking. ${scope}`];
+      }
+      if (policy === 'outdoor_designated') {
+        return [`Smoking is prohibited inside the unit and in all common areas, and is permitted only in outdoor areas designated by Landlord. ${scope} Tenant is responsible for the conduct of household members and guests under this clause.`];
+      }
+      return [`The Premises, including the unit, balconies, patios, and all common areas, are smoke-free. ${scope} Tenant is responsible for the conduct of household members and guests, and a violation of this clause is a material breach of the Lease.`];
+    },
+  },
+  {
+    id: 'parking',
+    title: 'Parking',
+    description: 'Assigns parking spaces and any monthly parking fee.',
+    params: [
+      { key: 'parkingSpaces', label: 'Assigned space(s)', type: 'text', required: true, placeholder: 'e.g. Space #12' },
+      { key: 'parkingFee', label: 'Monthly parking fee', type: 'money', placeholder: '0.00' },
+    ],
+    applicability: optional,
+    render: (values) => {
+      const fee = money(values, 'parkingFee');
+      return [
+        `Tenant is assigned the following parking: ${text(values, 'parkingSpaces') || '[_____________]'}.${fee ? ` Tenant shall pay a monthly parking fee of ${fee}, due with each rent payment.` : ''}`,
+        'Only operable, currently registered vehicles may be parked. Vehicles may not be repaired or stored on the Premises, and vehicles parked in violation of this clause may be towed at the owner\'s expense as permitted by law.',
+      ];
+    },
+  },
+  {
+    id: 'hoa_rules',
+    title: 'HOA Rules and Regulations',
+    description: 'Binds the tenant to the homeowners or condominium association rules.',
+    params: [
+      { key: 'hoaName', label: 'Association name', type: 'text', required: true },
+    ],
+    applicability: optional,
+    render: (values) => [
+      `The Premises are subject to the governing documents, rules, and regulations of ${text(values, 'hoaName') || '[_____________]'} ("Association"). Tenant acknowledges receipt of, and agrees to comply with, the Association rules as amended from time to time.`,
+      'Tenant is responsible for any fine assessed by the Association because of the conduct of Tenant, household members, or guests. Association dues remain Landlord\'s responsibility.',
+    ],
+  },
+  {
+    id: 'utilities',
+    title: 'Utilities Allocation',
+    description: 'Lists which utilities the tenant pays and which the landlord pays.',
+    params: [
+      { key: 'tenantUtilities', label: 'Paid by tenant', type: 'text', required: true, placeholder: 'e.g. Electricity, gas, internet' },
+      { key: 'landlordUtilities', label: 'Paid by landlord', type: 'text', placeholder: 'e.g. Water, sewer, trash' },
+    ],
+    applicability: optional,
+    render: (values) => {
+      const landlord = text(values, 'landlordUtilities');
+      return [
+        `Tenant shall place in Tenant's name and pay for the following utilities and services: ${text(values, 'tenantUtilities') || '[_____________]'}.`,
+        landlord
+          ? `Landlord shall pay for the following utilities and services: ${landlord}. Any utility or service not listed is Tenant's responsibility.`
+          : 'Any utility or service not listed above is also Tenant\'s responsibility.',
+      ];
+    },
+  },
+  {
+    id: 'lead_paint',
+    title: 'Lead-Based Paint Disclosure Addendum',
+    description: 'Federal lead warning statement, required for housing built before 1978.',
+    params: [
+      { key: 'leadPaintKnown', label: 'Known lead-based paint or hazards (leave blank if none)', type: 'text' },
+    ],
+    applicability: (facts) => {
+      if (facts.yearBuilt == null) return { status: 'optional' };
+      return facts.yearBuilt < LEAD_PAINT_CUTOFF_YEAR
+        ? { status: 'required', reason: `Required because the property was built in ${facts.yearBuilt}, before ${LEAD_PAINT_CUTOFF_YEAR}.` }
+        : { status: 'unavailable', reason: `Not applicable: the property was built in ${facts.yearBuilt}.` };
+    },
+    render: (values) => {
+      const known = text(values, 'leadPaintKnown');
+      return [
+        'LEAD WARNING STATEMENT: Housing built before 1978 may contain lead-based paint. Lead from paint, paint chips, and dust can pose health hazards if not managed properly. Lead exposure is especially harmful to young children and pregnant women. Before renting pre-1978 housing, lessors must disclose the presence of known lead-based paint and/or lead-based paint hazards in the dwelling. Lessees must also receive a federally approved pamphlet on lead poisoning prevention.',
+        known
+          ? `Landlord's disclosure: ${known}`
+          : 'Landlord\'s disclosure: Landlord has no knowledge of lead-based paint or lead-based paint hazards in the housing and has no reports or records pertaining to lead-based paint in the housing.',
+        'Tenant acknowledges receipt of the pamphlet "Protect Your Family From Lead in Your Home" and of the information above (42 U.S.C. 4852d; 40 CFR 745.113).',
+      ];
+    },
+  },
+  {
+    id: 'mold',
+    title: 'Mold Disclosure Addendum',
+    description: 'Discloses any known visible mold and sets moisture-control duties.',
+    params: [
+      { key: 'moldKnown', label: 'Known visible mold (leave blank if none)', type: 'text' },
+    ],
+    applicability: (facts) =>
+      facts.stateId === 'VA'
+        ? { status: 'required', reason: 'Required in Virginia: landlords must disclose visible mold in the dwelling unit (Va. Code 55.1-1215).' }
+        : { status: 'optional' },
+    render: (values) => {
+      const known = text(values, 'moldKnown');
+      return [
+        known
+          ? `Landlord discloses the following visible mold in the dwelling unit: ${known}`
+          : 'Landlord discloses that there is no visible evidence of mold in areas of the dwelling unit that are readily accessible at the start of the tenancy.',
+        'Tenant shall keep the Premises clean and ventilated, use exhaust fans where provided, and promptly report water leaks, excess moisture, or visible mold to Landlord in writing.',
+      ];
+    },
+  },
+];
+
+const CLAUSES_BY_ID = new Map(LEASE_CLAUSE_LIBRARY.map((c) => [c.id, c]));
+
+export function getLeaseClause(id: string): LeaseClauseDefinition | undefined {
+  return CLAUSES_BY_ID.get(id);
+}
+
+/** Parse the comma-separated `leaseClauses` field into known clause ids. */
+export function parseSelectedLeaseClauses(value: string | number | null | undefined): string[] {
+  if (value === undefined || value === null) return [];
+  const ids = String(value).split(',').map((s) => s.trim()).filter(Boolean);
+  return Array.from(new Set(ids)).filter((id) => CLAUSES_BY_ID.has(id));
+}
+
+export function serializeSelectedLeaseClauses(ids: string[]): string {
+  return ids.filter((id) => CLAUSES_BY_ID.has(id)).join(',');
+}
+
+/** Year built as a plausible integer, or null when blank or unparseable. */
+export function parseYearBuilt(value: string | number | null | undefined): number | null {
+  const year = typeof value === 'number' ? value : parseInt(String(value ?? ''), 10);
+  return Number.isInteger(year) && year >= 1600 && year <= 2200 ? year : null;
+}
+
+export function leaseFactsFromFieldValues(stateId: string, values: FieldValues): LeaseFacts {
+  return { stateId, yearBuilt: parseYearBuilt(values[YEAR_BUILT_FIELD]) };
+}
+
+/**
+ * The clauses a lease carries, in library order: everything the landlord
+ * selected that is available for the property, plus every clause required by
+ * the property facts whether or not it was selected.
+ */
+export function resolveLeaseClauses(values: FieldValues, facts: LeaseFacts): ResolvedLeaseClause[] {
+  const selected = new Set(parseSelectedLeaseClauses(values[LEASE_CLAUSES_FIELD]));
+  const resolved: ResolvedLeaseClause[] = [];
+  for (const clause of LEASE_CLAUSE_LIBRARY) {
+    const applicability = clause.applicability(facts);
+    if (applicability.status === 'unavailable') continue;
+    const required = applicability.status === 'required';
+    if (!required && !selected.has(clause.id)) continue;
+    resolved.push({
+      id: clause.id,
+      title: clause.title,
+      number: resolved.length + 1,
+      required,
+      paragraphs: clause.render(values),
+    });
+  }
+  return resolved;
+}
+
+/**
+ * Check the clause choices against the property facts, the clause parameters
+ * and the state's caps. Errors block generation; warnings are shown in the
+ * wizard only.
+ */
+export function validateLeaseClauses(
+  values: FieldValues,
+  facts: LeaseFacts,
+  limits: LeaseClauseLimits | null,
+): LeaseClauseIssue[] {
+  const issues: LeaseClauseIssue[] = [];
+  const selected = parseSelectedLeaseClauses(values[LEASE_CLAUSES_FIELD]);
+
+  for (const id of selected) {
+    const clause = CLAUSES_BY_ID.get(id)!;
+    const applicability = clause.applicability(facts);
+    if (applicability.status === 'unavailable') {
+      issues.push({ clauseId: id, severity: 'warning', message: `${clause.title} will be left out. ${applicability.reason}` });
+    }
+  }
+
+  const included = resolveLeaseClauses(values, facts);
+  for (const { id } of included) {
+    const clause = CLAUSES_BY_ID.get(id)!;
+    for (const param of clause.params) {
+      const raw = text(values, param.key);
+      if (!raw) {
+        if (param.required) {
+          issues.push({ clauseId: id, severity: 'error', message: `${clause.title}: ${param.label} is required.` });
+        }
+        continue;
+      }
+      if (param.type === 'money' || param.type === 'number') {
+        const amount = parseClauseAmount(raw);
+        if (!Number.isFinite(amount) || amount < 0) {
+          issues.push({ clauseId: id, severity: 'error', message: `${clause.title}: ${param.label} must be a non-negative number.` });
+        }
+      }
+      if (param.type === 'select' && !param.options?.some((o) => o.value === raw)) {
+        issues.push({ clauseId: id, severity: 'error', message: `${clause.title}: choose a valid ${param.label.toLowerCase()}.` });
+      }
+    }
+  }
+
+  // A pet deposit counts toward the state's cap on total deposits.
+  const includesPets = included.some((c) => c.id === 'pets');
+  const capMonths = limits?.depositCapMonths ?? null;
+  const rent = parseClauseAmount(values.monthlyRent);
+  if (includesPets && capMonths != null && Number.isFinite(rent) && rent > 0) {
+    const security = parseClauseAmount(values.securityDeposit ?? values.maxDeposit);
+    const pet = parseClauseAmount(values.petDeposit);
+    const total = (Number.isFinite(security) ? security : 0) + (Number.isFinite(pet) ? pet : 0);
+    const cap = capMonths * rent;
+    if (Number.isFinite(pet) && total > cap) {
+      const cite = limits?.depositCapCitation ? ` (${limits.depositCapCitation})` : '';
+      issues.push({
+        clauseId: 'pets',
+        severity: 'error',
+        message: `Security deposit plus pet deposit ($${total.toFixed(2)}) exceeds the ${limits!.stateId} cap of ${capMonths} month${capMonths === 1 ? '' : 's'} of rent ($${cap.toFixed(2)})${cite}.`,
+      });
+    }
+  }
+
+  return issues;
+}
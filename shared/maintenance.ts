@@ -0,0 +1,98 @@
+// Maintenance tickets: categories, priorities and the response/resolution
+// SLA each priority carries. Shared so the server (deadlines, dashboard) and
+// the client (badges, countdowns) agree on the same windows.
+
+export const MAINTENANCE_CATEGORIES = [
+  { value: 'plumbing', label: 'Plumbing' },
+  { value: 'electrical', label: 'Electrical' },
+  { value: 'appliance', label: 'Appliance' },
+  { value: 'hvac', label: 'Heating / Cooling' },
+  { value: 'pest', label: 'Pests' },
+  { value: 'structural', label: 'Structural' },
+  { value: 'other', label: 'Other' },
+] as const;
+export type MaintenanceCategory = typeof MAINTENANCE_CATEGORIES[number]['value'];
+
+export const MAINTENANCE_PRIORITIES = [
+  { value: 'emergency', label: 'Emergency', description: 'No heat, no water, gas or sewage leak, unsecured entry' },
+  { value: 'urgent', label: 'Urgent', description: 'A major appliance or system is down' },
+  { value: 'routine', label: 'Routine', description: 'Everything else' },
+] as const;
+export type MaintenancePriority = typeof MAINTENANCE_PRIORITIES[number]['value'];
+
+export const MAINTENANCE_STATUSES = [
+  { value: 'open', label: 'Open' },
+  { value: 'in_progress', label: 'In Progress' },
+  { value: 'completed', label: 'Completed' },
+  { value: 'canceled', label: 'Canceled' },
+] as const;
+export type MaintenanceStatus = typeof MAINTENANCE_STATUSES[number]['value'];
+
+/**
+ * Hours from submission to first response (moving the ticket off "open") and
+ * to resolution. Emergencies affecting habitability need same-day action in
+ * most states; the routine window is a common property-management standard.
+ */
+export const MAINTENANCE_SLA_HOURS: Record<MaintenancePriority, { respond: number; resolve: number }> = {
+  emergency: { respond: 4, resolve: 24 },
+  urgent: { respond: 24, resolve: 72 },
+  routine: { respond: 72, resolve: 14 * 24 },
+};
+
+export function isMaintenanceCategory(value: unknown): value is MaintenanceCategory {
+  return MAINTENANCE_CATEGORIES.some((c) => c.value === value);
+}
+
+export function isMaintenancePriority(value: unknown): value is MaintenancePriority {
+  return MAINTENANCE_PRIORITIES.some((p) => p.value === value);
+}
+
+export function isMaintenanceStatus(value: unknown): value is MaintenanceStatus {
+  return MAINTENANCE_STATUSES.some((s) => s.value === value);
+}
+
+export function computeSlaDeadlines(
+  submittedAt: Date,
+  priority: MaintenancePriority,
+): { respondByAt: Date; resolveByAt: Date } {
+  const sla = MAINTENANCE_SLA_HOURS[priority];
+  const hour = 60 * 60 * 1000;
+  return {
+    respondByAt: new Date(submittedAt.getTime() + sla.respond * hour),
+    resolveByAt: new Date(submittedAt.getTime() + sla.resolve * hour),
+  };
+}
+
+export interface MaintenanceSlaStatus {
+  responseOverdue: boolean;
+  resolutionOverdue: boolean;
+  // Hours until the deadline that governs the ticket right now - the response
+  // deadline until acknowledged, then resolution (negative once past). Null
+  // when the ticket is closed.
+  hoursRemaining: number | null;
+}
+
+/**
+ * Where a ticket stands against its SLA. The response clock stops once the
+ * ticket is acknowledged; both clocks stop when it's completed or canceled.
+ */
+export function getMaintenanceSlaStatus(
+  ticket: {
+    status: string;
+    acknowledgedAt: Date | string | null;
+    respondByAt: Date | string | null;
+    resolveByAt: Date | string | null;
+  },
+  now: Date = new Date(),
+): MaintenanceSlaStatus {
+  if (ticket.status === 'completed' || ticket.status === 'canceled') {
+    return { responseOverdue: false, resolutionOverdue: false, hoursRemaining: null };
+  }
+  const respondBy = ticket.respondByAt ? new Date(ticket.respondByAt) : null;
+  const resolveBy = ticket.resolveByAt ? new Date(ticket.resolveByAt) : null;
+  const responseOverdue = !ticket.acknowledgedAt && !!respondBy && now > respondBy;
+  const resolutionOverdue = !!resolveBy && now > resolveBy;
+  const next = !ticket.acknowledgedAt && respondBy && !resolutionOverdue ? respondBy : resolveBy;
+  const hoursRemaining = next ? Math.round((next.getTime() - now.getTime()) / (60 * 60 * 1000)) : null;
+  return { responseOverdue, resolutionOverdue, hoursRemaining };
+}
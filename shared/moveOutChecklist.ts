@@ -0,0 +1,31 @@
+// Rooms and items on the move-in / move-out inspection checklist. Shared so
+// the generated checklist and deposit deductions (which are itemized against
+// checklist findings) use the same names.
+
+export interface ChecklistRoom {
+  name: string;
+  items: string[];
+}
+
+export const MOVE_OUT_CHECKLIST_ROOMS: ChecklistRoom[] = [
+  { name: 'LIVING ROOM', items: ['Walls/Paint', 'Ceiling', 'Flooring/Carpet', 'Windows/Screens', 'Blinds/Curtains', 'Light Fixtures', 'Electrical Outlets', 'Doors/Locks'] },
+  { name: 'KITCHEN', items: ['Walls/Paint', 'Flooring', 'Countertops', 'Cabinets/Drawers', 'Sink/Faucet', 'Stove/Oven', 'Refrigerator', 'Dishwasher', 'Microwave', 'Exhaust Fan/Hood'] },
+  { name: 'BEDROOM(S)', items: ['Walls/Paint', 'Ceiling', 'Flooring/Carpet', 'Windows/Screens', 'Blinds/Curtains', 'Closet Doors', 'Light Fixtures', 'Electrical Outlets'] },
+  { name: 'BATHROOM(S)', items: ['Walls/Paint', 'Flooring', 'Toilet', 'Sink/Vanity', 'Bathtub/Shower', 'Faucets/Fixtures', 'Mirror/Cabinet', 'Exhaust Fan', 'Towel Bars'] },
+  { name: 'OTHER AREAS', items: ['Hallways', 'Stairs/Railings', 'Garage', 'Patio/Balcony', 'HVAC System', 'Water Heater', 'Smoke Detectors', 'CO Detectors'] },
+];
+
+// Condition Rating Guide printed on the checklist.
+export const CHECKLIST_CONDITIONS = [
+  { code: 'E', label: 'Excellent' },
+  { code: 'G', label: 'Good' },
+  { code: 'F', label: 'Fair' },
+  { code: 'P', label: 'Poor' },
+  { code: 'N/A', label: 'Not Applicable' },
+] as const;
+
+export type ChecklistConditionCode = typeof CHECKLIST_CONDITIONS[number]['code'];
+
+export function isChecklistItem(room: string, item: string): boolean {
+  return MOVE_OUT_CHECKLIST_ROOMS.some((r) => r.name === room && r.items.includes(item));
+}
@@ -0,0 +1,26 @@
+// Notice service log: who can serve a notice and how an attempt ended.
+// Shared so the server (validation, affidavit) and the client (log form)
+// use the same values.
+
+export const SERVICE_SERVER_ROLES = [
+  { value: 'landlord', label: 'Landlord' },
+  { value: 'agent', label: 'Property manager / agent' },
+  { value: 'process_server', label: 'Process server' },
+  { value: 'sheriff', label: 'Sheriff / constable' },
+  { value: 'other', label: 'Other adult' },
+] as const;
+export type ServiceServerRole = typeof SERVICE_SERVER_ROLES[number]['value'];
+
+export const SERVICE_OUTCOMES = [
+  { value: 'served', label: 'Served' },
+  { value: 'unsuccessful', label: 'Unsuccessful' },
+] as const;
+export type ServiceOutcome = typeof SERVICE_OUTCOMES[number]['value'];
+
+export function isServiceServerRole(value: unknown): value is ServiceServerRole {
+  return SERVICE_SERVER_ROLES.some((r) => r.value === value);
+}
+
+export function isServiceOutcome(value: unknown): value is ServiceOutcome {
+  return SERVICE_OUTCOMES.some((o) => o.value === value);
+}
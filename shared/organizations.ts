@@ -0,0 +1,61 @@
+// Landlord teams: the roles a member can hold and what each role can do.
+// Shared so the server enforces the same matrix the client uses to hide
+// features a member can't reach.
+
+export const TEAM_ROLES = [
+  { value: 'owner', label: 'Owner', description: 'Everything, including the team and billing' },
+  { value: 'manager', label: 'Manager', description: 'Everything except managing the team and billing' },
+  { value: 'leasing_agent', label: 'Leasing agent', description: 'Reviews applications and makes decisions; can view properties and documents' },
+  { value: 'bookkeeper', label: 'Bookkeeper', description: 'Rent ledger, payments and deposits only' },
+] as const;
+export type TeamRole = typeof TEAM_ROLES[number]['value'];
+
+// Roles an owner can invite someone into (there is only ever one owner).
+export const INVITABLE_TEAM_ROLES = TEAM_ROLES.filter((r) => r.value !== 'owner');
+
+export function isTeamRole(value: unknown): value is TeamRole {
+  return TEAM_ROLES.some((r) => r.value === value);
+}
+
+export function isInvitableTeamRole(value: unknown): value is Exclude<TeamRole, 'owner'> {
+  return value !== 'owner' && isTeamRole(value);
+}
+
+/**
+ * Feature areas permissions are granted on.
+ *  - properties: properties, units, tenancies, maintenance and vendors
+ *  - applications: rental submissions, screening and decisions
+ *  - ledger: rent ledger, payments, auto-pay, deposits, payouts, owner reports and property expenses
+ *  - documents: saved/uploaded documents, notices, eviction cases, signatures
+ *  - account: the account's profile, preferences and support messages
+ *  - team: organization members
+ *  - billing: the LeaseShield subscription
+ *  - general: compliance content, templates, notifications and the dashboard
+ * Routes outside every area are for the account owner only.
+ */
+export type TeamArea = 'properties' | 'applications' | 'ledger' | 'documents' | 'account' | 'team' | 'billing' | 'general';
+export type TeamAccess = 'none' | 'read' | 'write';
+
+export const TEAM_ROLE_ACCESS: Record<TeamRole, Record<TeamArea, TeamAccess>> = {
+  owner: {
+    properties: 'write', applications: 'write', ledger: 'write', documents: 'write',
+    account: 'write', team: 'write', billing: 'write', general: 'write',
+  },
+  manager: {
+    properties: 'write', applications: 'write', ledger: 'write', documents: 'write',
+    account: 'read', team: 'read', billing: 'none', general: 'write',
+  },
+  leasing_agent: {
+    properties: 'read', applications: 'write', ledger: 'none', documents: 'read',
+    account: 'read', team: 'none', billing: 'none', general: 'write',
+  },
+  bookkeeper: {
+    properties: 'read', applications: 'none', ledger: 'write', documents: 'none',
+    account: 'read', team: 'none', billing: 'none', general: 'write',
+  },
+};
+
+export function canAccessTeamArea(role: TeamRole, area: TeamArea, level: Exclude<TeamAccess, 'none'> = 'read'): boolean {
+  const granted = TEAM_ROLE_ACCESS[role][area];
+  return level === 'read' ? granted !== 'none' : granted === 'write';
+}
@@ -0,0 +1,65 @@
+// Owner financial reports (rent roll, delinquency aging, income and expense).
+// The server builds each report as a plain table so the page, the CSV and the
+// PDF all show the same rows. Money cells are integer cents.
+
+export const OWNER_REPORT_KINDS = ['rent-roll', 'delinquency', 'income-expense'] as const;
+export type OwnerReportKind = (typeof OWNER_REPORT_KINDS)[number];
+
+export const OWNER_REPORTS: { value: OwnerReportKind; label: string; description: string }[] = [
+  {
+    value: 'rent-roll',
+    label: 'Rent Roll',
+    description: 'Every unit with its lease, rent, deposit, auto-pay and balance on a given date.',
+  },
+  {
+    value: 'delinquency',
+    label: 'Delinquency Aging',
+    description: 'Unpaid charges by tenant, grouped by how many days past due they are.',
+  },
+  {
+    value: 'income-expense',
+    label: 'Income & Expenses',
+    description: 'Monthly income and expenses by property for a tax year.',
+  },
+];
+
+export function isOwnerReportKind(value: unknown): value is OwnerReportKind {
+  return OWNER_REPORT_KINDS.includes(value as OwnerReportKind);
+}
+
+// Days past due, inclusive. 90+ has no upper bound.
+export const AGING_BUCKETS = [
+  { key: 'days0to30', label: '0-30 days', maxDays: 30 },
+  { key: 'days31to60', label: '31-60 days', maxDays: 60 },
+  { key: 'days61to90', label: '61-90 days', maxDays: 90 },
+  { key: 'days90plus', label: '90+ days', maxDays: Infinity },
+] as const;
+export type AgingBucketKey = (typeof AGING_BUCKETS)[number]['key'];
+
+export function agingBucket(daysPastDue: number): AgingBucketKey {
+  return AGING_BUCKETS.find((b) => daysPastDue <= b.maxDays)!.key;
+}
+
+export type OwnerReportCell = string | number | null;
+
+export interface OwnerReportColumn {
+  key: string;
+  title: string;
+  money?: boolean; // cents; shown as dollars
+  width: number; // PDF points; the columns of a report add up to the page width
+}
+
+export interface OwnerReportRow {
+  cells: Record<string, OwnerReportCell>;
+  subtotal?: boolean; // a per-property total line
+}
+
+export interface OwnerReport {
+  kind: OwnerReportKind;
+  title: string;
+  period: string; // e.g. "As of October 19, 2026" or "Tax year 2026"
+  columns: OwnerReportColumn[];
+  rows: OwnerReportRow[];
+  totals: Record<string, OwnerReportCell> | null;
+  notes: string[];
+}
@@ -0,0 +1,39 @@
+// Online payment requests (rent_payment_requests) bill more than rent: a
+// one-time application fee, or the holding deposit taken when an approval
+// starts its lease-signing window. The wording on the pay page and in emails,
+// and how a paid request posts to the ledger, follow the request type.
+
+export type PaymentRequestType = 'rent' | 'application_fee' | 'holding_deposit';
+
+export interface PaymentRequestWording {
+  // "Holding Deposit" - page titles and email headings
+  title: string;
+  // "Holding deposit" - the itemized line on receipts
+  item: string;
+  // "holding deposit" - mid-sentence ("your holding deposit of $500")
+  noun: string;
+  // "the holding deposit" - what was paid ("just paid the holding deposit")
+  object: string;
+  // rent_ledger_entries.category the payment posts under
+  ledgerCategory: string;
+}
+
+const WORDING: Record<PaymentRequestType, PaymentRequestWording> = {
+  rent: { title: 'Rent', item: 'Rent', noun: 'rent payment', object: 'rent', ledgerCategory: 'Rent' },
+  application_fee: {
+    title: 'Application Fee', item: 'Application fee', noun: 'application fee', object: 'the application fee',
+    ledgerCategory: 'Application Fee',
+  },
+  holding_deposit: {
+    title: 'Holding Deposit', item: 'Holding deposit', noun: 'holding deposit', object: 'the holding deposit',
+    ledgerCategory: 'Holding Deposit',
+  },
+};
+
+export function paymentRequestWording(requestType: string | null | undefined): PaymentRequestWording {
+  return WORDING[requestType as PaymentRequestType] || WORDING.rent;
+}
+
+// A holding deposit is held for the applicant, not earned: it stays out of
+// rental income until it's applied to rent or kept under the hold terms.
+export const HOLDING_DEPOSIT_CATEGORY = WORDING.holding_deposit.ledgerCategory;
@@ -0,0 +1,90 @@
+// Property expense categories and the IRS Schedule E (Form 1040) lines they
+// roll up to. Line numbers follow Schedule E Part I; amounts are cents.
+
+export interface ScheduleELine {
+  line: number;
+  label: string;
+}
+
+export const SCHEDULE_E_LINES: ScheduleELine[] = [
+  { line: 3, label: 'Rents received' },
+  { line: 5, label: 'Advertising' },
+  { line: 6, label: 'Auto and travel' },
+  { line: 7, label: 'Cleaning and maintenance' },
+  { line: 8, label: 'Commissions' },
+  { line: 9, label: 'Insurance' },
+  { line: 10, label: 'Legal and other professional fees' },
+  { line: 11, label: 'Management fees' },
+  { line: 12, label: 'Mortgage interest paid to banks, etc.' },
+  { line: 13, label: 'Other interest' },
+  { line: 14, label: 'Repairs' },
+  { line: 15, label: 'Supplies' },
+  { line: 16, label: 'Taxes' },
+  { line: 17, label: 'Utilities' },
+  { line: 18, label: 'Depreciation expense or depletion' },
+  { line: 19, label: 'Other' },
+  { line: 20, label: 'Total expenses' },
+  { line: 21, label: 'Income or (loss)' },
+];
+
+// Lines 5-19 are expenses; 20 and 21 are computed.
+export const SCHEDULE_E_EXPENSE_LINES = SCHEDULE_E_LINES.filter((l) => l.line >= 5 && l.line <= 19).map((l) => l.line);
+
+export const EXPENSE_CATEGORIES = [
+  { value: 'repairs', label: 'Repairs', scheduleELine: 14 },
+  { value: 'cleaning_maintenance', label: 'Cleaning and maintenance', scheduleELine: 7 },
+  { value: 'insurance', label: 'Insurance', scheduleELine: 9 },
+  { value: 'taxes', label: 'Property taxes', scheduleELine: 16 },
+  { value: 'utilities', label: 'Utilities', scheduleELine: 17 },
+  { value: 'management_fees', label: 'Management fees', scheduleELine: 11 },
+  { value: 'mortgage_interest', label: 'Mortgage interest', scheduleELine: 12 },
+  { value: 'other_interest', label: 'Other interest', scheduleELine: 13 },
+  { value: 'advertising', label: 'Advertising', scheduleELine: 5 },
+  { value: 'auto_travel', label: 'Auto and travel', scheduleELine: 6 },
+  { value: 'commissions', label: 'Commissions', scheduleELine: 8 },
+  { value: 'legal_professional', label: 'Legal and professional fees', scheduleELine: 10 },
+  { value: 'supplies', label: 'Supplies', scheduleELine: 15 },
+  { value: 'other', label: 'Other', scheduleELine: 19 },
+] as const;
+
+export type ExpenseCategory = (typeof EXPENSE_CATEGORIES)[number]['value'];
+
+export function isExpenseCategory(value: unknown): value is ExpenseCategory {
+  return EXPENSE_CATEGORIES.some((c) => c.value === value);
+}
+
+export function expenseCategoryLabel(value: string): string {
+  return EXPENSE_CATEGORIES.find((c) => c.value === value)?.label || value;
+}
+
+export function scheduleELineFor(category: string): number {
+  return EXPENSE_CATEGORIES.find((c) => c.value === category)?.scheduleELine ?? 19;
+}
+
+export function scheduleELineLabel(line: number): string {
+  return SCHEDULE_E_LINES.find((l) => l.line === line)?.label || 'Other';
+}
+
+/** One expense behind a Schedule E line, listed under the worksheet totals. */
+export interface ScheduleEItem {
+  date: string; // YYYY-MM-DD
+  line: number;
+  detail: string;
+  amount: number;
+  hasReceipt: boolean | null; // null when the source isn't a recorded expense
+}
+
+export interface ScheduleEPropertyWorksheet {
+  propertyId: string;
+  name: string;
+  address: string;
+  propertyType: string | null;
+  lines: Array<ScheduleELine & { amount: number }>; // every line from 3 to 21
+  items: ScheduleEItem[];
+}
+
+export interface ScheduleEWorksheet {
+  year: number;
+  properties: ScheduleEPropertyWorksheet[];
+  notes: string[];
+}
@@ -16,6 +16,8 @@ import {
 } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import type { LateFeePolicy } from "./lateFeePolicy";
+import type { SelectionCriteria } from "./selectionCriteria";
 
 // User storage table for JWT Auth
 export const users = pgTable("users", {
@@ -27,6 +29,9 @@ export const users = pgTable("users", {
   profileImageUrl: varchar("profile_image_url"),
   // Admin flag - admins can access all features without subscription
   isAdmin: boolean("is_admin").default(false),
+  // Account type: landlord (subscriber) | tenant (portal login, scoped to the
+  // tenancies whose occupant row links to this user)
+  role: varchar("role", { length: 16 }).default("landlord").notNull(),
   // Subscription fields
   stripeCustomerId: varchar("stripe_customer_id"),
   stripeSubscriptionId: varchar("stripe_subscription_id"),
@@ -135,6 +140,54 @@ export const insertStateClauseValueSchema = createInsertSchema(stateClauseValues
 export type InsertStateClauseValue = z.infer<typeof insertStateClauseValueSchema>;
 export type StateClauseValue = typeof stateClauseValues.$inferSelect;
 
+export const stateDisclosureStatusEnum = pgEnum('state_disclosure_status', [
+  'draft',
+  'in_review',
+  'approved',
+  'archived',
+]);
+
+// State-specific lease disclosures (section 25 of generated leases). Every
+// edit is a new version of a (stateId, disclosureKey) pair; approved versions
+// stay approved so older leases keep rendering the text that was in effect on
+// their lease date. Archived versions never render.
+// category uses the bill analysis compliance categories (shared/stateDisclosures.ts)
+// so approved bills can flag affected disclosures via needsReview.
+export const stateDisclosures = pgTable("state_disclosures", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  stateId: varchar("state_id", { length: 2 }).notNull().references(() => states.id),
+  disclosureKey: varchar("disclosure_key", { length: 64 }).notNull(), // e.g. security_deposit
+  title: text("title").notNull(),
+  body: text("body").notNull(),
+  citation: text("citation"),
+  category: varchar("category", { length: 32 }),
+  sortOrder: integer("sort_order").default(0),
+  version: integer("version").notNull().default(1),
+  effectiveDate: date("effective_date").notNull(),
+  status: stateDisclosureStatusEnum("status").default('draft'),
+  createdBy: varchar("created_by"),
+  submittedAt: timestamp("submitted_at"),
+  reviewedByUserId: varchar("reviewed_by_user_id").references(() => users.id),
+  reviewedAt: timestamp("reviewed_at"),
+  reviewNotes: text("review_notes"),
+  needsReview: boolean("needs_review").default(false),
+  needsReviewReason: text("needs_review_reason"),
+  sourceBillId: varchar("source_bill_id"), // legislativeMonitoring.billId that flagged it
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("idx_state_disclosures_key_version").on(table.stateId, table.disclosureKey, table.version),
+  index("idx_state_disclosures_state").on(table.stateId),
+]);
+
+export const insertStateDisclosureSchema = createInsertSchema(stateDisclosures).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+export type InsertStateDisclosure = z.infer<typeof insertStateDisclosureSchema>;
+export type StateDisclosure = typeof stateDisclosures.$inferSelect;
+
 // Template categories
 export const categoryEnum = pgEnum('category', [
   'leasing',
@@ -745,7 +798,10 @@ export const insertTemplateVersionSchema = createInsertSchema(templateVersions).
 export type InsertTemplateVersion = z.infer<typeof insertTemplateVersionSchema>;
 export type TemplateVersion = typeof templateVersions.$inferSelect;
 
-// Properties - user property management
+// Legacy properties. Superseded by rentalProperties, the one property model
+// the UI, ledger, documents, retention and denial audit logs attach to;
+// migration 0027 copied every row across (rentalProperties.legacyPropertyId).
+// Kept read-only so that mapping can be re-run or audited.
 export const properties = pgTable("properties", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   userId: varchar("user_id").notNull().references(() => users.id),
@@ -765,12 +821,11 @@ export const properties = pgTable("properties", {
   index("idx_properties_user_id").on(table.userId),
 ]);
 
-export const propertiesRelations = relations(properties, ({ one, many }) => ({
+export const propertiesRelations = relations(properties, ({ one }) => ({
   user: one(users, {
     fields: [properties.userId],
     references: [users.id],
   }),
-  savedDocuments: many(savedDocuments),
 }));
 
 export const insertPropertySchema = createInsertSchema(properties).omit({
@@ -784,7 +839,7 @@ export type Property = typeof properties.$inferSelect;
 // Retention Settings - per-property document retention configuration
 export const retentionSettings = pgTable("retention_settings", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
-  propertyId: varchar("property_id").notNull().references(() => properties.id).unique(),
+  propertyId: varchar("property_id").notNull().references(() => rentalProperties.id, { onDelete: 'cascade' }).unique(),
   deniedUploadsDays: integer("denied_uploads_days").notNull().default(730),
   deniedBankStatementsDays: integer("denied_bank_statements_days").notNull().default(120),
   approvedUploadsDays: integer("approved_uploads_days").notNull().default(2555),
@@ -794,9 +849,9 @@ export const retentionSettings = pgTable("retention_settings", {
 });
 
 export const retentionSettingsRelations = relations(retentionSettings, ({ one }) => ({
-  property: one(properties, {
+  property: one(rentalProperties, {
     fields: [retentionSettings.propertyId],
-    references: [properties.id],
+    references: [rentalProperties.id],
   }),
 }));
 
@@ -808,21 +863,49 @@ export const insertRetentionSettingsSchema = createInsertSchema(retentionSetting
 export type InsertRetentionSettings = z.infer<typeof insertRetentionSettingsSchema>;
 export type RetentionSettings = typeof retentionSettings.$inferSelect;
 
+// Certificate of completion stored on a signed saved document
+export type SignatureCertificate = {
+  signatureRequestId: string;
+  documentName: string;
+  unsignedSha256: string;   // hash of the PDF every party was shown
+  signedSha256: string;     // hash of the final stamped PDF
+  completedAt: string;      // ISO timestamp
+  signers: Array<{
+    name: string;
+    email: string;
+    role: string;
+    signatureType: 'typed' | 'drawn';
+    signedAt: string;
+    ipAddress: string | null;
+    userAgent: string | null;
+  }>;
+};
+
 // Saved Documents - user document history
 export const savedDocuments = pgTable("saved_documents", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   userId: varchar("user_id").notNull().references(() => users.id),
-  propertyId: varchar("property_id").references(() => properties.id),
+  propertyId: varchar("property_id").references(() => rentalProperties.id, { onDelete: 'set null' }),
   templateId: varchar("template_id").notNull().references(() => templates.id),
   templateName: text("template_name").notNull(),
   templateVersion: integer("template_version"),
   documentName: text("document_name").notNull(), // User-friendly name like "Late Rent Notice - John Doe"
   formData: jsonb("form_data").notNull(), // Filled form data for regeneration
   stateCode: varchar("state_code", { length: 2 }),
+  tenancyId: varchar("tenancy_id").references(() => tenancies.id, { onDelete: 'set null' }), // Lease this document belongs to (optional)
+  // E-signature completion (see documentSignatureRequests). Set once every
+  // party has signed; the certificate carries the SHA-256 of the unsigned and
+  // signed PDFs plus each signer's IP, user agent and timestamp.
+  signedAt: timestamp("signed_at"),
+  signatureCertificateJson: jsonb("signature_certificate_json").$type<SignatureCertificate>(),
+  // Unsigned documents (e.g. notices) only appear in the tenant portal once
+  // the landlord shares them; signed documents always do.
+  sharedWithTenantAt: timestamp("shared_with_tenant_at"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 }, (table) => [
   // Index for user document queries
   index("idx_saved_documents_user_id").on(table.userId),
+  index("idx_saved_documents_tenancy_id").on(table.tenancyId),
 ]);
 
 export const savedDocumentsRelations = relations(savedDocuments, ({ one }) => ({
@@ -830,19 +913,26 @@ export const savedDocumentsRelations = relations(savedDocuments, ({ one }) => ({
     fields: [savedDocuments.userId],
     references: [users.id],
   }),
-  property: one(properties, {
+  property: one(rentalProperties, {
     fields: [savedDocuments.propertyId],
-    references: [properties.id],
+    references: [rentalProperties.id],
   }),
   template: one(templates, {
     fields: [savedDocuments.templateId],
     references: [templates.id],
   }),
+  tenancy: one(tenancies, {
+    fields: [savedDocuments.tenancyId],
+    references: [tenancies.id],
+  }),
 }));
 
 export const insertSavedDocumentSchema = createInsertSchema(savedDocuments).omit({
   id: true,
   createdAt: true,
+  signedAt: true,
+  signatureCertificateJson: true,
+  sharedWithTenantAt: true,
 });
 export type InsertSavedDocument = z.infer<typeof insertSavedDocumentSchema>;
 export type SavedDocument = typeof savedDocuments.$inferSelect;
@@ -851,7 +941,7 @@ export type SavedDocument = typeof savedDocuments.$inferSelect;
 export const uploadedDocuments = pgTable("uploaded_documents", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   userId: varchar("user_id").notNull().references(() => users.id),
-  propertyId: varchar("property_id").references(() => properties.id),
+  propertyId: varchar("property_id").references(() => rentalProperties.id, { onDelete: 'set null' }),
   fileName: text("file_name").notNull(), // Original filename
   fileUrl: text("file_url").notNull(), // Storage path
   fileType: varchar("file_type", { length: 100 }), // MIME type like application/pdf
@@ -865,9 +955,9 @@ export const uploadedDocumentsRelations = relations(uploadedDocuments, ({ one })
     fields: [uploadedDocuments.userId],
     references: [users.id],
   }),
-  property: one(properties, {
+  property: one(rentalProperties, {
     fields: [uploadedDocuments.propertyId],
-    references: [properties.id],
+    references: [rentalProperties.id],
   }),
 }));
 
@@ -919,7 +1009,7 @@ export type CommunicationTemplate = typeof communicationTemplates.$inferSelect;
 export const rentLedgerEntries = pgTable("rent_ledger_entries", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   userId: varchar("user_id").notNull().references(() => users.id),
-  propertyId: varchar("property_id").references(() => properties.id),
+  propertyId: varchar("property_id").references(() => rentalProperties.id, { onDelete: 'set null' }),
   tenantName: text("tenant_name").notNull(),
   month: varchar("month", { length: 7 }).notNull(), // YYYY-MM format (kept for backward compatibility)
   amountExpected: integer("amount_expected").notNull(), // in cents
@@ -932,19 +1022,38 @@ export const rentLedgerEntries = pgTable("rent_ledger_entries", {
   description: text("description"), // User-friendly description (e.g., "December Rent", "Late Fee - 5 days late")
   paymentMethod: varchar("payment_method", { length: 50 }), // Cash, Check, Zelle, Venmo, ACH, Certified funds
   referenceNumber: varchar("reference_number", { length: 100 }), // Check #, transaction ID, etc.
-  type: varchar("type", { length: 20 }).default("charge"), // charge or payment
+  type: varchar("type", { length: 20 }).default("charge"), // charge, payment, adjustment, reversal, nsf_return (see shared/tenantLedger.ts)
+  tenancyId: varchar("tenancy_id").references(() => tenancies.id, { onDelete: 'set null' }), // Lease this entry posts to (optional)
+  statuteCitation: text("statute_citation"), // State law the charge was checked against (auto late fees)
+  // Posted entries are immutable. Corrections post a new entry pointing at
+  // the one they correct. Plain varchars - self references trip Drizzle's
+  // type inference.
+  reversesEntryId: varchar("reverses_entry_id"), // reversal / nsf_return: the entry cancelled in full
+  adjustsEntryId: varchar("adjusts_entry_id"), // adjustment: the entry it corrects (optional)
+  allocationRule: varchar("allocation_rule", { length: 20 }), // credits: oldest_first or rent_first
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
-});
+}, (table) => [
+  index("idx_rent_ledger_tenancy").on(table.tenancyId),
+  index("idx_rent_ledger_reverses").on(table.reversesEntryId),
+  // An entry can be reversed at most once.
+  uniqueIndex("idx_rent_ledger_reverses_unique")
+    .on(table.reversesEntryId)
+    .where(sql`reverses_entry_id IS NOT NULL`),
+]);
 
 export const rentLedgerEntriesRelations = relations(rentLedgerEntries, ({ one }) => ({
   user: one(users, {
     fields: [rentLedgerEntries.userId],
     references: [users.id],
   }),
-  property: one(properties, {
+  property: one(rentalProperties, {
     fields: [rentLedgerEntries.propertyId],
-    references: [properties.id],
+    references: [rentalProperties.id],
+  }),
+  tenancy: one(tenancies, {
+    fields: [rentLedgerEntries.tenancyId],
+    references: [tenancies.id],
   }),
 }));
 
@@ -961,6 +1070,44 @@ export const insertRentLedgerEntrySchema = createInsertSchema(rentLedgerEntries)
 export type InsertRentLedgerEntry = z.infer<typeof insertRentLedgerEntrySchema>;
 export type RentLedgerEntry = typeof rentLedgerEntries.$inferSelect;
 
+// Which charge each payment (or credit adjustment) paid down, per tenancy.
+// Allocations are bookkeeping, not ledger entries: when either side is
+// reversed the allocation is released, never deleted, and the freed credit is
+// applied again.
+export const rentLedgerAllocations = pgTable("rent_ledger_allocations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  tenancyId: varchar("tenancy_id").notNull().references(() => tenancies.id, { onDelete: 'cascade' }),
+  creditEntryId: varchar("credit_entry_id").notNull().references(() => rentLedgerEntries.id, { onDelete: 'cascade' }),
+  debitEntryId: varchar("debit_entry_id").notNull().references(() => rentLedgerEntries.id, { onDelete: 'cascade' }),
+  amount: integer("amount").notNull(), // in cents
+  releasedAt: timestamp("released_at"),
+  releasedByEntryId: varchar("released_by_entry_id"), // the reversal that freed it
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("idx_rent_ledger_allocations_tenancy").on(table.tenancyId),
+  index("idx_rent_ledger_allocations_credit").on(table.creditEntryId),
+  index("idx_rent_ledger_allocations_debit").on(table.debitEntryId),
+]);
+
+export const rentLedgerAllocationsRelations = relations(rentLedgerAllocations, ({ one }) => ({
+  tenancy: one(tenancies, {
+    fields: [rentLedgerAllocations.tenancyId],
+    references: [tenancies.id],
+  }),
+  creditEntry: one(rentLedgerEntries, {
+    fields: [rentLedgerAllocations.creditEntryId],
+    references: [rentLedgerEntries.id],
+  }),
+  debitEntry: one(rentLedgerEntries, {
+    fields: [rentLedgerAllocations.debitEntryId],
+    references: [rentLedgerEntries.id],
+  }),
+}));
+
+export type RentLedgerAllocation = typeof rentLedgerAllocations.$inferSelect;
+export type InsertRentLedgerAllocation = typeof rentLedgerAllocations.$inferInsert;
+
 // AI Training Interest - track users who want to be notified about upcoming workshops
 export const trainingInterest = pgTable("training_interest", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -1262,6 +1409,7 @@ export const rentalProperties = pgTable("rental_properties", {
   city: text("city"),
   state: varchar("state", { length: 2 }),
   zipCode: varchar("zip_code", { length: 10 }),
+  county: text("county"), // For county-level rule matching (e.g., "Cook County")
   propertyType: varchar("property_type", { length: 50 }), // Single Family, Multi-Family, Apartment, etc.
   notes: text("notes"), // Landlord notes about the property
   defaultCoverPageJson: jsonb("default_cover_page_json").notNull(), // Cover page content (title, intro, sections)
@@ -1270,6 +1418,9 @@ export const rentalProperties = pgTable("rental_properties", {
   autoScreening: boolean("auto_screening").default(false).notNull(), // Automatically request screening on submission
   screeningInvitationId: varchar("screening_invitation_id", { length: 100 }), // Western Verify invitation ID override for this property
   propertyTermsJson: jsonb("property_terms_json").$type<PropertyTerms>(), // Rent, fees, deposits, deadlines
+  applicantQueuePolicy: varchar("applicant_queue_policy", { length: 20 }).default('landlord_choice').notNull(), // landlord_choice, first_in_time
+  yearBuilt: integer("year_built"), // Drives conditional lease clauses (pre-1978 lead-based paint addendum)
+  legacyPropertyId: varchar("legacy_property_id"), // properties row this was migrated from (0027)
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
@@ -1280,6 +1431,7 @@ export const rentalPropertiesRelations = relations(rentalProperties, ({ one, man
     references: [users.id],
   }),
   units: many(rentalUnits),
+  savedDocuments: many(savedDocuments),
 }));
 
 export const insertRentalPropertySchema = createInsertSchema(rentalProperties).omit({
@@ -1290,6 +1442,29 @@ export const insertRentalPropertySchema = createInsertSchema(rentalProperties).o
 export type InsertRentalProperty = z.infer<typeof insertRentalPropertySchema>;
 export type RentalProperty = typeof rentalProperties.$inferSelect;
 
+// Published tenant selection criteria for a rental property. Rows are never
+// edited: publishing creates the next version, so an applicant's
+// acknowledgment and any later denial point at exactly what was shown.
+export const rentalPropertySelectionCriteria = pgTable("rental_property_selection_criteria", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  propertyId: varchar("property_id").notNull().references(() => rentalProperties.id, { onDelete: 'cascade' }),
+  version: integer("version").notNull(),
+  criteriaJson: jsonb("criteria_json").$type<SelectionCriteria>().notNull(),
+  publishedByUserId: varchar("published_by_user_id").references(() => users.id),
+  publishedAt: timestamp("published_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("idx_selection_criteria_property_version").on(table.propertyId, table.version),
+]);
+
+export const rentalPropertySelectionCriteriaRelations = relations(rentalPropertySelectionCriteria, ({ one }) => ({
+  property: one(rentalProperties, {
+    fields: [rentalPropertySelectionCriteria.propertyId],
+    references: [rentalProperties.id],
+  }),
+}));
+
+export type RentalPropertySelectionCriteria = typeof rentalPropertySelectionCriteria.$inferSelect;
+
 // Rental Units - units with cover page/field schema override capability
 export const rentalUnits = pgTable("rental_units", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -1356,6 +1531,7 @@ export const rentalSubmissionStatusEnum = pgEnum('rental_submission_status', [
   'screening_requested', // Screening sent to DigitalDelve
   'in_progress',        // Screening in progress
   'complete',           // Screening complete, report available
+  'waitlisted',         // Another applicant for the unit was approved first
 ]);
 
 // Rental Submissions - one per application flow
@@ -1366,6 +1542,14 @@ export const rentalSubmissions = pgTable("rental_submissions", {
   submittedAt: timestamp("submitted_at"),
   deletedAt: timestamp("deleted_at"), // Soft delete - null means active, timestamp means deleted
   archivedAt: timestamp("archived_at"),
+  // Household income check, recomputed whenever an income source changes.
+  // incomeMeetsRequirement is null when there's no rent or published income
+  // multiple to compare against.
+  incomeMonthlyCents: integer("income_monthly_cents"),
+  incomeRequiredMonthlyCents: integer("income_required_monthly_cents"),
+  incomeMeetsRequirement: boolean("income_meets_requirement"),
+  incomeCheckedAt: timestamp("income_checked_at"),
+  waitlistedAt: timestamp("waitlisted_at"), // Kept after a later decision as a record of the waitlist notice
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
@@ -1428,6 +1612,10 @@ export const rentalSubmissionPeople = pgTable("rental_submission_people", {
   // re-acknowledgment is required before the applicant may submit.
   propertyTermsAcknowledgedAt: timestamp("property_terms_acknowledged_at"),
   propertyTermsAckSnapshotJson: jsonb("property_terms_ack_snapshot_json"),
+  // The published selection criteria version shown on the cover page when
+  // the applicant acknowledged it.
+  selectionCriteriaAckId: varchar("selection_criteria_ack_id").references(() => rentalPropertySelectionCriteria.id, { onDelete: 'set null' }),
+  selectionCriteriaAcknowledgedAt: timestamp("selection_criteria_acknowledged_at"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
@@ -1476,6 +1664,50 @@ export const insertRentalSubmissionFileSchema = createInsertSchema(rentalSubmiss
 export type InsertRentalSubmissionFile = z.infer<typeof insertRentalSubmissionFileSchema>;
 export type RentalSubmissionFile = typeof rentalSubmissionFiles.$inferSelect;
 
+// Income sources per person on a submission, entered by the landlord or
+// imported from the application form and checked against uploaded income or
+// bank documents. Amounts are gross per pay period.
+export const rentalIncomeSources = pgTable("rental_income_sources", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  submissionId: varchar("submission_id").notNull().references(() => rentalSubmissions.id, { onDelete: 'cascade' }),
+  personId: varchar("person_id").notNull().references(() => rentalSubmissionPeople.id, { onDelete: 'cascade' }),
+  sourceType: varchar("source_type", { length: 20 }).notNull(), // employment | self_employment | benefits | other
+  payerName: text("payer_name"), // Employer, agency or other payer
+  payFrequency: varchar("pay_frequency", { length: 16 }).notNull(), // weekly | biweekly | semimonthly | monthly | annual
+  grossAmountCents: integer("gross_amount_cents").notNull(),
+  startDate: date("start_date"),
+  documentFileId: varchar("document_file_id").references(() => rentalSubmissionFiles.id, { onDelete: 'set null' }),
+  origin: varchar("origin", { length: 16 }).default('entered').notNull(), // entered | application
+  verifiedAt: timestamp("verified_at"), // Landlord checked the amount against the document
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  index("idx_rental_income_sources_submission").on(table.submissionId),
+]);
+
+export const rentalIncomeSourcesRelations = relations(rentalIncomeSources, ({ one }) => ({
+  submission: one(rentalSubmissions, {
+    fields: [rentalIncomeSources.submissionId],
+    references: [rentalSubmissions.id],
+  }),
+  person: one(rentalSubmissionPeople, {
+    fields: [rentalIncomeSources.personId],
+    references: [rentalSubmissionPeople.id],
+  }),
+  documentFile: one(rentalSubmissionFiles, {
+    fields: [rentalIncomeSources.documentFileId],
+    references: [rentalSubmissionFiles.id],
+  }),
+}));
+
+export const insertRentalIncomeSourceSchema = createInsertSchema(rentalIncomeSources).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+export type InsertRentalIncomeSource = z.infer<typeof insertRentalIncomeSourceSchema>;
+export type RentalIncomeSource = typeof rentalIncomeSources.$inferSelect;
+
 // Rental Submission Acknowledgements - cover page and other acks
 export const rentalSubmissionAcknowledgements = pgTable("rental_submission_acknowledgements", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -1518,18 +1750,19 @@ export const rentalScreeningStatusEnum = pgEnum('rental_screening_status', [
   'error',
 ]);
 
-// Rental Screening Orders - DigitalDelve integration (per-person screening)
+// Rental Screening Orders - per-person screening through the landlord's screening provider
 export const rentalScreeningOrders = pgTable("rental_screening_orders", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   submissionId: varchar("submission_id").notNull().references(() => rentalSubmissions.id, { onDelete: 'cascade' }),
   personId: varchar("person_id").references(() => rentalSubmissionPeople.id, { onDelete: 'cascade' }), // Person being screened
-  invitationId: text("invitation_id"), // DigitalDelve invitation ID
+  provider: varchar("provider", { length: 32 }).default('digitaldelve').notNull(), // digitaldelve | mock
+  invitationId: text("invitation_id"), // Provider package (DigitalDelve invitation ID)
   referenceNumber: varchar("reference_number", { length: 100 }).notNull().unique(), // Our reference number
   status: rentalScreeningStatusEnum("status").default('not_sent').notNull(),
-  reportId: text("report_id"), // DigitalDelve report ID
+  reportId: text("report_id"), // Provider report ID
   reportUrl: text("report_url"), // URL to view report
-  rawStatusXml: text("raw_status_xml"), // Raw status webhook data
-  rawResultXml: text("raw_result_xml"), // Raw result webhook data
+  rawStatusPayload: text("raw_status_payload"), // Raw status webhook body, in the provider's format
+  rawResultPayload: text("raw_result_payload"), // Raw result webhook body, in the provider's format
   errorMessage: text("error_message"),
   // Polling metadata for automatic status checks
   lastStatusCheckAt: timestamp("last_status_check_at"), // When we last checked status
@@ -1560,6 +1793,53 @@ export const insertRentalScreeningOrderSchema = createInsertSchema(rentalScreeni
 export type InsertRentalScreeningOrder = z.infer<typeof insertRentalScreeningOrderSchema>;
 export type RentalScreeningOrder = typeof rentalScreeningOrders.$inferSelect;
 
+// Structured findings parsed from a screening order's result webhook - one
+// row per credit score, collection tradeline, eviction filing or criminal
+// record. Used to pre-fill the denial decision flow; the raw payload on the
+// order stays the source of truth.
+export const screeningResultRecords = pgTable("screening_result_records", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  orderId: varchar("order_id").notNull().references(() => rentalScreeningOrders.id, { onDelete: 'cascade' }),
+  // Kind: credit_score | collection | eviction | criminal
+  kind: varchar("kind", { length: 16 }).notNull(),
+  // credit_score
+  creditScore: integer("credit_score"),
+  scoreBand: varchar("score_band", { length: 16 }), // excellent | good | fair | poor
+  // collection
+  creditorName: text("creditor_name"),
+  amountCents: integer("amount_cents"),
+  housingRelated: boolean("housing_related").default(false).notNull(), // Unpaid rent or utilities
+  // eviction and criminal
+  caseNumber: text("case_number"),
+  court: text("court"),
+  filedOn: date("filed_on"),
+  // Eviction: filed | dismissed | judgment | sealed | unknown
+  // Criminal: arrest | pending | dismissed | acquitted | convicted | sealed | unknown
+  disposition: varchar("disposition", { length: 16 }),
+  dispositionOn: date("disposition_on"),
+  // criminal
+  offenseClass: varchar("offense_class", { length: 16 }), // felony | misdemeanor | infraction | unknown
+  offenseDescription: text("offense_description"),
+  offenseOn: date("offense_on"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("idx_screening_result_records_order").on(table.orderId),
+]);
+
+export const screeningResultRecordsRelations = relations(screeningResultRecords, ({ one }) => ({
+  order: one(rentalScreeningOrders, {
+    fields: [screeningResultRecords.orderId],
+    references: [rentalScreeningOrders.id],
+  }),
+}));
+
+export const insertScreeningResultRecordSchema = createInsertSchema(screeningResultRecords).omit({
+  id: true,
+  createdAt: true,
+});
+export type InsertScreeningResultRecord = z.infer<typeof insertScreeningResultRecordSchema>;
+export type ScreeningResultRecord = typeof screeningResultRecords.$inferSelect;
+
 // Rental Decision Enum
 export const rentalDecisionTypeEnum = pgEnum('rental_decision_type', [
   'approved',
@@ -1574,6 +1854,17 @@ export const rentalDecisions = pgTable("rental_decisions", {
   decidedAt: timestamp("decided_at").notNull(),
   decidedByUserId: varchar("decided_by_user_id").notNull().references(() => users.id),
   notes: text("notes"), // Internal notes
+  // Approval hold: the applicant has until leaseSignDeadlineAt to sign the
+  // lease and pay the holding deposit (when one was requested). The unit's
+  // open application links are paused meanwhile and reopened if it expires.
+  leaseSignDeadlineAt: timestamp("lease_sign_deadline_at"),
+  // rent_payment_requests id. Application-layer reference only: that table
+  // references tenancies, which references this one.
+  holdingDepositRequestId: varchar("holding_deposit_request_id"),
+  leaseSignedAt: timestamp("lease_signed_at"),
+  pausedApplicationLinkIds: jsonb("paused_application_link_ids").$type<string[]>(),
+  holdCompletedAt: timestamp("hold_completed_at"),
+  holdExpiredAt: timestamp("hold_expired_at"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
@@ -1593,6 +1884,7 @@ export const rentalDecisionsRelations = relations(rentalDecisions, ({ one, many
 export const insertRentalDecisionSchema = createInsertSchema(rentalDecisions).omit({
   id: true,
   createdAt: true,
+  pausedApplicationLinkIds: true, // set when the approval hold starts
 });
 export type InsertRentalDecision = z.infer<typeof insertRentalDecisionSchema>;
 export type RentalDecision = typeof rentalDecisions.$inferSelect;
@@ -1703,6 +1995,7 @@ export const screeningCredentialStatusEnum = pgEnum('screening_credential_status
 export const landlordScreeningCredentials = pgTable("landlord_screening_credentials", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   userId: varchar("user_id").notNull().references(() => users.id, { onDelete: 'cascade' }).unique(),
+  provider: varchar("provider", { length: 32 }).default('digitaldelve').notNull(), // digitaldelve | mock
   encryptedUsername: text("encrypted_username").notNull(),
   encryptedPassword: text("encrypted_password").notNull(),
   encryptionIv: text("encryption_iv").notNull(),
@@ -2443,7 +2736,7 @@ export const decisionOutcomeEnum = pgEnum('decision_outcome', [
 export const denialDecisionAuditLogs = pgTable("denial_decision_audit_logs", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   userId: varchar("user_id").notNull().references(() => users.id),
-  propertyId: varchar("property_id").references(() => properties.id),
+  propertyId: varchar("property_id").references(() => rentalProperties.id, { onDelete: 'set null' }),
   applicantName: text("applicant_name"), // For reference, not PII stored
   stateId: varchar("state_id", { length: 2 }).notNull().references(() => states.id),
   countyId: varchar("county_id").references(() => counties.id),
@@ -2462,6 +2755,11 @@ export const denialDecisionAuditLogs = pgTable("denial_decision_audit_logs", {
   conditions: jsonb("conditions").$type<string[]>(), // For conditional approvals
   fairChanceStepsCompleted: jsonb("fair_chance_steps_completed").$type<Record<string, boolean>>(),
   noticesProvided: jsonb("notices_provided").$type<string[]>(), // ["adverse_action", "pre_adverse", etc.]
+  // Set when the decision was made from a rental application: the selection
+  // criteria version the applicant was held to, and any denial reasons
+  // (criteria ids) that version didn't publish.
+  selectionCriteriaId: varchar("selection_criteria_id").references(() => rentalPropertySelectionCriteria.id, { onDelete: 'set null' }),
+  unpublishedCriteria: jsonb("unpublished_criteria").$type<string[]>(),
   ipAddress: varchar("ip_address", { length: 45 }),
   userAgent: text("user_agent"),
   createdAt: timestamp("created_at").defaultNow(),
@@ -2476,9 +2774,9 @@ export const denialDecisionAuditLogsRelations = relations(denialDecisionAuditLog
     fields: [denialDecisionAuditLogs.userId],
     references: [users.id],
   }),
-  property: one(properties, {
+  property: one(rentalProperties, {
     fields: [denialDecisionAuditLogs.propertyId],
-    references: [properties.id],
+    references: [rentalProperties.id],
   }),
   state: one(states, {
     fields: [denialDecisionAuditLogs.stateId],
@@ -2501,6 +2799,50 @@ export const insertDenialDecisionAuditLogSchema = createInsertSchema(denialDecis
 export type InsertDenialDecisionAuditLog = z.infer<typeof insertDenialDecisionAuditLogSchema>;
 export type DenialDecisionAuditLog = typeof denialDecisionAuditLogs.$inferSelect;
 
+// Fair-chance individualized assessment for a criminal-history denial. The
+// final adverse action letter stays locked until the pre-adverse notice has
+// gone out and the applicant's response window has run.
+export const individualizedAssessments = pgTable("individualized_assessments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  auditLogId: varchar("audit_log_id").notNull().unique().references(() => denialDecisionAuditLogs.id, { onDelete: 'cascade' }),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  requiredSteps: jsonb("required_steps").$type<string[]>().notNull(), // Snapshot of the rules' requiredSteps
+  mitigatingFactors: jsonb("mitigating_factors").$type<string[]>().default([]).notNull(), // MITIGATING_FACTORS values
+  offenseRelevance: text("offense_relevance"), // Why the record bears on resident safety or property
+  assessmentNotes: text("assessment_notes"),
+  preAdverseNoticeSentOn: date("pre_adverse_notice_sent_on"),
+  responseDays: integer("response_days").default(5).notNull(),
+  responseDayType: varchar("response_day_type", { length: 16 }).default('business').notNull(), // business | calendar
+  responseDeadline: date("response_deadline"),
+  responseDeadlineExplain: text("response_deadline_explain"),
+  applicantRespondedOn: date("applicant_responded_on"),
+  applicantResponse: text("applicant_response"),
+  completedAt: timestamp("completed_at"), // Final adverse action letter generated
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  index("idx_individualized_assessments_user").on(table.userId),
+]);
+
+export const individualizedAssessmentsRelations = relations(individualizedAssessments, ({ one }) => ({
+  auditLog: one(denialDecisionAuditLogs, {
+    fields: [individualizedAssessments.auditLogId],
+    references: [denialDecisionAuditLogs.id],
+  }),
+  user: one(users, {
+    fields: [individualizedAssessments.userId],
+    references: [users.id],
+  }),
+}));
+
+export const insertIndividualizedAssessmentSchema = createInsertSchema(individualizedAssessments).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+export type InsertIndividualizedAssessment = z.infer<typeof insertIndividualizedAssessmentSchema>;
+export type IndividualizedAssessment = typeof individualizedAssessments.$inferSelect;
+
 // Document Re-upload Tokens - secure links for applicants to re-upload missing docs
 export const documentReuploadTokens = pgTable("document_reupload_tokens", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -2556,8 +2898,16 @@ export const dayTypeEnum = pgEnum('day_type', [
   'judicial_holidays_excluded',
 ]);
 
+// How the notice period is counted from the service date (see
+// server/engine/dateEngine.ts). day0 = the day of service is excluded and the
+// period ends on day N; day1 = the day of service counts as day 1.
+// "_roll_forward" = a last day falling on a weekend or holiday moves to the
+// next day that isn't one.
 export const countingConventionEnum = pgEnum('counting_convention', [
   'day0_service_plus_n',
+  'day0_service_plus_n_roll_forward',
+  'day1_service_inclusive',
+  'day1_service_inclusive_roll_forward',
 ]);
 
 export const outputModeEnum = pgEnum('output_mode', [
@@ -2709,6 +3059,9 @@ export const formServiceRules = pgTable("form_service_rules", {
   additionalMethodIds: jsonb("additional_method_ids").$type<string[]>().default([]),
   ackText: text("ack_text"),
   requiresAck: boolean("requires_ack").notNull().default(false),
+  // Days added to the notice period when served by this method (e.g. +3 for
+  // first-class mail). The largest extension among the selected methods applies.
+  extensionDays: integer("extension_days").notNull().default(0),
   sortOrder: integer("sort_order").notNull().default(0),
 }, (table) => [
   index("idx_form_service_rules_version").on(table.formVersionId),
@@ -2785,6 +3138,9 @@ export const outputTemplates = pgTable("output_templates", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   formVersionId: varchar("form_version_id").notNull().references(() => noticeFormVersions.id, { onDelete: 'cascade' }),
   mode: outputModeEnum("mode").notNull(),
+  // Purpose: notice | proof_of_service (the state's certificate/affidavit of
+  // service form, filled from the notice's service log)
+  purpose: varchar("purpose", { length: 24 }).notNull().default('notice'),
   renderStrategy: renderStrategyEnum("render_strategy").default('form_fields'),
   basePdfAttachmentPath: text("base_pdf_attachment_path"),
   htmlTemplate: text("html_template"),
@@ -2822,6 +3178,7 @@ export const generatedNoticeDocuments = pgTable("generated_notice_documents", {
   leaseGateAnswers: jsonb("lease_gate_answers").$type<Record<string, string | number | boolean>>(),
   calculatedComplianceDeadline: date("calculated_compliance_deadline"),
   calculatedEarliestFilingDate: date("calculated_earliest_filing_date"),
+  serviceDate: date("service_date"), // the service date the deadlines above were calculated from
   holidayCalendarVersionUsed: varchar("holiday_calendar_version_used"),
   overrideComplianceDeadline: date("override_compliance_deadline"),
   overrideConfirmedAt: timestamp("override_confirmed_at"),
@@ -3005,16 +3362,23 @@ export const rentPaymentRequests = pgTable("rent_payment_requests", {
   amountPaid: integer("amount_paid").default(0).notNull(), // total paid in cents
   dueDate: date("due_date").notNull(),
   description: text("description"),
-  // Distinguishes a normal rent request from a one-time application fee so the
-  // public pay page can render the right wording. Defaults to "rent" so all
-  // existing rows and the rent flow are unaffected.
+  // Distinguishes a normal rent request from a one-time application fee or
+  // holding deposit so the public pay page can render the right wording.
+  // Defaults to "rent" so all existing rows and the rent flow are unaffected.
+  // rent | application_fee | holding_deposit
   requestType: varchar("request_type", { length: 24 }).notNull().default("rent"),
   publicToken: varchar("public_token", { length: 64 }).notNull().unique(),
   // Late fee config (per lease terms)
   lateFeeAmount: integer("late_fee_amount").default(0).notNull(), // cents
   gracePeriodDays: integer("grace_period_days").default(5).notNull(),
-  lateFeeAppliedAt: timestamp("late_fee_applied_at"),
-  lateFeeLedgerEntryId: varchar("late_fee_ledger_entry_id"),
+  // Optional structured policy (flat / percent / daily / tiered). NULL means
+  // the legacy flat lateFeeAmount applies. See shared/lateFeePolicy.ts.
+  lateFeePolicyJson: jsonb("late_fee_policy_json").$type<LateFeePolicy>(),
+  lateFeeAppliedAt: timestamp("late_fee_applied_at"), // first late-fee posting
+  lateFeeLedgerEntryId: varchar("late_fee_ledger_entry_id"), // most recent late-fee posting
+  // Running total of late fees posted (cents). Accruing policies post the
+  // delta each run; `amount` includes this total.
+  lateFeeAssessedAmount: integer("late_fee_assessed_amount").default(0).notNull(),
   // Auto-reminder config
   reminderDaysBefore: integer("reminder_days_before").default(5).notNull(),
   reminderSentAt: timestamp("reminder_sent_at"),
@@ -3040,6 +3404,9 @@ export const rentPaymentRequests = pgTable("rent_payment_requests", {
   // No FK at the DB level (application-layer reference only) to keep the
   // additive migration zero-risk.
   rentSubscriptionId: varchar("rent_subscription_id"),
+  // Lease this request bills against. NULL for requests created before
+  // tenancies existed or for one-off charges (e.g. application fees).
+  tenancyId: varchar("tenancy_id").references(() => tenancies.id, { onDelete: 'set null' }),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 }, (table) => [
@@ -3048,6 +3415,7 @@ export const rentPaymentRequests = pgTable("rent_payment_requests", {
   index("idx_rent_payment_due_date").on(table.dueDate),
   index("idx_rent_payment_token").on(table.publicToken),
   index("idx_rent_payment_subscription").on(table.rentSubscriptionId),
+  index("idx_rent_payment_tenancy").on(table.tenancyId),
 ]);
 
 // =====================================================================
@@ -3070,6 +3438,7 @@ export const rentSubscriptions = pgTable("rent_subscriptions", {
   // Late fee config (mirror of rent_payment_requests so each generated debit inherits)
   lateFeeAmount: integer("late_fee_amount").default(0).notNull(),
   gracePeriodDays: integer("grace_period_days").default(5).notNull(),
+  lateFeePolicyJson: jsonb("late_fee_policy_json").$type<LateFeePolicy>(),
   // Tenant authorization link
   publicToken: varchar("public_token", { length: 64 }).notNull().unique(),
   // Status: pending_authorization | active | paused | revoked_by_tenant | failed | canceled | completed
@@ -3095,10 +3464,13 @@ export const rentSubscriptions = pgTable("rent_subscriptions", {
   revokedReason: text("revoked_reason"),
   lastDebitAttemptAt: timestamp("last_debit_attempt_at"),
   description: text("description"),
+  // Lease this auto-pay collects for. Generated debits inherit it.
+  tenancyId: varchar("tenancy_id").references(() => tenancies.id, { onDelete: 'set null' }),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 }, (table) => [
   index("idx_rent_sub_user").on(table.userId),
+  index("idx_rent_sub_tenancy").on(table.tenancyId),
   index("idx_rent_sub_status").on(table.status),
   index("idx_rent_sub_next_date").on(table.nextScheduledDate),
   index("idx_rent_sub_token").on(table.publicToken),
@@ -3118,6 +3490,10 @@ export const rentSubscriptionsRelations = relations(rentSubscriptions, ({ one })
     fields: [rentSubscriptions.rentalPropertyId],
     references: [rentalProperties.id],
   }),
+  tenancy: one(tenancies, {
+    fields: [rentSubscriptions.tenancyId],
+    references: [tenancies.id],
+  }),
 }));
 
 export const insertRentSubscriptionSchema = createInsertSchema(rentSubscriptions).omit({
@@ -3155,6 +3531,10 @@ export const rentPaymentRequestsRelations = relations(rentPaymentRequests, ({ on
     fields: [rentPaymentRequests.rentalPropertyId],
     references: [rentalProperties.id],
   }),
+  tenancy: one(tenancies, {
+    fields: [rentPaymentRequests.tenancyId],
+    references: [tenancies.id],
+  }),
 }));
 
 export const insertRentPaymentRequestSchema = createInsertSchema(rentPaymentRequests).omit({
@@ -3165,6 +3545,7 @@ export const insertRentPaymentRequestSchema = createInsertSchema(rentPaymentRequ
   reminderSentAt: true,
   lateFeeAppliedAt: true,
   lateFeeLedgerEntryId: true,
+  lateFeeAssessedAmount: true,
   stripeCheckoutSessionId: true,
   stripePaymentIntentId: true,
   ledgerEntryId: true,
@@ -3174,3 +3555,806 @@ export const insertRentPaymentRequestSchema = createInsertSchema(rentPaymentRequ
 });
 export type InsertRentPaymentRequest = z.infer<typeof insertRentPaymentRequestSchema>;
 export type RentPaymentRequest = typeof rentPaymentRequests.$inferSelect;
+
+// =====================================================================
+// Tenancies - first-class lease records. A tenancy ties a rental property
+// (and optionally a unit) to the people living there, and is the anchor the
+// rent ledger, payment requests, auto-pay subscriptions and saved documents
+// hang off of. Usually created from an approved rental decision so the
+// applicant data carries straight through, but can also be created manually
+// for tenants who were placed before the landlord joined.
+// =====================================================================
+export const tenancies = pgTable("tenancies", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: 'cascade' }),
+  rentalPropertyId: varchar("rental_property_id").references(() => rentalProperties.id, { onDelete: 'set null' }),
+  rentalUnitId: varchar("rental_unit_id").references(() => rentalUnits.id, { onDelete: 'set null' }),
+  // Originating application, when the tenancy was created from an approval.
+  submissionId: varchar("submission_id").references(() => rentalSubmissions.id, { onDelete: 'set null' }),
+  decisionId: varchar("decision_id").references(() => rentalDecisions.id, { onDelete: 'set null' }),
+  // Status: pending (approved, lease not yet in effect) | active | ended | canceled
+  status: varchar("status", { length: 24 }).notNull().default("pending"),
+  startDate: date("start_date").notNull(),
+  endDate: date("end_date"), // null = month-to-month
+  monthlyRent: integer("monthly_rent").notNull(), // cents
+  securityDeposit: integer("security_deposit").default(0).notNull(), // cents
+  rentDueDay: integer("rent_due_day").default(1).notNull(), // 1-28
+  notes: text("notes"),
+  endedAt: timestamp("ended_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  index("idx_tenancies_user").on(table.userId),
+  index("idx_tenancies_property").on(table.rentalPropertyId),
+  index("idx_tenancies_unit").on(table.rentalUnitId),
+  // One tenancy per approved application - re-clicking "Create lease" must not
+  // produce a duplicate.
+  uniqueIndex("tenancies_one_per_submission").on(table.submissionId),
+]);
+
+// Tenancy Occupants - the people on a lease. Leaseholders ("tenant") are
+// financially responsible; "occupant" covers adults/minors who live there
+// without signing; "guarantor" backs the lease without living there.
+export const tenancyOccupants = pgTable("tenancy_occupants", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenancyId: varchar("tenancy_id").notNull().references(() => tenancies.id, { onDelete: 'cascade' }),
+  // Role: tenant | occupant | guarantor
+  role: varchar("role", { length: 16 }).notNull().default("tenant"),
+  fullName: text("full_name").notNull(),
+  email: varchar("email"),
+  phone: varchar("phone"),
+  isPrimary: boolean("is_primary").default(false).notNull(), // Name used on ledger/payment rows
+  submissionPersonId: varchar("submission_person_id").references(() => rentalSubmissionPeople.id, { onDelete: 'set null' }),
+  // Tenant portal login. Set when the occupant accepts a portal invite; the
+  // invite token is cleared on acceptance.
+  userId: varchar("user_id").references(() => users.id, { onDelete: 'set null' }),
+  portalInviteToken: varchar("portal_invite_token", { length: 64 }).unique(),
+  portalInvitedAt: timestamp("portal_invited_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("idx_tenancy_occupants_tenancy").on(table.tenancyId),
+  index("idx_tenancy_occupants_user").on(table.userId),
+]);
+
+export const tenanciesRelations = relations(tenancies, ({ one, many }) => ({
+  user: one(users, {
+    fields: [tenancies.userId],
+    references: [users.id],
+  }),
+  property: one(rentalProperties, {
+    fields: [tenancies.rentalPropertyId],
+    references: [rentalProperties.id],
+  }),
+  unit: one(rentalUnits, {
+    fields: [tenancies.rentalUnitId],
+    references: [rentalUnits.id],
+  }),
+  submission: one(rentalSubmissions, {
+    fields: [tenancies.submissionId],
+    references: [rentalSubmissions.id],
+  }),
+  decision: one(rentalDecisions, {
+    fields: [tenancies.decisionId],
+    references: [rentalDecisions.id],
+  }),
+  occupants: many(tenancyOccupants),
+  ledgerEntries: many(rentLedgerEntries),
+  paymentRequests: many(rentPaymentRequests),
+  subscriptions: many(rentSubscriptions),
+  documents: many(savedDocuments),
+  deposits: many(securityDeposits),
+  maintenanceRequests: many(maintenanceRequests),
+}));
+
+export const tenancyOccupantsRelations = relations(tenancyOccupants, ({ one }) => ({
+  tenancy: one(tenancies, {
+    fields: [tenancyOccupants.tenancyId],
+    references: [tenancies.id],
+  }),
+  submissionPerson: one(rentalSubmissionPeople, {
+    fields: [tenancyOccupants.submissionPersonId],
+    references: [rentalSubmissionPeople.id],
+  }),
+  user: one(users, {
+    fields: [tenancyOccupants.userId],
+    references: [users.id],
+  }),
+}));
+
+export const insertTenancySchema = createInsertSchema(tenancies).omit({
+  id: true,
+  endedAt: true,
+  createdAt: true,
+  updatedAt: true,
+});
+export type InsertTenancy = z.infer<typeof insertTenancySchema>;
+export type Tenancy = typeof tenancies.$inferSelect;
+
+export const insertTenancyOccupantSchema = createInsertSchema(tenancyOccupants).omit({
+  id: true,
+  tenancyId: true,
+  userId: true,
+  portalInviteToken: true,
+  portalInvitedAt: true,
+  createdAt: true,
+});
+export type InsertTenancyOccupant = z.infer<typeof insertTenancyOccupantSchema>;
+export type TenancyOccupant = typeof tenancyOccupants.$inferSelect;
+
+// =====================================================================
+// Document Signatures - native e-signature for saved documents (leases and
+// notices). Sending a request snapshots the rendered PDF (and its SHA-256)
+// into object storage so every party signs exactly the same bytes. Each
+// party gets a tokenized signing link; consent, IP, user agent and timestamp
+// are captured the same way screening disclosures are acknowledged. When the
+// last party signs, signatures are stamped onto the snapshot and a
+// certificate of completion is written back to the saved document.
+// =====================================================================
+export const documentSignatureRequests = pgTable("document_signature_requests", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: 'cascade' }),
+  savedDocumentId: varchar("saved_document_id").notNull().references(() => savedDocuments.id, { onDelete: 'cascade' }),
+  // Status: pending | completed | canceled | declined
+  status: varchar("status", { length: 16 }).notNull().default("pending"),
+  message: text("message"), // Optional note from the landlord shown on the signing page
+  unsignedPdfPath: text("unsigned_pdf_path").notNull(),
+  unsignedPdfSha256: varchar("unsigned_pdf_sha256", { length: 64 }).notNull(),
+  signedPdfPath: text("signed_pdf_path"),
+  signedPdfSha256: varchar("signed_pdf_sha256", { length: 64 }),
+  completedAt: timestamp("completed_at"),
+  canceledAt: timestamp("canceled_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  index("idx_doc_sig_requests_user").on(table.userId),
+  index("idx_doc_sig_requests_document").on(table.savedDocumentId),
+]);
+
+export const documentSigners = pgTable("document_signers", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  requestId: varchar("request_id").notNull().references(() => documentSignatureRequests.id, { onDelete: 'cascade' }),
+  name: text("name").notNull(),
+  email: varchar("email").notNull(),
+  role: varchar("role", { length: 24 }).notNull().default("tenant"), // landlord | tenant | cosigner | guarantor
+  token: varchar("token", { length: 64 }).notNull().unique(),
+  // Status: pending | viewed | signed | declined
+  status: varchar("status", { length: 16 }).notNull().default("pending"),
+  viewedAt: timestamp("viewed_at"),
+  // Signature capture
+  signatureType: varchar("signature_type", { length: 8 }), // typed | drawn
+  signatureText: text("signature_text"), // Typed name (also recorded for drawn signatures)
+  signatureImage: text("signature_image"), // PNG data URL for drawn signatures
+  consentText: text("consent_text"), // ESIGN consent wording shown at signing time
+  signedAt: timestamp("signed_at"),
+  ipAddress: text("ip_address"),
+  userAgent: text("user_agent"),
+  declinedAt: timestamp("declined_at"),
+  declineReason: text("decline_reason"),
+  lastEmailedAt: timestamp("last_emailed_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("idx_document_signers_request").on(table.requestId),
+]);
+
+export const documentSignatureRequestsRelations = relations(documentSignatureRequests, ({ one, many }) => ({
+  user: one(users, {
+    fields: [documentSignatureRequests.userId],
+    references: [users.id],
+  }),
+  document: one(savedDocuments, {
+    fields: [documentSignatureRequests.savedDocumentId],
+    references: [savedDocuments.id],
+  }),
+  signers: many(documentSigners),
+}));
+
+export const documentSignersRelations = relations(documentSigners, ({ one }) => ({
+  request: one(documentSignatureRequests, {
+    fields: [documentSigners.requestId],
+    references: [documentSignatureRequests.id],
+  }),
+}));
+
+export const insertDocumentSignatureRequestSchema = createInsertSchema(documentSignatureRequests).omit({
+  id: true,
+  signedPdfPath: true,
+  signedPdfSha256: true,
+  completedAt: true,
+  canceledAt: true,
+  createdAt: true,
+  updatedAt: true,
+});
+export type InsertDocumentSignatureRequest = z.infer<typeof insertDocumentSignatureRequestSchema>;
+export type DocumentSignatureRequest = typeof documentSignatureRequests.$inferSelect;
+
+export const insertDocumentSignerSchema = createInsertSchema(documentSigners).omit({
+  id: true,
+  requestId: true,
+  createdAt: true,
+});
+export type InsertDocumentSigner = z.infer<typeof insertDocumentSignerSchema>;
+export type DocumentSigner = typeof documentSigners.$inferSelect;
+
+// =====================================================================
+// Security Deposits - money held against a tenancy. Entering a move-out date
+// fixes the statutory return deadline (state deposit_return_days clause) and
+// moves the deposit to awaiting_disposition. Deductions are itemized against
+// move-out checklist findings; disposition posts one ledger entry for the
+// deductions applied and produces the itemization letter.
+// =====================================================================
+export const securityDeposits = pgTable("security_deposits", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: 'cascade' }),
+  tenancyId: varchar("tenancy_id").notNull().references(() => tenancies.id, { onDelete: 'cascade' }),
+  depositType: varchar("deposit_type", { length: 16 }).notNull().default("security"), // security | pet | key | other
+  amount: integer("amount").notNull(), // cents
+  collectedDate: date("collected_date").notNull(),
+  holdingAccount: text("holding_account"), // Where the funds are held (bank / escrow account)
+  interestRatePct: doublePrecision("interest_rate_pct"), // Annual simple interest owed to the tenant; null = none
+  // Status: held | awaiting_disposition | disposed
+  status: varchar("status", { length: 24 }).notNull().default("held"),
+  moveOutDate: date("move_out_date"),
+  returnDeadline: date("return_deadline"), // move-out date + state return days
+  returnDeadlineDays: integer("return_deadline_days"),
+  returnDeadlineCitation: text("return_deadline_citation"),
+  forwardingAddress: text("forwarding_address"), // Where the itemization letter and refund are sent
+  // Disposition (all cents)
+  dispositionDate: date("disposition_date"),
+  interestAmount: integer("interest_amount").default(0).notNull(),
+  totalDeductions: integer("total_deductions").default(0).notNull(),
+  amountReturned: integer("amount_returned"),
+  dispositionLedgerEntryId: varchar("disposition_ledger_entry_id").references(() => rentLedgerEntries.id, { onDelete: 'set null' }),
+  notes: text("notes"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  index("idx_security_deposits_user").on(table.userId),
+  index("idx_security_deposits_tenancy").on(table.tenancyId),
+]);
+
+// One line of the itemization. Room/item/condition reference the move-out
+// checklist finding the charge is based on; they are optional so charges
+// like unpaid rent or cleaning can be itemized too.
+export const securityDepositDeductions = pgTable("security_deposit_deductions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  depositId: varchar("deposit_id").notNull().references(() => securityDeposits.id, { onDelete: 'cascade' }),
+  checklistRoom: varchar("checklist_room", { length: 48 }),
+  checklistItem: varchar("checklist_item", { length: 64 }),
+  condition: varchar("condition", { length: 8 }), // Move-out rating: E | G | F | P | N/A
+  description: text("description").notNull(),
+  amount: integer("amount").notNull(), // cents
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("idx_security_deposit_deductions_deposit").on(table.depositId),
+]);
+
+export const securityDepositsRelations = relations(securityDeposits, ({ one, many }) => ({
+  user: one(users, {
+    fields: [securityDeposits.userId],
+    references: [users.id],
+  }),
+  tenancy: one(tenancies, {
+    fields: [securityDeposits.tenancyId],
+    references: [tenancies.id],
+  }),
+  dispositionLedgerEntry: one(rentLedgerEntries, {
+    fields: [securityDeposits.dispositionLedgerEntryId],
+    references: [rentLedgerEntries.id],
+  }),
+  deductions: many(securityDepositDeductions),
+}));
+
+export const securityDepositDeductionsRelations = relations(securityDepositDeductions, ({ one }) => ({
+  deposit: one(securityDeposits, {
+    fields: [securityDepositDeductions.depositId],
+    references: [securityDeposits.id],
+  }),
+}));
+
+export const insertSecurityDepositSchema = createInsertSchema(securityDeposits).omit({
+  id: true,
+  status: true,
+  moveOutDate: true,
+  returnDeadline: true,
+  returnDeadlineDays: true,
+  returnDeadlineCitation: true,
+  dispositionDate: true,
+  interestAmount: true,
+  totalDeductions: true,
+  amountReturned: true,
+  dispositionLedgerEntryId: true,
+  createdAt: true,
+  updatedAt: true,
+});
+export type InsertSecurityDeposit = z.infer<typeof insertSecurityDepositSchema>;
+export type SecurityDeposit = typeof securityDeposits.$inferSelect;
+
+export const insertSecurityDepositDeductionSchema = createInsertSchema(securityDepositDeductions).omit({
+  id: true,
+  createdAt: true,
+});
+export type InsertSecurityDepositDeduction = z.infer<typeof insertSecurityDepositDeductionSchema>;
+export type SecurityDepositDeduction = typeof securityDepositDeductions.$inferSelect;
+
+// =====================================================================
+// Maintenance - work-order tickets against a property/unit, submitted by
+// tenants from the portal or entered by the landlord. Priority sets the
+// response/resolution SLA (see shared/maintenance.ts); every status change,
+// assignment and note is appended to maintenance_request_events so the
+// landlord has a dated record of how quickly each repair was handled.
+// =====================================================================
+export const vendors = pgTable("vendors", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: 'cascade' }),
+  name: text("name").notNull(),
+  // Trade: same values as maintenance categories (plumbing, electrical, ...)
+  trade: varchar("trade", { length: 24 }),
+  phone: varchar("phone"),
+  email: varchar("email"),
+  notes: text("notes"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  index("idx_vendors_user").on(table.userId),
+]);
+
+export const maintenanceRequests = pgTable("maintenance_requests", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: 'cascade' }), // Landlord
+  tenancyId: varchar("tenancy_id").references(() => tenancies.id, { onDelete: 'set null' }),
+  rentalPropertyId: varchar("rental_property_id").references(() => rentalProperties.id, { onDelete: 'set null' }),
+  rentalUnitId: varchar("rental_unit_id").references(() => rentalUnits.id, { onDelete: 'set null' }),
+  submittedByUserId: varchar("submitted_by_user_id").references(() => users.id, { onDelete: 'set null' }), // Tenant login, if submitted from the portal
+  // Category: plumbing | electrical | appliance | hvac | pest | structural | other
+  category: varchar("category", { length: 24 }).notNull().default("other"),
+  // Priority: emergency | urgent | routine
+  priority: varchar("priority", { length: 16 }).notNull().default("routine"),
+  title: text("title").notNull(),
+  description: text("description").notNull(),
+  permissionToEnter: boolean("permission_to_enter").default(false).notNull(),
+  // Status: open | in_progress | completed | canceled
+  status: varchar("status", { length: 16 }).notNull().default("open"),
+  // Work order
+  vendorId: varchar("vendor_id").references(() => vendors.id, { onDelete: 'set null' }),
+  scheduledFor: date("scheduled_for"),
+  estimatedCost: integer("estimated_cost"), // cents
+  actualCost: integer("actual_cost"), // cents
+  landlordNotes: text("landlord_notes"), // Never shown to the tenant
+  // SLA timers, set from priority at submission (recomputed if priority changes)
+  respondByAt: timestamp("respond_by_at"),
+  resolveByAt: timestamp("resolve_by_at"),
+  acknowledgedAt: timestamp("acknowledged_at"), // First move off "open"
+  completedAt: timestamp("completed_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  index("idx_maintenance_requests_user").on(table.userId),
+  index("idx_maintenance_requests_tenancy").on(table.tenancyId),
+  index("idx_maintenance_requests_property").on(table.rentalPropertyId),
+]);
+
+// Status history / activity log for a ticket. Append-only.
+export const maintenanceRequestEvents = pgTable("maintenance_request_events", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  requestId: varchar("request_id").notNull().references(() => maintenanceRequests.id, { onDelete: 'cascade' }),
+  // Type: created | status_change | priority_change | vendor_assigned | scheduled | note | photo_added
+  eventType: varchar("event_type", { length: 24 }).notNull(),
+  fromValue: text("from_value"),
+  toValue: text("to_value"),
+  note: text("note"),
+  actorUserId: varchar("actor_user_id").references(() => users.id, { onDelete: 'set null' }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("idx_maintenance_request_events_request").on(table.requestId),
+]);
+
+export const maintenanceRequestPhotos = pgTable("maintenance_request_photos", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  requestId: varchar("request_id").notNull().references(() => maintenanceRequests.id, { onDelete: 'cascade' }),
+  storagePath: text("storage_path").notNull(), // Private object storage path
+  fileName: text("file_name").notNull(),
+  contentType: varchar("content_type", { length: 64 }).notNull(),
+  sizeBytes: integer("size_bytes").notNull(),
+  uploadedByUserId: varchar("uploaded_by_user_id").references(() => users.id, { onDelete: 'set null' }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("idx_maintenance_request_photos_request").on(table.requestId),
+]);
+
+export const vendorsRelations = relations(vendors, ({ one, many }) => ({
+  user: one(users, {
+    fields: [vendors.userId],
+    references: [users.id],
+  }),
+  maintenanceRequests: many(maintenanceRequests),
+}));
+
+export const maintenanceRequestsRelations = relations(maintenanceRequests, ({ one, many }) => ({
+  user: one(users, {
+    fields: [maintenanceRequests.userId],
+    references: [users.id],
+  }),
+  tenancy: one(tenancies, {
+    fields: [maintenanceRequests.tenancyId],
+    references: [tenancies.id],
+  }),
+  property: one(rentalProperties, {
+    fields: [maintenanceRequests.rentalPropertyId],
+    references: [rentalProperties.id],
+  }),
+  unit: one(rentalUnits, {
+    fields: [maintenanceRequests.rentalUnitId],
+    references: [rentalUnits.id],
+  }),
+  vendor: one(vendors, {
+    fields: [maintenanceRequests.vendorId],
+    references: [vendors.id],
+  }),
+  events: many(maintenanceRequestEvents),
+  photos: many(maintenanceRequestPhotos),
+}));
+
+export const maintenanceRequestEventsRelations = relations(maintenanceRequestEvents, ({ one }) => ({
+  request: one(maintenanceRequests, {
+    fields: [maintenanceRequestEvents.requestId],
+    references: [maintenanceRequests.id],
+  }),
+}));
+
+export const maintenanceRequestPhotosRelations = relations(maintenanceRequestPhotos, ({ one }) => ({
+  request: one(maintenanceRequests, {
+    fields: [maintenanceRequestPhotos.requestId],
+    references: [maintenanceRequests.id],
+  }),
+}));
+
+export const insertVendorSchema = createInsertSchema(vendors).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+export type InsertVendor = z.infer<typeof insertVendorSchema>;
+export type Vendor = typeof vendors.$inferSelect;
+
+export const insertMaintenanceRequestSchema = createInsertSchema(maintenanceRequests).omit({
+  id: true,
+  acknowledgedAt: true,
+  completedAt: true,
+  createdAt: true,
+  updatedAt: true,
+});
+export type InsertMaintenanceRequest = z.infer<typeof insertMaintenanceRequestSchema>;
+export type MaintenanceRequest = typeof maintenanceRequests.$inferSelect;
+
+export const insertMaintenanceRequestEventSchema = createInsertSchema(maintenanceRequestEvents).omit({
+  id: true,
+  createdAt: true,
+});
+export type InsertMaintenanceRequestEvent = z.infer<typeof insertMaintenanceRequestEventSchema>;
+export type MaintenanceRequestEvent = typeof maintenanceRequestEvents.$inferSelect;
+
+export const insertMaintenanceRequestPhotoSchema = createInsertSchema(maintenanceRequestPhotos).omit({
+  id: true,
+  createdAt: true,
+});
+export type InsertMaintenanceRequestPhoto = z.infer<typeof insertMaintenanceRequestPhotoSchema>;
+export type MaintenanceRequestPhoto = typeof maintenanceRequestPhotos.$inferSelect;
+
+// =====================================================================
+// Property Expenses - what the landlord spends on a property, categorized
+// for IRS Schedule E (see shared/propertyExpenses.ts). One receipt per
+// expense, kept in private object storage.
+// =====================================================================
+export const propertyExpenses = pgTable("property_expenses", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: 'cascade' }),
+  rentalPropertyId: varchar("rental_property_id").notNull().references(() => rentalProperties.id, { onDelete: 'cascade' }),
+  rentalUnitId: varchar("rental_unit_id").references(() => rentalUnits.id, { onDelete: 'set null' }),
+  vendorId: varchar("vendor_id").references(() => vendors.id, { onDelete: 'set null' }),
+  // Work order this pays for, so its cost isn't counted twice in reports
+  maintenanceRequestId: varchar("maintenance_request_id").references(() => maintenanceRequests.id, { onDelete: 'set null' }),
+  // Category: repairs | insurance | taxes | utilities | management_fees | mortgage_interest | ...
+  category: varchar("category", { length: 32 }).notNull(),
+  amount: integer("amount").notNull(), // cents
+  expenseDate: date("expense_date").notNull(), // date paid
+  payee: text("payee"), // when there's no vendor record
+  description: text("description"),
+  paymentMethod: varchar("payment_method", { length: 50 }),
+  receiptPath: text("receipt_path"), // Private object storage path
+  receiptFileName: text("receipt_file_name"),
+  receiptContentType: varchar("receipt_content_type", { length: 64 }),
+  receiptSizeBytes: integer("receipt_size_bytes"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  index("idx_property_expenses_user").on(table.userId),
+  index("idx_property_expenses_property").on(table.rentalPropertyId),
+  index("idx_property_expenses_date").on(table.expenseDate),
+]);
+
+export const propertyExpensesRelations = relations(propertyExpenses, ({ one }) => ({
+  user: one(users, {
+    fields: [propertyExpenses.userId],
+    references: [users.id],
+  }),
+  property: one(rentalProperties, {
+    fields: [propertyExpenses.rentalPropertyId],
+    references: [rentalProperties.id],
+  }),
+  unit: one(rentalUnits, {
+    fields: [propertyExpenses.rentalUnitId],
+    references: [rentalUnits.id],
+  }),
+  vendor: one(vendors, {
+    fields: [propertyExpenses.vendorId],
+    references: [vendors.id],
+  }),
+  maintenanceRequest: one(maintenanceRequests, {
+    fields: [propertyExpenses.maintenanceRequestId],
+    references: [maintenanceRequests.id],
+  }),
+}));
+
+export const insertPropertyExpenseSchema = createInsertSchema(propertyExpenses).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+export type InsertPropertyExpense = z.infer<typeof insertPropertyExpenseSchema>;
+export type PropertyExpense = typeof propertyExpenses.$inferSelect;
+
+// =====================================================================
+// Eviction Cases - the court timeline that follows a served notice. Each
+// case is anchored on a generated notice; steps after filing are planned
+// from per-state eviction timeline rules and re-planned as the landlord
+// records actual dates (filed, hearing set by the court, etc.).
+// =====================================================================
+
+// Per-state durations for the court steps after a notice. Counted the same
+// way as notice day rules (day type + counting convention + holidays).
+export const evictionTimelineRules = pgTable("eviction_timeline_rules", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  stateId: varchar("state_id", { length: 2 }).notNull().references(() => states.id),
+  // Step: answer_deadline | hearing | judgment | writ
+  stepKey: varchar("step_key", { length: 32 }).notNull(),
+  days: integer("days").notNull(),
+  // Same values as dayTypeEnum / countingConventionEnum
+  dayType: varchar("day_type", { length: 32 }).notNull().default('calendar'),
+  countingConvention: varchar("counting_convention", { length: 48 }).notNull().default('day0_service_plus_n'),
+  // Falls back to the state's active holiday calendars when null
+  holidayCalendarId: varchar("holiday_calendar_id").references(() => holidayCalendars.id, { onDelete: 'set null' }),
+  citation: text("citation"),
+  notes: text("notes"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("idx_eviction_timeline_rules_state_step").on(table.stateId, table.stepKey),
+]);
+
+export const evictionCases = pgTable("eviction_cases", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: 'cascade' }),
+  generatedNoticeDocumentId: varchar("generated_notice_document_id").notNull().references(() => generatedNoticeDocuments.id),
+  tenancyId: varchar("tenancy_id").references(() => tenancies.id, { onDelete: 'set null' }),
+  stateId: varchar("state_id", { length: 2 }).notNull(),
+  caseLabel: text("case_label").notNull(), // e.g. "123 Main St #2 - J. Smith"
+  courtCaseNumber: varchar("court_case_number"),
+  serviceDate: date("service_date").notNull(), // date the notice was actually served
+  // Status: active | closed
+  status: varchar("status", { length: 16 }).notNull().default('active'),
+  closedAt: timestamp("closed_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  index("idx_eviction_cases_user").on(table.userId),
+]);
+
+export const evictionCaseSteps = pgTable("eviction_case_steps", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  caseId: varchar("case_id").notNull().references(() => evictionCases.id, { onDelete: 'cascade' }),
+  // Step: notice_served | cure_period_ends | filing | answer_deadline | hearing | judgment | writ
+  stepKey: varchar("step_key", { length: 32 }).notNull(),
+  sortOrder: integer("sort_order").notNull(),
+  label: text("label").notNull(),
+  plannedDate: date("planned_date"), // null when it can't be planned yet
+  actualDate: date("actual_date"), // recorded by the landlord; overrides plannedDate for later steps
+  isEstimate: boolean("is_estimate").notNull().default(false), // no statute configured - typical timing
+  explain: text("explain"),
+  citation: text("citation"),
+  reminderSentAt: timestamp("reminder_sent_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("idx_eviction_case_steps_case_step").on(table.caseId, table.stepKey),
+  index("idx_eviction_case_steps_planned").on(table.plannedDate),
+]);
+
+export const evictionCasesRelations = relations(evictionCases, ({ one, many }) => ({
+  user: one(users, {
+    fields: [evictionCases.userId],
+    references: [users.id],
+  }),
+  notice: one(generatedNoticeDocuments, {
+    fields: [evictionCases.generatedNoticeDocumentId],
+    references: [generatedNoticeDocuments.id],
+  }),
+  tenancy: one(tenancies, {
+    fields: [evictionCases.tenancyId],
+    references: [tenancies.id],
+  }),
+  steps: many(evictionCaseSteps),
+}));
+
+export const evictionCaseStepsRelations = relations(evictionCaseSteps, ({ one }) => ({
+  case: one(evictionCases, {
+    fields: [evictionCaseSteps.caseId],
+    references: [evictionCases.id],
+  }),
+}));
+
+export const insertEvictionTimelineRuleSchema = createInsertSchema(evictionTimelineRules).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+export type InsertEvictionTimelineRule = z.infer<typeof insertEvictionTimelineRuleSchema>;
+export type EvictionTimelineRule = typeof evictionTimelineRules.$inferSelect;
+
+export const insertEvictionCaseSchema = createInsertSchema(evictionCases).omit({
+  id: true,
+  closedAt: true,
+  createdAt: true,
+  updatedAt: true,
+});
+export type InsertEvictionCase = z.infer<typeof insertEvictionCaseSchema>;
+export type EvictionCase = typeof evictionCases.$inferSelect;
+
+export const insertEvictionCaseStepSchema = createInsertSchema(evictionCaseSteps).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+export type InsertEvictionCaseStep = z.infer<typeof insertEvictionCaseStepSchema>;
+export type EvictionCaseStep = typeof evictionCaseSteps.$inferSelect;
+
+// =====================================================================
+// Notice Service Log - how, when and by whom a generated notice was
+// actually served. Attempts are checked against the form version's service
+// rules (allowed methods, required prior attempts) and back the
+// certificate/affidavit of service.
+// =====================================================================
+
+export const noticeServiceAttempts = pgTable("notice_service_attempts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  generatedNoticeDocumentId: varchar("generated_notice_document_id").notNull().references(() => generatedNoticeDocuments.id, { onDelete: 'cascade' }),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: 'cascade' }),
+  attemptNumber: integer("attempt_number").notNull(), // 1-based, per notice
+  methodId: varchar("method_id").notNull().references(() => serviceMethods.id),
+  servedByName: text("served_by_name").notNull(),
+  // Server: landlord | agent | process_server | sheriff | other
+  servedByRole: varchar("served_by_role", { length: 24 }).notNull().default('landlord'),
+  // Local date and time as entered by whoever served it - the wall-clock
+  // time the affidavit attests to, so no timezone conversion.
+  attemptDate: date("attempt_date").notNull(),
+  attemptTime: varchar("attempt_time", { length: 5 }), // HH:MM, 24-hour
+  address: text("address").notNull(),
+  recipientName: text("recipient_name"), // who the notice was handed to, if anyone
+  // Outcome: served | unsuccessful
+  outcome: varchar("outcome", { length: 16 }).notNull(),
+  notes: text("notes"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("idx_notice_service_attempts_notice").on(table.generatedNoticeDocumentId),
+]);
+
+export const noticeServiceAttemptPhotos = pgTable("notice_service_attempt_photos", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  attemptId: varchar("attempt_id").notNull().references(() => noticeServiceAttempts.id, { onDelete: 'cascade' }),
+  storagePath: text("storage_path").notNull(), // Private object storage path
+  fileName: text("file_name").notNull(),
+  contentType: varchar("content_type", { length: 64 }).notNull(),
+  sizeBytes: integer("size_bytes").notNull(),
+  uploadedByUserId: varchar("uploaded_by_user_id").references(() => users.id, { onDelete: 'set null' }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("idx_notice_service_attempt_photos_attempt").on(table.attemptId),
+]);
+
+export const noticeServiceAttemptsRelations = relations(noticeServiceAttempts, ({ one, many }) => ({
+  notice: one(generatedNoticeDocuments, {
+    fields: [noticeServiceAttempts.generatedNoticeDocumentId],
+    references: [generatedNoticeDocuments.id],
+  }),
+  method: one(serviceMethods, {
+    fields: [noticeServiceAttempts.methodId],
+    references: [serviceMethods.id],
+  }),
+  photos: many(noticeServiceAttemptPhotos),
+}));
+
+export const noticeServiceAttemptPhotosRelations = relations(noticeServiceAttemptPhotos, ({ one }) => ({
+  attempt: one(noticeServiceAttempts, {
+    fields: [noticeServiceAttemptPhotos.attemptId],
+    references: [noticeServiceAttempts.id],
+  }),
+}));
+
+export const insertNoticeServiceAttemptSchema = createInsertSchema(noticeServiceAttempts).omit({
+  id: true,
+  createdAt: true,
+});
+export type InsertNoticeServiceAttempt = z.infer<typeof insertNoticeServiceAttemptSchema>;
+export type NoticeServiceAttempt = typeof noticeServiceAttempts.$inferSelect;
+
+export const insertNoticeServiceAttemptPhotoSchema = createInsertSchema(noticeServiceAttemptPhotos).omit({
+  id: true,
+  createdAt: true,
+});
+export type InsertNoticeServiceAttemptPhoto = z.infer<typeof insertNoticeServiceAttemptPhotoSchema>;
+export type NoticeServiceAttemptPhoto = typeof noticeServiceAttemptPhotos.$inferSelect;
+
+// =====================================================================
+// Organizations - landlord teams. Every landlord record stays keyed to the
+// owner's userId; members sign in with their own login and act on the
+// owner's data within the limits of their role (see shared/organizations.ts).
+// =====================================================================
+
+export const organizations = pgTable("organizations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  ownerUserId: varchar("owner_user_id").notNull().unique().references(() => users.id, { onDelete: 'cascade' }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const organizationMembers = pgTable("organization_members", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  organizationId: varchar("organization_id").notNull().references(() => organizations.id, { onDelete: 'cascade' }),
+  email: varchar("email").notNull(),
+  // Role: manager | leasing_agent | bookkeeper (the owner is organizations.ownerUserId)
+  role: varchar("role", { length: 24 }).notNull(),
+  // Set when the invite is accepted; a login belongs to at most one team.
+  userId: varchar("user_id").unique().references(() => users.id, { onDelete: 'cascade' }),
+  inviteToken: varchar("invite_token", { length: 64 }).unique(),
+  invitedAt: timestamp("invited_at"),
+  invitedByUserId: varchar("invited_by_user_id").references(() => users.id, { onDelete: 'set null' }),
+  joinedAt: timestamp("joined_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("idx_organization_members_org").on(table.organizationId),
+  uniqueIndex("idx_organization_members_org_email").on(table.organizationId, table.email),
+]);
+
+export const organizationsRelations = relations(organizations, ({ one, many }) => ({
+  owner: one(users, {
+    fields: [organizations.ownerUserId],
+    references: [users.id],
+  }),
+  members: many(organizationMembers),
+}));
+
+export const organizationMembersRelations = relations(organizationMembers, ({ one }) => ({
+  organization: one(organizations, {
+    fields: [organizationMembers.organizationId],
+    references: [organizations.id],
+  }),
+  user: one(users, {
+    fields: [organizationMembers.userId],
+    references: [users.id],
+  }),
+}));
+
+export const insertOrganizationSchema = createInsertSchema(organizations).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+export type InsertOrganization = z.infer<typeof insertOrganizationSchema>;
+export type Organization = typeof organizations.$inferSelect;
+
+export const insertOrganizationMemberSchema = createInsertSchema(organizationMembers).omit({
+  id: true,
+  createdAt: true,
+});
+export type InsertOrganizationMember = z.infer<typeof insertOrganizationMemberSchema>;
+export type OrganizationMember = typeof organizationMembers.$inferSelect;
@@ -0,0 +1,152 @@
+// Structured screening findings and how they map onto the denial decision
+// criteria. Shared so the server (result ingestion) and the client (the
+// pre-filled "what showed up" checklist) read findings the same way.
+
+import type { ScreeningResultRecord } from './schema';
+
+export const SCREENING_RECORD_KINDS = ['credit_score', 'collection', 'eviction', 'criminal'] as const;
+export type ScreeningRecordKind = typeof SCREENING_RECORD_KINDS[number];
+
+export type CreditScoreBand = 'excellent' | 'good' | 'fair' | 'poor';
+
+export const EVICTION_DISPOSITIONS = ['filed', 'dismissed', 'judgment', 'sealed', 'unknown'] as const;
+export type EvictionDisposition = typeof EVICTION_DISPOSITIONS[number];
+
+export const CRIMINAL_DISPOSITIONS = ['arrest', 'pending', 'dismissed', 'acquitted', 'convicted', 'sealed', 'unknown'] as const;
+export type CriminalDisposition = typeof CRIMINAL_DISPOSITIONS[number];
+
+export const OFFENSE_CLASSES = ['felony', 'misdemeanor', 'infraction', 'unknown'] as const;
+export type OffenseClass = typeof OFFENSE_CLASSES[number];
+
+// Matches the CRIM_CONVICTION_RECENT / CRIM_CONVICTION_OLD criteria.
+const RECENT_CONVICTION_YEARS = 7;
+
+export type ScreeningFinding = Pick<
+  ScreeningResultRecord,
+  'kind' | 'creditScore' | 'scoreBand' | 'creditorName' | 'amountCents' | 'housingRelated'
+  | 'filedOn' | 'disposition' | 'dispositionOn' | 'offenseClass' | 'offenseDescription' | 'offenseOn'
+>;
+
+export function creditScoreBand(score: number): CreditScoreBand {
+  if (score >= 740) return 'excellent';
+  if (score >= 670) return 'good';
+  if (score >= 580) return 'fair';
+  return 'poor';
+}
+
+export function normalizeEvictionDisposition(raw: string | null | undefined): EvictionDisposition {
+  const s = (raw || '').toLowerCase();
+  if (/seal|mask|suppress/.test(s)) return 'sealed';
+  if (/judg|possession|writ|evicted|landlord/.test(s)) return 'judgment';
+  if (/dismiss|withdraw|tenant/.test(s)) return 'dismissed';
+  if (/fil|open|pending/.test(s)) return 'filed';
+  return 'unknown';
+}
+
+export function normalizeCriminalDisposition(raw: string | null | undefined): CriminalDisposition {
+  const s = (raw || '').toLowerCase();
+  if (/seal|expunge/.test(s)) return 'sealed';
+  if (/acquit|not guilty/.test(s)) return 'acquitted';
+  if (/dismiss|nolle|drop/.test(s)) return 'dismissed';
+  if (/convict|guilty|plea|sentenc/.test(s)) return 'convicted';
+  if (/pending|open|await/.test(s)) return 'pending';
+  if (/arrest|booked|charged/.test(s)) return 'arrest';
+  return 'unknown';
+}
+
+export function normalizeOffenseClass(raw: string | null | undefined): OffenseClass {
+  const s = (raw || '').toLowerCase();
+  if (/felon|^f\d?$/.test(s)) return 'felony';
+  if (/misd|^m\d?$/.test(s)) return 'misdemeanor';
+  if (/infract|citation|violation|petty/.test(s)) return 'infraction';
+  return 'unknown';
+}
+
+// Reports carry dates as YYYY-MM-DD, MM/DD/YYYY or full timestamps.
+export function normalizeReportDate(raw: string | null | undefined): string | null {
+  if (!raw) return null;
+  const s = String(raw).trim();
+  const iso = s.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (iso) return `${iso[1]}-${iso[2]}-${iso[3]}`;
+  const us = s.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+  if (us) return `${us[3]}-${us[1].padStart(2, '0')}-${us[2].padStart(2, '0')}`;
+  return null;
+}
+
+function yearsBefore(today: Date, years: number): string {
+  const d = new Date(today);
+  d.setFullYear(d.getFullYear() - years);
+  return d.toISOString().slice(0, 10);
+}
+
+/**
+ * Denial criteria codes the findings point to. These are suggestions for the
+ * landlord to confirm - a blocked criterion stays blocked in the assistant
+ * even when the report shows it.
+ */
+export function suggestDenialCriteria(records: ScreeningFinding[], today: Date = new Date()): string[] {
+  const codes = new Set<string>();
+  const recentCutoff = yearsBefore(today, RECENT_CONVICTION_YEARS);
+
+  for (const r of records) {
+    switch (r.kind) {
+      case 'credit_score':
+        if (r.scoreBand === 'poor') codes.add('CREDIT_POOR_SCORE');
+        break;
+      case 'collection':
+        codes.add('CREDIT_COLLECTIONS');
+        if (r.housingRelated) codes.add('CREDIT_HOUSING_DEBT');
+        break;
+      case 'eviction':
+        if (r.disposition === 'judgment') codes.add('EVICT_JUDGMENT');
+        else if (r.disposition === 'sealed') codes.add('EVICT_SEALED');
+        else codes.add('EVICT_FILING');
+        break;
+      case 'criminal': {
+        if (r.disposition === 'sealed') {
+          codes.add('CRIM_SEALED_EXPUNGED');
+          break;
+        }
+        if (r.disposition !== 'convicted') {
+          codes.add('CRIM_ARREST');
+          break;
+        }
+        if (r.offenseClass === 'felony') codes.add('CRIM_FELONY');
+        if (r.offenseClass === 'misdemeanor') codes.add('CRIM_MISDEMEANOR');
+        const convictedOn = r.dispositionOn || r.offenseOn;
+        if (convictedOn) codes.add(convictedOn >= recentCutoff ? 'CRIM_CONVICTION_RECENT' : 'CRIM_CONVICTION_OLD');
+        break;
+      }
+    }
+  }
+  return Array.from(codes);
+}
+
+function formatCents(cents: number): string {
+  return `$${(cents / 100).toLocaleString('en-US', { minimumFractionDigits: 0, maximumFractionDigits: 2 })}`;
+}
+
+// One-line description of a finding for lists in the UI.
+export function describeScreeningFinding(r: ScreeningFinding): string {
+  switch (r.kind) {
+    case 'credit_score':
+      return r.creditScore != null
+        ? `Credit score ${r.creditScore}${r.scoreBand ? ` (${r.scoreBand})` : ''}`
+        : `Credit score band: ${r.scoreBand || 'unknown'}`;
+    case 'collection':
+      return [
+        `Collection${r.creditorName ? `: ${r.creditorName}` : ''}`,
+        r.amountCents != null ? formatCents(r.amountCents) : null,
+        r.housingRelated ? '(housing-related)' : null,
+      ].filter(Boolean).join(' ');
+    case 'eviction':
+      return `Eviction ${r.filedOn ? `filed ${r.filedOn}` : 'filing'} - ${r.disposition || 'unknown'}${r.dispositionOn ? ` ${r.dispositionOn}` : ''}`;
+    case 'criminal': {
+      const cls = r.offenseClass && r.offenseClass !== 'unknown' ? r.offenseClass[0].toUpperCase() + r.offenseClass.slice(1) : 'Offense';
+      const when = r.dispositionOn || r.offenseOn;
+      return `${cls}${r.offenseDescription ? `: ${r.offenseDescription}` : ''} - ${r.disposition || 'unknown'}${when ? ` ${when}` : ''}`;
+    }
+    default:
+      return r.kind;
+  }
+}
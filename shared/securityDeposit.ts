@@ -0,0 +1,81 @@
+// Security deposit lifecycle: held -> awaiting_disposition (move-out date
+// entered, statutory return countdown running) -> disposed (itemization
+// letter sent, balance returned). Pure calculation shared by the server
+// routes and the client so both show the same deadline and totals. All money
+// is integer cents; dates are YYYY-MM-DD strings.
+
+export const SECURITY_DEPOSIT_STATUSES = ['held', 'awaiting_disposition', 'disposed'] as const;
+export type SecurityDepositStatus = typeof SECURITY_DEPOSIT_STATUSES[number];
+
+export const SECURITY_DEPOSIT_TYPES: { value: string; label: string }[] = [
+  { value: 'security', label: 'Security deposit' },
+  { value: 'pet', label: 'Pet deposit' },
+  { value: 'key', label: 'Key / access deposit' },
+  { value: 'other', label: 'Other deposit' },
+];
+
+// Used when the state has no deposit_return_days value and no built-in default.
+export const DEFAULT_DEPOSIT_RETURN_DAYS = 30;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+function toUtcDay(isoDate: string): number {
+  return Date.UTC(
+    parseInt(isoDate.slice(0, 4), 10),
+    parseInt(isoDate.slice(5, 7), 10) - 1,
+    parseInt(isoDate.slice(8, 10), 10),
+  );
+}
+
+export function addDaysToDate(isoDate: string, days: number): string {
+  return new Date(toUtcDay(isoDate) + days * MS_PER_DAY).toISOString().slice(0, 10);
+}
+
+/** Whole calendar days from `asOf` to `isoDate`; negative once the date has passed. */
+export function daysUntilDate(isoDate: string, asOf: Date = new Date()): number {
+  const today = Date.UTC(asOf.getUTCFullYear(), asOf.getUTCMonth(), asOf.getUTCDate());
+  return Math.round((toUtcDay(isoDate) - today) / MS_PER_DAY);
+}
+
+/**
+ * Simple (non-compounding) interest on a held deposit from the date it was
+ * collected to the disposition date, at an annual percentage rate.
+ */
+export function computeDepositInterestCents(opts: {
+  amountCents: number;
+  annualRatePct: number | null;
+  collectedDate: string;
+  throughDate: string;
+}): number {
+  if (!opts.annualRatePct || opts.annualRatePct <= 0) return 0;
+  const days = Math.max(0, Math.round((toUtcDay(opts.throughDate) - toUtcDay(opts.collectedDate)) / MS_PER_DAY));
+  return Math.round((opts.amountCents * opts.annualRatePct * days) / (100 * 365));
+}
+
+export interface DepositDisposition {
+  depositCents: number;
+  interestCents: number;
+  deductionsCents: number;
+  // Deductions paid out of the deposit (never more than deposit + interest).
+  appliedCents: number;
+  refundCents: number;
+  // Deductions beyond the deposit that the tenant still owes.
+  balanceDueCents: number;
+}
+
+export function computeDepositDisposition(opts: {
+  depositCents: number;
+  interestCents: number;
+  deductionsCents: number;
+}): DepositDisposition {
+  const available = opts.depositCents + opts.interestCents;
+  const appliedCents = Math.min(available, opts.deductionsCents);
+  return {
+    depositCents: opts.depositCents,
+    interestCents: opts.interestCents,
+    deductionsCents: opts.deductionsCents,
+    appliedCents,
+    refundCents: available - appliedCents,
+    balanceDueCents: opts.deductionsCents - appliedCents,
+  };
+}
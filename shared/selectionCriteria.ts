@@ -0,0 +1,171 @@
+// Tenant selection criteria a landlord publishes for a rental property. Each
+// publish is a new immutable version: applicants see and acknowledge the
+// current version on the apply cover page, and a later denial is checked
+// against the version the applicant acknowledged.
+
+export interface SelectionCriteria {
+  minIncomeMultiple?: number | null; // Gross monthly income >= N x monthly rent
+  minCreditScore?: number | null;
+  collectionsDisqualify?: boolean; // Open collections accounts count against the applicant
+  housingDebtDisqualify?: boolean; // Unpaid rent or utilities owed to a prior landlord
+  evictionLookbackYears?: number | null; // Eviction judgments within N years
+  criminalLookbackYears?: number | null; // Convictions within N years
+  felonyOnly?: boolean; // Only felony convictions are considered
+  maxOccupants?: number | null;
+  petsAllowed?: boolean;
+  maxPets?: number | null;
+  additionalNotes?: string;
+}
+
+export const DEFAULT_SELECTION_CRITERIA: SelectionCriteria = {
+  petsAllowed: true,
+};
+
+// Matches the seeded "Conviction within last 7 years" criterion.
+const RECENT_CONVICTION_YEARS = 7;
+
+export type SelectionCriterionField = keyof SelectionCriteria;
+
+export const SELECTION_CRITERIA_LABELS: Partial<Record<SelectionCriterionField, string>> = {
+  minIncomeMultiple: 'Minimum income',
+  minCreditScore: 'Minimum credit score',
+  collectionsDisqualify: 'Collections accounts',
+  housingDebtDisqualify: 'Housing-related debt',
+  evictionLookbackYears: 'Eviction history',
+  criminalLookbackYears: 'Criminal history',
+  maxOccupants: 'Occupancy limit',
+  petsAllowed: 'Pets',
+};
+
+const isSet = (value: number | null | undefined): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value > 0;
+
+/**
+ * The denialCriteria codes each published criterion lets a landlord rely on.
+ * Occupancy and pet limits have no denial code of their own.
+ */
+export function selectionCriteriaCodes(criteria: SelectionCriteria): Array<{ field: SelectionCriterionField; codes: string[] }> {
+  const out: Array<{ field: SelectionCriterionField; codes: string[] }> = [];
+  if (isSet(criteria.minIncomeMultiple)) {
+    out.push({ field: 'minIncomeMultiple', codes: ['INCOME_INSUFFICIENT', 'INCOME_UNVERIFIABLE'] });
+  }
+  if (isSet(criteria.minCreditScore)) {
+    out.push({ field: 'minCreditScore', codes: ['CREDIT_POOR_SCORE'] });
+  }
+  if (criteria.collectionsDisqualify) {
+    out.push({ field: 'collectionsDisqualify', codes: ['CREDIT_COLLECTIONS'] });
+  }
+  if (criteria.housingDebtDisqualify) {
+    out.push({ field: 'housingDebtDisqualify', codes: ['CREDIT_HOUSING_DEBT'] });
+  }
+  if (isSet(criteria.evictionLookbackYears)) {
+    out.push({ field: 'evictionLookbackYears', codes: ['EVICT_JUDGMENT'] });
+  }
+  if (isSet(criteria.criminalLookbackYears)) {
+    const codes = ['CRIM_CONVICTION_RECENT', 'CRIM_FELONY'];
+    if (criteria.criminalLookbackYears > RECENT_CONVICTION_YEARS) codes.push('CRIM_CONVICTION_OLD');
+    if (!criteria.felonyOnly) codes.push('CRIM_MISDEMEANOR');
+    out.push({ field: 'criminalLookbackYears', codes });
+  }
+  return out;
+}
+
+// Incomplete or false applications and bad references can always be a reason,
+// whatever the landlord published.
+const ALWAYS_PUBLISHED_CODES = ['VERIFY_INCOMPLETE', 'VERIFY_FALSE_INFO', 'VERIFY_LANDLORD_REF'];
+
+/**
+ * Denial reason codes the published criteria don't cover. A non-empty result
+ * means the denial relies on something applicants were never told about.
+ */
+export function unpublishedDenialCodes(criteria: SelectionCriteria, denialCodes: string[]): string[] {
+  const published = new Set(ALWAYS_PUBLISHED_CODES);
+  for (const { codes } of selectionCriteriaCodes(criteria)) {
+    for (const code of codes) published.add(code);
+  }
+  return denialCodes.filter((code) => !published.has(code));
+}
+
+export interface SelectionCriteriaRule {
+  status: 'blocked' | 'allowed' | 'conditional';
+  label: string;
+  explanationPlain: string | null;
+  requiredSteps: string[] | null;
+}
+
+export interface SelectionCriteriaIssue {
+  field: SelectionCriterionField;
+  code: string;
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+/**
+ * Check each criterion against the jurisdiction's effective denial rules,
+ * keyed by denialCriteria code. Blocked codes are errors - the criteria can't
+ * be published with them. Conditional codes are warnings: the criterion is
+ * allowed but a denial on it needs the extra fair-chance steps.
+ */
+export function validateSelectionCriteria(
+  criteria: SelectionCriteria,
+  rulesByCode: Record<string, SelectionCriteriaRule>,
+): SelectionCriteriaIssue[] {
+  const issues: SelectionCriteriaIssue[] = [];
+  for (const { field, codes } of selectionCriteriaCodes(criteria)) {
+    for (const code of codes) {
+      const rule = rulesByCode[code];
+      if (!rule || rule.status === 'allowed') continue;
+      const fieldLabel = SELECTION_CRITERIA_LABELS[field] || field;
+      issues.push({
+        field,
+        code,
+        severity: rule.status === 'blocked' ? 'error' : 'warning',
+        message: rule.status === 'blocked'
+          ? `${fieldLabel}: "${rule.label}" can't be used to deny applicants here. ${rule.explanationPlain || ''}`.trim()
+          : `${fieldLabel}: "${rule.label}" needs extra steps before a denial${rule.requiredSteps?.length ? ` (${rule.requiredSteps.join(', ').replace(/_/g, ' ')})` : ''}. ${rule.explanationPlain || ''}`.trim(),
+      });
+    }
+  }
+  return issues;
+}
+
+const years = (n: number) => `${n} year${n === 1 ? '' : 's'}`;
+
+/** Plain-language lines for the apply cover page and the builder preview. */
+export function describeSelectionCriteria(criteria: SelectionCriteria): string[] {
+  const lines: string[] = [];
+  if (isSet(criteria.minIncomeMultiple)) {
+    lines.push(`Gross monthly income of at least ${criteria.minIncomeMultiple}x the monthly rent, verified with documentation`);
+  }
+  if (isSet(criteria.minCreditScore)) {
+    lines.push(`Credit score of ${criteria.minCreditScore} or higher`);
+  }
+  if (criteria.collectionsDisqualify) {
+    lines.push('No open collections accounts');
+  }
+  if (criteria.housingDebtDisqualify) {
+    lines.push('No unpaid rent or utilities owed to a prior landlord');
+  }
+  if (isSet(criteria.evictionLookbackYears)) {
+    lines.push(`No eviction judgments in the past ${years(criteria.evictionLookbackYears)} (filings without a judgment are not considered)`);
+  }
+  if (isSet(criteria.criminalLookbackYears)) {
+    const kind = criteria.felonyOnly ? 'felony convictions' : 'felony or misdemeanor convictions';
+    lines.push(`Criminal history: ${kind} in the past ${years(criteria.criminalLookbackYears)} are reviewed (arrests without a conviction are not considered)`);
+  }
+  if (isSet(criteria.maxOccupants)) {
+    lines.push(`No more than ${criteria.maxOccupants} occupants`);
+  }
+  if (criteria.petsAllowed === false) {
+    lines.push('No pets (assistance animals are not pets)');
+  } else if (isSet(criteria.maxPets)) {
+    lines.push(`Up to ${criteria.maxPets} pet${criteria.maxPets === 1 ? '' : 's'} (assistance animals are not pets)`);
+  }
+  if (criteria.additionalNotes?.trim()) {
+    lines.push(criteria.additionalNotes.trim());
+  }
+  return lines;
+}
+
+export const hasPublishableCriteria = (criteria?: SelectionCriteria | null): boolean =>
+  !!criteria && describeSelectionCriteria(criteria).length > 0;
@@ -0,0 +1,79 @@
+// State lease disclosures: versioned, effective-dated records per state and
+// disclosure key. A lease renders, for each key, the approved version with the
+// latest effective date on or before the lease date.
+
+// The same categories the bill analysis tags legislation with, so an approved
+// bill can flag the disclosures it touches.
+export const DISCLOSURE_CATEGORIES = [
+  { value: 'deposits', label: 'Security deposits' },
+  { value: 'disclosures', label: 'Required disclosures' },
+  { value: 'evictions', label: 'Evictions' },
+  { value: 'fair_housing', label: 'Fair housing' },
+  { value: 'rent_increases', label: 'Rent increases' },
+] as const;
+
+export const DISCLOSURE_STATUSES = ['draft', 'in_review', 'approved', 'archived'] as const;
+export type DisclosureStatus = (typeof DISCLOSURE_STATUSES)[number];
+
+export interface DisclosureVersion {
+  disclosureKey: string;
+  title: string;
+  body: string;
+  citation: string | null;
+  sortOrder: number | null;
+  version: number;
+  effectiveDate: string; // YYYY-MM-DD
+  status: DisclosureStatus | null;
+}
+
+// Headings are numbered within the lease's state provisions section; the
+// citation, when there is one, follows the title.
+export function disclosureHeading(title: string, citation: string | null): string {
+  return citation ? `${title} (${citation})` : title;
+}
+
+/**
+ * The version of each disclosure in effect on a date (YYYY-MM-DD). Archived
+ * versions never render; when two approved versions share an effective date
+ * the higher version number wins.
+ */
+export function disclosuresInEffect<T extends DisclosureVersion>(versions: T[], onDate: string): T[] {
+  const byKey = new Map<string, T>();
+  for (const v of versions) {
+    if (v.status !== 'approved' || v.effectiveDate > onDate) continue;
+    const current = byKey.get(v.disclosureKey);
+    if (
+      !current ||
+      v.effectiveDate > current.effectiveDate ||
+      (v.effectiveDate === current.effectiveDate && v.version > current.version)
+    ) {
+      byKey.set(v.disclosureKey, v);
+    }
+  }
+  return Array.from(byKey.values()).sort(
+    (a, b) => (a.sortOrder ?? 0) - (b.sortOrder ?? 0) || a.disclosureKey.localeCompare(b.disclosureKey),
+  );
+}
+
+// Uncategorized disclosures (entry notice, general act references) are flagged
+// by any bill that touches the state's landlord-tenant law.
+export function disclosureAffectedByBill(category: string | null, billCategories: string[] | null | undefined): boolean {
+  if (!billCategories || billCategories.length === 0) return false;
+  return !category || billCategories.includes(category);
+}
+
+/**
+ * Best-effort read of a lease date field ("2026-03-01", "03/01/2026",
+ * "March 1, 2026") as YYYY-MM-DD. Falls back to today.
+ */
+export function leaseDisclosureDate(value: string | number | null | undefined, today: Date = new Date()): string {
+  const fallback = today.toISOString().slice(0, 10);
+  if (value === null || value === undefined || value === '') return fallback;
+  const text = String(value).trim();
+  if (/^\d{4}-\d{2}-\d{2}/.test(text)) return text.slice(0, 10);
+  const parsed = new Date(text);
+  if (Number.isNaN(parsed.getTime())) return fallback;
+  const month = String(parsed.getMonth() + 1).padStart(2, '0');
+  const day = String(parsed.getDate()).padStart(2, '0');
+  return `${parsed.getFullYear()}-${month}-${day}`;
+}
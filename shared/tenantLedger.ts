@@ -0,0 +1,213 @@
+// Tenant ledger rules shared by the server (posting, allocation) and the
+// client (running balances, reversal buttons). All money is integer cents.
+//
+// Every entry is one side of the tenant's account: amountExpected is a debit
+// (raises what the tenant owes), amountReceived is a credit (lowers it).
+// Posted entries are never edited or deleted. A mistake is corrected by a
+// reversal or NSF return that posts the opposite amount, or by an adjustment
+// that posts the difference, so the history a court sees is complete.
+//
+// Some rows carry both sides (older manual entries, and Stripe payments that
+// record the rent owed next to what was received). They count by their net.
+
+export const LEDGER_ENTRY_TYPES = ['charge', 'payment', 'adjustment', 'reversal', 'nsf_return'] as const;
+export type LedgerEntryType = (typeof LEDGER_ENTRY_TYPES)[number];
+
+export const LEDGER_ENTRY_TYPE_LABELS: Record<LedgerEntryType, string> = {
+  charge: 'Charge',
+  payment: 'Payment',
+  adjustment: 'Adjustment',
+  reversal: 'Reversal',
+  nsf_return: 'Returned payment (NSF)',
+};
+
+export type AllocationRule = 'oldest_first' | 'rent_first';
+
+export const ALLOCATION_RULES: { value: AllocationRule; label: string }[] = [
+  { value: 'oldest_first', label: 'Oldest charge first' },
+  { value: 'rent_first', label: 'Rent before fees' },
+];
+
+export const DEFAULT_ALLOCATION_RULE: AllocationRule = 'oldest_first';
+
+// The subset of a rent_ledger_entries row these rules read, so the client can
+// pass API payloads and the server can pass Drizzle rows.
+export interface LedgerEntryLike {
+  id: string;
+  type: string | null;
+  category: string | null;
+  amountExpected: number;
+  amountReceived: number | null;
+  effectiveDate: Date | string | null;
+  createdAt: Date | string;
+  reversesEntryId?: string | null;
+  adjustsEntryId?: string | null;
+  allocationRule?: string | null;
+}
+
+export interface LedgerAllocationLike {
+  creditEntryId: string;
+  debitEntryId: string;
+  amount: number;
+  releasedAt?: Date | string | null;
+}
+
+export interface PlannedAllocation {
+  creditEntryId: string;
+  debitEntryId: string;
+  amount: number;
+}
+
+export function isAllocationRule(value: unknown): value is AllocationRule {
+  return ALLOCATION_RULES.some((r) => r.value === value);
+}
+
+export function entryNet(entry: Pick<LedgerEntryLike, 'amountExpected' | 'amountReceived'>): number {
+  return (entry.amountExpected || 0) - (entry.amountReceived || 0);
+}
+
+function entryTime(entry: LedgerEntryLike): number {
+  return new Date(entry.effectiveDate || entry.createdAt).getTime();
+}
+
+/** Ledger order: effective date, then posting time, then id as a tiebreak. */
+export function compareLedgerEntries(a: LedgerEntryLike, b: LedgerEntryLike): number {
+  return (
+    entryTime(a) - entryTime(b) ||
+    new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime() ||
+    a.id.localeCompare(b.id)
+  );
+}
+
+export function ledgerBalance(entries: LedgerEntryLike[]): number {
+  return entries.reduce((sum, e) => sum + entryNet(e), 0);
+}
+
+/**
+ * Entries in ledger order with the balance after each one. `groupKey` keeps a
+ * separate running balance per account (normally the tenancy) when one list
+ * mixes several tenants.
+ */
+export function withRunningBalances<T extends LedgerEntryLike>(
+  entries: T[],
+  groupKey: (entry: T) => string = () => '',
+): Array<T & { runningBalance: number }> {
+  const balances = new Map<string, number>();
+  return [...entries].sort(compareLedgerEntries).map((entry) => {
+    const key = groupKey(entry);
+    const runningBalance = (balances.get(key) || 0) + entryNet(entry);
+    balances.set(key, runningBalance);
+    return { ...entry, runningBalance };
+  });
+}
+
+/**
+ * Ids of entries that have been reversed or returned NSF, and of the
+ * reversals themselves.
+ */
+export function reversedEntryIds(entries: LedgerEntryLike[]): Set<string> {
+  const ids = new Set<string>();
+  for (let i = 0; i < entries.length; i++) {
+    const e = entries[i];
+    if (e.reversesEntryId) {
+      ids.add(e.id);
+      ids.add(e.reversesEntryId);
+    }
+  }
+  return ids;
+}
+
+/**
+ * Why `entry` cannot be reversed (or returned NSF when `nsf` is set), or null
+ * when it can. Reversals themselves are final - post an adjustment instead.
+ */
+export function reversalError(entry: LedgerEntryLike, entries: LedgerEntryLike[], nsf = false): string | null {
+  if (entry.reversesEntryId) return 'A reversal cannot itself be reversed. Post an adjustment instead.';
+  if (entries.some((e) => e.reversesEntryId === entry.id)) return 'This entry has already been reversed';
+  if (!(entry.amountExpected || 0) && !(entry.amountReceived || 0)) return 'This entry has no amount to reverse';
+  if (nsf && !(entry.type === 'payment' && (entry.amountReceived || 0) > 0)) {
+    return 'Only received payments can be returned as NSF';
+  }
+  return null;
+}
+
+/**
+ * What is still open on each debit and unapplied on each credit. A reversal
+ * and the entry it reverses are netted onto the original - usually to zero,
+ * but an NSF return of a two-sided Stripe row leaves the rent owed open.
+ */
+export function ledgerPositions(
+  entries: LedgerEntryLike[],
+  allocations: LedgerAllocationLike[],
+): { openDebits: Map<string, number>; unappliedCredits: Map<string, number> } {
+  const nets = new Map<string, number>();
+  for (let i = 0; i < entries.length; i++) {
+    if (!entries[i].reversesEntryId) nets.set(entries[i].id, entryNet(entries[i]));
+  }
+  for (let i = 0; i < entries.length; i++) {
+    const e = entries[i];
+    if (e.reversesEntryId && nets.has(e.reversesEntryId)) {
+      nets.set(e.reversesEntryId, nets.get(e.reversesEntryId)! + entryNet(e));
+    }
+  }
+
+  const openDebits = new Map<string, number>();
+  const unappliedCredits = new Map<string, number>();
+  nets.forEach((net, id) => {
+    if (net > 0) openDebits.set(id, net);
+    if (net < 0) unappliedCredits.set(id, -net);
+  });
+  for (let i = 0; i < allocations.length; i++) {
+    const a = allocations[i];
+    if (a.releasedAt) continue;
+    if (openDebits.has(a.debitEntryId)) openDebits.set(a.debitEntryId, openDebits.get(a.debitEntryId)! - a.amount);
+    if (unappliedCredits.has(a.creditEntryId)) {
+      unappliedCredits.set(a.creditEntryId, unappliedCredits.get(a.creditEntryId)! - a.amount);
+    }
+  }
+  return { openDebits, unappliedCredits };
+}
+
+function debitOrder(rule: AllocationRule, debits: LedgerEntryLike[], target?: string | null): LedgerEntryLike[] {
+  const rank = (e: LedgerEntryLike) => {
+    if (target && e.id === target) return 0;
+    if (rule === 'rent_first' && (e.category || '').toLowerCase() !== 'rent') return 2;
+    return 1;
+  };
+  return [...debits].sort((a, b) => rank(a) - rank(b) || compareLedgerEntries(a, b));
+}
+
+/**
+ * Apply every unapplied credit to open debits. Credits are taken oldest first,
+ * each by its own allocation rule; a credit adjustment goes to the charge it
+ * adjusts before anything else. Returns only the new allocations - existing
+ * ones are never moved.
+ */
+export function planAllocations(
+  entries: LedgerEntryLike[],
+  allocations: LedgerAllocationLike[],
+): PlannedAllocation[] {
+  const { openDebits, unappliedCredits } = ledgerPositions(entries, allocations);
+  const byId = new Map(entries.map((e) => [e.id, e] as [string, LedgerEntryLike]));
+  const credits = Array.from(unappliedCredits.keys())
+    .map((id) => byId.get(id)!)
+    .sort(compareLedgerEntries);
+  const debits = Array.from(openDebits.keys()).map((id) => byId.get(id)!);
+
+  const planned: PlannedAllocation[] = [];
+  for (let c = 0; c < credits.length; c++) {
+    const credit = credits[c];
+    let remaining = unappliedCredits.get(credit.id)!;
+    const rule = isAllocationRule(credit.allocationRule) ? credit.allocationRule : DEFAULT_ALLOCATION_RULE;
+    const ordered = debitOrder(rule, debits, credit.adjustsEntryId);
+    for (let d = 0; d < ordered.length && remaining > 0; d++) {
+      const open = openDebits.get(ordered[d].id)!;
+      if (open <= 0) continue;
+      const amount = Math.min(open, remaining);
+      planned.push({ creditEntryId: credit.id, debitEntryId: ordered[d].id, amount });
+      openDebits.set(ordered[d].id, open - amount);
+      remaining -= amount;
+    }
+  }
+  return planned;
+}
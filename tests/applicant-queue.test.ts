@@ -0,0 +1,118 @@
+/**
+ * LeaseShield App - Applicant Queue Order Test
+ *
+ * Covers shared/applicantQueue.ts: the queue is completed submissions in
+ * completion order, ties break on start time and then id, unfinished
+ * applications stay out, and undecidedAhead lists only the undecided
+ * submissions completed earlier.
+ *
+ * Static: no database or server needed.
+ *
+ * Run:  npx tsx tests/applicant-queue.test.ts
+ */
+
+import { orderApplicantQueue, undecidedAhead, type QueueSubmission } from "@shared/applicantQueue";
+
+let passed = 0;
+let failed = 0;
+
+function check(name: string, condition: boolean, details = "") {
+  if (condition) {
+    passed++;
+    console.log(`✅ ${name}${details ? `: ${details}` : ""}`);
+  } else {
+    failed++;
+    console.log(`❌ ${name}${details ? `: ${details}` : ""}`);
+  }
+}
+
+interface Submission extends QueueSubmission {
+  decided?: boolean;
+}
+
+function sub(id: string, submittedAt: string | null, createdAt = "2026-03-01T09:00:00Z", decided = false): Submission {
+  return { id, submittedAt, createdAt, decided };
+}
+
+const ids = (queue: QueueSubmission[]) => queue.map((s) => s.id).join(",");
+
+function testOrder() {
+  console.log("\n--- Queue order ---");
+  const queue = orderApplicantQueue([
+    sub("c", "2026-03-03T10:00:00Z"),
+    sub("a", "2026-03-01T10:00:00Z"),
+    sub("b", "2026-03-02T10:00:00Z"),
+  ]);
+  check("earliest completion first", ids(queue) === "a,b,c", ids(queue));
+
+  const mixed = orderApplicantQueue([
+    { id: "late", submittedAt: "2026-03-02T10:00:00Z", createdAt: "2026-03-01T00:00:00Z" },
+    { id: "early", submittedAt: new Date("2026-03-01T10:00:00Z"), createdAt: new Date("2026-03-01T00:00:00Z") },
+  ]);
+  check("Date and string timestamps compare together", ids(mixed) === "early,late", ids(mixed));
+
+  const input = [sub("b", "2026-03-02T10:00:00Z"), sub("a", "2026-03-01T10:00:00Z")];
+  orderApplicantQueue(input);
+  check("input array is left as passed", ids(input) === "b,a", ids(input));
+}
+
+function testTies() {
+  console.log("\n--- Ties ---");
+  const sameTime = "2026-03-02T10:00:00Z";
+  const byStart = orderApplicantQueue([
+    sub("x", sameTime, "2026-03-01T12:00:00Z"),
+    sub("y", sameTime, "2026-03-01T08:00:00Z"),
+  ]);
+  check("same completion time: earlier start first", ids(byStart) === "y,x", ids(byStart));
+
+  const byId = orderApplicantQueue([sub("m", sameTime), sub("k", sameTime), sub("l", sameTime)]);
+  check("same completion and start: ordered by id", ids(byId) === "k,l,m", ids(byId));
+
+  const again = orderApplicantQueue([sub("l", sameTime), sub("m", sameTime), sub("k", sameTime)]);
+  check("tie order doesn't depend on input order", ids(again) === ids(byId), ids(again));
+}
+
+function testIncomplete() {
+  console.log("\n--- Missing completion timestamps ---");
+  const queue = orderApplicantQueue([
+    sub("draft", null, "2026-02-01T00:00:00Z"),
+    sub("done", "2026-03-02T10:00:00Z"),
+  ]);
+  check("unfinished applications are left out", ids(queue) === "done", ids(queue));
+  check("no completed applications: empty queue", orderApplicantQueue([sub("draft", null)]).length === 0);
+}
+
+function testUndecidedAhead() {
+  console.log("\n--- Undecided ahead ---");
+  const queue = orderApplicantQueue([
+    sub("first", "2026-03-01T10:00:00Z", undefined, true),
+    sub("second", "2026-03-02T10:00:00Z"),
+    sub("third", "2026-03-03T10:00:00Z"),
+    sub("fourth", "2026-03-04T10:00:00Z"),
+  ]);
+  const decided = (s: Submission) => !!s.decided;
+
+  check("head of the queue has nothing ahead", undecidedAhead(queue, "first", decided).length === 0);
+  check("decided submissions don't block", undecidedAhead(queue, "second", decided).length === 0);
+  const ahead = undecidedAhead(queue, "fourth", decided);
+  check("lists undecided submissions ahead, in queue order", ahead.join(",") === "second,third", ahead.join(","));
+  check("submissions behind aren't counted", !undecidedAhead(queue, "third", decided).includes("fourth"));
+  check("unknown submission has nothing ahead", undecidedAhead(queue, "draft", decided).length === 0);
+
+  const tied = orderApplicantQueue([sub("b", "2026-03-02T10:00:00Z"), sub("a", "2026-03-02T10:00:00Z")]);
+  const tiedAhead = undecidedAhead(tied, "b", decided);
+  check("on a tie the id order decides who is ahead", tiedAhead.join(",") === "a", tiedAhead.join(","));
+}
+
+function main() {
+  console.log("🚀 Applicant Queue Order Test\n" + "=".repeat(60));
+  testOrder();
+  testTies();
+  testIncomplete();
+  testUndecidedAhead();
+  console.log("=".repeat(60));
+  console.log(`\n${failed === 0 ? "✅ ALL PASSED" : "❌ FAILURES"} — ${passed} passed, ${failed} failed`);
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+main();
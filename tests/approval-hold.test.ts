@@ -0,0 +1,86 @@
+/**
+ * LeaseShield App - Approval Hold Test
+ *
+ * Covers shared/approvalHold.ts: a hold is met only once the lease is signed
+ * and any requested holding deposit is paid, the signing deadline is the
+ * approval time plus the property's window, and the status and countdown
+ * shown on the decision.
+ *
+ * Static: no database or server needed.
+ *
+ * Run:  npx tsx tests/approval-hold.test.ts
+ */
+
+import {
+  approvalHoldMet,
+  approvalHoldStatus,
+  formatTimeRemaining,
+  leaseSignDeadline,
+} from "@shared/approvalHold";
+
+let passed = 0;
+let failed = 0;
+
+function check(name: string, condition: boolean, details = "") {
+  if (condition) {
+    passed++;
+    console.log(`✅ ${name}${details ? `: ${details}` : ""}`);
+  } else {
+    failed++;
+    console.log(`❌ ${name}${details ? `: ${details}` : ""}`);
+  }
+}
+
+function testHoldMet() {
+  console.log("\n--- Hold requirements ---");
+  check("signed, no deposit requested: met", approvalHoldMet(true, null));
+  check("signed, deposit paid: met", approvalHoldMet(true, "paid"));
+  check("signed, deposit still pending: not met", !approvalHoldMet(true, "pending"));
+  check("signed, deposit processing: not met", !approvalHoldMet(true, "processing"));
+  check("signed, deposit canceled: not met", !approvalHoldMet(true, "canceled"));
+  check("deposit paid but lease unsigned: not met", !approvalHoldMet(false, "paid"));
+  check("nothing done: not met", !approvalHoldMet(false, null));
+}
+
+function testDeadline() {
+  console.log("\n--- Lease-signing deadline ---");
+  const approvedAt = new Date("2026-03-02T15:30:00Z");
+  const deadline = leaseSignDeadline(approvedAt, 48);
+  check("48 hours after approval", deadline.toISOString() === "2026-03-04T15:30:00.000Z", deadline.toISOString());
+
+  const short = leaseSignDeadline(approvedAt, 12);
+  check("a window can end the same day", short.toISOString() === "2026-03-03T03:30:00.000Z", short.toISOString());
+
+  const monthEnd = leaseSignDeadline(new Date("2026-02-27T20:00:00Z"), 72);
+  check("crosses the end of the month", monthEnd.toISOString() === "2026-03-02T20:00:00.000Z", monthEnd.toISOString());
+
+  check("approval time isn't changed", approvedAt.toISOString() === "2026-03-02T15:30:00.000Z");
+}
+
+function testStatus() {
+  console.log("\n--- Status and countdown ---");
+  const base = { leaseSignDeadlineAt: "2026-03-04T15:30:00Z", holdCompletedAt: null, holdExpiredAt: null };
+  check("no deadline: no hold", approvalHoldStatus({ ...base, leaseSignDeadlineAt: null }) === "none");
+  check("deadline set: pending", approvalHoldStatus(base) === "pending");
+  check("completed", approvalHoldStatus({ ...base, holdCompletedAt: "2026-03-03T10:00:00Z" }) === "completed");
+  check("expired", approvalHoldStatus({ ...base, holdExpiredAt: "2026-03-04T15:31:00Z" }) === "expired");
+
+  const now = new Date("2026-03-02T10:00:00Z");
+  const days = formatTimeRemaining("2026-03-04T15:30:00Z", now);
+  check("days and hours left", days === "2d 5h left", days);
+  const hours = formatTimeRemaining("2026-03-02T13:20:00Z", now);
+  check("hours and minutes left", hours === "3h 20m left", hours);
+  check("deadline passed", formatTimeRemaining("2026-03-02T10:00:00Z", now) === "Deadline passed");
+}
+
+function main() {
+  console.log("🚀 Approval Hold Test\n" + "=".repeat(60));
+  testHoldMet();
+  testDeadline();
+  testStatus();
+  console.log("=".repeat(60));
+  console.log(`\n${failed === 0 ? "✅ ALL PASSED" : "❌ FAILURES"} — ${passed} passed, ${failed} failed`);
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+main();
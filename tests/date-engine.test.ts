@@ -0,0 +1,171 @@
+/**
+ * LeaseShield App - Notice Date Engine Test
+ *
+ * Covers the counting in server/engine/dateEngine.ts that sets notice
+ * deadlines: day 0 vs day 1 conventions, business and judicial days with
+ * holidays, rolling a last day off a weekend or holiday, the mail extension,
+ * and the earliest filing date after the deadline.
+ *
+ * Static: no database or server needed. March 2, 2026 is a Monday.
+ *
+ * Run:  npx tsx tests/date-engine.test.ts
+ */
+
+import { calculateDates, type DateCalculationInput } from "../server/engine/dateEngine";
+
+let passed = 0;
+let failed = 0;
+
+function check(name: string, condition: boolean, details = "") {
+  if (condition) {
+    passed++;
+    console.log(`✅ ${name}${details ? `: ${details}` : ""}`);
+  } else {
+    failed++;
+    console.log(`❌ ${name}${details ? `: ${details}` : ""}`);
+  }
+}
+
+const HOLIDAY = [{ date: "2026-03-04", label: "Test Holiday" }];
+
+function dates(input: Partial<DateCalculationInput>) {
+  return calculateDates({
+    dayType: "calendar",
+    noticePeriodDays: 3,
+    countingConvention: "day0_service_plus_n",
+    serviceDate: "2026-03-02",
+    holidays: [],
+    ...input,
+  });
+}
+
+function expectDeadline(name: string, input: Partial<DateCalculationInput>, expected: string) {
+  const actual = dates(input).complianceDeadline;
+  check(name, actual === expected, actual);
+}
+
+function testConventions() {
+  console.log("\n--- Day 0 vs day 1 ---");
+  expectDeadline("day 0: service day excluded", {}, "2026-03-05");
+  expectDeadline("day 1: service day counted", { countingConvention: "day1_service_inclusive" }, "2026-03-04");
+  expectDeadline("business day 0 skips the weekend", { dayType: "business", noticePeriodDays: 5 }, "2026-03-09");
+  expectDeadline(
+    "business day 1 counts the service day",
+    { dayType: "business", noticePeriodDays: 5, countingConvention: "day1_service_inclusive" },
+    "2026-03-06",
+  );
+  expectDeadline(
+    "day 1 on a weekend service date starts at the next business day",
+    { dayType: "business", noticePeriodDays: 1, countingConvention: "day1_service_inclusive", serviceDate: "2026-03-07" },
+    "2026-03-09",
+  );
+  expectDeadline("zero-day period ends on the service day", { noticePeriodDays: 0 }, "2026-03-02");
+
+  const unknown = dates({ countingConvention: "made_up" });
+  check("unknown convention falls back to day 0", unknown.complianceDeadline === "2026-03-05", unknown.complianceDeadline);
+  check("and says so in the explanation", unknown.explainFormula.includes('unrecognized convention "made_up"'));
+}
+
+function testHolidays() {
+  console.log("\n--- Business and judicial days ---");
+  expectDeadline("business days skip holidays", { dayType: "business", noticePeriodDays: 5, holidays: HOLIDAY }, "2026-03-10");
+  expectDeadline(
+    "judicial days skip weekends but not holidays",
+    { dayType: "judicial", noticePeriodDays: 5, holidays: HOLIDAY },
+    "2026-03-09",
+  );
+  expectDeadline(
+    "judicial_holidays_excluded skips both",
+    { dayType: "judicial_holidays_excluded", noticePeriodDays: 5, holidays: HOLIDAY },
+    "2026-03-10",
+  );
+}
+
+function testRollForward() {
+  console.log("\n--- Roll forward ---");
+  expectDeadline("without roll forward a Saturday deadline stands", { noticePeriodDays: 5 }, "2026-03-07");
+  expectDeadline(
+    "a Saturday deadline rolls to Monday",
+    { noticePeriodDays: 5, countingConvention: "day0_service_plus_n_roll_forward" },
+    "2026-03-09",
+  );
+  expectDeadline(
+    "day 1 roll forward also rolls",
+    { noticePeriodDays: 6, countingConvention: "day1_service_inclusive_roll_forward" },
+    "2026-03-09",
+  );
+
+  const july = dates({
+    noticePeriodDays: 1,
+    countingConvention: "day0_service_plus_n_roll_forward",
+    serviceDate: "2026-07-02",
+    holidays: [{ date: "2026-07-03", label: "Independence Day (observed)" }],
+  });
+  check("a holiday deadline rolls past the holiday and the weekend", july.complianceDeadline === "2026-07-06", july.complianceDeadline);
+  check(
+    "the explanation names the holiday",
+    july.explainFormula.includes("a holiday (Independence Day (observed))"),
+    july.explainFormula,
+  );
+}
+
+function testMailExtension() {
+  console.log("\n--- Mail extension ---");
+  const mail = [{ methodDisplayName: "First-class mail", extensionDays: 3 }];
+  expectDeadline("mail adds calendar days after the period", { serviceExtensions: mail }, "2026-03-08");
+  expectDeadline(
+    "mail extension is added before rolling forward",
+    { serviceExtensions: mail, countingConvention: "day0_service_plus_n_roll_forward" },
+    "2026-03-09",
+  );
+  expectDeadline(
+    "mail extension is calendar days even on a business-day period",
+    { dayType: "business", noticePeriodDays: 5, serviceExtensions: mail },
+    "2026-03-12",
+  );
+  expectDeadline(
+    "only the longest extension applies",
+    {
+      serviceExtensions: [
+        { methodDisplayName: "Posting", extensionDays: 0 },
+        { methodDisplayName: "First-class mail", extensionDays: 3 },
+        { methodDisplayName: "Certified mail", extensionDays: 5 },
+      ],
+    },
+    "2026-03-10",
+  );
+  const explained = dates({ serviceExtensions: mail });
+  check(
+    "the explanation shows the extension",
+    explained.explainFormula.includes("Served by First-class mail: + 3 calendar days"),
+    explained.explainFormula,
+  );
+}
+
+function testFilingDate() {
+  console.log("\n--- Earliest filing date ---");
+  const weekday = dates({});
+  check("filing opens the day after the deadline", weekday.earliestFilingDate === "2026-03-06", weekday.earliestFilingDate);
+
+  const friday = dates({ noticePeriodDays: 4, holidays: [{ date: "2026-03-09", label: "Test Holiday" }] });
+  check("deadline is the end of the notice period", friday.complianceDeadline === "2026-03-06");
+  check(
+    "filing after a Friday deadline skips the weekend and a Monday holiday",
+    friday.earliestFilingDate === "2026-03-10",
+    friday.earliestFilingDate,
+  );
+}
+
+function main() {
+  console.log("🚀 Notice Date Engine Test\n" + "=".repeat(60));
+  testConventions();
+  testHolidays();
+  testRollForward();
+  testMailExtension();
+  testFilingDate();
+  console.log("=".repeat(60));
+  console.log(`\n${failed === 0 ? "✅ ALL PASSED" : "❌ FAILURES"} — ${passed} passed, ${failed} failed`);
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+main();
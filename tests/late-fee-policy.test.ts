@@ -0,0 +1,134 @@
+/**
+ * LeaseShield App - Late Fee Policy Test
+ *
+ * Covers shared/lateFeePolicy.ts: the grace period (no fee until daysLate
+ * passes it), each policy type's total, the daily maximum, and the state caps
+ * and minimum grace period a policy is checked against.
+ *
+ * Static: no database or server needed.
+ *
+ * Run:  npx tsx tests/late-fee-policy.test.ts
+ */
+
+import {
+  computeLateFeeCents,
+  effectiveLateFeePolicy,
+  maxLateFeeCents,
+  parseLateFeePolicy,
+  stateLateFeeCapCents,
+  validateLateFeePolicy,
+  type LateFeePolicy,
+  type LateFeeStateLimits,
+} from "@shared/lateFeePolicy";
+
+let passed = 0;
+let failed = 0;
+
+function check(name: string, condition: boolean, details = "") {
+  if (condition) {
+    passed++;
+    console.log(`✅ ${name}${details ? `: ${details}` : ""}`);
+  } else {
+    failed++;
+    console.log(`❌ ${name}${details ? `: ${details}` : ""}`);
+  }
+}
+
+const RENT = 150000;
+
+function fee(policy: LateFeePolicy, daysLate: number, graceDays = 5): number {
+  return computeLateFeeCents(policy, { rentCents: RENT, daysLate, graceDays });
+}
+
+function testGracePeriod() {
+  console.log("\n--- Grace period ---");
+  const flat: LateFeePolicy = { type: "flat", amountCents: 7500 };
+  check("no fee on the last day of grace", fee(flat, 5) === 0);
+  check("fee owed the day after grace ends", fee(flat, 6) === 7500);
+  check("no fee before the due date", fee(flat, 0, 0) === 0);
+  check("zero grace charges on day 1", fee(flat, 1, 0) === 7500);
+}
+
+function testPolicyTypes() {
+  console.log("\n--- Policy totals ---");
+  check("percent of rent", fee({ type: "percent", percentOfRent: 5 }, 6) === 7500);
+  check("percent rounds to the cent", computeLateFeeCents({ type: "percent", percentOfRent: 5 }, { rentCents: 99999, daysLate: 6, graceDays: 5 }) === 5000);
+
+  const daily: LateFeePolicy = { type: "daily", initialCents: 2500, dailyCents: 1000, maxCents: 10000 };
+  check("daily: first day past grace is initial + one day", fee(daily, 6) === 3500, String(fee(daily, 6)));
+  check("daily: accrues per day past grace", fee(daily, 10) === 7500, String(fee(daily, 10)));
+  check("daily: capped at its maximum", fee(daily, 30) === 10000, String(fee(daily, 30)));
+  check("daily: maximum is the policy maximum", maxLateFeeCents(daily, RENT) === 10000);
+
+  const tiered: LateFeePolicy = {
+    type: "tiered",
+    tiers: [{ daysLate: 6, amountCents: 5000 }, { daysLate: 15, amountCents: 10000 }],
+  };
+  check("tiered: nothing before the first tier", fee(tiered, 5, 3) === 0);
+  check("tiered: first tier is the total, not an increment", fee(tiered, 10) === 5000);
+  check("tiered: later tier replaces the earlier total", fee(tiered, 20) === 10000);
+  check("tiered: maximum is the top tier", maxLateFeeCents(tiered, RENT) === 10000);
+
+  check(
+    "legacy flat amount becomes a flat policy",
+    JSON.stringify(effectiveLateFeePolicy({ lateFeeAmount: 5000 })) === JSON.stringify({ type: "flat", amountCents: 5000 }),
+  );
+  check("no amount and no policy means no late fee", effectiveLateFeePolicy({ lateFeeAmount: 0 }) === null);
+}
+
+function testParsing() {
+  console.log("\n--- Parsing ---");
+  const dollars = parseLateFeePolicy({ type: "flat", amountDollars: "75.50" });
+  check("dollar fields are converted to cents", "policy" in dollars && JSON.stringify(dollars.policy) === JSON.stringify({ type: "flat", amountCents: 7550 }));
+  check("daily fees require a maximum", "error" in parseLateFeePolicy({ type: "daily", dailyCents: 1000, maxCents: 0 }));
+  check(
+    "tier totals can't go down",
+    "error" in parseLateFeePolicy({ type: "tiered", tiers: [{ daysLate: 5, amountCents: 5000 }, { daysLate: 10, amountCents: 2500 }] }),
+  );
+  const sorted = parseLateFeePolicy({ type: "tiered", tiers: [{ daysLate: 10, amountCents: 9000 }, { daysLate: 5, amountCents: 5000 }] });
+  check("tiers are sorted by days late", "policy" in sorted && sorted.policy.type === "tiered" && sorted.policy.tiers[0].daysLate === 5);
+  check("percent above 100 is rejected", "error" in parseLateFeePolicy({ type: "percent", percentOfRent: 120 }));
+}
+
+function testStateLimits() {
+  console.log("\n--- State caps ---");
+  const limits = (fields: Partial<LateFeeStateLimits>): LateFeeStateLimits => ({
+    stateId: "XX", capPct: null, capFlatCents: null, minGraceDays: null, citations: ["Test Code § 1"], ...fields,
+  });
+
+  check("no limits on file means no cap", stateLateFeeCapCents(null, RENT) === null);
+  check("percent cap of rent", stateLateFeeCapCents(limits({ capPct: 5 }), RENT) === 7500);
+  check("percent cap rounds down", stateLateFeeCapCents(limits({ capPct: 5 }), 99999) === 4999);
+  check("lower of percent and flat cap applies", stateLateFeeCapCents(limits({ capPct: 10, capFlatCents: 5000 }), RENT) === 5000);
+
+  const capped = limits({ capPct: 5 });
+  check(
+    "flat fee at the cap passes",
+    validateLateFeePolicy({ type: "flat", amountCents: 7500 }, { rentCents: RENT, graceDays: 5, limits: capped }).length === 0,
+  );
+  const over = validateLateFeePolicy(
+    { type: "daily", initialCents: 0, dailyCents: 1000, maxCents: 20000 },
+    { rentCents: RENT, graceDays: 5, limits: capped },
+  );
+  check("a daily maximum over the cap is flagged", over.length === 1 && over[0].includes("$75.00"), over.join(" | "));
+  check("the citation is included", over.length === 1 && over[0].includes("Test Code § 1"));
+
+  const grace = validateLateFeePolicy(
+    { type: "flat", amountCents: 5000 },
+    { rentCents: RENT, graceDays: 3, limits: limits({ minGraceDays: 5 }) },
+  );
+  check("a grace period shorter than the state minimum is flagged", grace.length === 1 && grace[0].includes("at least 5 days"), grace.join(" | "));
+}
+
+function main() {
+  console.log("🚀 Late Fee Policy Test\n" + "=".repeat(60));
+  testGracePeriod();
+  testPolicyTypes();
+  testParsing();
+  testStateLimits();
+  console.log("=".repeat(60));
+  console.log(`\n${failed === 0 ? "✅ ALL PASSED" : "❌ FAILURES"} — ${passed} passed, ${failed} failed`);
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+main();
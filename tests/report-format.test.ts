@@ -0,0 +1,112 @@
+/**
+ * LeaseShield App - Report CSV Formatting Test
+ *
+ * Covers the CSV cells in server/utils/reportFormat.ts and the owner report
+ * CSV built from them: text a spreadsheet would run as a formula (=, +, -, @,
+ * a leading tab or CR) is kept as text, commas, quotes and line breaks are
+ * quoted, and money columns are plain numbers a spreadsheet can total.
+ *
+ * Static: no database or server needed. ownerReports loads storage, which
+ * requires DATABASE_URL to be set, so a placeholder is used when it isn't;
+ * nothing connects.
+ *
+ * Run:  npx tsx tests/report-format.test.ts
+ */
+
+import type { OwnerReport } from "@shared/ownerReports";
+import { csvAmount, csvText } from "../server/utils/reportFormat";
+
+let passed = 0;
+let failed = 0;
+
+function check(name: string, condition: boolean, details = "") {
+  if (condition) {
+    passed++;
+    console.log(`✅ ${name}${details ? `: ${details}` : ""}`);
+  } else {
+    failed++;
+    console.log(`❌ ${name}${details ? `: ${details}` : ""}`);
+  }
+}
+
+function expectCell(name: string, actual: string, expected: string) {
+  check(name, actual === expected, JSON.stringify(actual));
+}
+
+function testFormulaGuard() {
+  console.log("\n--- Formula injection ---");
+  expectCell("leading = is kept as text", csvText("=HYPERLINK(\"http://x\")"), `"'=HYPERLINK(""http://x"")"`);
+  expectCell("leading + is kept as text", csvText("+1234"), "'+1234");
+  expectCell("leading - is kept as text", csvText("-2+3"), "'-2+3");
+  expectCell("leading @ is kept as text", csvText("@SUM(A1:A2)"), "'@SUM(A1:A2)");
+  expectCell("leading tab is kept as text", csvText("\t=1+1"), "'\t=1+1");
+  expectCell("leading CR is kept as text and quoted", csvText("\r=1+1"), `"'\r=1+1"`);
+  expectCell("formula characters later in the cell are left alone", csvText("Unit 4 - Smith"), "Unit 4 - Smith");
+  expectCell("plain text is unchanged", csvText("Maple Court"), "Maple Court");
+  expectCell("empty text is unchanged", csvText(""), "");
+}
+
+function testQuoting() {
+  console.log("\n--- Quoting ---");
+  expectCell("commas are quoted", csvText("Smith, Jane"), `"Smith, Jane"`);
+  expectCell("quotes are doubled and quoted", csvText('The "Annex"'), `"The ""Annex"""`);
+  expectCell("line breaks are quoted", csvText("Line 1\nLine 2"), `"Line 1\nLine 2"`);
+  expectCell("guarded cell with a comma is quoted too", csvText("=1,2"), `"'=1,2"`);
+}
+
+function testAmounts() {
+  console.log("\n--- Amounts ---");
+  expectCell("cents as dollars", csvAmount(123456), "1234.56");
+  expectCell("no thousands separator", csvAmount(100000000), "1000000.00");
+  expectCell("whole dollars keep two places", csvAmount(500), "5.00");
+  expectCell("negative amounts stay numbers", csvAmount(-1250), "-12.50");
+  expectCell("zero", csvAmount(0), "0.00");
+}
+
+async function testOwnerReportCsv() {
+  console.log("\n--- Owner report CSV ---");
+  process.env.DATABASE_URL ||= "postgres://placeholder@localhost/placeholder";
+  const { ownerReportCsv } = await import("../server/utils/ownerReports");
+
+  const report: OwnerReport = {
+    kind: "rent-roll",
+    title: "Rent Roll",
+    period: "As of March 2, 2026",
+    columns: [
+      { key: "tenant", title: "Tenant", width: 200 },
+      { key: "units", title: "Units", width: 100 },
+      { key: "balance", title: "Balance, Due", money: true, width: 100 },
+    ],
+    rows: [
+      { cells: { tenant: "=cmd|' /C calc'!A0", units: 2, balance: -1250 } },
+      { cells: { tenant: 'Smith, "Jay"', units: null, balance: 123456 } },
+      { cells: { tenant: "@Jones" } },
+    ],
+    totals: { tenant: "Total", units: 2, balance: 122206 },
+    notes: [],
+  };
+
+  const lines = ownerReportCsv(report).split("\n");
+  expectCell("header row is quoted where needed", lines[0], `Tenant,Units,"Balance, Due"`);
+  expectCell("formula in a tenant name is kept as text", lines[1], `'=cmd|' /C calc'!A0,2,-12.50`);
+  expectCell("commas and quotes in a name are quoted; null is empty", lines[2], `"Smith, ""Jay""",,1234.56`);
+  expectCell("missing cells are empty", lines[3], `'@Jones,,`);
+  expectCell("totals row comes last", lines[4], "Total,2,1222.06");
+  check("one line per row plus header and totals", lines.length === 5, String(lines.length));
+
+  const noTotals = ownerReportCsv({ ...report, rows: [], totals: null });
+  expectCell("an empty report without totals is just the header", noTotals, `Tenant,Units,"Balance, Due"`);
+}
+
+async function main() {
+  console.log("🚀 Report CSV Formatting Test\n" + "=".repeat(60));
+  testFormulaGuard();
+  testQuoting();
+  testAmounts();
+  await testOwnerReportCsv();
+  console.log("=".repeat(60));
+  console.log(`\n${failed === 0 ? "✅ ALL PASSED" : "❌ FAILURES"} — ${passed} passed, ${failed} failed`);
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+main();
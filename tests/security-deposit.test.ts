@@ -0,0 +1,99 @@
+/**
+ * LeaseShield App - Security Deposit Disposition Test
+ *
+ * Covers shared/securityDeposit.ts: how deductions come out of the deposit
+ * and interest, what is refunded and what the tenant still owes, simple
+ * interest, and the date math behind the return deadline.
+ *
+ * Static: no database or server needed.
+ *
+ * Run:  npx tsx tests/security-deposit.test.ts
+ */
+
+import {
+  addDaysToDate,
+  computeDepositDisposition,
+  computeDepositInterestCents,
+  daysUntilDate,
+} from "@shared/securityDeposit";
+
+let passed = 0;
+let failed = 0;
+
+function check(name: string, condition: boolean, details = "") {
+  if (condition) {
+    passed++;
+    console.log(`✅ ${name}${details ? `: ${details}` : ""}`);
+  } else {
+    failed++;
+    console.log(`❌ ${name}${details ? `: ${details}` : ""}`);
+  }
+}
+
+function testDisposition() {
+  console.log("\n--- Disposition ---");
+  const partial = computeDepositDisposition({ depositCents: 150000, interestCents: 1200, deductionsCents: 50000 });
+  check("deductions come out of the deposit", partial.appliedCents === 50000);
+  check("deposit plus interest less deductions is refunded", partial.refundCents === 101200);
+  check("nothing left owing when the deposit covers it", partial.balanceDueCents === 0);
+
+  const over = computeDepositDisposition({ depositCents: 150000, interestCents: 1200, deductionsCents: 200000 });
+  check("no more than deposit plus interest is applied", over.appliedCents === 151200);
+  check("no refund when deductions exceed the deposit", over.refundCents === 0);
+  check("the excess is a balance due from the tenant", over.balanceDueCents === 48800);
+
+  const clean = computeDepositDisposition({ depositCents: 150000, interestCents: 0, deductionsCents: 0 });
+  check("no deductions refunds the whole deposit", clean.refundCents === 150000 && clean.appliedCents === 0);
+
+  const exact = computeDepositDisposition({ depositCents: 150000, interestCents: 0, deductionsCents: 150000 });
+  check(
+    "deductions equal to the deposit leave nothing either way",
+    exact.refundCents === 0 && exact.balanceDueCents === 0 && exact.appliedCents === 150000,
+  );
+  check(
+    "applied plus refund always equals deposit plus interest",
+    [partial, over, clean, exact].every((d) => d.appliedCents + d.refundCents === d.depositCents + d.interestCents),
+  );
+}
+
+function testInterest() {
+  console.log("\n--- Interest ---");
+  const yearly = computeDepositInterestCents({
+    amountCents: 100000, annualRatePct: 1, collectedDate: "2025-01-01", throughDate: "2026-01-01",
+  });
+  check("one year at 1% simple interest", yearly === 1000, String(yearly));
+  const half = computeDepositInterestCents({
+    amountCents: 150000, annualRatePct: 2, collectedDate: "2026-01-01", throughDate: "2026-07-02",
+  });
+  check("partial year is prorated by days", half === 1496, String(half));
+  check(
+    "no rate means no interest",
+    computeDepositInterestCents({ amountCents: 150000, annualRatePct: null, collectedDate: "2025-01-01", throughDate: "2026-01-01" }) === 0,
+  );
+  check(
+    "a through date before collection earns nothing",
+    computeDepositInterestCents({ amountCents: 150000, annualRatePct: 2, collectedDate: "2026-01-01", throughDate: "2025-06-01" }) === 0,
+  );
+}
+
+function testDates() {
+  console.log("\n--- Return deadline dates ---");
+  check("adds days across a month end", addDaysToDate("2026-01-31", 30) === "2026-03-02", addDaysToDate("2026-01-31", 30));
+  check("handles leap day", addDaysToDate("2028-02-28", 1) === "2028-02-29");
+  check("handles year end", addDaysToDate("2026-12-20", 14) === "2027-01-03");
+  check("days until a future deadline", daysUntilDate("2026-03-10", new Date("2026-03-01T23:30:00Z")) === 9);
+  check("zero on the deadline itself", daysUntilDate("2026-03-10", new Date("2026-03-10T01:00:00Z")) === 0);
+  check("negative once the deadline has passed", daysUntilDate("2026-03-10", new Date("2026-03-12T08:00:00Z")) === -2);
+}
+
+function main() {
+  console.log("🚀 Security Deposit Disposition Test\n" + "=".repeat(60));
+  testDisposition();
+  testInterest();
+  testDates();
+  console.log("=".repeat(60));
+  console.log(`\n${failed === 0 ? "✅ ALL PASSED" : "❌ FAILURES"} — ${passed} passed, ${failed} failed`);
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+main();
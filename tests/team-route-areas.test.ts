@@ -0,0 +1,92 @@
+/**
+ * LeaseShield App - Team Route Area Coverage Test
+ *
+ * Team members reach an authenticated /api route only through the area
+ * teamAreaForPath maps it to; unmapped routes are owner-only. This test reads
+ * every route registered with isAuthenticated in server/ and fails when one
+ * has no rule, so a new route can't ship without a decision about who on a
+ * team may use it.
+ *
+ * Static: reads source files only, no database or server needed.
+ *
+ * Run:  npx tsx tests/team-route-areas.test.ts
+ */
+
+import fs from "fs";
+import path from "path";
+import { canAccessTeamArea } from "@shared/organizations";
+import { hasTeamRouteRule, teamAreaForPath } from "../server/utils/teamRouteAreas";
+
+let passed = 0;
+let failed = 0;
+
+function check(name: string, condition: boolean, details = "") {
+  if (condition) {
+    passed++;
+    console.log(`✅ ${name}${details ? `: ${details}` : ""}`);
+  } else {
+    failed++;
+    console.log(`❌ ${name}${details ? `: ${details}` : ""}`);
+  }
+}
+
+function sourceFiles(dir: string): string[] {
+  return fs.readdirSync(dir, { withFileTypes: true }).flatMap((entry) => {
+    const full = path.join(dir, entry.name);
+    if (entry.isDirectory()) return sourceFiles(full);
+    return entry.name.endsWith(".ts") ? [full] : [];
+  });
+}
+
+// app.get('/api/...', isAuthenticated, ..., async (req, res) => ...
+const ROUTE_RE = /app\.(get|post|put|patch|delete)\(\s*['"`](\/api\/[^'"`]+)['"`]\s*,([^)]*?)(async|\()/g;
+
+function authenticatedRoutes(): { method: string; route: string; file: string }[] {
+  const serverDir = path.resolve(import.meta.dirname, "..", "server");
+  const routes: { method: string; route: string; file: string }[] = [];
+  for (const file of sourceFiles(serverDir)) {
+    const source = fs.readFileSync(file, "utf8");
+    for (const match of Array.from(source.matchAll(ROUTE_RE))) {
+      if (!match[3].includes("isAuthenticated")) continue;
+      routes.push({ method: match[1].toUpperCase(), route: match[2], file: path.relative(serverDir, file) });
+    }
+  }
+  return routes;
+}
+
+function main() {
+  console.log("🚀 Team Route Area Coverage Test\n" + "=".repeat(60));
+
+  const routes = authenticatedRoutes();
+  check("found authenticated routes to check", routes.length > 100, `${routes.length} routes`);
+
+  const unmapped = routes.filter((r) => !hasTeamRouteRule(r.route));
+  check(
+    "every authenticated /api route has a team area rule",
+    unmapped.length === 0,
+    unmapped.map((r) => `${r.method} ${r.route} (${r.file})`).join(", "),
+  );
+
+  // Unmapped paths must not fall through to an area members can reach.
+  check("unknown path is owner-only", teamAreaForPath("/api/not-a-real-route") === null);
+  check("admin routes are owner-only", teamAreaForPath("/api/admin/users") === null);
+  check("template restore is owner-only", teamAreaForPath("/api/templates/t1/restore-version/v1") === null);
+  check("templates are general", teamAreaForPath("/api/templates/t1") === "general");
+  check("notifications are general", teamAreaForPath("/api/notifications") === "general");
+  check("dashboard is general", teamAreaForPath("/api/dashboard/attention") === "general");
+  check("support messages are account", teamAreaForPath("/api/messages/direct") === "account");
+  check("tenancy deposits are ledger", teamAreaForPath("/api/tenancies/t1/deposits") === "ledger");
+  check("tenancies are properties", teamAreaForPath("/api/tenancies/t1") === "properties");
+  check("property expenses are ledger", teamAreaForPath("/api/property-expenses/schedule-e") === "ledger");
+  check("reupload links are applications", teamAreaForPath("/api/admin/people/p1/reupload-link") === "applications");
+
+  check("bookkeeper can't read applications", !canAccessTeamArea("bookkeeper", "applications"));
+  check("leasing agent can't read the ledger", !canAccessTeamArea("leasing_agent", "ledger"));
+  check("manager can't write account settings", !canAccessTeamArea("manager", "account", "write"));
+
+  console.log("=".repeat(60));
+  console.log(`\n${failed === 0 ? "✅ ALL PASSED" : "❌ FAILURES"} — ${passed} passed, ${failed} failed`);
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+main();
@@ -0,0 +1,186 @@
+/**
+ * LeaseShield App - Tenant Ledger Allocation Test
+ *
+ * Covers the pure rules in shared/tenantLedger.ts that decide which charges a
+ * payment pays off: allocation order under each rule, credit adjustments
+ * going to the charge they adjust, and how a reversal or NSF return frees up
+ * what was allocated so the next pass re-applies it.
+ *
+ * Static: no database or server needed.
+ *
+ * Run:  npx tsx tests/tenant-ledger.test.ts
+ */
+
+import {
+  ledgerBalance,
+  ledgerPositions,
+  planAllocations,
+  reversalError,
+  withRunningBalances,
+  type LedgerAllocationLike,
+  type LedgerEntryLike,
+  type PlannedAllocation,
+} from "@shared/tenantLedger";
+
+let passed = 0;
+let failed = 0;
+
+function check(name: string, condition: boolean, details = "") {
+  if (condition) {
+    passed++;
+    console.log(`✅ ${name}${details ? `: ${details}` : ""}`);
+  } else {
+    failed++;
+    console.log(`❌ ${name}${details ? `: ${details}` : ""}`);
+  }
+}
+
+function entry(id: string, day: string, fields: Partial<LedgerEntryLike>): LedgerEntryLike {
+  return {
+    id,
+    type: "charge",
+    category: "Rent",
+    amountExpected: 0,
+    amountReceived: 0,
+    effectiveDate: day,
+    createdAt: `${day}T12:00:00Z`,
+    ...fields,
+  };
+}
+
+const charge = (id: string, day: string, cents: number, category = "Rent") =>
+  entry(id, day, { type: "charge", category, amountExpected: cents });
+const payment = (id: string, day: string, cents: number, allocationRule: string | null = null) =>
+  entry(id, day, { type: "payment", amountReceived: cents, allocationRule });
+
+function describe(planned: PlannedAllocation[]): string {
+  return planned.map((a) => `${a.creditEntryId}->${a.debitEntryId}:${a.amount}`).join(", ");
+}
+
+function matches(planned: PlannedAllocation[], expected: string): boolean {
+  return describe(planned) === expected;
+}
+
+// January rent, a January late fee, then February rent.
+const JAN = charge("rent-jan", "2026-01-01", 150000);
+const FEE = charge("fee-jan", "2026-01-06", 7500, "Late Fee");
+const FEB = charge("rent-feb", "2026-02-01", 150000);
+
+function testAllocationOrder() {
+  console.log("\n--- Allocation order ---");
+
+  const oldest = planAllocations([JAN, FEE, FEB, payment("pay", "2026-02-03", 200000, "oldest_first")], []);
+  check(
+    "oldest_first pays January rent, the fee, then February",
+    matches(oldest, "pay->rent-jan:150000, pay->fee-jan:7500, pay->rent-feb:42500"),
+    describe(oldest),
+  );
+
+  const unset = planAllocations([JAN, FEE, FEB, payment("pay", "2026-02-03", 200000)], []);
+  check("no rule on the payment falls back to oldest_first", describe(unset) === describe(oldest), describe(unset));
+
+  const rentFirst = planAllocations([JAN, FEE, FEB, payment("pay", "2026-02-03", 200000, "rent_first")], []);
+  check(
+    "rent_first pays both months of rent before the fee",
+    matches(rentFirst, "pay->rent-jan:150000, pay->rent-feb:50000"),
+    describe(rentFirst),
+  );
+
+  const twoPayments = planAllocations(
+    [JAN, FEE, payment("second", "2026-01-20", 7500), payment("first", "2026-01-05", 150000)],
+    [],
+  );
+  check(
+    "earlier payments are applied first",
+    matches(twoPayments, "first->rent-jan:150000, second->fee-jan:7500"),
+    describe(twoPayments),
+  );
+
+  const credit = entry("waive", "2026-01-08", {
+    type: "adjustment", category: "Late Fee", amountReceived: 7500, adjustsEntryId: "fee-jan",
+  });
+  const adjusted = planAllocations([JAN, FEE, credit], []);
+  check("a credit adjustment goes to the charge it adjusts", matches(adjusted, "waive->fee-jan:7500"), describe(adjusted));
+
+  const existing: LedgerAllocationLike[] = [{ creditEntryId: "pay", debitEntryId: "rent-jan", amount: 100000 }];
+  const topUp = planAllocations([JAN, FEB, payment("pay", "2026-01-03", 100000), payment("more", "2026-01-15", 80000)], existing);
+  check(
+    "existing allocations are kept and only the remainder is planned",
+    matches(topUp, "more->rent-jan:50000, more->rent-feb:30000"),
+    describe(topUp),
+  );
+
+  const overpaid = planAllocations([JAN, payment("pay", "2026-01-03", 160000)], []);
+  const { unappliedCredits } = ledgerPositions([JAN, payment("pay", "2026-01-03", 160000)], [
+    { creditEntryId: "pay", debitEntryId: "rent-jan", amount: 150000 },
+  ]);
+  check("an overpayment allocates only what is owed", matches(overpaid, "pay->rent-jan:150000"), describe(overpaid));
+  check("the overpayment stays as an unapplied credit", unappliedCredits.get("pay") === 10000);
+}
+
+function testReversals() {
+  console.log("\n--- Reversal and NSF re-allocation ---");
+
+  // A $1,500 payment applied to January rent bounces. The NSF return nets the
+  // payment to zero and the allocation is released, so January is open again.
+  const paid = payment("pay", "2026-01-03", 150000);
+  const nsf = entry("nsf", "2026-01-10", { type: "nsf_return", amountExpected: 150000, reversesEntryId: "pay" });
+  const released: LedgerAllocationLike[] = [
+    { creditEntryId: "pay", debitEntryId: "rent-jan", amount: 150000, releasedAt: "2026-01-10T12:00:00Z" },
+  ];
+  const afterNsf = ledgerPositions([JAN, paid, nsf], released);
+  check("NSF return reopens the charge the payment covered", afterNsf.openDebits.get("rent-jan") === 150000);
+  check("the returned payment has nothing left to apply", !afterNsf.unappliedCredits.has("pay"));
+  check("the NSF row is not itself a debit", !afterNsf.openDebits.has("nsf"));
+
+  const replacement = planAllocations([JAN, paid, nsf, payment("retry", "2026-01-12", 150000)], released);
+  check(
+    "the replacement payment is applied to the reopened charge",
+    matches(replacement, "retry->rent-jan:150000"),
+    describe(replacement),
+  );
+
+  // Reversing a charge frees the payment that covered it for the next charge.
+  const reversedCharge = entry("rev-jan", "2026-01-04", { type: "reversal", amountReceived: 150000, reversesEntryId: "rent-jan" });
+  const freed: LedgerAllocationLike[] = [
+    { creditEntryId: "pay", debitEntryId: "rent-jan", amount: 150000, releasedAt: "2026-01-04T12:00:00Z" },
+  ];
+  const reallocated = planAllocations([JAN, FEB, paid, reversedCharge], freed);
+  check(
+    "a payment freed by a charge reversal moves to the next open charge",
+    matches(reallocated, "pay->rent-feb:150000"),
+    describe(reallocated),
+  );
+
+  // Stripe rows carry the rent owed and the amount paid on one row. An NSF
+  // return of the paid side leaves the rent owed open.
+  const stripeRow = entry("stripe", "2026-02-01", { type: "payment", amountExpected: 150000, amountReceived: 150000 });
+  const stripeNsf = entry("stripe-nsf", "2026-02-06", { type: "nsf_return", amountExpected: 150000, reversesEntryId: "stripe" });
+  const stripePositions = ledgerPositions([stripeRow, stripeNsf], []);
+  check("a two-sided Stripe row nets to nothing open", !ledgerPositions([stripeRow], []).openDebits.has("stripe"));
+  check("its NSF return leaves the rent owed open", stripePositions.openDebits.get("stripe") === 150000);
+
+  check("balance after the NSF return is the full January rent", ledgerBalance([JAN, paid, nsf]) === 150000);
+  const running = withRunningBalances([nsf, JAN, paid]);
+  check(
+    "running balances follow ledger order",
+    running.map((e) => e.runningBalance).join(",") === "150000,0,150000",
+    running.map((e) => `${e.id}=${e.runningBalance}`).join(", "),
+  );
+
+  check("a payment can be returned NSF", reversalError(paid, [JAN, paid], true) === null);
+  check("a payment can't be reversed twice", reversalError(paid, [JAN, paid, nsf]) !== null);
+  check("a reversal can't be reversed", reversalError(nsf, [JAN, paid, nsf]) !== null);
+  check("only payments can be returned NSF", reversalError(JAN, [JAN], true) !== null);
+}
+
+function main() {
+  console.log("🚀 Tenant Ledger Allocation Test\n" + "=".repeat(60));
+  testAllocationOrder();
+  testReversals();
+  console.log("=".repeat(60));
+  console.log(`\n${failed === 0 ? "✅ ALL PASSED" : "❌ FAILURES"} — ${passed} passed, ${failed} failed`);
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+main();